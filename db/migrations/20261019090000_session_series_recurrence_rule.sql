@@ -0,0 +1,66 @@
+-- migrate:up
+
+ALTER TABLE session_series
+  ADD COLUMN recurrence_rule text,
+  -- Excluded occurrences as wall-clock date-times (YYYY-MM-DDTHH:MM:SS) in the series timezone, like EXDATE;TZID.
+  ADD COLUMN recurrence_exdates text[] DEFAULT '{}'::text[] NOT NULL,
+  ADD CONSTRAINT session_series_recurrence_rule_check CHECK ((recurrence_rule <> ''::text));
+
+-- Series created before RRULE support only have a daily interval; give them the equivalent rule so they keep
+-- recurring when the rule is edited or expanded.
+UPDATE session_series
+   SET recurrence_rule = CASE
+         WHEN date_part('day'::text, daily_recurrence_interval) = 1 THEN 'FREQ=DAILY'::text
+         ELSE 'FREQ=DAILY;INTERVAL=' || date_part('day'::text, daily_recurrence_interval)::integer
+       END
+ WHERE recurrence_rule IS NULL
+   AND daily_recurrence_interval IS NOT NULL;
+
+-- The occurrence a session was generated for, so moved occurrences can still be matched back to the rule.
+ALTER TABLE session
+  ADD COLUMN recurrence_id timestamp with time zone;
+
+CREATE INDEX session_session_series_id_recurrence_id_idx ON session (session_series_id, recurrence_id);
+
+CREATE OR REPLACE VIEW public.vw_legacy_session_series_2 AS
+ SELECT session_series.created_at AS "createdAt",
+    session_series.id,
+        CASE session_series.event_type
+            WHEN 'event'::public.citext THEN 'event'::text
+            WHEN 'single_session'::public.citext THEN 'single'::text
+            WHEN 'group_session'::public.citext THEN 'group'::text
+            ELSE NULL::text
+        END AS "sessionType",
+    session_series.name AS "sessionName",
+    session_series.color AS "sessionColor",
+    session_series.session_icon_id AS "avatarName",
+    session_series.icon_url AS "imageURL",
+    round(((((100)::double precision * date_part('epoch'::text, session_series.duration)) / (3600)::double precision) / (100)::double precision)) AS "sessionLength",
+    session_series.timezone,
+    to_char(timezone((session_series.timezone)::text, session_series.start), 'YYYY-MM-DD HH24:MI:SS'::text) AS "startDate",
+    to_char(
+        CASE
+            WHEN (session_series.end_ IS NULL) THEN date_trunc('second'::text, (timezone((session_series.timezone)::text, session_series.start) + session_series.duration))
+            ELSE timezone((session_series.timezone)::text, session_series.end_)
+        END, 'YYYY-MM-DD HH24:MI:SS'::text) AS "endDate",
+    date_part('day'::text, session_series.daily_recurrence_interval) AS "repeatsEvery",
+    COALESCE((date_part('epoch'::text, ( SELECT session.service_provider_reminder_1
+           FROM public.session
+          WHERE (session.session_series_id = session_series.id)
+          ORDER BY session.start DESC
+         LIMIT 1)) / (3600)::double precision), ('-1'::integer)::double precision) AS "reminderHours",
+    session_series.location,
+    (session_series.price)::double precision AS price,
+    session_series.trainer_id AS "trainerId",
+    COALESCE(( SELECT json_agg(vw_legacy_session_2.*) AS json_agg
+           FROM public.vw_legacy_session_2
+          WHERE (vw_legacy_session_2."sessionSeriesId" = session_series.id)), '[]'::json) AS sessions,
+    currency.alpha_code AS currency,
+    session_series.recurrence_rule AS "recurrenceRule",
+    session_series.recurrence_exdates AS exdates
+   FROM (((public.session_series
+     JOIN public.trainer ON ((trainer.id = session_series.trainer_id)))
+     JOIN public.supported_country_currency ON ((supported_country_currency.country_id = trainer.country_id)))
+     JOIN public.currency ON ((currency.id = supported_country_currency.currency_id)));
+
+-- migrate:down
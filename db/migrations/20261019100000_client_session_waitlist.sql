@@ -0,0 +1,13 @@
+-- migrate:up
+
+INSERT INTO client_session_state (state) VALUES ('waitlisted') ON CONFLICT DO NOTHING;
+
+ALTER TABLE client_session
+  -- Position in the waitlist; the earliest waitlisted client is promoted first.
+  ADD COLUMN waitlisted_at timestamp with time zone,
+  -- Set when a waitlisted client is promoted, until they claim the spot through their booking link.
+  ADD COLUMN waitlist_claim_expires_at timestamp with time zone;
+
+CREATE INDEX client_session_waitlist_idx ON client_session (session_id, waitlisted_at) WHERE state = 'waitlisted';
+
+-- migrate:down
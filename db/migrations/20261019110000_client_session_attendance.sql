@@ -0,0 +1,22 @@
+-- migrate:up
+
+-- Fees charged to the client when they don't turn up to, or cancel late from, a session booked for the service.
+ALTER TABLE service
+  ADD COLUMN no_show_fee numeric,
+  ADD COLUMN late_cancel_fee numeric,
+  ADD CONSTRAINT service_no_show_fee_check CHECK ((no_show_fee >= (0)::numeric)),
+  ADD CONSTRAINT service_late_cancel_fee_check CHECK ((late_cancel_fee >= (0)::numeric));
+
+-- What actually happened, as opposed to the booking state.
+ALTER TABLE client_session
+  ADD COLUMN attendance text,
+  ADD COLUMN attendance_time timestamp with time zone,
+  ADD COLUMN attendance_fee_sale_id uuid,
+  ADD CONSTRAINT client_session_attendance_fee_sale_id_key UNIQUE (attendance_fee_sale_id),
+  ADD CONSTRAINT client_session_attendance_fee_sale_id_fkey FOREIGN KEY (attendance_fee_sale_id, client_id, trainer_id) REFERENCES sale (id, client_id, trainer_id) ON UPDATE CASCADE ON DELETE RESTRICT,
+  ADD CONSTRAINT client_session_attendance_check CHECK ((attendance = ANY (ARRAY['attended'::text, 'no_show'::text, 'late_cancel'::text]))),
+  ADD CONSTRAINT client_session_attendance_time_check CHECK (((attendance IS NULL) = (attendance_time IS NULL)));
+
+CREATE INDEX client_session_client_id_attendance_idx ON client_session (client_id, attendance) WHERE attendance IS NOT NULL;
+
+-- migrate:down
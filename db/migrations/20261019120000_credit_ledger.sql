@@ -0,0 +1,75 @@
+-- migrate:up
+
+ALTER TABLE credit_pack
+  -- How long a purchased pack can be used for; packs never expire when null.
+  ADD COLUMN expiry_days integer CHECK (expiry_days > 0);
+
+ALTER TABLE sale_credit_pack
+  ADD COLUMN expires_at timestamp with time zone;
+
+CREATE TABLE credit_ledger_entry (
+  id uuid DEFAULT uuid_generate_v1mc() PRIMARY KEY,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  trainer_id uuid NOT NULL,
+  client_id uuid NOT NULL,
+  sale_credit_pack_id uuid NOT NULL,
+  entry_type text NOT NULL CHECK (entry_type IN ('purchase', 'redemption', 'refund', 'adjustment', 'expiry')),
+  -- Signed change to the pack's balance.
+  credits integer NOT NULL CHECK (credits <> 0),
+  occurred_at timestamp with time zone NOT NULL,
+  -- Not foreign keys: entries outlive the client sessions and payments they record.
+  client_session_id uuid,
+  payment_id uuid,
+  note text,
+  CONSTRAINT credit_ledger_entry_credits_sign_check CHECK (
+    CASE entry_type
+      WHEN 'purchase' THEN credits > 0
+      WHEN 'refund' THEN credits > 0
+      WHEN 'redemption' THEN credits < 0
+      WHEN 'expiry' THEN credits < 0
+      ELSE true
+    END
+  ),
+  FOREIGN KEY (client_id, trainer_id) REFERENCES client (id, trainer_id) ON DELETE CASCADE,
+  FOREIGN KEY (sale_credit_pack_id, trainer_id) REFERENCES sale_credit_pack (id, trainer_id) ON DELETE CASCADE
+);
+
+CREATE INDEX credit_ledger_entry_client_idx ON credit_ledger_entry (trainer_id, client_id, occurred_at);
+CREATE INDEX credit_ledger_entry_sale_credit_pack_idx ON credit_ledger_entry (sale_credit_pack_id);
+CREATE INDEX credit_ledger_entry_payment_idx ON credit_ledger_entry (payment_id) WHERE payment_id IS NOT NULL;
+CREATE INDEX credit_ledger_entry_client_session_idx ON credit_ledger_entry (client_session_id)
+  WHERE client_session_id IS NOT NULL;
+
+CREATE FUNCTION credit_ledger_entry_prevent_update() RETURNS trigger
+  LANGUAGE plpgsql
+  AS $$
+BEGIN
+  RAISE EXCEPTION 'credit_ledger_entry is append-only; record a correcting entry instead';
+END;
+$$;
+
+CREATE TRIGGER credit_ledger_entry_prevent_update
+  BEFORE UPDATE ON credit_ledger_entry
+  FOR EACH ROW EXECUTE FUNCTION credit_ledger_entry_prevent_update();
+
+-- Seed the ledger from existing packs and the credit pack payments made against them.
+INSERT INTO credit_ledger_entry (trainer_id, client_id, sale_credit_pack_id, entry_type, credits, occurred_at)
+SELECT sale_credit_pack.trainer_id, sale_product.client_id, sale_credit_pack.id, 'purchase',
+  sale_credit_pack.total_credits, sale_credit_pack.created_at
+FROM sale_credit_pack
+JOIN sale_product ON sale_product.id = sale_credit_pack.id;
+
+INSERT INTO credit_ledger_entry (
+  trainer_id, client_id, sale_credit_pack_id, entry_type, credits, occurred_at, client_session_id, payment_id
+)
+-- One entry per payment: a sale shared by several client sessions is linked to the earliest of them.
+SELECT DISTINCT ON (payment.id) payment.trainer_id, payment.client_id, payment_credit_pack.sale_credit_pack_id,
+  'redemption', -payment_credit_pack.credits_used, payment_credit_pack.transaction_time, client_session.id, payment.id
+FROM payment_credit_pack
+JOIN payment ON payment.id = payment_credit_pack.id
+LEFT JOIN client_session ON client_session.sale_id = payment.sale_id
+WHERE payment_credit_pack.credits_used > 0
+  AND payment.refunded_time IS NULL
+ORDER BY payment.id, client_session.created_at, client_session.id;
+
+-- migrate:down
@@ -0,0 +1,68 @@
+-- migrate:up
+
+CREATE TABLE membership (
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL,
+  id uuid NOT NULL,
+  trainer_id uuid NOT NULL,
+  is_membership boolean DEFAULT true NOT NULL CHECK (is_membership),
+  -- Billing cadence, matching payment_plan.frequency_weekly_interval.
+  frequency_weekly_interval smallint NOT NULL CHECK (frequency_weekly_interval BETWEEN 1 AND 4),
+  sessions_per_period integer NOT NULL CHECK (sessions_per_period > 0),
+  -- Most unused sessions that carry over into the next period; 0 disables rollover.
+  rollover_limit integer DEFAULT 0 NOT NULL CHECK (rollover_limit >= 0),
+  PRIMARY KEY (id, trainer_id),
+  FOREIGN KEY (id, trainer_id, is_membership) REFERENCES product (id, trainer_id, is_membership)
+    ON UPDATE CASCADE ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED
+);
+
+-- Services a membership's allowance can be spent on.
+CREATE TABLE membership_service (
+  membership_id uuid NOT NULL,
+  service_id uuid NOT NULL,
+  trainer_id uuid NOT NULL,
+  PRIMARY KEY (membership_id, service_id),
+  FOREIGN KEY (membership_id, trainer_id) REFERENCES membership (id, trainer_id) ON DELETE CASCADE,
+  FOREIGN KEY (service_id, trainer_id) REFERENCES service (id, trainer_id) ON DELETE CASCADE
+);
+
+CREATE TRIGGER update_updated_at BEFORE UPDATE ON membership FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE INDEX membership_service_service_id_idx ON membership_service (service_id);
+
+-- A client's membership, billed through a payment plan. The allowance applies while the plan is active.
+CREATE TABLE client_membership (
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  id uuid DEFAULT uuid_generate_v1mc() PRIMARY KEY,
+  trainer_id uuid NOT NULL,
+  client_id uuid NOT NULL,
+  membership_id uuid NOT NULL,
+  payment_plan_id uuid NOT NULL UNIQUE,
+  -- Copied from the membership when the client joins so later product edits don't change existing members.
+  sessions_per_period integer NOT NULL CHECK (sessions_per_period > 0),
+  rollover_limit integer NOT NULL CHECK (rollover_limit >= 0),
+  FOREIGN KEY (client_id, trainer_id) REFERENCES client (id, trainer_id) ON UPDATE CASCADE ON DELETE CASCADE,
+  FOREIGN KEY (membership_id, trainer_id) REFERENCES membership (id, trainer_id) ON DELETE RESTRICT,
+  FOREIGN KEY (payment_plan_id, trainer_id) REFERENCES payment_plan (id, trainer_id) ON DELETE CASCADE
+);
+
+CREATE INDEX client_membership_client_idx ON client_membership (trainer_id, client_id);
+
+CREATE TABLE client_membership_period (
+  id uuid DEFAULT uuid_generate_v1mc() PRIMARY KEY,
+  client_membership_id uuid NOT NULL REFERENCES client_membership (id) ON DELETE CASCADE,
+  start timestamp with time zone NOT NULL,
+  end_ timestamp with time zone NOT NULL,
+  -- sessions_per_period plus whatever rolled over from the previous period.
+  sessions_allowed integer NOT NULL CHECK (sessions_allowed >= 0),
+  UNIQUE (client_membership_id, start),
+  CHECK (start < end_)
+);
+
+ALTER TABLE client_session
+  ADD COLUMN client_membership_period_id uuid REFERENCES client_membership_period (id) ON DELETE SET NULL;
+
+CREATE INDEX client_session_client_membership_period_id_idx ON client_session (client_membership_period_id)
+  WHERE client_membership_period_id IS NOT NULL;
+
+-- migrate:down
@@ -0,0 +1,16 @@
+-- migrate:up
+
+ALTER TABLE trainer
+  -- Overrides the environment's EMAIL_PROVIDER / SMS_PROVIDER for this trainer's messages.
+  ADD COLUMN email_provider text CHECK (email_provider IN ('mandrill', 'console', 'file')),
+  ADD COLUMN sms_provider text CHECK (sms_provider IN ('twilio', 'vonage', 'console', 'file'));
+
+ALTER TABLE mail
+  ADD COLUMN provider text,
+  ADD COLUMN provider_message_id text;
+
+ALTER TABLE sms
+  ADD COLUMN provider text,
+  ADD COLUMN provider_message_id text;
+
+-- migrate:down
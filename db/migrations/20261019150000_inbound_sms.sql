@@ -0,0 +1,28 @@
+-- migrate:up
+
+-- Text messages received from clients, kept with what we did about them.
+CREATE TABLE inbound_sms (
+  id uuid DEFAULT uuid_generate_v1mc() PRIMARY KEY,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  trainer_id uuid REFERENCES trainer (id) ON DELETE CASCADE,
+  client_id uuid,
+  -- Not a foreign key: the record outlives the client session it acted on.
+  client_session_id uuid,
+  from_number text NOT NULL,
+  to_number text NOT NULL,
+  body text NOT NULL,
+  provider text NOT NULL,
+  -- Providers retry webhooks, so this keeps each message from being handled twice.
+  provider_message_id text NOT NULL,
+  action text NOT NULL CHECK (
+    action IN ('confirmed', 'cancelled', 'cancel_not_allowed', 'opted_out', 'opted_in', 'forwarded', 'unmatched')
+  ),
+  UNIQUE (provider, provider_message_id)
+);
+
+CREATE INDEX inbound_sms_trainer_client_idx ON inbound_sms (trainer_id, client_id, created_at);
+
+-- Set when the client replies STOP and cleared when they reply START. Reminders are sent unless it's set.
+ALTER TABLE client ADD COLUMN sms_opted_out boolean DEFAULT false NOT NULL;
+
+-- migrate:down
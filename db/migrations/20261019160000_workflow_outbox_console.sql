@@ -0,0 +1,26 @@
+-- migrate:up
+
+ALTER TABLE public.workflow_outbox
+  ADD COLUMN cancelled_at timestamp with time zone,
+  DROP CONSTRAINT workflow_outbox_status_check,
+  ADD CONSTRAINT workflow_outbox_status_check CHECK (
+    status = ANY (ARRAY['pending'::text, 'dispatching'::text, 'dispatched'::text, 'running'::text, 'completed'::text, 'failed'::text, 'cancelled'::text])
+  );
+
+-- Every failure, re-queue and cancellation of an outbox task. last_error only keeps the latest error, this keeps
+-- the history so a task that has been replayed still shows why it failed before.
+CREATE TABLE public.workflow_outbox_event (
+  id uuid DEFAULT public.uuid_generate_v4() PRIMARY KEY,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  outbox_id uuid NOT NULL REFERENCES public.workflow_outbox (id) ON DELETE CASCADE,
+  event text NOT NULL CHECK (event IN ('dispatch_failed', 'failed', 'requeued', 'cancelled')),
+  attempt integer,
+  message text,
+  -- Who did it, e.g. 'user:<id>' for changes made from the outbox console. Null for the dispatcher and workflows.
+  actor text
+);
+
+CREATE INDEX workflow_outbox_event_outbox_idx ON public.workflow_outbox_event (outbox_id, created_at);
+CREATE INDEX IF NOT EXISTS workflow_outbox_dedupe_key_pattern_idx ON public.workflow_outbox (dedupe_key text_pattern_ops);
+
+-- migrate:down
@@ -0,0 +1,23 @@
+-- migrate:up
+
+-- Tasks that failed for good are now dead-lettered. Rows the dispatcher used to leave as 'failed' already were.
+ALTER TABLE public.workflow_outbox
+  ADD COLUMN dead_lettered_at timestamp with time zone,
+  DROP CONSTRAINT workflow_outbox_status_check;
+
+UPDATE public.workflow_outbox
+SET status = 'dead_lettered', dead_lettered_at = COALESCE(failed_at, updated_at)
+WHERE status = 'failed';
+
+ALTER TABLE public.workflow_outbox
+  ADD CONSTRAINT workflow_outbox_status_check CHECK (
+    status = ANY (ARRAY['pending'::text, 'dispatching'::text, 'dispatched'::text, 'running'::text, 'completed'::text, 'dead_lettered'::text, 'cancelled'::text])
+  );
+
+ALTER TABLE public.workflow_outbox_event
+  DROP CONSTRAINT workflow_outbox_event_event_check,
+  ADD CONSTRAINT workflow_outbox_event_event_check CHECK (
+    event IN ('dispatch_failed', 'failed', 'dead_lettered', 'requeued', 'cancelled')
+  );
+
+-- migrate:down
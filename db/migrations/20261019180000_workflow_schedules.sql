@@ -0,0 +1,41 @@
+-- migrate:up
+
+-- Recurring workflow tasks. Each schedule enqueues its task whenever the cron expression fires in its timezone, so
+-- schedules can be added, retimed or paused here without a deploy. A task type can have several schedules, e.g. one
+-- per region with a payload that limits the run to trainers in that region.
+CREATE TABLE workflow_schedule (
+  id uuid DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL,
+  -- Also the prefix of the dedupe key of every run, so it must stay stable once runs have been enqueued.
+  name text NOT NULL UNIQUE,
+  task_type text NOT NULL,
+  -- Merged into the task payload alongside scheduledAt.
+  payload jsonb DEFAULT '{}'::jsonb NOT NULL,
+  cron text NOT NULL,
+  timezone text DEFAULT 'UTC' NOT NULL,
+  -- What to do about runs missed while nothing was dispatching: skip them, run once to catch up, or run every one.
+  catch_up text DEFAULT 'run_once' NOT NULL CHECK (catch_up IN ('skip', 'run_once', 'run_all')),
+  enabled boolean DEFAULT true NOT NULL,
+  -- The latest occurrence that has been dealt with, whether it was enqueued or skipped.
+  last_scheduled_for timestamp with time zone
+);
+
+CREATE TRIGGER update_updated_at BEFORE UPDATE ON workflow_schedule FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- The schedules the recurring tasks used to chain themselves on, unchanged.
+INSERT INTO workflow_schedule (name, task_type, cron, timezone, catch_up) VALUES
+  ('chargePaymentPlans', 'chargePaymentPlans', '0 0 * * *', 'UTC', 'run_once'),
+  ('sendPaymentReminders', 'sendPaymentReminders', '0,30 * * * *', 'UTC', 'run_once'),
+  ('sendAppointmentReminders', 'sendAppointmentReminders', '* * * * *', 'UTC', 'run_once'),
+  ('refreshAppStoreReceipts', 'refreshAppStoreReceipts', '30 0,12 * * *', 'UTC', 'run_once'),
+  ('tagTrialledDidntSub', 'tagTrialledDidntSub', '2,32 * * * *', 'UTC', 'skip');
+
+-- Runs the old chain had already queued would otherwise run alongside the schedules above.
+UPDATE workflow_outbox
+SET status = 'cancelled', cancelled_at = now(), updated_at = now()
+WHERE status = 'pending'
+  AND task_type IN ('chargePaymentPlans', 'sendPaymentReminders', 'sendAppointmentReminders', 'refreshAppStoreReceipts', 'tagTrialledDidntSub')
+  AND dedupe_key LIKE task_type || ':%';
+
+-- migrate:down
@@ -0,0 +1,21 @@
+-- migrate:up
+
+-- Trainers' wording for the emails we send their clients. Every save adds a version rather than editing one, so
+-- earlier wording can be looked back on and restored. A trainer's latest version is the one in use; templates with no
+-- versions use the built-in copy.
+CREATE TABLE email_template_version (
+  id uuid DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  trainer_id uuid NOT NULL REFERENCES trainer (id) ON DELETE CASCADE,
+  template_key text NOT NULL,
+  version integer NOT NULL CHECK (version > 0),
+  -- Null fields use the built-in copy, so a version with every field null resets the template to the default.
+  subject text,
+  heading text,
+  body text,
+  button_text text,
+  created_by_user_id uuid,
+  UNIQUE (trainer_id, template_key, version)
+);
+
+-- migrate:down
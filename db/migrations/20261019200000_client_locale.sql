@@ -0,0 +1,60 @@
+-- migrate:up
+
+-- The client's preferred language for emails, texts and the client dashboard, as a BCP 47 tag. Null means they get
+-- their trainer's locale.
+ALTER TABLE client ADD COLUMN locale text;
+
+CREATE OR REPLACE VIEW public.vw_legacy_client AS
+ SELECT client.id,
+    client.first_name AS "firstName",
+    client.last_name AS "lastName",
+    client.email,
+    client.profile_image_url AS "profileImageURL",
+    client.mobile_number AS "mobileNumber",
+    client.other_number AS "otherNumber",
+    client.status,
+    client.emergency_contact_name AS "emergencyContactName",
+    client.emergency_contact_mobile_number AS "emergencyContactMobileNumber",
+    client.stripe_customer_id AS "stripeCustomer",
+    COALESCE(pm.last4, (customer.object #>> '{sources,data,0,last4}'::text[])) AS "cardLast4Digits",
+    COALESCE(pm.brand, (customer.object #>> '{sources,data,0,brand}'::text[])) AS "cardBrand",
+    client.terms_accepted AS "termsAccepted",
+    client.trainer_id AS "trainerId",
+    client.user_id AS "memberId",
+    ( SELECT json_agg(n.*) AS json_agg
+           FROM ( SELECT ((client.id)::text || client_notes.column2) AS id,
+                    COALESCE(client_notes.column1, ''::text) AS content,
+                    client_notes.column2 AS classification,
+                    client.id AS "clientId",
+                    NULL::text AS "financeItemId",
+                    NULL::text AS "sessionSeriesId",
+                    NULL::text AS "sessionId",
+                    NULL::text AS "clientSessionId"
+                   FROM ( VALUES (client.notes,'notes'::text), (client.goals,'goals'::text), (client.medication,'medication'::text), (client.current_injuries,'currentInjuries'::text), (client.past_injuries,'pastInjuries'::text)) client_notes) n) AS notes,
+    client.birthday,
+    ( SELECT COALESCE(json_agg(vw_legacy_session_pack.*), '[]'::json) AS "coalesce"
+           FROM public.vw_legacy_session_pack
+          WHERE (vw_legacy_session_pack."clientId" = client.id)) AS "sessionPacks",
+    ( SELECT COALESCE(json_agg(vw_legacy_plan.*), '[]'::json) AS "coalesce"
+           FROM public.vw_legacy_plan vw_legacy_plan
+          WHERE (vw_legacy_plan."clientId" = client.id)) AS plans,
+    client.company,
+    client.location,
+    client.address,
+    client.google_place_id AS "googlePlaceId",
+        CASE
+            WHEN (client.geo IS NOT NULL) THEN json_build_object('lat', client.geo[0], 'lng', client.geo[1])
+            ELSE NULL::json
+        END AS geo,
+    client.locale
+   FROM ((public.client
+     LEFT JOIN stripe.customer ON ((customer.id = client.stripe_customer_id)))
+     LEFT JOIN ( SELECT DISTINCT ON ((payment_method.object ->> 'customer'::text)) (payment_method.object ->> 'customer'::text) AS customer,
+            (payment_method.object ->> 'created'::text) AS created,
+            (payment_method.object #>> '{card,brand}'::text[]) AS brand,
+            (payment_method.object #>> '{card,last4}'::text[]) AS last4
+           FROM stripe.payment_method
+          WHERE ((payment_method.object ->> 'customer'::text) IS NOT NULL)
+          ORDER BY (payment_method.object ->> 'customer'::text), (payment_method.object ->> 'created'::text) DESC) pm ON ((pm.customer = client.stripe_customer_id)));
+
+-- migrate:down
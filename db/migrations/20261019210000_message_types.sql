@@ -0,0 +1,15 @@
+-- migrate:up
+
+-- What a message was for (e.g. appointment_reminder), so engagement can be reported per kind of message. Rows sent
+-- before this column existed, and messages to trainers, are left null.
+ALTER TABLE mail ADD COLUMN message_type text;
+ALTER TABLE sms ADD COLUMN message_type text;
+
+CREATE INDEX mail_client_id_created_at_idx ON mail (client_id, created_at);
+CREATE INDEX mail_trainer_id_created_at_idx ON mail (trainer_id, created_at);
+CREATE INDEX sms_client_id_created_at_idx ON sms (client_id, created_at);
+CREATE INDEX mail_open_mail_id_idx ON mail_open (mail_id);
+CREATE INDEX mail_click_mail_id_idx ON mail_click (mail_id);
+CREATE INDEX mail_bounce_mail_id_idx ON mail_bounce (mail_id);
+
+-- migrate:down
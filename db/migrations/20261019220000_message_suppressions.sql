@@ -0,0 +1,34 @@
+-- migrate:up
+
+-- Email addresses and phone numbers we've stopped sending to: hard bounces, spam complaints, unsubscribes, numbers
+-- Twilio says can't receive texts and clients who replied STOP. Suppressions apply across trainers, since a dead
+-- address is dead for everyone. Only the recipient lifts one for everyone, e.g. by texting START; lifting keeps the
+-- row as a record of what happened.
+CREATE TABLE message_suppression (
+  id uuid DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  channel text NOT NULL CHECK (channel IN ('email', 'sms')),
+  -- Email addresses are stored lowercased; numbers as we send to them.
+  address text NOT NULL,
+  reason text NOT NULL CHECK (
+    reason IN ('hard_bounce', 'spam_complaint', 'unsubscribed', 'invalid_number', 'opted_out')
+  ),
+  -- Where we learned about it: the provider name, or inbound_sms for STOP replies.
+  source text NOT NULL,
+  detail text,
+  lifted_at timestamp with time zone
+);
+
+CREATE UNIQUE INDEX message_suppression_active_idx ON message_suppression (channel, address) WHERE lifted_at IS NULL;
+
+-- A trainer lifting a suppression, say once their client has fixed their mailbox, only resumes that trainer's sends.
+CREATE TABLE message_suppression_lift (
+  message_suppression_id uuid NOT NULL REFERENCES message_suppression (id) ON DELETE CASCADE,
+  trainer_id uuid NOT NULL REFERENCES trainer (id) ON DELETE CASCADE,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  PRIMARY KEY (message_suppression_id, trainer_id)
+);
+
+CREATE INDEX message_suppression_lift_trainer_id_idx ON message_suppression_lift (trainer_id);
+
+-- migrate:down
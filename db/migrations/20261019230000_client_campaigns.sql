@@ -0,0 +1,58 @@
+-- migrate:up
+
+-- Messages a trainer has set up to go out automatically when something happens to a client, e.g. a check-in email
+-- when they haven't booked for a while. The runClientCampaigns task looks for clients each campaign's trigger and
+-- conditions match and sends them its email, text or both through the usual mail and sms tables.
+CREATE TABLE client_campaign (
+  id uuid DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL,
+  trainer_id uuid NOT NULL REFERENCES trainer (id) ON DELETE CASCADE,
+  name text NOT NULL,
+  enabled boolean DEFAULT true NOT NULL,
+  trigger_type text NOT NULL CHECK (trigger_type IN ('no_recent_booking', 'credit_pack_low', 'birthday')),
+  -- Days without a booking for no_recent_booking, credits left for credit_pack_low; unused for birthday.
+  trigger_threshold integer CHECK (trigger_threshold > 0),
+  -- Further filters on which clients the trigger applies to, as a JSON array. See server/clientCampaigns.ts.
+  conditions jsonb DEFAULT '[]'::jsonb NOT NULL,
+  channel text NOT NULL CHECK (channel IN ('email', 'sms', 'email_and_sms')),
+  email_subject text,
+  email_heading text,
+  email_body text,
+  sms_body text,
+  -- The least time between two sends of this campaign to the same client.
+  frequency_cap_days integer DEFAULT 30 NOT NULL CHECK (frequency_cap_days > 0),
+  CHECK (channel = 'sms' OR (email_subject IS NOT NULL AND email_body IS NOT NULL)),
+  CHECK (channel = 'email' OR sms_body IS NOT NULL)
+);
+
+CREATE INDEX client_campaign_trainer_id_idx ON client_campaign (trainer_id);
+
+CREATE TRIGGER update_updated_at BEFORE UPDATE ON client_campaign FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Every time a campaign fired for a client, whether it sent anything or was skipped and why. Each trigger occurrence,
+-- such as one birthday or one pack running low, is only acted on once, except that skips which can clear up (frequency
+-- capped, no contact details, no SMS credits) are retried by later runs.
+CREATE TABLE client_campaign_run (
+  id uuid DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  campaign_id uuid NOT NULL REFERENCES client_campaign (id) ON DELETE CASCADE,
+  trainer_id uuid NOT NULL REFERENCES trainer (id) ON DELETE CASCADE,
+  client_id uuid NOT NULL REFERENCES client (id) ON DELETE CASCADE,
+  occurrence_key text NOT NULL,
+  status text NOT NULL CHECK (status IN ('sent', 'skipped')),
+  skip_reason text CHECK (
+    skip_reason IN ('frequency_capped', 'no_contact_details', 'suppressed', 'no_sms_credits')
+  ),
+  mail_id uuid REFERENCES mail (id) ON DELETE SET NULL,
+  sms_id uuid REFERENCES sms (id) ON DELETE SET NULL,
+  UNIQUE (campaign_id, client_id, occurrence_key)
+);
+
+CREATE INDEX client_campaign_run_campaign_id_created_at_idx ON client_campaign_run (campaign_id, created_at);
+CREATE INDEX client_campaign_run_client_id_created_at_idx ON client_campaign_run (client_id, created_at);
+
+INSERT INTO workflow_schedule (name, task_type, cron, timezone, catch_up) VALUES
+  ('runClientCampaigns', 'runClientCampaigns', '15 * * * *', 'UTC', 'run_once');
+
+-- migrate:down
@@ -0,0 +1,47 @@
+-- migrate:up
+
+-- Every refund given against a sale payment or a payment plan payment. A payment can be refunded several times, in
+-- part, up to its amount.
+CREATE TABLE payment_refund (
+  id uuid DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  trainer_id uuid NOT NULL REFERENCES trainer (id) ON DELETE CASCADE,
+  payment_id uuid REFERENCES payment (id) ON DELETE CASCADE,
+  payment_plan_payment_id uuid REFERENCES payment_plan_payment (id) ON DELETE CASCADE,
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  -- The part of the payment's application fee given back with this refund, in proportion to the amount refunded.
+  application_fee_amount numeric(10,2) DEFAULT 0 NOT NULL CHECK (application_fee_amount >= 0),
+  reason text,
+  -- Null for payments taken outside Stripe, and for refunds recorded before this table existed.
+  stripe_refund_id text UNIQUE,
+  CHECK ((payment_id IS NOT NULL)::integer + (payment_plan_payment_id IS NOT NULL)::integer = 1)
+);
+
+CREATE INDEX payment_refund_payment_id_idx ON payment_refund (payment_id) WHERE payment_id IS NOT NULL;
+CREATE INDEX payment_refund_payment_plan_payment_id_idx ON payment_refund (payment_plan_payment_id)
+  WHERE payment_plan_payment_id IS NOT NULL;
+CREATE INDEX payment_refund_trainer_id_created_at_idx ON payment_refund (trainer_id, created_at);
+
+-- Running totals of payment_refund, kept so payment lists and revenue can report net amounts without summing refunds.
+-- payment.refunded_time and the 'refunded' plan payment status are only set once the whole amount has been refunded.
+ALTER TABLE payment ADD COLUMN amount_refunded numeric DEFAULT 0 NOT NULL;
+ALTER TABLE payment ADD CONSTRAINT payment_amount_refunded_check CHECK (amount_refunded >= 0 AND amount_refunded <= amount);
+
+ALTER TABLE payment_plan_payment ADD COLUMN amount_refunded numeric(10,2) DEFAULT 0 NOT NULL;
+ALTER TABLE payment_plan_payment ADD CONSTRAINT payment_plan_payment_amount_refunded_check
+  CHECK (amount_refunded >= 0 AND amount_refunded <= amount);
+
+-- Refunds before this were always for the full amount.
+INSERT INTO payment_refund (created_at, trainer_id, payment_id, amount)
+SELECT refunded_time, trainer_id, id, amount FROM payment WHERE refunded_time IS NOT NULL AND amount > 0;
+
+UPDATE payment SET amount_refunded = amount WHERE refunded_time IS NOT NULL;
+
+INSERT INTO payment_refund (created_at, trainer_id, payment_plan_payment_id, amount, application_fee_amount)
+SELECT updated_at, trainer_id, id, amount, coalesce(fee, 0)
+FROM payment_plan_payment
+WHERE status = 'refunded' AND amount > 0;
+
+UPDATE payment_plan_payment SET amount_refunded = amount WHERE status = 'refunded';
+
+-- migrate:down
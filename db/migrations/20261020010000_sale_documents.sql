@@ -0,0 +1,16 @@
+-- migrate:up
+
+-- Invoice numbers run from 1 for each trainer. A sale gets its number the first time an invoice or receipt is made
+-- for it, so numbers are never skipped by sales nobody was billed for.
+ALTER TABLE trainer ADD COLUMN last_invoice_number integer DEFAULT 0 NOT NULL;
+
+ALTER TABLE sale ADD COLUMN invoice_number integer;
+CREATE UNIQUE INDEX sale_trainer_id_invoice_number_idx ON sale (trainer_id, invoice_number)
+  WHERE invoice_number IS NOT NULL;
+
+-- Documents to attach when the mail is sent, e.g. [{"document":"receipt","paymentId":"..."}]. They're rendered at
+-- send time rather than stored, since they're rebuilt from the sale on every download anyway.
+ALTER TABLE mail ADD COLUMN attachments jsonb DEFAULT '[]'::jsonb NOT NULL;
+
+-- migrate:down
+
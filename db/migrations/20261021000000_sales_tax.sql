@@ -0,0 +1,39 @@
+-- migrate:up
+
+-- How a product's price relates to the trainer's enabled taxes: 'inclusive' prices already include them and
+-- 'exclusive' prices have them added on top when the product is sold.
+ALTER TABLE product ADD COLUMN tax_mode text DEFAULT 'none' NOT NULL
+  CHECK (tax_mode IN ('none', 'inclusive', 'exclusive'));
+
+-- Sold products keep the mode they were sold with. price stays the amount the client pays, tax included, and
+-- tax_amount is the part of it that is tax, the sum of the product's sale_tax lines.
+ALTER TABLE sale_product ADD COLUMN tax_mode text DEFAULT 'none' NOT NULL
+  CHECK (tax_mode IN ('none', 'inclusive', 'exclusive'));
+ALTER TABLE sale_product ADD COLUMN tax_amount numeric(10,2) DEFAULT 0 NOT NULL CHECK (tax_amount >= 0);
+
+-- One line per tax charged on a sale product. Label and percent are copied from the trainer's tax settings at the
+-- time of sale, so changing a rate later doesn't rewrite what was charged.
+CREATE TABLE sale_tax (
+  id uuid DEFAULT uuid_generate_v4() PRIMARY KEY,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  trainer_id uuid NOT NULL REFERENCES trainer (id) ON DELETE CASCADE,
+  sale_id uuid NOT NULL REFERENCES sale (id) ON DELETE CASCADE,
+  sale_product_id uuid NOT NULL REFERENCES sale_product (id) ON DELETE CASCADE,
+  -- The trainer's tax setting the line came from.
+  tax_id text NOT NULL,
+  label text NOT NULL,
+  percent numeric NOT NULL CHECK (percent > 0),
+  -- The price before tax the percent was applied to.
+  taxable_amount numeric(10,2) NOT NULL,
+  amount numeric(10,2) NOT NULL CHECK (amount >= 0)
+);
+
+CREATE INDEX sale_tax_sale_id_idx ON sale_tax (sale_id);
+CREATE INDEX sale_tax_sale_product_id_idx ON sale_tax (sale_product_id);
+CREATE INDEX sale_tax_trainer_id_idx ON sale_tax (trainer_id);
+
+-- The part of a refund that gives back tax, in proportion to the share of the sale refunded.
+ALTER TABLE payment_refund ADD COLUMN tax_amount numeric(10,2) DEFAULT 0 NOT NULL CHECK (tax_amount >= 0);
+
+-- migrate:down
+
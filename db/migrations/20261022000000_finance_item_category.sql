@@ -0,0 +1,66 @@
+-- migrate:up
+
+-- What an expense is for, so the profit and loss report can break expenses down. Null leaves it uncategorized, and
+-- income items don't need one.
+ALTER TABLE finance_item ADD COLUMN category text
+  CHECK (category IN ('advertising', 'equipment', 'insurance', 'rent', 'software', 'subscriptions', 'supplies',
+    'training', 'travel', 'utilities', 'wages', 'other'));
+
+CREATE OR REPLACE VIEW public.vw_legacy_finance_item AS
+ SELECT (finance_item.id)::text AS id,
+    finance_item.name,
+    (finance_item.amount)::double precision AS amount,
+    NULL::text AS status,
+    NULL::text AS "paymentType",
+    NULL::text AS "stripeApplicationFeeId",
+    finance_item.start_date AS "startDate",
+    finance_item.trainer_id AS "trainerId",
+    finance_item.created_at AS "createdAt",
+    finance_item.updated_at AS "updatedAt",
+    finance_item.image_url AS "imageUrl",
+    finance_item.category
+   FROM public.finance_item
+UNION ALL
+ SELECT ('ch_'::text || payment_stripe.id) AS id,
+    'Card processing fee'::text AS name,
+    (- payment_stripe.fee) AS amount,
+        CASE
+            WHEN (payment.refunded_time IS NOT NULL) THEN 'refunded'::text
+            ELSE 'paid'::text
+        END AS status,
+    NULL::text AS "paymentType",
+    NULL::text AS "stripeApplicationFeeId",
+    COALESCE(to_timestamp((((stripe_charge.object -> 'created'::text))::integer)::double precision), to_timestamp((((stripe_payment_intent.object -> 'created'::text))::integer)::double precision), payment_stripe.created_at) AS "startDate",
+    payment.trainer_id AS "trainerId",
+    COALESCE(to_timestamp((((stripe_charge.object -> 'created'::text))::integer)::double precision), to_timestamp((((stripe_payment_intent.object -> 'created'::text))::integer)::double precision), payment_stripe.created_at) AS "createdAt",
+    COALESCE(to_timestamp((((stripe_charge.object -> 'created'::text))::integer)::double precision), to_timestamp((((stripe_payment_intent.object -> 'created'::text))::integer)::double precision), payment_stripe.created_at) AS "updatedAt",
+    NULL::text AS "imageUrl",
+    NULL::text AS category
+   FROM (((public.payment_stripe
+     JOIN public.payment ON ((payment.id = payment_stripe.id)))
+     LEFT JOIN public.stripe_charge ON ((payment_stripe.stripe_charge_id = stripe_charge.id)))
+     LEFT JOIN public.stripe_payment_intent ON ((payment_stripe.stripe_payment_intent_id = stripe_payment_intent.id)))
+  WHERE (((stripe_charge.object -> 'paid'::text))::boolean OR ((stripe_payment_intent.object ->> 'status'::text) = 'succeeded'::text))
+UNION ALL
+ SELECT ('ch_'::text || payment_plan_payment.id) AS id,
+    'Card processing fee'::text AS name,
+    (- payment_plan_payment.fee) AS amount,
+    payment_plan_payment.status,
+    NULL::text AS "paymentType",
+    NULL::text AS "stripeApplicationFeeId",
+    payment_plan_charge.created_at AS "startDate",
+    payment_plan.trainer_id AS "trainerId",
+    payment_plan_charge.created_at AS "createdAt",
+    payment_plan_charge.created_at AS "updatedAt",
+    NULL::text AS "imageUrl",
+    NULL::text AS category
+   FROM (((public.payment_plan_payment
+     JOIN public.payment_plan ON ((payment_plan_payment.payment_plan_id = payment_plan.id)))
+     JOIN ( SELECT payment_plan_charge_1.payment_plan_payment_id,
+            max(payment_plan_charge_1.created_at) AS created_at
+           FROM public.payment_plan_charge payment_plan_charge_1
+          GROUP BY payment_plan_charge_1.payment_plan_payment_id) payment_plan_charge ON ((payment_plan_payment.id = payment_plan_charge.payment_plan_payment_id)))
+     JOIN ( VALUES ('paid'::text), ('refunded'::text)) vals(v) ON (((payment_plan_payment.status)::text = vals.v)))
+  WHERE (payment_plan_payment.fee IS NOT NULL);
+
+-- migrate:down
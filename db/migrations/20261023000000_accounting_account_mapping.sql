@@ -0,0 +1,17 @@
+-- migrate:up
+
+-- The trainer's own account codes and names for the accounts the accounting export posts to, such as 'sales' or
+-- 'expense.rent'. Accounts without a row use the export's defaults.
+CREATE TABLE accounting_account_mapping (
+  trainer_id uuid NOT NULL REFERENCES trainer (id) ON DELETE CASCADE,
+  account text NOT NULL,
+  code text NOT NULL,
+  name text NOT NULL,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL,
+  PRIMARY KEY (trainer_id, account)
+);
+
+CREATE TRIGGER update_updated_at BEFORE UPDATE ON accounting_account_mapping FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- migrate:down
@@ -9,8 +9,11 @@ export async function register() {
 
   const isVercel = process.env.VERCEL === '1'
 
-  const { getWorld } = await import('workflow/runtime')
-  await getWorld().start?.()
+  // Local runners execute outbox tasks in-process, so the workflow world isn't needed.
+  if (process.env.WORKFLOW_OUTBOX_RUNNER !== 'local' && process.env.WORKFLOW_OUTBOX_RUNNER !== 'local-sync') {
+    const { getWorld } = await import('workflow/runtime')
+    await getWorld().start?.()
+  }
 
   if (globalForWorkflowDispatcher.__keeponWorkflowDispatcherStop || isVercel) {
     return
@@ -18,7 +21,4 @@ export async function register() {
 
   const { startWorkflowOutboxDispatcher } = await import('./src/server/workflow/dispatcher')
   globalForWorkflowDispatcher.__keeponWorkflowDispatcherStop = startWorkflowOutboxDispatcher()
-
-  const { seedRecurringTasks } = await import('./src/server/workflow/schedules')
-  await seedRecurringTasks()
 }
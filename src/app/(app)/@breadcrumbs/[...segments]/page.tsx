@@ -33,6 +33,8 @@ const TITLE_MAP: Record<string, string> = {
   add: 'Add',
   make: 'Make',
   subscription: 'Subscription',
+  admin: 'Admin',
+  outbox: 'Outbox',
 }
 
 function formatSegment(segment: string, parent?: string): string {
@@ -0,0 +1,27 @@
+import { notFound, redirect } from 'next/navigation'
+
+import { validateTrainerToken } from '@/app/api/_lib/accessToken'
+import { isAdminUser } from '@/server/admin'
+import { readSessionFromCookies } from '../../session.server'
+
+/**
+ * Admin pages verify the session token against the database rather than trusting the cookie, and show a 404 to
+ * anyone who isn't in `ADMIN_USER_IDS` so the tooling isn't advertised.
+ */
+export const readAdminSession = async () => {
+  const session = await readSessionFromCookies()
+  if (!session) {
+    redirect('/auth')
+  }
+
+  const verified = await validateTrainerToken(session.token).catch(() => null)
+  if (!verified) {
+    redirect('/auth')
+  }
+
+  if (!isAdminUser(verified.userId)) {
+    notFound()
+  }
+
+  return { userId: verified.userId, actor: `user:${verified.userId}` }
+}
@@ -0,0 +1,234 @@
+import type { Route } from 'next'
+import { revalidatePath } from 'next/cache'
+import Link from 'next/link'
+import { notFound, redirect } from 'next/navigation'
+import { Suspense } from 'react'
+
+import { PageContainer } from '@/components/page-container'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { db } from '@/lib/db'
+import { OUTBOX_STATUS } from '@/server/workflow/outbox-shared'
+import {
+  cancelOutboxTask,
+  getOutboxTask,
+  OutboxTaskStatusConflictError,
+  requeueOutboxTask,
+} from '@/server/workflow/outboxAdmin'
+
+import { readAdminSession } from '../../admin-session.server'
+
+const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const formatDateTime = (value: Date | string | null) =>
+  value ? new Intl.DateTimeFormat('en-US', { dateStyle: 'medium', timeStyle: 'medium' }).format(new Date(value)) : '—'
+
+const taskHref = (outboxId: string, notice?: string) =>
+  `/admin/outbox/${outboxId}${notice ? `?${new URLSearchParams({ notice })}` : ''}` as Route
+
+/** Runs a console action against one task, sending the admin back to the task with a notice either way. */
+const runTaskAction = async (
+  formData: FormData,
+  action: typeof requeueOutboxTask | typeof cancelOutboxTask,
+  successNotice: string
+) => {
+  const { actor } = await readAdminSession()
+  const outboxId = formData.get('outboxId')
+  if (typeof outboxId !== 'string' || !uuidPattern.test(outboxId)) {
+    notFound()
+  }
+
+  let notice = successNotice
+  try {
+    await db.transaction().execute((trx) => action(trx, outboxId, actor))
+  } catch (error) {
+    if (!(error instanceof OutboxTaskStatusConflictError)) {
+      throw error
+    }
+    notice = error.message
+  }
+
+  revalidatePath('/admin/outbox')
+  redirect(taskHref(outboxId, notice))
+}
+
+async function requeueTask(formData: FormData) {
+  'use server'
+
+  await runTaskAction(formData, requeueOutboxTask, 'Task re-queued.')
+}
+
+async function cancelTask(formData: FormData) {
+  'use server'
+
+  await runTaskAction(formData, cancelOutboxTask, 'Task cancelled.')
+}
+
+type OutboxTaskSearchParams = Promise<Record<string, string | string[] | undefined>>
+
+export default function OutboxTaskPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ outboxId: string }>
+  searchParams: OutboxTaskSearchParams
+}) {
+  return (
+    <Suspense
+      fallback={
+        <PageContainer className="flex flex-col gap-6 py-8">
+          <h1 className="text-3xl leading-tight font-semibold">Outbox task</h1>
+          <p className="text-sm text-muted-foreground">Loading task…</p>
+        </PageContainer>
+      }
+    >
+      <OutboxTaskContent params={params} searchParams={searchParams} />
+    </Suspense>
+  )
+}
+
+async function OutboxTaskContent({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ outboxId: string }>
+  searchParams: OutboxTaskSearchParams
+}) {
+  await readAdminSession()
+
+  const { outboxId } = await params
+  const { notice } = await searchParams
+
+  const task = uuidPattern.test(outboxId) ? await getOutboxTask(db, outboxId) : null
+  if (!task) {
+    notFound()
+  }
+
+  const canRequeue = task.status === OUTBOX_STATUS.DeadLettered || task.status === OUTBOX_STATUS.Cancelled
+  const canCancel = task.status === OUTBOX_STATUS.Pending
+
+  const details: Array<[string, string]> = [
+    ['Dedupe key', task.dedupeKey ?? '—'],
+    ['Attempts', `${task.attempts} / ${task.maxAttempts}`],
+    ['Workflow run', task.workflowRunId ?? '—'],
+    ['Execution', task.executionStatus ? `${task.executionStatus} (${task.executionAttempts} attempts)` : '—'],
+    ['Created', formatDateTime(task.createdAt)],
+    ['Available', formatDateTime(task.availableAt)],
+    ['Dispatched', formatDateTime(task.dispatchedAt)],
+    ['Completed', formatDateTime(task.completedAt)],
+    ['Last failed', formatDateTime(task.failedAt)],
+    ['Dead-lettered', formatDateTime(task.deadLetteredAt)],
+    ['Cancelled', formatDateTime(task.cancelledAt)],
+  ]
+
+  return (
+    <PageContainer className="flex flex-col gap-6 py-8">
+      <div className="space-y-2">
+        <Link href={'/admin/outbox' as Route} className="text-sm text-muted-foreground hover:underline">
+          Workflow outbox
+        </Link>
+        <div className="flex items-center gap-3">
+          <h1 className="text-3xl leading-tight font-semibold">{task.taskType}</h1>
+          <Badge variant={task.status === OUTBOX_STATUS.DeadLettered ? 'destructive' : 'outline'}>{task.status}</Badge>
+        </div>
+        <p className="font-mono text-xs text-muted-foreground">{task.id}</p>
+      </div>
+
+      {typeof notice === 'string' ? <p className="text-sm text-muted-foreground">{notice}</p> : null}
+
+      {canRequeue || canCancel ? (
+        <div className="flex gap-3">
+          {canRequeue ? (
+            <form action={requeueTask}>
+              <input type="hidden" name="outboxId" value={task.id} />
+              <Button type="submit">Re-queue</Button>
+            </form>
+          ) : null}
+          {canCancel ? (
+            <form action={cancelTask}>
+              <input type="hidden" name="outboxId" value={task.id} />
+              <Button type="submit" variant="destructive">
+                Cancel
+              </Button>
+            </form>
+          ) : null}
+        </div>
+      ) : null}
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Details</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+              {details.map(([label, value]) => (
+                <div key={label} className="contents">
+                  <dt className="text-muted-foreground">{label}</dt>
+                  <dd className="break-all">{value}</dd>
+                </div>
+              ))}
+            </dl>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Payload</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <pre className="overflow-x-auto rounded-lg bg-muted p-3 text-xs">
+              {JSON.stringify(task.payload, null, 2)}
+            </pre>
+          </CardContent>
+        </Card>
+      </div>
+
+      {task.lastError ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Last error</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <pre className="text-xs whitespace-pre-wrap text-destructive">{task.lastError}</pre>
+          </CardContent>
+        </Card>
+      ) : null}
+
+      <section className="flex flex-col gap-3">
+        <h2 className="text-lg font-semibold">History</h2>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>When</TableHead>
+              <TableHead>Event</TableHead>
+              <TableHead>Attempt</TableHead>
+              <TableHead>By</TableHead>
+              <TableHead>Message</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {task.events.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-muted-foreground">
+                  No failures or console actions recorded.
+                </TableCell>
+              </TableRow>
+            ) : (
+              task.events.map((event) => (
+                <TableRow key={event.id}>
+                  <TableCell>{formatDateTime(event.createdAt)}</TableCell>
+                  <TableCell>{event.event}</TableCell>
+                  <TableCell>{event.attempt ?? '—'}</TableCell>
+                  <TableCell>{event.actor ?? 'system'}</TableCell>
+                  <TableCell className="max-w-xl text-xs whitespace-pre-wrap">{event.message ?? '—'}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </section>
+    </PageContainer>
+  )
+}
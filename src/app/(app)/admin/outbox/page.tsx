@@ -0,0 +1,217 @@
+import type { Route } from 'next'
+import { revalidatePath } from 'next/cache'
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+import { Suspense } from 'react'
+
+import { PageContainer } from '@/components/page-container'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { NativeSelect } from '@/components/ui/native-select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { db } from '@/lib/db'
+import { OUTBOX_STATUS, type OutboxStatus } from '@/server/workflow/outbox-shared'
+import { countOutboxTasks, listOutboxTasks, replayDeadLetteredOutboxTasks } from '@/server/workflow/outboxAdmin'
+import { workflowTaskTypeSchema } from '@/server/workflow/types'
+
+import { readAdminSession } from '../admin-session.server'
+
+const PAGE_SIZE = 50
+
+type OutboxSearchParams = Promise<Record<string, string | string[] | undefined>>
+
+const readParam = (params: Awaited<OutboxSearchParams>, key: string) => {
+  const value = params[key]
+  const first = Array.isArray(value) ? value[0] : value
+  return first?.trim() || undefined
+}
+
+const isOutboxStatus = (value: string | undefined): value is OutboxStatus =>
+  (Object.values(OUTBOX_STATUS) as string[]).includes(value ?? '')
+
+const statusVariant = (status: string) =>
+  status === OUTBOX_STATUS.DeadLettered ? 'destructive' : status === OUTBOX_STATUS.Completed ? 'secondary' : 'outline'
+
+const formatDateTime = (value: Date | string) =>
+  new Intl.DateTimeFormat('en-US', { dateStyle: 'medium', timeStyle: 'medium' }).format(new Date(value))
+
+async function replayTaskType(formData: FormData) {
+  'use server'
+
+  const { actor } = await readAdminSession()
+  const taskType = workflowTaskTypeSchema.parse(formData.get('taskType'))
+  const requeued = await db.transaction().execute((trx) => replayDeadLetteredOutboxTasks(trx, taskType, actor))
+
+  revalidatePath('/admin/outbox')
+  redirect(
+    `/admin/outbox?${new URLSearchParams({ taskType, notice: `Re-queued ${requeued} dead-lettered ${taskType} tasks.` })}` as Route
+  )
+}
+
+export default function OutboxConsolePage({ searchParams }: { searchParams: OutboxSearchParams }) {
+  return (
+    <Suspense
+      fallback={
+        <PageContainer className="flex flex-col gap-6 py-8">
+          <h1 className="text-3xl leading-tight font-semibold">Workflow outbox</h1>
+          <p className="text-sm text-muted-foreground">Loading tasks…</p>
+        </PageContainer>
+      }
+    >
+      <OutboxConsoleContent searchParams={searchParams} />
+    </Suspense>
+  )
+}
+
+async function OutboxConsoleContent({ searchParams }: { searchParams: OutboxSearchParams }) {
+  await readAdminSession()
+
+  const params = await searchParams
+  const rawStatus = readParam(params, 'status')
+  const status = isOutboxStatus(rawStatus) ? rawStatus : undefined
+  const taskType = readParam(params, 'taskType')
+  const dedupeKey = readParam(params, 'dedupeKey')
+  const rawBefore = readParam(params, 'before')
+  const before = rawBefore && !Number.isNaN(Date.parse(rawBefore)) ? new Date(rawBefore) : undefined
+  const notice = readParam(params, 'notice')
+
+  const [tasks, counts] = await Promise.all([
+    listOutboxTasks(db, { status, taskType, dedupeKey, before, limit: PAGE_SIZE }),
+    countOutboxTasks(db),
+  ])
+
+  const deadLetteredCounts = counts.filter((row) => row.status === OUTBOX_STATUS.DeadLettered)
+  const lastTask = tasks.at(-1)
+  const olderHref =
+    tasks.length === PAGE_SIZE && lastTask
+      ? `/admin/outbox?${new URLSearchParams({
+          ...(status ? { status } : {}),
+          ...(taskType ? { taskType } : {}),
+          ...(dedupeKey ? { dedupeKey } : {}),
+          before: new Date(lastTask.createdAt).toISOString(),
+        })}`
+      : null
+
+  return (
+    <PageContainer className="flex flex-col gap-8 py-8">
+      <div className="space-y-2">
+        <p className="text-sm tracking-wide text-muted-foreground uppercase">Admin</p>
+        <h1 className="text-3xl leading-tight font-semibold">Workflow outbox</h1>
+        <p className="text-sm text-muted-foreground">
+          Inspect queued tasks, re-queue dead-lettered ones and cancel tasks that haven&apos;t been dispatched yet.
+        </p>
+      </div>
+
+      {notice ? <p className="text-sm text-muted-foreground">{notice}</p> : null}
+
+      {deadLetteredCounts.length > 0 ? (
+        <section className="flex flex-col gap-3">
+          <h2 className="text-lg font-semibold">Dead-lettered tasks</h2>
+          <div className="flex flex-wrap gap-3">
+            {deadLetteredCounts.map((row) => (
+              <form
+                key={row.taskType}
+                action={replayTaskType}
+                className="flex items-center gap-2 rounded-lg border p-3"
+              >
+                <input type="hidden" name="taskType" value={row.taskType} />
+                <Link
+                  href={
+                    `/admin/outbox?${new URLSearchParams({ status: OUTBOX_STATUS.DeadLettered, taskType: row.taskType })}` as Route
+                  }
+                  className="text-sm font-medium hover:underline"
+                >
+                  {row.taskType}
+                </Link>
+                <Badge variant="destructive">{row.count}</Badge>
+                {workflowTaskTypeSchema.safeParse(row.taskType).success ? (
+                  <Button type="submit" size="sm" variant="outline">
+                    Replay all
+                  </Button>
+                ) : null}
+              </form>
+            ))}
+          </div>
+        </section>
+      ) : null}
+
+      <form method="get" className="flex flex-wrap items-end gap-3">
+        <div className="flex flex-col gap-1.5">
+          <Label htmlFor="status">Status</Label>
+          <NativeSelect id="status" name="status" defaultValue={status ?? ''}>
+            <option value="">Any status</option>
+            {Object.values(OUTBOX_STATUS).map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </NativeSelect>
+        </div>
+        <div className="flex flex-col gap-1.5">
+          <Label htmlFor="taskType">Task type</Label>
+          <NativeSelect id="taskType" name="taskType" defaultValue={taskType ?? ''}>
+            <option value="">Any task type</option>
+            {workflowTaskTypeSchema.options.map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </NativeSelect>
+        </div>
+        <div className="flex flex-col gap-1.5">
+          <Label htmlFor="dedupeKey">Dedupe key starts with</Label>
+          <Input id="dedupeKey" name="dedupeKey" defaultValue={dedupeKey ?? ''} className="w-72" />
+        </div>
+        <Button type="submit">Filter</Button>
+      </form>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Task</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Attempts</TableHead>
+            <TableHead>Created</TableHead>
+            <TableHead>Last error</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {tasks.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={5} className="text-muted-foreground">
+                No tasks match these filters.
+              </TableCell>
+            </TableRow>
+          ) : (
+            tasks.map((task) => (
+              <TableRow key={task.id}>
+                <TableCell>
+                  <Link href={`/admin/outbox/${task.id}` as Route} className="font-medium hover:underline">
+                    {task.taskType}
+                  </Link>
+                  {task.dedupeKey ? <p className="text-xs text-muted-foreground">{task.dedupeKey}</p> : null}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={statusVariant(task.status)}>{task.status}</Badge>
+                </TableCell>
+                <TableCell>
+                  {task.attempts} / {task.maxAttempts}
+                </TableCell>
+                <TableCell>{formatDateTime(task.createdAt)}</TableCell>
+                <TableCell className="max-w-md truncate text-muted-foreground">{task.lastError ?? '—'}</TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+
+      {olderHref ? (
+        <Link href={olderHref as Route} className="text-sm font-medium hover:underline">
+          Older tasks
+        </Link>
+      ) : null}
+    </PageContainer>
+  )
+}
@@ -3,10 +3,44 @@ import { Suspense } from 'react'
 
 import { PageContainer } from '@/components/page-container'
 import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader } from '@/components/ui/card'
 
+import type { ClientCommunication, DeliveryState } from '@/server/communications'
+import type { SuppressionReason } from '@/server/messageSuppressions'
 import { statusColors, normalizeStatus, optionalValue } from '@/lib/app/features/clients/shared'
-import { loadClientsServer, readSessionFromCookies } from '../actions'
+import {
+  liftClientSuppressionAction,
+  loadClientAttendanceServer,
+  loadClientCommunicationsServer,
+  loadClientSuppressionsServer,
+  loadClientsServer,
+  readSessionFromCookies,
+} from '../actions'
+
+const deliveryStateVariants: Record<DeliveryState, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  queued: 'outline',
+  sent: 'secondary',
+  delivered: 'default',
+  bounced: 'destructive',
+  rejected: 'destructive',
+  failed: 'destructive',
+}
+
+const suppressionReasonLabels: Record<SuppressionReason, string> = {
+  hard_bounce: 'Emails to this address bounced',
+  spam_complaint: 'Marked one of your emails as spam',
+  unsubscribed: 'Unsubscribed from emails',
+  invalid_number: "This number can't receive texts",
+  opted_out: 'Replied STOP to a text',
+}
+
+const formatTimestamp = (value: string) =>
+  new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+
+const formatMessageType = (messageType: string | null) =>
+  messageType ? messageType.charAt(0).toUpperCase() + messageType.slice(1).replaceAll('_', ' ') : 'Message'
 
 export default function ClientDetailPage({ params }: { params: Promise<{ clientId: string }> }) {
   return (
@@ -42,6 +76,11 @@ async function ClientDetailContent({ params }: { params: Promise<{ clientId: str
   }
 
   const status = normalizeStatus(client.status)
+  const [attendance, communications, suppressions] = await Promise.all([
+    loadClientAttendanceServer(client.id),
+    loadClientCommunicationsServer(client.id),
+    loadClientSuppressionsServer(client.id),
+  ])
 
   return (
     <PageContainer className="flex flex-col gap-6 py-8">
@@ -80,10 +119,125 @@ async function ClientDetailContent({ params }: { params: Promise<{ clientId: str
           <DetailRow label="Company" value={optionalValue(client.company) ?? 'Not provided'} />
         </CardContent>
       </Card>
+
+      {suppressions && suppressions.length > 0 ? (
+        <Card className="max-w-3xl">
+          <CardHeader>
+            <h2 className="text-lg font-semibold">Unreachable</h2>
+            <p className="text-sm text-muted-foreground">
+              We&apos;ve stopped sending to these contact details. Lift a block once they&apos;ve been fixed.
+            </p>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-4">
+            {suppressions.map((suppression) => (
+              <div key={suppression.suppressionId} className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex flex-col gap-1">
+                  <p className="font-medium">{suppression.address}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {suppressionReasonLabels[suppression.reason]} · {formatTimestamp(suppression.suppressedAt)}
+                    {suppression.detail ? ` · ${suppression.detail}` : ''}
+                  </p>
+                </div>
+                {suppression.reason === 'opted_out' ? (
+                  <p className="text-sm text-muted-foreground">They can text START to opt back in.</p>
+                ) : (
+                  <form action={liftClientSuppressionAction}>
+                    <input type="hidden" name="suppressionId" value={suppression.suppressionId} />
+                    <input type="hidden" name="clientId" value={client.id} />
+                    <Button type="submit" variant="outline" size="sm">
+                      Lift block
+                    </Button>
+                  </form>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      ) : null}
+
+      {attendance ? (
+        <Card className="max-w-3xl">
+          <CardHeader>
+            <h2 className="text-lg font-semibold">Attendance</h2>
+          </CardHeader>
+          <CardContent className="grid gap-4 sm:grid-cols-2">
+            <DetailRow
+              label="Attendance rate"
+              value={
+                attendance.attendanceRate === null ? 'Not provided' : `${Math.round(attendance.attendanceRate * 100)}%`
+              }
+            />
+            <DetailRow label="Attended" value={String(attendance.attended)} />
+            <DetailRow label="No-shows" value={String(attendance.noShows)} />
+            <DetailRow label="Late cancellations" value={String(attendance.lateCancellations)} />
+          </CardContent>
+        </Card>
+      ) : null}
+
+      {communications ? (
+        <Card className="max-w-3xl">
+          <CardHeader>
+            <h2 className="text-lg font-semibold">Communications</h2>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-4">
+            {communications.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No emails or texts sent yet.</p>
+            ) : (
+              communications.map((message) => (
+                <CommunicationRow key={`${message.channel}-${message.id}`} message={message} />
+              ))
+            )}
+          </CardContent>
+        </Card>
+      ) : null}
     </PageContainer>
   )
 }
 
+function CommunicationRow({ message }: { message: ClientCommunication }) {
+  const details =
+    message.channel === 'email'
+      ? [
+          message.firstOpenedAt
+            ? `Opened ${message.openCount}× (first ${formatTimestamp(message.firstOpenedAt)})`
+            : 'Not opened',
+          message.firstClickedAt
+            ? `Clicked ${message.clickCount}× (first ${formatTimestamp(message.firstClickedAt)})`
+            : null,
+          message.bounce
+            ? `Bounced: ${message.bounce.description ?? message.bounce.diagnosis ?? message.bounce.type ?? 'unknown reason'}`
+            : null,
+          message.rejectReason ? `Rejected: ${message.rejectReason}` : null,
+        ]
+      : [
+          message.twilioStatus ? `Twilio status: ${message.twilioStatus}` : null,
+          message.twilioErrorCode !== null
+            ? `Twilio error ${message.twilioErrorCode}${message.twilioErrorMessage ? `: ${message.twilioErrorMessage}` : ''}`
+            : null,
+          message.failureReason ? `Failed: ${message.failureReason}` : null,
+        ]
+
+  return (
+    <div className="flex flex-col gap-1 border-b pb-4 last:border-b-0 last:pb-0">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="outline">{message.channel === 'email' ? 'Email' : 'Text'}</Badge>
+        <Badge variant={deliveryStateVariants[message.deliveryState]}>{message.deliveryState}</Badge>
+        <span className="text-xs text-muted-foreground">
+          {formatMessageType(message.messageType)} · {formatTimestamp(message.createdAt)} · {message.to}
+        </span>
+      </div>
+      <p className="line-clamp-2 font-medium">{message.channel === 'email' ? message.subject : message.body}</p>
+      {details
+        .filter((detail) => detail !== null)
+        .map((detail) => (
+          <p key={detail} className="text-sm text-muted-foreground">
+            {detail}
+          </p>
+        ))}
+    </div>
+  )
+}
+
 function DetailRow({ label, value }: { label: string; value: string }) {
   const muted = value === 'Not provided'
   return (
@@ -2,10 +2,21 @@
 
 import { cache } from 'react'
 
+import { revalidatePath } from 'next/cache'
 import { cookies } from 'next/headers'
 
 import type { Client, CreateClientPayload, KeeponSession } from '@/lib/api'
+import { db } from '@/lib/db'
+import { fetchClientAttendanceSummary, type ClientAttendanceSummary } from '@/server/attendance'
 import { listClientsForTrainer, createClientForTrainer, type CreateClientInput } from '@/server/clients'
+import { listClientCommunications, type ClientCommunication } from '@/server/communications'
+import {
+  liftClientSuppression,
+  listUnreachableClients,
+  MessageSuppressionNotFoundError,
+  MessageSuppressionOptedOutError,
+  type UnreachableClient,
+} from '@/server/messageSuppressions'
 
 const SESSION_COOKIE = 'kpSession'
 
@@ -51,6 +62,73 @@ export async function loadClientsServer(): Promise<Client[] | undefined> {
   }
 }
 
+export async function loadClientAttendanceServer(clientId: string): Promise<ClientAttendanceSummary | undefined> {
+  const session = await readSessionFromCookies()
+  if (!session) {
+    return undefined
+  }
+
+  try {
+    return await fetchClientAttendanceSummary(db, session.trainerId, clientId)
+  } catch (error) {
+    console.error('Clients actions: attendance fetch failed', error)
+    return undefined
+  }
+}
+
+export async function loadClientCommunicationsServer(clientId: string): Promise<ClientCommunication[] | undefined> {
+  const session = await readSessionFromCookies()
+  if (!session) {
+    return undefined
+  }
+
+  try {
+    return await listClientCommunications(db, session.trainerId, clientId, { limit: 20 })
+  } catch (error) {
+    console.error('Clients actions: communications fetch failed', error)
+    return undefined
+  }
+}
+
+export async function loadClientSuppressionsServer(clientId: string): Promise<UnreachableClient[] | undefined> {
+  const session = await readSessionFromCookies()
+  if (!session) {
+    return undefined
+  }
+
+  try {
+    const suppressions = await listUnreachableClients(db, session.trainerId)
+    return suppressions.filter((suppression) => suppression.clientId === clientId)
+  } catch (error) {
+    console.error('Clients actions: suppressions fetch failed', error)
+    return undefined
+  }
+}
+
+export async function liftClientSuppressionAction(formData: FormData): Promise<void> {
+  const session = await readSessionFromCookies()
+  if (!session) {
+    throw new Error('Sign in to update clients')
+  }
+
+  const suppressionId = formData.get('suppressionId')
+  const clientId = formData.get('clientId')
+  if (typeof suppressionId !== 'string' || typeof clientId !== 'string') {
+    throw new Error('Missing suppression')
+  }
+
+  try {
+    await liftClientSuppression(db, session.trainerId, suppressionId)
+  } catch (error) {
+    // Already lifted, or an opt-out only the client can undo: either way the page shows what's current.
+    if (!(error instanceof MessageSuppressionNotFoundError || error instanceof MessageSuppressionOptedOutError)) {
+      throw error
+    }
+  }
+
+  revalidatePath(`/clients/${clientId}`)
+}
+
 export async function createClientAction(payload: CreateClientPayload): Promise<Client> {
   const session = await readSessionFromCookies()
   if (!session) {
@@ -118,7 +118,7 @@ export async function completeCreditPackSale(input: unknown): Promise<SellResult
     paymentRequestPassOnTransactionFee: parsed.passOnFee ?? false,
   })
 
-  await createSaleProductForTrainer(trainerId, {
+  const saleProduct = await createSaleProductForTrainer(trainerId, {
     saleId: sale.id,
     productId: pack.id,
     price: productPrice,
@@ -138,7 +138,8 @@ export async function completeCreditPackSale(input: unknown): Promise<SellResult
 
     await createManualSalePaymentForTrainer(trainerId, {
       saleId: sale.id,
-      amount: productPrice,
+      // Tax on top of an exclusive price is part of what's paid.
+      amount: saleProduct.price,
       currency: pack.currency,
       method,
       specificMethodName,
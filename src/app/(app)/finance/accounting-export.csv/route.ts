@@ -0,0 +1,46 @@
+import type { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { createCsvResponse } from '@/app/api/_lib/csv'
+import { formatCsv } from '@/lib/csv'
+import { db } from '@/lib/db'
+import { accountingExportLayoutSchema, accountingJournalCsvRows, getAccountingJournal } from '@/server/accountingExport'
+import { readSessionFromCookies } from '../../../session.server'
+
+const isoDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/)
+  .refine((value) => !Number.isNaN(Date.parse(`${value}T00:00:00Z`)))
+
+const querySchema = z
+  .object({
+    startDate: isoDateSchema,
+    endDate: isoDateSchema,
+    layout: accountingExportLayoutSchema.default('journal'),
+  })
+  .refine((value) => value.startDate <= value.endDate)
+
+export async function GET(request: NextRequest) {
+  const session = await readSessionFromCookies()
+  if (!session) {
+    return new Response('Unauthorized', { status: 401 })
+  }
+
+  const searchParams = request.nextUrl.searchParams
+  const queryResult = querySchema.safeParse({
+    startDate: searchParams.get('startDate') ?? undefined,
+    endDate: searchParams.get('endDate') ?? undefined,
+    layout: searchParams.get('layout') ?? undefined,
+  })
+
+  if (!queryResult.success) {
+    return new Response('Invalid export range', { status: 400 })
+  }
+
+  const { layout, ...range } = queryResult.data
+  const journal = await getAccountingJournal(db, session.trainerId, range)
+
+  return createCsvResponse({
+    fileName: `journal-${layout}-${journal.startDate}-to-${journal.endDate}.csv`,
+    content: formatCsv(accountingJournalCsvRows(journal, layout)),
+  })
+}
@@ -1,34 +1,203 @@
+import type { Route } from 'next'
+import Link from 'next/link'
 import { redirect } from 'next/navigation'
+import { Suspense } from 'react'
 
+import type { AccountingExportLayout } from '@/server/accountingExport'
 import { PageContainer } from '@/components/page-container'
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { NativeSelect } from '@/components/ui/native-select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { db } from '@/lib/db'
+import {
+  expenseCategoryLabels,
+  getProfitAndLoss,
+  profitAndLossPeriodSchema,
+  type ProfitAndLossAmounts,
+} from '@/server/profitAndLoss'
 import { readSessionFromCookies } from '../../session.server'
 
-export default async function FinancePage() {
+type FinanceSearchParams = Promise<Record<string, string | string[] | undefined>>
+
+const readParam = (params: Awaited<FinanceSearchParams>, key: string) => {
+  const value = params[key]
+  const first = Array.isArray(value) ? value[0] : value
+  return first?.trim() || undefined
+}
+
+const readDateParam = (params: Awaited<FinanceSearchParams>, key: string) => {
+  const value = readParam(params, key)
+  return value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`))
+    ? value
+    : undefined
+}
+
+const journalLayouts: { value: AccountingExportLayout; label: string }[] = [
+  { value: 'xero', label: 'Xero' },
+  { value: 'quickbooks', label: 'QuickBooks' },
+  { value: 'journal', label: 'Journal' },
+]
+
+const periodOptions = [
+  { value: 'month', label: 'Monthly' },
+  { value: 'quarter', label: 'Quarterly' },
+  { value: 'year', label: 'Yearly' },
+] as const
+
+function formatCurrency(amount: string, currency: string) {
+  try {
+    return new Intl.NumberFormat(undefined, {
+      style: 'currency',
+      currency,
+    }).format(Number(amount))
+  } catch {
+    return `${amount} ${currency}`
+  }
+}
+
+export default function FinancePage({ searchParams }: { searchParams: FinanceSearchParams }) {
+  return (
+    <Suspense
+      fallback={
+        <PageContainer className="flex flex-col gap-4 py-8">
+          <h1 className="text-3xl font-semibold">Finance</h1>
+          <p className="text-sm text-muted-foreground">Loading profit and loss…</p>
+        </PageContainer>
+      }
+    >
+      <FinanceContent searchParams={searchParams} />
+    </Suspense>
+  )
+}
+
+async function FinanceContent({ searchParams }: { searchParams: FinanceSearchParams }) {
   const session = await readSessionFromCookies()
   if (!session) {
     redirect('/auth')
   }
 
+  const params = await searchParams
+  const periodResult = profitAndLossPeriodSchema.safeParse(readParam(params, 'period'))
+  const period = periodResult.success ? periodResult.data : 'month'
+  const from = readDateParam(params, 'startDate')
+  const to = readDateParam(params, 'endDate')
+  const [startDate, endDate] = from && to && to < from ? [to, from] : [from, to]
+
+  const report = await getProfitAndLoss(db, session.trainerId, { startDate, endDate, period })
+  const exportHref =
+    `/finance/profit-and-loss.csv?${new URLSearchParams({ startDate: report.startDate, endDate: report.endDate, period })}` as Route
+
+  const journalHref = (layout: AccountingExportLayout) =>
+    `/finance/accounting-export.csv?${new URLSearchParams({ startDate: report.startDate, endDate: report.endDate, layout })}` as Route
+
+  const columns = [
+    ...report.periods.map((line) => ({ key: line.label, label: line.label, amounts: line })),
+    { key: 'total', label: 'Total', amounts: report.totals },
+  ]
+
+  const rows: { label: string; value: (amounts: ProfitAndLossAmounts) => string; emphasis?: boolean }[] = [
+    { label: 'Revenue', value: (amounts) => amounts.revenue },
+    { label: 'Refunds', value: (amounts) => amounts.refunds },
+    { label: 'Stripe fees', value: (amounts) => amounts.stripeFees },
+    { label: 'Net revenue', value: (amounts) => amounts.netRevenue, emphasis: true },
+    { label: 'Other income', value: (amounts) => amounts.otherIncome },
+    ...report.categories.map((category, index) => ({
+      label: expenseCategoryLabels[category],
+      value: (amounts: ProfitAndLossAmounts) => amounts.expenses[index]?.amount ?? '0.00',
+    })),
+    { label: 'Total expenses', value: (amounts) => amounts.totalExpenses, emphasis: true },
+    { label: 'Net profit', value: (amounts) => amounts.netProfit, emphasis: true },
+  ]
+
   return (
-    <PageContainer className="flex flex-col gap-4 py-8">
-      <h1 className="text-3xl font-semibold">Finance</h1>
-      <div className="grid gap-3 md:grid-cols-2">
-        <Card>
-          <CardHeader>
-            <CardDescription>Payouts</CardDescription>
-            <CardTitle className="text-lg">Reconciliation moves to the dashboard data source.</CardTitle>
-          </CardHeader>
-        </Card>
-        <Card>
-          <CardHeader>
-            <CardDescription>Overdue</CardDescription>
-          </CardHeader>
-          <CardContent className="pt-0 text-sm text-muted-foreground">
-            Detailed charts will land once the new server pipelines are wired.
-          </CardContent>
-        </Card>
+    <PageContainer className="flex flex-col gap-6 py-8">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-semibold">Finance</h1>
+        <p className="text-sm text-muted-foreground">
+          Profit and loss from {report.startDate} to {report.endDate}, with payments counted when they&apos;re received
+          and expenses from your finance items. Dates are in {report.timezone}.
+        </p>
       </div>
+
+      <form method="get" className="flex flex-wrap items-end gap-3">
+        <div className="flex flex-col gap-1.5">
+          <Label htmlFor="startDate">From</Label>
+          <Input id="startDate" name="startDate" type="date" defaultValue={report.startDate} className="w-40" />
+        </div>
+        <div className="flex flex-col gap-1.5">
+          <Label htmlFor="endDate">To</Label>
+          <Input id="endDate" name="endDate" type="date" defaultValue={report.endDate} className="w-40" />
+        </div>
+        <div className="flex flex-col gap-1.5">
+          <Label htmlFor="period">Group by</Label>
+          <NativeSelect id="period" name="period" defaultValue={period}>
+            {periodOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </NativeSelect>
+        </div>
+        <Button type="submit" variant="outline">
+          Update
+        </Button>
+        <Button variant="outline" nativeButton={false} render={<Link href={exportHref} prefetch={false} />}>
+          Download CSV
+        </Button>
+      </form>
+
+      <div className="overflow-x-auto rounded-lg border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead />
+              {columns.map((column) => (
+                <TableHead key={column.key} className="text-right">
+                  {column.label}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.label}>
+                <TableCell className={row.emphasis ? 'font-semibold' : undefined}>{row.label}</TableCell>
+                {columns.map((column) => (
+                  <TableCell
+                    key={column.key}
+                    className={row.emphasis ? 'text-right font-semibold tabular-nums' : 'text-right tabular-nums'}
+                  >
+                    {formatCurrency(row.value(column.amounts), report.currency)}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <section className="flex flex-col gap-3">
+        <div className="space-y-1">
+          <h2 className="text-lg font-semibold">Accounting export</h2>
+          <p className="text-sm text-muted-foreground">
+            Journal entries for the same dates, ready to import into your accounting software.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          {journalLayouts.map((layout) => (
+            <Button
+              key={layout.value}
+              variant="outline"
+              nativeButton={false}
+              render={<Link href={journalHref(layout.value)} prefetch={false} />}
+            >
+              {layout.label} CSV
+            </Button>
+          ))}
+        </div>
+      </section>
     </PageContainer>
   )
 }
@@ -0,0 +1,45 @@
+import type { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { createCsvResponse } from '@/app/api/_lib/csv'
+import { formatCsv } from '@/lib/csv'
+import { db } from '@/lib/db'
+import { getProfitAndLoss, profitAndLossCsvRows, profitAndLossPeriodSchema } from '@/server/profitAndLoss'
+import { readSessionFromCookies } from '../../../session.server'
+
+const isoDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/)
+  .refine((value) => !Number.isNaN(Date.parse(`${value}T00:00:00Z`)))
+
+const querySchema = z
+  .object({
+    startDate: isoDateSchema.optional(),
+    endDate: isoDateSchema.optional(),
+    period: profitAndLossPeriodSchema.default('month'),
+  })
+  .refine((value) => !value.startDate || !value.endDate || value.startDate <= value.endDate)
+
+export async function GET(request: NextRequest) {
+  const session = await readSessionFromCookies()
+  if (!session) {
+    return new Response('Unauthorized', { status: 401 })
+  }
+
+  const searchParams = request.nextUrl.searchParams
+  const queryResult = querySchema.safeParse({
+    startDate: searchParams.get('startDate') ?? undefined,
+    endDate: searchParams.get('endDate') ?? undefined,
+    period: searchParams.get('period') ?? undefined,
+  })
+
+  if (!queryResult.success) {
+    return new Response('Invalid report range', { status: 400 })
+  }
+
+  const report = await getProfitAndLoss(db, session.trainerId, queryResult.data)
+
+  return createCsvResponse({
+    fileName: `profit-and-loss-${report.startDate}-to-${report.endDate}.csv`,
+    content: formatCsv(profitAndLossCsvRows(report)),
+  })
+}
@@ -3,15 +3,17 @@ import { redirect } from 'next/navigation'
 import { ClientDashboardShell } from '@/components/client-dashboard/Shell'
 import { resolveBrandColor } from '@/lib/client-dashboard/brand'
 import { requireClientDashboardSession } from '@/server/client-dashboard/auth'
+import { getClientDashboardLocale } from '@/server/client-dashboard/i18n'
 import { getClientProfile, getServiceProvider, getStripeAccountSummary } from '@/server/client-dashboard/queries'
 
 export default async function ClientDashboardLayout({ children }: { children: React.ReactNode }) {
   await requireClientDashboardSession()
 
-  const [serviceProvider, clientProfile, stripeAccount] = await Promise.all([
+  const [serviceProvider, clientProfile, stripeAccount, locale] = await Promise.all([
     getServiceProvider(),
     getClientProfile(),
     getStripeAccountSummary().catch(() => null),
+    getClientDashboardLocale(),
   ])
 
   const stripePublishableKey = process.env.STRIPE_PUBLISHABLE_KEY?.trim() ?? null
@@ -32,6 +34,7 @@ export default async function ClientDashboardLayout({ children }: { children: Re
         brandColor: resolveBrandColor(serviceProvider.brandColor),
       }}
       clientEmail={clientProfile.email}
+      locale={locale}
       stripePublishableKey={stripePublishableKey}
       stripeAccount={stripeAccount}
     >
@@ -1,7 +1,7 @@
 import type { Route } from 'next'
 import BigNumber from 'bignumber.js'
-import { format, isAfter } from 'date-fns'
-import { ChevronRight, CreditCard, RefreshCw, Receipt } from 'lucide-react'
+import { isAfter } from 'date-fns'
+import { CalendarCheck, ChevronRight, CreditCard, RefreshCw, Receipt } from 'lucide-react'
 import Link from 'next/link'
 
 import { CardDetails } from '@/components/client-dashboard/CardDetails'
@@ -9,11 +9,13 @@ import { EmptyState } from '@/components/client-dashboard/EmptyState'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { formatCurrency, capitalize, toneClassName, toneForStatus } from '@/lib/client-dashboard/format'
+import { formatCurrency, formatDate, toneClassName, toneForStatus } from '@/lib/client-dashboard/format'
 import { getNextSubscriptionPaymentDate } from '@/lib/client-dashboard/getNextSubscriptionPaymentDate'
+import { getClientDashboardTranslator } from '@/server/client-dashboard/i18n'
 import {
   getClientProfile,
   getServiceProvider,
+  listMembershipAllowances,
   listPaymentPlanPayments,
   listPaymentPlans,
   listSalePayments,
@@ -45,16 +47,27 @@ export default async function ClientDashboardPage({ searchParams }: { searchPara
   const historyPage = Number.parseInt(historyPageRaw, 10)
   const safeHistoryPage = Number.isFinite(historyPage) && historyPage > 0 ? historyPage : 0
 
-  const [clientProfile, serviceProvider, paymentPlans, paymentPlanPayments, sales, saleProducts, salePayments] =
-    await Promise.all([
-      getClientProfile(),
-      getServiceProvider(),
-      listPaymentPlans(),
-      listPaymentPlanPayments(),
-      listSales(),
-      listSaleProductsForClient(),
-      listSalePayments(),
-    ])
+  const [
+    clientProfile,
+    serviceProvider,
+    paymentPlans,
+    paymentPlanPayments,
+    sales,
+    saleProducts,
+    salePayments,
+    memberships,
+    { locale, t },
+  ] = await Promise.all([
+    getClientProfile(),
+    getServiceProvider(),
+    listPaymentPlans(),
+    listPaymentPlanPayments(),
+    listSales(),
+    listSaleProductsForClient(),
+    listSalePayments(),
+    listMembershipAllowances(),
+    getClientDashboardTranslator(),
+  ])
 
   const serviceProviderName =
     serviceProvider.businessName?.trim() ||
@@ -132,8 +145,8 @@ export default async function ClientDashboardPage({ searchParams }: { searchPara
       return {
         id: payment.id,
         type: 'sale' as const,
-        name: product ? `Payment for ${product.name}` : 'Payment',
-        amount: formatCurrency(payment.amount, payment.currency),
+        name: product ? t('dashboard.home.paymentFor', { name: product.name }) : t('dashboard.home.payment'),
+        amount: formatCurrency(payment.amount, payment.currency, locale),
         status,
         date: new Date(payment.transactedAt),
         href: `/client-dashboard/sales/${payment.saleId}` as Route,
@@ -145,8 +158,8 @@ export default async function ClientDashboardPage({ searchParams }: { searchPara
       return {
         id: payment.id,
         type: 'plan' as const,
-        name: plan ? `Plan payment for ${plan.name}` : 'Plan payment',
-        amount: formatCurrency(payment.amount, payment.currency),
+        name: plan ? t('dashboard.home.planPaymentFor', { name: plan.name }) : t('dashboard.home.planPayment'),
+        amount: formatCurrency(payment.amount, payment.currency, locale),
         status: payment.status,
         date: new Date(payment.dueAt),
         href: `/client-dashboard/payment-plans/${payment.paymentPlanId}` as Route,
@@ -166,15 +179,15 @@ export default async function ClientDashboardPage({ searchParams }: { searchPara
   return (
     <div className="space-y-10">
       <header className="space-y-2">
-        <p className="text-sm text-muted-foreground">Client Dashboard</p>
+        <p className="text-sm text-muted-foreground">{t('dashboard.title')}</p>
         <h1 className="text-3xl font-semibold text-foreground">{serviceProviderName}</h1>
       </header>
 
       <section className="space-y-4">
         <div className="flex items-center justify-between gap-3">
           <div>
-            <h2 className="text-xl font-semibold text-foreground">Payment Method</h2>
-            <p className="text-sm text-muted-foreground">Manage the card used for subscriptions and payments.</p>
+            <h2 className="text-xl font-semibold text-foreground">{t('dashboard.home.paymentMethod')}</h2>
+            <p className="text-sm text-muted-foreground">{t('dashboard.home.paymentMethodDescription')}</p>
           </div>
           <Button
             variant="outline"
@@ -182,19 +195,19 @@ export default async function ClientDashboardPage({ searchParams }: { searchPara
             nativeButton={false}
             render={<Link href="/client-dashboard/payment-method" />}
           >
-            Update card
+            {t('dashboard.home.updateCard')}
           </Button>
         </div>
         <Card>
           <CardContent className="flex flex-wrap items-center justify-between gap-4">
-            <CardDetails card={clientProfile.card} />
+            <CardDetails card={clientProfile.card} locale={locale} />
             <Button
               variant="ghost"
               size="sm"
               nativeButton={false}
               render={<Link href="/client-dashboard/payment-method" />}
             >
-              Edit
+              {t('dashboard.home.edit')}
             </Button>
           </CardContent>
         </Card>
@@ -202,12 +215,15 @@ export default async function ClientDashboardPage({ searchParams }: { searchPara
 
       <section className="space-y-4">
         <div>
-          <h2 className="text-xl font-semibold text-foreground">Payment Requests</h2>
-          <p className="text-sm text-muted-foreground">Outstanding invoices waiting for your payment.</p>
+          <h2 className="text-xl font-semibold text-foreground">{t('dashboard.home.paymentRequests')}</h2>
+          <p className="text-sm text-muted-foreground">{t('dashboard.home.paymentRequestsDescription')}</p>
         </div>
         {paymentRequests.length === 0 ? (
           <Card>
-            <EmptyState icon={<CreditCard className="size-6" aria-hidden />} title="You have no payment requests" />
+            <EmptyState
+              icon={<CreditCard className="size-6" aria-hidden />}
+              title={t('dashboard.home.noPaymentRequests')}
+            />
           </Card>
         ) : (
           <Card>
@@ -224,16 +240,24 @@ export default async function ClientDashboardPage({ searchParams }: { searchPara
                   >
                     <div>
                       <div className="flex flex-wrap items-center gap-2">
-                        <p className="text-sm font-semibold text-foreground">{product?.name ?? 'Payment request'}</p>
-                        {overdue ? <Badge variant="destructive">Overdue</Badge> : null}
+                        <p className="text-sm font-semibold text-foreground">
+                          {product?.name ?? t('dashboard.home.paymentRequest')}
+                        </p>
+                        {overdue ? <Badge variant="destructive">{t('dashboard.home.overdue')}</Badge> : null}
                       </div>
                       <p className="text-sm text-muted-foreground">
-                        {formatCurrency(product?.price ?? sale.total, sale.currency)} · Due{' '}
-                        {Number.isNaN(dueAt.getTime()) ? 'soon' : format(dueAt, 'PP')}
+                        {t('dashboard.home.due', {
+                          amount: formatCurrency(product?.price ?? sale.total, sale.currency, locale),
+                          date: Number.isNaN(dueAt.getTime()) ? t('dashboard.soon') : formatDate(dueAt, locale),
+                        })}
                       </p>
                     </div>
                     <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                      <span>{formatCurrency(outstanding, sale.currency)} outstanding</span>
+                      <span>
+                        {t('dashboard.home.outstanding', {
+                          amount: formatCurrency(outstanding, sale.currency, locale),
+                        })}
+                      </span>
                       <ChevronRight className="size-4" aria-hidden />
                     </div>
                   </Link>
@@ -244,19 +268,57 @@ export default async function ClientDashboardPage({ searchParams }: { searchPara
         )}
       </section>
 
+      {memberships.length > 0 ? (
+        <section className="space-y-4">
+          <div>
+            <h2 className="text-xl font-semibold text-foreground">{t('dashboard.home.memberships')}</h2>
+            <p className="text-sm text-muted-foreground">{t('dashboard.home.membershipsDescription')}</p>
+          </div>
+          <Card>
+            <CardContent className="divide-y divide-border/70 p-0">
+              {memberships.map((membership) => (
+                <div
+                  key={membership.id}
+                  className="flex flex-col gap-2 px-6 py-4 md:flex-row md:items-center md:justify-between"
+                >
+                  <div>
+                    <div className="flex items-center gap-2 text-sm font-semibold text-foreground">
+                      <CalendarCheck className="size-4" aria-hidden />
+                      {membership.name}
+                    </div>
+                    {membership.periodEnd ? (
+                      <p className="text-xs text-muted-foreground">
+                        {t('dashboard.home.renews', { date: formatDate(new Date(membership.periodEnd), locale) })}
+                      </p>
+                    ) : null}
+                  </div>
+                  {membership.sessionsRemaining === null ? (
+                    <Badge className={toneClassName(toneForStatus(membership.status))}>
+                      {t('dashboard.status', { status: membership.status })}
+                    </Badge>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      {t('dashboard.home.sessionsRemaining', {
+                        remaining: membership.sessionsRemaining,
+                        allowed: membership.sessionsAllowed,
+                      })}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </section>
+      ) : null}
+
       <section className="space-y-4">
         <div>
-          <h2 className="text-xl font-semibold text-foreground">Subscriptions</h2>
-          <p className="text-sm text-muted-foreground">Active, overdue, and past subscriptions.</p>
+          <h2 className="text-xl font-semibold text-foreground">{t('dashboard.home.subscriptions')}</h2>
+          <p className="text-sm text-muted-foreground">{t('dashboard.home.subscriptionsDescription')}</p>
         </div>
         <div className="flex flex-wrap gap-2">
           {(['activeOverdue', 'paused', 'ended'] as const).map((tab) => {
-            const label =
-              tab === 'activeOverdue'
-                ? `Active/Overdue (${planGroups.activeOverdue.length})`
-                : tab === 'paused'
-                  ? `Paused (${planGroups.paused.length})`
-                  : `Ended (${planGroups.ended.length})`
+            const label = t('dashboard.home.tab', { tab, count: planGroups[tab].length })
             return (
               <Button
                 key={tab}
@@ -272,20 +334,22 @@ export default async function ClientDashboardPage({ searchParams }: { searchPara
         </div>
         {selectedPlans.length === 0 ? (
           <Card>
-            <EmptyState title="No subscriptions to show" description="You'll see active or past subscriptions here." />
+            <EmptyState
+              title={t('dashboard.home.noSubscriptions')}
+              description={t('dashboard.home.noSubscriptionsDescription')}
+            />
           </Card>
         ) : (
           <Card>
             <CardContent className="divide-y divide-border/70 p-0">
               {selectedPlans.map((plan) => {
                 const amount = plan.amount ?? plan.requestedAmount
-                const amountLabel = formatCurrency(amount, plan.currency)
-                const intervalLabel =
-                  plan.weeklyRecurrenceInterval === 1 ? 'week' : `${plan.weeklyRecurrenceInterval} weeks`
+                const amountLabel = formatCurrency(amount, plan.currency, locale)
+                const intervalLabel = t('common.everyWeeks', { count: plan.weeklyRecurrenceInterval })
                 const overdueCount = plan.overduePayments.length
                 const statusTone = toneForStatus(plan.status)
                 const statusClass = toneClassName(statusTone)
-                const nextCharge = plan.nextDebitDate ? format(plan.nextDebitDate, 'PPPP') : null
+                const nextCharge = plan.nextDebitDate ? formatDate(plan.nextDebitDate, locale, 'full') : null
                 return (
                   <Link
                     key={plan.id}
@@ -296,24 +360,28 @@ export default async function ClientDashboardPage({ searchParams }: { searchPara
                       <div>
                         <p className="text-sm font-semibold text-foreground">{plan.name}</p>
                         <p className="text-xs text-muted-foreground">
-                          {amountLabel} every {intervalLabel}
+                          {t('dashboard.amountEvery', { amount: amountLabel, interval: intervalLabel })}
                         </p>
                       </div>
                       <div className="flex flex-wrap items-center gap-2">
                         {overdueCount > 0 ? (
                           <Badge className="border border-rose-200 bg-rose-100 text-rose-800">
-                            {overdueCount} overdue
+                            {t('dashboard.home.overdueCount', { count: overdueCount })}
                           </Badge>
                         ) : null}
                         {plan.status === 'pending' ? (
                           <Badge className="border border-amber-200 bg-amber-100 text-amber-800">
-                            Needs acceptance
+                            {t('dashboard.home.needsAcceptance')}
                           </Badge>
                         ) : null}
-                        <Badge className={statusClass}>{capitalize(plan.status)}</Badge>
+                        <Badge className={statusClass}>{t('dashboard.status', { status: plan.status })}</Badge>
                       </div>
                     </div>
-                    {nextCharge ? <p className="text-xs text-muted-foreground">Next debit date: {nextCharge}</p> : null}
+                    {nextCharge ? (
+                      <p className="text-xs text-muted-foreground">
+                        {t('dashboard.home.nextDebitDate', { date: nextCharge })}
+                      </p>
+                    ) : null}
                   </Link>
                 )
               })}
@@ -324,12 +392,15 @@ export default async function ClientDashboardPage({ searchParams }: { searchPara
 
       <section className="space-y-4">
         <div>
-          <h2 className="text-xl font-semibold text-foreground">Billing History</h2>
-          <p className="text-sm text-muted-foreground">Recent payments across invoices and subscriptions.</p>
+          <h2 className="text-xl font-semibold text-foreground">{t('dashboard.home.billingHistory')}</h2>
+          <p className="text-sm text-muted-foreground">{t('dashboard.home.billingHistoryDescription')}</p>
         </div>
         {historyItems.length === 0 ? (
           <Card>
-            <EmptyState title="No billing history yet" description="Payments will appear here once processed." />
+            <EmptyState
+              title={t('dashboard.home.noBillingHistory')}
+              description={t('dashboard.home.noBillingHistoryDescription')}
+            />
           </Card>
         ) : (
           <Card>
@@ -345,9 +416,11 @@ export default async function ClientDashboardPage({ searchParams }: { searchPara
                     {item.name}
                   </div>
                   <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
-                    <Badge className={toneClassName(toneForStatus(item.status))}>{capitalize(item.status)}</Badge>
+                    <Badge className={toneClassName(toneForStatus(item.status))}>
+                      {t('dashboard.status', { status: item.status })}
+                    </Badge>
                     <span className="text-foreground">{item.amount}</span>
-                    <span>{format(item.date, 'PP')}</span>
+                    <span>{formatDate(item.date, locale)}</span>
                   </div>
                 </Link>
               ))}
@@ -359,11 +432,9 @@ export default async function ClientDashboardPage({ searchParams }: { searchPara
                   nativeButton={false}
                   render={<Link href={buildSearchParams({ planTab: selectedTab, historyPage: safeHistoryPage - 1 })} />}
                 >
-                  Previous
+                  {t('dashboard.previous')}
                 </Button>
-                <span>
-                  Page {safeHistoryPage + 1} of {historyTotalPages}
-                </span>
+                <span>{t('dashboard.pageOf', { page: safeHistoryPage + 1, totalPages: historyTotalPages })}</span>
                 <Button
                   variant="outline"
                   size="sm"
@@ -371,7 +442,7 @@ export default async function ClientDashboardPage({ searchParams }: { searchPara
                   nativeButton={false}
                   render={<Link href={buildSearchParams({ planTab: selectedTab, historyPage: safeHistoryPage + 1 })} />}
                 >
-                  Next
+                  {t('dashboard.next')}
                 </Button>
               </div>
             </CardContent>
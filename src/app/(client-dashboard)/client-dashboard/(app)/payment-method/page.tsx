@@ -1,25 +1,26 @@
 import Link from 'next/link'
 
 import { Button } from '@/components/ui/button'
+import { getClientDashboardTranslator } from '@/server/client-dashboard/i18n'
 import { getClientProfile } from '@/server/client-dashboard/queries'
 import { PaymentMethodClient } from './payment-method-client'
 
 export default async function PaymentMethodPage() {
-  const clientProfile = await getClientProfile()
+  const [clientProfile, { locale, t }] = await Promise.all([getClientProfile(), getClientDashboardTranslator()])
 
   return (
     <div className="space-y-6">
       <div className="flex flex-wrap items-center justify-between gap-3">
         <div>
-          <p className="text-sm text-muted-foreground">Client Dashboard</p>
-          <h1 className="text-2xl font-semibold text-foreground">Payment method</h1>
+          <p className="text-sm text-muted-foreground">{t('dashboard.title')}</p>
+          <h1 className="text-2xl font-semibold text-foreground">{t('dashboard.paymentMethod.title')}</h1>
         </div>
         <Button variant="outline" size="sm" nativeButton={false} render={<Link href="/client-dashboard" />}>
-          Back to dashboard
+          {t('dashboard.backToDashboard')}
         </Button>
       </div>
 
-      <PaymentMethodClient card={clientProfile.card} />
+      <PaymentMethodClient card={clientProfile.card} locale={locale} />
     </div>
   )
 }
@@ -4,14 +4,16 @@ import type { StripeCardElement as StripeCardElementType } from '@stripe/stripe-
 import { useStripe } from '@stripe/react-stripe-js'
 import { Lock, Loader2 } from 'lucide-react'
 import { useRouter } from 'next/navigation'
-import { useState, useTransition } from 'react'
+import { useMemo, useState, useTransition } from 'react'
 
 import { createStripeSetupIntent } from '@/app/(client-dashboard)/client-dashboard/actions'
+import { APP_NAME } from '@/app/api/_lib/constants'
 import { Alert } from '@/components/client-dashboard/Alert'
 import { CardDetails } from '@/components/client-dashboard/CardDetails'
 import { StripeCardElement } from '@/components/client-dashboard/StripeCardElement'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import { createTranslator } from '@/lib/i18n'
 
 export type PaymentMethodClientProps = {
   card: {
@@ -20,9 +22,11 @@ export type PaymentMethodClientProps = {
     expMonth: number
     brand: string
   } | null
+  locale: string
 }
 
-export function PaymentMethodClient({ card }: PaymentMethodClientProps) {
+export function PaymentMethodClient({ card, locale }: PaymentMethodClientProps) {
+  const { t } = useMemo(() => createTranslator(locale), [locale])
   const stripe = useStripe()
   const router = useRouter()
   const [cardElement, setCardElement] = useState<StripeCardElementType | null>(null)
@@ -36,7 +40,7 @@ export function PaymentMethodClient({ card }: PaymentMethodClientProps) {
     setSuccess(false)
 
     if (!stripe || !cardElement) {
-      setMessage('Please enter your card details to continue.')
+      setMessage(t('dashboard.paymentMethod.enterCardDetails'))
       return
     }
 
@@ -52,7 +56,7 @@ export function PaymentMethodClient({ card }: PaymentMethodClientProps) {
       })
 
       if (result.error) {
-        setMessage(result.error.message ?? 'Unable to save this card. Please try again.')
+        setMessage(result.error.message ?? t('dashboard.paymentMethod.unableToSave'))
         return
       }
 
@@ -66,31 +70,31 @@ export function PaymentMethodClient({ card }: PaymentMethodClientProps) {
     <form onSubmit={handleSubmit} className="space-y-6">
       <Card>
         <CardHeader>
-          <CardTitle>Your card details</CardTitle>
-          <CardDescription>We will use this card for subscriptions and approved payments.</CardDescription>
+          <CardTitle>{t('dashboard.paymentMethod.cardDetails')}</CardTitle>
+          <CardDescription>{t('dashboard.paymentMethod.cardDetailsDescription')}</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          {success ? <Alert tone="success" title="Card saved successfully." /> : null}
+          {success ? <Alert tone="success" title={t('dashboard.paymentMethod.saved')} /> : null}
           {message ? <Alert tone="error" title={message} /> : null}
 
           <div className="space-y-2">
-            <p className="text-sm font-medium text-foreground">Card on file</p>
+            <p className="text-sm font-medium text-foreground">{t('dashboard.paymentMethod.cardOnFile')}</p>
             <div className="rounded-lg border border-border/60 bg-muted/30 px-4 py-3">
-              <CardDetails card={card} />
+              <CardDetails card={card} locale={locale} />
             </div>
           </div>
 
           <div className="space-y-2">
             <label htmlFor="card-details" className="text-sm font-medium text-foreground">
-              New card details
+              {t('dashboard.newCardDetails')}
             </label>
             <StripeCardElement id="card-details" onReady={setCardElement} />
             <p className="text-xs text-muted-foreground">
-              By adding your card details you agree to Keepon's{' '}
+              {t('dashboard.paymentMethod.termsBefore', { appName: APP_NAME })}{' '}
               <a className="underline" href="https://getkeepon.com/terms-of-service" target="_blank" rel="noreferrer">
-                terms and conditions
+                {t('dashboard.paymentMethod.termsLink', { appName: APP_NAME })}
               </a>
-              . Your service provider can not charge you without your consent.
+              {t('dashboard.paymentMethod.termsAfter')}
             </p>
           </div>
         </CardContent>
@@ -101,7 +105,7 @@ export function PaymentMethodClient({ card }: PaymentMethodClientProps) {
             ) : (
               <Lock className="size-4" aria-hidden />
             )}
-            Save card
+            {t('dashboard.paymentMethod.save')}
           </Button>
         </CardFooter>
       </Card>
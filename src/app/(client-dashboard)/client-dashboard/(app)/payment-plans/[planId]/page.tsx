@@ -1,6 +1,6 @@
 import type { Route } from 'next'
 import BigNumber from 'bignumber.js'
-import { format, isAfter } from 'date-fns'
+import { isAfter } from 'date-fns'
 import Link from 'next/link'
 import { notFound } from 'next/navigation'
 
@@ -9,8 +9,9 @@ import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
-import { capitalize, formatCurrency, toneClassName, toneForStatus } from '@/lib/client-dashboard/format'
+import { formatCurrency, formatDate, toneClassName, toneForStatus } from '@/lib/client-dashboard/format'
 import { getNextSubscriptionPaymentDate } from '@/lib/client-dashboard/getNextSubscriptionPaymentDate'
+import { getClientDashboardTranslator } from '@/server/client-dashboard/i18n'
 import { getClientProfile, getPaymentPlan, listPaymentPlanPayments } from '@/server/client-dashboard/queries'
 import { PaymentPlanActions } from './payment-plan-actions'
 
@@ -41,10 +42,11 @@ export default async function PaymentPlanPage({
   const page = Number.parseInt(pageRaw, 10)
   const safePage = Number.isFinite(page) && page >= 0 ? page : 0
 
-  const [plan, payments, clientProfile] = await Promise.all([
+  const [plan, payments, clientProfile, { locale, t }] = await Promise.all([
     getPaymentPlan(planId),
     listPaymentPlanPayments({ paymentPlanId: planId }),
     getClientProfile(),
+    getClientDashboardTranslator(),
   ])
 
   if (!plan) {
@@ -65,7 +67,7 @@ export default async function PaymentPlanPage({
     (total, payment) => total.plus(payment.amountOutstanding),
     new BigNumber(0)
   )
-  const amountOverdueLabel = amountOverdue.gt(0) ? formatCurrency(amountOverdue, plan.currency) : null
+  const amountOverdueLabel = amountOverdue.gt(0) ? formatCurrency(amountOverdue, plan.currency, locale) : null
 
   const nextDebitDate =
     status === 'active'
@@ -80,8 +82,8 @@ export default async function PaymentPlanPage({
   const totalPages = Math.max(1, Math.ceil(sortedPayments.length / PAGE_SIZE))
   const pageItems = sortedPayments.slice(safePage * PAGE_SIZE, (safePage + 1) * PAGE_SIZE)
 
-  const amountLabel = formatCurrency(plan.amount ?? plan.requestedAmount, plan.currency)
-  const intervalLabel = plan.weeklyRecurrenceInterval === 1 ? 'week' : `${plan.weeklyRecurrenceInterval} weeks`
+  const amountLabel = formatCurrency(plan.amount ?? plan.requestedAmount, plan.currency, locale)
+  const intervalLabel = t('common.everyWeeks', { count: plan.weeklyRecurrenceInterval })
   const statusClass = toneClassName(toneForStatus(status))
 
   const requiresAcceptance = status === 'pending'
@@ -91,49 +93,47 @@ export default async function PaymentPlanPage({
     <div className="space-y-8">
       <header className="flex flex-wrap items-center justify-between gap-3">
         <div>
-          <p className="text-sm text-muted-foreground">Client Dashboard</p>
+          <p className="text-sm text-muted-foreground">{t('dashboard.title')}</p>
           <h1 className="text-2xl font-semibold text-foreground">{plan.name}</h1>
         </div>
         <Button variant="outline" size="sm" nativeButton={false} render={<Link href="/client-dashboard" />}>
-          Back to dashboard
+          {t('dashboard.backToDashboard')}
         </Button>
       </header>
 
       <Card>
         <CardHeader>
-          <CardTitle>Subscription summary</CardTitle>
-          <CardDescription>Key details for this subscription.</CardDescription>
+          <CardTitle>{t('dashboard.plan.summary')}</CardTitle>
+          <CardDescription>{t('dashboard.plan.summaryDescription')}</CardDescription>
         </CardHeader>
         <CardContent className="grid gap-4 text-sm md:grid-cols-2">
           <div>
-            <p className="text-muted-foreground">Amount</p>
+            <p className="text-muted-foreground">{t('dashboard.plan.amount')}</p>
             <p className="text-base font-semibold text-foreground">
-              {amountLabel} every {intervalLabel}
+              {t('dashboard.amountEvery', { amount: amountLabel, interval: intervalLabel })}
             </p>
           </div>
           <div>
-            <p className="text-muted-foreground">Status</p>
-            <Badge className={statusClass}>{capitalize(status)}</Badge>
+            <p className="text-muted-foreground">{t('dashboard.plan.status')}</p>
+            <Badge className={statusClass}>{t('dashboard.status', { status })}</Badge>
           </div>
           <div>
-            <p className="text-muted-foreground">Start date</p>
-            <p className="text-foreground">{format(plan.startAt, 'PP')}</p>
+            <p className="text-muted-foreground">{t('dashboard.plan.startDate')}</p>
+            <p className="text-foreground">{formatDate(plan.startAt, locale)}</p>
           </div>
           <div>
-            <p className="text-muted-foreground">End date</p>
-            <p className="text-foreground">
-              {plan.endAt ? format(plan.endAt, 'PP') : format(plan.requestedEndAt, 'PP')}
-            </p>
+            <p className="text-muted-foreground">{t('dashboard.plan.endDate')}</p>
+            <p className="text-foreground">{formatDate(plan.endAt ?? plan.requestedEndAt, locale)}</p>
           </div>
           {nextDebitDate ? (
             <div>
-              <p className="text-muted-foreground">Next debit date</p>
-              <p className="text-foreground">{format(nextDebitDate, 'PPPP')}</p>
+              <p className="text-muted-foreground">{t('dashboard.plan.nextDebitDate')}</p>
+              <p className="text-foreground">{formatDate(nextDebitDate, locale, 'full')}</p>
             </div>
           ) : null}
           {hasOverdue ? (
             <div>
-              <p className="text-muted-foreground">Overdue balance</p>
+              <p className="text-muted-foreground">{t('dashboard.plan.overdueBalance')}</p>
               <p className="text-foreground">{amountOverdueLabel}</p>
             </div>
           ) : null}
@@ -147,48 +147,52 @@ export default async function PaymentPlanPage({
           hasOverdue={hasOverdue}
           amountOverdueLabel={amountOverdueLabel}
           clientCard={clientProfile.card}
+          locale={locale}
         />
       ) : (
         <Card>
           <CardHeader>
-            <CardTitle>Payments are automated</CardTitle>
-            <CardDescription>Your subscription will be charged automatically on schedule.</CardDescription>
+            <CardTitle>{t('dashboard.plan.automated')}</CardTitle>
+            <CardDescription>{t('dashboard.plan.automatedDescription')}</CardDescription>
           </CardHeader>
         </Card>
       )}
 
       <Card>
         <CardHeader>
-          <CardTitle>Payment history</CardTitle>
-          <CardDescription>Past payments for this subscription.</CardDescription>
+          <CardTitle>{t('dashboard.plan.history')}</CardTitle>
+          <CardDescription>{t('dashboard.plan.historyDescription')}</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           {sortedPayments.length === 0 ? (
-            <EmptyState title="No payments yet" description="Payments will appear here once processed." />
+            <EmptyState
+              title={t('dashboard.plan.noPayments')}
+              description={t('dashboard.plan.noPaymentsDescription')}
+            />
           ) : (
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Payment</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead className="text-right">Amount</TableHead>
-                  <TableHead className="text-right">Date</TableHead>
+                  <TableHead>{t('dashboard.plan.payment')}</TableHead>
+                  <TableHead>{t('dashboard.plan.status')}</TableHead>
+                  <TableHead className="text-right">{t('dashboard.plan.amount')}</TableHead>
+                  <TableHead className="text-right">{t('dashboard.plan.date')}</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {pageItems.map((payment) => (
                   <TableRow key={payment.id}>
-                    <TableCell>Plan payment</TableCell>
+                    <TableCell>{t('dashboard.plan.planPayment')}</TableCell>
                     <TableCell>
                       <Badge className={toneClassName(toneForStatus(payment.status))}>
-                        {capitalize(payment.status)}
+                        {t('dashboard.status', { status: payment.status })}
                       </Badge>
                     </TableCell>
                     <TableCell className="text-right text-foreground">
-                      {formatCurrency(payment.amount, payment.currency)}
+                      {formatCurrency(payment.amount, payment.currency, locale)}
                     </TableCell>
                     <TableCell className="text-right text-muted-foreground">
-                      {format(new Date(payment.dueAt), 'PP')}
+                      {formatDate(new Date(payment.dueAt), locale)}
                     </TableCell>
                   </TableRow>
                 ))}
@@ -205,11 +209,9 @@ export default async function PaymentPlanPage({
                 nativeButton={false}
                 render={<Link href={buildSearchParams(planId, safePage - 1)} />}
               >
-                Previous
+                {t('dashboard.previous')}
               </Button>
-              <span>
-                Page {safePage + 1} of {totalPages}
-              </span>
+              <span>{t('dashboard.pageOf', { page: safePage + 1, totalPages })}</span>
               <Button
                 variant="outline"
                 size="sm"
@@ -217,7 +219,7 @@ export default async function PaymentPlanPage({
                 nativeButton={false}
                 render={<Link href={buildSearchParams(planId, safePage + 1)} />}
               >
-                Next
+                {t('dashboard.next')}
               </Button>
             </div>
           ) : null}
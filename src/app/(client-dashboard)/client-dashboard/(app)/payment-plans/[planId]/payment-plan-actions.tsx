@@ -4,7 +4,7 @@ import type { StripeCardElement as StripeCardElementType } from '@stripe/stripe-
 import { useStripe } from '@stripe/react-stripe-js'
 import { CreditCard, Loader2 } from 'lucide-react'
 import { useRouter } from 'next/navigation'
-import { useState, useTransition } from 'react'
+import { useMemo, useState, useTransition } from 'react'
 
 import {
   acceptPaymentPlan,
@@ -17,6 +17,7 @@ import { StripeCardElement } from '@/components/client-dashboard/StripeCardEleme
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { cardIsExpired } from '@/lib/client-dashboard/format'
+import { createTranslator } from '@/lib/i18n'
 
 export type PaymentPlanActionsProps = {
   planId: string
@@ -30,6 +31,7 @@ export type PaymentPlanActionsProps = {
     expMonth: number
     brand: string
   } | null
+  locale: string
 }
 
 export function PaymentPlanActions({
@@ -38,26 +40,28 @@ export function PaymentPlanActions({
   hasOverdue,
   amountOverdueLabel,
   clientCard,
+  locale,
 }: PaymentPlanActionsProps) {
+  const { t } = useMemo(() => createTranslator(locale), [locale])
   const stripe = useStripe()
   const router = useRouter()
   const [cardElement, setCardElement] = useState<StripeCardElementType | null>(null)
   const [message, setMessage] = useState<{ tone: 'success' | 'error'; text: string } | null>(null)
   const [isPending, startTransition] = useTransition()
 
-  const actionLabel = requiresAcceptance ? 'Accept subscription' : hasOverdue ? 'Pay overdue balance' : 'Retry payment'
+  const action = requiresAcceptance ? 'accept' : hasOverdue ? 'payOverdue' : 'retry'
 
   const handleAction = async (useNewCard: boolean) => {
     setMessage(null)
 
     if (!stripe && useNewCard) {
-      setMessage({ tone: 'error', text: 'Stripe is not ready yet. Please try again.' })
+      setMessage({ tone: 'error', text: t('dashboard.plan.stripeNotReady') })
       return
     }
 
     if (useNewCard) {
       if (!cardElement) {
-        setMessage({ tone: 'error', text: 'Enter card details to continue.' })
+        setMessage({ tone: 'error', text: t('dashboard.enterCardDetails') })
         return
       }
 
@@ -72,7 +76,7 @@ export function PaymentPlanActions({
       })
 
       if (confirmResult.error) {
-        setMessage({ tone: 'error', text: confirmResult.error.message ?? 'Unable to save this card.' })
+        setMessage({ tone: 'error', text: confirmResult.error.message ?? t('dashboard.unableToSaveCard') })
         return
       }
 
@@ -87,11 +91,11 @@ export function PaymentPlanActions({
     }
 
     if ('attempted' in actionResult && actionResult.attempted === 0) {
-      setMessage({ tone: 'success', text: 'No overdue payments were found to retry.' })
+      setMessage({ tone: 'success', text: t('dashboard.plan.noOverdue') })
     } else {
       setMessage({
         tone: 'success',
-        text: requiresAcceptance ? 'Subscription accepted.' : 'We are retrying your payments now.',
+        text: requiresAcceptance ? t('dashboard.plan.accepted') : t('dashboard.plan.retrying'),
       })
     }
 
@@ -104,31 +108,33 @@ export function PaymentPlanActions({
   return (
     <Card>
       <CardHeader>
-        <CardTitle>{requiresAcceptance ? 'Accept your subscription' : 'Resolve payments'}</CardTitle>
+        <CardTitle>{requiresAcceptance ? t('dashboard.plan.acceptTitle') : t('dashboard.plan.resolveTitle')}</CardTitle>
         <CardDescription>
-          {requiresAcceptance
-            ? 'Accept the terms below to start automatic billing.'
-            : 'Retry outstanding payments using your saved or new card.'}
+          {requiresAcceptance ? t('dashboard.plan.acceptDescription') : t('dashboard.plan.resolveDescription')}
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
         {message ? <Alert tone={message.tone} title={message.text} /> : null}
         {hasOverdue && amountOverdueLabel ? (
-          <Alert tone="warning" title="Overdue payments" description={`${amountOverdueLabel} will be charged.`} />
+          <Alert
+            tone="warning"
+            title={t('dashboard.plan.overduePayments')}
+            description={t('dashboard.plan.willBeCharged', { amount: amountOverdueLabel })}
+          />
         ) : null}
         {requiresAcceptance ? (
           <Alert
             tone="warning"
-            title="Subscription requires acceptance"
-            description="By accepting, you allow this service provider to charge your card based on this subscription's terms."
+            title={t('dashboard.plan.requiresAcceptance')}
+            description={t('dashboard.plan.requiresAcceptanceDescription')}
           />
         ) : null}
 
         {clientCard ? (
           <div className="space-y-2">
-            <p className="text-sm font-medium text-foreground">Saved card details</p>
+            <p className="text-sm font-medium text-foreground">{t('dashboard.savedCardDetails')}</p>
             <div className="rounded-lg border border-border/60 bg-muted/30 px-4 py-3">
-              <CardDetails card={clientCard} />
+              <CardDetails card={clientCard} locale={locale} />
             </div>
           </div>
         ) : null}
@@ -147,21 +153,21 @@ export function PaymentPlanActions({
               ) : (
                 <CreditCard className="size-4" aria-hidden />
               )}
-              {actionLabel} with saved card
+              {t('dashboard.plan.withSavedCard', { action })}
             </Button>
           ) : null}
 
           {showSavedCardButton ? (
             <div className="flex items-center gap-2 text-xs text-muted-foreground">
               <span className="h-px flex-1 bg-border" />
-              Or use a new card
+              {t('dashboard.orUseNewCard')}
               <span className="h-px flex-1 bg-border" />
             </div>
           ) : null}
 
           <div className="space-y-2">
             <label htmlFor="plan-card-details" className="text-sm font-medium text-foreground">
-              New card details
+              {t('dashboard.newCardDetails')}
             </label>
             <StripeCardElement id="plan-card-details" onReady={setCardElement} />
           </div>
@@ -179,7 +185,7 @@ export function PaymentPlanActions({
             ) : (
               <CreditCard className="size-4" aria-hidden />
             )}
-            {actionLabel} with new card
+            {t('dashboard.plan.withNewCard', { action })}
           </Button>
         </div>
       </CardContent>
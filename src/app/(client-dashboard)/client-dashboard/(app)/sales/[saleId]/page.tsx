@@ -1,5 +1,4 @@
 import BigNumber from 'bignumber.js'
-import { format } from 'date-fns'
 import Link from 'next/link'
 import { notFound } from 'next/navigation'
 
@@ -15,13 +14,15 @@ import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
-import { capitalize, formatCurrency, toneClassName, toneForStatus } from '@/lib/client-dashboard/format'
+import { formatCurrency, formatDate, toneClassName, toneForStatus } from '@/lib/client-dashboard/format'
+import { getClientDashboardTranslator } from '@/server/client-dashboard/i18n'
 import {
   getClientProfile,
   getSale,
   getServiceProvider,
   listSalePayments,
   listSaleProducts,
+  listSaleTaxLines,
 } from '@/server/client-dashboard/queries'
 import { SaleActions } from './sale-actions'
 
@@ -86,12 +87,14 @@ const computePassOnTotals = (args: { subtotal: BigNumber; chargeCountry: string;
 export default async function SalePage({ params }: { params: Promise<{ saleId: string }> }) {
   const { saleId } = await params
 
-  const [sale, products, payments, clientProfile, serviceProvider] = await Promise.all([
+  const [sale, products, taxLines, payments, clientProfile, serviceProvider, { locale, t }] = await Promise.all([
     getSale(saleId),
     listSaleProducts(saleId),
+    listSaleTaxLines(saleId),
     listSalePayments(saleId),
     getClientProfile(),
     getServiceProvider(),
+    getClientDashboardTranslator(),
   ])
 
   if (!sale) {
@@ -105,7 +108,7 @@ export default async function SalePage({ params }: { params: Promise<{ saleId: s
   const amountDue = total.minus(totalPaid)
 
   const paid = total.isZero() || totalPaid.eq(total)
-  const refunded = totalRefunded.gt(0)
+  const refunded = totalRefunded.gt(0) && totalRefunded.gte(totalPaid)
   const dueAt = new Date(sale.dueAt)
   const paidAt = payments.find((payment) => payment.transactedAt)?.transactedAt
 
@@ -145,49 +148,57 @@ export default async function SalePage({ params }: { params: Promise<{ saleId: s
     serviceProvider.businessName?.trim() ||
     `${serviceProvider.firstName.trim()}${serviceProvider.lastName ? ` ${serviceProvider.lastName.trim()}` : ''}`.trim()
 
-  const baseTotalLabel = formatCurrency(total, sale.currency)
-  const savedCardTotalLabel = savedCardTotal ? formatCurrency(savedCardTotal, sale.currency) : null
+  const baseTotalLabel = formatCurrency(total, sale.currency, locale)
+  const savedCardTotalLabel = savedCardTotal ? formatCurrency(savedCardTotal, sale.currency, locale) : null
 
   return (
     <div className="space-y-8">
       <header className="flex flex-wrap items-center justify-between gap-3">
         <div>
-          <p className="text-sm text-muted-foreground">Client Dashboard</p>
-          <h1 className="text-2xl font-semibold text-foreground">Payment request</h1>
+          <p className="text-sm text-muted-foreground">{t('dashboard.title')}</p>
+          <h1 className="text-2xl font-semibold text-foreground">{t('dashboard.sale.title')}</h1>
         </div>
         <Button variant="outline" size="sm" nativeButton={false} render={<Link href="/client-dashboard" />}>
-          Back to dashboard
+          {t('dashboard.backToDashboard')}
         </Button>
       </header>
 
       <Card>
         <CardHeader>
-          <CardTitle>Payment summary</CardTitle>
-          <CardDescription>Review the payment details before completing.</CardDescription>
+          <CardTitle>{t('dashboard.sale.summary')}</CardTitle>
+          <CardDescription>{t('dashboard.sale.summaryDescription')}</CardDescription>
         </CardHeader>
         <CardContent className="grid gap-4 text-sm md:grid-cols-2">
           <div>
-            <p className="text-muted-foreground">Total</p>
+            <p className="text-muted-foreground">{t('dashboard.sale.total')}</p>
             <p className="text-base font-semibold text-foreground">{baseTotalLabel}</p>
           </div>
           <div>
-            <p className="text-muted-foreground">Status</p>
-            <Badge className={statusClass}>{capitalize(paymentStatus)}</Badge>
+            <p className="text-muted-foreground">{t('dashboard.sale.status')}</p>
+            <Badge className={statusClass}>{t('dashboard.status', { status: paymentStatus })}</Badge>
           </div>
           <div>
-            <p className="text-muted-foreground">Due date</p>
-            <p className="text-foreground">{Number.isNaN(dueAt.getTime()) ? 'Soon' : format(dueAt, 'PP')}</p>
+            <p className="text-muted-foreground">{t('dashboard.sale.dueDate')}</p>
+            <p className="text-foreground">
+              {Number.isNaN(dueAt.getTime()) ? t('dashboard.sale.soon') : formatDate(dueAt, locale)}
+            </p>
           </div>
           {paidAt ? (
             <div>
-              <p className="text-muted-foreground">Date paid</p>
-              <p className="text-foreground">{format(new Date(paidAt), 'PP')}</p>
+              <p className="text-muted-foreground">{t('dashboard.sale.datePaid')}</p>
+              <p className="text-foreground">{formatDate(new Date(paidAt), locale)}</p>
             </div>
           ) : null}
           {!paid ? (
             <div>
-              <p className="text-muted-foreground">Amount due</p>
-              <p className="text-foreground">{formatCurrency(amountDue, sale.currency)}</p>
+              <p className="text-muted-foreground">{t('dashboard.sale.amountDue')}</p>
+              <p className="text-foreground">{formatCurrency(amountDue, sale.currency, locale)}</p>
+            </div>
+          ) : null}
+          {totalRefunded.gt(0) ? (
+            <div>
+              <p className="text-muted-foreground">{t('dashboard.sale.amountRefunded')}</p>
+              <p className="text-foreground">{formatCurrency(totalRefunded, sale.currency, locale)}</p>
             </div>
           ) : null}
         </CardContent>
@@ -195,18 +206,21 @@ export default async function SalePage({ params }: { params: Promise<{ saleId: s
 
       <Card>
         <CardHeader>
-          <CardTitle>Items</CardTitle>
-          <CardDescription>Products included in this payment request.</CardDescription>
+          <CardTitle>{t('dashboard.sale.items')}</CardTitle>
+          <CardDescription>{t('dashboard.sale.itemsDescription')}</CardDescription>
         </CardHeader>
         <CardContent>
           {products.length === 0 ? (
-            <EmptyState title="No products" description="This payment request has no items." />
+            <EmptyState
+              title={t('dashboard.sale.noProducts')}
+              description={t('dashboard.sale.noProductsDescription')}
+            />
           ) : (
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Item</TableHead>
-                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead>{t('dashboard.sale.item')}</TableHead>
+                  <TableHead className="text-right">{t('dashboard.sale.price')}</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -214,7 +228,17 @@ export default async function SalePage({ params }: { params: Promise<{ saleId: s
                   <TableRow key={product.id}>
                     <TableCell>{product.name}</TableCell>
                     <TableCell className="text-right text-foreground">
-                      {formatCurrency(product.price, sale.currency)}
+                      {formatCurrency(product.price, sale.currency, locale)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {taxLines.map((line) => (
+                  <TableRow key={`${line.saleProductId}:${line.taxId}`}>
+                    <TableCell className="text-muted-foreground">
+                      {t('dashboard.sale.taxIncluded', { label: line.label, percent: line.percent })}
+                    </TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {formatCurrency(line.amount, sale.currency, locale)}
                     </TableCell>
                   </TableRow>
                 ))}
@@ -224,30 +248,65 @@ export default async function SalePage({ params }: { params: Promise<{ saleId: s
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('dashboard.sale.documents')}</CardTitle>
+          <CardDescription>{t('dashboard.sale.documentsDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            nativeButton={false}
+            render={<Link href={`/client-dashboard/sales/${sale.id}/invoice`} prefetch={false} download />}
+          >
+            {t('dashboard.sale.downloadInvoice')}
+          </Button>
+          {payments.map((payment) => (
+            <Button
+              key={payment.id}
+              variant="outline"
+              size="sm"
+              nativeButton={false}
+              render={
+                <Link href={`/client-dashboard/sales/${sale.id}/receipts/${payment.id}`} prefetch={false} download />
+              }
+            >
+              {t('dashboard.sale.downloadReceipt', {
+                amount: formatCurrency(payment.amount, payment.currency, locale),
+                date: formatDate(new Date(payment.transactedAt), locale),
+              })}
+            </Button>
+          ))}
+        </CardContent>
+      </Card>
+
       {sale.paymentRequestPassOnTransactionFee && passOnTotals ? (
         <Card>
           <CardHeader>
-            <CardTitle>Card fee</CardTitle>
-            <CardDescription>
-              Your service provider passes on the card processing fee for this payment request.
-            </CardDescription>
+            <CardTitle>{t('dashboard.sale.cardFee')}</CardTitle>
+            <CardDescription>{t('dashboard.sale.cardFeeDescription')}</CardDescription>
           </CardHeader>
           <CardContent className="space-y-2 text-sm">
             {passOnTotals.domesticFee.eq(passOnTotals.internationalFee) ? (
               <div className="flex items-center justify-between">
-                <span>Card fee</span>
-                <span className="text-foreground">{formatCurrency(passOnTotals.domesticFee, sale.currency)}</span>
+                <span>{t('dashboard.sale.cardFee')}</span>
+                <span className="text-foreground">
+                  {formatCurrency(passOnTotals.domesticFee, sale.currency, locale)}
+                </span>
               </div>
             ) : (
               <>
                 <div className="flex items-center justify-between">
-                  <span>{passOnTotals.feeDomesticLabel} cards</span>
-                  <span className="text-foreground">{formatCurrency(passOnTotals.domesticFee, sale.currency)}</span>
+                  <span>{t('dashboard.sale.domesticCards', { region: passOnTotals.feeDomesticLabel })}</span>
+                  <span className="text-foreground">
+                    {formatCurrency(passOnTotals.domesticFee, sale.currency, locale)}
+                  </span>
                 </div>
                 <div className="flex items-center justify-between">
-                  <span>Non-{passOnTotals.feeDomesticLabel} cards</span>
+                  <span>{t('dashboard.sale.internationalCards', { region: passOnTotals.feeDomesticLabel })}</span>
                   <span className="text-foreground">
-                    {formatCurrency(passOnTotals.internationalFee, sale.currency)}
+                    {formatCurrency(passOnTotals.internationalFee, sale.currency, locale)}
                   </span>
                 </div>
               </>
@@ -257,7 +316,7 @@ export default async function SalePage({ params }: { params: Promise<{ saleId: s
       ) : null}
 
       {paid ? (
-        <Alert tone="success" title="This payment request is already paid." />
+        <Alert tone="success" title={t('dashboard.sale.alreadyPaid')} />
       ) : (
         <SaleActions
           saleId={sale.id}
@@ -282,6 +341,7 @@ export default async function SalePage({ params }: { params: Promise<{ saleId: s
               : null
           }
           savedCardTotalLabel={savedCardTotalLabel}
+          locale={locale}
         />
       )}
     </div>
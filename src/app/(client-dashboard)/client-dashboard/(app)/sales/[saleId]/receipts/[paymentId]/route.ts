@@ -0,0 +1,28 @@
+import { z } from 'zod'
+import { createSaleDocumentResponse } from '@/app/api/_lib/saleDocuments'
+import { db } from '@/lib/db'
+import { requireClientDashboardSession } from '@/server/client-dashboard/auth'
+import { renderSaleDocument, SaleDocumentNotFoundError } from '@/server/saleDocuments'
+
+export async function GET(_request: Request, { params }: { params: Promise<{ paymentId: string }> }) {
+  const session = await requireClientDashboardSession()
+  const { paymentId } = await params
+
+  if (!z.string().uuid().safeParse(paymentId).success) {
+    return new Response('Not found', { status: 404 })
+  }
+
+  try {
+    const document = await renderSaleDocument(
+      db,
+      { trainerId: session.trainerId, clientId: session.clientId },
+      { document: 'receipt', paymentId }
+    )
+    return createSaleDocumentResponse(document)
+  } catch (error) {
+    if (error instanceof SaleDocumentNotFoundError) {
+      return new Response('Not found', { status: 404 })
+    }
+    throw error
+  }
+}
@@ -17,6 +17,7 @@ import { StripeCardElement } from '@/components/client-dashboard/StripeCardEleme
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { cardIsExpired, getErrorMessage } from '@/lib/client-dashboard/format'
+import { createTranslator } from '@/lib/i18n'
 
 type SaleActionsProps = {
   saleId: string
@@ -37,6 +38,7 @@ type SaleActionsProps = {
     country: string | null
   } | null
   savedCardTotalLabel?: string | null
+  locale: string
 }
 
 export function SaleActions({
@@ -51,7 +53,9 @@ export function SaleActions({
   serviceProviderCurrency,
   savedCard,
   savedCardTotalLabel,
+  locale,
 }: SaleActionsProps) {
+  const { t } = useMemo(() => createTranslator(locale), [locale])
   const stripe = useStripe()
   const router = useRouter()
   const [cardElement, setCardElement] = useState<StripeCardElementType | null>(null)
@@ -103,8 +107,8 @@ export function SaleActions({
     if (!paymentRequestPassOnTransactionFee) {
       return baseTotalLabel
     }
-    return `${baseTotalLabel} + fee`
-  }, [baseTotalLabel, paymentRequestPassOnTransactionFee])
+    return t('dashboard.sale.totalWithFee', { total: baseTotalLabel })
+  }, [baseTotalLabel, paymentRequestPassOnTransactionFee, t])
 
   const runPayment = (method: 'saved' | 'new' | 'paymentRequest', task: () => Promise<void>) => {
     setMessage(null)
@@ -112,14 +116,14 @@ export function SaleActions({
     startTransition(() => {
       void task()
         .then(() => {
-          setMessage({ tone: 'success', text: 'Payment complete.' })
+          setMessage({ tone: 'success', text: t('dashboard.sale.paymentComplete') })
           router.refresh()
         })
         .catch((error) => {
           if (error instanceof Error && error.message === 'Payment cancelled.') {
             return
           }
-          setMessage({ tone: 'error', text: getErrorMessage(error) })
+          setMessage({ tone: 'error', text: getErrorMessage(error, t('dashboard.somethingWentWrong')) })
         })
         .finally(() => {
           setActiveMethod(null)
@@ -135,7 +139,7 @@ export function SaleActions({
     setupFutureUsage?: boolean
   }) => {
     if (!stripe) {
-      throw new Error('Stripe is not ready yet.')
+      throw new Error(t('dashboard.sale.stripeNotReady'))
     }
 
     const response = await createSalePayment({
@@ -153,7 +157,7 @@ export function SaleActions({
           if (action.error instanceof Error) {
             throw action.error
           }
-          throw new Error('Additional authentication failed.')
+          throw new Error(t('dashboard.sale.authenticationFailed'))
         }
         const retry = await createSalePayment({
           saleId,
@@ -183,7 +187,7 @@ export function SaleActions({
 
   const handleNewCard = () => {
     if (!stripe || !cardElement) {
-      setMessage({ tone: 'error', text: 'Enter card details to continue.' })
+      setMessage({ tone: 'error', text: t('dashboard.enterCardDetails') })
       return
     }
 
@@ -197,7 +201,7 @@ export function SaleActions({
         if (paymentMethodResult.error instanceof Error) {
           throw paymentMethodResult.error
         }
-        throw new Error('Unable to save this card.')
+        throw new Error(t('dashboard.unableToSaveCard'))
       }
 
       await makePayment({
@@ -233,7 +237,7 @@ export function SaleActions({
           } catch (error) {
             event.complete('fail')
             cleanup()
-            reject(error instanceof Error ? error : new Error('Payment failed.'))
+            reject(error instanceof Error ? error : new Error(t('dashboard.sale.paymentFailed')))
           }
         }
 
@@ -247,17 +251,17 @@ export function SaleActions({
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Complete payment</CardTitle>
-        <CardDescription>Choose a payment method below to complete this request.</CardDescription>
+        <CardTitle>{t('dashboard.sale.complete')}</CardTitle>
+        <CardDescription>{t('dashboard.sale.completeDescription')}</CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
         {message ? <Alert tone={message.tone} title={message.text} /> : null}
 
         {savedCard ? (
           <div className="space-y-2">
-            <p className="text-sm font-medium text-foreground">Saved card details</p>
+            <p className="text-sm font-medium text-foreground">{t('dashboard.savedCardDetails')}</p>
             <div className="rounded-lg border border-border/60 bg-muted/30 px-4 py-3">
-              <CardDetails card={savedCard} />
+              <CardDetails card={savedCard} locale={locale} />
             </div>
           </div>
         ) : null}
@@ -270,7 +274,7 @@ export function SaleActions({
               ) : (
                 <CreditCard className="size-4" aria-hidden />
               )}
-              Pay {savedCardTotalLabel ?? totalWithFeeLabel} with saved card
+              {t('dashboard.sale.payWithSavedCard', { total: savedCardTotalLabel ?? totalWithFeeLabel })}
             </Button>
           ) : null}
 
@@ -287,14 +291,14 @@ export function SaleActions({
           {showSavedCard || paymentRequest ? (
             <div className="flex items-center gap-2 text-xs text-muted-foreground">
               <span className="h-px flex-1 bg-border" />
-              Or use a new card
+              {t('dashboard.orUseNewCard')}
               <span className="h-px flex-1 bg-border" />
             </div>
           ) : null}
 
           <div className="space-y-2">
             <label htmlFor="sale-card-details" className="text-sm font-medium text-foreground">
-              Card details
+              {t('dashboard.sale.cardDetails')}
             </label>
             <StripeCardElement id="sale-card-details" onReady={setCardElement} />
           </div>
@@ -306,7 +310,7 @@ export function SaleActions({
               checked={saveAsDefault}
               onChange={(event) => setSaveAsDefault(event.target.checked)}
             />
-            Save as default payment method
+            {t('dashboard.sale.saveAsDefault')}
           </label>
 
           <Button
@@ -322,7 +326,7 @@ export function SaleActions({
             ) : (
               <CreditCard className="size-4" aria-hidden />
             )}
-            Pay {totalWithFeeLabel} with new card
+            {t('dashboard.sale.payWithNewCard', { total: totalWithFeeLabel })}
           </Button>
         </div>
       </CardContent>
@@ -1,43 +1,48 @@
 import Link from 'next/link'
 
+import { APP_NAME } from '@/app/api/_lib/constants'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
+import { getClientDashboardTranslator } from '@/server/client-dashboard/i18n'
 import { getClientProfile } from '@/server/client-dashboard/queries'
 
+const SUPPORT_EMAIL = 'enquiry@getkeepon.com'
+
 export default async function UpdateEmailPage() {
-  const clientProfile = await getClientProfile()
+  const [clientProfile, { t }] = await Promise.all([getClientProfile(), getClientDashboardTranslator()])
+  const [needHelpBefore, needHelpAfter] = t('dashboard.updateEmail.needHelp', { supportEmail: SUPPORT_EMAIL }).split(
+    SUPPORT_EMAIL
+  )
 
   return (
     <div className="space-y-6">
       <div className="flex flex-wrap items-center justify-between gap-3">
         <div>
-          <p className="text-sm text-muted-foreground">Client Dashboard</p>
-          <h1 className="text-2xl font-semibold text-foreground">Update email</h1>
+          <p className="text-sm text-muted-foreground">{t('dashboard.title')}</p>
+          <h1 className="text-2xl font-semibold text-foreground">{t('dashboard.updateEmail.title')}</h1>
         </div>
         <Button variant="outline" size="sm" nativeButton={false} render={<Link href="/client-dashboard" />}>
-          Back to dashboard
+          {t('dashboard.backToDashboard')}
         </Button>
       </div>
 
       <Card>
         <CardHeader>
-          <CardTitle>Contact your service provider</CardTitle>
-          <CardDescription>
-            Email updates are handled by your service provider. Reach out to them or to Keepon support for help.
-          </CardDescription>
+          <CardTitle>{t('dashboard.updateEmail.contact')}</CardTitle>
+          <CardDescription>{t('dashboard.updateEmail.contactDescription', { appName: APP_NAME })}</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <label className="space-y-2 text-sm text-muted-foreground" htmlFor="email">
-            Current email
+            {t('dashboard.updateEmail.currentEmail')}
             <Input id="email" type="email" value={clientProfile.email} disabled />
           </label>
           <p className="text-xs text-muted-foreground">
-            Need help? Email{' '}
-            <a className="underline" href="mailto:enquiry@getkeepon.com">
-              enquiry@getkeepon.com
+            {needHelpBefore}
+            <a className="underline" href={`mailto:${SUPPORT_EMAIL}`}>
+              {SUPPORT_EMAIL}
             </a>
-            .
+            {needHelpAfter}
           </p>
         </CardContent>
       </Card>
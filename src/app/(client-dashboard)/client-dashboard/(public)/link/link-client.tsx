@@ -3,13 +3,14 @@
 import type { Route } from 'next'
 import { ArrowRight, Loader2 } from 'lucide-react'
 import { useRouter } from 'next/navigation'
-import { useEffect, useRef, useState, useTransition } from 'react'
+import { useEffect, useMemo, useRef, useState, useTransition } from 'react'
 
 import { setClientDashboardCookieFromToken } from '@/app/(client-dashboard)/client-dashboard/actions'
 import { Alert } from '@/components/client-dashboard/Alert'
 import { KeeponLogo } from '@/components/keepon-logo'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { createTranslator, type Translator } from '@/lib/i18n'
 
 const safeRedirect = (value?: string | null) => {
   if (value && value.startsWith('/client-dashboard')) {
@@ -20,27 +21,29 @@ const safeRedirect = (value?: string | null) => {
 
 type LinkClientProps = {
   redirectTo?: string | null
+  locale: string
 }
 
-const parseDashboardHash = (hash: string) => {
+const parseDashboardHash = (hash: string, t: Translator['t']) => {
   const cleaned = hash.startsWith('#') ? hash.slice(1) : hash
   if (!cleaned) {
-    return { ok: false as const, message: 'Missing login link data.' }
+    return { ok: false as const, message: t('dashboard.link.missingData') }
   }
   const [pathPart, queryPart] = cleaned.split('?')
   const segments = pathPart.split('/').filter(Boolean)
   if (segments.length < 3 || segments[0] !== 'client') {
-    return { ok: false as const, message: 'This login link is not valid.' }
+    return { ok: false as const, message: t('dashboard.link.invalid') }
   }
   const clientId = segments[1]
   const token = segments[2]
   if (!clientId || !token) {
-    return { ok: false as const, message: 'This login link is missing required information.' }
+    return { ok: false as const, message: t('dashboard.link.missingInformation') }
   }
   return { ok: true as const, clientId, token, query: queryPart ?? '' }
 }
 
-export function LinkClient({ redirectTo }: LinkClientProps) {
+export function LinkClient({ redirectTo, locale }: LinkClientProps) {
+  const { t } = useMemo(() => createTranslator(locale), [locale])
   const router = useRouter()
   const [error, setError] = useState<string | null>(null)
   const [isPending, startTransition] = useTransition()
@@ -53,7 +56,7 @@ export function LinkClient({ redirectTo }: LinkClientProps) {
     hasRun.current = true
 
     startTransition(async () => {
-      const parsed = parseDashboardHash(window.location.hash)
+      const parsed = parseDashboardHash(window.location.hash, t)
       if (!parsed.ok) {
         setError(parsed.message)
         return
@@ -71,7 +74,7 @@ export function LinkClient({ redirectTo }: LinkClientProps) {
 
       router.replace(safeRedirect(redirectTo) as Route)
     })
-  }, [redirectTo, router, startTransition])
+  }, [redirectTo, router, startTransition, t])
 
   return (
     <div className="mx-auto flex w-full max-w-lg flex-col gap-6">
@@ -80,24 +83,24 @@ export function LinkClient({ redirectTo }: LinkClientProps) {
           <KeeponLogo className="h-6 w-auto" />
         </div>
         <div>
-          <p className="text-xs tracking-[0.25em] text-white/70 uppercase">Client Dashboard</p>
-          <h1 className="text-2xl font-semibold text-white">Signing you in</h1>
-          <p className="text-sm text-white/70">We are validating your secure link.</p>
+          <p className="text-xs tracking-[0.25em] text-white/70 uppercase">{t('dashboard.title')}</p>
+          <h1 className="text-2xl font-semibold text-white">{t('dashboard.link.signingIn')}</h1>
+          <p className="text-sm text-white/70">{t('dashboard.link.validating')}</p>
         </div>
       </div>
 
       <Card className="border-white/10 bg-white/5 text-white shadow-xl shadow-slate-950/30">
         <CardHeader>
-          <CardTitle>Hold on a moment</CardTitle>
-          <CardDescription className="text-white/70">This should only take a few seconds.</CardDescription>
+          <CardTitle>{t('dashboard.link.holdOn')}</CardTitle>
+          <CardDescription className="text-white/70">{t('dashboard.link.fewSeconds')}</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           {error ? (
-            <Alert tone="error" title={error} description="Please request a new login link or enter a code." />
+            <Alert tone="error" title={error} description={t('dashboard.link.requestNew')} />
           ) : (
             <div className="flex items-center gap-2 text-sm text-white/80">
               <Loader2 className="size-4 animate-spin" aria-hidden />
-              Validating your link
+              {t('dashboard.link.validatingLink')}
             </div>
           )}
 
@@ -108,13 +111,13 @@ export function LinkClient({ redirectTo }: LinkClientProps) {
               className="w-full border-white/20 text-white hover:bg-white/10"
               onClick={() => router.replace('/client-dashboard/login' as Route)}
             >
-              Go to login
+              {t('dashboard.link.goToLogin')}
               <ArrowRight className="size-4" aria-hidden />
             </Button>
           ) : (
             <Button size="lg" className="w-full" disabled={isPending}>
               {isPending ? <Loader2 className="size-4 animate-spin" aria-hidden /> : null}
-              Continue
+              {t('dashboard.login.continue')}
             </Button>
           )}
         </CardContent>
@@ -1,3 +1,4 @@
+import { getClientDashboardLocale } from '@/server/client-dashboard/i18n'
 import { LinkClient } from './link-client'
 
 type SearchParams = Record<string, string | string[] | undefined>
@@ -6,5 +7,7 @@ export default async function LinkPage({ searchParams }: { searchParams: Promise
   const params = await searchParams
   const redirectTo = typeof params.next === 'string' ? params.next : null
 
-  return <LinkClient redirectTo={redirectTo} />
+  const locale = await getClientDashboardLocale()
+
+  return <LinkClient redirectTo={redirectTo} locale={locale} />
 }
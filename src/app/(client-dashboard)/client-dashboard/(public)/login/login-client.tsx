@@ -16,14 +16,16 @@ import { KeeponLogo } from '@/components/keepon-logo'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
+import { createTranslator } from '@/lib/i18n'
 
-const defaultInfoMessage = 'We sent a temporary login code to your email. Enter it below to continue.'
+const SUPPORT_EMAIL = 'enquiry@getkeepon.com'
 
 type Stage = 'email' | 'code' | 'pick'
 
 type LoginClientProps = {
   redirectTo?: string | null
   initialEmail?: string
+  locale: string
 }
 
 const safeRedirect = (value?: string | null) => {
@@ -33,7 +35,8 @@ const safeRedirect = (value?: string | null) => {
   return '/client-dashboard'
 }
 
-export function LoginClient({ redirectTo, initialEmail = '' }: LoginClientProps) {
+export function LoginClient({ redirectTo, initialEmail = '', locale }: LoginClientProps) {
+  const { t } = useMemo(() => createTranslator(locale), [locale])
   const router = useRouter()
   const codeRef = useRef<HTMLInputElement>(null)
   const [stage, setStage] = useState<Stage>('email')
@@ -70,7 +73,7 @@ export function LoginClient({ redirectTo, initialEmail = '' }: LoginClientProps)
         return
       }
       setStage('code')
-      setInfo(defaultInfoMessage)
+      setInfo(t('dashboard.login.codeSent'))
     })
   }
 
@@ -113,10 +116,14 @@ export function LoginClient({ redirectTo, initialEmail = '' }: LoginClientProps)
 
   const headerDescription = useMemo(() => {
     if (stage === 'pick') {
-      return 'Select the service provider you want to view.'
+      return t('dashboard.login.pickDescription')
     }
-    return 'Manage your payments and subscriptions securely.'
-  }, [stage])
+    return t('dashboard.login.description')
+  }, [stage, t])
+
+  const [troubleBefore, troubleAfter] = t('dashboard.login.trouble', { supportEmail: SUPPORT_EMAIL }).split(
+    SUPPORT_EMAIL
+  )
 
   return (
     <div className="mx-auto flex w-full max-w-xl flex-col gap-6">
@@ -125,19 +132,17 @@ export function LoginClient({ redirectTo, initialEmail = '' }: LoginClientProps)
           <KeeponLogo className="h-6 w-auto" />
         </div>
         <div>
-          <p className="text-xs tracking-[0.25em] text-white/70 uppercase">Client Dashboard</p>
-          <h1 className="text-2xl font-semibold text-white">Welcome back</h1>
+          <p className="text-xs tracking-[0.25em] text-white/70 uppercase">{t('dashboard.title')}</p>
+          <h1 className="text-2xl font-semibold text-white">{t('dashboard.login.welcome')}</h1>
           <p className="text-sm text-white/70">{headerDescription}</p>
         </div>
       </div>
 
       <Card className="border-white/10 bg-white/5 text-white shadow-xl shadow-slate-950/30">
         <CardHeader>
-          <CardTitle>{stage === 'pick' ? 'Choose your dashboard' : 'Sign in with email'}</CardTitle>
+          <CardTitle>{stage === 'pick' ? t('dashboard.login.choose') : t('dashboard.login.signIn')}</CardTitle>
           <CardDescription className="text-white/70">
-            {stage === 'pick'
-              ? 'Pick the profile that matches your service provider.'
-              : 'We will send you a temporary code to access your dashboard.'}
+            {stage === 'pick' ? t('dashboard.login.chooseDescription') : t('dashboard.login.signInDescription')}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -147,11 +152,11 @@ export function LoginClient({ redirectTo, initialEmail = '' }: LoginClientProps)
           {stage === 'email' ? (
             <form onSubmit={handleRequestCode} className="space-y-4">
               <label className="space-y-2 text-sm text-white/80" htmlFor="email">
-                Email address
+                {t('dashboard.login.email')}
                 <Input
                   id="email"
                   type="email"
-                  placeholder="you@example.com"
+                  placeholder={t('dashboard.login.emailPlaceholder')}
                   value={email}
                   onChange={(event) => setEmail(event.target.value)}
                   required
@@ -159,7 +164,7 @@ export function LoginClient({ redirectTo, initialEmail = '' }: LoginClientProps)
               </label>
               <Button type="submit" size="lg" className="w-full" disabled={isPending || !email.trim()}>
                 {isPending ? <Loader2 className="size-4 animate-spin" aria-hidden /> : null}
-                Email me a code
+                {t('dashboard.login.sendCode')}
               </Button>
             </form>
           ) : null}
@@ -167,14 +172,14 @@ export function LoginClient({ redirectTo, initialEmail = '' }: LoginClientProps)
           {stage === 'code' ? (
             <form onSubmit={handleVerifyCode} className="space-y-4">
               <label className="space-y-2 text-sm text-white/80" htmlFor="code">
-                Temporary login code
+                {t('dashboard.login.code')}
                 <Input
                   ref={codeRef}
                   id="code"
                   type="text"
                   inputMode="numeric"
                   autoComplete="one-time-code"
-                  placeholder="Enter the 6-digit code"
+                  placeholder={t('dashboard.login.codePlaceholder')}
                   value={code}
                   onChange={(event) => setCode(event.target.value)}
                   required
@@ -182,10 +187,10 @@ export function LoginClient({ redirectTo, initialEmail = '' }: LoginClientProps)
               </label>
               <Button type="submit" size="lg" className="w-full" disabled={isPending || !code.trim()}>
                 {isPending ? <Loader2 className="size-4 animate-spin" aria-hidden /> : null}
-                Continue
+                {t('dashboard.login.continue')}
               </Button>
               <Button type="button" variant="ghost" size="sm" className="w-full" onClick={resetToEmail}>
-                Use a different email
+                {t('dashboard.login.differentEmail')}
               </Button>
             </form>
           ) : null}
@@ -218,7 +223,7 @@ export function LoginClient({ redirectTo, initialEmail = '' }: LoginClientProps)
                 </button>
               ))}
               <Button type="button" variant="ghost" size="sm" className="w-full" onClick={resetToEmail}>
-                Use a different email
+                {t('dashboard.login.differentEmail')}
               </Button>
             </div>
           ) : null}
@@ -226,10 +231,11 @@ export function LoginClient({ redirectTo, initialEmail = '' }: LoginClientProps)
       </Card>
 
       <p className="text-center text-xs text-white/60">
-        Trouble signing in? Email{' '}
-        <a className="underline" href="mailto:enquiry@getkeepon.com">
-          enquiry@getkeepon.com
+        {troubleBefore}
+        <a className="underline" href={`mailto:${SUPPORT_EMAIL}`}>
+          {SUPPORT_EMAIL}
         </a>
+        {troubleAfter}
       </p>
     </div>
   )
@@ -1,3 +1,4 @@
+import { getClientDashboardLocale } from '@/server/client-dashboard/i18n'
 import { LoginClient } from './login-client'
 
 type SearchParams = Record<string, string | string[] | undefined>
@@ -7,5 +8,7 @@ export default async function LoginPage({ searchParams }: { searchParams: Promis
   const redirectTo = typeof params.next === 'string' ? params.next : null
   const initialEmail = typeof params.email === 'string' ? params.email : ''
 
-  return <LoginClient redirectTo={redirectTo} initialEmail={initialEmail} />
+  const locale = await getClientDashboardLocale()
+
+  return <LoginClient redirectTo={redirectTo} initialEmail={initialEmail} locale={locale} />
 }
@@ -18,7 +18,10 @@ import {
 } from '@/app/api/_lib/transactionFees'
 import { normalizePlanRow, type RawPlanRow } from '@/app/api/plans/shared'
 import { db } from '@/lib/db'
+import { languageForLocale, resolveLocale, type Translator } from '@/lib/i18n'
 import { getClientDashboardSession, CLIENT_DASHBOARD_COOKIE } from '@/server/client-dashboard/auth'
+import { getClientDashboardTranslator } from '@/server/client-dashboard/i18n'
+import { queueReceiptEmail } from '@/server/saleDocuments'
 import { enqueueWorkflowTask } from '@/server/workflow/outbox'
 import { joinIgnoreEmpty } from '@/server/workflow/utils'
 
@@ -26,9 +29,9 @@ const COOKIE_MAX_AGE_SECONDS = 60 * 60 * 24 * 7
 const stripeApiVersionDate = STRIPE_API_VERSION.split('.')[0]
 const LEGACY_INVALID_JSON_MESSAGE = 'Unexpected token \'"\', "#" is not valid JSON'
 
-const buildLoginEmailHtml = (code: string) => `
+const buildLoginEmailHtml = (code: string, { language, t }: Translator) => `
 <!doctype html>
-<html lang="en">
+<html lang="${language}">
   <body style="margin:0;padding:0;background-color:#f7f9fb;font-family:Arial,sans-serif;">
     <table role="presentation" cellpadding="0" cellspacing="0" width="100%">
       <tr>
@@ -41,17 +44,17 @@ const buildLoginEmailHtml = (code: string) => `
             </tr>
             <tr>
               <td style="font-size:24px;font-weight:700;color:#111827;text-align:center;padding-bottom:16px;">
-                ${code} is your client dashboard login code
+                ${t('loginEmail.subject', { code })}
               </td>
             </tr>
             <tr>
               <td style="font-size:16px;line-height:1.5;color:#1f2937;text-align:center;">
-                Enter <strong>${code}</strong> to log in to your client dashboard.
+                ${t('loginEmail.instructions', { code: `<strong>${code}</strong>` })}
               </td>
             </tr>
             <tr>
               <td style="font-size:14px;line-height:1.5;color:#6b7280;text-align:center;padding-top:24px;">
-                If you did not request this code, you can safely ignore this email.
+                ${t('loginEmail.ignore')}
               </td>
             </tr>
           </table>
@@ -87,10 +90,6 @@ const clearClientDashboardCookie = async () => {
   jar.delete(CLIENT_DASHBOARD_COOKIE)
 }
 
-const loginRequestSchema = z.object({
-  email: z.string().trim().min(1, 'Email is required').email('Email must be a valid email address.'),
-})
-
 export type ClientLoginChoice = {
   id: string
   firstName: string
@@ -100,7 +99,13 @@ export type ClientLoginChoice = {
 }
 
 export async function requestClientLoginCode(input: { email: string }) {
-  const validation = loginRequestSchema.safeParse(input)
+  const translator = await getClientDashboardTranslator()
+  const { t } = translator
+  const validation = z
+    .object({
+      email: z.string().trim().min(1, t('dashboard.errors.emailRequired')).email(t('dashboard.errors.emailInvalid')),
+    })
+    .safeParse(input)
   if (!validation.success) {
     return { ok: false as const, message: validation.error.issues.map((issue) => issue.message).join('; ') }
   }
@@ -132,8 +137,8 @@ export async function requestClientLoginCode(input: { email: string }) {
         throw new SilentRollbackError()
       }
 
-      const subject = `${code} is your client dashboard login code`
-      const html = buildLoginEmailHtml(code)
+      const subject = t('loginEmail.subject', { code })
+      const html = buildLoginEmailHtml(code, translator)
       const recipientEmail = clientRow.email
 
       if (!recipientEmail) {
@@ -146,7 +151,7 @@ export async function requestClientLoginCode(input: { email: string }) {
           trainer_id: null,
           client_id: null,
           from_email: APP_EMAIL,
-          from_name: `${APP_NAME} Team`,
+          from_name: t('email.teamName', { appName: APP_NAME }),
           to_email: recipientEmail,
           to_name: null,
           subject,
@@ -161,13 +166,14 @@ export async function requestClientLoginCode(input: { email: string }) {
     }
 
     console.error('client-dashboard: failed to create login request', error)
-    return { ok: false as const, message: 'Unable to send a login code. Please try again.' }
+    return { ok: false as const, message: t('dashboard.errors.sendCodeFailed') }
   }
 
   return { ok: true as const }
 }
 
 export async function listClientLogins(input: { email: string; code: string }) {
+  const { t } = await getClientDashboardTranslator()
   const validation = z
     .object({
       email: z.string().trim().min(1),
@@ -176,7 +182,7 @@ export async function listClientLogins(input: { email: string; code: string }) {
     .safeParse(input)
 
   if (!validation.success) {
-    return { ok: false as const, message: 'Please enter the code from your email.' }
+    return { ok: false as const, message: t('dashboard.errors.codeRequired') }
   }
 
   const { email, code } = validation.data
@@ -238,13 +244,13 @@ export async function listClientLogins(input: { email: string; code: string }) {
     })
 
     if (!result.ok) {
-      return { ok: false as const, message: 'Code was invalid, expired, or already used.' }
+      return { ok: false as const, message: t('dashboard.errors.codeInvalid') }
     }
 
     return { ok: true as const, clients: result.clients }
   } catch (error) {
     console.error('client-dashboard: failed to list client logins', { email, error })
-    return { ok: false as const, message: 'Unable to validate your code. Please try again.' }
+    return { ok: false as const, message: t('dashboard.errors.validateCodeFailed') }
   }
 }
 
@@ -254,6 +260,7 @@ export async function createClientDashboardSession(input: {
   clientId: string
   redirectTo?: string | null
 }) {
+  const { t } = await getClientDashboardTranslator()
   const validation = z
     .object({
       email: z.string().trim().min(1),
@@ -264,7 +271,7 @@ export async function createClientDashboardSession(input: {
     .safeParse(input)
 
   if (!validation.success) {
-    return { ok: false as const, message: 'Please pick a client to continue.' }
+    return { ok: false as const, message: t('dashboard.errors.pickClient') }
   }
 
   const { email, code, clientId, redirectTo } = validation.data
@@ -293,7 +300,7 @@ export async function createClientDashboardSession(input: {
         .where('authenticated', '=', false)
         .execute()
 
-      return { ok: false as const, message: 'Code was invalid, expired, or already used.' }
+      return { ok: false as const, message: t('dashboard.errors.codeInvalid') }
     }
 
     const tokenRow = await db.transaction().execute(async (trx) => {
@@ -341,12 +348,13 @@ export async function createClientDashboardSession(input: {
     console.error('client-dashboard: failed to create dashboard session', error)
     return {
       ok: false as const,
-      message: 'Unable to create a dashboard session. Please request a new code.',
+      message: t('dashboard.errors.createSessionFailed'),
     }
   }
 }
 
 export async function setClientDashboardCookieFromToken(input: { token: string; clientId: string }) {
+  const { t } = await getClientDashboardTranslator()
   const validation = z
     .object({
       token: z.string().trim().min(1),
@@ -370,12 +378,12 @@ export async function setClientDashboardCookieFromToken(input: { token: string;
     .executeTakeFirst()
 
   if (!row?.accessToken || !row.expiresAt) {
-    return { ok: false as const, message: 'This login link is no longer valid.' }
+    return { ok: false as const, message: t('dashboard.errors.linkNoLongerValid') }
   }
 
   const expiresAt = row.expiresAt instanceof Date ? row.expiresAt : new Date(row.expiresAt)
   if (Number.isNaN(expiresAt.getTime()) || expiresAt.getTime() < Date.now()) {
-    return { ok: false as const, message: 'This login link has expired.' }
+    return { ok: false as const, message: t('dashboard.errors.linkExpired') }
   }
 
   await persistClientDashboardCookie(row.accessToken)
@@ -387,12 +395,47 @@ export async function logoutClientDashboard() {
   return { ok: true as const }
 }
 
+export async function updateClientDashboardLocale(input: { locale: string }) {
+  const { t } = await getClientDashboardTranslator()
+  const validation = z
+    .object({
+      locale: z
+        .string()
+        .trim()
+        .refine((value) => languageForLocale(value) !== null),
+    })
+    .safeParse(input)
+  if (!validation.success) {
+    return { ok: false as const, message: t('dashboard.errors.invalidLanguage') }
+  }
+
+  const session = await getClientDashboardSession()
+  if (!session) {
+    return { ok: false as const, message: t('dashboard.errors.signInToChangeLanguage') }
+  }
+
+  try {
+    await db
+      .updateTable('client')
+      .set({ locale: resolveLocale(validation.data.locale) })
+      .where('client.id', '=', session.clientId)
+      .where('client.trainer_id', '=', session.trainerId)
+      .execute()
+  } catch (error) {
+    console.error('client-dashboard: failed to update locale', { clientId: session.clientId, error })
+    return { ok: false as const, message: t('dashboard.errors.changeLanguageFailed') }
+  }
+
+  return { ok: true as const }
+}
+
 const threeDsExceptions = new Set(['cus_LKaEWrm9vaFNsm'])
 
 export async function createStripeSetupIntent() {
+  const { t } = await getClientDashboardTranslator()
   const session = await getClientDashboardSession()
   if (!session) {
-    return { ok: false as const, message: 'Please sign in again to update your payment method.' }
+    return { ok: false as const, message: t('dashboard.errors.signInToUpdatePaymentMethod') }
   }
 
   const stripeClient = getStripeClient()
@@ -400,7 +443,7 @@ export async function createStripeSetupIntent() {
   if (!stripeClient) {
     return {
       ok: false as const,
-      message: 'Stripe configuration is missing. Please try again later.',
+      message: t('dashboard.errors.stripeConfigurationMissing'),
     }
   }
 
@@ -420,7 +463,7 @@ export async function createStripeSetupIntent() {
     .executeTakeFirst()
 
   if (!row) {
-    return { ok: false as const, message: 'Client not found.' }
+    return { ok: false as const, message: t('dashboard.errors.clientNotFound') }
   }
 
   const stripeAccountValue = row.stripeAccountObject
@@ -432,7 +475,7 @@ export async function createStripeSetupIntent() {
   if (!row.stripeAccountId || !stripeAccountType) {
     return {
       ok: false as const,
-      message: 'Your service provider does not have payments enabled.',
+      message: t('dashboard.errors.paymentsNotEnabled'),
     }
   }
 
@@ -483,11 +526,11 @@ export async function createStripeSetupIntent() {
     }
 
     console.error('client-dashboard: failed to create stripe customer', error)
-    return { ok: false as const, message: 'Unable to create a card setup. Please try again.' }
+    return { ok: false as const, message: t('dashboard.errors.cardSetupFailed') }
   }
 
   if (!customerId) {
-    return { ok: false as const, message: 'Unable to create a card setup. Please try again.' }
+    return { ok: false as const, message: t('dashboard.errors.cardSetupFailed') }
   }
 
   const requestThreeDS = threeDsExceptions.has(customerId) || stripeAccountType === 'standard' ? 'automatic' : 'any'
@@ -509,7 +552,7 @@ export async function createStripeSetupIntent() {
     const clientSecret = setupIntent.client_secret
 
     if (!clientSecret) {
-      return { ok: false as const, message: 'Stripe did not return a client secret.' }
+      return { ok: false as const, message: t('dashboard.errors.noClientSecret') }
     }
 
     return { ok: true as const, clientSecret }
@@ -519,7 +562,7 @@ export async function createStripeSetupIntent() {
     }
 
     console.error('client-dashboard: failed to create setup intent', error)
-    return { ok: false as const, message: 'Unable to create a card setup. Please try again.' }
+    return { ok: false as const, message: t('dashboard.errors.cardSetupFailed') }
   }
 }
 
@@ -580,14 +623,15 @@ type PlanDetails = {
 }
 
 export async function acceptPaymentPlan(input: { planId: string }) {
+  const { t } = await getClientDashboardTranslator()
   const validation = z.object({ planId: z.string().trim().min(1) }).safeParse(input)
   if (!validation.success) {
-    return { ok: false as const, message: 'Invalid subscription.' }
+    return { ok: false as const, message: t('dashboard.errors.invalidSubscription') }
   }
 
   const session = await getClientDashboardSession()
   if (!session) {
-    return { ok: false as const, message: 'Please sign in again to accept this subscription.' }
+    return { ok: false as const, message: t('dashboard.errors.signInToAccept') }
   }
 
   const { planId } = validation.data
@@ -787,15 +831,15 @@ export async function acceptPaymentPlan(input: { planId: string }) {
     return { ok: true as const }
   } catch (error) {
     if (error instanceof SubscriptionNotFoundError) {
-      return { ok: false as const, message: 'Subscription not found.' }
+      return { ok: false as const, message: t('dashboard.errors.subscriptionNotFound') }
     }
     if (error instanceof SubscriptionIsCancelledError) {
-      return { ok: false as const, message: 'Cancelled subscriptions cannot be accepted.' }
+      return { ok: false as const, message: t('dashboard.errors.subscriptionCancelled') }
     }
     if (error instanceof NoPaymentMethodOnFileError) {
       return {
         ok: false as const,
-        message: 'A saved payment method is required before accepting this subscription.',
+        message: t('dashboard.errors.paymentMethodRequired'),
       }
     }
 
@@ -806,7 +850,7 @@ export async function acceptPaymentPlan(input: { planId: string }) {
       error,
     })
 
-    return { ok: false as const, message: 'Failed to accept subscription. Please try again.' }
+    return { ok: false as const, message: t('dashboard.errors.acceptFailed') }
   }
 }
 
@@ -818,14 +862,15 @@ class SubscriptionRetryNotFoundError extends Error {
 }
 
 export async function retryPaymentPlan(input: { planId: string }) {
+  const { t } = await getClientDashboardTranslator()
   const validation = z.object({ planId: z.string().trim().min(1) }).safeParse(input)
   if (!validation.success) {
-    return { ok: false as const, message: 'Invalid subscription.' }
+    return { ok: false as const, message: t('dashboard.errors.invalidSubscription') }
   }
 
   const session = await getClientDashboardSession()
   if (!session) {
-    return { ok: false as const, message: 'Please sign in again to retry this subscription.' }
+    return { ok: false as const, message: t('dashboard.errors.signInToRetry') }
   }
 
   const { planId } = validation.data
@@ -882,7 +927,7 @@ export async function retryPaymentPlan(input: { planId: string }) {
     return { ok: true as const, attempted }
   } catch (error) {
     if (error instanceof SubscriptionRetryNotFoundError) {
-      return { ok: false as const, message: 'Subscription not found.' }
+      return { ok: false as const, message: t('dashboard.errors.subscriptionNotFound') }
     }
 
     console.error('client-dashboard: failed to retry subscription', {
@@ -892,7 +937,7 @@ export async function retryPaymentPlan(input: { planId: string }) {
       error,
     })
 
-    return { ok: false as const, message: 'Failed to retry subscription payments.' }
+    return { ok: false as const, message: t('dashboard.errors.retryFailed') }
   }
 }
 
@@ -986,6 +1031,7 @@ class StripePaymentFailedError extends Error {
 type SaleDetails = {
   paymentStatus: string | null
   saleProductPrice: string | number
+  saleProductTaxAmount: string | number
   currency: string
   clientId: string
   trainerId: string
@@ -1000,6 +1046,7 @@ type SaleDetails = {
   clientFirstName: string
   clientLastName: string | null
   trainerEmail: string
+  sendReceipts: boolean
   stripeCustomerId: string | null
   productName: string
   saleProductId: string
@@ -1008,6 +1055,7 @@ type SaleDetails = {
 const saleDetailsSchema = z.object({
   paymentStatus: z.string().nullable(),
   saleProductPrice: z.union([z.string(), z.number()]),
+  saleProductTaxAmount: z.union([z.string(), z.number()]),
   currency: z.string(),
   clientId: z.string(),
   trainerId: z.string(),
@@ -1022,6 +1070,7 @@ const saleDetailsSchema = z.object({
   clientFirstName: z.string(),
   clientLastName: z.string().nullable(),
   trainerEmail: z.string(),
+  sendReceipts: z.boolean(),
   stripeCustomerId: z.string().nullable(),
   productName: z.string(),
   saleProductId: z.string(),
@@ -1058,16 +1107,17 @@ export async function createSalePayment(input: {
   stripePaymentIntentId?: string
   setupFutureUsage?: boolean
 }) {
+  const { t } = await getClientDashboardTranslator()
   const validation = salePaymentRequestSchema.safeParse(input)
 
   if (!validation.success) {
     const detail = validation.error.issues.map((issue) => issue.message).join('; ')
-    return { ok: false as const, message: detail || 'Invalid payment request.' }
+    return { ok: false as const, message: detail || t('dashboard.errors.invalidPaymentRequest') }
   }
 
   const session = await getClientDashboardSession()
   if (!session) {
-    return { ok: false as const, message: 'Please sign in again to make a payment.' }
+    return { ok: false as const, message: t('dashboard.errors.signInToPay') }
   }
 
   const payload = validation.data
@@ -1092,6 +1142,7 @@ export async function createSalePayment(input: {
         .select((eb) => [
           eb.ref('salePaymentStatus.payment_status').as('paymentStatus'),
           eb.ref('saleProduct.price').as('saleProductPrice'),
+          eb.ref('saleProduct.tax_amount').as('saleProductTaxAmount'),
           eb.ref('currency.alpha_code').as('currency'),
           eb.ref('sale.client_id').as('clientId'),
           eb.ref('sale.trainer_id').as('trainerId'),
@@ -1107,6 +1158,7 @@ export async function createSalePayment(input: {
           eb.ref('client.last_name').as('clientLastName'),
           eb.ref('client.stripe_customer_id').as('stripeCustomerId'),
           eb.ref('trainer.email').as('trainerEmail'),
+          eb.ref('trainer.send_receipts').as('sendReceipts'),
           eb.ref('saleProduct.name').as('productName'),
           eb.ref('saleProduct.id').as('saleProductId'),
         ])
@@ -1364,7 +1416,10 @@ export async function createSalePayment(input: {
               payment_method_types: ['card'],
               customer: customerId,
               description: `Payment for ${saleDetails.productName}`,
-              receipt_email: saleDetails.clientEmail ?? undefined,
+              metadata: {
+                saleId: payload.saleId,
+                taxAmount: new BigNumber(saleDetails.saleProductTaxAmount).toFixed(2),
+              },
               statement_descriptor_suffix: `VIA ${APP_NAME}`,
               payment_method: paymentMethod.id,
               application_fee_amount: applicationFeeAmount,
@@ -1464,6 +1519,11 @@ export async function createSalePayment(input: {
 
       await markSalePaid()
 
+      // Our own receipt, with the PDF attached, takes the place of Stripe's.
+      if (saleDetails.sendReceipts) {
+        await queueReceiptEmail(trx, { trainerId: saleDetails.trainerId, paymentId })
+      }
+
       return { paymentId, trainerId: saleDetails.trainerId }
     })
 
@@ -1474,34 +1534,34 @@ export async function createSalePayment(input: {
     }
 
     if (error instanceof SaleNotFoundError) {
-      return { ok: false as const, message: 'Sale not found.' }
+      return { ok: false as const, message: t('dashboard.errors.saleNotFound') }
     }
 
     if (error instanceof SaleAlreadyPaidError) {
-      return { ok: false as const, message: 'This payment request has already been paid.' }
+      return { ok: false as const, message: t('dashboard.errors.alreadyPaid') }
     }
 
     if (error instanceof PaymentAmountMismatchError) {
-      return { ok: false as const, message: 'Payment amount must match the total due.' }
+      return { ok: false as const, message: t('dashboard.errors.amountMismatch') }
     }
 
     if (error instanceof StripeConfigurationMissingError) {
-      return { ok: false as const, message: 'Stripe configuration is missing. Please try again later.' }
+      return { ok: false as const, message: t('dashboard.errors.stripeConfigurationMissing') }
     }
 
     if (error instanceof StripePaymentsDisabledError) {
-      return { ok: false as const, message: 'Stripe payments are not enabled for this trainer.' }
+      return { ok: false as const, message: t('dashboard.errors.stripePaymentsDisabled') }
     }
 
     if (error instanceof ServiceProviderCantTakePaymentsError) {
       return {
         ok: false as const,
-        message: "Your service provider does not have payments enabled. We've notified them.",
+        message: t('dashboard.errors.serviceProviderCantTakePayments'),
       }
     }
 
     if (error instanceof StripeCardRequiredError) {
-      return { ok: false as const, message: 'Only card payments are supported.' }
+      return { ok: false as const, message: t('dashboard.errors.cardRequired') }
     }
 
     if (error instanceof StripePaymentIntentMismatchError) {
@@ -1509,23 +1569,23 @@ export async function createSalePayment(input: {
     }
 
     if (error instanceof AmountOutOfRangeError) {
-      return { ok: false as const, message: 'The payment amount is outside supported limits.' }
+      return { ok: false as const, message: t('dashboard.errors.amountOutOfRange') }
     }
 
     if (error instanceof InvalidFeeConfigurationError) {
-      return { ok: false as const, message: 'Fee configuration resulted in an invalid calculation.' }
+      return { ok: false as const, message: t('dashboard.errors.invalidFeeConfiguration') }
     }
 
     if (error instanceof CurrencyNotSupportedError) {
-      return { ok: false as const, message: 'That currency is not supported.' }
+      return { ok: false as const, message: t('dashboard.errors.currencyNotSupported') }
     }
 
     if (error instanceof CountryNotSupportedError) {
-      return { ok: false as const, message: 'That card country is not supported for payments.' }
+      return { ok: false as const, message: t('dashboard.errors.countryNotSupported') }
     }
 
     if (error instanceof StripePaymentFailedError) {
-      return { ok: false as const, message: 'Stripe payment did not complete.' }
+      return { ok: false as const, message: t('dashboard.errors.paymentIncomplete') }
     }
 
     if (error instanceof Stripe.errors.StripeError) {
@@ -1533,6 +1593,6 @@ export async function createSalePayment(input: {
     }
 
     console.error('client-dashboard: failed to create sale payment', error)
-    return { ok: false as const, message: 'Failed to create sale payment.' }
+    return { ok: false as const, message: t('dashboard.errors.salePaymentFailed') }
   }
 }
@@ -3,6 +3,7 @@ import { NextResponse, connection } from 'next/server'
 import { Buffer } from 'node:buffer'
 import { z } from 'zod'
 import { db } from '@/lib/db'
+import { isAdminUser } from '@/server/admin'
 
 const TRAINER_ACCESS_TOKEN_EXTENSION_MS = 28 * 24 * 60 * 60 * 1000
 const CLIENT_ACCESS_TOKEN_EXTENSION_MS = 7 * 24 * 60 * 60 * 1000
@@ -249,6 +250,30 @@ export const authenticateTrainerRequest = async (
   }
 }
 
+/** Authenticates a trainer token and additionally requires the user to be listed in `ADMIN_USER_IDS`. */
+export const authenticateAdminRequest = async (
+  request: Request,
+  options: AuthenticateTrainerOptions = {}
+): Promise<AuthenticateTrainerSuccess | AuthenticateTrainerFailure> => {
+  const authorization = await authenticateTrainerRequest(request, options)
+
+  if (!authorization.ok || isAdminUser(authorization.userId)) {
+    return authorization
+  }
+
+  return {
+    ok: false,
+    response: NextResponse.json(
+      buildErrorResponse({
+        status: 403,
+        title: 'You are not authorized to use admin tools',
+        type: '/forbidden',
+      }),
+      { status: 403 }
+    ),
+  }
+}
+
 export async function validateTrainerToken(
   accessToken: string,
   options: AuthenticateTrainerOptions = {}
@@ -1,6 +1,14 @@
 import { z } from 'zod'
 
-export const clientSessionStateSchema = z.enum(['maybe', 'cancelled', 'invited', 'confirmed', 'accepted', 'declined'])
+export const clientSessionStateSchema = z.enum([
+  'maybe',
+  'cancelled',
+  'invited',
+  'confirmed',
+  'accepted',
+  'declined',
+  'waitlisted',
+])
 
 export const paymentTypeSchema = z.enum(['payg', 'plan', 'sessionPack'])
 export const paymentStatusSchema = z.enum(['pending', 'paid', 'requested', 'refunded', 'rejected'])
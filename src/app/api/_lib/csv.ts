@@ -0,0 +1,10 @@
+/** Serves a CSV export as a download. */
+export const createCsvResponse = ({ fileName, content }: { fileName: string; content: string }) =>
+  new Response(content, {
+    status: 200,
+    headers: {
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Cache-Control': 'private, no-store',
+    },
+  })
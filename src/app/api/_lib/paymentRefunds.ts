@@ -0,0 +1,80 @@
+import BigNumber from 'bignumber.js'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import {
+  CreditPackPartialRefundError,
+  PaymentAlreadyRefundedError,
+  RefundAmountTooLargeError,
+} from '@/server/paymentRefunds'
+import { buildErrorResponse } from './accessToken'
+
+/** Both fields are optional, so an empty body still refunds whatever is left of the payment. */
+export const refundRequestSchema = z.object({
+  amount: z
+    .union([z.string(), z.number()])
+    .transform((value) => new BigNumber(value))
+    .refine((amount) => amount.isFinite() && amount.gt(0), 'amount must be a number greater than zero')
+    .refine((amount) => (amount.decimalPlaces() ?? 0) <= 2, 'amount must have at most two decimal places')
+    .nullable()
+    .optional()
+    .transform((amount) => amount ?? null),
+  reason: z
+    .string()
+    .trim()
+    .max(500, 'reason must be at most 500 characters')
+    .nullable()
+    .optional()
+    .transform((reason) => reason || null),
+})
+
+export const createInvalidRefundBodyResponse = (error: z.ZodError) =>
+  NextResponse.json(
+    buildErrorResponse({
+      status: 400,
+      title: 'Invalid request body',
+      detail: error.issues.map((issue) => `${issue.path.join('.')} ${issue.message}`.trim()).join('; '),
+      type: '/invalid-body',
+    }),
+    { status: 400 }
+  )
+
+/** The response for a refund the payment's state doesn't allow, or undefined for any other error. */
+export const createRefundConflictResponse = (error: unknown) => {
+  if (error instanceof PaymentAlreadyRefundedError) {
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 409,
+        title: 'Payment already refunded',
+        detail: 'This payment has already been refunded in full.',
+        type: '/cant-refund-refunded',
+      }),
+      { status: 409 }
+    )
+  }
+
+  if (error instanceof RefundAmountTooLargeError) {
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 409,
+        title: 'Refund amount too large',
+        detail: `Only ${error.refundable} of this payment is left to refund.`,
+        type: '/refund-exceeds-payment',
+      }),
+      { status: 409 }
+    )
+  }
+
+  if (error instanceof CreditPackPartialRefundError) {
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 409,
+        title: 'Cannot partially refund credit pack payment',
+        detail: 'Payments made with a credit pack can only be refunded in full.',
+        type: '/cant-partially-refund-credit-pack',
+      }),
+      { status: 409 }
+    )
+  }
+
+  return undefined
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { buildErrorResponse } from './accessToken'
+
+/** Serves a rendered invoice or receipt as a download. */
+export const createSaleDocumentResponse = ({ fileName, content }: { fileName: string; content: Buffer }) =>
+  new Response(new Uint8Array(content), {
+    status: 200,
+    headers: {
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Content-Type': 'application/pdf',
+      'Cache-Control': 'private, no-store',
+    },
+  })
+
+export const createSaleDocumentNotFoundResponse = (title: string) =>
+  NextResponse.json(
+    buildErrorResponse({
+      status: 404,
+      title,
+      type: '/resource-not-found',
+    }),
+    { status: 404 }
+  )
@@ -63,6 +63,7 @@ export type SalePaymentRow = {
   paymentCreditPackUpdatedAt: Date | string | null
   paymentSubscriptionUpdatedAt: Date | string | null
   refundedTime: Date | string | null
+  amountRefunded: string | number | null
   isManual: boolean | null
   isStripe: boolean | null
   isCreditPack: boolean | null
@@ -264,8 +265,7 @@ export const adaptSalePaymentRow = (row: SalePaymentRow): SalePayment => {
   const type = determineType(row)
   const createdAt = ensureDate(row.createdAt, 'createdAt')
   const amount = formatMoney(row.amount, 'amount')
-  const amountRefunded =
-    row.refundedTime !== null && row.refundedTime !== undefined ? formatMoney(row.amount, 'amount refunded') : '0.00'
+  const amountRefunded = formatMoney(row.amountRefunded ?? 0, 'amount refunded')
 
   const base = {
     id: row.id,
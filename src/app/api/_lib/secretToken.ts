@@ -0,0 +1,28 @@
+/** Reads secrets from the given environment variables, ignoring any that are unset or blank. */
+export const readSecretTokens = (...values: (string | undefined)[]) =>
+  values.filter((value): value is string => Boolean(value && value.trim()))
+
+/**
+ * Checks a machine-to-machine request (cron jobs, scrapers) against shared secrets, sent either as a `token` query
+ * parameter or a bearer token. Requests are let through when no secret is configured.
+ */
+export const isAuthorizedBySecretToken = (request: Request, tokens: string[]) => {
+  if (tokens.length === 0) {
+    return true
+  }
+
+  const url = new URL(request.url)
+  const queryToken = url.searchParams.get('token')
+  if (queryToken && tokens.includes(queryToken)) {
+    return true
+  }
+
+  const authorization = request.headers.get('authorization') ?? ''
+  const bearerPrefix = 'Bearer '
+  if (authorization.startsWith(bearerPrefix)) {
+    const token = authorization.slice(bearerPrefix.length).trim()
+    return tokens.includes(token)
+  }
+
+  return false
+}
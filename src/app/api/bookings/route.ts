@@ -7,6 +7,15 @@ import type { Database, Interval } from '@/lib/db'
 import type { Point } from '@/lib/db/generated'
 import { db } from '@/lib/db'
 import { toPoint } from '@/lib/db/values'
+import {
+  findBookingConflict,
+  loadServiceBookingContext,
+  lockTrainerBookings,
+  type BookingConflict,
+} from '@/server/bookingAvailability'
+import { queueBookingConfirmationEmail } from '@/server/bookingConfirmation'
+import { applyCreditPackToClientSession } from '@/server/creditLedger'
+import { applyMembershipToClientSession, MembershipAllowanceUsedError } from '@/server/memberships'
 import { enqueueWorkflowTask } from '@/server/workflow/outbox'
 import { buildErrorResponse } from '../_lib/accessToken'
 import { parseStrictJsonBody } from '../_lib/strictJson'
@@ -53,6 +62,7 @@ const serviceBookingSchema = baseBookingSchema.extend({
 
 const sessionBookingSchema = baseBookingSchema.extend({
   sessionId: z.string().min(1, 'sessionId must not be empty'),
+  joinWaitlist: z.boolean().optional(),
 })
 
 const requestSchema = z.union([serviceBookingSchema, sessionBookingSchema])
@@ -74,6 +84,28 @@ const makeError = (status: number, title: string, type: string, detail?: string)
 const invalidBodyResponse = (detail?: string) =>
   makeError(400, 'Invalid request body', '/invalid-body', detail ?? 'Request body did not match the expected schema.')
 
+// Public callers learn why a time can't be booked, but not what it clashes with or when.
+const bookingConflictErrors: Record<BookingConflict['type'], { type: string; detail: string }> = {
+  outsideBookingWindow: {
+    type: '/booking-outside-booking-window',
+    detail: 'That booking time is outside the booking window.',
+  },
+  outsideAvailability: {
+    type: '/booking-outside-availability',
+    detail: "That booking time is not one of the service provider's available time slots.",
+  },
+  busyTime: { type: '/booking-time-taken', detail: 'That booking time is already taken.' },
+  session: { type: '/booking-time-taken', detail: 'That booking time is already taken.' },
+}
+
+const bookingConflictResponse = (conflict: BookingConflict) =>
+  makeError(
+    409,
+    'That booking time is unavailable.',
+    bookingConflictErrors[conflict.type].type,
+    bookingConflictErrors[conflict.type].detail
+  )
+
 const joinIgnoreEmpty = (...parts: Array<string | null | undefined>) =>
   parts
     .map((part) => (typeof part === 'string' ? part.trim() : ''))
@@ -115,6 +147,7 @@ const buildBookingNotificationPayload = (params: {
   timezone: string
   paymentAmount?: number
   currency?: string | null
+  waitlisted?: boolean
 }) => {
   const bookingRangeString = formatBookingRange(
     params.bookingStartsAt,
@@ -130,6 +163,17 @@ const buildBookingNotificationPayload = (params: {
   const bookingName = params.bookingName ?? 'an appointment'
   const paidText = amountString ? ` paid ${amountString} and` : ''
 
+  if (params.waitlisted) {
+    return {
+      clientId: params.clientId,
+      userId: params.userId,
+      title: 'New waitlist booking',
+      body: `${clientName || 'A client'} has joined the waitlist for ${bookingName} at ${bookingRangeString}`,
+      messageType: 'default' as const,
+      notificationType: 'general' as const,
+    }
+  }
+
   return {
     clientId: params.clientId,
     userId: params.userId,
@@ -141,9 +185,6 @@ const buildBookingNotificationPayload = (params: {
 }
 
 type ServiceBookingDetails = {
-  bookingTimeAvailable: boolean
-  afterWindowOpens: boolean
-  beforeWindowCloses: boolean
   bookableOnline: boolean
   onlineBookingsEnabled: boolean
   trainerId: string
@@ -380,19 +421,6 @@ const handleServiceBooking = async (data: z.infer<typeof serviceBookingSchema>)
         .innerJoin('trainer', 'trainer.id', 'service.trainer_id')
         .innerJoin('currency', 'currency.id', 'product.currency_id')
         .select((eb) => [
-          eb
-            .fn<boolean>('is_booking_time_available', [eb.ref('service.id'), eb.val(bookingTime)])
-            .as('bookingTimeAvailable'),
-          eb(
-            eb.val(bookingTime),
-            '>=',
-            sql<Date>`now() + ${sql.ref('trainer.online_bookings_duration_until_booking_window_opens')}`
-          ).as('afterWindowOpens'),
-          eb(
-            eb.val(bookingTime),
-            '<',
-            sql<Date>`now() + ${sql.ref('trainer.online_bookings_duration_until_booking_window_closes')}`
-          ).as('beforeWindowCloses'),
           eb.ref('service.bookable_online').as('bookableOnline'),
           eb.ref('trainer.online_bookings_enabled').as('onlineBookingsEnabled'),
           eb.ref('trainer.id').as('trainerId'),
@@ -430,9 +458,6 @@ const handleServiceBooking = async (data: z.infer<typeof serviceBookingSchema>)
 
       const details = detailsRow
         ? {
-            bookingTimeAvailable: detailsRow.bookingTimeAvailable,
-            afterWindowOpens: detailsRow.afterWindowOpens,
-            beforeWindowCloses: detailsRow.beforeWindowCloses,
             bookableOnline: detailsRow.bookableOnline,
             onlineBookingsEnabled: detailsRow.onlineBookingsEnabled,
             trainerId: detailsRow.trainerId,
@@ -493,10 +518,17 @@ const handleServiceBooking = async (data: z.infer<typeof serviceBookingSchema>)
         } as const
       }
 
-      if (!details.bookingTimeAvailable || !details.afterWindowOpens || !details.beforeWindowCloses) {
+      await lockTrainerBookings(trx, details.trainerId)
+
+      const bookingContext = await loadServiceBookingContext(trx, data.serviceId)
+      const conflict = bookingContext
+        ? await findBookingConflict(trx, bookingContext, bookingTime)
+        : ({ type: 'outsideAvailability' } as const)
+
+      if (conflict) {
         return {
           ok: false,
-          response: makeError(409, 'That booking time is unavailable.', '/booking-time-unavailable'),
+          response: bookingConflictResponse(conflict),
         } as const
       }
 
@@ -629,6 +661,11 @@ const handleServiceBooking = async (data: z.infer<typeof serviceBookingSchema>)
         throw new Error('Failed to create client session for booking')
       }
 
+      const membership = await applyMembershipToClientSession(trx, clientSession.id)
+      if (!membership) {
+        await applyCreditPackToClientSession(trx, clientSession.id)
+      }
+
       const bookingEndsAt = new Date(details.bookingEndsAt)
       const locale = details.locale ?? 'en-US'
       const paymentAmount = data.payment?.amount ? Number.parseFloat(data.payment.amount) : undefined
@@ -653,6 +690,19 @@ const handleServiceBooking = async (data: z.infer<typeof serviceBookingSchema>)
         dedupeKey: `user.notify:onlineBooking:${bookingId}`,
       })
 
+      await queueBookingConfirmationEmail(trx, {
+        trainerId: details.trainerId,
+        clientId: clientRecord.id,
+        clientEmail: clientRecord.email ?? data.email,
+        clientFirstName: clientRecord.firstName,
+        clientLastName: clientRecord.lastName,
+        bookingId,
+        name: details.bookingName,
+        startsAt: bookingStartsAt,
+        endsAt: bookingEndsAt,
+        timezone: details.timezone,
+      })
+
       return {
         ok: true,
         bookingId,
@@ -665,6 +715,10 @@ const handleServiceBooking = async (data: z.infer<typeof serviceBookingSchema>)
 
     return NextResponse.json({ id: result.bookingId })
   } catch (error) {
+    if (error instanceof MembershipAllowanceUsedError) {
+      return makeError(409, error.message, '/membership-allowance-used')
+    }
+
     console.error('Failed to create booking (service)', error)
     return makeError(500, 'Failed to create booking', '/internal-server-error')
   }
@@ -806,7 +860,9 @@ const handleSessionBooking = async (data: z.infer<typeof sessionBookingSchema>)
         } as const
       }
 
-      if (details.availableSpots <= 0) {
+      // Full events only take bookings onto the waitlist, and only when the client asked to join it.
+      const waitlisted = details.availableSpots <= 0
+      if (waitlisted && (!data.joinWaitlist || details.maximumAttendance === null)) {
         return {
           ok: false,
           response: makeError(409, 'This event is full.', '/event-is-full'),
@@ -903,6 +959,7 @@ const handleSessionBooking = async (data: z.infer<typeof sessionBookingSchema>)
           booked_online: true,
           booking_question: details.bookingQuestion,
           booking_question_response: details.bookingQuestion ? (data.bookingQuestionResponse ?? null) : null,
+          ...(waitlisted ? { state: 'waitlisted', waitlisted_at: new Date() } : {}),
         })
         .returning(['id', 'booking_id'])
         .executeTakeFirst()
@@ -911,6 +968,10 @@ const handleSessionBooking = async (data: z.infer<typeof sessionBookingSchema>)
         throw new Error('Failed to create client session booking')
       }
 
+      if (!waitlisted) {
+        await applyMembershipToClientSession(trx, clientSession.id)
+      }
+
       const bookingEndsAt = new Date(details.bookingEndsAt)
       const locale = details.locale ?? 'en-US'
       const paymentAmount = data.payment?.amount ? Number.parseFloat(data.payment.amount) : undefined
@@ -927,6 +988,7 @@ const handleSessionBooking = async (data: z.infer<typeof sessionBookingSchema>)
         timezone: details.timezone,
         paymentAmount: Number.isFinite(paymentAmount ?? NaN) ? paymentAmount : undefined,
         currency: details.currency ?? data.payment?.currency ?? null,
+        waitlisted,
       })
 
       const bookingId = clientSession.booking_id ?? clientSession.id
@@ -935,9 +997,25 @@ const handleSessionBooking = async (data: z.infer<typeof sessionBookingSchema>)
         dedupeKey: `user.notify:onlineBooking:${bookingId}`,
       })
 
+      if (!waitlisted) {
+        await queueBookingConfirmationEmail(trx, {
+          trainerId: details.trainerId,
+          clientId: clientRecord.id,
+          clientEmail: clientRecord.email ?? data.email,
+          clientFirstName: clientRecord.firstName,
+          clientLastName: clientRecord.lastName,
+          bookingId,
+          name: details.bookingName,
+          startsAt: bookingStartsAt,
+          endsAt: bookingEndsAt,
+          timezone: details.timezone,
+        })
+      }
+
       return {
         ok: true,
         bookingId,
+        waitlisted,
       } as const
     })
 
@@ -945,8 +1023,12 @@ const handleSessionBooking = async (data: z.infer<typeof sessionBookingSchema>)
       return result.response
     }
 
-    return NextResponse.json({ id: result.bookingId })
+    return NextResponse.json({ id: result.bookingId, waitlisted: result.waitlisted })
   } catch (error) {
+    if (error instanceof MembershipAllowanceUsedError) {
+      return makeError(409, error.message, '/membership-allowance-used')
+    }
+
     console.error('Failed to create booking (session)', error)
     return makeError(500, 'Failed to create booking', '/internal-server-error')
   }
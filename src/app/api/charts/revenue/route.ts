@@ -272,7 +272,10 @@ export async function GET(request: Request) {
       .leftJoin('payment_manual', 'payment_manual.id', 'payment.id')
       .leftJoin('stripe_charge', 'stripe_charge.id', 'payment_stripe.stripe_charge_id')
       .leftJoin('stripe_payment_intent', 'stripe_payment_intent.id', 'payment_stripe.stripe_payment_intent_id')
-      .select((eb) => [paymentDateExpr(eb).as('date'), eb.ref('payment.amount').as('amount')])
+      .select((eb) => [
+        paymentDateExpr(eb).as('date'),
+        eb('payment.amount', '-', eb.ref('payment.amount_refunded')).as('amount'),
+      ])
       .where('payment.refunded_time', 'is', null)
       .where('payment.trainer_id', '=', authorization.trainerId)
       .where((eb) => eb.or([eb(eb.ref('payment.is_manual'), '=', true), eb(eb.ref('payment.is_stripe'), '=', true)]))
@@ -283,7 +286,10 @@ export async function GET(request: Request) {
     const planPaymentRows = await db
       .selectFrom('payment_plan_payment as ppp')
       .innerJoin('payment_plan as pp', 'pp.id', 'ppp.payment_plan_id')
-      .select((eb) => [eb.ref('ppp.date').as('date'), eb.ref('ppp.amount').as('amount')])
+      .select((eb) => [
+        eb.ref('ppp.date').as('date'),
+        eb('ppp.amount', '-', eb.ref('ppp.amount_refunded')).as('amount'),
+      ])
       .where('pp.trainer_id', '=', authorization.trainerId)
       .where('ppp.status', '=', 'paid')
       .where('ppp.date', '>=', startDate)
@@ -0,0 +1,141 @@
+import { NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import {
+  ClientCampaignNotFoundError,
+  ClientCampaignValidationError,
+  deleteClientCampaign,
+  getClientCampaign,
+  updateClientCampaign,
+} from '@/server/clientCampaigns'
+import { authenticateTrainerRequest } from '../../_lib/accessToken'
+import { parseStrictJsonBody } from '../../_lib/strictJson'
+import {
+  campaignParamsSchema,
+  createCampaignNotFoundResponse,
+  createInternalErrorResponse,
+  createInvalidBodyResponse,
+  createInvalidCampaignResponse,
+  createInvalidParamsResponse,
+  formatIssues,
+  updateCampaignSchema,
+} from '../shared'
+
+type HandlerContext = RouteContext<'/api/clientCampaigns/[campaignId]'>
+
+const readParams = async (context: HandlerContext) => {
+  const paramsResult = campaignParamsSchema.safeParse(await context.params)
+  if (!paramsResult.success) {
+    return {
+      ok: false as const,
+      response: createInvalidParamsResponse(paramsResult.error.issues.map((issue) => issue.message).join('; ')),
+    }
+  }
+  return { ok: true as const, campaignId: paramsResult.data.campaignId }
+}
+
+export async function GET(request: Request, context: HandlerContext) {
+  const params = await readParams(context)
+  if (!params.ok) {
+    return params.response
+  }
+
+  const authorization = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while fetching client campaign',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  const { campaignId } = params
+
+  try {
+    const campaign = await getClientCampaign(db, authorization.trainerId, campaignId)
+
+    return NextResponse.json(campaign)
+  } catch (error) {
+    if (error instanceof ClientCampaignNotFoundError) {
+      return createCampaignNotFoundResponse()
+    }
+
+    console.error('Failed to fetch client campaign', { trainerId: authorization.trainerId, campaignId, error })
+    return createInternalErrorResponse('Failed to fetch client campaign')
+  }
+}
+
+export async function PATCH(request: Request, context: HandlerContext) {
+  const params = await readParams(context)
+  if (!params.ok) {
+    return params.response
+  }
+
+  const parsedJson = await parseStrictJsonBody(request)
+  if (!parsedJson.ok) {
+    return parsedJson.response
+  }
+
+  const bodyResult = updateCampaignSchema.safeParse(parsedJson.data)
+  if (!bodyResult.success) {
+    return createInvalidBodyResponse(formatIssues(bodyResult.error))
+  }
+
+  const authorization = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while updating client campaign',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  const { campaignId } = params
+
+  try {
+    const campaign = await db
+      .transaction()
+      .execute((trx) => updateClientCampaign(trx, authorization.trainerId, campaignId, bodyResult.data))
+
+    return NextResponse.json(campaign)
+  } catch (error) {
+    if (error instanceof ClientCampaignNotFoundError) {
+      return createCampaignNotFoundResponse()
+    }
+
+    if (error instanceof ClientCampaignValidationError) {
+      return createInvalidCampaignResponse(error.message)
+    }
+
+    console.error('Failed to update client campaign', { trainerId: authorization.trainerId, campaignId, error })
+    return createInternalErrorResponse('Failed to update client campaign')
+  }
+}
+
+/** Deletes the campaign and its run log. Messages it already sent are kept. */
+export async function DELETE(request: Request, context: HandlerContext) {
+  const params = await readParams(context)
+  if (!params.ok) {
+    return params.response
+  }
+
+  const authorization = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while deleting client campaign',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  const { campaignId } = params
+
+  try {
+    await deleteClientCampaign(db, authorization.trainerId, campaignId)
+
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    if (error instanceof ClientCampaignNotFoundError) {
+      return createCampaignNotFoundResponse()
+    }
+
+    console.error('Failed to delete client campaign', { trainerId: authorization.trainerId, campaignId, error })
+    return createInternalErrorResponse('Failed to delete client campaign')
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { ClientCampaignNotFoundError, listClientCampaignRuns } from '@/server/clientCampaigns'
+import { authenticateTrainerRequest, buildErrorResponse } from '../../../_lib/accessToken'
+import {
+  campaignParamsSchema,
+  createCampaignNotFoundResponse,
+  createInternalErrorResponse,
+  createInvalidParamsResponse,
+} from '../../shared'
+
+type HandlerContext = RouteContext<'/api/clientCampaigns/[campaignId]/runs'>
+
+const querySchema = z.object({
+  limit: z.coerce
+    .number()
+    .int('limit must be a whole number')
+    .min(1, 'limit must be at least 1')
+    .max(500, 'limit must be at most 500')
+    .default(100),
+})
+
+/** Who the campaign has sent to or skipped, and why, newest first. */
+export async function GET(request: Request, context: HandlerContext) {
+  const paramsResult = campaignParamsSchema.safeParse(await context.params)
+  if (!paramsResult.success) {
+    return createInvalidParamsResponse(paramsResult.error.issues.map((issue) => issue.message).join('; '))
+  }
+
+  const url = new URL(request.url)
+  const queryResult = querySchema.safeParse({ limit: url.searchParams.get('limit')?.trim() || undefined })
+  if (!queryResult.success) {
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid query parameters',
+        detail: queryResult.error.issues.map((issue) => issue.message).join('; '),
+        type: '/invalid-query',
+      }),
+      { status: 400 }
+    )
+  }
+
+  const authorization = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while fetching client campaign runs',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  const { campaignId } = paramsResult.data
+
+  try {
+    const runs = await listClientCampaignRuns(db, authorization.trainerId, campaignId, queryResult.data)
+
+    return NextResponse.json({ runs })
+  } catch (error) {
+    if (error instanceof ClientCampaignNotFoundError) {
+      return createCampaignNotFoundResponse()
+    }
+
+    console.error('Failed to fetch client campaign runs', { trainerId: authorization.trainerId, campaignId, error })
+    return createInternalErrorResponse('Failed to fetch client campaign runs')
+  }
+}
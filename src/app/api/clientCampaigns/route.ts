@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { ClientCampaignValidationError, createClientCampaign, listClientCampaigns } from '@/server/clientCampaigns'
+import { authenticateTrainerRequest } from '../_lib/accessToken'
+import { parseStrictJsonBody } from '../_lib/strictJson'
+import {
+  createCampaignSchema,
+  createInternalErrorResponse,
+  createInvalidBodyResponse,
+  createInvalidCampaignResponse,
+  formatIssues,
+} from './shared'
+
+export async function GET(request: Request) {
+  const authorization = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while fetching client campaigns',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  try {
+    const campaigns = await listClientCampaigns(db, authorization.trainerId)
+
+    return NextResponse.json({ campaigns })
+  } catch (error) {
+    console.error('Failed to fetch client campaigns', { trainerId: authorization.trainerId, error })
+    return createInternalErrorResponse('Failed to fetch client campaigns')
+  }
+}
+
+export async function POST(request: Request) {
+  const parsedJson = await parseStrictJsonBody(request)
+  if (!parsedJson.ok) {
+    return parsedJson.response
+  }
+
+  const bodyResult = createCampaignSchema.safeParse(parsedJson.data)
+  if (!bodyResult.success) {
+    return createInvalidBodyResponse(formatIssues(bodyResult.error))
+  }
+
+  const authorization = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while creating client campaign',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  try {
+    const campaign = await createClientCampaign(db, authorization.trainerId, bodyResult.data)
+
+    return NextResponse.json(campaign, { status: 201 })
+  } catch (error) {
+    if (error instanceof ClientCampaignValidationError) {
+      return createInvalidCampaignResponse(error.message)
+    }
+
+    console.error('Failed to create client campaign', { trainerId: authorization.trainerId, error })
+    return createInternalErrorResponse('Failed to create client campaign')
+  }
+}
@@ -0,0 +1,109 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { campaignChannels, campaignConditionSchema, campaignTriggerTypes } from '@/server/clientCampaigns'
+import { buildErrorResponse } from '../_lib/accessToken'
+
+export const campaignParamsSchema = z.object({
+  campaignId: z.string().trim().uuid('Campaign id must be a valid UUID.'),
+})
+
+const optionalText = (max: number) => z.string().max(max, `must be at most ${max} characters`).nullable().optional()
+
+const campaignFields = {
+  name: z.string().trim().min(1, 'must not be empty').max(120, 'must be at most 120 characters'),
+  enabled: z.boolean(),
+  triggerType: z.enum(campaignTriggerTypes),
+  triggerThreshold: z
+    .number()
+    .int('must be a whole number')
+    .min(1, 'must be at least 1')
+    .max(365, 'must be at most 365')
+    .nullable(),
+  conditions: z.array(campaignConditionSchema).max(10, 'must have at most 10 conditions'),
+  channel: z.enum(campaignChannels),
+  emailSubject: optionalText(200),
+  emailHeading: optionalText(200),
+  emailBody: optionalText(5000),
+  smsBody: optionalText(320),
+  frequencyCapDays: z
+    .number()
+    .int('must be a whole number')
+    .min(1, 'must be at least 1')
+    .max(365, 'must be at most 365'),
+}
+
+export const createCampaignSchema = z
+  .object({
+    ...campaignFields,
+    enabled: campaignFields.enabled.default(true),
+    triggerThreshold: campaignFields.triggerThreshold.default(null),
+    conditions: campaignFields.conditions.default([]),
+    frequencyCapDays: campaignFields.frequencyCapDays.default(30),
+  })
+  .strict()
+  .transform((campaign) => ({
+    ...campaign,
+    emailSubject: campaign.emailSubject ?? null,
+    emailHeading: campaign.emailHeading ?? null,
+    emailBody: campaign.emailBody ?? null,
+    smsBody: campaign.smsBody ?? null,
+  }))
+
+/** Fields left out keep their current value. */
+export const updateCampaignSchema = z.object(campaignFields).partial().strict()
+
+export const formatIssues = (error: z.ZodError) =>
+  error.issues.map((issue) => `${issue.path.join('.')} ${issue.message}`.trim()).join('; ')
+
+export const createInvalidParamsResponse = (detail: string) =>
+  NextResponse.json(
+    buildErrorResponse({
+      status: 400,
+      title: 'Invalid path parameters',
+      detail: detail || 'Campaign id parameter did not match the expected schema.',
+      type: '/invalid-path-parameters',
+    }),
+    { status: 400 }
+  )
+
+export const createInvalidBodyResponse = (detail: string) =>
+  NextResponse.json(
+    buildErrorResponse({
+      status: 400,
+      title: 'Invalid request body',
+      detail: detail || 'Request body did not match the expected schema.',
+      type: '/invalid-body',
+    }),
+    { status: 400 }
+  )
+
+export const createInvalidCampaignResponse = (detail: string) =>
+  NextResponse.json(
+    buildErrorResponse({
+      status: 422,
+      title: 'Invalid campaign',
+      detail,
+      type: '/invalid-client-campaign',
+    }),
+    { status: 422 }
+  )
+
+export const createCampaignNotFoundResponse = () =>
+  NextResponse.json(
+    buildErrorResponse({
+      status: 404,
+      title: 'Campaign not found',
+      type: '/resource-not-found',
+    }),
+    { status: 404 }
+  )
+
+export const createInternalErrorResponse = (title: string) =>
+  NextResponse.json(
+    buildErrorResponse({
+      status: 500,
+      title,
+      type: '/internal-server-error',
+    }),
+    { status: 500 }
+  )
@@ -0,0 +1,114 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { AttendanceFeePaidError, attendanceOutcomes, recordAttendance } from '@/server/attendance'
+import { authenticateTrainerRequest, buildErrorResponse } from '../../../_lib/accessToken'
+import { parseStrictJsonBody } from '../../../_lib/strictJson'
+
+const paramsSchema = z.object({
+  clientSessionId: z.string().trim().min(1, 'Client session id must not be empty.'),
+})
+
+const requestBodySchema = z
+  .object({
+    attendance: z.enum(attendanceOutcomes).nullable(),
+  })
+  .strict()
+
+type HandlerContext = RouteContext<'/api/clientSessions/[clientSessionId]/attendance'>
+
+export async function PUT(request: NextRequest, context: HandlerContext) {
+  const paramsResult = paramsSchema.safeParse(await context.params)
+
+  if (!paramsResult.success) {
+    const detail = paramsResult.error.issues.map((issue) => issue.message).join('; ')
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid path parameters',
+        detail: detail || 'Client session id parameter did not match the expected schema.',
+        type: '/invalid-path-parameters',
+      }),
+      { status: 400 }
+    )
+  }
+
+  const parsedJson = await parseStrictJsonBody(request)
+  if (!parsedJson.ok) {
+    return parsedJson.response
+  }
+
+  const bodyResult = requestBodySchema.safeParse(parsedJson.data)
+  if (!bodyResult.success) {
+    const detail = bodyResult.error.issues.map((issue) => issue.message).join('; ')
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid request body',
+        detail: detail || 'Request body did not match the expected schema.',
+        type: '/invalid-body',
+      }),
+      { status: 400 }
+    )
+  }
+
+  const authorization = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while recording attendance',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  const { clientSessionId } = paramsResult.data
+
+  try {
+    const [record] = await db.transaction().execute((trx) =>
+      recordAttendance(trx, {
+        trainerId: authorization.trainerId,
+        clientSessionIds: [clientSessionId],
+        attendance: bodyResult.data.attendance,
+      })
+    )
+
+    if (!record) {
+      return NextResponse.json(
+        buildErrorResponse({
+          status: 404,
+          title: 'Client session not found',
+          type: '/resource-not-found',
+        }),
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(record)
+  } catch (error) {
+    if (error instanceof AttendanceFeePaidError) {
+      return NextResponse.json(
+        buildErrorResponse({
+          status: 409,
+          title: error.message,
+          type: '/attendance-fee-paid',
+        }),
+        { status: 409 }
+      )
+    }
+
+    console.error('Failed to record client session attendance', {
+      trainerId: authorization.trainerId,
+      clientSessionId,
+      error,
+    })
+
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 500,
+        title: 'Failed to record attendance',
+        type: '/internal-server-error',
+      }),
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,8 @@ import type { NextRequest } from 'next/server'
 import { NextResponse } from 'next/server'
 import { z, ZodError } from 'zod'
 import { db } from '@/lib/db'
+import { refundClientSessionCredits } from '@/server/creditLedger'
+import { promoteWaitlistedClients } from '@/server/sessionWaitlist'
 import type { RawClientSessionRow } from '../../../_lib/clientSessionsSchema'
 import { authenticateTrainerRequest, buildErrorResponse } from '../../../_lib/accessToken'
 import { adaptClientSessionRow } from '../../../_lib/clientSessionsSchema'
@@ -136,6 +138,7 @@ export async function POST(request: NextRequest, context: HandlerContext) {
           state: 'cancelled',
           cancel_time: new Date(),
           cancel_reason: parsedBody.cancelReason === undefined ? null : parsedBody.cancelReason,
+          waitlist_claim_expires_at: null,
         })
         .where('id', '=', clientSessionId)
         .where('trainer_id', '=', authorization.trainerId)
@@ -146,6 +149,8 @@ export async function POST(request: NextRequest, context: HandlerContext) {
         throw new ClientSessionNotFoundError()
       }
 
+      await refundClientSessionCredits(trx, clientSessionId)
+
       const row = (await trx
         .selectFrom('vw_legacy_client_session as v')
         .innerJoin('client_session as cs', 'cs.id', 'v.id')
@@ -177,6 +182,10 @@ export async function POST(request: NextRequest, context: HandlerContext) {
         throw new ClientSessionNotFoundError()
       }
 
+      if (row.sessionId) {
+        await promoteWaitlistedClients(trx, row.sessionId)
+      }
+
       return row
     })
 
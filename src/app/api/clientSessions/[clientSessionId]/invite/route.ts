@@ -398,6 +398,7 @@ export async function POST(request: NextRequest, context: HandlerContext) {
           trainer_id: authorization.trainerId,
           client_id: details.clientId,
           from_email: NO_REPLY_EMAIL,
+          message_type: 'session_invitation',
           from_name: `${senderName} via ${APP_NAME}`,
           to_email: details.email,
           to_name: details.firstName ?? null,
@@ -384,6 +384,7 @@ export async function POST(request: NextRequest, context: HandlerContext) {
             trainer_id: authorization.trainerId,
             client_id: details.clientId,
             from_email: NO_REPLY_EMAIL,
+            message_type: 'session_share',
             from_name: `${senderName} via ${APP_NAME}`,
             to_email: details.clientEmail,
             to_name: null,
@@ -404,6 +405,7 @@ export async function POST(request: NextRequest, context: HandlerContext) {
             trainer_id: authorization.trainerId,
             client_id: details.clientId,
             to_number: toNumber,
+            message_type: 'session_share',
             from_number: null,
             body: smsBody,
             client_was_deleted: null,
@@ -0,0 +1,56 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { fetchClientAttendanceSummary } from '@/server/attendance'
+import { authenticateTrainerRequest, buildErrorResponse } from '../../../_lib/accessToken'
+
+const paramsSchema = z.object({
+  clientId: z.string().trim().min(1, 'Client id must not be empty.'),
+})
+
+type HandlerContext = RouteContext<'/api/clients/[clientId]/attendance'>
+
+export async function GET(request: NextRequest, context: HandlerContext) {
+  const paramsResult = paramsSchema.safeParse(await context.params)
+
+  if (!paramsResult.success) {
+    const detail = paramsResult.error.issues.map((issue) => issue.message).join('; ')
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid path parameters',
+        detail: detail || 'Client id parameter did not match the expected schema.',
+        type: '/invalid-path-parameters',
+      }),
+      { status: 400 }
+    )
+  }
+
+  const authorization = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while fetching client attendance',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  const { clientId } = paramsResult.data
+
+  try {
+    const summary = await fetchClientAttendanceSummary(db, authorization.trainerId, clientId)
+
+    return NextResponse.json(summary)
+  } catch (error) {
+    console.error('Failed to fetch client attendance', { trainerId: authorization.trainerId, clientId, error })
+
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 500,
+        title: 'Failed to fetch client attendance',
+        type: '/internal-server-error',
+      }),
+      { status: 500 }
+    )
+  }
+}
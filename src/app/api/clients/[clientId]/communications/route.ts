@@ -0,0 +1,89 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { listClientCommunications } from '@/server/communications'
+import { authenticateTrainerRequest, buildErrorResponse } from '../../../_lib/accessToken'
+
+const paramsSchema = z.object({
+  clientId: z.string().trim().min(1, 'Client id must not be empty.'),
+})
+
+const querySchema = z.object({
+  limit: z.coerce
+    .number()
+    .int('limit must be a whole number')
+    .min(1, 'limit must be at least 1')
+    .max(200, 'limit must be at most 200')
+    .default(50),
+  before: z.string().datetime({ offset: true, message: 'before must be an ISO date-time' }).optional(),
+})
+
+type HandlerContext = RouteContext<'/api/clients/[clientId]/communications'>
+
+export async function GET(request: NextRequest, context: HandlerContext) {
+  const paramsResult = paramsSchema.safeParse(await context.params)
+
+  if (!paramsResult.success) {
+    const detail = paramsResult.error.issues.map((issue) => issue.message).join('; ')
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid path parameters',
+        detail: detail || 'Client id parameter did not match the expected schema.',
+        type: '/invalid-path-parameters',
+      }),
+      { status: 400 }
+    )
+  }
+
+  const url = new URL(request.url)
+  const queryResult = querySchema.safeParse({
+    limit: url.searchParams.get('limit')?.trim() || undefined,
+    before: url.searchParams.get('before')?.trim() || undefined,
+  })
+
+  if (!queryResult.success) {
+    const detail = queryResult.error.issues.map((issue) => issue.message).join('; ')
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid query parameters',
+        detail: detail || 'Request query parameters did not match the expected schema.',
+        type: '/invalid-query',
+      }),
+      { status: 400 }
+    )
+  }
+
+  const authorization = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while fetching client communications',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  const { clientId } = paramsResult.data
+  const { limit, before } = queryResult.data
+
+  try {
+    const communications = await listClientCommunications(db, authorization.trainerId, clientId, {
+      limit,
+      before: before ? new Date(before) : null,
+    })
+
+    return NextResponse.json({ communications })
+  } catch (error) {
+    console.error('Failed to fetch client communications', { trainerId: authorization.trainerId, clientId, error })
+
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 500,
+        title: 'Failed to fetch client communications',
+        type: '/internal-server-error',
+      }),
+      { status: 500 }
+    )
+  }
+}
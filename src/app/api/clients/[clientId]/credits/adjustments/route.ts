@@ -0,0 +1,130 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import {
+  adjustCreditPackBalance,
+  CreditPackNotFoundError,
+  fetchClientCreditBalances,
+  InsufficientCreditsError,
+} from '@/server/creditLedger'
+import { authenticateTrainerRequest, buildErrorResponse } from '../../../../_lib/accessToken'
+import { parseStrictJsonBody } from '../../../../_lib/strictJson'
+
+const paramsSchema = z.object({
+  clientId: z.string().trim().min(1, 'Client id must not be empty.'),
+})
+
+const requestBodySchema = z
+  .object({
+    saleCreditPackId: z.string().trim().min(1, 'saleCreditPackId must not be empty.'),
+    credits: z
+      .number()
+      .int('credits must be an integer.')
+      .refine((value) => value !== 0, 'credits must not be zero.'),
+    note: z.string().trim().min(1).nullable().optional(),
+  })
+  .strict()
+
+type HandlerContext = RouteContext<'/api/clients/[clientId]/credits/adjustments'>
+
+export async function POST(request: NextRequest, context: HandlerContext) {
+  const paramsResult = paramsSchema.safeParse(await context.params)
+
+  if (!paramsResult.success) {
+    const detail = paramsResult.error.issues.map((issue) => issue.message).join('; ')
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid path parameters',
+        detail: detail || 'Client id parameter did not match the expected schema.',
+        type: '/invalid-path-parameters',
+      }),
+      { status: 400 }
+    )
+  }
+
+  const parsedJson = await parseStrictJsonBody(request)
+  if (!parsedJson.ok) {
+    return parsedJson.response
+  }
+
+  const bodyResult = requestBodySchema.safeParse(parsedJson.data)
+  if (!bodyResult.success) {
+    const detail = bodyResult.error.issues.map((issue) => issue.message).join('; ')
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid request body',
+        detail: detail || 'Request body did not match the expected schema.',
+        type: '/invalid-body',
+      }),
+      { status: 400 }
+    )
+  }
+
+  const authorization = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while adjusting client credits',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  const { clientId } = paramsResult.data
+  const { saleCreditPackId, credits, note } = bodyResult.data
+
+  try {
+    await db.transaction().execute((trx) =>
+      adjustCreditPackBalance(trx, {
+        trainerId: authorization.trainerId,
+        clientId,
+        saleCreditPackId,
+        credits,
+        note: note ?? null,
+      })
+    )
+
+    const balances = await fetchClientCreditBalances(db, authorization.trainerId, clientId)
+
+    return NextResponse.json(balances)
+  } catch (error) {
+    if (error instanceof CreditPackNotFoundError) {
+      return NextResponse.json(
+        buildErrorResponse({
+          status: 404,
+          title: 'Credit pack not found',
+          type: '/resource-not-found',
+        }),
+        { status: 404 }
+      )
+    }
+
+    if (error instanceof InsufficientCreditsError) {
+      return NextResponse.json(
+        buildErrorResponse({
+          status: 409,
+          title: error.message,
+          type: '/insufficient-credits',
+        }),
+        { status: 409 }
+      )
+    }
+
+    console.error('Failed to adjust client credits', {
+      trainerId: authorization.trainerId,
+      clientId,
+      saleCreditPackId,
+      error,
+    })
+
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 500,
+        title: 'Failed to adjust client credits',
+        type: '/internal-server-error',
+      }),
+      { status: 500 }
+    )
+  }
+}
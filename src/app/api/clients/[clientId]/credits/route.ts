@@ -0,0 +1,86 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { fetchClientCreditBalances, fetchClientCreditLedger } from '@/server/creditLedger'
+import { authenticateTrainerRequest, buildErrorResponse } from '../../../_lib/accessToken'
+
+const paramsSchema = z.object({
+  clientId: z.string().trim().min(1, 'Client id must not be empty.'),
+})
+
+const querySchema = z.object({
+  asOf: z
+    .string()
+    .datetime({ offset: true, message: 'asOf must be an ISO 8601 date-time.' })
+    .optional()
+    .transform((value) => (value === undefined ? new Date() : new Date(value))),
+})
+
+type HandlerContext = RouteContext<'/api/clients/[clientId]/credits'>
+
+export async function GET(request: NextRequest, context: HandlerContext) {
+  const paramsResult = paramsSchema.safeParse(await context.params)
+
+  if (!paramsResult.success) {
+    const detail = paramsResult.error.issues.map((issue) => issue.message).join('; ')
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid path parameters',
+        detail: detail || 'Client id parameter did not match the expected schema.',
+        type: '/invalid-path-parameters',
+      }),
+      { status: 400 }
+    )
+  }
+
+  const url = new URL(request.url)
+  const queryResult = querySchema.safeParse({
+    asOf: url.searchParams.get('asOf') ?? undefined,
+  })
+
+  if (!queryResult.success) {
+    const detail = queryResult.error.issues.map((issue) => issue.message).join('; ')
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid query parameters',
+        detail: detail || 'Request query parameters did not match the expected schema.',
+        type: '/invalid-query',
+      }),
+      { status: 400 }
+    )
+  }
+
+  const authorization = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while fetching client credits',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  const { clientId } = paramsResult.data
+  const { asOf } = queryResult.data
+
+  try {
+    const [balances, entries] = await Promise.all([
+      fetchClientCreditBalances(db, authorization.trainerId, clientId, asOf),
+      fetchClientCreditLedger(db, authorization.trainerId, clientId),
+    ])
+
+    return NextResponse.json({ ...balances, entries })
+  } catch (error) {
+    console.error('Failed to fetch client credits', { trainerId: authorization.trainerId, clientId, error })
+
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 500,
+        title: 'Failed to fetch client credits',
+        type: '/internal-server-error',
+      }),
+      { status: 500 }
+    )
+  }
+}
@@ -227,6 +227,7 @@ export async function PUT(request: NextRequest, context: HandlerContext) {
           trainer_id: authorization.trainerId,
           client_id: details.clientId,
           from_email: NO_REPLY_EMAIL,
+          message_type: 'dashboard_link',
           from_name: `${senderName} via ${APP_NAME}`,
           to_email: details.email,
           to_name: null,
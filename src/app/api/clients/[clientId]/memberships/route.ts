@@ -0,0 +1,211 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import {
+  createClientMembership,
+  fetchClientMembershipAllowances,
+  MembershipClientHasNoEmailError,
+  MembershipClientNotFoundError,
+  MembershipNotFoundError,
+} from '@/server/memberships'
+import { authenticateTrainerRequest, buildErrorResponse } from '../../../_lib/accessToken'
+import { parseStrictJsonBody } from '../../../_lib/strictJson'
+
+const paramsSchema = z.object({
+  clientId: z.string().trim().min(1, 'Client id is required').uuid({ message: 'Client id must be a valid UUID.' }),
+})
+
+const querySchema = z.object({
+  at: z
+    .string()
+    .datetime({ offset: true, message: 'at must be an ISO 8601 date-time.' })
+    .optional()
+    .transform((value) => (value === undefined ? new Date() : new Date(value))),
+})
+
+const requestBodySchema = z
+  .object({
+    membershipId: z.string().trim().uuid({ message: 'membershipId must be a valid UUID.' }),
+    startDate: z.string().datetime({ offset: true, message: 'startDate must be an ISO 8601 date-time string' }),
+  })
+  .strict()
+
+type HandlerContext = RouteContext<'/api/clients/[clientId]/memberships'>
+
+const invalidParamsResponse = (error: z.ZodError) => {
+  const detail = error.issues.map((issue) => issue.message).join('; ')
+  return NextResponse.json(
+    buildErrorResponse({
+      status: 400,
+      title: 'Invalid path parameters',
+      detail: detail || 'Client id parameter did not match the expected schema.',
+      type: '/invalid-path-parameters',
+    }),
+    { status: 400 }
+  )
+}
+
+export async function GET(request: NextRequest, context: HandlerContext) {
+  const paramsResult = paramsSchema.safeParse(await context.params)
+
+  if (!paramsResult.success) {
+    return invalidParamsResponse(paramsResult.error)
+  }
+
+  const url = new URL(request.url)
+  const queryResult = querySchema.safeParse({
+    at: url.searchParams.get('at') ?? undefined,
+  })
+
+  if (!queryResult.success) {
+    const detail = queryResult.error.issues.map((issue) => issue.message).join('; ')
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid query parameters',
+        detail: detail || 'Request query parameters did not match the expected schema.',
+        type: '/invalid-query',
+      }),
+      { status: 400 }
+    )
+  }
+
+  const authorization = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while fetching client memberships',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  const { clientId } = paramsResult.data
+
+  try {
+    const memberships = await fetchClientMembershipAllowances(
+      db,
+      authorization.trainerId,
+      clientId,
+      queryResult.data.at
+    )
+
+    return NextResponse.json(memberships)
+  } catch (error) {
+    console.error('Failed to fetch client memberships', {
+      trainerId: authorization.trainerId,
+      clientId,
+      error,
+    })
+
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 500,
+        title: 'Failed to fetch client memberships',
+        type: '/internal-server-error',
+      }),
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest, context: HandlerContext) {
+  const paramsResult = paramsSchema.safeParse(await context.params)
+
+  if (!paramsResult.success) {
+    return invalidParamsResponse(paramsResult.error)
+  }
+
+  const parsedJson = await parseStrictJsonBody(request)
+  if (!parsedJson.ok) {
+    return parsedJson.response
+  }
+
+  const bodyResult = requestBodySchema.safeParse(parsedJson.data)
+  if (!bodyResult.success) {
+    const detail = bodyResult.error.issues.map((issue) => issue.message).join('; ')
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid request body',
+        detail: detail || 'Request body did not match the expected schema.',
+        type: '/invalid-body',
+      }),
+      { status: 400 }
+    )
+  }
+
+  const authorization = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while adding client membership',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  const { clientId } = paramsResult.data
+  const { membershipId, startDate } = bodyResult.data
+
+  try {
+    const created = await db.transaction().execute((trx) =>
+      createClientMembership(trx, {
+        trainerId: authorization.trainerId,
+        clientId,
+        membershipId,
+        start: new Date(startDate),
+      })
+    )
+
+    return NextResponse.json(created)
+  } catch (error) {
+    if (error instanceof MembershipNotFoundError) {
+      return NextResponse.json(
+        buildErrorResponse({
+          status: 404,
+          title: 'Membership not found',
+          type: '/resource-not-found',
+        }),
+        { status: 404 }
+      )
+    }
+
+    if (error instanceof MembershipClientNotFoundError) {
+      return NextResponse.json(
+        buildErrorResponse({
+          status: 404,
+          title: 'Client not found',
+          detail: 'We could not find a client with the specified identifier for the authenticated trainer.',
+          type: '/client-not-found',
+        }),
+        { status: 404 }
+      )
+    }
+
+    if (error instanceof MembershipClientHasNoEmailError) {
+      return NextResponse.json(
+        buildErrorResponse({
+          status: 409,
+          title: 'Client has no email',
+          detail: 'A client email address is required to send a membership request.',
+          type: '/client-has-no-email',
+        }),
+        { status: 409 }
+      )
+    }
+
+    console.error('Failed to add client membership', {
+      trainerId: authorization.trainerId,
+      clientId,
+      membershipId,
+      error,
+    })
+
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 500,
+        title: 'Failed to add client membership',
+        type: '/internal-server-error',
+      }),
+      { status: 500 }
+    )
+  }
+}
@@ -538,6 +538,7 @@ export async function PUT(request: NextRequest, context: HandlerContext) {
             trainer_id: authorization.trainerId,
             client_id: details.clientId,
             from_email: NO_REPLY_EMAIL,
+            message_type: 'payment_plan_update',
             from_name: `${senderName} via ${APP_NAME}`,
             to_email: details.clientEmail,
             to_name: null,
@@ -443,6 +443,7 @@ export async function POST(request: NextRequest, context: HandlerContext) {
           trainer_id: authorization.trainerId,
           client_id: details.clientId,
           from_email: NO_REPLY_EMAIL,
+          message_type: 'payment_plan_request',
           from_name: `${senderName} via ${APP_NAME}`,
           to_email: recipientEmail,
           to_name: null,
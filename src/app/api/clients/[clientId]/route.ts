@@ -3,6 +3,7 @@ import { NextResponse } from 'next/server'
 import { z } from 'zod'
 import { db } from '@/lib/db'
 import { toPoint } from '@/lib/db/values'
+import { languageForLocale, resolveLocale, supportedLanguages } from '@/lib/i18n'
 import { authenticateTrainerRequest, buildErrorResponse } from '../../_lib/accessToken'
 import { getStripeClient } from '../../_lib/stripeClient'
 import { adaptClientRow, clientSchema } from '../shared'
@@ -77,6 +78,12 @@ const nullableUrl = z
     message: 'profileImageURL must be a valid URL.',
   })
 
+const nullableLocale = nullableTrimmedString
+  .refine((value) => value === undefined || value === null || languageForLocale(value) !== null, {
+    message: `locale must be a language tag in one of the supported languages (${supportedLanguages.join(', ')}).`,
+  })
+  .transform((value) => (value ? resolveLocale(value) : value))
+
 const birthdaySchema = z.preprocess((value) => {
   if (value === undefined) {
     return undefined
@@ -118,6 +125,7 @@ const requestBodySchema = z
     address: nullableTrimmedString,
     geo: geoSchema,
     googlePlaceId: nullableTrimmedString,
+    locale: nullableLocale,
   })
   .partial()
   .strict()
@@ -389,6 +397,7 @@ export async function PUT(request: NextRequest, context: HandlerContext) {
         location: string | null
         address: string | null
         google_place_id: string | null
+        locale: string | null
       }> = {}
 
       if (parsedBody.status !== undefined) {
@@ -436,6 +445,9 @@ export async function PUT(request: NextRequest, context: HandlerContext) {
       if (parsedBody.googlePlaceId !== undefined) {
         updates.google_place_id = parsedBody.googlePlaceId
       }
+      if (parsedBody.locale !== undefined) {
+        updates.locale = parsedBody.locale
+      }
 
       let updateBuilder = trx.updateTable('client').set(updates)
 
@@ -113,6 +113,7 @@ export const clientSchema = z.object({
   address: z.string().nullable().optional(),
   geo: geoSchema.optional(),
   googlePlaceId: z.string().nullable().optional(),
+  locale: z.string().nullable().optional(),
 })
 
 export const clientListSchema = z.array(clientSchema)
@@ -145,4 +146,5 @@ export const adaptClientRow = (row: Selectable<VwLegacyClient>) => ({
   address: row.address,
   geo: row.geo as unknown,
   googlePlaceId: row.googlePlaceId,
+  locale: row.locale,
 })
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { EmailTemplateValidationError, previewEmailTemplate } from '@/server/emailTemplates'
+import { authenticateTrainerRequest } from '../../../_lib/accessToken'
+import { parseStrictJsonBody } from '../../../_lib/strictJson'
+import {
+  createInternalErrorResponse,
+  createInvalidBodyResponse,
+  createInvalidParamsResponse,
+  createInvalidTemplateResponse,
+  templateContentSchema,
+  templateParamsSchema,
+} from '../../shared'
+
+type HandlerContext = RouteContext<'/api/emailTemplates/[templateKey]/preview'>
+
+/**
+ * Renders the email with example values and the trainer's branding. Fields sent in the body are previewed in place of
+ * the current wording, so changes can be checked before they're saved.
+ */
+export async function POST(request: Request, context: HandlerContext) {
+  const paramsResult = templateParamsSchema.safeParse(await context.params)
+  if (!paramsResult.success) {
+    return createInvalidParamsResponse(paramsResult.error.issues.map((issue) => issue.message).join('; '))
+  }
+
+  const parsedJson = await parseStrictJsonBody(request)
+  if (!parsedJson.ok) {
+    return parsedJson.response
+  }
+
+  const bodyResult = templateContentSchema.safeParse(parsedJson.data)
+  if (!bodyResult.success) {
+    return createInvalidBodyResponse(
+      bodyResult.error.issues.map((issue) => `${issue.path.join('.')} ${issue.message}`.trim()).join('; ')
+    )
+  }
+
+  const authorization = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while previewing email template',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  const { templateKey } = paramsResult.data
+
+  try {
+    const preview = await previewEmailTemplate(db, authorization.trainerId, templateKey, bodyResult.data)
+    return NextResponse.json(preview)
+  } catch (error) {
+    if (error instanceof EmailTemplateValidationError) {
+      return createInvalidTemplateResponse(error.message)
+    }
+
+    console.error('Failed to preview email template', { trainerId: authorization.trainerId, templateKey, error })
+    return createInternalErrorResponse('Failed to preview email template')
+  }
+}
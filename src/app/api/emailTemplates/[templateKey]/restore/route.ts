@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { EmailTemplateVersionNotFoundError, restoreEmailTemplateVersion } from '@/server/emailTemplates'
+import { authenticateTrainerRequest, buildErrorResponse } from '../../../_lib/accessToken'
+import { parseStrictJsonBody } from '../../../_lib/strictJson'
+import {
+  createInternalErrorResponse,
+  createInvalidBodyResponse,
+  createInvalidParamsResponse,
+  templateParamsSchema,
+} from '../../shared'
+
+type HandlerContext = RouteContext<'/api/emailTemplates/[templateKey]/restore'>
+
+const requestBodySchema = z
+  .object({
+    version: z.number().int('version must be an integer').positive('version must be positive'),
+  })
+  .strict()
+
+/** Makes an earlier version current again by saving a copy of it as the newest version. */
+export async function POST(request: Request, context: HandlerContext) {
+  const paramsResult = templateParamsSchema.safeParse(await context.params)
+  if (!paramsResult.success) {
+    return createInvalidParamsResponse(paramsResult.error.issues.map((issue) => issue.message).join('; '))
+  }
+
+  const parsedJson = await parseStrictJsonBody(request)
+  if (!parsedJson.ok) {
+    return parsedJson.response
+  }
+
+  const bodyResult = requestBodySchema.safeParse(parsedJson.data)
+  if (!bodyResult.success) {
+    return createInvalidBodyResponse(bodyResult.error.issues.map((issue) => issue.message).join('; '))
+  }
+
+  const authorization = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while restoring email template',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  const { templateKey } = paramsResult.data
+
+  try {
+    const version = await db.transaction().execute((trx) =>
+      restoreEmailTemplateVersion(trx, {
+        trainerId: authorization.trainerId,
+        key: templateKey,
+        version: bodyResult.data.version,
+        userId: authorization.userId,
+      })
+    )
+
+    return NextResponse.json(version)
+  } catch (error) {
+    if (error instanceof EmailTemplateVersionNotFoundError) {
+      return NextResponse.json(
+        buildErrorResponse({
+          status: 404,
+          title: 'Email template version not found',
+          type: '/resource-not-found',
+        }),
+        { status: 404 }
+      )
+    }
+
+    console.error('Failed to restore email template', { trainerId: authorization.trainerId, templateKey, error })
+    return createInternalErrorResponse('Failed to restore email template')
+  }
+}
@@ -0,0 +1,146 @@
+import { NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import {
+  EmailTemplateValidationError,
+  getEmailTemplate,
+  listEmailTemplateVersions,
+  saveEmailTemplateVersion,
+} from '@/server/emailTemplates'
+import { authenticateTrainerRequest } from '../../_lib/accessToken'
+import { parseStrictJsonBody } from '../../_lib/strictJson'
+import {
+  createInternalErrorResponse,
+  createInvalidBodyResponse,
+  createInvalidParamsResponse,
+  createInvalidTemplateResponse,
+  describeEmailTemplate,
+  templateContentSchema,
+  templateParamsSchema,
+} from '../shared'
+
+type HandlerContext = RouteContext<'/api/emailTemplates/[templateKey]'>
+
+const readParams = async (context: HandlerContext) => {
+  const paramsResult = templateParamsSchema.safeParse(await context.params)
+  if (!paramsResult.success) {
+    return {
+      ok: false as const,
+      response: createInvalidParamsResponse(paramsResult.error.issues.map((issue) => issue.message).join('; ')),
+    }
+  }
+  return { ok: true as const, templateKey: paramsResult.data.templateKey }
+}
+
+/** The template's current wording and every saved version, newest first. */
+export async function GET(request: Request, context: HandlerContext) {
+  const params = await readParams(context)
+  if (!params.ok) {
+    return params.response
+  }
+
+  const authorization = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while fetching email template',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  const { templateKey } = params
+
+  try {
+    const [current, versions] = await Promise.all([
+      getEmailTemplate(db, authorization.trainerId, templateKey),
+      listEmailTemplateVersions(db, authorization.trainerId, templateKey),
+    ])
+
+    return NextResponse.json({ ...describeEmailTemplate(templateKey), ...current, versions })
+  } catch (error) {
+    console.error('Failed to fetch email template', { trainerId: authorization.trainerId, templateKey, error })
+    return createInternalErrorResponse('Failed to fetch email template')
+  }
+}
+
+/** Saves new wording as the newest version. */
+export async function PUT(request: Request, context: HandlerContext) {
+  const params = await readParams(context)
+  if (!params.ok) {
+    return params.response
+  }
+
+  const parsedJson = await parseStrictJsonBody(request)
+  if (!parsedJson.ok) {
+    return parsedJson.response
+  }
+
+  const bodyResult = templateContentSchema.safeParse(parsedJson.data)
+  if (!bodyResult.success) {
+    return createInvalidBodyResponse(
+      bodyResult.error.issues.map((issue) => `${issue.path.join('.')} ${issue.message}`.trim()).join('; ')
+    )
+  }
+
+  const authorization = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while saving email template',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  const { templateKey } = params
+
+  try {
+    const version = await db.transaction().execute((trx) =>
+      saveEmailTemplateVersion(trx, {
+        trainerId: authorization.trainerId,
+        key: templateKey,
+        content: bodyResult.data,
+        userId: authorization.userId,
+      })
+    )
+
+    return NextResponse.json(version)
+  } catch (error) {
+    if (error instanceof EmailTemplateValidationError) {
+      return createInvalidTemplateResponse(error.message)
+    }
+
+    console.error('Failed to save email template', { trainerId: authorization.trainerId, templateKey, error })
+    return createInternalErrorResponse('Failed to save email template')
+  }
+}
+
+/** Goes back to the default copy. Earlier versions are kept and can still be restored. */
+export async function DELETE(request: Request, context: HandlerContext) {
+  const params = await readParams(context)
+  if (!params.ok) {
+    return params.response
+  }
+
+  const authorization = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while resetting email template',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  const { templateKey } = params
+
+  try {
+    const version = await db.transaction().execute((trx) =>
+      saveEmailTemplateVersion(trx, {
+        trainerId: authorization.trainerId,
+        key: templateKey,
+        content: {},
+        userId: authorization.userId,
+      })
+    )
+
+    return NextResponse.json(version)
+  } catch (error) {
+    console.error('Failed to reset email template', { trainerId: authorization.trainerId, templateKey, error })
+    return createInternalErrorResponse('Failed to reset email template')
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { emailTemplateKeys, getEmailTemplate } from '@/server/emailTemplates'
+import { authenticateTrainerRequest } from '../_lib/accessToken'
+import { createInternalErrorResponse, describeEmailTemplate } from './shared'
+
+export async function GET(request: Request) {
+  const authorization = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while listing email templates',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  try {
+    const templates = await Promise.all(
+      emailTemplateKeys.map(async (key) => ({
+        ...describeEmailTemplate(key),
+        ...(await getEmailTemplate(db, authorization.trainerId, key)),
+      }))
+    )
+
+    return NextResponse.json(templates)
+  } catch (error) {
+    console.error('Failed to list email templates', { trainerId: authorization.trainerId, error })
+    return createInternalErrorResponse('Failed to list email templates')
+  }
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { type EmailTemplateKey, emailTemplateKeys, emailTemplates } from '@/server/emailTemplates'
+import { buildErrorResponse } from '../_lib/accessToken'
+
+export const templateParamsSchema = z.object({
+  templateKey: z.enum(emailTemplateKeys as [EmailTemplateKey, ...EmailTemplateKey[]], {
+    message: `templateKey must be one of ${emailTemplateKeys.join(', ')}.`,
+  }),
+})
+
+const optionalText = (max: number) =>
+  z
+    .string()
+    .max(max, `must be at most ${max} characters`)
+    .nullable()
+    .optional()
+    .transform((value) => value ?? undefined)
+
+/** Leaving a field out, or sending null, keeps the default copy for it. */
+export const templateContentSchema = z
+  .object({
+    subject: optionalText(200),
+    heading: optionalText(200),
+    body: optionalText(5000),
+    buttonText: optionalText(60),
+  })
+  .strict()
+
+export const describeEmailTemplate = (key: EmailTemplateKey) => {
+  const { name, description, variables, defaults } = emailTemplates[key]
+  return {
+    key,
+    name,
+    description,
+    variables: Object.entries(variables).map(([variable, details]) => ({
+      name: variable,
+      description: details.description,
+      link: 'link' in details && details.link,
+    })),
+    defaults,
+  }
+}
+
+export const createInvalidParamsResponse = (detail: string) =>
+  NextResponse.json(
+    buildErrorResponse({
+      status: 400,
+      title: 'Invalid path parameters',
+      detail: detail || 'Template key parameter did not match the expected schema.',
+      type: '/invalid-path-parameters',
+    }),
+    { status: 400 }
+  )
+
+export const createInvalidBodyResponse = (detail: string) =>
+  NextResponse.json(
+    buildErrorResponse({
+      status: 400,
+      title: 'Invalid request body',
+      detail: detail || 'Request body did not match the expected schema.',
+      type: '/invalid-body',
+    }),
+    { status: 400 }
+  )
+
+export const createInvalidTemplateResponse = (detail: string) =>
+  NextResponse.json(
+    buildErrorResponse({
+      status: 422,
+      title: 'Invalid email template',
+      detail,
+      type: '/invalid-email-template',
+    }),
+    { status: 422 }
+  )
+
+export const createInternalErrorResponse = (title: string) =>
+  NextResponse.json(
+    buildErrorResponse({
+      status: 500,
+      title,
+      type: '/internal-server-error',
+    }),
+    { status: 500 }
+  )
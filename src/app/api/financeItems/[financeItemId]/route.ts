@@ -2,6 +2,7 @@ import type { NextRequest } from 'next/server'
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
 import { db } from '@/lib/db'
+import { expenseCategorySchema } from '@/server/profitAndLoss'
 import { authenticateTrainerRequest, buildErrorResponse } from '../../_lib/accessToken'
 import { parseStrictJsonBody } from '../../_lib/strictJson'
 import { adaptFinanceItemRow, financeItemSchema, type FinanceItemRow } from '../shared'
@@ -32,6 +33,7 @@ const requestBodySchema = z
       })
       .optional(),
     imageUrl: z.literal(null).optional(),
+    category: expenseCategorySchema.nullable().optional(),
   })
   .strict()
 
@@ -96,6 +98,7 @@ export async function GET(request: NextRequest, context: HandlerContext) {
         eb.ref('v.startDate').as('startDate'),
         eb.ref('v.createdAt').as('createdAt'),
         eb.ref('v.updatedAt').as('updatedAt'),
+        eb.ref('v.category').as('category'),
       ])
       .where('v.trainerId', '=', authorization.trainerId)
       .where('v.id', '=', financeItemId)
@@ -214,6 +217,7 @@ export async function PUT(request: NextRequest, context: HandlerContext) {
         eb.ref('v.startDate').as('startDate'),
         eb.ref('v.createdAt').as('createdAt'),
         eb.ref('v.updatedAt').as('updatedAt'),
+        eb.ref('v.category').as('category'),
       ])
       .where('v.trainerId', '=', authorization.trainerId)
       .where('v.id', '=', financeItemId)
@@ -270,6 +274,7 @@ export async function PUT(request: NextRequest, context: HandlerContext) {
       amount: number
       start_date: Date
       image_url: null
+      category: string | null
     }> = {}
 
     if (parsedBody.name !== undefined) {
@@ -284,6 +289,9 @@ export async function PUT(request: NextRequest, context: HandlerContext) {
     if (parsedBody.imageUrl !== undefined) {
       updates.image_url = parsedBody.imageUrl
     }
+    if (parsedBody.category !== undefined) {
+      updates.category = parsedBody.category
+    }
 
     const updated = await db
       .updateTable('finance_item')
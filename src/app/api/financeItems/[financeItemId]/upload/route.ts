@@ -88,6 +88,7 @@ const fetchFinanceItem = async (trainerId: string, financeItemId: string): Promi
       eb.ref('v.startDate').as('startDate'),
       eb.ref('v.createdAt').as('createdAt'),
       eb.ref('v.updatedAt').as('updatedAt'),
+      eb.ref('v.category').as('category'),
     ])
     .where('v.trainerId', '=', trainerId)
     .where('v.id', '=', financeItemId)
@@ -33,6 +33,7 @@ export const financeItemSchema = z.object({
   paymentType: z.string().nullable().optional(),
   stripeApplicationFeeId: z.string().nullable().optional(),
   startDate: isoDateTimeString.optional(),
+  category: z.string().nullable().optional(),
   notes: z.array(financeItemNoteSchema).optional(),
   createdAt: isoDateTimeString.optional(),
   updatedAt: isoDateTimeString.optional(),
@@ -52,6 +53,7 @@ export type FinanceItemRow = {
   startDate: Date | string | null
   createdAt: Date | string | null
   updatedAt: Date | string | null
+  category?: string | null
   notes?: unknown
 }
 
@@ -134,6 +136,7 @@ export const adaptFinanceItemRow = (row: FinanceItemRow): z.input<typeof finance
   const status = parseNullableString(row.status)
   const paymentType = parseNullableString(row.paymentType)
   const stripeApplicationFeeId = parseNullableString(row.stripeApplicationFeeId)
+  const category = parseNullableString(row.category)
   const notes = parseNotes(row.notes)
 
   const adapted: z.input<typeof financeItemSchema> = {
@@ -144,6 +147,7 @@ export const adaptFinanceItemRow = (row: FinanceItemRow): z.input<typeof finance
     status,
     paymentType,
     stripeApplicationFeeId,
+    category,
   }
 
   if (notes.length > 0) {
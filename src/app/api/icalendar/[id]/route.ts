@@ -4,7 +4,16 @@ import fs from 'node:fs'
 import path from 'node:path'
 import parseInterval from 'postgres-interval'
 import { z } from 'zod'
+import { formatRecurrenceRule, RecurrenceRuleError } from '@/lib/dates/recurrence'
+import { type LocalDateTime, utcToLocalDateTime } from '@/lib/dates/timezone'
 import { db } from '@/lib/db'
+import {
+  expandSeriesOccurrences,
+  isUnboundedSeriesRecurrence,
+  resolveSeriesRecurrence,
+  type SeriesOccurrence,
+  type SeriesRecurrence,
+} from '@/server/sessionSeriesRecurrence'
 import { buildErrorResponse } from '../../_lib/accessToken'
 
 const paramsSchema = z.object({
@@ -21,6 +30,9 @@ const calendarRowSchema = z.object({
   dtend: z.string(),
   description: z.string(),
   summary: z.string(),
+  rrule: z.string().optional(),
+  exdates: z.array(z.string()).optional(),
+  recurrenceId: z.string().optional(),
 })
 
 type CalendarRow = z.infer<typeof calendarRowSchema>
@@ -182,6 +194,13 @@ const intervalToMilliseconds = (value: unknown) => {
   return totalDays * 24 * 60 * 60 * 1000 + hours * 60 * 60 * 1000 + minutes * 60 * 1000 + seconds * 1000 + milliseconds
 }
 
+const buildRecurrenceLines = (row: CalendarRow) =>
+  [
+    row.recurrenceId ? `\nRECURRENCE-ID;TZID=${row.timezone}:${row.recurrenceId}` : '',
+    row.rrule ? `\nRRULE:${row.rrule}` : '',
+    row.exdates && row.exdates.length > 0 ? `\nEXDATE;TZID=${row.timezone}:${row.exdates.join(',')}` : '',
+  ].join('')
+
 const buildEventBlock = (row: CalendarRow) => `BEGIN:VEVENT
 DTSTAMP:${escapeNewlines(row.dtstamp)}
 UID:${escapeNewlines(row.id)}
@@ -190,9 +209,141 @@ DESCRIPTION:${escapeNewlines(row.description)}
 LOCATION:${escapeNewlines(row.location)}
 SUMMARY:${escapeNewlines(row.summary)}
 DTSTART;TZID=${row.timezone}:${escapeNewlines(row.dtstart)}
-DTEND;TZID=${row.timezone}:${escapeNewlines(row.dtend)}
+DTEND;TZID=${row.timezone}:${escapeNewlines(row.dtend)}${buildRecurrenceLines(row)}
 END:VEVENT`
 
+type SeriesRecurrenceRow = {
+  seriesId: string
+  seriesStart: Date | string
+  seriesEnd: Date | string | null
+  seriesTimezone: string
+  seriesCreatedAt: Date | string
+  recurrenceRule: string | null
+  recurrenceExdates: string[]
+}
+
+type SessionCalendarRow = {
+  row: CalendarRow
+  recurrenceId: Date | null
+  durationMs: number
+}
+
+const formatIcsLocalDateTime = (value: LocalDateTime) =>
+  `${padNumber(value.year, 4)}${padNumber(value.month)}${padNumber(value.day)}T${padNumber(value.hour)}${padNumber(
+    value.minute
+  )}${padNumber(value.second)}`
+
+const isSameEventContent = (left: CalendarRow, right: CalendarRow) =>
+  left.dtstart === right.dtstart &&
+  left.dtend === right.dtend &&
+  left.location === right.location &&
+  left.summary === right.summary &&
+  left.description === right.description
+
+/**
+ * Collapses the sessions of a rule-based series into one recurring VEVENT driven by the stored RRULE. Sessions that
+ * were moved or edited become RECURRENCE-ID overrides, deleted occurrences become EXDATEs, and anything that cannot
+ * be matched back to the rule is kept as a standalone event.
+ */
+const buildSeriesCalendarRows = (
+  series: SeriesRecurrenceRow,
+  sessionRows: SessionCalendarRow[],
+  dtstamp: string
+): CalendarRow[] => {
+  const timeZone = series.seriesTimezone
+  const seriesStart = new Date(series.seriesStart)
+
+  let recurrence: SeriesRecurrence
+  let occurrences: SeriesOccurrence[]
+
+  try {
+    recurrence = resolveSeriesRecurrence({
+      recurrenceRule: series.recurrenceRule,
+      exdates: series.recurrenceExdates,
+    })
+    occurrences = expandSeriesOccurrences({
+      recurrence,
+      start: utcToLocalDateTime(seriesStart, timeZone),
+      end:
+        isUnboundedSeriesRecurrence(recurrence) && series.seriesEnd
+          ? utcToLocalDateTime(new Date(series.seriesEnd), timeZone)
+          : null,
+      timeZone,
+    })
+  } catch (error) {
+    if (!(error instanceof RecurrenceRuleError)) {
+      throw error
+    }
+    console.error('Failed to expand session series recurrence for iCalendar feed', { series: series.seriesId, error })
+    return sessionRows.map(({ row }) => row)
+  }
+
+  if (!recurrence.rule) {
+    return sessionRows.map(({ row }) => row)
+  }
+
+  const occurrenceTimes = new Set(occurrences.map((occurrence) => occurrence.start.getTime()))
+
+  const matched: (SessionCalendarRow & { recurrenceId: Date })[] = []
+  const unmatched: SessionCalendarRow[] = []
+  for (const entry of sessionRows) {
+    if (entry.recurrenceId && occurrenceTimes.has(entry.recurrenceId.getTime())) {
+      matched.push({ ...entry, recurrenceId: entry.recurrenceId })
+    } else {
+      unmatched.push(entry)
+    }
+  }
+
+  const template = matched.find(({ recurrenceId }) => recurrenceId.getTime() === seriesStart.getTime()) ?? matched[0]
+
+  if (!template) {
+    return sessionRows.map(({ row }) => row)
+  }
+
+  const masterFor = (start: Date): CalendarRow => ({
+    ...template.row,
+    dtstart: formatIcsLocal(start, timeZone),
+    dtend: formatIcsLocal(new Date(start.getTime() + template.durationMs), timeZone),
+  })
+
+  const matchedTimes = new Set(matched.map(({ recurrenceId }) => recurrenceId.getTime()))
+  const exdates = [
+    ...recurrence.exdates.map(formatIcsLocalDateTime),
+    ...occurrences
+      .filter((occurrence) => !matchedTimes.has(occurrence.start.getTime()))
+      .map((occurrence) => formatIcsLocalDateTime(occurrence.local)),
+  ]
+
+  const master: CalendarRow = {
+    ...masterFor(seriesStart),
+    id: series.seriesId,
+    dtstamp,
+    created: formatIcsUtc(new Date(series.seriesCreatedAt)),
+    rrule: formatRecurrenceRule(
+      // Calendars only know when the series stops from the rule itself, so an open-ended rule is cut off at the
+      // series end.
+      isUnboundedSeriesRecurrence(recurrence) && series.seriesEnd
+        ? {
+            ...recurrence.rule,
+            until: { dateTime: utcToLocalDateTime(new Date(series.seriesEnd), 'UTC'), isUtc: true },
+          }
+        : recurrence.rule,
+      timeZone
+    ),
+    exdates: Array.from(new Set(exdates)).toSorted(),
+  }
+
+  const overrides = matched
+    .filter(({ row, recurrenceId }) => !isSameEventContent(row, masterFor(recurrenceId)))
+    .map(({ row, recurrenceId }) => ({
+      ...row,
+      id: series.seriesId,
+      recurrenceId: formatIcsLocal(recurrenceId, timeZone),
+    }))
+
+  return [master, ...overrides, ...unmatched.map(({ row }) => row)]
+}
+
 const resolveProdIdHost = () => {
   const base = process.env.BASE_URL ?? 'http://localhost:3000'
   try {
@@ -252,6 +403,14 @@ export async function GET(_request: Request, context: HandlerContext) {
         eb.ref('session.note').as('note'),
         eb.ref('session_series.name').as('seriesName'),
         eb.ref('session_series.event_type').as('eventType'),
+        eb.ref('session.recurrence_id').as('recurrenceId'),
+        eb.ref('session_series.id').as('seriesId'),
+        eb.ref('session_series.start').as('seriesStart'),
+        eb.ref('session_series.end_').as('seriesEnd'),
+        eb.ref('session_series.timezone').as('seriesTimezone'),
+        eb.ref('session_series.created_at').as('seriesCreatedAt'),
+        eb.ref('session_series.recurrence_rule').as('recurrenceRule'),
+        eb.ref('session_series.recurrence_exdates').as('recurrenceExdates'),
       ])
       .where('session_series.trainer_id', '=', trainer.id)
       .execute()
@@ -295,27 +454,36 @@ export async function GET(_request: Request, context: HandlerContext) {
 
     const dtstamp = formatIcsUtc(new Date())
 
-    const calendarRows = z.array(calendarRowSchema).parse(
-      sessions.map((session) => {
-        const start = session.start instanceof Date ? session.start : new Date(session.start)
-        const createdAt = session.createdAt instanceof Date ? session.createdAt : new Date(session.createdAt)
-        const durationMs = intervalToMilliseconds(session.duration)
-        const end = new Date(start.getTime() + durationMs)
-
-        const clientName = clientNameBySessionId.get(session.id)
-        const summary =
-          session.seriesName ??
-          (session.eventType === 'single_session'
-            ? clientName
-              ? `${clientName} - Appointment`
-              : 'Appointment'
-            : session.eventType === 'group_session'
-              ? 'Group Appointment'
-              : 'Event')
-
-        const description = `${session.note ?? ''}\nThis is a Keepon appointment, please edit this event in the Keepon app.`
-
-        return {
+    const seriesRows = new Map<string, { series: SeriesRecurrenceRow; sessionRows: SessionCalendarRow[] }>()
+
+    for (const session of sessions) {
+      const entry = seriesRows.get(session.seriesId) ?? { series: session, sessionRows: [] }
+      seriesRows.set(session.seriesId, entry)
+
+      const start = session.start instanceof Date ? session.start : new Date(session.start)
+      const createdAt = session.createdAt instanceof Date ? session.createdAt : new Date(session.createdAt)
+      const durationMs = intervalToMilliseconds(session.duration)
+      const end = new Date(start.getTime() + durationMs)
+
+      const clientName = clientNameBySessionId.get(session.id)
+      const summary =
+        session.seriesName ??
+        (session.eventType === 'single_session'
+          ? clientName
+            ? `${clientName} - Appointment`
+            : 'Appointment'
+          : session.eventType === 'group_session'
+            ? 'Group Appointment'
+            : 'Event')
+
+      const description = `${session.note ?? ''}\nThis is a Keepon appointment, please edit this event in the Keepon app.`
+
+      entry.sessionRows.push({
+        // Overrides are written in the series timezone, so sessions moved to another zone stay standalone.
+        recurrenceId:
+          session.recurrenceId && session.timezone === session.seriesTimezone ? new Date(session.recurrenceId) : null,
+        durationMs,
+        row: {
           timezone: session.timezone,
           dtstamp,
           id: session.id,
@@ -325,9 +493,17 @@ export async function GET(_request: Request, context: HandlerContext) {
           dtend: formatIcsLocal(end, session.timezone),
           description,
           summary,
-        }
+        },
       })
-    )
+    }
+
+    const calendarRows = z
+      .array(calendarRowSchema)
+      .parse(
+        Array.from(seriesRows.values()).flatMap(({ series, sessionRows }) =>
+          buildSeriesCalendarRows(series, sessionRows, dtstamp)
+        )
+      )
 
     const timeZoneInfo = loadTimeZoneInfo()
     const uniqueTimeZones = Array.from(new Set(calendarRows.map((row) => row.timezone)))
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { fetchMessageEngagement } from '@/server/communications'
+import { authenticateTrainerRequest, buildErrorResponse } from '../_lib/accessToken'
+
+const querySchema = z.object({
+  since: z.string().datetime({ offset: true, message: 'since must be an ISO date-time' }).optional(),
+  until: z.string().datetime({ offset: true, message: 'until must be an ISO date-time' }).optional(),
+})
+
+export async function GET(request: Request) {
+  const url = new URL(request.url)
+  const parsedQuery = querySchema.safeParse({
+    since: url.searchParams.get('since')?.trim() || undefined,
+    until: url.searchParams.get('until')?.trim() || undefined,
+  })
+
+  if (!parsedQuery.success) {
+    const detail = parsedQuery.error.issues.map((issue) => issue.message).join('; ')
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid query parameters',
+        detail: detail || 'Request query parameters did not match the expected schema.',
+        type: '/invalid-query',
+      }),
+      { status: 400 }
+    )
+  }
+
+  const authorization = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while fetching message engagement',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  const { since, until } = parsedQuery.data
+
+  try {
+    const engagement = await fetchMessageEngagement(db, authorization.trainerId, {
+      since: since ? new Date(since) : null,
+      until: until ? new Date(until) : null,
+    })
+
+    return NextResponse.json(engagement)
+  } catch (error) {
+    console.error('Failed to fetch message engagement', { trainerId: authorization.trainerId, error })
+
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 500,
+        title: 'Failed to fetch message engagement',
+        type: '/internal-server-error',
+      }),
+      { status: 500 }
+    )
+  }
+}
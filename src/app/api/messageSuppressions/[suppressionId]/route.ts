@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import {
+  liftClientSuppression,
+  MessageSuppressionNotFoundError,
+  MessageSuppressionOptedOutError,
+} from '@/server/messageSuppressions'
+import { authenticateTrainerRequest, buildErrorResponse } from '../../_lib/accessToken'
+
+const paramsSchema = z.object({
+  suppressionId: z.string().trim().uuid('Suppression id must be a valid UUID.'),
+})
+
+type HandlerContext = RouteContext<'/api/messageSuppressions/[suppressionId]'>
+
+/** Lifts a suppression so the client's address can be emailed or texted again. */
+export async function DELETE(request: Request, context: HandlerContext) {
+  const paramsResult = paramsSchema.safeParse(await context.params)
+
+  if (!paramsResult.success) {
+    const detail = paramsResult.error.issues.map((issue) => issue.message).join('; ')
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid path parameters',
+        detail: detail || 'Suppression id parameter did not match the expected schema.',
+        type: '/invalid-path-parameters',
+      }),
+      { status: 400 }
+    )
+  }
+
+  const authorization = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while lifting message suppression',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  const { suppressionId } = paramsResult.data
+
+  try {
+    await liftClientSuppression(db, authorization.trainerId, suppressionId)
+
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    if (error instanceof MessageSuppressionNotFoundError) {
+      return NextResponse.json(
+        buildErrorResponse({
+          status: 404,
+          title: 'Message suppression not found',
+          type: '/resource-not-found',
+        }),
+        { status: 404 }
+      )
+    }
+
+    if (error instanceof MessageSuppressionOptedOutError) {
+      return NextResponse.json(
+        buildErrorResponse({
+          status: 409,
+          title: 'Client opted out of texts',
+          detail: 'The client replied STOP. They can text START to opt back in.',
+          type: '/client-opted-out',
+        }),
+        { status: 409 }
+      )
+    }
+
+    console.error('Failed to lift message suppression', { trainerId: authorization.trainerId, suppressionId, error })
+
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 500,
+        title: 'Failed to lift message suppression',
+        type: '/internal-server-error',
+      }),
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { listUnreachableClients } from '@/server/messageSuppressions'
+import { authenticateTrainerRequest, buildErrorResponse } from '../_lib/accessToken'
+
+/** The trainer's clients we've stopped emailing or texting because of bounces, complaints or opt-outs. */
+export async function GET(request: Request) {
+  const authorization = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while fetching message suppressions',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  try {
+    const suppressions = await listUnreachableClients(db, authorization.trainerId)
+
+    return NextResponse.json({ suppressions })
+  } catch (error) {
+    console.error('Failed to fetch message suppressions', { trainerId: authorization.trainerId, error })
+
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 500,
+        title: 'Failed to fetch message suppressions',
+        type: '/internal-server-error',
+      }),
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,26 @@
+import { db } from '@/lib/db'
+import { renderWorkflowMetrics } from '@/server/workflow/metrics'
+import { isAuthorizedBySecretToken, readSecretTokens } from '../_lib/secretToken'
+
+/** Prometheus scrape endpoint for the workflow outbox and dispatcher. */
+export async function GET(request: Request) {
+  if (!isAuthorizedBySecretToken(request, readSecretTokens(process.env.METRICS_SECRET))) {
+    return new Response('Unauthorized\n', { status: 401, headers: { 'Content-Type': 'text/plain; charset=utf-8' } })
+  }
+
+  try {
+    const body = await renderWorkflowMetrics(db)
+    return new Response(body, {
+      headers: {
+        'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Failed to collect workflow metrics', error)
+    return new Response('Failed to collect metrics\n', {
+      status: 500,
+      headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+    })
+  }
+}
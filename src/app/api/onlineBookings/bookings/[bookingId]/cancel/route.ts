@@ -3,6 +3,8 @@ import { sql } from 'kysely'
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
 import { db } from '@/lib/db'
+import { refundClientSessionCredits } from '@/server/creditLedger'
+import { promoteWaitlistedClients } from '@/server/sessionWaitlist'
 import { enqueueWorkflowTask } from '@/server/workflow/outbox'
 import { buildErrorResponse } from '../../../../_lib/accessToken'
 import { APP_EMAIL, APP_NAME, NO_REPLY_EMAIL } from '../../../../_lib/constants'
@@ -282,15 +284,20 @@ export async function POST(request: NextRequest, context: HandlerContext) {
           eb.ref('session.timezone').as('timezone'),
           eb.ref('trainer.locale').as('locale'),
           eb.ref('session.start').as('startsAt'),
+          eb.ref('session.id').as('sessionId'),
           eb
-            .and([
-              eb('session.can_clients_cancel', '=', true),
-              eb(
-                sql<Date>`session.start - ${sql.ref('session.cancellation_advance_notice_duration')}`,
-                '>',
-                sql<Date>`now()`
-              ),
-              eb('client_session.state', 'in', ['accepted', 'confirmed', 'maybe']),
+            .or([
+              // Leaving the waitlist doesn't give up a spot, so it isn't subject to the cancellation policy.
+              eb('client_session.state', '=', 'waitlisted'),
+              eb.and([
+                eb('session.can_clients_cancel', '=', true),
+                eb(
+                  sql<Date>`session.start - ${sql.ref('session.cancellation_advance_notice_duration')}`,
+                  '>',
+                  sql<Date>`now()`
+                ),
+                eb('client_session.state', 'in', ['accepted', 'confirmed', 'maybe']),
+              ]),
             ])
             .as('canCancel'),
         ])
@@ -335,7 +342,18 @@ export async function POST(request: NextRequest, context: HandlerContext) {
         throw new CannotCancelBookingError()
       }
 
-      await trx.updateTable('client_session').set({ state: 'cancelled' }).where('booking_id', '=', bookingId).execute()
+      const cancelled = await trx
+        .updateTable('client_session')
+        .set({ state: 'cancelled', waitlist_claim_expires_at: null })
+        .where('booking_id', '=', bookingId)
+        .returning('id')
+        .execute()
+
+      for (const clientSession of cancelled) {
+        await refundClientSessionCredits(trx, clientSession.id)
+      }
+
+      await promoteWaitlistedClients(trx, detailsRow.sessionId)
 
       const formatter = new Intl.DateTimeFormat(details.locale, {
         weekday: 'short',
@@ -396,6 +414,7 @@ export async function POST(request: NextRequest, context: HandlerContext) {
               trainer_id: details.trainerId,
               client_id: details.clientId,
               from_email: NO_REPLY_EMAIL,
+              message_type: 'booking_cancellation',
               from_name: `${details.serviceProviderName} via ${APP_NAME}`,
               to_email: details.clientEmail,
               to_name: details.clientFirstName ?? null,
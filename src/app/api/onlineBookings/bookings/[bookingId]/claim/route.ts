@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import {
+  claimWaitlistSpot,
+  NoPendingWaitlistClaimError,
+  WaitlistClaimExpiredError,
+  WaitlistClaimNotFoundError,
+} from '@/server/sessionWaitlist'
+import { buildErrorResponse } from '../../../../_lib/accessToken'
+
+const paramsSchema = z.object({
+  bookingId: z.string().trim().min(1, 'Booking identifier must not be empty'),
+})
+
+type HandlerContext = { params: Promise<Record<string, string>> }
+
+const createErrorResponse = (status: number, title: string, type: string, detail?: string) =>
+  NextResponse.json(buildErrorResponse({ status, title, detail, type }), { status })
+
+export async function POST(_request: Request, context: HandlerContext) {
+  const paramsResult = paramsSchema.safeParse(await context.params)
+
+  if (!paramsResult.success) {
+    const detail = paramsResult.error.issues.map((issue) => issue.message).join('; ')
+    return createErrorResponse(
+      400,
+      'Invalid booking identifier',
+      '/invalid-parameter',
+      detail || 'Request parameters did not match the expected booking identifier schema.'
+    )
+  }
+
+  const { bookingId } = paramsResult.data
+
+  try {
+    await db.transaction().execute((trx) => claimWaitlistSpot(trx, bookingId))
+
+    return new Response(null, { status: 204 })
+  } catch (error) {
+    if (error instanceof WaitlistClaimNotFoundError) {
+      return createErrorResponse(404, 'Booking not found', '/resource-not-found')
+    }
+
+    if (error instanceof NoPendingWaitlistClaimError) {
+      return createErrorResponse(409, error.message, '/no-waitlist-spot-to-claim')
+    }
+
+    if (error instanceof WaitlistClaimExpiredError) {
+      return createErrorResponse(409, error.message, '/waitlist-claim-expired')
+    }
+
+    console.error('Failed to claim waitlist spot', bookingId, error)
+
+    return createErrorResponse(500, 'Failed to claim waitlist spot', '/internal-server-error')
+  }
+}
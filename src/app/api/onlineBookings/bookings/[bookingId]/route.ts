@@ -31,7 +31,8 @@ const bookingSchema = z.object({
   name: z.string().nullable(),
   canClientsCancel: z.boolean(),
   cancellationAdvanceNoticeDuration: z.string(),
-  state: z.enum(['maybe', 'cancelled', 'invited', 'confirmed', 'accepted', 'declined']),
+  state: z.enum(['maybe', 'cancelled', 'invited', 'confirmed', 'accepted', 'declined', 'waitlisted']),
+  claimExpiresAt: z.string().nullable(),
 })
 
 type BookingRow = z.infer<typeof bookingSchema>
@@ -83,6 +84,7 @@ export async function GET(_request: NextRequest, context: HandlerContext) {
         eb.ref('session_series.name').as('name'),
         eb.ref('session.can_clients_cancel').as('canClientsCancel'),
         eb.ref('client_session.state').as('state'),
+        eb.ref('client_session.waitlist_claim_expires_at').as('claimExpiresAt'),
         eb.ref('session.cancellation_advance_notice_duration').as('cancellationAdvanceNoticeDuration'),
         eb.ref('payment.created_at').as('paidAt'),
         eb.ref('payment.refunded_time').as('refundedAt'),
@@ -115,6 +117,7 @@ export async function GET(_request: NextRequest, context: HandlerContext) {
               ? bookingRow.cancellationAdvanceNoticeDuration
               : '',
           state: bookingRow.state,
+          claimExpiresAt: bookingRow.claimExpiresAt ? new Date(bookingRow.claimExpiresAt).toISOString() : null,
         }
       : null
 
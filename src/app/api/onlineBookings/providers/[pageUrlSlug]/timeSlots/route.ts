@@ -0,0 +1,153 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { addDaysToLocalDateTime, compareLocalDateTimes, utcToLocalDateTime } from '@/lib/dates/timezone'
+import { db } from '@/lib/db'
+import {
+  formatLocalIsoDate,
+  listServiceTimeSlots,
+  loadServiceBookingContext,
+  parseIsoDateToLocalMidnight,
+} from '@/server/bookingAvailability'
+import { buildErrorResponse } from '../../../../_lib/accessToken'
+
+const DEFAULT_RANGE_DAYS = 7
+const MAX_RANGE_DAYS = 62
+
+type HandlerContext = { params: Promise<Record<string, string>> }
+
+const paramsSchema = z.object({
+  pageUrlSlug: z.string().trim().min(1, 'Page URL slug must not be empty'),
+})
+
+const isoDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be in YYYY-MM-DD format')
+  .refine((value) => {
+    const date = new Date(`${value}T00:00:00Z`)
+    return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value)
+  }, 'Dates must be valid calendar dates')
+
+const querySchema = z.object({
+  serviceId: z.string().uuid('serviceId must be a valid UUID'),
+  from: isoDateSchema.optional(),
+  to: isoDateSchema.optional(),
+})
+
+const timeSlotsResponseSchema = z.object({
+  serviceId: z.string(),
+  timezone: z.string(),
+  from: z.string(),
+  to: z.string(),
+  timeSlots: z.array(
+    z.object({
+      date: z.string(),
+      startTime: z.string(),
+      endTime: z.string(),
+    })
+  ),
+})
+
+const createErrorResponse = (status: number, title: string, type: string, detail?: string) =>
+  NextResponse.json(buildErrorResponse({ status, title, detail, type }), { status })
+
+export async function GET(request: Request, context: HandlerContext) {
+  const parsedParams = paramsSchema.safeParse(await context.params)
+
+  if (!parsedParams.success) {
+    const detail = parsedParams.error.issues.map((issue) => issue.message).join('; ')
+    return createErrorResponse(
+      400,
+      'Invalid path parameters',
+      '/invalid-path-parameters',
+      detail || 'Request path parameters did not match the expected schema.'
+    )
+  }
+
+  const url = new URL(request.url)
+  const parsedQuery = querySchema.safeParse({
+    serviceId: url.searchParams.get('serviceId') ?? undefined,
+    from: url.searchParams.get('from') ?? undefined,
+    to: url.searchParams.get('to') ?? undefined,
+  })
+
+  if (!parsedQuery.success) {
+    const detail = parsedQuery.error.issues.map((issue) => issue.message).join('; ')
+    return createErrorResponse(
+      400,
+      'Invalid query parameters',
+      '/invalid-query-parameters',
+      detail || 'Request query parameters did not match the expected schema.'
+    )
+  }
+
+  const { pageUrlSlug } = parsedParams.data
+  const { serviceId } = parsedQuery.data
+
+  try {
+    const trainer = await db
+      .selectFrom('trainer')
+      .select('trainer.id')
+      .where('trainer.online_bookings_page_url_slug', '=', pageUrlSlug)
+      .executeTakeFirst()
+
+    const bookingContext = trainer ? await loadServiceBookingContext(db, serviceId) : null
+
+    if (!trainer || !bookingContext || bookingContext.trainerId !== trainer.id || !bookingContext.bookableOnline) {
+      return createErrorResponse(404, 'Service not found', '/resource-not-found')
+    }
+
+    const from = parsedQuery.data.from ?? formatLocalIsoDate(utcToLocalDateTime(new Date(), bookingContext.timezone))
+    const fromDate = parseIsoDateToLocalMidnight(from)
+    const to = parsedQuery.data.to ?? formatLocalIsoDate(addDaysToLocalDateTime(fromDate, DEFAULT_RANGE_DAYS - 1))
+    const toDate = parseIsoDateToLocalMidnight(to)
+
+    if (compareLocalDateTimes(toDate, fromDate) < 0) {
+      return createErrorResponse(
+        400,
+        'Invalid query parameters',
+        '/invalid-query-parameters',
+        'to must not be before from.'
+      )
+    }
+
+    if (compareLocalDateTimes(toDate, addDaysToLocalDateTime(fromDate, MAX_RANGE_DAYS - 1)) > 0) {
+      return createErrorResponse(
+        400,
+        'Invalid query parameters',
+        '/invalid-query-parameters',
+        `The date range must not exceed ${MAX_RANGE_DAYS} days.`
+      )
+    }
+
+    const timeSlots = bookingContext.onlineBookingsEnabled
+      ? await listServiceTimeSlots(db, bookingContext, from, to)
+      : []
+
+    const response = timeSlotsResponseSchema.parse({
+      serviceId: bookingContext.serviceId,
+      timezone: bookingContext.timezone,
+      from,
+      to,
+      timeSlots: timeSlots.map((slot) => ({
+        date: slot.date,
+        startTime: slot.start.toISOString(),
+        endTime: slot.end.toISOString(),
+      })),
+    })
+
+    return NextResponse.json(response)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return createErrorResponse(
+        500,
+        'Failed to parse availability data from database',
+        '/invalid-response',
+        'Availability data did not match the expected schema.'
+      )
+    }
+
+    console.error('Failed to fetch online booking time slots', { pageUrlSlug, serviceId, error })
+
+    return createErrorResponse(500, 'Failed to fetch online booking time slots', '/internal-server-error')
+  }
+}
@@ -4,7 +4,20 @@ import { NextResponse } from 'next/server'
 import Stripe from 'stripe'
 import { z, ZodError } from 'zod'
 import { db, type Selectable, type VwLegacyPlanPayment } from '@/lib/db'
+import {
+  PaymentAlreadyRefundedError,
+  proRateApplicationFee,
+  recordPlanPaymentRefund,
+  resolveRefundAmount,
+  sumRefundedApplicationFees,
+} from '@/server/paymentRefunds'
 import { authenticateTrainerRequest, buildErrorResponse } from '../../../_lib/accessToken'
+import {
+  createInvalidRefundBodyResponse,
+  createRefundConflictResponse,
+  refundRequestSchema,
+} from '../../../_lib/paymentRefunds'
+import { parseStrictJsonBody } from '../../../_lib/strictJson'
 import { getStripeClient, STRIPE_API_VERSION } from '../../../_lib/stripeClient'
 import { planPaymentSchema, planPaymentStatusSchema } from '../../../plans/shared'
 
@@ -12,17 +25,6 @@ const paramsSchema = z.object({
   paymentPlanPaymentId: z.string().trim().min(1, 'Payment plan payment id is required'),
 })
 
-const LEGACY_INVALID_JSON_MESSAGE = 'Unexpected token \'"\\", "#" is not valid JSON'
-
-const createLegacyInvalidJsonResponse = () =>
-  NextResponse.json(
-    buildErrorResponse({
-      status: 400,
-      title: LEGACY_INVALID_JSON_MESSAGE,
-    }),
-    { status: 400 }
-  )
-
 type HandlerContext = { params: Promise<Record<string, string>> }
 
 class PlanPaymentNotFoundError extends Error {
@@ -32,13 +34,6 @@ class PlanPaymentNotFoundError extends Error {
   }
 }
 
-class PaymentAlreadyRefundedError extends Error {
-  constructor() {
-    super('Payment has already been refunded')
-    this.name = 'PaymentAlreadyRefundedError'
-  }
-}
-
 class CantRefundNonPaidError extends Error {
   constructor() {
     super('Cannot refund a non-paid plan payment')
@@ -71,6 +66,7 @@ const stripeDetailsSchema = z
   .object({
     status: planPaymentStatusSchema,
     amount: z.union([z.string(), z.number()]),
+    amountRefunded: z.union([z.string(), z.number()]),
     stripeChargeId: z.string().nullable(),
     stripePaymentIntentId: z.string().nullable(),
     stripeAccountId: z.string().nullable(),
@@ -161,7 +157,11 @@ const ensureDate = (value: Date | string | null | undefined, label: string): Dat
   throw new Error(`Invalid ${label}`)
 }
 
-const adaptPlanPaymentRow = (row: RawPlanPayment) => {
+const refundedPlanPaymentSchema = planPaymentSchema.extend({
+  amountRefunded: z.number(),
+})
+
+const adaptPlanPaymentRow = (row: RawPlanPayment, amountRefunded: number) => {
   if (!row.id || !row.planId || !row.currency) {
     throw new Error('Plan payment row is missing required identifiers')
   }
@@ -175,7 +175,7 @@ const adaptPlanPaymentRow = (row: RawPlanPayment) => {
     throw new Error('Plan payment row has unsupported status')
   }
 
-  return planPaymentSchema.parse({
+  return refundedPlanPaymentSchema.parse({
     id: row.id,
     planId: row.planId,
     currency: row.currency,
@@ -183,20 +183,23 @@ const adaptPlanPaymentRow = (row: RawPlanPayment) => {
     amount: ensureNumber(row.amount, 'amount'),
     outstandingAmount: ensureNumber(row.outstandingAmount, 'outstanding amount'),
     date: ensureDate(row.date, 'date').toISOString(),
+    amountRefunded,
   })
 }
 
+/**
+ * Refunds all or part of a paid plan payment. Without an amount, refunds whatever hasn't been refunded yet. The
+ * payment only becomes 'refunded' once its whole amount has been given back.
+ */
 export async function PUT(request: NextRequest, context: HandlerContext) {
-  const rawBodyText = await request.text()
-  if (rawBodyText.trim().length > 0) {
-    try {
-      const parsed = JSON.parse(rawBodyText)
-      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
-        return createLegacyInvalidJsonResponse()
-      }
-    } catch {
-      return createLegacyInvalidJsonResponse()
-    }
+  const parsedJson = await parseStrictJsonBody(request)
+  if (!parsedJson.ok) {
+    return parsedJson.response
+  }
+
+  const bodyResult = refundRequestSchema.safeParse(parsedJson.data)
+  if (!bodyResult.success) {
+    return createInvalidRefundBodyResponse(bodyResult.error)
   }
 
   const paramsResult = paramsSchema.safeParse(await context.params)
@@ -224,6 +227,7 @@ export async function PUT(request: NextRequest, context: HandlerContext) {
   }
 
   const { paymentPlanPaymentId } = paramsResult.data
+  const { reason } = bodyResult.data
 
   try {
     const planPayment = await db.transaction().execute(async (trx) => {
@@ -240,6 +244,7 @@ export async function PUT(request: NextRequest, context: HandlerContext) {
         .select((eb) => [
           eb.ref('paymentPlanPayment.status').as('status'),
           eb.ref('paymentPlanPayment.amount').as('amount'),
+          eb.ref('paymentPlanPayment.amount_refunded').as('amountRefunded'),
           eb.ref('paymentPlanPayment.fee').as('applicationFeeAmount'),
           eb.ref('paymentPlanCharge.stripe_charge_id').as('stripeChargeId'),
           eb.ref('paymentPlanCharge.stripe_payment_intent_id').as('stripePaymentIntentId'),
@@ -249,6 +254,7 @@ export async function PUT(request: NextRequest, context: HandlerContext) {
         ])
         .where('paymentPlanPayment.id', '=', paymentPlanPaymentId)
         .where('paymentPlanPayment.trainer_id', '=', authorization.trainerId)
+        .forUpdate('paymentPlanPayment')
         .executeTakeFirst()
 
       const stripeAccountValue = rawDetails?.stripeAccountObject
@@ -279,23 +285,26 @@ export async function PUT(request: NextRequest, context: HandlerContext) {
         throw new CantRefundNonPaidError()
       }
 
-      await trx
-        .updateTable('payment_plan_payment')
-        .set({
-          status: 'refunded',
-          amount_outstanding: details.amount,
-        })
-        .where('id', '=', paymentPlanPaymentId)
-        .where('trainer_id', '=', authorization.trainerId)
-        .execute()
-
       const stripeChargeId = details.stripeChargeId ?? undefined
       const stripePaymentIntentId = details.stripePaymentIntentId ?? undefined
 
-      const refundAmount = toBigNumber(details.amount, 'payment amount')
-      const applicationFeeAmount = toBigNumberOrZero(details.applicationFeeAmount, 'application fee amount')
+      const paymentAmount = toBigNumber(details.amount, 'payment amount')
+      const { refundAmount, refundsInFull } = resolveRefundAmount(
+        paymentAmount,
+        details.amountRefunded,
+        bodyResult.data.amount
+      )
+      const applicationFeeAmount = proRateApplicationFee({
+        fee: toBigNumberOrZero(details.applicationFeeAmount, 'application fee amount'),
+        amount: paymentAmount,
+        refundAmount,
+        refundsInFull,
+        feeRefunded: await sumRefundedApplicationFees(trx, 'payment_plan_payment_id', paymentPlanPaymentId),
+      })
       const minimumBalanceAmount = toBigNumberOrZero(details.minimumBalance, 'minimum balance')
 
+      let stripeRefundId: string | null = null
+
       if (stripeChargeId || stripePaymentIntentId) {
         const stripeClient = getStripeClient()
 
@@ -331,12 +340,14 @@ export async function PUT(request: NextRequest, context: HandlerContext) {
           reason: 'requested_by_customer',
           refund_application_fee: true,
           reverse_transfer: stripeAccountType !== 'standard',
+          metadata: reason ? { reason } : undefined,
         }
 
         const refund = await stripeClient.refunds.create(
           refundOptions,
           stripeAccountType === 'standard' ? { stripeAccount: stripeAccountId } : undefined
         )
+        stripeRefundId = refund.id
 
         try {
           await trx
@@ -356,6 +367,16 @@ export async function PUT(request: NextRequest, context: HandlerContext) {
         }
       }
 
+      await recordPlanPaymentRefund(trx, {
+        paymentPlanPaymentId,
+        trainerId: authorization.trainerId,
+        amount: refundAmount,
+        applicationFeeAmount,
+        reason,
+        stripeRefundId,
+        refundsInFull,
+      })
+
       const planPaymentRow = (await trx
         .selectFrom('vw_legacy_plan_payment as planPayment')
         .selectAll('planPayment')
@@ -366,7 +387,7 @@ export async function PUT(request: NextRequest, context: HandlerContext) {
         throw new PlanPaymentNotFoundError()
       }
 
-      return adaptPlanPaymentRow(planPaymentRow)
+      return adaptPlanPaymentRow(planPaymentRow, new BigNumber(details.amountRefunded).plus(refundAmount).toNumber())
     })
 
     return NextResponse.json(planPayment)
@@ -382,16 +403,9 @@ export async function PUT(request: NextRequest, context: HandlerContext) {
       )
     }
 
-    if (error instanceof PaymentAlreadyRefundedError) {
-      return NextResponse.json(
-        buildErrorResponse({
-          status: 409,
-          title: 'Payment already refunded',
-          detail: 'This plan payment has already been refunded.',
-          type: '/cant-refund-refunded',
-        }),
-        { status: 409 }
-      )
+    const conflictResponse = createRefundConflictResponse(error)
+    if (conflictResponse) {
+      return conflictResponse
     }
 
     if (error instanceof CantRefundNonPaidError) {
@@ -4,6 +4,7 @@ import { z } from 'zod'
 import { db } from '@/lib/db'
 import { intervalFromMinutes, toPoint } from '@/lib/db/values'
 import { getProductById, moneyString } from '@/server/products'
+import { taxModeSchema } from '@/server/salesTax'
 import { authenticateTrainerRequest, buildErrorResponse } from '../../_lib/accessToken'
 import { parseStrictJsonBody } from '../../_lib/strictJson'
 
@@ -68,6 +69,7 @@ const geoSchema = z
 const patchRequestBodySchema = z
   .object({
     price: priceSchema.optional(),
+    taxMode: taxModeSchema.optional(),
     name: z.string().trim().min(1, 'Name is required').optional(),
     description: descriptionSchema,
     durationMinutes: z.number().int().min(1).optional(),
@@ -78,10 +80,17 @@ const patchRequestBodySchema = z
     bookableOnline: z.boolean().optional(),
     showPriceOnline: z.boolean().optional(),
     totalCredits: z.number().int().min(0).optional(),
+    expiryDays: z.number().int().min(1).nullable().optional(),
+    frequencyWeeks: z.number().int().min(1).max(4).optional(),
+    sessionsPerPeriod: z.number().int().min(1).optional(),
+    rolloverLimit: z.number().int().min(0).optional(),
+    serviceIds: z.array(z.string().uuid()).min(1, 'A membership must include at least one service').optional(),
     bookingPaymentType: z.enum(['hidePrice', 'noPrepayment', 'fullPrepayment']).optional(),
     bufferMinutesBefore: z.number().int().min(0).optional(),
     bufferMinutesAfter: z.number().int().min(0).optional(),
     timeSlotFrequencyMinutes: z.number().int().min(1).optional(),
+    noShowFee: priceSchema.nullable().optional(),
+    lateCancelFee: priceSchema.nullable().optional(),
     displayOrder: z.number().int().nullable().optional(),
     image0Url: z.union([z.string(), z.null()]).optional(),
     image1Url: z.union([z.string(), z.null()]).optional(),
@@ -99,6 +108,7 @@ const patchRequestBodySchema = z
 
 class UpdatedGalleryImageMustExistError extends Error {}
 class MustUpdateImageUsingUploadError extends Error {}
+class UnknownServiceError extends Error {}
 
 type HandlerContext = { params: Promise<{ productId: string }> }
 
@@ -293,6 +303,7 @@ export async function PATCH(request: NextRequest, context: HandlerContext) {
           eb.ref('product.is_credit_pack').as('isCreditPack'),
           eb.ref('product.is_item').as('isItem'),
           eb.ref('product.is_service').as('isService'),
+          eb.ref('product.is_membership').as('isMembership'),
           eb.ref('service.cover_image_url').as('coverImageUrl'),
           eb.ref('service.icon_url').as('iconUrl'),
           eb.ref('service.image_0_url').as('image0Url'),
@@ -312,6 +323,7 @@ export async function PATCH(request: NextRequest, context: HandlerContext) {
 
       const isService = productRow.isService === true
       const isCreditPack = productRow.isCreditPack === true
+      const isMembership = productRow.isMembership === true
 
       if (isService) {
         const {
@@ -326,6 +338,8 @@ export async function PATCH(request: NextRequest, context: HandlerContext) {
           bufferMinutesBefore,
           bufferMinutesAfter,
           timeSlotFrequencyMinutes,
+          noShowFee,
+          lateCancelFee,
           image0Url,
           image1Url,
           image2Url,
@@ -423,6 +437,14 @@ export async function PATCH(request: NextRequest, context: HandlerContext) {
           serviceUpdate.time_slot_frequency_minutes = timeSlotFrequencyMinutes
         }
 
+        if (noShowFee !== undefined) {
+          serviceUpdate.no_show_fee = noShowFee
+        }
+
+        if (lateCancelFee !== undefined) {
+          serviceUpdate.late_cancel_fee = lateCancelFee
+        }
+
         if (coverImageUrl !== undefined) {
           serviceUpdate.cover_image_url = coverImageUrl
         }
@@ -477,21 +499,68 @@ export async function PATCH(request: NextRequest, context: HandlerContext) {
         }
       }
 
-      if (isCreditPack && parsedBody.totalCredits !== undefined) {
+      if (isCreditPack && (parsedBody.totalCredits !== undefined || parsedBody.expiryDays !== undefined)) {
         await trx
           .updateTable('credit_pack')
-          .set({ total_credits: parsedBody.totalCredits })
+          .set({ total_credits: parsedBody.totalCredits, expiry_days: parsedBody.expiryDays })
           .where('credit_pack.id', '=', productId)
           .where('credit_pack.trainer_id', '=', authorization.trainerId)
           .execute()
       }
 
+      if (isMembership) {
+        const { frequencyWeeks, sessionsPerPeriod, rolloverLimit, serviceIds } = parsedBody
+
+        if (frequencyWeeks !== undefined || sessionsPerPeriod !== undefined || rolloverLimit !== undefined) {
+          await trx
+            .updateTable('membership')
+            .set({
+              frequency_weekly_interval: frequencyWeeks,
+              sessions_per_period: sessionsPerPeriod,
+              rollover_limit: rolloverLimit,
+            })
+            .where('membership.id', '=', productId)
+            .where('membership.trainer_id', '=', authorization.trainerId)
+            .execute()
+        }
+
+        if (serviceIds !== undefined) {
+          const uniqueServiceIds = [...new Set(serviceIds)]
+          const services = await trx
+            .selectFrom('service')
+            .select('id')
+            .where('trainer_id', '=', authorization.trainerId)
+            .where('id', 'in', uniqueServiceIds)
+            .execute()
+
+          if (services.length !== uniqueServiceIds.length) {
+            throw new UnknownServiceError()
+          }
+
+          await trx.deleteFrom('membership_service').where('membership_id', '=', productId).execute()
+          await trx
+            .insertInto('membership_service')
+            .values(
+              uniqueServiceIds.map((serviceId) => ({
+                membership_id: productId,
+                service_id: serviceId,
+                trainer_id: authorization.trainerId,
+              }))
+            )
+            .execute()
+        }
+      }
+
       const productUpdate: Record<string, unknown> = {}
 
       if (parsedBody.price !== undefined) {
         productUpdate.price = parsedBody.price
       }
 
+      if (parsedBody.taxMode !== undefined) {
+        productUpdate.tax_mode = parsedBody.taxMode
+      }
+
       if (parsedBody.name !== undefined) {
         productUpdate.name = parsedBody.name
       }
@@ -564,6 +633,18 @@ export async function PATCH(request: NextRequest, context: HandlerContext) {
       )
     }
 
+    if (error instanceof UnknownServiceError) {
+      return NextResponse.json(
+        buildErrorResponse({
+          status: 400,
+          title: 'Invalid request body',
+          detail: 'serviceIds must only contain your services.',
+          type: '/invalid-body',
+        }),
+        { status: 400 }
+      )
+    }
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         buildErrorResponse({
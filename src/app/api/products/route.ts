@@ -5,6 +5,7 @@ import type { Service } from '@/lib/db/generated'
 import { db } from '@/lib/db'
 import { intervalFromMinutes, toPoint } from '@/lib/db/values'
 import { sanitizeProductQuery, listProducts } from '@/server/products'
+import { taxModeSchema, type TaxMode } from '@/server/salesTax'
 import { authenticateTrainerRequest, buildErrorResponse } from '../_lib/accessToken'
 
 const LEGACY_INVALID_JSON_MESSAGE = 'Unexpected token \'"\', "#" is not valid JSON'
@@ -38,6 +39,13 @@ const serviceProductSchema = z.object({
   showPriceOnline: z.boolean().nullable().optional(),
 })
 
+class UnknownServiceError extends Error {
+  constructor() {
+    super('Service not found')
+    this.name = 'UnknownServiceError'
+  }
+}
+
 const invalidJsonResponse = () =>
   NextResponse.json(
     buildErrorResponse({
@@ -128,8 +136,10 @@ export async function POST(request: Request) {
   if (typeof typeValue !== 'string') {
     return invalidParametersResponse('type  should be string')
   }
-  if (!['creditPack', 'item', 'service'].includes(typeValue)) {
-    return invalidParametersResponse('type  should be "creditPack" or  should be "item" or  should be "service"')
+  if (!['creditPack', 'item', 'membership', 'service'].includes(typeValue)) {
+    return invalidParametersResponse(
+      'type  should be "creditPack" or  should be "item" or  should be "membership" or  should be "service"'
+    )
   }
 
   const priceValue = body.price
@@ -147,6 +157,15 @@ export async function POST(request: Request) {
     return invalidParametersResponse('price  should be greater than or equal to 0')
   }
 
+  let taxMode: TaxMode = 'none'
+  if (Object.hasOwn(body, 'taxMode')) {
+    const taxModeParse = taxModeSchema.safeParse(body.taxMode)
+    if (!taxModeParse.success) {
+      return invalidParametersResponse('taxMode  should be "none" or  should be "inclusive" or  should be "exclusive"')
+    }
+    taxMode = taxModeParse.data
+  }
+
   const currencyValue = body.currency
   if (currencyValue === undefined) {
     return invalidParametersResponse('currency  not provided')
@@ -274,6 +293,26 @@ export async function POST(request: Request) {
     timeSlotFrequencyMinutes = body.timeSlotFrequencyMinutes
   }
 
+  const feeFields = ['noShowFee', 'lateCancelFee'] as const
+  const fees: Partial<Record<(typeof feeFields)[number], string | null>> = {}
+  for (const field of feeFields) {
+    if (!Object.hasOwn(body, field)) {
+      continue
+    }
+    const value = body[field]
+    if (value === null) {
+      fees[field] = null
+      continue
+    }
+    if (typeof value !== 'string' || !moneyRegex.test(value.trim())) {
+      return invalidParametersResponse(`${field}  should be Money or  should be null`)
+    }
+    if (Number.parseFloat(value) < 0) {
+      return invalidParametersResponse(`${field}  should be greater than or equal to 0`)
+    }
+    fees[field] = value.trim()
+  }
+
   let requestClientAddressOnline: 'optional' | 'required' | null | undefined = undefined
   if (Object.hasOwn(body, 'requestClientAddressOnline')) {
     if (
@@ -311,6 +350,7 @@ export async function POST(request: Request) {
   }
 
   let totalCredits: number | null = null
+  let expiryDays: number | null = null
   let durationMinutes: number | null = null
   if (typeValue === 'creditPack') {
     if (!Object.hasOwn(body, 'totalCredits')) {
@@ -324,6 +364,66 @@ export async function POST(request: Request) {
       return invalidParametersResponse('totalCredits  should be greater than or equal to 0')
     }
     totalCredits = creditsValue
+
+    const expiryValue = body.expiryDays
+    if (expiryValue !== undefined && expiryValue !== null) {
+      if (typeof expiryValue !== 'number' || !Number.isInteger(expiryValue)) {
+        return invalidParametersResponse('expiryDays  should be integer')
+      }
+      if (expiryValue < 1) {
+        return invalidParametersResponse('expiryDays  should be greater than or equal to 1')
+      }
+      expiryDays = expiryValue
+    }
+  }
+
+  let frequencyWeeks: number | null = null
+  let sessionsPerPeriod: number | null = null
+  let rolloverLimit = 0
+  let serviceIds: string[] = []
+  if (typeValue === 'membership') {
+    const frequencyValue = body.frequencyWeeks
+    if (frequencyValue === undefined) {
+      return invalidParametersResponse('frequencyWeeks  not provided')
+    }
+    if (
+      typeof frequencyValue !== 'number' ||
+      !Number.isInteger(frequencyValue) ||
+      frequencyValue < 1 ||
+      frequencyValue > 4
+    ) {
+      return invalidParametersResponse('frequencyWeeks  should be 1, 2, 3 or 4')
+    }
+    frequencyWeeks = frequencyValue
+
+    const sessionsValue = body.sessionsPerPeriod
+    if (sessionsValue === undefined) {
+      return invalidParametersResponse('sessionsPerPeriod  not provided')
+    }
+    if (typeof sessionsValue !== 'number' || !Number.isInteger(sessionsValue)) {
+      return invalidParametersResponse('sessionsPerPeriod  should be integer')
+    }
+    if (sessionsValue < 1) {
+      return invalidParametersResponse('sessionsPerPeriod  should be greater than or equal to 1')
+    }
+    sessionsPerPeriod = sessionsValue
+
+    const rolloverValue = body.rolloverLimit
+    if (rolloverValue !== undefined) {
+      if (typeof rolloverValue !== 'number' || !Number.isInteger(rolloverValue)) {
+        return invalidParametersResponse('rolloverLimit  should be integer')
+      }
+      if (rolloverValue < 0) {
+        return invalidParametersResponse('rolloverLimit  should be greater than or equal to 0')
+      }
+      rolloverLimit = rolloverValue
+    }
+
+    const serviceIdsParse = z.array(z.string().uuid()).min(1).safeParse(body.serviceIds)
+    if (!serviceIdsParse.success) {
+      return invalidParametersResponse('serviceIds  should be a non-empty array of service ids')
+    }
+    serviceIds = [...new Set(serviceIdsParse.data)]
   }
 
   if (typeValue === 'service') {
@@ -356,13 +456,19 @@ export async function POST(request: Request) {
     const geoParse = geoSchema.safeParse(body.geo)
 
     const data = {
-      type: typeValue as 'creditPack' | 'item' | 'service',
+      type: typeValue as 'creditPack' | 'item' | 'membership' | 'service',
       price: trimmedPrice,
+      taxMode,
       currency: currencyValue,
       name: trimmedName,
       description,
       displayOrder,
       totalCredits,
+      expiryDays,
+      frequencyWeeks,
+      sessionsPerPeriod,
+      rolloverLimit,
+      serviceIds,
       durationMinutes,
       bookableOnline,
       showPriceOnline,
@@ -374,6 +480,8 @@ export async function POST(request: Request) {
       bufferMinutesBefore,
       bufferMinutesAfter,
       timeSlotFrequencyMinutes,
+      noShowFee: fees.noShowFee,
+      lateCancelFee: fees.lateCancelFee,
       requestClientAddressOnline,
       bookingQuestion: bookingQuestionParse.success ? bookingQuestionParse.data : undefined,
       bookingQuestionState,
@@ -420,11 +528,12 @@ export async function POST(request: Request) {
           name: data.name,
           description: data.description ?? '',
           price: data.price,
+          tax_mode: data.taxMode,
           currency_id: currencyRow.currencyId,
           is_credit_pack: data.type === 'creditPack' ? true : null,
           is_item: data.type === 'item' ? true : null,
           is_service: data.type === 'service' ? true : null,
-          is_membership: null,
+          is_membership: data.type === 'membership' ? true : null,
           display_order: data.displayOrder ?? null,
         })
         .returning('id')
@@ -441,9 +550,43 @@ export async function POST(request: Request) {
             id: productRow.id,
             trainer_id: authorization.trainerId,
             total_credits: data.totalCredits ?? 0,
+            expiry_days: data.expiryDays,
             is_credit_pack: true,
           })
           .execute()
+      } else if (data.type === 'membership') {
+        const services = await trx
+          .selectFrom('service')
+          .select('id')
+          .where('trainer_id', '=', authorization.trainerId)
+          .where('id', 'in', data.serviceIds)
+          .execute()
+
+        if (services.length !== data.serviceIds.length) {
+          throw new UnknownServiceError()
+        }
+
+        await trx
+          .insertInto('membership')
+          .values({
+            id: productRow.id,
+            trainer_id: authorization.trainerId,
+            frequency_weekly_interval: data.frequencyWeeks ?? 1,
+            sessions_per_period: data.sessionsPerPeriod ?? 1,
+            rollover_limit: data.rolloverLimit,
+          })
+          .execute()
+
+        await trx
+          .insertInto('membership_service')
+          .values(
+            data.serviceIds.map((serviceId) => ({
+              membership_id: productRow.id,
+              service_id: serviceId,
+              trainer_id: authorization.trainerId,
+            }))
+          )
+          .execute()
       } else if (data.type === 'service') {
         const bookingPaymentType = resolveBookingPaymentType(data)
 
@@ -472,6 +615,14 @@ export async function POST(request: Request) {
           serviceValues.time_slot_frequency_minutes = data.timeSlotFrequencyMinutes
         }
 
+        if (data.noShowFee !== undefined) {
+          serviceValues.no_show_fee = data.noShowFee
+        }
+
+        if (data.lateCancelFee !== undefined) {
+          serviceValues.late_cancel_fee = data.lateCancelFee
+        }
+
         if (data.requestClientAddressOnline !== undefined) {
           serviceValues.request_client_address_online = data.requestClientAddressOnline
         }
@@ -512,6 +663,10 @@ export async function POST(request: Request) {
 
     return NextResponse.json(product, { status: 200 })
   } catch (error) {
+    if (error instanceof UnknownServiceError) {
+      return invalidParametersResponse('serviceIds  should only contain your services')
+    }
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         buildErrorResponse({
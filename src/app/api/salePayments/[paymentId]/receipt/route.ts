@@ -0,0 +1,125 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { queueReceiptEmail, renderSaleDocument, SaleDocumentNotFoundError } from '@/server/saleDocuments'
+import { authenticateTrainerRequest, buildErrorResponse } from '../../../_lib/accessToken'
+import { createSaleDocumentNotFoundResponse, createSaleDocumentResponse } from '../../../_lib/saleDocuments'
+import { parseStrictJsonBody } from '../../../_lib/strictJson'
+
+const paramsSchema = z.object({
+  paymentId: z.string().uuid(),
+})
+
+type HandlerContext = RouteContext<'/api/salePayments/[paymentId]/receipt'>
+
+const createInvalidParamsResponse = (error: z.ZodError) => {
+  const detail = error.issues.map((issue) => issue.message).join('; ')
+  return NextResponse.json(
+    buildErrorResponse({
+      status: 400,
+      title: 'Invalid path parameters',
+      detail: detail || 'Request path parameters did not match the expected schema.',
+      type: '/invalid-path-parameters',
+    }),
+    { status: 400 }
+  )
+}
+
+export async function GET(request: NextRequest, context: HandlerContext) {
+  const paramsResult = paramsSchema.safeParse(await context.params)
+
+  if (!paramsResult.success) {
+    return createInvalidParamsResponse(paramsResult.error)
+  }
+
+  const auth = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while downloading payment receipt',
+  })
+
+  if (!auth.ok) {
+    return auth.response
+  }
+
+  const { paymentId } = paramsResult.data
+
+  try {
+    const document = await renderSaleDocument(db, { trainerId: auth.trainerId }, { document: 'receipt', paymentId })
+
+    return createSaleDocumentResponse(document)
+  } catch (error) {
+    if (error instanceof SaleDocumentNotFoundError) {
+      return createSaleDocumentNotFoundResponse('Payment not found')
+    }
+
+    console.error('Failed to render payment receipt', { trainerId: auth.trainerId, paymentId, error })
+
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 500,
+        title: 'Failed to render receipt',
+        type: '/internal-server-error',
+      }),
+      { status: 500 }
+    )
+  }
+}
+
+/** Emails the receipt to the client, with the PDF attached. */
+export async function POST(request: NextRequest, context: HandlerContext) {
+  const paramsResult = paramsSchema.safeParse(await context.params)
+
+  if (!paramsResult.success) {
+    return createInvalidParamsResponse(paramsResult.error)
+  }
+
+  const body = await parseStrictJsonBody(request)
+  if (!body.ok) {
+    return body.response
+  }
+
+  const auth = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while emailing payment receipt',
+  })
+
+  if (!auth.ok) {
+    return auth.response
+  }
+
+  const { paymentId } = paramsResult.data
+
+  try {
+    const queued = await db
+      .transaction()
+      .execute((trx) => queueReceiptEmail(trx, { trainerId: auth.trainerId, paymentId }))
+
+    if (!queued) {
+      return NextResponse.json(
+        buildErrorResponse({
+          status: 409,
+          title: 'Client has no email',
+          detail: 'A client email address is required to send a receipt.',
+          type: '/client-has-no-email',
+        }),
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ status: 'sent' })
+  } catch (error) {
+    if (error instanceof SaleDocumentNotFoundError) {
+      return createSaleDocumentNotFoundResponse('Payment not found')
+    }
+
+    console.error('Failed to email payment receipt', { trainerId: auth.trainerId, paymentId, error })
+
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 500,
+        title: 'Failed to email receipt',
+        type: '/internal-server-error',
+      }),
+      { status: 500 }
+    )
+  }
+}
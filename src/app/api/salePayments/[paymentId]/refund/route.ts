@@ -4,25 +4,30 @@ import { NextResponse } from 'next/server'
 import Stripe from 'stripe'
 import { z, ZodError } from 'zod'
 import { db } from '@/lib/db'
+import { syncCreditPackPaymentLedger } from '@/server/creditLedger'
+import {
+  CreditPackPartialRefundError,
+  PaymentAlreadyRefundedError,
+  proRateApplicationFee,
+  proRateSalePaymentTax,
+  recordSalePaymentRefund,
+  resolveRefundAmount,
+  sumRefundedApplicationFees,
+} from '@/server/paymentRefunds'
 import { authenticateTrainerRequest, buildErrorResponse } from '../../../_lib/accessToken'
+import {
+  createInvalidRefundBodyResponse,
+  createRefundConflictResponse,
+  refundRequestSchema,
+} from '../../../_lib/paymentRefunds'
 import { adaptSalePaymentRow, salePaymentSchema, type SalePaymentRow } from '../../../_lib/salePayments'
+import { parseStrictJsonBody } from '../../../_lib/strictJson'
 import { getStripeClient, STRIPE_API_VERSION } from '../../../_lib/stripeClient'
 
 const paramsSchema = z.object({
   paymentId: z.string().trim().min(1, 'Payment id is required'),
 })
 
-const LEGACY_INVALID_JSON_MESSAGE = 'Unexpected token \'"\\", "#" is not valid JSON'
-
-const createLegacyInvalidJsonResponse = () =>
-  NextResponse.json(
-    buildErrorResponse({
-      status: 400,
-      title: LEGACY_INVALID_JSON_MESSAGE,
-    }),
-    { status: 400 }
-  )
-
 const stripeDetailsSchema = z.object({
   stripeChargeId: z.string().nullable(),
   stripePaymentIntentId: z.string().nullable(),
@@ -88,17 +93,19 @@ const toBigNumberOrZero = (value: string | number | null | undefined, label: str
 const sumStripeBalanceEntries = (entries: { amount: number; currency: string }[]) =>
   entries.reduce((total, entry) => total.plus(new BigNumber(entry.amount).shiftedBy(-2)), new BigNumber(0))
 
+/**
+ * Refunds all or part of a sale payment. Without an amount, refunds whatever hasn't been refunded yet. A payment can be
+ * refunded several times until its whole amount has been given back.
+ */
 export async function POST(request: NextRequest, context: HandlerContext) {
-  const rawBodyText = await request.text()
-  if (rawBodyText.trim().length > 0) {
-    try {
-      const parsed = JSON.parse(rawBodyText)
-      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
-        return createLegacyInvalidJsonResponse()
-      }
-    } catch {
-      return createLegacyInvalidJsonResponse()
-    }
+  const parsedJson = await parseStrictJsonBody(request)
+  if (!parsedJson.ok) {
+    return parsedJson.response
+  }
+
+  const bodyResult = refundRequestSchema.safeParse(parsedJson.data)
+  if (!bodyResult.success) {
+    return createInvalidRefundBodyResponse(bodyResult.error)
   }
 
   const paramsResult = paramsSchema.safeParse(await context.params)
@@ -126,26 +133,45 @@ export async function POST(request: NextRequest, context: HandlerContext) {
   }
 
   const { paymentId } = paramsResult.data
+  const { reason } = bodyResult.data
 
   try {
     const salePayment = await db.transaction().execute(async (trx) => {
-      const updateResult = await trx
-        .updateTable('payment')
-        .set({
-          refunded_time: new Date(),
-        })
+      const payment = await trx
+        .selectFrom('payment')
+        .select(['is_stripe', 'is_credit_pack', 'amount', 'amount_refunded', 'refunded_time'])
         .where('id', '=', paymentId)
         .where('trainer_id', '=', authorization.trainerId)
-        .returning(['is_stripe', 'amount'])
+        .forUpdate()
         .executeTakeFirst()
 
-      if (!updateResult) {
+      if (!payment) {
         throw new SalePaymentNotFoundError()
       }
 
-      const refundAmount = toBigNumber(updateResult.amount, 'payment amount')
+      if (payment.refunded_time !== null) {
+        throw new PaymentAlreadyRefundedError()
+      }
+
+      const paymentAmount = toBigNumber(payment.amount, 'payment amount')
+      const { refundAmount, refundsInFull } = resolveRefundAmount(
+        paymentAmount,
+        payment.amount_refunded,
+        bodyResult.data.amount
+      )
+
+      if (payment.is_credit_pack && !refundsInFull) {
+        throw new CreditPackPartialRefundError()
+      }
+
+      // Credit pack payments pay for sessions with credits bought in an earlier sale, which is where the tax was.
+      const taxAmount = payment.is_credit_pack
+        ? new BigNumber(0)
+        : await proRateSalePaymentTax(trx, { paymentId, refundAmount, refundsInFull })
+      let applicationFeeAmount = new BigNumber(0)
+      let stripeRefundId: string | null = null
 
-      if (updateResult.is_stripe) {
+      if (payment.is_stripe) {
         const stripeClient = getStripeClient()
 
         if (!stripeClient) {
@@ -196,7 +222,13 @@ export async function POST(request: NextRequest, context: HandlerContext) {
           throw new StripePaymentsDisabledError()
         }
 
-        const applicationFeeAmount = toBigNumberOrZero(fee, 'Stripe fee amount')
+        applicationFeeAmount = proRateApplicationFee({
+          fee: toBigNumberOrZero(fee, 'Stripe fee amount'),
+          amount: paymentAmount,
+          refundAmount,
+          refundsInFull,
+          feeRefunded: await sumRefundedApplicationFees(trx, 'payment_id', paymentId),
+        })
         const minimumBalanceAmount = toBigNumberOrZero(minimumBalance, 'minimum balance')
 
         if (!stripeChargeId && !stripePaymentIntentId) {
@@ -224,12 +256,17 @@ export async function POST(request: NextRequest, context: HandlerContext) {
           reason: 'requested_by_customer',
           refund_application_fee: true,
           reverse_transfer: stripeAccountType !== 'standard',
+          metadata: {
+            ...(reason ? { reason } : {}),
+            ...(taxAmount.gt(0) ? { taxAmount: taxAmount.toFixed(2) } : {}),
+          },
         }
 
         const refund = await stripeClient.refunds.create(
           refundOptions,
           stripeAccountType === 'standard' ? { stripeAccount: stripeAccountId } : undefined
         )
+        stripeRefundId = refund.id
 
         try {
           await trx
@@ -249,6 +286,21 @@ export async function POST(request: NextRequest, context: HandlerContext) {
         }
       }
 
+      await recordSalePaymentRefund(trx, {
+        paymentId,
+        trainerId: authorization.trainerId,
+        amount: refundAmount,
+        applicationFeeAmount,
+        taxAmount,
+        reason,
+        stripeRefundId,
+        refundsInFull,
+      })
+
+      if (payment.is_credit_pack) {
+        await syncCreditPackPaymentLedger(trx, paymentId)
+      }
+
       const salePaymentRow = (await trx
         .selectFrom('payment as payment')
         .innerJoin('trainer', 'trainer.id', 'payment.trainer_id')
@@ -280,6 +332,7 @@ export async function POST(request: NextRequest, context: HandlerContext) {
           eb.ref('paymentCreditPack.updated_at').as('paymentCreditPackUpdatedAt'),
           eb.ref('paymentSubscription.updated_at').as('paymentSubscriptionUpdatedAt'),
           eb.ref('payment.refunded_time').as('refundedTime'),
+          eb.ref('payment.amount_refunded').as('amountRefunded'),
           eb.ref('payment.is_manual').as('isManual'),
           eb.ref('payment.is_stripe').as('isStripe'),
           eb.ref('payment.is_credit_pack').as('isCreditPack'),
@@ -321,6 +374,11 @@ export async function POST(request: NextRequest, context: HandlerContext) {
       )
     }
 
+    const conflictResponse = createRefundConflictResponse(error)
+    if (conflictResponse) {
+      return conflictResponse
+    }
+
     if (error instanceof StripeConfigurationMissingError) {
       return NextResponse.json(
         buildErrorResponse({
@@ -2,6 +2,7 @@ import type { NextRequest } from 'next/server'
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
 import { db } from '@/lib/db'
+import { syncCreditPackPaymentLedger } from '@/server/creditLedger'
 import {
   authenticateTrainerOrClientRequest,
   authenticateTrainerRequest,
@@ -148,6 +149,7 @@ const fetchSalePayment = async (paymentId: string, trainerId: string) => {
       eb.ref('paymentCreditPack.updated_at').as('paymentCreditPackUpdatedAt'),
       eb.ref('paymentSubscription.updated_at').as('paymentSubscriptionUpdatedAt'),
       eb.ref('payment.refunded_time').as('refundedTime'),
+      eb.ref('payment.amount_refunded').as('amountRefunded'),
       eb.ref('payment.is_manual').as('isManual'),
       eb.ref('payment.is_stripe').as('isStripe'),
       eb.ref('payment.is_credit_pack').as('isCreditPack'),
@@ -220,6 +222,7 @@ export async function GET(request: NextRequest, context: HandlerContext) {
         eb.ref('paymentCreditPack.updated_at').as('paymentCreditPackUpdatedAt'),
         eb.ref('paymentSubscription.updated_at').as('paymentSubscriptionUpdatedAt'),
         eb.ref('payment.refunded_time').as('refundedTime'),
+        eb.ref('payment.amount_refunded').as('amountRefunded'),
         eb.ref('payment.is_manual').as('isManual'),
         eb.ref('payment.is_stripe').as('isStripe'),
         eb.ref('payment.is_credit_pack').as('isCreditPack'),
@@ -293,7 +296,7 @@ export async function DELETE(request: NextRequest, context: HandlerContext) {
     await db.transaction().execute(async (trx) => {
       const paymentRow = await trx
         .selectFrom('payment')
-        .select(['is_stripe'])
+        .select(['is_stripe', 'is_credit_pack'])
         .where('payment.id', '=', paymentId)
         .where('payment.trainer_id', '=', authorization.trainerId)
         .executeTakeFirst()
@@ -317,6 +320,10 @@ export async function DELETE(request: NextRequest, context: HandlerContext) {
       if (deletedCount === 0) {
         throw new SalePaymentNotFoundError()
       }
+
+      if (paymentRow.is_credit_pack) {
+        await syncCreditPackPaymentLedger(trx, paymentId)
+      }
     })
 
     return new NextResponse(null, { status: 204 })
@@ -453,6 +460,8 @@ export async function PATCH(request: NextRequest, context: HandlerContext) {
               .where('payment_credit_pack.id', '=', paymentId)
               .where('payment_credit_pack.trainer_id', '=', authorization.trainerId)
               .executeTakeFirst()
+
+            await syncCreditPackPaymentLedger(trx, paymentId)
           }
         }
 
@@ -6,6 +6,8 @@ import Stripe from 'stripe'
 import { z } from 'zod'
 import { db, type Database } from '@/lib/db'
 import { uuidOrNil } from '@/lib/uuid'
+import { syncCreditPackPaymentLedger } from '@/server/creditLedger'
+import { queueReceiptEmail } from '@/server/saleDocuments'
 import { enqueueWorkflowTask } from '@/server/workflow/outbox'
 import { authenticateTrainerOrClientRequest, buildErrorResponse } from '../_lib/accessToken'
 import { APP_NAME } from '../_lib/constants'
@@ -137,6 +139,7 @@ export async function GET(request: Request) {
         eb.ref('paymentCreditPack.updated_at').as('paymentCreditPackUpdatedAt'),
         eb.ref('paymentSubscription.updated_at').as('paymentSubscriptionUpdatedAt'),
         eb.ref('payment.refunded_time').as('refundedTime'),
+        eb.ref('payment.amount_refunded').as('amountRefunded'),
         eb.ref('payment.is_manual').as('isManual'),
         eb.ref('payment.is_stripe').as('isStripe'),
         eb.ref('payment.is_credit_pack').as('isCreditPack'),
@@ -306,6 +309,7 @@ class StripePaymentFailedError extends Error {
 const saleDetailsSchema = z.object({
   paymentStatus: z.string().nullable(),
   saleProductPrice: z.union([z.string(), z.number()]),
+  saleProductTaxAmount: z.union([z.string(), z.number()]),
   currency: z.string(),
   clientId: z.string(),
   trainerId: z.string(),
@@ -320,6 +324,7 @@ const saleDetailsSchema = z.object({
   clientFirstName: z.string(),
   clientLastName: z.string().nullable(),
   trainerEmail: z.string(),
+  sendReceipts: z.boolean(),
   stripeCustomerId: z.string().nullable(),
   productName: z.string(),
   saleProductId: z.string(),
@@ -423,6 +428,7 @@ const fetchSalePayment = async (paymentId: string, trainerId: string) => {
       eb.ref('paymentCreditPack.updated_at').as('paymentCreditPackUpdatedAt'),
       eb.ref('paymentSubscription.updated_at').as('paymentSubscriptionUpdatedAt'),
       eb.ref('payment.refunded_time').as('refundedTime'),
+      eb.ref('payment.amount_refunded').as('amountRefunded'),
       eb.ref('payment.is_manual').as('isManual'),
       eb.ref('payment.is_stripe').as('isStripe'),
       eb.ref('payment.is_credit_pack').as('isCreditPack'),
@@ -516,6 +522,7 @@ export async function POST(request: Request) {
         .select((eb) => [
           eb.ref('salePaymentStatus.payment_status').as('paymentStatus'),
           eb.ref('saleProduct.price').as('saleProductPrice'),
+          eb.ref('saleProduct.tax_amount').as('saleProductTaxAmount'),
           eb.ref('currency.alpha_code').as('currency'),
           eb.ref('sale.client_id').as('clientId'),
           eb.ref('sale.trainer_id').as('trainerId'),
@@ -531,6 +538,7 @@ export async function POST(request: Request) {
           eb.ref('client.last_name').as('clientLastName'),
           eb.ref('client.stripe_customer_id').as('stripeCustomerId'),
           eb.ref('trainer.email').as('trainerEmail'),
+          eb.ref('trainer.send_receipts').as('sendReceipts'),
           eb.ref('saleProduct.name').as('productName'),
           eb.ref('saleProduct.id').as('saleProductId'),
           eb.ref('saleCreditPack.id').as('saleCreditPackId'),
@@ -640,6 +648,8 @@ export async function POST(request: Request) {
           })
           .execute()
 
+        await syncCreditPackPaymentLedger(trx, paymentId)
+
         await markSalePaid()
 
         return { paymentId, trainerId: saleDetails.trainerId }
@@ -859,7 +869,10 @@ export async function POST(request: Request) {
               payment_method_types: ['card'],
               customer: customerId,
               description: `Payment for ${saleDetails.productName}`,
-              receipt_email: saleDetails.clientEmail ?? undefined,
+              metadata: {
+                saleId: payload.saleId,
+                taxAmount: new BigNumber(saleDetails.saleProductTaxAmount).toFixed(2),
+              },
               statement_descriptor_suffix: `VIA ${APP_NAME}`,
               payment_method: paymentMethod.id,
               application_fee_amount: applicationFeeAmount,
@@ -961,6 +974,11 @@ export async function POST(request: Request) {
 
       await markSalePaid()
 
+      // Our own receipt, with the PDF attached, takes the place of Stripe's.
+      if (saleDetails.sendReceipts) {
+        await queueReceiptEmail(trx, { trainerId: saleDetails.trainerId, paymentId })
+      }
+
       return { paymentId, trainerId: saleDetails.trainerId }
     })
 
@@ -4,6 +4,7 @@ import { z } from 'zod'
 import { db } from '@/lib/db'
 import { intervalFromMinutes, toPoint } from '@/lib/db/values'
 import { uuidOrNil } from '@/lib/uuid'
+import { applySaleProductTax, enteredSaleProductPrice, parseTaxMode, taxModeSchema } from '@/server/salesTax'
 import { authenticateTrainerRequest, buildErrorResponse } from '../../_lib/accessToken'
 import { parseStrictJsonBody } from '../../_lib/strictJson'
 import {
@@ -96,6 +97,7 @@ const nullableTrimmedStringSchema = z
 const patchRequestBodySchema = z
   .object({
     price: moneyAmountSchema.optional(),
+    taxMode: taxModeSchema.optional(),
     name: z.string().trim().min(1, 'name must not be empty').optional(),
     quantity: z
       .number({ message: 'quantity  should be number' })
@@ -231,6 +233,9 @@ export async function PATCH(request: NextRequest, context: HandlerContext) {
           eb.ref('saleProduct.is_credit_pack').as('isCreditPack'),
           eb.ref('saleProduct.is_item').as('isItem'),
           eb.ref('saleProduct.is_service').as('isService'),
+          eb.ref('saleProduct.price').as('price'),
+          eb.ref('saleProduct.tax_mode').as('taxMode'),
+          eb.ref('saleProduct.tax_amount').as('taxAmount'),
         ])
         .where('saleProduct.id', '=', saleProductId)
         .where('saleProduct.trainer_id', '=', authorization.trainerId)
@@ -248,17 +253,16 @@ export async function PATCH(request: NextRequest, context: HandlerContext) {
 
       paymentId = details.paymentId ?? null
 
-      if (details.isStripePayment && parsedBody.price !== undefined) {
+      // Changing how the product is taxed can change its price too.
+      const repricing = parsedBody.price !== undefined || parsedBody.taxMode !== undefined
+
+      if (details.isStripePayment && repricing) {
         throw new CantEditProductPricePaidByStripeError()
       }
 
       if (hasUpdates) {
         const saleProductUpdate: Record<string, unknown> = {}
 
-        if (parsedBody.price !== undefined) {
-          saleProductUpdate.price = parsedBody.price
-        }
-
         if (parsedBody.name !== undefined) {
           saleProductUpdate.name = parsedBody.name
         }
@@ -273,16 +277,31 @@ export async function PATCH(request: NextRequest, context: HandlerContext) {
             .executeTakeFirst()
         }
 
-        if (parsedBody.price !== undefined && paymentId) {
-          await trx
-            .updateTable('payment')
-            .set({
-              amount: parsedBody.price,
-              updated_at: new Date(),
-            })
-            .where('payment.id', '=', paymentId)
-            .where('payment.trainer_id', '=', authorization.trainerId)
-            .executeTakeFirst()
+        if (repricing) {
+          const tax = await applySaleProductTax(trx, {
+            trainerId: authorization.trainerId,
+            saleProductId,
+            price:
+              parsedBody.price ??
+              enteredSaleProductPrice({
+                price: details.price,
+                taxMode: details.taxMode,
+                taxAmount: details.taxAmount,
+              }),
+            taxMode: parsedBody.taxMode ?? parseTaxMode(details.taxMode),
+          })
+
+          if (paymentId) {
+            await trx
+              .updateTable('payment')
+              .set({
+                amount: tax.price.toFixed(2),
+                updated_at: new Date(),
+              })
+              .where('payment.id', '=', paymentId)
+              .where('payment.trainer_id', '=', authorization.trainerId)
+              .executeTakeFirst()
+          }
         }
 
         switch (saleProductType) {
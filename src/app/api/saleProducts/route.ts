@@ -3,6 +3,8 @@ import { z } from 'zod'
 import { db } from '@/lib/db'
 import { intervalFromMinutes, toPoint } from '@/lib/db/values'
 import { uuidOrNil } from '@/lib/uuid'
+import { recordCreditPackPurchase } from '@/server/creditLedger'
+import { applySaleProductTax, getProductTaxMode, taxModeSchema, type TaxMode } from '@/server/salesTax'
 import { authenticateTrainerOrClientRequest, authenticateTrainerRequest, buildErrorResponse } from '../_lib/accessToken'
 import {
   adaptSaleProductRow,
@@ -177,6 +179,7 @@ type ValidSaleProductBody =
       currency: string
       name: string
       productId: string | null
+      taxMode: TaxMode | null
       totalCredits: number
     }
   | {
@@ -186,6 +189,7 @@ type ValidSaleProductBody =
       currency: string
       name: string
       productId: string | null
+      taxMode: TaxMode | null
       quantity: number
     }
   | {
@@ -195,6 +199,7 @@ type ValidSaleProductBody =
       currency: string
       name: string
       productId: string | null
+      taxMode: TaxMode | null
       durationMinutes: number
       location: string | null
       address: string | null
@@ -252,6 +257,11 @@ const validateSaleProductBody = (body: Record<string, unknown>) => {
     errors.push('productId  should be string')
   }
 
+  const taxModeRaw = body.taxMode
+  if (taxModeRaw !== undefined && taxModeRaw !== null && !taxModeSchema.safeParse(taxModeRaw).success) {
+    errors.push('taxMode  should be "none" or  should be "inclusive" or  should be "exclusive"')
+  }
+
   if (typeRaw === 'creditPack') {
     const totalCreditsRaw = body.totalCredits
     if (totalCreditsRaw === undefined) {
@@ -290,6 +300,7 @@ const validateSaleProductBody = (body: Record<string, unknown>) => {
   const currency = currencyRaw as string
   const name = nameRaw as string
   const productId = toNullableTrimmedString(typeof productIdRaw === 'string' ? productIdRaw : null)
+  const taxMode = taxModeRaw === undefined || taxModeRaw === null ? null : taxModeSchema.parse(taxModeRaw)
 
   if (typeRaw === 'creditPack') {
     return {
@@ -301,6 +312,7 @@ const validateSaleProductBody = (body: Record<string, unknown>) => {
         currency,
         name,
         productId,
+        taxMode,
         totalCredits: body.totalCredits as number,
       },
     }
@@ -316,6 +328,7 @@ const validateSaleProductBody = (body: Record<string, unknown>) => {
         currency,
         name,
         productId,
+        taxMode,
         quantity: typeof body.quantity === 'number' && !Number.isNaN(body.quantity) ? body.quantity : 1,
       },
     }
@@ -335,6 +348,7 @@ const validateSaleProductBody = (body: Record<string, unknown>) => {
       currency,
       name,
       productId,
+      taxMode,
       durationMinutes: body.durationMinutes as number,
       location: toNullableTrimmedString(typeof locationRaw === 'string' ? locationRaw : null),
       address: toNullableTrimmedString(typeof addressRaw === 'string' ? addressRaw : null),
@@ -425,6 +439,17 @@ export async function POST(request: Request) {
         throw new Error('Failed to insert sale product')
       }
 
+      // Without a mode of its own, the product is taxed the way the product it was sold from is.
+      const taxMode = data.taxMode ?? (await getProductTaxMode(trx, auth.trainerId, data.productId))
+      if (taxMode !== 'none') {
+        await applySaleProductTax(trx, {
+          trainerId: auth.trainerId,
+          saleProductId: inserted.id,
+          price: data.price,
+          taxMode,
+        })
+      }
+
       switch (data.type) {
         case 'creditPack': {
           await trx
@@ -436,6 +461,7 @@ export async function POST(request: Request) {
               is_credit_pack: true,
             })
             .execute()
+          await recordCreditPackPurchase(trx, inserted.id)
           break
         }
         case 'item': {
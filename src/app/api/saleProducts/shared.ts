@@ -1,6 +1,7 @@
 import type { ExpressionBuilder } from 'kysely'
 import { z } from 'zod'
 import { db, type Database, type Point } from '@/lib/db'
+import { parseTaxMode, taxModeSchema } from '@/server/salesTax'
 
 const moneyString = z.string().regex(/^-?\d+(?:\.\d{2})$/, 'Money values must be formatted with two decimal places')
 
@@ -19,6 +20,9 @@ const baseSaleProductSchema = z.object({
   saleId: z.string(),
   name: z.string(),
   price: moneyString,
+  /** How `price` was taxed. It's always what the client pays, so exclusive prices include the tax added on. */
+  taxMode: taxModeSchema,
+  taxAmount: moneyString,
   currency: z.string(),
   createdAt: isoDateTimeString,
   updatedAt: isoDateTimeString,
@@ -56,6 +60,8 @@ export type RawSaleProductRow = {
   productId: string | null
   name: string
   price: string
+  taxMode: string
+  taxAmount: string
   currency: string
   createdAt: Date | string
   combinedUpdatedAt: Date | string
@@ -140,6 +146,8 @@ export const adaptSaleProductRow = (row: RawSaleProductRow) => {
     saleId: row.saleId,
     name: row.name,
     price: formatMoney(row.price, 'price'),
+    taxMode: parseTaxMode(row.taxMode),
+    taxAmount: formatMoney(row.taxAmount, 'taxAmount'),
     currency: row.currency,
     createdAt: formatIso(row.createdAt, 'createdAt'),
     updatedAt: formatIso(row.combinedUpdatedAt, 'updatedAt'),
@@ -234,6 +242,8 @@ export const fetchSaleProducts = async (
       eb.ref('saleProduct.product_id').as('productId'),
       eb.ref('saleProduct.name').as('name'),
       eb.ref('saleProduct.price').as('price'),
+      eb.ref('saleProduct.tax_mode').as('taxMode'),
+      eb.ref('saleProduct.tax_amount').as('taxAmount'),
       eb.ref('currency.alpha_code').as('currency'),
       eb.ref('saleProduct.created_at').as('createdAt'),
       combinedUpdatedAt(eb).as('combinedUpdatedAt'),
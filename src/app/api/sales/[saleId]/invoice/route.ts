@@ -0,0 +1,61 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { renderSaleDocument, SaleDocumentNotFoundError } from '@/server/saleDocuments'
+import { authenticateTrainerRequest, buildErrorResponse } from '../../../_lib/accessToken'
+import { createSaleDocumentNotFoundResponse, createSaleDocumentResponse } from '../../../_lib/saleDocuments'
+
+const paramsSchema = z.object({
+  saleId: z.string().uuid(),
+})
+
+type HandlerContext = RouteContext<'/api/sales/[saleId]/invoice'>
+
+export async function GET(request: NextRequest, context: HandlerContext) {
+  const paramsResult = paramsSchema.safeParse(await context.params)
+
+  if (!paramsResult.success) {
+    const detail = paramsResult.error.issues.map((issue) => issue.message).join('; ')
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid path parameters',
+        detail: detail || 'Request path parameters did not match the expected schema.',
+        type: '/invalid-path-parameters',
+      }),
+      { status: 400 }
+    )
+  }
+
+  const auth = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while downloading sale invoice',
+  })
+
+  if (!auth.ok) {
+    return auth.response
+  }
+
+  const { saleId } = paramsResult.data
+
+  try {
+    const document = await renderSaleDocument(db, { trainerId: auth.trainerId }, { document: 'invoice', saleId })
+
+    return createSaleDocumentResponse(document)
+  } catch (error) {
+    if (error instanceof SaleDocumentNotFoundError) {
+      return createSaleDocumentNotFoundResponse('Sale not found')
+    }
+
+    console.error('Failed to render sale invoice', { trainerId: auth.trainerId, saleId, error })
+
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 500,
+        title: 'Failed to render invoice',
+        type: '/internal-server-error',
+      }),
+      { status: 500 }
+    )
+  }
+}
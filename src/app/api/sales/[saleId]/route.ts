@@ -3,6 +3,7 @@ import { NextResponse } from 'next/server'
 import { validate as validateUuid, NIL as NIL_UUID } from 'uuid'
 import { z } from 'zod'
 import { db } from '@/lib/db'
+import { releaseSaleCredits } from '@/server/creditLedger'
 import {
   authenticateTrainerOrClientRequest,
   authenticateTrainerRequest,
@@ -158,6 +159,8 @@ export async function DELETE(request: NextRequest, context: HandlerContext) {
         throw new SalePaidByCardDeletionNotAllowedError()
       }
 
+      await releaseSaleCredits(trx, [saleId])
+
       const deleteResult = await trx
         .deleteFrom('sale')
         .where('sale.id', '=', saleId)
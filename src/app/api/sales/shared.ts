@@ -17,6 +17,8 @@ export const saleSchema = z.object({
   paymentRequested: z.boolean(),
   paymentRequestPassOnTransactionFee: z.boolean(),
   total: moneyString,
+  /** The part of `total` that is tax. */
+  taxAmount: moneyString,
   amountPaid: moneyString,
   amountRefunded: moneyString,
   currency: z.string(),
@@ -52,6 +54,7 @@ export type RawSaleRow = {
   paymentRequestTime: Date | string | null
   paymentRequestPassOnTransactionFee: boolean | null
   totalAmount: string | number | null
+  taxAmount: string | number | null
   amountPaid: string | number | null
   amountRefunded: string | number | null
   currency: string | null
@@ -135,6 +138,7 @@ export const adaptSaleRow = (row: RawSaleRow) => {
     paymentRequested: row.paymentRequestTime !== null && row.paymentRequestTime !== undefined,
     paymentRequestPassOnTransactionFee: row.paymentRequestPassOnTransactionFee ?? false,
     total: formatMoney(row.totalAmount, 'total amount'),
+    taxAmount: formatMoney(row.taxAmount, 'tax amount'),
     amountPaid: formatMoney(row.amountPaid, 'amount paid'),
     amountRefunded: formatMoney(row.amountRefunded, 'amount refunded'),
     currency: row.currency,
@@ -154,6 +158,12 @@ const buildSaleProductSummary = () =>
           eb.val('FM999999999990.00'),
         ])
         .as('totalAmount'),
+      eb
+        .fn('to_char', [
+          eb.fn('coalesce', [eb.fn('sum', [eb.ref('saleProduct.tax_amount')]), eb.val(0)]),
+          eb.val('FM999999999990.00'),
+        ])
+        .as('taxAmount'),
       eb.fn.max('saleProduct.updated_at').as('latestUpdatedAt'),
     ])
     .groupBy('saleProduct.sale_id')
@@ -172,17 +182,7 @@ const buildPaymentSummary = () =>
         .as('totalPaid'),
       eb
         .fn('to_char', [
-          eb.fn('coalesce', [
-            eb.fn('sum', [
-              eb
-                .case()
-                .when('payment.refunded_time', 'is not', null)
-                .then(eb.ref('payment.amount'))
-                .else(eb.val(0))
-                .end(),
-            ]),
-            eb.val(0),
-          ]),
+          eb.fn('coalesce', [eb.fn('sum', [eb.ref('payment.amount_refunded')]), eb.val(0)]),
           eb.val('FM999999999990.00'),
         ])
         .as('totalRefunded'),
@@ -241,6 +241,7 @@ export const fetchSales = async (options: {
       eb.ref('sale.note').as('note'),
       eb.ref('currency.alpha_code').as('currency'),
       eb.ref('saleProductSummary.totalAmount').as('totalAmount'),
+      eb.ref('saleProductSummary.taxAmount').as('taxAmount'),
       eb.ref('paymentSummary.totalPaid').as('amountPaid'),
       eb.ref('paymentSummary.totalRefunded').as('amountRefunded'),
       eb.ref('clientSessionSummary.clientSessionId').as('clientSessionId'),
@@ -422,6 +422,7 @@ const sendAcceptSideEffects = async (trx: DbTransaction, details: InvitationDeta
           trainer_id: details.trainerId,
           client_id: details.clientId,
           from_email: NO_REPLY_EMAIL,
+          message_type: 'booking_confirmation',
           from_name: `${details.serviceProviderName} via ${APP_NAME}`,
           to_email: details.clientEmail,
           to_name: details.clientFirstName ?? null,
@@ -1,8 +1,18 @@
 import type { NextRequest } from 'next/server'
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
+import { RecurrenceRuleError } from '@/lib/dates/recurrence'
+import { utcToLocalDateTime } from '@/lib/dates/timezone'
 import { db } from '@/lib/db'
 import { intervalFromMinutes } from '@/lib/db/values'
+import {
+  isUnboundedSeriesRecurrence,
+  loadSeriesRecurrence,
+  PaidOccurrenceRemovalError,
+  regenerateSeriesOccurrences,
+  resolveSeriesRecurrence,
+  seriesRecurrenceColumns,
+} from '@/server/sessionSeriesRecurrence'
 import { authenticateTrainerRequest, buildErrorResponse } from '../../_lib/accessToken'
 import { normalizeSessionSeriesRow, type RawSessionSeriesRow } from '../shared'
 
@@ -103,6 +113,15 @@ const requestBodySchema = z
     avatarName: trimmedStringToNull.optional(),
     sessionName: nullableTrimmedString.optional(),
     price: z.union([z.number().nonnegative(), z.null()]).optional(),
+    recurrenceRule: nullableTrimmedString.optional(),
+    exdates: z
+      .array(
+        z
+          .string()
+          .trim()
+          .regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2})?$/, 'exdates must be local date-times (YYYY-MM-DDTHH:MM:SS)')
+      )
+      .optional(),
   })
   .strict()
 
@@ -189,7 +208,7 @@ export async function PUT(request: NextRequest, context: HandlerContext) {
     const row = await db.transaction().execute(async (trx) => {
       const existing = await trx
         .selectFrom('session_series')
-        .select('id')
+        .select(['id', 'end_', 'timezone'])
         .where('id', '=', sessionSeriesId)
         .where('trainer_id', '=', authorization.trainerId)
         .executeTakeFirst()
@@ -233,6 +252,49 @@ export async function PUT(request: NextRequest, context: HandlerContext) {
           .executeTakeFirst()
       }
 
+      if (parsedBody.recurrenceRule !== undefined || parsedBody.exdates !== undefined) {
+        const current = await loadSeriesRecurrence(trx, authorization.trainerId, sessionSeriesId)
+        const recurrence = {
+          rule:
+            parsedBody.recurrenceRule === undefined
+              ? current.recurrence.rule
+              : resolveSeriesRecurrence({ recurrenceRule: parsedBody.recurrenceRule, exdates: [] }).rule,
+          exdates:
+            parsedBody.exdates === undefined
+              ? current.recurrence.exdates
+              : resolveSeriesRecurrence({ recurrenceRule: null, exdates: parsedBody.exdates }).exdates,
+        }
+        const unbounded = isUnboundedSeriesRecurrence(recurrence)
+
+        if (unbounded && !existing.end_) {
+          throw new RecurrenceRuleError('Recurrence rule must include COUNT or UNTIL when the series has no end date.')
+        }
+
+        await trx
+          .updateTable('session_series')
+          .set(seriesRecurrenceColumns(recurrence))
+          .where('id', '=', sessionSeriesId)
+          .where('trainer_id', '=', authorization.trainerId)
+          .executeTakeFirst()
+
+        // Past sessions keep their attendance; only upcoming occurrences follow the new rule.
+        const { lastStart } = await regenerateSeriesOccurrences(trx, {
+          trainerId: authorization.trainerId,
+          sessionSeriesId,
+          from: new Date(),
+          end: unbounded && existing.end_ ? utcToLocalDateTime(new Date(existing.end_), existing.timezone) : null,
+        })
+
+        if (!unbounded && lastStart) {
+          await trx
+            .updateTable('session_series')
+            .set({ end_: lastStart })
+            .where('id', '=', sessionSeriesId)
+            .where('trainer_id', '=', authorization.trainerId)
+            .executeTakeFirst()
+        }
+      }
+
       if (parsedBody.reminderHours !== undefined) {
         const reminderInterval =
           parsedBody.reminderHours === -1 ? null : intervalFromMinutes(Math.round(parsedBody.reminderHours * 60))
@@ -270,6 +332,21 @@ export async function PUT(request: NextRequest, context: HandlerContext) {
       return createLegacyNotFoundResponse()
     }
 
+    if (error instanceof RecurrenceRuleError) {
+      return createLegacyInvalidParametersResponse(error.message)
+    }
+
+    if (error instanceof PaidOccurrenceRemovalError) {
+      return NextResponse.json(
+        buildErrorResponse({
+          status: 409,
+          title: 'One or more clients has paid for the appointment. Please refund first before deleting.',
+          type: '/cant-delete-paid-appointment',
+        }),
+        { status: 409 }
+      )
+    }
+
     console.error('Failed to update session series', {
       trainerId: authorization.trainerId,
       sessionSeriesId,
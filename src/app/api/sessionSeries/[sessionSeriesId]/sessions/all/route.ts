@@ -2,6 +2,8 @@ import type { NextRequest } from 'next/server'
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
 import { db } from '@/lib/db'
+import { releaseSaleCredits } from '@/server/creditLedger'
+import { endSeriesBefore } from '@/server/sessionSeriesRecurrence'
 import { authenticateTrainerRequest, buildErrorResponse } from '../../../../_lib/accessToken'
 
 const paramsSchema = z.object({
@@ -126,8 +128,10 @@ export async function DELETE(request: NextRequest, context: HandlerContext) {
     const transactionResult = await db.transaction().execute(async (trx) => {
       const referenceSession = await trx
         .selectFrom('session')
-        .select('start')
+        .select(['start', 'recurrence_id'])
         .where('id', '=', sessionId)
+        .where('session_series_id', '=', sessionSeriesId)
+        .where('trainer_id', '=', authorization.trainerId)
         .executeTakeFirst()
 
       if (!referenceSession) {
@@ -181,6 +185,8 @@ export async function DELETE(request: NextRequest, context: HandlerContext) {
       )
 
       if (deletableSaleIds.length > 0) {
+        await releaseSaleCredits(trx, deletableSaleIds)
+
         const deleteSalesResult = await trx
           .deleteFrom('sale')
           .where('sale.id', 'in', deletableSaleIds)
@@ -194,6 +200,13 @@ export async function DELETE(request: NextRequest, context: HandlerContext) {
         }
       }
 
+      // Stop the rule before the first deleted occurrence so later regeneration does not bring them back.
+      await endSeriesBefore(trx, {
+        trainerId: authorization.trainerId,
+        sessionSeriesId,
+        at: new Date(referenceSession.recurrence_id ?? referenceSession.start),
+      })
+
       const sessionIds = Array.from(new Set(details.map((detail) => detail.sessionId)))
 
       if (sessionIds.length === 0) {
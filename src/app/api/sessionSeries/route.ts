@@ -1,20 +1,29 @@
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
-import {
-  addDaysToLocalDateTime,
-  compareLocalDateTimes,
-  isoLocalDateTimeToUtc,
-  localDateTimeToUtc,
-  parseIsoLocalDateTime,
-} from '@/lib/dates/timezone'
+import { RecurrenceRuleError } from '@/lib/dates/recurrence'
+import { isoLocalDateTimeToUtc, parseIsoLocalDateTime } from '@/lib/dates/timezone'
 import { db } from '@/lib/db'
-import { intervalFromDays, intervalFromMinutes, toPoint } from '@/lib/db/values'
+import { intervalFromMinutes, toPoint } from '@/lib/db/values'
+import { recordCreditPackPurchase } from '@/server/creditLedger'
+import { applySaleProductTax, getProductTaxMode } from '@/server/salesTax'
+import {
+  expandSeriesOccurrences,
+  isUnboundedSeriesRecurrence,
+  resolveSeriesRecurrence,
+  seriesRecurrenceColumns,
+  type SeriesRecurrence,
+} from '@/server/sessionSeriesRecurrence'
 import { authenticateTrainerRequest, buildErrorResponse } from '../_lib/accessToken'
 import { parseStrictJsonBody } from '../_lib/strictJson'
 import { normalizeSessionSeriesRow, type RawSessionSeriesRow } from './shared'
 
 const isoDateTimeSchema = z.string().trim().datetime({ offset: true })
 
+const localDateTimeSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2})?$/, 'exdates must be local date-times (YYYY-MM-DDTHH:MM:SS)')
+
 const nullableTrimmedString = z
   .union([z.string(), z.null()])
   .optional()
@@ -124,6 +133,8 @@ const commonPartialSchema = {
   geo: geoSchema,
   googlePlaceId: nullableTrimmedString,
   repeatsEvery: z.number().int().positive().nullable().optional(),
+  recurrenceRule: nullableTrimmedString,
+  exdates: z.array(localDateTimeSchema).optional(),
   endDate: isoDateTimeSchema.nullable().optional(),
   price: nullableNonNegativeNumberSchema.optional(),
   serviceId: nullableTrimmedString,
@@ -183,43 +194,6 @@ class ClientNotFoundError extends Error {
   }
 }
 
-const buildSessionStarts = (options: {
-  startDate: string
-  endDate: string | null | undefined
-  repeatsEvery: number | null | undefined
-  timeZone: string
-}): Date[] => {
-  const startParts = parseIsoLocalDateTime(options.startDate)
-  const endParts = options.endDate ? parseIsoLocalDateTime(options.endDate) : null
-  const stepDays = options.repeatsEvery ?? null
-
-  if (!stepDays && !endParts) {
-    return [isoLocalDateTimeToUtc(options.startDate, options.timeZone)]
-  }
-
-  if (stepDays && !endParts) {
-    return []
-  }
-
-  if (!stepDays) {
-    return [isoLocalDateTimeToUtc(options.startDate, options.timeZone)]
-  }
-
-  if (!endParts) {
-    return []
-  }
-
-  const starts: Date[] = []
-  let current = startParts
-
-  while (compareLocalDateTimes(current, endParts) <= 0) {
-    starts.push(localDateTimeToUtc(current, options.timeZone))
-    current = addDaysToLocalDateTime(current, stepDays)
-  }
-
-  return starts
-}
-
 const querySchema = z.object({
   createdAfter: z
     .string()
@@ -372,6 +346,53 @@ export async function POST(request: Request) {
     )
   }
 
+  if (data.recurrenceRule && data.repeatsEvery) {
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid request body',
+        detail: 'Provide either recurrenceRule or repeatsEvery, not both.',
+        type: '/invalid-body',
+      }),
+      { status: 400 }
+    )
+  }
+
+  let recurrence: SeriesRecurrence
+
+  try {
+    recurrence = resolveSeriesRecurrence({
+      recurrenceRule: data.recurrenceRule,
+      repeatsEvery: data.repeatsEvery,
+      exdates: data.exdates,
+    })
+  } catch (error) {
+    if (!(error instanceof RecurrenceRuleError)) {
+      throw error
+    }
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid recurrence rule',
+        detail: error.message,
+        type: '/invalid-recurrence-rule',
+      }),
+      { status: 400 }
+    )
+  }
+
+  if (isUnboundedSeriesRecurrence(recurrence) && !data.endDate) {
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid request body',
+        detail: 'endDate is required for repeating series unless the recurrence rule sets COUNT or UNTIL.',
+        type: '/invalid-body',
+      }),
+      { status: 400 }
+    )
+  }
+
   const appReminderTriggerMinutes =
     data.reminderHours === undefined || data.reminderHours === null || data.reminderHours === -1
       ? null
@@ -410,6 +431,19 @@ export async function POST(request: Request) {
       const seriesTimezone = data.timezone ?? trainerRow.timezone ?? 'UTC'
       const duration = intervalFromMinutes(Math.round(data.sessionLength * 60))
 
+      const occurrences = expandSeriesOccurrences({
+        recurrence,
+        start: parseIsoLocalDateTime(data.startDate),
+        end: data.endDate ? parseIsoLocalDateTime(data.endDate) : null,
+        timeZone: seriesTimezone,
+      })
+
+      if (occurrences.length === 0) {
+        throw new RecurrenceRuleError('The recurrence rule did not produce any sessions.')
+      }
+
+      const lastOccurrenceStart = occurrences[occurrences.length - 1].start
+
       const seriesInsert = await trx
         .insertInto('session_series')
         .values({
@@ -417,8 +451,12 @@ export async function POST(request: Request) {
           event_type: eventType,
           duration,
           start: isoLocalDateTimeToUtc(data.startDate, seriesTimezone),
-          end_: data.endDate ? isoLocalDateTimeToUtc(data.endDate, seriesTimezone) : null,
-          daily_recurrence_interval: data.repeatsEvery ? intervalFromDays(data.repeatsEvery) : null,
+          end_: data.endDate
+            ? isoLocalDateTimeToUtc(data.endDate, seriesTimezone)
+            : recurrence.rule
+              ? lastOccurrenceStart
+              : null,
+          ...seriesRecurrenceColumns(recurrence),
           location: data.location ?? null,
           timezone: seriesTimezone,
           price: data.price ?? null,
@@ -452,23 +490,13 @@ export async function POST(request: Request) {
       const clientReminder2Interval = data.clientReminder2?.timeBeforeStart ?? null
       const clientReminder2Type = data.clientReminder2?.type ?? 'email'
 
-      const sessionStarts = buildSessionStarts({
-        startDate: data.startDate,
-        endDate: data.endDate,
-        repeatsEvery: data.repeatsEvery,
-        timeZone: seriesTimezone,
-      })
-
-      if (sessionStarts.length === 0) {
-        throw new Error('Failed to create sessions for session series')
-      }
-
       const sessionInsert = await trx
         .insertInto('session')
         .values(
-          sessionStarts.map((start) => ({
+          occurrences.map(({ start }) => ({
             session_series_id: sessionSeriesId,
             start,
+            recurrence_id: start,
             duration,
             timezone: seriesTimezone,
             maximum_attendance: data.maximumAttendance ?? null,
@@ -566,6 +594,16 @@ export async function POST(request: Request) {
               throw new Error('Failed to create sale product')
             }
 
+            const taxMode = await getProductTaxMode(trx, authorization.trainerId, saleProduct.productId)
+            if (taxMode !== 'none') {
+              await applySaleProductTax(trx, {
+                trainerId: authorization.trainerId,
+                saleProductId,
+                price: saleProduct.price,
+                taxMode,
+              })
+            }
+
             if (saleProduct.type === 'item') {
               await trx
                 .insertInto('sale_item')
@@ -584,6 +622,7 @@ export async function POST(request: Request) {
                   total_credits: saleProduct.totalCredits,
                 })
                 .executeTakeFirst()
+              await recordCreditPackPurchase(trx, saleProductId)
             } else if (saleProduct.type === 'service') {
               await trx
                 .insertInto('sale_service')
@@ -629,6 +668,18 @@ export async function POST(request: Request) {
       )
     }
 
+    if (error instanceof RecurrenceRuleError) {
+      return NextResponse.json(
+        buildErrorResponse({
+          status: 400,
+          title: 'Invalid recurrence rule',
+          detail: error.message,
+          type: '/invalid-recurrence-rule',
+        }),
+        { status: 400 }
+      )
+    }
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         buildErrorResponse({
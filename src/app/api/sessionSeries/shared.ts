@@ -92,6 +92,8 @@ export const sessionSeriesSchema = z.object({
   startDate: z.string(),
   endDate: z.string(),
   repeatsEvery: nullableNumber,
+  recurrenceRule: z.string().nullable(),
+  exdates: z.array(z.string()),
   reminderHours: z.number(),
   location: z.string().nullable(),
   price: nullableNumber,
@@ -456,6 +458,8 @@ export const normalizeSessionSeriesRow = (row: RawSessionSeriesRow, index: numbe
       startDate: ensureString(row.startDate, `${label}.startDate`),
       endDate: ensureString(row.endDate, `${label}.endDate`),
       repeatsEvery: nullableNumber.parse(row.repeatsEvery),
+      recurrenceRule: parseNullableString(row.recurrenceRule),
+      exdates: row.exdates ?? [],
       reminderHours: ensureFiniteNumber(row.reminderHours, `${label}.reminderHours`),
       location: parseNullableString(row.location),
       price: nullableNumber.parse(row.price),
@@ -0,0 +1,148 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { AttendanceFeePaidError, attendanceOutcomes, recordAttendance } from '@/server/attendance'
+import { attendingClientSessionStates } from '@/server/sessionWaitlist'
+import { authenticateTrainerRequest, buildErrorResponse } from '../../../_lib/accessToken'
+import { parseStrictJsonBody } from '../../../_lib/strictJson'
+
+const paramsSchema = z.object({
+  sessionId: z.string({ message: 'Session id is required.' }).trim().min(1, 'Session id must not be empty.'),
+})
+
+const requestBodySchema = z
+  .object({
+    attendance: z.enum(attendanceOutcomes).nullable(),
+    // Defaults to everyone booked into the session, for checking a whole class in at once.
+    clientSessionIds: z.array(z.string().trim().min(1)).min(1).optional(),
+  })
+  .strict()
+
+type HandlerContext = RouteContext<'/api/sessions/[sessionId]/attendance'>
+
+class SessionNotFoundError extends Error {
+  constructor() {
+    super('Session not found')
+    this.name = 'SessionNotFoundError'
+  }
+}
+
+export async function PUT(request: NextRequest, context: HandlerContext) {
+  const paramsResult = paramsSchema.safeParse(await context.params)
+
+  if (!paramsResult.success) {
+    const detail = paramsResult.error.issues.map((issue) => issue.message).join('; ')
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid path parameters',
+        detail: detail || 'Session id parameter did not match the expected schema.',
+        type: '/invalid-path-parameters',
+      }),
+      { status: 400 }
+    )
+  }
+
+  const parsedJson = await parseStrictJsonBody(request)
+  if (!parsedJson.ok) {
+    return parsedJson.response
+  }
+
+  const bodyResult = requestBodySchema.safeParse(parsedJson.data)
+  if (!bodyResult.success) {
+    const detail = bodyResult.error.issues.map((issue) => issue.message).join('; ')
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid request body',
+        detail: detail || 'Request body did not match the expected schema.',
+        type: '/invalid-body',
+      }),
+      { status: 400 }
+    )
+  }
+
+  const authorization = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while recording session attendance',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  const { sessionId } = paramsResult.data
+  const { attendance, clientSessionIds } = bodyResult.data
+
+  try {
+    const records = await db.transaction().execute(async (trx) => {
+      const session = await trx
+        .selectFrom('session')
+        .select('id')
+        .where('id', '=', sessionId)
+        .where('trainer_id', '=', authorization.trainerId)
+        .executeTakeFirst()
+
+      if (!session) {
+        throw new SessionNotFoundError()
+      }
+
+      let query = trx
+        .selectFrom('client_session')
+        .select('id')
+        .where('session_id', '=', sessionId)
+        .where('trainer_id', '=', authorization.trainerId)
+
+      query = clientSessionIds
+        ? query.where('id', 'in', clientSessionIds)
+        : query.where('state', 'in', attendingClientSessionStates)
+
+      const rows = await query.execute()
+
+      return recordAttendance(trx, {
+        trainerId: authorization.trainerId,
+        clientSessionIds: rows.map((row) => row.id),
+        attendance,
+      })
+    })
+
+    return NextResponse.json(records)
+  } catch (error) {
+    if (error instanceof AttendanceFeePaidError) {
+      return NextResponse.json(
+        buildErrorResponse({
+          status: 409,
+          title: error.message,
+          type: '/attendance-fee-paid',
+        }),
+        { status: 409 }
+      )
+    }
+
+    if (error instanceof SessionNotFoundError) {
+      return NextResponse.json(
+        buildErrorResponse({
+          status: 404,
+          title: 'Session not found',
+          type: '/resource-not-found',
+        }),
+        { status: 404 }
+      )
+    }
+
+    console.error('Failed to record session attendance', {
+      trainerId: authorization.trainerId,
+      sessionId,
+      error,
+    })
+
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 500,
+        title: 'Failed to record attendance',
+        type: '/internal-server-error',
+      }),
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,7 @@ import type { NextRequest } from 'next/server'
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
 import { db } from '@/lib/db'
+import { releaseSaleCredits } from '@/server/creditLedger'
 import { authenticateTrainerRequest, buildErrorResponse } from '../../../../_lib/accessToken'
 
 const paramsSchema = z.object({
@@ -178,6 +179,8 @@ export async function DELETE(request: NextRequest, context: HandlerContext) {
       )
 
       if (deletableSaleIds.length > 0) {
+        await releaseSaleCredits(trx, deletableSaleIds)
+
         const deleteSalesResult = await trx
           .deleteFrom('sale')
           .where('sale.id', 'in', deletableSaleIds)
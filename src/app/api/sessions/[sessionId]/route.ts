@@ -1,9 +1,16 @@
 import type { NextRequest } from 'next/server'
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
-import { isoLocalDateTimeToUtc } from '@/lib/dates/timezone'
+import { isoLocalDateTimeToUtc, parseIsoLocalDateTime, utcToLocalDateTime } from '@/lib/dates/timezone'
 import { db } from '@/lib/db'
 import { intervalFromMinutes, toPoint } from '@/lib/db/values'
+import { releaseSaleCredits } from '@/server/creditLedger'
+import {
+  excludeOccurrence,
+  loadSeriesRecurrence,
+  moveSeriesTimeOfDay,
+  splitSeriesAt,
+} from '@/server/sessionSeriesRecurrence'
 import type { RawSessionRow } from '../shared'
 import { authenticateTrainerRequest, buildErrorResponse } from '../../_lib/accessToken'
 import { parseStrictJsonBody } from '../../_lib/strictJson'
@@ -82,6 +89,10 @@ const requestBodySchema = z
   })
   .strict()
 
+const updateQuerySchema = z.object({
+  scope: z.enum(['this', 'following', 'all']).default('this'),
+})
+
 const deleteResponseSchema = z.object({
   count: z.number().int().nonnegative(),
 })
@@ -95,6 +106,13 @@ class SessionNotFoundError extends Error {
   }
 }
 
+class ScopedDateChangeError extends Error {
+  constructor() {
+    super('Only the time of day can change when editing following or all occurrences')
+    this.name = 'ScopedDateChangeError'
+  }
+}
+
 class PaidAppointmentDeletionError extends Error {
   constructor() {
     super('Cannot delete paid appointment')
@@ -248,6 +266,23 @@ export async function PUT(request: NextRequest, context: HandlerContext) {
 
   const parsedBody = validation.data
 
+  const url = new URL(request.url)
+  const parsedQuery = updateQuerySchema.safeParse({ scope: url.searchParams.get('scope') ?? undefined })
+
+  if (!parsedQuery.success) {
+    const detail = parsedQuery.error.issues.map((issue) => issue.message).join('; ')
+
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid query parameters',
+        detail: detail || 'Request query parameters did not match the expected schema.',
+        type: '/invalid-query-parameters',
+      }),
+      { status: 400 }
+    )
+  }
+
   const hasUpdates = Object.values(parsedBody).some((value) => value !== undefined)
 
   try {
@@ -260,6 +295,9 @@ export async function PUT(request: NextRequest, context: HandlerContext) {
           eb.ref('s.timezone').as('sessionTimezone'),
           eb.ref('ss.timezone').as('seriesTimezone'),
           eb.ref('t.timezone').as('trainerTimezone'),
+          eb.ref('s.session_series_id').as('sessionSeriesId'),
+          eb.ref('s.start').as('start'),
+          eb.ref('s.recurrence_id').as('recurrenceId'),
         ])
         .where('s.id', '=', sessionId)
         .where('s.trainer_id', '=', authorization.trainerId)
@@ -273,15 +311,50 @@ export async function PUT(request: NextRequest, context: HandlerContext) {
         const timezone =
           sessionContext.sessionTimezone ?? sessionContext.seriesTimezone ?? sessionContext.trainerTimezone ?? 'UTC'
 
+        const { series, recurrence } = await loadSeriesRecurrence(
+          trx,
+          authorization.trainerId,
+          sessionContext.sessionSeriesId
+        )
+        const occurrenceStart = new Date(sessionContext.recurrenceId ?? sessionContext.start)
+
+        // Without a rule there is nothing to share the edit with. Editing the first occurrence onwards is the whole
+        // series, so it is not split.
+        const scope = !recurrence.rule
+          ? 'this'
+          : parsedQuery.data.scope === 'following' && occurrenceStart <= series.start
+            ? 'all'
+            : parsedQuery.data.scope
+
+        const now = new Date()
         const updateData: Record<string, unknown> = {}
+        let timeOfDay: { hour: number; minute: number; second: number } | null = null
 
         if (parsedBody.date !== undefined) {
-          updateData.start = isoLocalDateTimeToUtc(parsedBody.date, timezone)
+          if (scope === 'this') {
+            updateData.start = isoLocalDateTimeToUtc(parsedBody.date, timezone)
+          } else {
+            const requested = parseIsoLocalDateTime(parsedBody.date)
+            const current = utcToLocalDateTime(new Date(sessionContext.start), timezone)
+
+            if (requested.year !== current.year || requested.month !== current.month || requested.day !== current.day) {
+              throw new ScopedDateChangeError()
+            }
+
+            timeOfDay = { hour: requested.hour, minute: requested.minute, second: requested.second }
+          }
+
+          updateData.service_provider_reminder_1_checked_at = null
+          updateData.service_provider_reminder_2_checked_at = null
+          updateData.client_reminder_1_checked_at = null
+          updateData.client_reminder_2_checked_at = null
         }
 
-        if (parsedBody.length !== undefined) {
-          const durationMinutes = Math.round(parsedBody.length * 60)
-          updateData.duration = intervalFromMinutes(durationMinutes)
+        const duration =
+          parsedBody.length !== undefined ? intervalFromMinutes(Math.round(parsedBody.length * 60)) : undefined
+
+        if (duration !== undefined) {
+          updateData.duration = duration
         }
 
         if (parsedBody.maximumAttendance !== undefined) {
@@ -310,6 +383,7 @@ export async function PUT(request: NextRequest, context: HandlerContext) {
 
         if (parsedBody.serviceProviderReminder1 !== undefined) {
           updateData.service_provider_reminder_1 = parsedBody.serviceProviderReminder1?.timeBeforeStart ?? null
+          updateData.service_provider_reminder_1_checked_at = null
           if (parsedBody.serviceProviderReminder1) {
             updateData.service_provider_reminder_1_type = parsedBody.serviceProviderReminder1.type
           }
@@ -317,6 +391,7 @@ export async function PUT(request: NextRequest, context: HandlerContext) {
 
         if (parsedBody.serviceProviderReminder2 !== undefined) {
           updateData.service_provider_reminder_2 = parsedBody.serviceProviderReminder2?.timeBeforeStart ?? null
+          updateData.service_provider_reminder_2_checked_at = null
           if (parsedBody.serviceProviderReminder2) {
             updateData.service_provider_reminder_2_type = parsedBody.serviceProviderReminder2.type
           }
@@ -324,6 +399,7 @@ export async function PUT(request: NextRequest, context: HandlerContext) {
 
         if (parsedBody.clientReminder1 !== undefined) {
           updateData.client_reminder_1 = parsedBody.clientReminder1?.timeBeforeStart ?? null
+          updateData.client_reminder_1_checked_at = null
           if (parsedBody.clientReminder1) {
             updateData.client_reminder_1_type = parsedBody.clientReminder1.type
           }
@@ -331,6 +407,7 @@ export async function PUT(request: NextRequest, context: HandlerContext) {
 
         if (parsedBody.clientReminder2 !== undefined) {
           updateData.client_reminder_2 = parsedBody.clientReminder2?.timeBeforeStart ?? null
+          updateData.client_reminder_2_checked_at = null
           if (parsedBody.clientReminder2) {
             updateData.client_reminder_2_type = parsedBody.clientReminder2.type
           }
@@ -356,9 +433,8 @@ export async function PUT(request: NextRequest, context: HandlerContext) {
           updateData.booking_payment_type = parsedBody.bookingPaymentType
         }
 
-        if (parsedBody.note !== undefined) {
-          updateData.note = parsedBody.note
-        }
+        // Notes belong to a single occurrence whatever the scope.
+        const noteUpdate = parsedBody.note !== undefined ? { note: parsedBody.note } : {}
 
         if (parsedBody.canClientsCancel !== undefined) {
           updateData.can_clients_cancel = parsedBody.canClientsCancel
@@ -380,16 +456,62 @@ export async function PUT(request: NextRequest, context: HandlerContext) {
           updateData.booking_question_state = parsedBody.bookingQuestionState
         }
 
+        if (scope === 'this') {
+          Object.assign(updateData, noteUpdate)
+        } else if (Object.keys(noteUpdate).length > 0) {
+          await trx
+            .updateTable('session')
+            .set(noteUpdate)
+            .where('session.id', '=', sessionId)
+            .where('session.trainer_id', '=', authorization.trainerId)
+            .execute()
+        }
+
+        const targetSeriesId =
+          scope === 'following'
+            ? await splitSeriesAt(trx, {
+                trainerId: authorization.trainerId,
+                sessionSeriesId: sessionContext.sessionSeriesId,
+                at: occurrenceStart,
+              })
+            : sessionContext.sessionSeriesId
+
+        if (timeOfDay) {
+          await moveSeriesTimeOfDay(trx, {
+            trainerId: authorization.trainerId,
+            sessionSeriesId: targetSeriesId,
+            time: timeOfDay,
+            includeSessionId: sessionId,
+            now,
+          })
+        }
+
+        if (scope !== 'this' && duration !== undefined) {
+          await trx
+            .updateTable('session_series')
+            .set({ duration })
+            .where('id', '=', targetSeriesId)
+            .where('trainer_id', '=', authorization.trainerId)
+            .execute()
+        }
+
         if (Object.keys(updateData).length > 0) {
-          const updated = await trx
+          let query = trx
             .updateTable('session')
             .set(updateData)
-            .where('session.id', '=', sessionId)
             .where('session.trainer_id', '=', authorization.trainerId)
-            .returning('session.id')
-            .executeTakeFirst()
 
-          if (!updated) {
+          // Series-wide edits leave past occurrences as they happened.
+          query =
+            scope === 'this'
+              ? query.where('session.id', '=', sessionId)
+              : query
+                  .where('session.session_series_id', '=', targetSeriesId)
+                  .where((eb) => eb.or([eb('session.start', '>=', now), eb('session.id', '=', sessionId)]))
+
+          const updated = await query.returning('session.id').execute()
+
+          if (updated.length === 0) {
             throw new SessionNotFoundError()
           }
         }
@@ -423,6 +545,18 @@ export async function PUT(request: NextRequest, context: HandlerContext) {
       )
     }
 
+    if (error instanceof ScopedDateChangeError) {
+      return NextResponse.json(
+        buildErrorResponse({
+          status: 400,
+          title: 'Invalid request body',
+          detail: 'Moving an appointment to another day can only be applied to this occurrence.',
+          type: '/invalid-body',
+        }),
+        { status: 400 }
+      )
+    }
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         buildErrorResponse({
@@ -520,6 +654,8 @@ export async function DELETE(request: NextRequest, context: HandlerContext) {
       )
 
       if (deletableSaleIds.length > 0) {
+        await releaseSaleCredits(trx, deletableSaleIds)
+
         const deleteSalesResult = await trx
           .deleteFrom('sale')
           .where('sale.id', 'in', deletableSaleIds)
@@ -537,13 +673,24 @@ export async function DELETE(request: NextRequest, context: HandlerContext) {
         .deleteFrom('session')
         .where('session.id', '=', sessionId)
         .where('session.trainer_id', '=', authorization.trainerId)
-        .returning((eb) => [eb.ref('session.id').as('id')])
+        .returning((eb) => [
+          eb.ref('session.id').as('id'),
+          eb.ref('session.session_series_id').as('sessionSeriesId'),
+          eb.ref('session.start').as('start'),
+          eb.ref('session.recurrence_id').as('recurrenceId'),
+        ])
         .executeTakeFirst()
 
       if (!deletedSession) {
         throw new SessionNotFoundError()
       }
 
+      await excludeOccurrence(trx, {
+        trainerId: authorization.trainerId,
+        sessionSeriesId: deletedSession.sessionSeriesId,
+        recurrenceId: new Date(deletedSession.recurrenceId ?? deletedSession.start),
+      })
+
       return { count: 1 }
     })
 
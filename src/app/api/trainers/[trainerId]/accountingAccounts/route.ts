@@ -0,0 +1,111 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { accountingAccountSchema, listAccountingAccounts, saveAccountingAccounts } from '@/server/accountingExport'
+import { authenticateTrainerRequest, buildErrorResponse } from '../../../_lib/accessToken'
+import { parseStrictJsonBody } from '../../../_lib/strictJson'
+
+const requestBodySchema = z.array(
+  z
+    .object({
+      account: accountingAccountSchema,
+      code: z
+        .string()
+        .trim()
+        .min(1, 'code must not be empty.')
+        .max(32, 'code must be 32 characters or fewer.')
+        .nullable(),
+      name: z
+        .string()
+        .trim()
+        .min(1, 'name must not be empty.')
+        .max(150, 'name must be 150 characters or fewer.')
+        .optional(),
+    })
+    .strict()
+)
+
+type HandlerContext = RouteContext<'/api/trainers/[trainerId]/accountingAccounts'>
+
+/** The account codes and names the accounting export posts to. */
+export async function GET(request: NextRequest, context: HandlerContext) {
+  void context
+
+  const authorization = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while fetching accounting accounts',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  try {
+    return NextResponse.json(await listAccountingAccounts(db, authorization.trainerId))
+  } catch (error) {
+    console.error('Failed to fetch accounting accounts', { trainerId: authorization.trainerId, error })
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 500,
+        title: 'Failed to fetch accounting accounts',
+        type: '/internal-server-error',
+      }),
+      { status: 500 }
+    )
+  }
+}
+
+/** Sets the codes and names of the accounts given. A null code puts an account back to its default. */
+export async function PUT(request: NextRequest, context: HandlerContext) {
+  void context
+
+  const parsedJson = await parseStrictJsonBody(request)
+  if (!parsedJson.ok) {
+    return parsedJson.response
+  }
+
+  const bodyResult = requestBodySchema.safeParse(parsedJson.data)
+  if (!bodyResult.success) {
+    const detail = bodyResult.error.issues
+      .map((issue) => {
+        const path = issue.path.length > 0 ? `${issue.path.join('.')}: ` : ''
+        return `${path}${issue.message}`
+      })
+      .join('; ')
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid request body',
+        detail: detail || 'Request body did not match the expected schema.',
+        type: '/invalid-body',
+      }),
+      { status: 400 }
+    )
+  }
+
+  const authorization = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while updating accounting accounts',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  try {
+    const accounts = await db
+      .transaction()
+      .execute((trx) => saveAccountingAccounts(trx, authorization.trainerId, bodyResult.data))
+
+    return NextResponse.json(accounts)
+  } catch (error) {
+    console.error('Failed to update accounting accounts', { trainerId: authorization.trainerId, error })
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 500,
+        title: 'Failed to update accounting accounts',
+        type: '/internal-server-error',
+      }),
+      { status: 500 }
+    )
+  }
+}
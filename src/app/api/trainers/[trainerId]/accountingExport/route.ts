@@ -0,0 +1,98 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { formatCsv } from '@/lib/csv'
+import { db } from '@/lib/db'
+import {
+  accountingExportLayoutSchema,
+  AccountingExportTrainerNotFoundError,
+  accountingJournalCsvRows,
+  getAccountingJournal,
+} from '@/server/accountingExport'
+import { authenticateTrainerRequest, buildErrorResponse } from '../../../_lib/accessToken'
+import { createCsvResponse } from '../../../_lib/csv'
+
+const isoDateSchema = (name: string) =>
+  z
+    .string()
+    .trim()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, `${name} must be a date formatted as YYYY-MM-DD`)
+    .refine((value) => !Number.isNaN(Date.parse(`${value}T00:00:00Z`)), `${name} must be a valid date`)
+
+const querySchema = z
+  .object({
+    startDate: isoDateSchema('startDate'),
+    endDate: isoDateSchema('endDate'),
+    layout: accountingExportLayoutSchema.default('journal'),
+  })
+  .refine((value) => value.startDate <= value.endDate, {
+    message: 'endDate must not be before startDate',
+    path: ['endDate'],
+  })
+
+type HandlerContext = RouteContext<'/api/trainers/[trainerId]/accountingExport'>
+
+/** Journal entries for a date range as a CSV download, in a generic double-entry, Xero or QuickBooks layout. */
+export async function GET(request: NextRequest, context: HandlerContext) {
+  void context
+
+  const searchParams = request.nextUrl.searchParams
+  const queryResult = querySchema.safeParse({
+    startDate: searchParams.get('startDate') ?? undefined,
+    endDate: searchParams.get('endDate') ?? undefined,
+    layout: searchParams.get('layout') ?? undefined,
+  })
+
+  if (!queryResult.success) {
+    const detail = queryResult.error.issues.map((issue) => issue.message).join('; ')
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid query parameters',
+        detail: detail || 'Request query parameters did not match the expected schema.',
+        type: '/invalid-query',
+      }),
+      { status: 400 }
+    )
+  }
+
+  const authorization = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while exporting accounting journal',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  const { layout, ...range } = queryResult.data
+
+  try {
+    const journal = await getAccountingJournal(db, authorization.trainerId, range)
+
+    return createCsvResponse({
+      fileName: `journal-${layout}-${journal.startDate}-to-${journal.endDate}.csv`,
+      content: formatCsv(accountingJournalCsvRows(journal, layout)),
+    })
+  } catch (error) {
+    if (error instanceof AccountingExportTrainerNotFoundError) {
+      return NextResponse.json(
+        buildErrorResponse({
+          status: 404,
+          title: 'Trainer not found',
+          type: '/resource-not-found',
+        }),
+        { status: 404 }
+      )
+    }
+
+    console.error('Failed to export accounting journal', { trainerId: authorization.trainerId, error })
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 500,
+        title: 'Failed to export accounting journal',
+        type: '/internal-server-error',
+      }),
+      { status: 500 }
+    )
+  }
+}
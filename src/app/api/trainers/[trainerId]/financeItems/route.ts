@@ -2,6 +2,7 @@ import type { NextRequest } from 'next/server'
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
 import { db } from '@/lib/db'
+import { expenseCategorySchema } from '@/server/profitAndLoss'
 import { authenticateTrainerRequest, buildErrorResponse } from '../../../_lib/accessToken'
 import { adaptFinanceItemRow, financeItemListSchema, type FinanceItemRow } from '../../../financeItems/shared'
 
@@ -21,6 +22,7 @@ const requestBodySchema = z.array(
         }
         return date
       }),
+      category: expenseCategorySchema.nullable().optional(),
     })
     .strict()
 )
@@ -97,6 +99,7 @@ export async function GET(request: NextRequest, context: HandlerContext) {
         eb.ref('v.startDate').as('startDate'),
         eb.ref('v.createdAt').as('createdAt'),
         eb.ref('v.updatedAt').as('updatedAt'),
+        eb.ref('v.category').as('category'),
       ])
       .where('v.trainerId', '=', authorization.trainerId)
 
@@ -185,6 +188,7 @@ export async function POST(request: NextRequest, context: HandlerContext) {
             name: item.name,
             amount: item.amount,
             start_date: item.startDate,
+            category: item.category ?? null,
           }))
         )
         .returning((eb) => [eb.ref('finance_item.id').as('id')])
@@ -210,6 +214,7 @@ export async function POST(request: NextRequest, context: HandlerContext) {
           eb.ref('v.startDate').as('startDate'),
           eb.ref('v.createdAt').as('createdAt'),
           eb.ref('v.updatedAt').as('updatedAt'),
+          eb.ref('v.category').as('category'),
         ])
         .where('v.trainerId', '=', authorization.trainerId)
         .where('v.id', 'in', ids)
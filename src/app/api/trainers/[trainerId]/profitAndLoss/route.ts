@@ -0,0 +1,104 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { formatCsv } from '@/lib/csv'
+import { db } from '@/lib/db'
+import {
+  getProfitAndLoss,
+  profitAndLossCsvRows,
+  profitAndLossPeriodSchema,
+  ProfitAndLossTrainerNotFoundError,
+} from '@/server/profitAndLoss'
+import { authenticateTrainerRequest, buildErrorResponse } from '../../../_lib/accessToken'
+import { createCsvResponse } from '../../../_lib/csv'
+
+const isoDateSchema = (name: string) =>
+  z
+    .string()
+    .trim()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, `${name} must be a date formatted as YYYY-MM-DD`)
+    .refine((value) => !Number.isNaN(Date.parse(`${value}T00:00:00Z`)), `${name} must be a valid date`)
+
+const querySchema = z
+  .object({
+    startDate: isoDateSchema('startDate').optional(),
+    endDate: isoDateSchema('endDate').optional(),
+    period: profitAndLossPeriodSchema.default('month'),
+    format: z.enum(['json', 'csv']).default('json'),
+  })
+  .refine((value) => !value.startDate || !value.endDate || value.startDate <= value.endDate, {
+    message: 'endDate must not be before startDate',
+    path: ['endDate'],
+  })
+
+type HandlerContext = RouteContext<'/api/trainers/[trainerId]/profitAndLoss'>
+
+/** Revenue, refunds, card fees and expenses by month, quarter or year, as JSON or as a CSV download. */
+export async function GET(request: NextRequest, context: HandlerContext) {
+  void context
+
+  const searchParams = request.nextUrl.searchParams
+  const queryResult = querySchema.safeParse({
+    startDate: searchParams.get('startDate') ?? undefined,
+    endDate: searchParams.get('endDate') ?? undefined,
+    period: searchParams.get('period') ?? undefined,
+    format: searchParams.get('format') ?? undefined,
+  })
+
+  if (!queryResult.success) {
+    const detail = queryResult.error.issues.map((issue) => issue.message).join('; ')
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid query parameters',
+        detail: detail || 'Request query parameters did not match the expected schema.',
+        type: '/invalid-query',
+      }),
+      { status: 400 }
+    )
+  }
+
+  const authorization = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while fetching profit and loss',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  const { format, ...options } = queryResult.data
+
+  try {
+    const report = await getProfitAndLoss(db, authorization.trainerId, options)
+
+    if (format === 'csv') {
+      return createCsvResponse({
+        fileName: `profit-and-loss-${report.startDate}-to-${report.endDate}.csv`,
+        content: formatCsv(profitAndLossCsvRows(report)),
+      })
+    }
+
+    return NextResponse.json(report)
+  } catch (error) {
+    if (error instanceof ProfitAndLossTrainerNotFoundError) {
+      return NextResponse.json(
+        buildErrorResponse({
+          status: 404,
+          title: 'Trainer not found',
+          type: '/resource-not-found',
+        }),
+        { status: 404 }
+      )
+    }
+
+    console.error('Failed to fetch profit and loss', { trainerId: authorization.trainerId, error })
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 500,
+        title: 'Failed to fetch profit and loss',
+        type: '/internal-server-error',
+      }),
+      { status: 500 }
+    )
+  }
+}
@@ -1,15 +1,53 @@
 import type { NextRequest } from 'next/server'
+import BigNumber from 'bignumber.js'
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
+import { db } from '@/lib/db'
 import { authenticateTrainerRequest, buildErrorResponse } from '../../../_lib/accessToken'
 
-const responseSchema = z.array(z.unknown())
+const moneyString = z.string().regex(/^-?\d+(?:\.\d{2})$/, 'Money values must be formatted with two decimal places')
+
+const taxItemSchema = z.object({
+  id: z.string(),
+  saleId: z.string(),
+  saleProductId: z.string(),
+  taxId: z.string(),
+  label: z.string(),
+  percent: z.number(),
+  taxableAmount: moneyString,
+  amount: moneyString,
+  createdAt: z.string().datetime({ offset: true }),
+})
+
+const responseSchema = z.array(taxItemSchema)
+
+const querySchema = z.object({
+  saleId: z.string().uuid('saleId must be a valid UUID').optional(),
+})
 
 type HandlerContext = RouteContext<'/api/trainers/[trainerId]/taxItems'>
 
+/** The tax lines charged on the trainer's sales, optionally for one sale. */
 export async function GET(request: NextRequest, context: HandlerContext) {
   void context
 
+  const queryResult = querySchema.safeParse({
+    saleId: request.nextUrl.searchParams.get('saleId')?.trim() || undefined,
+  })
+
+  if (!queryResult.success) {
+    const detail = queryResult.error.issues.map((issue) => issue.message).join('; ')
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid query parameters',
+        detail: detail || 'Request query parameters did not match the expected schema.',
+        type: '/invalid-query',
+      }),
+      { status: 400 }
+    )
+  }
+
   const authorization = await authenticateTrainerRequest(request, {
     extensionFailureLogMessage: 'Failed to extend access token expiry while fetching tax items',
   })
@@ -18,7 +56,60 @@ export async function GET(request: NextRequest, context: HandlerContext) {
     return authorization.response
   }
 
-  const emptyResponse = responseSchema.parse([])
+  try {
+    let query = db
+      .selectFrom('sale_tax')
+      .select((eb) => [
+        eb.ref('id').as('id'),
+        eb.ref('sale_id').as('saleId'),
+        eb.ref('sale_product_id').as('saleProductId'),
+        eb.ref('tax_id').as('taxId'),
+        eb.ref('label').as('label'),
+        eb.ref('percent').as('percent'),
+        eb.ref('taxable_amount').as('taxableAmount'),
+        eb.ref('amount').as('amount'),
+        eb.ref('created_at').as('createdAt'),
+      ])
+      .where('trainer_id', '=', authorization.trainerId)
+
+    if (queryResult.data.saleId) {
+      query = query.where('sale_id', '=', queryResult.data.saleId)
+    }
+
+    const rows = await query.orderBy('created_at', 'desc').orderBy('tax_id').execute()
 
-  return NextResponse.json(emptyResponse)
+    const taxItems = responseSchema.parse(
+      rows.map((row) => ({
+        ...row,
+        percent: Number(row.percent),
+        taxableAmount: new BigNumber(row.taxableAmount).toFixed(2),
+        amount: new BigNumber(row.amount).toFixed(2),
+        createdAt: new Date(row.createdAt).toISOString(),
+      }))
+    )
+
+    return NextResponse.json(taxItems)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        buildErrorResponse({
+          status: 500,
+          title: 'Failed to parse tax item data from database',
+          detail: 'Tax item data did not match the expected response schema.',
+          type: '/invalid-response',
+        }),
+        { status: 500 }
+      )
+    }
+
+    console.error('Failed to fetch tax items', { trainerId: authorization.trainerId, error })
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 500,
+        title: 'Failed to fetch tax items',
+        type: '/internal-server-error',
+      }),
+      { status: 500 }
+    )
+  }
 }
@@ -0,0 +1,83 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { getTaxSummary, TaxSummaryTrainerNotFoundError } from '@/server/taxSummary'
+import { authenticateTrainerRequest, buildErrorResponse } from '../../../_lib/accessToken'
+
+const isoDateSchema = (name: string) =>
+  z
+    .string()
+    .trim()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, `${name} must be a date formatted as YYYY-MM-DD`)
+    .refine((value) => !Number.isNaN(Date.parse(`${value}T00:00:00Z`)), `${name} must be a valid date`)
+
+const querySchema = z
+  .object({
+    startDate: isoDateSchema('startDate'),
+    endDate: isoDateSchema('endDate'),
+  })
+  .refine((value) => value.startDate <= value.endDate, {
+    message: 'endDate must not be before startDate',
+    path: ['endDate'],
+  })
+
+type HandlerContext = RouteContext<'/api/trainers/[trainerId]/taxSummary'>
+
+export async function GET(request: NextRequest, context: HandlerContext) {
+  void context
+
+  const searchParams = request.nextUrl.searchParams
+  const queryResult = querySchema.safeParse({
+    startDate: searchParams.get('startDate') ?? undefined,
+    endDate: searchParams.get('endDate') ?? undefined,
+  })
+
+  if (!queryResult.success) {
+    const detail = queryResult.error.issues.map((issue) => issue.message).join('; ')
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid query parameters',
+        detail: detail || 'Request query parameters did not match the expected schema.',
+        type: '/invalid-query',
+      }),
+      { status: 400 }
+    )
+  }
+
+  const authorization = await authenticateTrainerRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while fetching tax summary',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  try {
+    const summary = await getTaxSummary(db, authorization.trainerId, queryResult.data)
+
+    return NextResponse.json(summary)
+  } catch (error) {
+    if (error instanceof TaxSummaryTrainerNotFoundError) {
+      return NextResponse.json(
+        buildErrorResponse({
+          status: 404,
+          title: 'Trainer not found',
+          type: '/resource-not-found',
+        }),
+        { status: 404 }
+      )
+    }
+
+    console.error('Failed to fetch tax summary', { trainerId: authorization.trainerId, error })
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 500,
+        title: 'Failed to fetch tax summary',
+        type: '/internal-server-error',
+      }),
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,117 @@
+import { NextResponse } from 'next/server'
+
+import { db } from '@/lib/db'
+import { handleInboundSms } from '@/server/inboundSms'
+import { isFormUrlEncoded, validateTwilioSignature } from '@/server/workflow/twilio'
+
+import { buildErrorResponse } from '../_lib/accessToken'
+
+const createTwilioNotAvailableResponse = () =>
+  NextResponse.json(
+    buildErrorResponse({
+      status: 503,
+      title: 'Twilio not available.',
+      type: '/twilio-not-available',
+    }),
+    { status: 503 }
+  )
+
+const createInvalidSignatureResponse = () =>
+  NextResponse.json(
+    buildErrorResponse({
+      status: 401,
+      title: 'Your access token is invalid or expired.',
+      type: '/invalid-access-token',
+    }),
+    { status: 401 }
+  )
+
+const createInvalidBodyResponse = (detail?: string) =>
+  NextResponse.json(
+    buildErrorResponse({
+      status: 400,
+      title: 'Invalid request body',
+      detail: detail ?? 'Request body did not match the expected schema.',
+      type: '/invalid-body',
+    }),
+    { status: 400 }
+  )
+
+const createInternalErrorResponse = () =>
+  NextResponse.json(
+    buildErrorResponse({
+      status: 500,
+      title: 'Failed to handle incoming Twilio message',
+      type: '/internal-server-error',
+    }),
+    { status: 500 }
+  )
+
+/** An empty TwiML response, so Twilio doesn't send a reply of its own. */
+const createEmptyTwimlResponse = () =>
+  new Response('<?xml version="1.0" encoding="UTF-8"?><Response></Response>', {
+    status: 200,
+    headers: { 'Content-Type': 'text/xml' },
+  })
+
+export async function POST(request: Request) {
+  const authToken = process.env.TWILIO_AUTH_TOKEN
+
+  if (!authToken) {
+    console.error('Twilio not configured', { hasAuthToken: false })
+    return createTwilioNotAvailableResponse()
+  }
+
+  const twilioSignature = request.headers.get('x-twilio-signature')
+
+  if (!twilioSignature) {
+    return createInvalidSignatureResponse()
+  }
+
+  let rawBody: string
+  try {
+    rawBody = await request.text()
+  } catch (error) {
+    console.error('Failed to read incoming Twilio message payload', error)
+    return createInvalidBodyResponse('Failed to read request body.')
+  }
+
+  const contentType = request.headers.get('content-type') ?? ''
+
+  if (
+    !validateTwilioSignature({ authToken, signature: twilioSignature, requestUrl: request.url, rawBody, contentType })
+  ) {
+    console.warn('Invalid Twilio signature', { requestUrl: request.url })
+    return createInvalidSignatureResponse()
+  }
+
+  if (!isFormUrlEncoded(contentType)) {
+    return createInvalidBodyResponse('Expected a form-encoded Twilio message.')
+  }
+
+  const params = new URLSearchParams(rawBody)
+  const messageSid = params.get('MessageSid')
+  const from = params.get('From')
+  const to = params.get('To')
+
+  if (!messageSid || !from || !to) {
+    return createInvalidBodyResponse('MessageSid, From and To are required.')
+  }
+
+  try {
+    await db.transaction().execute((trx) =>
+      handleInboundSms(trx, {
+        provider: 'twilio',
+        providerMessageId: messageSid,
+        from,
+        to,
+        body: params.get('Body') ?? '',
+      })
+    )
+  } catch (error) {
+    console.error('Failed to handle incoming Twilio message', { messageSid, error })
+    return createInternalErrorResponse()
+  }
+
+  return createEmptyTwimlResponse()
+}
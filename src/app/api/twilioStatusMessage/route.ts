@@ -1,8 +1,9 @@
 import { NextResponse } from 'next/server'
 import { Buffer } from 'node:buffer'
-import crypto from 'node:crypto'
 
 import { db, type Json } from '@/lib/db'
+import { suppressFailedTwilioMessage } from '@/server/messageSuppressions'
+import { isFormUrlEncoded, validateTwilioSignature } from '@/server/workflow/twilio'
 
 import { buildErrorResponse } from '../_lib/accessToken'
 
@@ -49,74 +50,6 @@ const createInternalErrorResponse = () =>
 
 const sanitizeMessage = (message: unknown): Json => JSON.parse(JSON.stringify(message)) as Json
 
-const isFormUrlEncoded = (contentType: string) =>
-  contentType.toLowerCase().startsWith('application/x-www-form-urlencoded')
-
-const buildValidationUrl = (requestUrl: string) => {
-  const url = new URL(requestUrl)
-  const baseUrl = process.env.BASE_URL
-
-  if (baseUrl) {
-    const parsedBase = new URL(baseUrl)
-    url.host = parsedBase.host
-    url.protocol = 'https:'
-  }
-
-  return url.toString()
-}
-
-const secureCompare = (a: string, b: string) => {
-  const aBuffer = Buffer.from(a)
-  const bBuffer = Buffer.from(b)
-
-  if (aBuffer.length !== bBuffer.length) {
-    return false
-  }
-
-  return crypto.timingSafeEqual(aBuffer, bBuffer)
-}
-
-const buildExpectedSignature = ({
-  authToken,
-  url,
-  rawBody,
-  contentType,
-}: {
-  authToken: string
-  url: string
-  rawBody: string
-  contentType: string
-}) => {
-  if (isFormUrlEncoded(contentType)) {
-    const params = new URLSearchParams(rawBody)
-    const sortedEntries = [...params.entries()].toSorted(([a], [b]) => a.localeCompare(b))
-    const data = url + sortedEntries.map(([key, value]) => key + value).join('')
-    return crypto.createHmac('sha1', authToken).update(data).digest('base64')
-  }
-
-  return crypto
-    .createHmac('sha1', authToken)
-    .update(url + rawBody)
-    .digest('base64')
-}
-
-const validateTwilioSignature = ({
-  authToken,
-  signature,
-  url,
-  rawBody,
-  contentType,
-}: {
-  authToken: string
-  signature: string
-  url: string
-  rawBody: string
-  contentType: string
-}) => {
-  const expectedSignature = buildExpectedSignature({ authToken, url, rawBody, contentType })
-  return secureCompare(signature, expectedSignature)
-}
-
 const parseMessageSid = (rawBody: string, contentType: string): string | null => {
   if (isFormUrlEncoded(contentType)) {
     return new URLSearchParams(rawBody).get('MessageSid')
@@ -177,10 +110,11 @@ export async function POST(request: Request) {
   }
 
   const contentType = request.headers.get('content-type') ?? ''
-  const validationUrl = buildValidationUrl(request.url)
 
-  if (!validateTwilioSignature({ authToken, signature: twilioSignature, url: validationUrl, rawBody, contentType })) {
-    console.warn('Invalid Twilio signature', { validationUrl })
+  if (
+    !validateTwilioSignature({ authToken, signature: twilioSignature, requestUrl: request.url, rawBody, contentType })
+  ) {
+    console.warn('Invalid Twilio signature', { requestUrl: request.url })
     return createInvalidSignatureResponse()
   }
 
@@ -199,6 +133,8 @@ export async function POST(request: Request) {
       .values({ sid: messageSid, object: sanitizedMessage })
       .onConflict((oc) => oc.column('sid').doUpdateSet({ object: sanitizedMessage }))
       .execute()
+
+    await suppressFailedTwilioMessage(db, sanitizedMessage)
   } catch (error) {
     console.error('Failed to record Twilio message status', { messageSid, error })
     return createInternalErrorResponse()
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server'
 import { dispatchOutboxOnce } from '@/server/workflow/dispatcher'
+import { isAuthorizedBySecretToken, readSecretTokens } from '../../_lib/secretToken'
 
 export const maxDuration = 30
 
@@ -11,35 +12,10 @@ const parsePositiveInt = (value: string | null, fallback: number) => {
   return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
 }
 
-const getDispatchTokens = () =>
-  [process.env.WORKFLOW_OUTBOX_DISPATCH_SECRET, process.env.CRON_SECRET].filter((value): value is string =>
-    Boolean(value && value.trim())
-  )
-
-const isAuthorized = (request: Request) => {
-  const tokens = getDispatchTokens()
-  if (tokens.length === 0) {
-    return true
-  }
-
-  const url = new URL(request.url)
-  const queryToken = url.searchParams.get('token')
-  if (queryToken && tokens.includes(queryToken)) {
-    return true
-  }
-
-  const authorization = request.headers.get('authorization') ?? ''
-  const bearerPrefix = 'Bearer '
-  if (authorization.startsWith(bearerPrefix)) {
-    const token = authorization.slice(bearerPrefix.length).trim()
-    return tokens.includes(token)
-  }
-
-  return false
-}
+const getDispatchTokens = () => readSecretTokens(process.env.WORKFLOW_OUTBOX_DISPATCH_SECRET, process.env.CRON_SECRET)
 
 const handleDispatchRequest = async (request: Request) => {
-  if (!isAuthorized(request)) {
+  if (!isAuthorizedBySecretToken(request, getDispatchTokens())) {
     return NextResponse.json(
       {
         status: 'unauthorized',
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { getOutboxLag } from '@/server/workflow/metrics'
+import { OUTBOX_LOCK_TIMEOUT_SECONDS } from '@/server/workflow/outbox-shared'
+import { isAuthorizedBySecretToken, readSecretTokens } from '../../_lib/secretToken'
+
+const parsePositiveInt = (value: string | undefined, fallback: number) => {
+  if (!value) {
+    return fallback
+  }
+  const parsed = Number.parseInt(value, 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+const MAX_PENDING_AGE_SECONDS = parsePositiveInt(process.env.WORKFLOW_HEALTH_MAX_PENDING_AGE_SECONDS, 300)
+
+/**
+ * Reports whether the outbox is keeping up. Responds 503 when a due task has waited longer than
+ * `WORKFLOW_HEALTH_MAX_PENDING_AGE_SECONDS` or any task is stuck dispatching, so uptime checks can alert on it.
+ */
+export async function GET(request: Request) {
+  if (!isAuthorizedBySecretToken(request, readSecretTokens(process.env.METRICS_SECRET))) {
+    return NextResponse.json({ status: 'unauthorized' }, { status: 401 })
+  }
+
+  let lag: Awaited<ReturnType<typeof getOutboxLag>>
+  try {
+    lag = await getOutboxLag(db)
+  } catch (error) {
+    console.error('Failed to check workflow outbox health', error)
+    return NextResponse.json({ status: 'error' }, { status: 503 })
+  }
+
+  const oldestPendingAgeSeconds = Math.max(0, ...lag.pending.map((row) => row.ageSeconds))
+  const stuckDispatching = lag.stuck.reduce((total, row) => total + row.count, 0)
+  const healthy = oldestPendingAgeSeconds <= MAX_PENDING_AGE_SECONDS && stuckDispatching === 0
+
+  return NextResponse.json(
+    {
+      status: healthy ? 'ok' : 'degraded',
+      oldestPendingAgeSeconds: Math.round(oldestPendingAgeSeconds),
+      maxPendingAgeSeconds: MAX_PENDING_AGE_SECONDS,
+      stuckDispatching,
+      stuckDispatchingAfterSeconds: OUTBOX_LOCK_TIMEOUT_SECONDS,
+      taskTypes: Object.fromEntries(
+        [...new Set([...lag.pending.map((row) => row.taskType), ...lag.stuck.map((row) => row.taskType)])]
+          .toSorted()
+          .map((taskType) => [
+            taskType,
+            {
+              oldestPendingAgeSeconds: Math.round(
+                lag.pending.find((row) => row.taskType === taskType)?.ageSeconds ?? 0
+              ),
+              stuckDispatching: lag.stuck.find((row) => row.taskType === taskType)?.count ?? 0,
+            },
+          ])
+      ),
+    },
+    { status: healthy ? 200 : 503, headers: { 'Cache-Control': 'no-store' } }
+  )
+}
@@ -0,0 +1,87 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import {
+  requeueOutboxTask,
+  getOutboxTask,
+  OutboxTaskNotFoundError,
+  OutboxTaskStatusConflictError,
+} from '@/server/workflow/outboxAdmin'
+import { authenticateAdminRequest, buildErrorResponse } from '../../../../_lib/accessToken'
+
+const paramsSchema = z.object({
+  outboxId: z.string().trim().uuid({ message: 'Outbox id must be a valid UUID.' }),
+})
+
+type HandlerContext = RouteContext<'/api/workflows/outbox/[outboxId]/requeue'>
+
+export async function POST(request: NextRequest, context: HandlerContext) {
+  const paramsResult = paramsSchema.safeParse(await context.params)
+
+  if (!paramsResult.success) {
+    const detail = paramsResult.error.issues.map((issue) => issue.message).join('; ')
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid path parameters',
+        detail: detail || 'Outbox id parameter did not match the expected schema.',
+        type: '/invalid-path-parameters',
+      }),
+      { status: 400 }
+    )
+  }
+
+  const authorization = await authenticateAdminRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while trying to re-queue outbox task',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  const { outboxId } = paramsResult.data
+
+  try {
+    const task = await db.transaction().execute(async (trx) => {
+      await requeueOutboxTask(trx, outboxId, `user:${authorization.userId}`)
+      return getOutboxTask(trx, outboxId)
+    })
+
+    return NextResponse.json(task)
+  } catch (error) {
+    if (error instanceof OutboxTaskNotFoundError) {
+      return NextResponse.json(
+        buildErrorResponse({
+          status: 404,
+          title: 'Outbox task not found',
+          type: '/resource-not-found',
+        }),
+        { status: 404 }
+      )
+    }
+
+    if (error instanceof OutboxTaskStatusConflictError) {
+      return NextResponse.json(
+        buildErrorResponse({
+          status: 409,
+          title: 'Outbox task status conflict',
+          detail: error.message,
+          type: '/outbox-task-status-conflict',
+        }),
+        { status: 409 }
+      )
+    }
+
+    console.error('Failed to re-queue outbox task', { outboxId, userId: authorization.userId, error })
+
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 500,
+        title: 'Failed to re-queue outbox task',
+        type: '/internal-server-error',
+      }),
+      { status: 500 }
+    )
+  }
+}
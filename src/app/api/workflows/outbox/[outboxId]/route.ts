@@ -0,0 +1,67 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { getOutboxTask } from '@/server/workflow/outboxAdmin'
+import { authenticateAdminRequest, buildErrorResponse } from '../../../_lib/accessToken'
+
+const paramsSchema = z.object({
+  outboxId: z.string().trim().uuid({ message: 'Outbox id must be a valid UUID.' }),
+})
+
+type HandlerContext = RouteContext<'/api/workflows/outbox/[outboxId]'>
+
+export async function GET(request: NextRequest, context: HandlerContext) {
+  const paramsResult = paramsSchema.safeParse(await context.params)
+
+  if (!paramsResult.success) {
+    const detail = paramsResult.error.issues.map((issue) => issue.message).join('; ')
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid path parameters',
+        detail: detail || 'Outbox id parameter did not match the expected schema.',
+        type: '/invalid-path-parameters',
+      }),
+      { status: 400 }
+    )
+  }
+
+  const authorization = await authenticateAdminRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while fetching outbox task',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  const { outboxId } = paramsResult.data
+
+  try {
+    const task = await getOutboxTask(db, outboxId)
+
+    if (!task) {
+      return NextResponse.json(
+        buildErrorResponse({
+          status: 404,
+          title: 'Outbox task not found',
+          type: '/resource-not-found',
+        }),
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(task)
+  } catch (error) {
+    console.error('Failed to fetch outbox task', { outboxId, error })
+
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 500,
+        title: 'Failed to fetch outbox task',
+        type: '/internal-server-error',
+      }),
+      { status: 500 }
+    )
+  }
+}
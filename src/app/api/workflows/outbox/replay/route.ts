@@ -0,0 +1,63 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { replayDeadLetteredOutboxTasks } from '@/server/workflow/outboxAdmin'
+import { authenticateAdminRequest, buildErrorResponse } from '../../../_lib/accessToken'
+import { parseStrictJsonBody } from '../../../_lib/strictJson'
+
+const requestBodySchema = z
+  .object({
+    taskType: z.string().trim().min(1, 'taskType is required'),
+  })
+  .strict()
+
+export async function POST(request: NextRequest) {
+  const parsedJson = await parseStrictJsonBody(request)
+  if (!parsedJson.ok) {
+    return parsedJson.response
+  }
+
+  const bodyResult = requestBodySchema.safeParse(parsedJson.data)
+  if (!bodyResult.success) {
+    const detail = bodyResult.error.issues.map((issue) => issue.message).join('; ')
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid request body',
+        detail: detail || 'Request body did not match the expected schema.',
+        type: '/invalid-body',
+      }),
+      { status: 400 }
+    )
+  }
+
+  const authorization = await authenticateAdminRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while replaying outbox tasks',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  const { taskType } = bodyResult.data
+
+  try {
+    const requeued = await db
+      .transaction()
+      .execute((trx) => replayDeadLetteredOutboxTasks(trx, taskType, `user:${authorization.userId}`))
+
+    return NextResponse.json({ taskType, requeued })
+  } catch (error) {
+    console.error('Failed to replay outbox tasks', { taskType, userId: authorization.userId, error })
+
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 500,
+        title: 'Failed to replay outbox tasks',
+        type: '/internal-server-error',
+      }),
+      { status: 500 }
+    )
+  }
+}
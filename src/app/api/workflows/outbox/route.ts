@@ -0,0 +1,67 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { OUTBOX_STATUS } from '@/server/workflow/outbox-shared'
+import { countOutboxTasks, listOutboxTasks } from '@/server/workflow/outboxAdmin'
+import { authenticateAdminRequest, buildErrorResponse } from '../../_lib/accessToken'
+
+const querySchema = z.object({
+  status: z.enum(Object.values(OUTBOX_STATUS)).optional(),
+  taskType: z.string().trim().min(1).optional(),
+  dedupeKey: z.string().trim().min(1).optional(),
+  before: z
+    .string()
+    .datetime({ offset: true, message: 'before must be an ISO 8601 date-time.' })
+    .transform((value) => new Date(value))
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+})
+
+export async function GET(request: NextRequest) {
+  const url = new URL(request.url)
+  const queryResult = querySchema.safeParse({
+    status: url.searchParams.get('status') ?? undefined,
+    taskType: url.searchParams.get('taskType') ?? undefined,
+    dedupeKey: url.searchParams.get('dedupeKey') ?? undefined,
+    before: url.searchParams.get('before') ?? undefined,
+    limit: url.searchParams.get('limit') ?? undefined,
+  })
+
+  if (!queryResult.success) {
+    const detail = queryResult.error.issues.map((issue) => issue.message).join('; ')
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 400,
+        title: 'Invalid query parameters',
+        detail: detail || 'Request query parameters did not match the expected schema.',
+        type: '/invalid-query',
+      }),
+      { status: 400 }
+    )
+  }
+
+  const authorization = await authenticateAdminRequest(request, {
+    extensionFailureLogMessage: 'Failed to extend access token expiry while listing outbox tasks',
+  })
+
+  if (!authorization.ok) {
+    return authorization.response
+  }
+
+  try {
+    const [tasks, counts] = await Promise.all([listOutboxTasks(db, queryResult.data), countOutboxTasks(db)])
+    return NextResponse.json({ tasks, counts })
+  } catch (error) {
+    console.error('Failed to list outbox tasks', { filters: queryResult.data, error })
+
+    return NextResponse.json(
+      buildErrorResponse({
+        status: 500,
+        title: 'Failed to list outbox tasks',
+        type: '/internal-server-error',
+      }),
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,7 @@
 import { AlertTriangle } from 'lucide-react'
 
 import { cardIsExpired } from '@/lib/client-dashboard/format'
+import { createTranslator } from '@/lib/i18n'
 import { CardIcon } from './CardIcon'
 
 type CardDetails = {
@@ -12,14 +13,17 @@ type CardDetails = {
 
 type Props = {
   card: CardDetails | null
+  locale: string
 }
 
-export function CardDetails({ card }: Props) {
+export function CardDetails({ card, locale }: Props) {
+  const { t } = createTranslator(locale)
+
   if (!card) {
     return (
       <div className="flex items-center gap-2 text-sm text-foreground">
         <AlertTriangle className="size-4 text-amber-500" aria-hidden />
-        <span>No card on file</span>
+        <span>{t('dashboard.card.none')}</span>
       </div>
     )
   }
@@ -31,7 +35,10 @@ export function CardDetails({ card }: Props) {
       <CardIcon className="h-6 w-auto" brand={card.brand} />
       <span className="font-medium text-foreground">•••• {card.last4}</span>
       <span className={expired ? 'text-destructive' : 'text-muted-foreground'}>
-        {expired ? 'Expired' : 'Expires'} {card.expMonth}/{card.expYear.toString()}
+        {t(expired ? 'dashboard.card.expired' : 'dashboard.card.expires', {
+          month: card.expMonth,
+          year: card.expYear.toString(),
+        })}
       </span>
     </div>
   )
@@ -4,16 +4,40 @@ import type { Route } from 'next'
 import type { ReactNode } from 'react'
 import { Elements } from '@stripe/react-stripe-js'
 import { loadStripe } from '@stripe/stripe-js'
-import { CreditCard, HelpCircle, LogOut, Menu, X, ShieldCheck, Home, Mail, ExternalLink, FileText } from 'lucide-react'
+import {
+  CreditCard,
+  HelpCircle,
+  LogOut,
+  Menu,
+  X,
+  ShieldCheck,
+  Home,
+  Mail,
+  ExternalLink,
+  FileText,
+  Languages,
+} from 'lucide-react'
 import Link from 'next/link'
 import { usePathname, useRouter } from 'next/navigation'
 import { useMemo, useTransition } from 'react'
 
-import { logoutClientDashboard } from '@/app/(client-dashboard)/client-dashboard/actions'
+import { logoutClientDashboard, updateClientDashboardLocale } from '@/app/(client-dashboard)/client-dashboard/actions'
+import { APP_NAME } from '@/app/api/_lib/constants'
 import { KeeponLogo } from '@/components/keepon-logo'
 import { buttonVariants } from '@/components/ui/button'
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
 import { Sheet, SheetClose, SheetContent, SheetTrigger } from '@/components/ui/sheet'
+import { createTranslator, supportedLanguages, type Translator } from '@/lib/i18n'
 import { cn } from '@/lib/utils'
 
 export type ClientDashboardShellProps = {
@@ -24,6 +48,7 @@ export type ClientDashboardShellProps = {
     brandColor: string
   }
   clientEmail: string
+  locale: string
   stripePublishableKey: string | null
   stripeAccount?: {
     id: string
@@ -32,33 +57,33 @@ export type ClientDashboardShellProps = {
 }
 
 const navLinks = [
-  { href: '/client-dashboard', label: 'Home', icon: Home },
-  { href: '/client-dashboard/payment-method', label: 'Payment Method', icon: CreditCard },
-  { href: '/client-dashboard/faq', label: 'Help Center', icon: HelpCircle },
+  { href: '/client-dashboard', label: 'dashboard.nav.home', icon: Home },
+  { href: '/client-dashboard/payment-method', label: 'dashboard.nav.paymentMethod', icon: CreditCard },
+  { href: '/client-dashboard/faq', label: 'dashboard.nav.helpCenter', icon: HelpCircle },
 ] as const
 
 const helpLinks = [
   {
     href: 'mailto:enquiry@getkeepon.com?subject=Client%20Dashboard%20Feedback&body=%0A%0A',
-    label: 'Feedback',
+    label: 'dashboard.nav.feedback',
     icon: Mail,
     external: true,
   },
   {
     href: 'https://getkeepon.com/terms-of-service/',
-    label: 'Terms',
+    label: 'dashboard.nav.terms',
     icon: FileText,
     external: true,
   },
   {
     href: 'https://getkeepon.com/privacy',
-    label: 'Privacy',
+    label: 'dashboard.nav.privacy',
     icon: ShieldCheck,
     external: true,
   },
-]
+] as const
 
-function NavLinks({ className, onNavigate }: { className?: string; onNavigate?: () => void }) {
+function NavLinks({ t, className, onNavigate }: { t: Translator['t']; className?: string; onNavigate?: () => void }) {
   const pathname = usePathname()
 
   return (
@@ -77,7 +102,7 @@ function NavLinks({ className, onNavigate }: { className?: string; onNavigate?:
             )}
           >
             <Icon className="size-4" aria-hidden />
-            {link.label}
+            {t(link.label)}
           </Link>
         )
       })}
@@ -85,7 +110,7 @@ function NavLinks({ className, onNavigate }: { className?: string; onNavigate?:
   )
 }
 
-function HelpLinks({ className }: { className?: string }) {
+function HelpLinks({ t, className }: { t: Translator['t']; className?: string }) {
   return (
     <div className={cn('space-y-1', className)}>
       {helpLinks.map((link) => {
@@ -99,7 +124,7 @@ function HelpLinks({ className }: { className?: string }) {
             className="flex items-center gap-2 rounded-lg px-3 py-2 text-sm text-muted-foreground transition hover:bg-muted/60 hover:text-foreground"
           >
             <Icon className="size-4" aria-hidden />
-            <span>{link.label}</span>
+            <span>{t(link.label)}</span>
             {link.external ? <ExternalLink className="ml-auto size-3 text-muted-foreground" aria-hidden /> : null}
           </a>
         )
@@ -112,11 +137,13 @@ export function ClientDashboardShell({
   children,
   serviceProvider,
   clientEmail,
+  locale,
   stripePublishableKey,
   stripeAccount,
 }: ClientDashboardShellProps) {
   const router = useRouter()
   const [isPending, startTransition] = useTransition()
+  const { language, t } = useMemo(() => createTranslator(locale), [locale])
 
   const stripePromise = useMemo(() => {
     if (!stripePublishableKey) {
@@ -133,6 +160,15 @@ export function ClientDashboardShell({
     })
   }
 
+  const handleLanguageChange = (value: string) => {
+    startTransition(async () => {
+      const result = await updateClientDashboardLocale({ locale: value })
+      if (result.ok) {
+        router.refresh()
+      }
+    })
+  }
+
   return (
     <div
       className="min-h-screen bg-muted/40"
@@ -163,21 +199,21 @@ export function ClientDashboardShell({
               )}
               <div className="min-w-0">
                 <p className="truncate text-sm font-semibold text-foreground">{serviceProvider.name}</p>
-                <p className="text-xs text-muted-foreground">Client dashboard</p>
+                <p className="text-xs text-muted-foreground">{t('dashboard.shellTitle')}</p>
               </div>
             </div>
 
             <div className="mt-6 flex-1 space-y-6">
-              <NavLinks />
+              <NavLinks t={t} />
               <div className="border-t border-border/60 pt-4">
-                <HelpLinks />
+                <HelpLinks t={t} />
               </div>
             </div>
 
             <div className="mt-6 border-t border-border/60 pt-4 text-xs text-muted-foreground">
               <div className="flex items-center gap-2">
                 <KeeponLogo className="h-4 w-auto" />
-                Powered by Keepon
+                {t('dashboard.nav.poweredBy', { appName: APP_NAME })}
               </div>
             </div>
           </aside>
@@ -188,7 +224,7 @@ export function ClientDashboardShell({
                 <Sheet>
                   <SheetTrigger
                     className={cn(buttonVariants({ variant: 'ghost', size: 'icon' }), 'lg:hidden')}
-                    aria-label="Open menu"
+                    aria-label={t('dashboard.nav.openMenu')}
                   >
                     <Menu className="size-5" aria-hidden />
                   </SheetTrigger>
@@ -209,20 +245,20 @@ export function ClientDashboardShell({
                         )}
                         <div>
                           <p className="text-sm font-semibold text-foreground">{serviceProvider.name}</p>
-                          <p className="text-xs text-muted-foreground">Client dashboard</p>
+                          <p className="text-xs text-muted-foreground">{t('dashboard.shellTitle')}</p>
                         </div>
                       </div>
                       <SheetClose
                         className={cn(buttonVariants({ variant: 'ghost', size: 'icon' }))}
-                        aria-label="Close menu"
+                        aria-label={t('dashboard.nav.closeMenu')}
                       >
                         <X className="size-4" aria-hidden />
                       </SheetClose>
                     </div>
                     <div className="space-y-6">
-                      <NavLinks />
+                      <NavLinks t={t} />
                       <div className="border-t border-border/60 pt-4">
-                        <HelpLinks />
+                        <HelpLinks t={t} />
                       </div>
                     </div>
                   </SheetContent>
@@ -230,19 +266,36 @@ export function ClientDashboardShell({
 
                 <div className="flex flex-col">
                   <span className="text-sm font-semibold text-foreground">{serviceProvider.name}</span>
-                  <span className="text-xs text-muted-foreground">Client dashboard</span>
+                  <span className="text-xs text-muted-foreground">{t('dashboard.shellTitle')}</span>
                 </div>
               </div>
 
               <DropdownMenu>
                 <DropdownMenuTrigger className={cn(buttonVariants({ variant: 'outline', size: 'sm' }), 'gap-2')}>
                   <span className="max-w-[160px] truncate">{clientEmail}</span>
-                  <span className={cn('text-xs text-muted-foreground', isPending && 'opacity-60')}>Account</span>
+                  <span className={cn('text-xs text-muted-foreground', isPending && 'opacity-60')}>
+                    {t('dashboard.nav.account')}
+                  </span>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end" className="w-48">
+                  <DropdownMenuSub>
+                    <DropdownMenuSubTrigger className="text-sm">
+                      <Languages className="size-4" aria-hidden />
+                      {t('dashboard.nav.language')}
+                    </DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent>
+                      <DropdownMenuRadioGroup value={language} onValueChange={handleLanguageChange}>
+                        {supportedLanguages.map((option) => (
+                          <DropdownMenuRadioItem key={option} value={option} className="text-sm" lang={option}>
+                            {new Intl.DisplayNames([option], { type: 'language' }).of(option) ?? option}
+                          </DropdownMenuRadioItem>
+                        ))}
+                      </DropdownMenuRadioGroup>
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
                   <DropdownMenuItem onSelect={handleLogout} className="text-sm">
                     <LogOut className="size-4" aria-hidden />
-                    Logout
+                    {t('dashboard.nav.logout')}
                   </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
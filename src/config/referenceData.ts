@@ -28,7 +28,15 @@ export const brandColors = [
   'yellow',
 ] as const
 
-export const clientSessionStates = ['accepted', 'cancelled', 'confirmed', 'declined', 'invited', 'maybe'] as const
+export const clientSessionStates = [
+  'accepted',
+  'cancelled',
+  'confirmed',
+  'declined',
+  'invited',
+  'maybe',
+  'waitlisted',
+] as const
 
 export const clientStatuses = ['current', 'lead', 'past'] as const
 
@@ -51,6 +51,7 @@ export const productSchema = z.object({
   totalCredits: z.number().int().nullable().optional(),
   description: z.string().nullable().optional(),
   bookableOnline: z.boolean().optional(),
+  taxMode: z.enum(['none', 'inclusive', 'exclusive']).optional(),
 })
 
 export const serviceProductSchema = productSchema.extend({
@@ -75,6 +76,8 @@ export const saleProductSchema = z.object({
   type: z.string(),
   name: z.string(),
   price: numericString,
+  taxMode: z.enum(['none', 'inclusive', 'exclusive']).optional(),
+  taxAmount: numericString.nullish(),
   currency: z.string(),
   totalCredits: z.number().int().nullable().optional(),
   creditsUsed: z.number().int().nullable().optional(),
@@ -109,7 +112,7 @@ export const clientSessionSchema = z.object({
   clientId: z.string(),
   sessionId: z.string(),
   price: numericString.nullish(),
-  state: z.enum(['maybe', 'cancelled', 'invited', 'confirmed', 'accepted', 'declined']).optional(),
+  state: z.enum(['maybe', 'cancelled', 'invited', 'confirmed', 'accepted', 'declined', 'waitlisted']).optional(),
   attended: z.boolean().nullable().optional(),
   createdAt: dateOrString.optional(),
   saleId: z.string().nullable().optional(),
@@ -1,12 +1,5 @@
 import BigNumber from 'bignumber.js'
 
-export const capitalize = (value: string) => {
-  if (!value) {
-    return value
-  }
-  return value.charAt(0).toUpperCase() + value.slice(1)
-}
-
 export const formatCurrency = (amount: number | string | BigNumber, currency: string, locale?: string) => {
   const numeric = BigNumber.isBigNumber(amount) ? amount.toNumber() : Number(amount)
   if (!Number.isFinite(numeric)) {
@@ -23,6 +16,9 @@ export const formatCurrency = (amount: number | string | BigNumber, currency: st
   }
 }
 
+export const formatDate = (date: Date, locale?: string, dateStyle: 'medium' | 'full' = 'medium') =>
+  new Intl.DateTimeFormat(locale, { dateStyle }).format(date)
+
 export const cardIsExpired = ({ expMonth, expYear }: { expMonth: number; expYear: number }) => {
   const now = new Date()
   const year = now.getUTCFullYear()
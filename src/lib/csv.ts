@@ -0,0 +1,25 @@
+export type CsvValue = string | number | null | undefined
+
+const needsQuoting = /[",\r\n]/
+
+// Spreadsheets run cells starting with these as formulas, so text that does is kept as text.
+const formulaPrefix = /^[=+\-@\t\r]/
+
+const isNumeric = (value: string) => /^-?\d+(?:\.\d+)?$/.test(value)
+
+const formatCell = (value: CsvValue) => {
+  if (value === null || value === undefined) {
+    return ''
+  }
+
+  let text = String(value)
+  if (typeof value === 'string' && formulaPrefix.test(text) && !isNumeric(text)) {
+    text = `'${text}`
+  }
+
+  return needsQuoting.test(text) ? `"${text.replaceAll('"', '""')}"` : text
+}
+
+/** Formats rows as RFC 4180 CSV, with a header row first if there is one. */
+export const formatCsv = (rows: readonly (readonly CsvValue[])[]) =>
+  rows.map((row) => row.map(formatCell).join(',')).join('\r\n') + '\r\n'
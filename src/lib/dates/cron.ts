@@ -0,0 +1,211 @@
+import { addDaysToLocalDateTime, localDateTimeToUtc, type LocalDateTime, utcToLocalDateTime } from './timezone'
+
+/** A parsed five field cron expression: minute, hour, day of month, month and day of week. */
+export type CronExpression = {
+  minutes: number[]
+  hours: number[]
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  /** Cron matches a day when either day field matches, unless one of them is `*`. */
+  daysOfMonthRestricted: boolean
+  daysOfWeekRestricted: boolean
+}
+
+export class CronExpressionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CronExpressionError'
+  }
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC']
+const WEEKDAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT']
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+}
+
+/** Long enough to reach the next 29 February from any date. */
+const MAX_SEARCH_DAYS = 8 * 366
+
+type FieldSpec = { name: string; min: number; max: number; names?: string[]; nameOffset?: number }
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  // 7 is accepted as Sunday and folded onto 0 below.
+  { name: 'day of week', min: 0, max: 7, names: WEEKDAY_NAMES, nameOffset: 0 },
+]
+
+const parseValue = (value: string, field: FieldSpec) => {
+  const nameIndex = field.names?.indexOf(value.toUpperCase()) ?? -1
+  if (nameIndex >= 0) {
+    return nameIndex + (field.nameOffset ?? 0)
+  }
+
+  if (!/^\d+$/.test(value)) {
+    throw new CronExpressionError(`Invalid ${field.name} value "${value}".`)
+  }
+
+  const parsed = Number(value)
+  if (parsed < field.min || parsed > field.max) {
+    throw new CronExpressionError(`${field.name} value ${parsed} is out of range.`)
+  }
+  return parsed
+}
+
+const parseField = (source: string, field: FieldSpec) => {
+  const values = new Set<number>()
+
+  for (const part of source.split(',')) {
+    const [range, stepSource] = part.split('/')
+    const step = stepSource === undefined ? 1 : Number(stepSource)
+    if (!range || !Number.isInteger(step) || step < 1) {
+      throw new CronExpressionError(`Invalid ${field.name} field "${source}".`)
+    }
+
+    let start: number
+    let end: number
+    if (range === '*') {
+      start = field.min
+      end = field.max
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-')
+      start = parseValue(from ?? '', field)
+      end = parseValue(to ?? '', field)
+    } else {
+      start = parseValue(range, field)
+      end = stepSource === undefined ? start : field.max
+    }
+
+    if (start > end) {
+      throw new CronExpressionError(`Invalid ${field.name} range "${range}".`)
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return values
+}
+
+export const parseCronExpression = (expression: string): CronExpression => {
+  const trimmed = expression.trim()
+  const fields = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/)
+
+  if (fields.length !== 5) {
+    throw new CronExpressionError('Cron expressions need five fields: minute, hour, day of month, month, day of week.')
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((source, index) =>
+    parseField(source, FIELDS[index])
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>]
+
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0)
+  }
+
+  return {
+    minutes: [...minutes].toSorted((a, b) => a - b),
+    hours: [...hours].toSorted((a, b) => a - b),
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: fields[2] !== '*',
+    daysOfWeekRestricted: fields[4] !== '*',
+  }
+}
+
+const matchesDay = (cron: CronExpression, date: LocalDateTime) => {
+  if (!cron.months.has(date.month)) {
+    return false
+  }
+
+  const dayOfMonthMatches = cron.daysOfMonth.has(date.day)
+  const dayOfWeekMatches = cron.daysOfWeek.has(new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay())
+
+  if (cron.daysOfMonthRestricted && cron.daysOfWeekRestricted) {
+    return dayOfMonthMatches || dayOfWeekMatches
+  }
+
+  return dayOfMonthMatches && dayOfWeekMatches
+}
+
+/**
+ * The first time after `after` that the expression fires, reading it as wall-clock time in `timeZone`. Times that
+ * don't exist because clocks jumped forward are skipped; times that happen twice when clocks go back fire once.
+ */
+export const nextCronOccurrence = (cron: CronExpression, after: Date, timeZone: string): Date | null => {
+  const start = utcToLocalDateTime(after, timeZone)
+
+  for (let dayOffset = 0; dayOffset <= MAX_SEARCH_DAYS; dayOffset++) {
+    const day = addDaysToLocalDateTime({ ...start, hour: 0, minute: 0, second: 0, millisecond: 0 }, dayOffset)
+    if (!matchesDay(cron, day)) {
+      continue
+    }
+
+    for (const hour of cron.hours) {
+      if (dayOffset === 0 && hour < start.hour) {
+        continue
+      }
+
+      for (const minute of cron.minutes) {
+        const local = { ...day, hour, minute }
+        const occurrence = localDateTimeToUtc(local, timeZone)
+        if (occurrence.getTime() <= after.getTime()) {
+          continue
+        }
+
+        const roundTrip = utcToLocalDateTime(occurrence, timeZone)
+        if (roundTrip.hour === hour && roundTrip.minute === minute) {
+          return occurrence
+        }
+      }
+    }
+  }
+
+  return null
+}
+
+/** Every occurrence after `after` up to and including `until`, oldest first, stopping at `limit`. */
+export const cronOccurrencesBetween = (
+  cron: CronExpression,
+  after: Date,
+  until: Date,
+  timeZone: string,
+  limit: number
+) => {
+  const occurrences: Date[] = []
+  let cursor = nextCronOccurrence(cron, after, timeZone)
+
+  while (cursor && cursor.getTime() <= until.getTime() && occurrences.length < limit) {
+    occurrences.push(cursor)
+    cursor = nextCronOccurrence(cron, cursor, timeZone)
+  }
+
+  return occurrences
+}
+
+/**
+ * The most recent occurrence after `after` up to and including `until`. Looks back from `until` in growing windows so
+ * a frequent schedule that has been idle for a long time doesn't have to walk every occurrence since.
+ */
+export const latestCronOccurrence = (cron: CronExpression, after: Date, until: Date, timeZone: string) => {
+  for (let windowMs = 60 * 60 * 1000; ; windowMs *= 4) {
+    const windowStart = new Date(Math.max(after.getTime(), until.getTime() - windowMs))
+    const occurrences = cronOccurrencesBetween(cron, windowStart, until, timeZone, Number.POSITIVE_INFINITY)
+    if (occurrences.length > 0 || windowStart.getTime() === after.getTime()) {
+      return occurrences.at(-1) ?? null
+    }
+  }
+}
@@ -0,0 +1,563 @@
+import { compareLocalDateTimes, localDateTimeToUtc, type LocalDateTime, utcToLocalDateTime } from './timezone'
+
+export const recurrenceFrequencies = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'] as const
+export const recurrenceWeekdays = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const
+
+export type RecurrenceFrequency = (typeof recurrenceFrequencies)[number]
+export type RecurrenceWeekday = (typeof recurrenceWeekdays)[number]
+
+export type RecurrenceByDay = {
+  weekday: RecurrenceWeekday
+  /** Nth weekday within the month (or year); negative values count from the end. */
+  ordinal: number | null
+}
+
+export type RecurrenceUntil = {
+  dateTime: LocalDateTime
+  /** UNTIL values ending in Z are instants; everything else is wall-clock time in the series timezone. */
+  isUtc: boolean
+}
+
+export type RecurrenceRule = {
+  frequency: RecurrenceFrequency
+  interval: number
+  count: number | null
+  until: RecurrenceUntil | null
+  byDay: RecurrenceByDay[]
+  byMonthDay: number[]
+  byMonth: number[]
+  bySetPos: number[]
+  weekStart: RecurrenceWeekday
+}
+
+export class RecurrenceRuleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RecurrenceRuleError'
+  }
+}
+
+type LocalDate = { year: number; month: number; day: number }
+
+const MAX_PERIODS = 50_000
+
+const BY_DAY_PATTERN = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/
+const UNTIL_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/
+const INTEGER_PATTERN = /^[+-]?\d+$/
+
+const parseIntegerList = (name: string, value: string, min: number, max: number, allowNegative: boolean) =>
+  value.split(',').map((item) => {
+    if (!INTEGER_PATTERN.test(item)) {
+      throw new RecurrenceRuleError(`${name} must be a comma separated list of integers.`)
+    }
+    const parsed = Number(item)
+    const magnitude = Math.abs(parsed)
+    if (magnitude < min || magnitude > max || (!allowNegative && parsed < 0)) {
+      throw new RecurrenceRuleError(`${name} value ${item} is out of range.`)
+    }
+    return parsed
+  })
+
+const parseUntil = (value: string): RecurrenceUntil => {
+  const match = UNTIL_PATTERN.exec(value)
+  if (!match) {
+    throw new RecurrenceRuleError('UNTIL must be a date (YYYYMMDD) or date-time (YYYYMMDDTHHMMSS[Z]).')
+  }
+
+  const [, year, month, day, hour, minute, second, utc] = match
+  const dateTime: LocalDateTime = {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    // A date-only UNTIL includes the whole day.
+    hour: hour === undefined ? 23 : Number(hour),
+    minute: minute === undefined ? 59 : Number(minute),
+    second: second === undefined ? 59 : Number(second),
+    millisecond: 0,
+  }
+
+  if (dateTime.month < 1 || dateTime.month > 12 || dateTime.day < 1 || dateTime.day > daysInMonth(dateTime)) {
+    throw new RecurrenceRuleError('UNTIL must be a valid calendar date.')
+  }
+
+  return { dateTime, isUtc: utc === 'Z' }
+}
+
+/**
+ * Parses an RFC 5545 RRULE value. The optional `RRULE:` prefix is accepted. Only the date-level BY* parts are
+ * supported; occurrences always keep the time of day of the series start.
+ */
+export const parseRecurrenceRule = (value: string): RecurrenceRule => {
+  const trimmed = value.trim().replace(/^RRULE:/i, '')
+  if (trimmed.length === 0) {
+    throw new RecurrenceRuleError('Recurrence rule must not be empty.')
+  }
+
+  const parts = new Map<string, string>()
+  for (const part of trimmed.split(';')) {
+    const [rawName, rawValue, ...rest] = part.split('=')
+    const name = rawName?.trim().toUpperCase()
+    const partValue = rawValue?.trim().toUpperCase()
+    if (!name || !partValue || rest.length > 0) {
+      throw new RecurrenceRuleError(`Invalid recurrence rule part "${part}".`)
+    }
+    if (parts.has(name)) {
+      throw new RecurrenceRuleError(`${name} must only appear once.`)
+    }
+    parts.set(name, partValue)
+  }
+
+  const frequency = parts.get('FREQ')
+  if (!frequency) {
+    throw new RecurrenceRuleError('FREQ is required.')
+  }
+  if (!recurrenceFrequencies.includes(frequency as RecurrenceFrequency)) {
+    throw new RecurrenceRuleError(`FREQ must be one of ${recurrenceFrequencies.join(', ')}.`)
+  }
+
+  const rule: RecurrenceRule = {
+    frequency: frequency as RecurrenceFrequency,
+    interval: 1,
+    count: null,
+    until: null,
+    byDay: [],
+    byMonthDay: [],
+    byMonth: [],
+    bySetPos: [],
+    weekStart: 'MO',
+  }
+
+  for (const [name, partValue] of parts) {
+    switch (name) {
+      case 'FREQ':
+        break
+      case 'INTERVAL':
+        rule.interval = parseIntegerList(name, partValue, 1, 1000, false)[0]
+        break
+      case 'COUNT':
+        rule.count = parseIntegerList(name, partValue, 1, 10_000, false)[0]
+        break
+      case 'UNTIL':
+        rule.until = parseUntil(partValue)
+        break
+      case 'BYDAY':
+        rule.byDay = partValue.split(',').map((item) => {
+          const match = BY_DAY_PATTERN.exec(item)
+          if (!match) {
+            throw new RecurrenceRuleError(`BYDAY value ${item} is invalid.`)
+          }
+          const ordinal = match[1] ? Number(match[1]) : null
+          if (ordinal !== null && (ordinal === 0 || Math.abs(ordinal) > 53)) {
+            throw new RecurrenceRuleError(`BYDAY value ${item} is out of range.`)
+          }
+          return { weekday: match[2] as RecurrenceWeekday, ordinal }
+        })
+        break
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseIntegerList(name, partValue, 1, 31, true)
+        break
+      case 'BYMONTH':
+        rule.byMonth = parseIntegerList(name, partValue, 1, 12, false)
+        break
+      case 'BYSETPOS':
+        rule.bySetPos = parseIntegerList(name, partValue, 1, 366, true)
+        break
+      case 'WKST':
+        if (!recurrenceWeekdays.includes(partValue as RecurrenceWeekday)) {
+          throw new RecurrenceRuleError(`WKST value ${partValue} is invalid.`)
+        }
+        rule.weekStart = partValue as RecurrenceWeekday
+        break
+      default:
+        throw new RecurrenceRuleError(`${name} is not supported.`)
+    }
+  }
+
+  if (rule.count !== null && rule.until !== null) {
+    throw new RecurrenceRuleError('COUNT and UNTIL must not both be set.')
+  }
+
+  const hasOrdinalByDay = rule.byDay.some((item) => item.ordinal !== null)
+  if (hasOrdinalByDay && (rule.frequency === 'DAILY' || rule.frequency === 'WEEKLY')) {
+    throw new RecurrenceRuleError('BYDAY ordinals are only allowed with MONTHLY or YEARLY frequency.')
+  }
+  if (rule.byMonthDay.length > 0 && rule.frequency === 'WEEKLY') {
+    throw new RecurrenceRuleError('BYMONTHDAY is not allowed with WEEKLY frequency.')
+  }
+  if (
+    rule.bySetPos.length > 0 &&
+    rule.byDay.length === 0 &&
+    rule.byMonthDay.length === 0 &&
+    rule.byMonth.length === 0
+  ) {
+    throw new RecurrenceRuleError('BYSETPOS requires another BY* rule part.')
+  }
+
+  return rule
+}
+
+const pad = (value: number, size = 2) => value.toString().padStart(size, '0')
+
+const formatUntil = (until: RecurrenceUntil, timeZone: string | undefined) => {
+  // RFC 5545 requires UNTIL in UTC when DTSTART carries a TZID, so convert when a zone is supplied.
+  const dateTime =
+    timeZone && !until.isUtc ? utcToLocalDateTime(localDateTimeToUtc(until.dateTime, timeZone), 'UTC') : until.dateTime
+  const isUtc = until.isUtc || Boolean(timeZone)
+
+  return `${pad(dateTime.year, 4)}${pad(dateTime.month)}${pad(dateTime.day)}T${pad(dateTime.hour)}${pad(
+    dateTime.minute
+  )}${pad(dateTime.second)}${isUtc ? 'Z' : ''}`
+}
+
+/** Serialises a rule back to an RRULE value. Pass `timeZone` to emit UNTIL as UTC for iCalendar output. */
+export const formatRecurrenceRule = (rule: RecurrenceRule, timeZone?: string): string => {
+  const parts = [`FREQ=${rule.frequency}`]
+
+  if (rule.interval !== 1) {
+    parts.push(`INTERVAL=${rule.interval}`)
+  }
+  if (rule.count !== null) {
+    parts.push(`COUNT=${rule.count}`)
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${formatUntil(rule.until, timeZone)}`)
+  }
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map((item) => `${item.ordinal ?? ''}${item.weekday}`).join(',')}`)
+  }
+  if (rule.byMonthDay.length > 0) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`)
+  }
+  if (rule.byMonth.length > 0) {
+    parts.push(`BYMONTH=${rule.byMonth.join(',')}`)
+  }
+  if (rule.bySetPos.length > 0) {
+    parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`)
+  }
+  if (rule.weekStart !== 'MO') {
+    parts.push(`WKST=${rule.weekStart}`)
+  }
+
+  return parts.join(';')
+}
+
+/** Rules equivalent to the legacy "repeats every N days" setting, used to keep `daily_recurrence_interval` filled. */
+export const recurrenceRuleIntervalDays = (rule: RecurrenceRule): number | null => {
+  if (rule.byDay.length > 0 || rule.byMonthDay.length > 0 || rule.byMonth.length > 0 || rule.bySetPos.length > 0) {
+    return null
+  }
+  if (rule.frequency === 'DAILY') {
+    return rule.interval
+  }
+  if (rule.frequency === 'WEEKLY') {
+    return rule.interval * 7
+  }
+  return null
+}
+
+export const dailyRecurrenceRule = (intervalDays: number): RecurrenceRule => ({
+  frequency: 'DAILY',
+  interval: intervalDays,
+  count: null,
+  until: null,
+  byDay: [],
+  byMonthDay: [],
+  byMonth: [],
+  bySetPos: [],
+  weekStart: 'MO',
+})
+
+export const isBoundedRecurrenceRule = (rule: RecurrenceRule) => rule.count !== null || rule.until !== null
+
+const daysInMonth = ({ year, month }: { year: number; month: number }) =>
+  new Date(Date.UTC(year, month, 0)).getUTCDate()
+
+const weekdayIndex = (date: LocalDate) => new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay()
+
+const addDays = (date: LocalDate, days: number): LocalDate => {
+  const value = new Date(Date.UTC(date.year, date.month - 1, date.day + days))
+  return { year: value.getUTCFullYear(), month: value.getUTCMonth() + 1, day: value.getUTCDate() }
+}
+
+const addMonths = (date: LocalDate, months: number): LocalDate => {
+  const index = date.year * 12 + (date.month - 1) + months
+  return { year: Math.floor(index / 12), month: (index % 12) + 1, day: 1 }
+}
+
+const compareDates = (left: LocalDate, right: LocalDate) =>
+  Date.UTC(left.year, left.month - 1, left.day) - Date.UTC(right.year, right.month - 1, right.day)
+
+const datesInRange = (first: LocalDate, last: LocalDate) => {
+  const dates: LocalDate[] = []
+  for (let current = first; compareDates(current, last) <= 0; current = addDays(current, 1)) {
+    dates.push(current)
+  }
+  return dates
+}
+
+const resolveMonthDays = (year: number, month: number, byMonthDay: number[]) => {
+  const length = daysInMonth({ year, month })
+  return byMonthDay
+    .map((day) => (day > 0 ? day : length + day + 1))
+    .filter((day) => day >= 1 && day <= length)
+    .map((day) => ({ year, month, day }))
+}
+
+/** Expands BYDAY within a month or year, honouring ordinals such as 1MO or -1FR. */
+const resolveByDay = (dates: LocalDate[], byDay: RecurrenceByDay[]) => {
+  const matches: LocalDate[] = []
+  for (const { weekday, ordinal } of byDay) {
+    const target = recurrenceWeekdays.indexOf(weekday)
+    const candidates = dates.filter((date) => weekdayIndex(date) === target)
+    if (ordinal === null) {
+      matches.push(...candidates)
+      continue
+    }
+    const match = ordinal > 0 ? candidates[ordinal - 1] : candidates[candidates.length + ordinal]
+    if (match) {
+      matches.push(match)
+    }
+  }
+  return matches
+}
+
+const intersect = (left: LocalDate[], right: LocalDate[]) =>
+  left.filter((date) => right.some((candidate) => compareDates(candidate, date) === 0))
+
+const uniqueSorted = (dates: LocalDate[]) =>
+  dates
+    .toSorted(compareDates)
+    .filter((date, index, sorted) => index === 0 || compareDates(sorted[index - 1], date) !== 0)
+
+const applySetPos = (dates: LocalDate[], bySetPos: number[]) => {
+  if (bySetPos.length === 0) {
+    return dates
+  }
+  const selected = bySetPos
+    .map((position) => (position > 0 ? dates[position - 1] : dates[dates.length + position]))
+    .filter((date): date is LocalDate => Boolean(date))
+  return uniqueSorted(selected)
+}
+
+const filterDates = (dates: LocalDate[], rule: RecurrenceRule) =>
+  dates.filter((date) => {
+    if (rule.byMonth.length > 0 && !rule.byMonth.includes(date.month)) {
+      return false
+    }
+    if (
+      rule.byDay.length > 0 &&
+      !rule.byDay.some((item) => recurrenceWeekdays.indexOf(item.weekday) === weekdayIndex(date))
+    ) {
+      return false
+    }
+    if (
+      rule.byMonthDay.length > 0 &&
+      resolveMonthDays(date.year, date.month, rule.byMonthDay).every((day) => day.day !== date.day)
+    ) {
+      return false
+    }
+    return true
+  })
+
+const monthPeriodDates = (year: number, month: number, rule: RecurrenceRule, start: LocalDate) => {
+  const monthDates = datesInRange({ year, month, day: 1 }, { year, month, day: daysInMonth({ year, month }) })
+  const byMonthDay = rule.byMonthDay.length > 0 ? resolveMonthDays(year, month, rule.byMonthDay) : null
+  const byDay = rule.byDay.length > 0 ? resolveByDay(monthDates, rule.byDay) : null
+
+  if (byMonthDay && byDay) {
+    return intersect(byDay, byMonthDay)
+  }
+  return byMonthDay ?? byDay ?? resolveMonthDays(year, month, [start.day])
+}
+
+/** Candidate dates for one FREQ period, before BYSETPOS is applied. */
+const periodDates = (rule: RecurrenceRule, periodStart: LocalDate, start: LocalDate): LocalDate[] => {
+  switch (rule.frequency) {
+    case 'DAILY':
+      return filterDates([periodStart], rule)
+    case 'WEEKLY': {
+      const week = datesInRange(periodStart, addDays(periodStart, 6))
+      const days = rule.byDay.length > 0 ? week : week.filter((date) => weekdayIndex(date) === weekdayIndex(start))
+      return filterDates(days, rule)
+    }
+    case 'MONTHLY': {
+      if (rule.byMonth.length > 0 && !rule.byMonth.includes(periodStart.month)) {
+        return []
+      }
+      return monthPeriodDates(periodStart.year, periodStart.month, rule, start)
+    }
+    case 'YEARLY': {
+      const { year } = periodStart
+      if (rule.byMonth.length > 0) {
+        if (rule.byDay.length === 0 && rule.byMonthDay.length === 0) {
+          return rule.byMonth.flatMap((month) => resolveMonthDays(year, month, [start.day]))
+        }
+        return rule.byMonth.flatMap((month) => monthPeriodDates(year, month, rule, start))
+      }
+      if (rule.byMonthDay.length > 0 || rule.byDay.length > 0) {
+        const yearDates = datesInRange({ year, month: 1, day: 1 }, { year, month: 12, day: 31 })
+        const byMonthDay =
+          rule.byMonthDay.length > 0
+            ? Array.from({ length: 12 }, (_, index) => resolveMonthDays(year, index + 1, rule.byMonthDay)).flat()
+            : null
+        // Without BYMONTH, BYDAY ordinals count weeks of the whole year.
+        const byDay = rule.byDay.length > 0 ? resolveByDay(yearDates, rule.byDay) : null
+        if (byMonthDay && byDay) {
+          return intersect(byDay, byMonthDay)
+        }
+        return byMonthDay ?? byDay ?? []
+      }
+      return resolveMonthDays(year, start.month, [start.day])
+    }
+  }
+}
+
+const firstPeriodStart = (rule: RecurrenceRule, start: LocalDate): LocalDate => {
+  switch (rule.frequency) {
+    case 'DAILY':
+      return start
+    case 'WEEKLY': {
+      const offset = (weekdayIndex(start) - recurrenceWeekdays.indexOf(rule.weekStart) + 7) % 7
+      return addDays(start, -offset)
+    }
+    case 'MONTHLY':
+      return { year: start.year, month: start.month, day: 1 }
+    case 'YEARLY':
+      return { year: start.year, month: 1, day: 1 }
+  }
+}
+
+const nextPeriodStart = (rule: RecurrenceRule, periodStart: LocalDate): LocalDate => {
+  switch (rule.frequency) {
+    case 'DAILY':
+      return addDays(periodStart, rule.interval)
+    case 'WEEKLY':
+      return addDays(periodStart, rule.interval * 7)
+    case 'MONTHLY':
+      return addMonths(periodStart, rule.interval)
+    case 'YEARLY':
+      return { year: periodStart.year + rule.interval, month: 1, day: 1 }
+  }
+}
+
+export type ExpandRecurrenceOptions = {
+  rule: RecurrenceRule
+  /** DTSTART as wall-clock time in `timeZone`. It is always the first occurrence, as in RFC 5545. */
+  start: LocalDateTime
+  timeZone: string
+  /** Inclusive upper bound applied on top of COUNT/UNTIL. Required when the rule itself is unbounded. */
+  end?: LocalDateTime | null
+  exdates?: LocalDateTime[]
+  /** Stop with an error rather than generate more than this many occurrences. */
+  limit: number
+}
+
+/**
+ * Expands a rule into wall-clock occurrences in the series timezone, so a 9am class stays at 9am across DST
+ * changes. COUNT includes excluded dates, matching RFC 5545.
+ */
+export const expandRecurrenceRule = (options: ExpandRecurrenceOptions): LocalDateTime[] => {
+  const { rule, start, timeZone, end, exdates = [], limit } = options
+
+  if (!end && !isBoundedRecurrenceRule(rule)) {
+    throw new RecurrenceRuleError('Recurrence rule must include COUNT or UNTIL when the series has no end date.')
+  }
+
+  const startDate: LocalDate = { year: start.year, month: start.month, day: start.day }
+  const untilUtc = rule.until?.isUtc ? localDateTimeToUtc(rule.until.dateTime, 'UTC') : null
+  const isPastUntil = (occurrence: LocalDateTime) => {
+    if (!rule.until) {
+      return false
+    }
+    return untilUtc
+      ? localDateTimeToUtc(occurrence, timeZone).getTime() > untilUtc.getTime()
+      : compareLocalDateTimes(occurrence, rule.until.dateTime) > 0
+  }
+  const isExcluded = (occurrence: LocalDateTime) =>
+    exdates.some((exdate) => compareLocalDateTimes(exdate, occurrence) === 0)
+
+  const occurrences: LocalDateTime[] = []
+  let generated = 0
+  let periodStart = firstPeriodStart(rule, startDate)
+
+  const push = (occurrence: LocalDateTime) => {
+    generated += 1
+    if (!isExcluded(occurrence)) {
+      if (occurrences.length >= limit) {
+        throw new RecurrenceRuleError(`Recurrence rule generates more than ${limit} occurrences.`)
+      }
+      occurrences.push(occurrence)
+    }
+  }
+
+  push(start)
+
+  const lastDate = [end, rule.until && !rule.until.isUtc ? rule.until.dateTime : null]
+    .filter((value): value is LocalDateTime => Boolean(value))
+    .map((value) => ({ year: value.year, month: value.month, day: value.day }))
+    .toSorted(compareDates)[0]
+
+  for (let period = 0; period < MAX_PERIODS; period += 1) {
+    // Periods are never shorter than a day, so once one starts after the bound nothing later can match.
+    if (lastDate && compareDates(periodStart, addDays(lastDate, 1)) > 0) {
+      return occurrences
+    }
+
+    const dates = applySetPos(uniqueSorted(periodDates(rule, periodStart, startDate)), rule.bySetPos)
+
+    for (const date of dates) {
+      if (compareDates(date, startDate) <= 0) {
+        continue
+      }
+
+      const occurrence: LocalDateTime = { ...start, year: date.year, month: date.month, day: date.day }
+
+      if ((end && compareLocalDateTimes(occurrence, end) > 0) || isPastUntil(occurrence)) {
+        return occurrences
+      }
+      if (rule.count !== null && generated >= rule.count) {
+        return occurrences
+      }
+
+      push(occurrence)
+    }
+
+    periodStart = nextPeriodStart(rule, periodStart)
+  }
+
+  return occurrences
+}
+
+/**
+ * Splits a series at `splitAt` for "this and following" edits. The first rule stops just before the split and the
+ * second starts there; COUNT is shared between the two so the total number of occurrences is unchanged.
+ */
+export const splitRecurrenceRule = (options: {
+  rule: RecurrenceRule
+  start: LocalDateTime
+  splitAt: LocalDateTime
+  timeZone: string
+}): { before: RecurrenceRule; after: RecurrenceRule } => {
+  const { rule, start, splitAt, timeZone } = options
+  const justBeforeSplit = utcToLocalDateTime(new Date(localDateTimeToUtc(splitAt, timeZone).getTime() - 1000), timeZone)
+
+  if (rule.count === null) {
+    return {
+      before: { ...rule, until: { dateTime: justBeforeSplit, isUtc: false } },
+      after: rule,
+    }
+  }
+
+  const countBefore = expandRecurrenceRule({
+    rule,
+    start,
+    timeZone,
+    end: justBeforeSplit,
+    limit: rule.count,
+  }).length
+
+  return {
+    before: { ...rule, count: Math.max(countBefore, 1) },
+    after: { ...rule, count: Math.max(rule.count - countBefore, 1) },
+  }
+}
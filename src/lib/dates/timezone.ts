@@ -56,7 +56,8 @@ const getTimeZoneOffsetMs = (date: Date, timeZone: string): number => {
     Number(values.year),
     Number(values.month) - 1,
     Number(values.day),
-    Number(values.hour),
+    // hour12: false renders midnight as 24 in some ICU builds.
+    Number(values.hour) % 24,
     Number(values.minute),
     Number(values.second)
   )
@@ -64,13 +65,30 @@ const getTimeZoneOffsetMs = (date: Date, timeZone: string): number => {
   return asUtc - date.getTime()
 }
 
+export const utcToLocalDateTime = (date: Date, timeZone: string): LocalDateTime => {
+  const local = new Date(date.getTime() + getTimeZoneOffsetMs(date, timeZone))
+
+  return {
+    year: local.getUTCFullYear(),
+    month: local.getUTCMonth() + 1,
+    day: local.getUTCDate(),
+    hour: local.getUTCHours(),
+    minute: local.getUTCMinutes(),
+    second: local.getUTCSeconds(),
+    millisecond: date.getUTCMilliseconds(),
+  }
+}
+
 export const localDateTimeToUtc = (parts: LocalDateTime, timeZone: string): Date => {
   const utcGuess = new Date(
     Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, parts.millisecond)
   )
   const offset = getTimeZoneOffsetMs(utcGuess, timeZone)
+  const candidate = new Date(utcGuess.getTime() - offset)
+  // The guessed offset can be wrong within a few hours of a DST change; re-check it at the candidate instant.
+  const candidateOffset = getTimeZoneOffsetMs(candidate, timeZone)
 
-  return new Date(utcGuess.getTime() - offset)
+  return candidateOffset === offset ? candidate : new Date(utcGuess.getTime() - candidateOffset)
 }
 
 export const isoLocalDateTimeToUtc = (value: string, timeZone: string): Date =>
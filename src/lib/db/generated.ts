@@ -56,6 +56,15 @@ export interface AccountSubscriptionStatus {
   trainer_id: string | null;
 }
 
+export interface AccountingAccountMapping {
+  account: string;
+  code: string;
+  created_at: Generated<Timestamp>;
+  name: string;
+  trainer_id: string;
+  updated_at: Generated<Timestamp>;
+}
+
 export interface AnalyticsData {
   anonymous_id: string | null;
   context_active: boolean | null;
@@ -245,6 +254,7 @@ export interface Client {
   google_place_id: string | null;
   id: Generated<string>;
   last_name: string | null;
+  locale: string | null;
   location: string | null;
   medication: string | null;
   mobile_number: string | null;
@@ -253,6 +263,7 @@ export interface Client {
   password_hash: string | null;
   past_injuries: string | null;
   profile_image_url: string | null;
+  sms_opted_out: Generated<boolean>;
   sms_reminders_enabled: Generated<boolean>;
   status: string;
   stripe_customer_id: string | null;
@@ -267,6 +278,37 @@ export interface ClientAppointmentReminderType {
   type: string;
 }
 
+export interface ClientCampaign {
+  channel: string;
+  conditions: Generated<Json>;
+  created_at: Generated<Timestamp>;
+  email_body: string | null;
+  email_heading: string | null;
+  email_subject: string | null;
+  enabled: Generated<boolean>;
+  frequency_cap_days: Generated<number>;
+  id: Generated<string>;
+  name: string;
+  sms_body: string | null;
+  trainer_id: string;
+  trigger_threshold: number | null;
+  trigger_type: string;
+  updated_at: Generated<Timestamp>;
+}
+
+export interface ClientCampaignRun {
+  campaign_id: string;
+  client_id: string;
+  created_at: Generated<Timestamp>;
+  id: Generated<string>;
+  mail_id: string | null;
+  occurrence_key: string;
+  skip_reason: string | null;
+  sms_id: string | null;
+  status: string;
+  trainer_id: string;
+}
+
 export interface ClientLoginRequest {
   authenticated: Generated<boolean>;
   code: string;
@@ -278,6 +320,25 @@ export interface ClientLoginRequest {
   updated_at: Generated<Timestamp>;
 }
 
+export interface ClientMembership {
+  client_id: string;
+  created_at: Generated<Timestamp>;
+  id: Generated<string>;
+  membership_id: string;
+  payment_plan_id: string;
+  rollover_limit: number;
+  sessions_per_period: number;
+  trainer_id: string;
+}
+
+export interface ClientMembershipPeriod {
+  client_membership_id: string;
+  end_: Timestamp;
+  id: Generated<string>;
+  sessions_allowed: number;
+  start: Timestamp;
+}
+
 export interface ClientNote {
   body: string | null;
   client_id: string;
@@ -300,6 +361,9 @@ export interface ClientPaymentReminder {
 
 export interface ClientSession {
   accept_time: Timestamp | null;
+  attendance: string | null;
+  attendance_fee_sale_id: string | null;
+  attendance_time: Timestamp | null;
   booked_online: Generated<boolean | null>;
   booking_icalendar_url: string | null;
   booking_id: Generated<string | null>;
@@ -308,6 +372,7 @@ export interface ClientSession {
   cancel_reason: string | null;
   cancel_time: Timestamp | null;
   client_id: string;
+  client_membership_period_id: string | null;
   confirm_time: Timestamp | null;
   created_at: Generated<Timestamp>;
   decline_time: Timestamp | null;
@@ -320,6 +385,8 @@ export interface ClientSession {
   state: Generated<string>;
   trainer_id: string;
   updated_at: Generated<Timestamp>;
+  waitlist_claim_expires_at: Timestamp | null;
+  waitlisted_at: Timestamp | null;
 }
 
 export interface ClientSessionState {
@@ -337,8 +404,23 @@ export interface Country {
   name: string;
 }
 
+export interface CreditLedgerEntry {
+  client_id: string;
+  client_session_id: string | null;
+  created_at: Generated<Timestamp>;
+  credits: number;
+  entry_type: string;
+  id: Generated<string>;
+  note: string | null;
+  occurred_at: Timestamp;
+  payment_id: string | null;
+  sale_credit_pack_id: string;
+  trainer_id: string;
+}
+
 export interface CreditPack {
   created_at: Generated<Timestamp>;
+  expiry_days: number | null;
   id: Generated<string>;
   is_credit_pack: Generated<boolean>;
   total_credits: number;
@@ -363,12 +445,26 @@ export interface EmailAppointmentReminder {
   updated_at: Generated<Timestamp>;
 }
 
+export interface EmailTemplateVersion {
+  body: string | null;
+  button_text: string | null;
+  created_at: Generated<Timestamp>;
+  created_by_user_id: string | null;
+  heading: string | null;
+  id: Generated<string>;
+  subject: string | null;
+  template_key: string;
+  trainer_id: string;
+  version: number;
+}
+
 export interface EventType {
   type: string;
 }
 
 export interface FinanceItem {
   amount: Numeric;
+  category: string | null;
   created_at: Generated<Timestamp>;
   id: Generated<string>;
   image_url: string | null;
@@ -379,6 +475,20 @@ export interface FinanceItem {
   updated_at: Generated<Timestamp>;
 }
 
+export interface InboundSms {
+  action: string;
+  body: string;
+  client_id: string | null;
+  client_session_id: string | null;
+  created_at: Generated<Timestamp>;
+  from_number: string;
+  id: Generated<string>;
+  provider: string;
+  provider_message_id: string;
+  to_number: string;
+  trainer_id: string | null;
+}
+
 export interface Installation {
   created_at: Generated<Timestamp>;
   device_token: string;
@@ -461,6 +571,7 @@ export interface LoggedActions {
 }
 
 export interface Mail {
+  attachments: Generated<Json>;
   client_id: string | null;
   client_was_deleted: boolean | null;
   created_at: Generated<Timestamp>;
@@ -469,6 +580,9 @@ export interface Mail {
   html: string;
   id: Generated<string>;
   mandrill_message_id: string | null;
+  message_type: string | null;
+  provider: string | null;
+  provider_message_id: string | null;
   queued_at: Timestamp | null;
   reject_reason: string | null;
   rejected_at: Timestamp | null;
@@ -529,6 +643,23 @@ export interface MandrillEvent {
   updated_at: Generated<Timestamp>;
 }
 
+export interface Membership {
+  created_at: Generated<Timestamp>;
+  frequency_weekly_interval: number;
+  id: string;
+  is_membership: Generated<boolean>;
+  rollover_limit: Generated<number>;
+  sessions_per_period: number;
+  trainer_id: string;
+  updated_at: Generated<Timestamp>;
+}
+
+export interface MembershipService {
+  membership_id: string;
+  service_id: string;
+  trainer_id: string;
+}
+
 export interface Message {
   created_at: Generated<Timestamp>;
   object: Json;
@@ -536,6 +667,23 @@ export interface Message {
   updated_at: Generated<Timestamp>;
 }
 
+export interface MessageSuppression {
+  address: string;
+  channel: string;
+  created_at: Generated<Timestamp>;
+  detail: string | null;
+  id: Generated<string>;
+  lifted_at: Timestamp | null;
+  reason: string;
+  source: string;
+}
+
+export interface MessageSuppressionLift {
+  created_at: Generated<Timestamp>;
+  message_suppression_id: string;
+  trainer_id: string;
+}
+
 export interface Metrics {
   apple_sales: Generated<Numeric | null>;
   date: Timestamp;
@@ -590,6 +738,7 @@ export interface Mrr {
 
 export interface Payment {
   amount: Numeric;
+  amount_refunded: Generated<Numeric>;
   client_id: string;
   created_at: Generated<Timestamp>;
   id: Generated<string>;
@@ -683,6 +832,7 @@ export interface PaymentPlanPause {
 export interface PaymentPlanPayment {
   amount: Numeric;
   amount_outstanding: Numeric;
+  amount_refunded: Generated<Numeric>;
   created_at: Generated<Timestamp>;
   date: Timestamp;
   fee: Numeric | null;
@@ -705,6 +855,19 @@ export interface PaymentPlanStatus {
   status: string;
 }
 
+export interface PaymentRefund {
+  amount: Numeric;
+  application_fee_amount: Generated<Numeric>;
+  created_at: Generated<Timestamp>;
+  id: Generated<string>;
+  payment_id: string | null;
+  payment_plan_payment_id: string | null;
+  reason: string | null;
+  stripe_refund_id: string | null;
+  tax_amount: Generated<Numeric>;
+  trainer_id: string;
+}
+
 export interface PaymentScheduledStripe {
   created_at: Generated<Timestamp>;
   id: Generated<string>;
@@ -825,6 +988,7 @@ export interface Product {
   is_service: boolean | null;
   name: string;
   price: Numeric;
+  tax_mode: Generated<string>;
   trainer_id: string;
   updated_at: Generated<Timestamp>;
 }
@@ -853,6 +1017,7 @@ export interface Sale {
   created_at: Generated<Timestamp>;
   due_time: Generated<Timestamp>;
   id: Generated<string>;
+  invoice_number: number | null;
   note: Generated<string>;
   payment_request_pass_on_transaction_fee: Generated<boolean>;
   payment_request_time: Timestamp | null;
@@ -863,6 +1028,7 @@ export interface Sale {
 
 export interface SaleCreditPack {
   created_at: Generated<Timestamp>;
+  expires_at: Timestamp | null;
   id: Generated<string>;
   is_credit_pack: Generated<boolean>;
   total_credits: number;
@@ -896,6 +1062,8 @@ export interface SaleProduct {
   price: Numeric;
   product_id: string | null;
   sale_id: string;
+  tax_amount: Generated<Numeric>;
+  tax_mode: Generated<string>;
   trainer_id: string;
   updated_at: Generated<Timestamp>;
 }
@@ -913,6 +1081,19 @@ export interface SaleService {
   updated_at: Generated<Timestamp>;
 }
 
+export interface SaleTax {
+  amount: Numeric;
+  created_at: Generated<Timestamp>;
+  id: Generated<string>;
+  label: string;
+  percent: Numeric;
+  sale_id: string;
+  sale_product_id: string;
+  tax_id: string;
+  taxable_amount: Numeric;
+  trainer_id: string;
+}
+
 export interface SchemaHistory {
   checksum: string | null;
   description: string;
@@ -952,7 +1133,9 @@ export interface Service {
   image_4_url: string | null;
   image_5_url: string | null;
   is_service: Generated<boolean>;
+  late_cancel_fee: Numeric | null;
   location: string | null;
+  no_show_fee: Numeric | null;
   request_client_address_online: string | null;
   time_slot_frequency_minutes: Generated<number>;
   trainer_id: string;
@@ -989,6 +1172,7 @@ export interface Session {
   location: string | null;
   maximum_attendance: number | null;
   note: string | null;
+  recurrence_id: Timestamp | null;
   request_client_address_online: string | null;
   service_id: string | null;
   service_provider_reminder_1: Interval | null;
@@ -1022,6 +1206,8 @@ export interface SessionSeries {
   location: string | null;
   name: string | null;
   price: Numeric | null;
+  recurrence_exdates: Generated<string[]>;
+  recurrence_rule: string | null;
   session_icon_id: string | null;
   start: Timestamp;
   timezone: string;
@@ -1036,6 +1222,9 @@ export interface Sms {
   created_at: Generated<Timestamp>;
   from_number: string | null;
   id: Generated<string>;
+  message_type: string | null;
+  provider: string | null;
+  provider_message_id: string | null;
   queue_failed_at: Timestamp | null;
   queue_failed_reason: string | null;
   queued_at: Timestamp | null;
@@ -1195,8 +1384,10 @@ export interface TwilioMessage {
 export interface WorkflowOutbox {
   attempts: number;
   available_at: Generated<Timestamp>;
+  cancelled_at: Timestamp | null;
   completed_at: Timestamp | null;
   created_at: Generated<Timestamp>;
+  dead_lettered_at: Timestamp | null;
   dedupe_key: string | null;
   dispatched_at: Timestamp | null;
   failed_at: Timestamp | null;
@@ -1212,6 +1403,30 @@ export interface WorkflowOutbox {
   workflow_run_id: string | null;
 }
 
+export interface WorkflowOutboxEvent {
+  actor: string | null;
+  attempt: number | null;
+  created_at: Generated<Timestamp>;
+  event: string;
+  id: Generated<string>;
+  message: string | null;
+  outbox_id: string;
+}
+
+export interface WorkflowSchedule {
+  catch_up: Generated<string>;
+  created_at: Generated<Timestamp>;
+  cron: string;
+  enabled: Generated<boolean>;
+  id: Generated<string>;
+  last_scheduled_for: Timestamp | null;
+  name: string;
+  payload: Generated<Json>;
+  task_type: string;
+  timezone: Generated<string>;
+  updated_at: Generated<Timestamp>;
+}
+
 export interface WorkflowTaskExecution {
   attempts: number;
   completed_at: Timestamp | null;
@@ -1345,11 +1560,13 @@ export interface Trainer {
   default_service_provider_appointment_reminder_2_type: Generated<string>;
   eligible_for_grandfather: Generated<boolean>;
   email: string;
+  email_provider: string | null;
   first_name: string;
   first_user_agent: string | null;
   icalendar_url_slug: Generated<string>;
   id: Generated<string>;
   industry: string | null;
+  last_invoice_number: Generated<number>;
   last_ios_id_for_vendor: string | null;
   last_name: string | null;
   last_wrap_date: Timestamp | null;
@@ -1388,6 +1605,7 @@ export interface Trainer {
   send_receipts: Generated<boolean>;
   sign_in_with_apple_user_id: string | null;
   sms_credit_checkout_id: Generated<string>;
+  sms_provider: string | null;
   stripe_account_id: string | null;
   stripe_customer_id: string | null;
   stripe_payments_blocked: Generated<boolean | null>;
@@ -1455,6 +1673,7 @@ export interface VwLegacyClient {
   googlePlaceId: string | null;
   id: string | null;
   lastName: string | null;
+  locale: string | null;
   location: string | null;
   memberId: string | null;
   mobileNumber: string | null;
@@ -1492,6 +1711,7 @@ export interface VwLegacyClientSession {
 
 export interface VwLegacyFinanceItem {
   amount: number | null;
+  category: string | null;
   createdAt: Timestamp | null;
   id: string | null;
   imageUrl: string | null;
@@ -1656,10 +1876,12 @@ export interface VwLegacySessionSeries2 {
   createdAt: Timestamp | null;
   currency: string | null;
   endDate: string | null;
+  exdates: string[] | null;
   id: string | null;
   imageURL: string | null;
   location: string | null;
   price: number | null;
+  recurrenceRule: string | null;
   reminderHours: number | null;
   repeatsEvery: number | null;
   sessionColor: string | null;
@@ -1814,6 +2036,7 @@ export interface DB {
   access_token: AccessToken;
   access_token_type: AccessTokenType;
   account_subscription_status: AccountSubscriptionStatus;
+  accounting_account_mapping: AccountingAccountMapping;
   analytics_data: AnalyticsData;
   app_notification: AppNotification;
   app_store_pending_renewal_info: AppStorePendingRenewalInfo;
@@ -1828,18 +2051,25 @@ export interface DB {
   busy_time: BusyTime;
   client: Client;
   client_appointment_reminder_type: ClientAppointmentReminderType;
+  client_campaign: ClientCampaign;
+  client_campaign_run: ClientCampaignRun;
   client_login_request: ClientLoginRequest;
+  client_membership: ClientMembership;
+  client_membership_period: ClientMembershipPeriod;
   client_note: ClientNote;
   client_payment_reminder: ClientPaymentReminder;
   client_session: ClientSession;
   client_session_state: ClientSessionState;
   client_status: ClientStatus;
   country: Country;
+  credit_ledger_entry: CreditLedgerEntry;
   credit_pack: CreditPack;
   currency: Currency;
   email_appointment_reminder: EmailAppointmentReminder;
+  email_template_version: EmailTemplateVersion;
   event_type: EventType;
   finance_item: FinanceItem;
+  inbound_sms: InboundSms;
   installation: Installation;
   logged_actions: LoggedActions;
   mail: Mail;
@@ -1848,7 +2078,11 @@ export interface DB {
   mail_click: MailClick;
   mail_open: MailOpen;
   "mandrill.event": MandrillEvent;
+  membership: Membership;
+  membership_service: MembershipService;
   message: Message;
+  message_suppression: MessageSuppression;
+  message_suppression_lift: MessageSuppressionLift;
   metrics: Metrics;
   mission: Mission;
   mission_type: MissionType;
@@ -1864,6 +2098,7 @@ export interface DB {
   payment_plan_payment: PaymentPlanPayment;
   payment_plan_payment_status: PaymentPlanPaymentStatus;
   payment_plan_status: PaymentPlanStatus;
+  payment_refund: PaymentRefund;
   payment_scheduled_stripe: PaymentScheduledStripe;
   payment_scheduled_stripe_attempt: PaymentScheduledStripeAttempt;
   payment_stats: PaymentStats;
@@ -1882,6 +2117,7 @@ export interface DB {
   sale_payment_status: SalePaymentStatus;
   sale_product: SaleProduct;
   sale_service: SaleService;
+  sale_tax: SaleTax;
   schema_history: SchemaHistory;
   schema_migrations: SchemaMigrations;
   service: Service;
@@ -1945,5 +2181,7 @@ export interface DB {
   vw_trialled_didnt_sub_trainers: VwTrialledDidntSubTrainers;
   vw_valid_access_token: VwValidAccessToken;
   workflow_outbox: WorkflowOutbox;
+  workflow_outbox_event: WorkflowOutboxEvent;
+  workflow_schedule: WorkflowSchedule;
   workflow_task_execution: WorkflowTaskExecution;
 }
@@ -0,0 +1,85 @@
+import { formatMessage, type MessageValues } from './messageFormat'
+import { de } from './messages/de'
+import { en, type MessageKey, type Messages } from './messages/en'
+import { es } from './messages/es'
+import { fr } from './messages/fr'
+
+export type { MessageKey } from './messages/en'
+export type { MessageValues } from './messageFormat'
+
+export const supportedLanguages = ['en', 'es', 'fr', 'de'] as const
+
+export type Language = (typeof supportedLanguages)[number]
+
+export const defaultLocale = 'en-US'
+
+const catalogs: Record<Language, Messages> = { en, es, fr, de }
+
+const isSupportedLanguage = (value: string): value is Language =>
+  supportedLanguages.some((language) => language === value)
+
+const canonicalLocale = (value: string) => {
+  try {
+    return Intl.getCanonicalLocales(value)[0] ?? null
+  } catch {
+    return null
+  }
+}
+
+/** True for well-formed BCP 47 tags, e.g. `fr` or `es-MX`. */
+export const isValidLocale = (value: string) => canonicalLocale(value) !== null
+
+/** The base language of a locale, or null when we don't have a catalog for it. */
+export const languageForLocale = (locale: string): Language | null => {
+  const canonical = canonicalLocale(locale)
+  if (!canonical) {
+    return null
+  }
+  const language = canonical.split('-')[0]?.toLowerCase() ?? ''
+  return isSupportedLanguage(language) ? language : null
+}
+
+/**
+ * Picks the first candidate we can translate into, e.g. the client's own preference ahead of their trainer's locale.
+ * Falls back to US English.
+ */
+export const resolveLocale = (...candidates: (string | null | undefined)[]) => {
+  for (const candidate of candidates) {
+    if (!candidate) {
+      continue
+    }
+    const canonical = canonicalLocale(candidate)
+    if (canonical && languageForLocale(canonical)) {
+      return canonical
+    }
+  }
+  return defaultLocale
+}
+
+/** Language tags from an `Accept-Language` header, most preferred first. */
+export const parseAcceptLanguage = (header: string | null | undefined) =>
+  (header ?? '')
+    .split(',')
+    .map((entry, index) => {
+      const [tag = '', ...params] = entry.trim().split(';')
+      const quality = params.map((param) => param.trim()).find((param) => param.startsWith('q='))
+      return { tag: tag.trim(), quality: quality ? Number(quality.slice(2)) : 1, index }
+    })
+    .filter(({ tag, quality }) => tag && tag !== '*' && Number.isFinite(quality) && quality > 0)
+    .toSorted((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(({ tag }) => tag)
+
+export type Translator = ReturnType<typeof createTranslator>
+
+/** Looks messages up in the catalog for `locale`, formatting plurals and numbers for that locale. */
+export const createTranslator = (locale: string) => {
+  const resolved = resolveLocale(locale)
+  const language = languageForLocale(resolved) ?? 'en'
+  const messages = catalogs[language]
+
+  return {
+    locale: resolved,
+    language,
+    t: (key: MessageKey, values: MessageValues = {}) => formatMessage(messages[key], values, resolved),
+  }
+}
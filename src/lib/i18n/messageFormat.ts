@@ -0,0 +1,178 @@
+/**
+ * A small ICU MessageFormat subset: `{name}` arguments, `{count, plural, =0 {…} one {…} other {…}}` with `#` for the
+ * count, and `{name, select, a {…} other {…}}`. Apostrophes are plain text, so there's no quoting and messages can't
+ * contain literal braces.
+ */
+
+export type MessageValue = string | number | Date | null | undefined
+
+export type MessageValues = Record<string, MessageValue>
+
+type MessagePart =
+  | string
+  | { type: 'argument'; name: string }
+  | { type: 'pound' }
+  | { type: 'plural' | 'select'; name: string; options: Record<string, MessagePart[]> }
+
+export class MessageFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MessageFormatError'
+  }
+}
+
+const parseMessage = (source: string): MessagePart[] => {
+  let index = 0
+
+  const fail = (problem: string): never => {
+    throw new MessageFormatError(`${problem} at ${index} in "${source}".`)
+  }
+
+  const skipWhitespace = () => {
+    while (index < source.length && /\s/.test(source[index] ?? '')) {
+      index++
+    }
+  }
+
+  const readToken = () => {
+    skipWhitespace()
+    const start = index
+    while (index < source.length && !/[\s,{}]/.test(source[index] ?? '')) {
+      index++
+    }
+    return start === index ? fail('Expected a name') : source.slice(start, index)
+  }
+
+  const expect = (char: string) => {
+    skipWhitespace()
+    if (source[index] !== char) {
+      fail(`Expected "${char}"`)
+    }
+    index++
+  }
+
+  const parseArgument = (inPlural: boolean): MessagePart => {
+    index++
+    const name = readToken()
+    skipWhitespace()
+    if (source[index] === '}') {
+      index++
+      return { type: 'argument', name }
+    }
+
+    expect(',')
+    const type = readToken()
+    if (type !== 'plural' && type !== 'select') {
+      return fail(`Unsupported argument type "${type}"`)
+    }
+    expect(',')
+
+    const options: Record<string, MessagePart[]> = {}
+    skipWhitespace()
+    while (source[index] !== '}') {
+      if (index >= source.length) {
+        fail(`Unclosed {${name}}`)
+      }
+      const key = readToken()
+      expect('{')
+      options[key] = parseParts(type === 'plural' || inPlural)
+      expect('}')
+      skipWhitespace()
+    }
+    index++
+
+    if (!options.other) {
+      fail(`{${name}} needs an "other" option`)
+    }
+    return { type, name, options }
+  }
+
+  const parseParts = (inPlural: boolean): MessagePart[] => {
+    const parts: MessagePart[] = []
+    let text = ''
+    const flush = () => {
+      if (text) {
+        parts.push(text)
+        text = ''
+      }
+    }
+
+    while (index < source.length && source[index] !== '}') {
+      const char = source[index] ?? ''
+      if (char === '{') {
+        flush()
+        parts.push(parseArgument(inPlural))
+      } else if (char === '#' && inPlural) {
+        flush()
+        parts.push({ type: 'pound' })
+        index++
+      } else {
+        text += char
+        index++
+      }
+    }
+
+    flush()
+    return parts
+  }
+
+  const parts = parseParts(false)
+  if (index < source.length) {
+    fail('Unexpected "}"')
+  }
+  return parts
+}
+
+const parsedMessages = new Map<string, MessagePart[]>()
+
+const getParsedMessage = (source: string) => {
+  let parts = parsedMessages.get(source)
+  if (!parts) {
+    parts = parseMessage(source)
+    parsedMessages.set(source, parts)
+  }
+  return parts
+}
+
+const formatValue = (value: MessageValue, locale: string) => {
+  if (value === null || value === undefined) {
+    return ''
+  }
+  if (typeof value === 'number') {
+    return new Intl.NumberFormat(locale).format(value)
+  }
+  if (value instanceof Date) {
+    return new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' }).format(value)
+  }
+  return value
+}
+
+const formatParts = (parts: MessagePart[], values: MessageValues, locale: string, count?: number): string =>
+  parts
+    .map((part) => {
+      if (typeof part === 'string') {
+        return part
+      }
+
+      switch (part.type) {
+        case 'pound':
+          return count === undefined ? '#' : new Intl.NumberFormat(locale).format(count)
+        case 'argument':
+          return formatValue(values[part.name], locale)
+        case 'plural': {
+          const value = Number(values[part.name] ?? 0)
+          const option =
+            part.options[`=${value}`] ?? part.options[new Intl.PluralRules(locale).select(value)] ?? part.options.other
+          return formatParts(option ?? [], values, locale, value)
+        }
+        default: {
+          const option = part.options[String(values[part.name])] ?? part.options.other
+          return formatParts(option ?? [], values, locale, count)
+        }
+      }
+    })
+    .join('')
+
+/** Formats a message, reading plural categories and number formats from `locale`. */
+export const formatMessage = (source: string, values: MessageValues, locale: string) =>
+  formatParts(getParsedMessage(source), values, locale)
@@ -0,0 +1,311 @@
+import type { Messages } from './en'
+
+export const de: Messages = {
+  'common.appointment': 'Termin',
+  'common.appointmentWith': '{appointmentName} mit {serviceProviderName}',
+  'common.startsIn':
+    '{unit, select, minute {{count, plural, one {in # Minute} other {in # Minuten}}} hour {{count, plural, one {in # Stunde} other {in # Stunden}}} other {{count, plural, one {in # Tag} other {in # Tagen}}}}',
+  'common.sessions': '{count, plural, one {# Einheit} other {# Einheiten}}',
+  'common.everyWeeks': '{count, plural, one {jede Woche} other {alle # Wochen}}',
+
+  'email.footer': 'Sie erhalten diese E-Mail, weil {reason}.',
+  'email.viewDetails': 'Details ansehen →',
+  'email.addToCalendar': 'Zum Kalender hinzufügen →',
+  'email.location': 'Ort',
+  'email.googleMaps': 'Google Maps →',
+  'email.appleMaps': 'Apple Karten →',
+  'email.contactServiceProvider': 'Kontaktieren Sie {serviceProviderName} per {contactDetails}.',
+  'email.outstandingPayments': '{count, plural, one {eine offene Zahlung} other {offene Zahlungen}}',
+  'email.buttonFallback': 'Falls die Schaltfläche nicht funktioniert, kopieren Sie diesen Link in Ihren Browser:',
+  'email.teamName': 'Das {appName}-Team',
+  'email.clientOfReason': 'Sie Kunde von {serviceProviderName} sind',
+
+  'document.invoice': 'Rechnung',
+  'document.receipt': 'Quittung',
+  'document.invoiceNumber': 'Rechnungsnummer',
+  'document.receiptNumber': 'Quittungsnummer',
+  'document.issued': 'Rechnungsdatum',
+  'document.due': 'Fällig am',
+  'document.paidOn': 'Bezahlt am',
+  'document.billTo': 'Rechnung an',
+  'document.item': 'Beschreibung',
+  'document.amount': 'Betrag',
+  'document.total': 'Gesamt',
+  'document.taxIncluded': 'Enthält {label} ({percent} %)',
+  'document.tax': 'Steuer',
+  'document.cardFee': 'Kartengebühr',
+  'document.amountPaid': 'Bezahlter Betrag',
+  'document.amountRefunded': 'Erstatteter Betrag',
+  'document.amountDue': 'Offener Betrag',
+  'document.paymentMethod': 'Zahlungsart',
+  'document.method':
+    '{method, select, card {Karte} cash {Bargeld} electronic {Überweisung} creditPack {Guthabenpaket} subscription {Abonnement} other {Sonstige}}',
+  'document.note': 'Notiz',
+  'document.paid': 'Bezahlt',
+  'document.refunded': 'Erstattet',
+
+  'loginEmail.subject': '{code} ist Ihr Anmeldecode für das Kundenportal',
+  'loginEmail.instructions': 'Geben Sie {code} ein, um sich bei Ihrem Kundenportal anzumelden.',
+  'loginEmail.ignore': 'Wenn Sie diesen Code nicht angefordert haben, können Sie diese E-Mail ignorieren.',
+
+  'sms.appointmentReminder':
+    'Erinnerung: {appointmentName} mit {serviceProviderName} {startsIn}, {appointmentTime}. Mehr: {link} Antworten Sie C zum Bestätigen oder CANCEL zum Absagen.',
+  'sms.waitlistSpotOpened':
+    'Ein Platz für {appointmentName} mit {serviceProviderName} am {appointmentTime} ist frei geworden. Buchen Sie ihn bis {claimExpiresAt}: {link}',
+
+  'dashboard.title': 'Kundenportal',
+  'dashboard.shellTitle': 'Kundenportal',
+  'dashboard.backToDashboard': 'Zurück zum Portal',
+  'dashboard.previous': 'Zurück',
+  'dashboard.next': 'Weiter',
+  'dashboard.pageOf': 'Seite {page} von {totalPages}',
+  'dashboard.soon': 'bald',
+  'dashboard.somethingWentWrong': 'Etwas ist schiefgelaufen',
+  'dashboard.orUseNewCard': 'Oder eine neue Karte verwenden',
+  'dashboard.newCardDetails': 'Neue Karte',
+  'dashboard.savedCardDetails': 'Gespeicherte Karte',
+  'dashboard.enterCardDetails': 'Geben Sie Ihre Kartendaten ein, um fortzufahren.',
+  'dashboard.unableToSaveCard': 'Diese Karte konnte nicht gespeichert werden.',
+  'dashboard.status':
+    '{status, select, active {Aktiv} paid {Bezahlt} succeeded {Erfolgreich} refunded {Erstattet} pending {Ausstehend} paused {Pausiert} rejected {Abgelehnt} cancelled {Storniert} ended {Beendet} requested {Angefragt} other {{status}}}',
+  'dashboard.amountEvery': '{amount} {interval}',
+
+  'dashboard.nav.home': 'Start',
+  'dashboard.nav.paymentMethod': 'Zahlungsmethode',
+  'dashboard.nav.helpCenter': 'Hilfe',
+  'dashboard.nav.feedback': 'Feedback',
+  'dashboard.nav.terms': 'AGB',
+  'dashboard.nav.privacy': 'Datenschutz',
+  'dashboard.nav.poweredBy': 'Bereitgestellt von {appName}',
+  'dashboard.nav.openMenu': 'Menü öffnen',
+  'dashboard.nav.closeMenu': 'Menü schließen',
+  'dashboard.nav.account': 'Konto',
+  'dashboard.nav.language': 'Sprache',
+  'dashboard.nav.logout': 'Abmelden',
+
+  'dashboard.card.none': 'Keine Karte hinterlegt',
+  'dashboard.card.expired': 'Abgelaufen {month}/{year}',
+  'dashboard.card.expires': 'Gültig bis {month}/{year}',
+
+  'dashboard.home.paymentMethod': 'Zahlungsmethode',
+  'dashboard.home.paymentMethodDescription': 'Verwalten Sie die Karte für Abonnements und Zahlungen.',
+  'dashboard.home.updateCard': 'Karte aktualisieren',
+  'dashboard.home.edit': 'Bearbeiten',
+  'dashboard.home.paymentRequests': 'Zahlungsanforderungen',
+  'dashboard.home.paymentRequestsDescription': 'Offene Rechnungen, die bezahlt werden müssen.',
+  'dashboard.home.noPaymentRequests': 'Sie haben keine Zahlungsanforderungen',
+  'dashboard.home.paymentRequest': 'Zahlungsanforderung',
+  'dashboard.home.overdue': 'Überfällig',
+  'dashboard.home.due': '{amount} · Fällig am {date}',
+  'dashboard.home.outstanding': '{amount} offen',
+  'dashboard.home.memberships': 'Mitgliedschaften',
+  'dashboard.home.membershipsDescription': 'Verbleibende Einheiten im aktuellen Zeitraum Ihrer Mitgliedschaft.',
+  'dashboard.home.renews': 'Verlängert sich am {date}',
+  'dashboard.home.sessionsRemaining': 'Noch {remaining} von {allowed, plural, one {# Einheit} other {# Einheiten}}',
+  'dashboard.home.subscriptions': 'Abonnements',
+  'dashboard.home.subscriptionsDescription': 'Aktive, überfällige und frühere Abonnements.',
+  'dashboard.home.tab':
+    '{tab, select, activeOverdue {Aktiv/Überfällig ({count})} paused {Pausiert ({count})} other {Beendet ({count})}}',
+  'dashboard.home.noSubscriptions': 'Keine Abonnements vorhanden',
+  'dashboard.home.noSubscriptionsDescription': 'Hier sehen Sie Ihre aktiven oder früheren Abonnements.',
+  'dashboard.home.overdueCount': '{count} überfällig',
+  'dashboard.home.needsAcceptance': 'Zustimmung erforderlich',
+  'dashboard.home.nextDebitDate': 'Nächste Abbuchung: {date}',
+  'dashboard.home.billingHistory': 'Rechnungsverlauf',
+  'dashboard.home.billingHistoryDescription': 'Aktuelle Zahlungen für Rechnungen und Abonnements.',
+  'dashboard.home.noBillingHistory': 'Noch kein Rechnungsverlauf',
+  'dashboard.home.noBillingHistoryDescription': 'Zahlungen erscheinen hier, sobald sie verarbeitet wurden.',
+  'dashboard.home.paymentFor': 'Zahlung für {name}',
+  'dashboard.home.payment': 'Zahlung',
+  'dashboard.home.planPaymentFor': 'Abozahlung für {name}',
+  'dashboard.home.planPayment': 'Abozahlung',
+
+  'dashboard.faq.title': 'Hilfe',
+  'dashboard.faq.heading': 'Häufige Fragen',
+  'dashboard.faq.whatIsThis': 'Was ist dieses Portal?',
+  'dashboard.faq.whatIsThisAnswer':
+    'Hier sehen Sie an einem Ort anstehende Zahlungen, Ihren Zahlungsverlauf und Abonnements für Produkte oder Leistungen, die Sie bei Ihrem Anbieter gebucht haben. Künftig kommen auch Buchungsinformationen und mehr hinzu.',
+  'dashboard.faq.pause': 'Wie pausiere ich ein Abonnement oder stoppe eine Zahlung?',
+  'dashboard.faq.pauseAnswer':
+    'Wenden Sie sich an den Anbieter, der die wiederkehrende Zahlung oder Anforderung erstellt hat. Wenn Sie ihn nicht erreichen, schreiben Sie an {supportEmail} und wir nehmen in Ihrem Namen Kontakt auf.',
+  'dashboard.faq.fees': 'Welche Gebühren fallen für mich an?',
+  'dashboard.faq.feesAnswer':
+    '{appName} berechnet Kunden keine Gebühren. Der Betrag auf der Zahlungsanforderung oder im Abonnement ist genau der Betrag, der abgebucht wird. Wenn Ihr Anbieter die Kartengebühren weitergibt, werden diese auf der Zahlungsseite deutlich angezeigt.',
+  'dashboard.faq.visibility': 'Welche Informationen sieht der Anbieter?',
+  'dashboard.faq.visibilityAnswer':
+    'Anbieter sehen, ob Zahlungen erfolgreich, ausstehend oder abgelehnt sind. Vertrauliche Kartendaten sehen sie nicht. Zahlungen werden sicher über Stripe abgewickelt, einen PCI-DSS-konformen Zahlungsdienst.',
+  'dashboard.faq.privacy': 'Sind meine Daten sicher und vertraulich?',
+  'dashboard.faq.privacyAnswer': 'Ja. Mehr dazu, wie wir mit Daten umgehen, lesen Sie in unserer Datenschutzerklärung.',
+  'dashboard.faq.help': 'Etwas stimmt nicht, ich brauche Hilfe.',
+  'dashboard.faq.helpAnswer': 'Bei Fragen oder Einwänden schreiben Sie an {supportEmail}, und wir helfen Ihnen weiter.',
+
+  'dashboard.paymentMethod.title': 'Zahlungsmethode',
+  'dashboard.paymentMethod.cardDetails': 'Ihre Kartendaten',
+  'dashboard.paymentMethod.cardDetailsDescription':
+    'Wir verwenden diese Karte für Abonnements und genehmigte Zahlungen.',
+  'dashboard.paymentMethod.saved': 'Karte gespeichert.',
+  'dashboard.paymentMethod.cardOnFile': 'Hinterlegte Karte',
+  'dashboard.paymentMethod.enterCardDetails': 'Geben Sie Ihre Kartendaten ein, um fortzufahren.',
+  'dashboard.paymentMethod.unableToSave': 'Diese Karte konnte nicht gespeichert werden. Bitte versuchen Sie es erneut.',
+  'dashboard.paymentMethod.termsBefore': 'Mit dem Hinzufügen Ihrer Karte stimmen Sie den',
+  'dashboard.paymentMethod.termsLink': 'Geschäftsbedingungen von {appName}',
+  'dashboard.paymentMethod.termsAfter': ' zu. Ihr Anbieter kann Ihre Karte nicht ohne Ihre Zustimmung belasten.',
+  'dashboard.paymentMethod.save': 'Karte speichern',
+
+  'dashboard.updateEmail.title': 'E-Mail-Adresse ändern',
+  'dashboard.updateEmail.contact': 'Wenden Sie sich an Ihren Anbieter',
+  'dashboard.updateEmail.contactDescription':
+    'Änderungen der E-Mail-Adresse nimmt Ihr Anbieter vor. Wenden Sie sich an ihn oder an den {appName}-Support, wenn Sie Hilfe brauchen.',
+  'dashboard.updateEmail.currentEmail': 'Aktuelle E-Mail-Adresse',
+  'dashboard.updateEmail.needHelp': 'Brauchen Sie Hilfe? Schreiben Sie an {supportEmail}.',
+
+  'dashboard.plan.summary': 'Aboübersicht',
+  'dashboard.plan.summaryDescription': 'Die wichtigsten Angaben zu diesem Abonnement.',
+  'dashboard.plan.amount': 'Betrag',
+  'dashboard.plan.status': 'Status',
+  'dashboard.plan.startDate': 'Beginn',
+  'dashboard.plan.endDate': 'Ende',
+  'dashboard.plan.nextDebitDate': 'Nächste Abbuchung',
+  'dashboard.plan.overdueBalance': 'Überfälliger Betrag',
+  'dashboard.plan.automated': 'Zahlungen erfolgen automatisch',
+  'dashboard.plan.automatedDescription': 'Ihr Abonnement wird automatisch nach Zeitplan abgebucht.',
+  'dashboard.plan.history': 'Zahlungsverlauf',
+  'dashboard.plan.historyDescription': 'Frühere Zahlungen für dieses Abonnement.',
+  'dashboard.plan.noPayments': 'Noch keine Zahlungen',
+  'dashboard.plan.noPaymentsDescription': 'Zahlungen erscheinen hier, sobald sie verarbeitet wurden.',
+  'dashboard.plan.payment': 'Zahlung',
+  'dashboard.plan.date': 'Datum',
+  'dashboard.plan.planPayment': 'Abozahlung',
+  'dashboard.plan.withSavedCard':
+    '{action, select, accept {Abonnement mit gespeicherter Karte akzeptieren} payOverdue {Überfälligen Betrag mit gespeicherter Karte bezahlen} other {Zahlung mit gespeicherter Karte erneut versuchen}}',
+  'dashboard.plan.withNewCard':
+    '{action, select, accept {Abonnement mit neuer Karte akzeptieren} payOverdue {Überfälligen Betrag mit neuer Karte bezahlen} other {Zahlung mit neuer Karte erneut versuchen}}',
+  'dashboard.plan.stripeNotReady': 'Stripe ist noch nicht bereit. Bitte versuchen Sie es erneut.',
+  'dashboard.plan.noOverdue': 'Keine überfälligen Zahlungen zum erneuten Versuch gefunden.',
+  'dashboard.plan.accepted': 'Abonnement akzeptiert.',
+  'dashboard.plan.retrying': 'Ihre Zahlungen werden erneut versucht.',
+  'dashboard.plan.acceptTitle': 'Abonnement akzeptieren',
+  'dashboard.plan.resolveTitle': 'Zahlungen begleichen',
+  'dashboard.plan.acceptDescription': 'Stimmen Sie den Bedingungen zu, um die automatische Abrechnung zu starten.',
+  'dashboard.plan.resolveDescription':
+    'Versuchen Sie offene Zahlungen mit Ihrer gespeicherten oder einer neuen Karte erneut.',
+  'dashboard.plan.overduePayments': 'Überfällige Zahlungen',
+  'dashboard.plan.willBeCharged': 'Es werden {amount} abgebucht.',
+  'dashboard.plan.requiresAcceptance': 'Das Abonnement muss akzeptiert werden',
+  'dashboard.plan.requiresAcceptanceDescription':
+    'Mit Ihrer Zustimmung erlauben Sie diesem Anbieter, Ihre Karte gemäß den Abobedingungen zu belasten.',
+
+  'dashboard.sale.title': 'Zahlungsanforderung',
+  'dashboard.sale.summary': 'Zahlungsübersicht',
+  'dashboard.sale.summaryDescription': 'Prüfen Sie die Zahlungsdetails, bevor Sie bezahlen.',
+  'dashboard.sale.total': 'Gesamt',
+  'dashboard.sale.status': 'Status',
+  'dashboard.sale.dueDate': 'Fälligkeitsdatum',
+  'dashboard.sale.soon': 'Bald',
+  'dashboard.sale.datePaid': 'Bezahlt am',
+  'dashboard.sale.amountDue': 'Offener Betrag',
+  'dashboard.sale.amountRefunded': 'Erstatteter Betrag',
+  'dashboard.sale.documents': 'Dokumente',
+  'dashboard.sale.documentsDescription':
+    'Laden Sie die Rechnung oder Quittungen zu dieser Zahlungsanforderung herunter.',
+  'dashboard.sale.downloadInvoice': 'Rechnung herunterladen',
+  'dashboard.sale.downloadReceipt': 'Quittung über {amount}, bezahlt am {date}',
+  'dashboard.sale.items': 'Positionen',
+  'dashboard.sale.itemsDescription': 'Produkte in dieser Zahlungsanforderung.',
+  'dashboard.sale.noProducts': 'Keine Produkte',
+  'dashboard.sale.noProductsDescription': 'Diese Zahlungsanforderung enthält keine Positionen.',
+  'dashboard.sale.item': 'Position',
+  'dashboard.sale.price': 'Preis',
+  'dashboard.sale.taxIncluded': 'Enthält {label} ({percent} %)',
+  'dashboard.sale.cardFee': 'Kartengebühr',
+  'dashboard.sale.cardFeeDescription': 'Ihr Anbieter gibt die Kartengebühr für diese Zahlungsanforderung weiter.',
+  'dashboard.sale.domesticCards': 'Karten aus {region}',
+  'dashboard.sale.internationalCards': 'Karten außerhalb von {region}',
+  'dashboard.sale.alreadyPaid': 'Diese Zahlungsanforderung ist bereits bezahlt.',
+  'dashboard.sale.complete': 'Zahlung abschließen',
+  'dashboard.sale.completeDescription': 'Wählen Sie eine Zahlungsmethode, um diese Anforderung zu bezahlen.',
+  'dashboard.sale.totalWithFee': '{total} + Gebühr',
+  'dashboard.sale.paymentComplete': 'Zahlung abgeschlossen.',
+  'dashboard.sale.stripeNotReady': 'Stripe ist noch nicht bereit.',
+  'dashboard.sale.authenticationFailed': 'Die zusätzliche Authentifizierung ist fehlgeschlagen.',
+  'dashboard.sale.paymentFailed': 'Die Zahlung ist fehlgeschlagen.',
+  'dashboard.sale.payWithSavedCard': '{total} mit gespeicherter Karte bezahlen',
+  'dashboard.sale.payWithNewCard': '{total} mit neuer Karte bezahlen',
+  'dashboard.sale.cardDetails': 'Kartendaten',
+  'dashboard.sale.saveAsDefault': 'Als Standardzahlungsmethode speichern',
+
+  'dashboard.login.codeSent':
+    'Wir haben Ihnen einen temporären Anmeldecode per E-Mail geschickt. Geben Sie ihn unten ein, um fortzufahren.',
+  'dashboard.login.pickDescription': 'Wählen Sie den Anbieter, den Sie ansehen möchten.',
+  'dashboard.login.description': 'Verwalten Sie Ihre Zahlungen und Abonnements sicher.',
+  'dashboard.login.welcome': 'Willkommen zurück',
+  'dashboard.login.choose': 'Portal auswählen',
+  'dashboard.login.signIn': 'Mit E-Mail anmelden',
+  'dashboard.login.chooseDescription': 'Wählen Sie das Profil, das zu Ihrem Anbieter gehört.',
+  'dashboard.login.signInDescription': 'Wir senden Ihnen einen temporären Code für den Zugang zu Ihrem Portal.',
+  'dashboard.login.email': 'E-Mail',
+  'dashboard.login.emailPlaceholder': 'sie@beispiel.de',
+  'dashboard.login.sendCode': 'Code senden',
+  'dashboard.login.code': 'Temporärer Anmeldecode',
+  'dashboard.login.codePlaceholder': '6-stelligen Code eingeben',
+  'dashboard.login.continue': 'Weiter',
+  'dashboard.login.differentEmail': 'Andere E-Mail-Adresse verwenden',
+  'dashboard.login.trouble': 'Probleme bei der Anmeldung? Schreiben Sie an {supportEmail}',
+
+  'dashboard.link.missingData': 'Die Daten des Anmeldelinks fehlen.',
+  'dashboard.link.invalid': 'Dieser Anmeldelink ist ungültig.',
+  'dashboard.link.missingInformation': 'In diesem Anmeldelink fehlen erforderliche Angaben.',
+  'dashboard.link.signingIn': 'Anmeldung läuft',
+  'dashboard.link.validating': 'Wir prüfen Ihren sicheren Link.',
+  'dashboard.link.holdOn': 'Einen Moment',
+  'dashboard.link.fewSeconds': 'Das dauert nur ein paar Sekunden.',
+  'dashboard.link.requestNew': 'Fordern Sie einen neuen Anmeldelink an oder geben Sie einen Code ein.',
+  'dashboard.link.validatingLink': 'Link wird geprüft',
+  'dashboard.link.goToLogin': 'Zur Anmeldung',
+
+  'dashboard.errors.emailRequired': 'E-Mail-Adresse ist erforderlich',
+  'dashboard.errors.emailInvalid': 'Geben Sie eine gültige E-Mail-Adresse ein.',
+  'dashboard.errors.sendCodeFailed': 'Der Anmeldecode konnte nicht gesendet werden. Bitte versuchen Sie es erneut.',
+  'dashboard.errors.codeRequired': 'Geben Sie den Code ein, den wir Ihnen per E-Mail geschickt haben.',
+  'dashboard.errors.codeInvalid': 'Der Code ist ungültig, abgelaufen oder wurde bereits verwendet.',
+  'dashboard.errors.validateCodeFailed': 'Ihr Code konnte nicht geprüft werden. Bitte versuchen Sie es erneut.',
+  'dashboard.errors.pickClient': 'Wählen Sie einen Kunden, um fortzufahren.',
+  'dashboard.errors.createSessionFailed':
+    'Die Portalsitzung konnte nicht gestartet werden. Fordern Sie einen neuen Code an.',
+  'dashboard.errors.linkNoLongerValid': 'Dieser Anmeldelink ist nicht mehr gültig.',
+  'dashboard.errors.linkExpired': 'Dieser Anmeldelink ist abgelaufen.',
+  'dashboard.errors.signInToUpdatePaymentMethod': 'Melden Sie sich erneut an, um Ihre Zahlungsmethode zu ändern.',
+  'dashboard.errors.stripeConfigurationMissing':
+    'Die Stripe-Konfiguration fehlt. Bitte versuchen Sie es später erneut.',
+  'dashboard.errors.clientNotFound': 'Kunde nicht gefunden.',
+  'dashboard.errors.paymentsNotEnabled': 'Ihr Anbieter hat Zahlungen nicht aktiviert.',
+  'dashboard.errors.cardSetupFailed': 'Die Karte konnte nicht eingerichtet werden. Bitte versuchen Sie es erneut.',
+  'dashboard.errors.noClientSecret': 'Stripe hat kein Client-Secret zurückgegeben.',
+  'dashboard.errors.invalidSubscription': 'Ungültiges Abonnement.',
+  'dashboard.errors.signInToAccept': 'Melden Sie sich erneut an, um dieses Abonnement zu akzeptieren.',
+  'dashboard.errors.subscriptionNotFound': 'Abonnement nicht gefunden.',
+  'dashboard.errors.subscriptionCancelled': 'Stornierte Abonnements können nicht akzeptiert werden.',
+  'dashboard.errors.paymentMethodRequired':
+    'Zum Akzeptieren dieses Abonnements ist eine gespeicherte Zahlungsmethode erforderlich.',
+  'dashboard.errors.acceptFailed': 'Das Abonnement konnte nicht akzeptiert werden. Bitte versuchen Sie es erneut.',
+  'dashboard.errors.signInToRetry': 'Melden Sie sich erneut an, um dieses Abonnement erneut zu versuchen.',
+  'dashboard.errors.retryFailed': 'Die Abozahlungen konnten nicht erneut versucht werden.',
+  'dashboard.errors.invalidPaymentRequest': 'Ungültige Zahlungsanforderung.',
+  'dashboard.errors.signInToPay': 'Melden Sie sich erneut an, um die Zahlung abzuschließen.',
+  'dashboard.errors.saleNotFound': 'Verkauf nicht gefunden.',
+  'dashboard.errors.alreadyPaid': 'Diese Zahlungsanforderung wurde bereits bezahlt.',
+  'dashboard.errors.amountMismatch': 'Der Zahlungsbetrag muss dem offenen Gesamtbetrag entsprechen.',
+  'dashboard.errors.stripePaymentsDisabled': 'Stripe-Zahlungen sind für diesen Anbieter nicht aktiviert.',
+  'dashboard.errors.serviceProviderCantTakePayments':
+    'Ihr Anbieter hat Zahlungen nicht aktiviert. Wir haben ihn benachrichtigt.',
+  'dashboard.errors.cardRequired': 'Es werden nur Kartenzahlungen unterstützt.',
+  'dashboard.errors.amountOutOfRange': 'Der Zahlungsbetrag liegt außerhalb der zulässigen Grenzen.',
+  'dashboard.errors.invalidFeeConfiguration': 'Die Gebührenkonfiguration hat ein ungültiges Ergebnis geliefert.',
+  'dashboard.errors.currencyNotSupported': 'Diese Währung wird nicht unterstützt.',
+  'dashboard.errors.countryNotSupported': 'Kartenzahlungen aus diesem Land werden nicht unterstützt.',
+  'dashboard.errors.paymentIncomplete': 'Die Stripe-Zahlung wurde nicht abgeschlossen.',
+  'dashboard.errors.salePaymentFailed': 'Die Zahlung konnte nicht erstellt werden.',
+  'dashboard.errors.invalidLanguage': 'Diese Sprache ist nicht verfügbar.',
+  'dashboard.errors.signInToChangeLanguage': 'Melden Sie sich erneut an, um die Sprache zu ändern.',
+  'dashboard.errors.changeLanguageFailed': 'Die Sprache konnte nicht geändert werden. Bitte versuchen Sie es erneut.',
+}
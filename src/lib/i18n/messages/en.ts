@@ -0,0 +1,312 @@
+/**
+ * Client-facing copy in English. Every other catalog has to translate each of these keys. Messages use the ICU
+ * syntax in `../messageFormat`.
+ */
+export const en = {
+  'common.appointment': 'Appointment',
+  'common.appointmentWith': '{appointmentName} with {serviceProviderName}',
+  'common.startsIn':
+    '{unit, select, minute {{count, plural, one {in # minute} other {in # minutes}}} hour {{count, plural, one {in # hour} other {in # hours}}} other {{count, plural, one {in # day} other {in # days}}}}',
+  'common.sessions': '{count, plural, one {# session} other {# sessions}}',
+  'common.everyWeeks': '{count, plural, one {every week} other {every # weeks}}',
+
+  'email.footer': 'You received this email because {reason}.',
+  'email.viewDetails': 'View details →',
+  'email.addToCalendar': 'Add to calendar →',
+  'email.location': 'Location',
+  'email.googleMaps': 'Google maps →',
+  'email.appleMaps': 'Apple maps →',
+  'email.contactServiceProvider': 'Contact {serviceProviderName} via {contactDetails}.',
+  'email.outstandingPayments': '{count, plural, one {an outstanding payment} other {outstanding payments}}',
+  'email.buttonFallback': 'If the button does not work, copy and paste this link into your browser:',
+  'email.teamName': '{appName} Team',
+  'email.clientOfReason': 'you are a client of {serviceProviderName}',
+
+  'document.invoice': 'Invoice',
+  'document.receipt': 'Receipt',
+  'document.invoiceNumber': 'Invoice number',
+  'document.receiptNumber': 'Receipt number',
+  'document.issued': 'Date issued',
+  'document.due': 'Due date',
+  'document.paidOn': 'Date paid',
+  'document.billTo': 'Bill to',
+  'document.item': 'Description',
+  'document.amount': 'Amount',
+  'document.total': 'Total',
+  'document.taxIncluded': 'Includes {label} ({percent}%)',
+  'document.tax': 'Tax',
+  'document.cardFee': 'Card fee',
+  'document.amountPaid': 'Amount paid',
+  'document.amountRefunded': 'Amount refunded',
+  'document.amountDue': 'Amount due',
+  'document.paymentMethod': 'Payment method',
+  'document.method':
+    '{method, select, card {Card} cash {Cash} electronic {Bank transfer} creditPack {Credit pack} subscription {Subscription} other {Other}}',
+  'document.note': 'Note',
+  'document.paid': 'Paid',
+  'document.refunded': 'Refunded',
+
+  'loginEmail.subject': '{code} is your client dashboard login code',
+  'loginEmail.instructions': 'Enter {code} to log in to your client dashboard.',
+  'loginEmail.ignore': 'If you did not request this code, you can safely ignore this email.',
+
+  'sms.appointmentReminder':
+    'Reminder: {appointmentName} with {serviceProviderName} {startsIn}, {appointmentTime}. More: {link} Reply C to confirm or CANCEL to cancel.',
+  'sms.waitlistSpotOpened':
+    'A spot opened up in {appointmentName} with {serviceProviderName} on {appointmentTime}. Claim it before {claimExpiresAt}: {link}',
+
+  'dashboard.title': 'Client Dashboard',
+  'dashboard.shellTitle': 'Client dashboard',
+  'dashboard.backToDashboard': 'Back to dashboard',
+  'dashboard.previous': 'Previous',
+  'dashboard.next': 'Next',
+  'dashboard.pageOf': 'Page {page} of {totalPages}',
+  'dashboard.soon': 'soon',
+  'dashboard.somethingWentWrong': 'Something went wrong',
+  'dashboard.orUseNewCard': 'Or use a new card',
+  'dashboard.newCardDetails': 'New card details',
+  'dashboard.savedCardDetails': 'Saved card details',
+  'dashboard.enterCardDetails': 'Enter card details to continue.',
+  'dashboard.unableToSaveCard': 'Unable to save this card.',
+  'dashboard.status':
+    '{status, select, active {Active} paid {Paid} succeeded {Succeeded} refunded {Refunded} pending {Pending} paused {Paused} rejected {Rejected} cancelled {Cancelled} ended {Ended} requested {Requested} other {{status}}}',
+  'dashboard.amountEvery': '{amount} {interval}',
+
+  'dashboard.nav.home': 'Home',
+  'dashboard.nav.paymentMethod': 'Payment Method',
+  'dashboard.nav.helpCenter': 'Help Center',
+  'dashboard.nav.feedback': 'Feedback',
+  'dashboard.nav.terms': 'Terms',
+  'dashboard.nav.privacy': 'Privacy',
+  'dashboard.nav.poweredBy': 'Powered by {appName}',
+  'dashboard.nav.openMenu': 'Open menu',
+  'dashboard.nav.closeMenu': 'Close menu',
+  'dashboard.nav.account': 'Account',
+  'dashboard.nav.language': 'Language',
+  'dashboard.nav.logout': 'Logout',
+
+  'dashboard.card.none': 'No card on file',
+  'dashboard.card.expired': 'Expired {month}/{year}',
+  'dashboard.card.expires': 'Expires {month}/{year}',
+
+  'dashboard.home.paymentMethod': 'Payment Method',
+  'dashboard.home.paymentMethodDescription': 'Manage the card used for subscriptions and payments.',
+  'dashboard.home.updateCard': 'Update card',
+  'dashboard.home.edit': 'Edit',
+  'dashboard.home.paymentRequests': 'Payment Requests',
+  'dashboard.home.paymentRequestsDescription': 'Outstanding invoices waiting for your payment.',
+  'dashboard.home.noPaymentRequests': 'You have no payment requests',
+  'dashboard.home.paymentRequest': 'Payment request',
+  'dashboard.home.overdue': 'Overdue',
+  'dashboard.home.due': '{amount} · Due {date}',
+  'dashboard.home.outstanding': '{amount} outstanding',
+  'dashboard.home.memberships': 'Memberships',
+  'dashboard.home.membershipsDescription': 'Sessions left in your current membership period.',
+  'dashboard.home.renews': 'Renews {date}',
+  'dashboard.home.sessionsRemaining': '{remaining} of {allowed, plural, one {# session} other {# sessions}} remaining',
+  'dashboard.home.subscriptions': 'Subscriptions',
+  'dashboard.home.subscriptionsDescription': 'Active, overdue, and past subscriptions.',
+  'dashboard.home.tab':
+    '{tab, select, activeOverdue {Active/Overdue ({count})} paused {Paused ({count})} other {Ended ({count})}}',
+  'dashboard.home.noSubscriptions': 'No subscriptions to show',
+  'dashboard.home.noSubscriptionsDescription': "You'll see active or past subscriptions here.",
+  'dashboard.home.overdueCount': '{count} overdue',
+  'dashboard.home.needsAcceptance': 'Needs acceptance',
+  'dashboard.home.nextDebitDate': 'Next debit date: {date}',
+  'dashboard.home.billingHistory': 'Billing History',
+  'dashboard.home.billingHistoryDescription': 'Recent payments across invoices and subscriptions.',
+  'dashboard.home.noBillingHistory': 'No billing history yet',
+  'dashboard.home.noBillingHistoryDescription': 'Payments will appear here once processed.',
+  'dashboard.home.paymentFor': 'Payment for {name}',
+  'dashboard.home.payment': 'Payment',
+  'dashboard.home.planPaymentFor': 'Plan payment for {name}',
+  'dashboard.home.planPayment': 'Plan payment',
+
+  'dashboard.faq.title': 'Help center',
+  'dashboard.faq.heading': 'Frequently asked questions',
+  'dashboard.faq.whatIsThis': 'What is this dashboard?',
+  'dashboard.faq.whatIsThisAnswer':
+    'This is a central place where you can see upcoming payments, historical payments, and subscriptions for products or services you have purchased from your service provider. In the future this will also include booking information and more.',
+  'dashboard.faq.pause': 'How do I pause a subscription or stop a payment?',
+  'dashboard.faq.pauseAnswer':
+    'Contact the service provider who created the recurring payment or request. If you are having trouble reaching them, email {supportEmail} and we will reach out on your behalf.',
+  'dashboard.faq.fees': 'What fees are applicable to me?',
+  'dashboard.faq.feesAnswer':
+    '{appName} does not charge clients any fees. The amount listed in the payment request or subscription is exactly what you will be charged. If your provider chooses to pass on card processing fees, it will be displayed clearly on the payment page.',
+  'dashboard.faq.visibility': 'What information can be seen by the service provider?',
+  'dashboard.faq.visibilityAnswer':
+    'Service providers can see whether payments are successful, pending, or declined. They cannot see sensitive card information. Payments are processed securely by Stripe, a PCI DSS compliant payment gateway.',
+  'dashboard.faq.privacy': 'Is my information secure and private?',
+  'dashboard.faq.privacyAnswer': 'Yes. You can read more about how we handle data in our privacy policy.',
+  'dashboard.faq.help': 'Something is wrong, I need help.',
+  'dashboard.faq.helpAnswer':
+    'If you have questions or want to raise a dispute, reach out to {supportEmail} and we will help.',
+
+  'dashboard.paymentMethod.title': 'Payment method',
+  'dashboard.paymentMethod.cardDetails': 'Your card details',
+  'dashboard.paymentMethod.cardDetailsDescription': 'We will use this card for subscriptions and approved payments.',
+  'dashboard.paymentMethod.saved': 'Card saved successfully.',
+  'dashboard.paymentMethod.cardOnFile': 'Card on file',
+  'dashboard.paymentMethod.enterCardDetails': 'Please enter your card details to continue.',
+  'dashboard.paymentMethod.unableToSave': 'Unable to save this card. Please try again.',
+  'dashboard.paymentMethod.termsBefore': "By adding your card details you agree to {appName}'s",
+  'dashboard.paymentMethod.termsLink': 'terms and conditions',
+  'dashboard.paymentMethod.termsAfter': '. Your service provider can not charge you without your consent.',
+  'dashboard.paymentMethod.save': 'Save card',
+
+  'dashboard.updateEmail.title': 'Update email',
+  'dashboard.updateEmail.contact': 'Contact your service provider',
+  'dashboard.updateEmail.contactDescription':
+    'Email updates are handled by your service provider. Reach out to them or to {appName} support for help.',
+  'dashboard.updateEmail.currentEmail': 'Current email',
+  'dashboard.updateEmail.needHelp': 'Need help? Email {supportEmail}.',
+
+  'dashboard.plan.summary': 'Subscription summary',
+  'dashboard.plan.summaryDescription': 'Key details for this subscription.',
+  'dashboard.plan.amount': 'Amount',
+  'dashboard.plan.status': 'Status',
+  'dashboard.plan.startDate': 'Start date',
+  'dashboard.plan.endDate': 'End date',
+  'dashboard.plan.nextDebitDate': 'Next debit date',
+  'dashboard.plan.overdueBalance': 'Overdue balance',
+  'dashboard.plan.automated': 'Payments are automated',
+  'dashboard.plan.automatedDescription': 'Your subscription will be charged automatically on schedule.',
+  'dashboard.plan.history': 'Payment history',
+  'dashboard.plan.historyDescription': 'Past payments for this subscription.',
+  'dashboard.plan.noPayments': 'No payments yet',
+  'dashboard.plan.noPaymentsDescription': 'Payments will appear here once processed.',
+  'dashboard.plan.payment': 'Payment',
+  'dashboard.plan.date': 'Date',
+  'dashboard.plan.planPayment': 'Plan payment',
+  'dashboard.plan.withSavedCard':
+    '{action, select, accept {Accept subscription with saved card} payOverdue {Pay overdue balance with saved card} other {Retry payment with saved card}}',
+  'dashboard.plan.withNewCard':
+    '{action, select, accept {Accept subscription with new card} payOverdue {Pay overdue balance with new card} other {Retry payment with new card}}',
+  'dashboard.plan.stripeNotReady': 'Stripe is not ready yet. Please try again.',
+  'dashboard.plan.noOverdue': 'No overdue payments were found to retry.',
+  'dashboard.plan.accepted': 'Subscription accepted.',
+  'dashboard.plan.retrying': 'We are retrying your payments now.',
+  'dashboard.plan.acceptTitle': 'Accept your subscription',
+  'dashboard.plan.resolveTitle': 'Resolve payments',
+  'dashboard.plan.acceptDescription': 'Accept the terms below to start automatic billing.',
+  'dashboard.plan.resolveDescription': 'Retry outstanding payments using your saved or new card.',
+  'dashboard.plan.overduePayments': 'Overdue payments',
+  'dashboard.plan.willBeCharged': '{amount} will be charged.',
+  'dashboard.plan.requiresAcceptance': 'Subscription requires acceptance',
+  'dashboard.plan.requiresAcceptanceDescription':
+    "By accepting, you allow this service provider to charge your card based on this subscription's terms.",
+
+  'dashboard.sale.title': 'Payment request',
+  'dashboard.sale.summary': 'Payment summary',
+  'dashboard.sale.summaryDescription': 'Review the payment details before completing.',
+  'dashboard.sale.total': 'Total',
+  'dashboard.sale.status': 'Status',
+  'dashboard.sale.dueDate': 'Due date',
+  'dashboard.sale.soon': 'Soon',
+  'dashboard.sale.datePaid': 'Date paid',
+  'dashboard.sale.amountDue': 'Amount due',
+  'dashboard.sale.amountRefunded': 'Amount refunded',
+  'dashboard.sale.documents': 'Documents',
+  'dashboard.sale.documentsDescription': 'Download an invoice or receipts for this payment request.',
+  'dashboard.sale.downloadInvoice': 'Download invoice',
+  'dashboard.sale.downloadReceipt': 'Receipt for {amount} paid {date}',
+  'dashboard.sale.items': 'Items',
+  'dashboard.sale.itemsDescription': 'Products included in this payment request.',
+  'dashboard.sale.noProducts': 'No products',
+  'dashboard.sale.noProductsDescription': 'This payment request has no items.',
+  'dashboard.sale.item': 'Item',
+  'dashboard.sale.price': 'Price',
+  'dashboard.sale.taxIncluded': 'Includes {label} ({percent}%)',
+  'dashboard.sale.cardFee': 'Card fee',
+  'dashboard.sale.cardFeeDescription':
+    'Your service provider passes on the card processing fee for this payment request.',
+  'dashboard.sale.domesticCards': '{region} cards',
+  'dashboard.sale.internationalCards': 'Non-{region} cards',
+  'dashboard.sale.alreadyPaid': 'This payment request is already paid.',
+  'dashboard.sale.complete': 'Complete payment',
+  'dashboard.sale.completeDescription': 'Choose a payment method below to complete this request.',
+  'dashboard.sale.totalWithFee': '{total} + fee',
+  'dashboard.sale.paymentComplete': 'Payment complete.',
+  'dashboard.sale.stripeNotReady': 'Stripe is not ready yet.',
+  'dashboard.sale.authenticationFailed': 'Additional authentication failed.',
+  'dashboard.sale.paymentFailed': 'Payment failed.',
+  'dashboard.sale.payWithSavedCard': 'Pay {total} with saved card',
+  'dashboard.sale.payWithNewCard': 'Pay {total} with new card',
+  'dashboard.sale.cardDetails': 'Card details',
+  'dashboard.sale.saveAsDefault': 'Save as default payment method',
+
+  'dashboard.login.codeSent': 'We sent a temporary login code to your email. Enter it below to continue.',
+  'dashboard.login.pickDescription': 'Select the service provider you want to view.',
+  'dashboard.login.description': 'Manage your payments and subscriptions securely.',
+  'dashboard.login.welcome': 'Welcome back',
+  'dashboard.login.choose': 'Choose your dashboard',
+  'dashboard.login.signIn': 'Sign in with email',
+  'dashboard.login.chooseDescription': 'Pick the profile that matches your service provider.',
+  'dashboard.login.signInDescription': 'We will send you a temporary code to access your dashboard.',
+  'dashboard.login.email': 'Email address',
+  'dashboard.login.emailPlaceholder': 'you@example.com',
+  'dashboard.login.sendCode': 'Email me a code',
+  'dashboard.login.code': 'Temporary login code',
+  'dashboard.login.codePlaceholder': 'Enter the 6-digit code',
+  'dashboard.login.continue': 'Continue',
+  'dashboard.login.differentEmail': 'Use a different email',
+  'dashboard.login.trouble': 'Trouble signing in? Email {supportEmail}',
+
+  'dashboard.link.missingData': 'Missing login link data.',
+  'dashboard.link.invalid': 'This login link is not valid.',
+  'dashboard.link.missingInformation': 'This login link is missing required information.',
+  'dashboard.link.signingIn': 'Signing you in',
+  'dashboard.link.validating': 'We are validating your secure link.',
+  'dashboard.link.holdOn': 'Hold on a moment',
+  'dashboard.link.fewSeconds': 'This should only take a few seconds.',
+  'dashboard.link.requestNew': 'Please request a new login link or enter a code.',
+  'dashboard.link.validatingLink': 'Validating your link',
+  'dashboard.link.goToLogin': 'Go to login',
+
+  'dashboard.errors.emailRequired': 'Email is required',
+  'dashboard.errors.emailInvalid': 'Email must be a valid email address.',
+  'dashboard.errors.sendCodeFailed': 'Unable to send a login code. Please try again.',
+  'dashboard.errors.codeRequired': 'Please enter the code from your email.',
+  'dashboard.errors.codeInvalid': 'Code was invalid, expired, or already used.',
+  'dashboard.errors.validateCodeFailed': 'Unable to validate your code. Please try again.',
+  'dashboard.errors.pickClient': 'Please pick a client to continue.',
+  'dashboard.errors.createSessionFailed': 'Unable to create a dashboard session. Please request a new code.',
+  'dashboard.errors.linkNoLongerValid': 'This login link is no longer valid.',
+  'dashboard.errors.linkExpired': 'This login link has expired.',
+  'dashboard.errors.signInToUpdatePaymentMethod': 'Please sign in again to update your payment method.',
+  'dashboard.errors.stripeConfigurationMissing': 'Stripe configuration is missing. Please try again later.',
+  'dashboard.errors.clientNotFound': 'Client not found.',
+  'dashboard.errors.paymentsNotEnabled': 'Your service provider does not have payments enabled.',
+  'dashboard.errors.cardSetupFailed': 'Unable to create a card setup. Please try again.',
+  'dashboard.errors.noClientSecret': 'Stripe did not return a client secret.',
+  'dashboard.errors.invalidSubscription': 'Invalid subscription.',
+  'dashboard.errors.signInToAccept': 'Please sign in again to accept this subscription.',
+  'dashboard.errors.subscriptionNotFound': 'Subscription not found.',
+  'dashboard.errors.subscriptionCancelled': 'Cancelled subscriptions cannot be accepted.',
+  'dashboard.errors.paymentMethodRequired': 'A saved payment method is required before accepting this subscription.',
+  'dashboard.errors.acceptFailed': 'Failed to accept subscription. Please try again.',
+  'dashboard.errors.signInToRetry': 'Please sign in again to retry this subscription.',
+  'dashboard.errors.retryFailed': 'Failed to retry subscription payments.',
+  'dashboard.errors.invalidPaymentRequest': 'Invalid payment request.',
+  'dashboard.errors.signInToPay': 'Please sign in again to make a payment.',
+  'dashboard.errors.saleNotFound': 'Sale not found.',
+  'dashboard.errors.alreadyPaid': 'This payment request has already been paid.',
+  'dashboard.errors.amountMismatch': 'Payment amount must match the total due.',
+  'dashboard.errors.stripePaymentsDisabled': 'Stripe payments are not enabled for this trainer.',
+  'dashboard.errors.serviceProviderCantTakePayments':
+    "Your service provider does not have payments enabled. We've notified them.",
+  'dashboard.errors.cardRequired': 'Only card payments are supported.',
+  'dashboard.errors.amountOutOfRange': 'The payment amount is outside supported limits.',
+  'dashboard.errors.invalidFeeConfiguration': 'Fee configuration resulted in an invalid calculation.',
+  'dashboard.errors.currencyNotSupported': 'That currency is not supported.',
+  'dashboard.errors.countryNotSupported': 'That card country is not supported for payments.',
+  'dashboard.errors.paymentIncomplete': 'Stripe payment did not complete.',
+  'dashboard.errors.salePaymentFailed': 'Failed to create sale payment.',
+  'dashboard.errors.invalidLanguage': 'That language is not supported.',
+  'dashboard.errors.signInToChangeLanguage': 'Please sign in again to change your language.',
+  'dashboard.errors.changeLanguageFailed': 'Unable to change your language. Please try again.',
+}
+
+export type MessageKey = keyof typeof en
+
+export type Messages = Record<MessageKey, string>
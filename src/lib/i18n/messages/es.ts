@@ -0,0 +1,307 @@
+import type { Messages } from './en'
+
+export const es: Messages = {
+  'common.appointment': 'Cita',
+  'common.appointmentWith': '{appointmentName} con {serviceProviderName}',
+  'common.startsIn':
+    '{unit, select, minute {{count, plural, one {en # minuto} other {en # minutos}}} hour {{count, plural, one {en # hora} other {en # horas}}} other {{count, plural, one {en # día} other {en # días}}}}',
+  'common.sessions': '{count, plural, one {# sesión} other {# sesiones}}',
+  'common.everyWeeks': '{count, plural, one {cada semana} other {cada # semanas}}',
+
+  'email.footer': 'Recibiste este correo porque {reason}.',
+  'email.viewDetails': 'Ver detalles →',
+  'email.addToCalendar': 'Añadir al calendario →',
+  'email.location': 'Ubicación',
+  'email.googleMaps': 'Google Maps →',
+  'email.appleMaps': 'Apple Maps →',
+  'email.contactServiceProvider': 'Contacta con {serviceProviderName} a través de {contactDetails}.',
+  'email.outstandingPayments': '{count, plural, one {un pago pendiente} other {pagos pendientes}}',
+  'email.buttonFallback': 'Si el botón no funciona, copia y pega este enlace en tu navegador:',
+  'email.teamName': 'El equipo de {appName}',
+  'email.clientOfReason': 'es cliente de {serviceProviderName}',
+
+  'document.invoice': 'Factura',
+  'document.receipt': 'Recibo',
+  'document.invoiceNumber': 'Número de factura',
+  'document.receiptNumber': 'Número de recibo',
+  'document.issued': 'Fecha de emisión',
+  'document.due': 'Fecha de vencimiento',
+  'document.paidOn': 'Fecha de pago',
+  'document.billTo': 'Facturar a',
+  'document.item': 'Descripción',
+  'document.amount': 'Importe',
+  'document.total': 'Total',
+  'document.taxIncluded': 'Incluye {label} ({percent} %)',
+  'document.tax': 'Impuesto',
+  'document.cardFee': 'Comisión de tarjeta',
+  'document.amountPaid': 'Importe pagado',
+  'document.amountRefunded': 'Importe reembolsado',
+  'document.amountDue': 'Importe pendiente',
+  'document.paymentMethod': 'Método de pago',
+  'document.method':
+    '{method, select, card {Tarjeta} cash {Efectivo} electronic {Transferencia bancaria} creditPack {Bono de créditos} subscription {Suscripción} other {Otro}}',
+  'document.note': 'Nota',
+  'document.paid': 'Pagado',
+  'document.refunded': 'Reembolsado',
+
+  'loginEmail.subject': '{code} es tu código de acceso al panel de cliente',
+  'loginEmail.instructions': 'Introduce {code} para acceder a tu panel de cliente.',
+  'loginEmail.ignore': 'Si no has solicitado este código, puedes ignorar este correo.',
+
+  'sms.appointmentReminder':
+    'Recordatorio: {appointmentName} con {serviceProviderName} {startsIn}, {appointmentTime}. Más información: {link} Responde C para confirmar o CANCEL para cancelar.',
+  'sms.waitlistSpotOpened':
+    'Se ha liberado una plaza en {appointmentName} con {serviceProviderName} el {appointmentTime}. Resérvala antes del {claimExpiresAt}: {link}',
+
+  'dashboard.title': 'Panel de cliente',
+  'dashboard.shellTitle': 'Panel de cliente',
+  'dashboard.backToDashboard': 'Volver al panel',
+  'dashboard.previous': 'Anterior',
+  'dashboard.next': 'Siguiente',
+  'dashboard.pageOf': 'Página {page} de {totalPages}',
+  'dashboard.soon': 'pronto',
+  'dashboard.somethingWentWrong': 'Algo ha salido mal',
+  'dashboard.orUseNewCard': 'O usa una tarjeta nueva',
+  'dashboard.newCardDetails': 'Datos de la tarjeta nueva',
+  'dashboard.savedCardDetails': 'Datos de la tarjeta guardada',
+  'dashboard.enterCardDetails': 'Introduce los datos de la tarjeta para continuar.',
+  'dashboard.unableToSaveCard': 'No se ha podido guardar esta tarjeta.',
+  'dashboard.status':
+    '{status, select, active {Activa} paid {Pagado} succeeded {Completado} refunded {Reembolsado} pending {Pendiente} paused {En pausa} rejected {Rechazado} cancelled {Cancelado} ended {Finalizada} requested {Solicitado} other {{status}}}',
+  'dashboard.amountEvery': '{amount} {interval}',
+
+  'dashboard.nav.home': 'Inicio',
+  'dashboard.nav.paymentMethod': 'Método de pago',
+  'dashboard.nav.helpCenter': 'Centro de ayuda',
+  'dashboard.nav.feedback': 'Comentarios',
+  'dashboard.nav.terms': 'Términos',
+  'dashboard.nav.privacy': 'Privacidad',
+  'dashboard.nav.poweredBy': 'Con la tecnología de {appName}',
+  'dashboard.nav.openMenu': 'Abrir menú',
+  'dashboard.nav.closeMenu': 'Cerrar menú',
+  'dashboard.nav.account': 'Cuenta',
+  'dashboard.nav.language': 'Idioma',
+  'dashboard.nav.logout': 'Cerrar sesión',
+
+  'dashboard.card.none': 'No hay ninguna tarjeta registrada',
+  'dashboard.card.expired': 'Caducó {month}/{year}',
+  'dashboard.card.expires': 'Caduca {month}/{year}',
+
+  'dashboard.home.paymentMethod': 'Método de pago',
+  'dashboard.home.paymentMethodDescription': 'Gestiona la tarjeta que se usa para suscripciones y pagos.',
+  'dashboard.home.updateCard': 'Actualizar tarjeta',
+  'dashboard.home.edit': 'Editar',
+  'dashboard.home.paymentRequests': 'Solicitudes de pago',
+  'dashboard.home.paymentRequestsDescription': 'Facturas pendientes de pago.',
+  'dashboard.home.noPaymentRequests': 'No tienes solicitudes de pago',
+  'dashboard.home.paymentRequest': 'Solicitud de pago',
+  'dashboard.home.overdue': 'Vencido',
+  'dashboard.home.due': '{amount} · Vence {date}',
+  'dashboard.home.outstanding': '{amount} pendiente',
+  'dashboard.home.memberships': 'Membresías',
+  'dashboard.home.membershipsDescription': 'Sesiones que te quedan en el periodo actual de tu membresía.',
+  'dashboard.home.renews': 'Se renueva el {date}',
+  'dashboard.home.sessionsRemaining': 'Te quedan {remaining} de {allowed, plural, one {# sesión} other {# sesiones}}',
+  'dashboard.home.subscriptions': 'Suscripciones',
+  'dashboard.home.subscriptionsDescription': 'Suscripciones activas, vencidas y anteriores.',
+  'dashboard.home.tab':
+    '{tab, select, activeOverdue {Activas/Vencidas ({count})} paused {En pausa ({count})} other {Finalizadas ({count})}}',
+  'dashboard.home.noSubscriptions': 'No hay suscripciones que mostrar',
+  'dashboard.home.noSubscriptionsDescription': 'Aquí verás tus suscripciones activas o anteriores.',
+  'dashboard.home.overdueCount': '{count} vencidos',
+  'dashboard.home.needsAcceptance': 'Pendiente de aceptar',
+  'dashboard.home.nextDebitDate': 'Próximo cargo: {date}',
+  'dashboard.home.billingHistory': 'Historial de facturación',
+  'dashboard.home.billingHistoryDescription': 'Pagos recientes de facturas y suscripciones.',
+  'dashboard.home.noBillingHistory': 'Aún no hay historial de facturación',
+  'dashboard.home.noBillingHistoryDescription': 'Los pagos aparecerán aquí cuando se procesen.',
+  'dashboard.home.paymentFor': 'Pago de {name}',
+  'dashboard.home.payment': 'Pago',
+  'dashboard.home.planPaymentFor': 'Pago del plan {name}',
+  'dashboard.home.planPayment': 'Pago del plan',
+
+  'dashboard.faq.title': 'Centro de ayuda',
+  'dashboard.faq.heading': 'Preguntas frecuentes',
+  'dashboard.faq.whatIsThis': '¿Qué es este panel?',
+  'dashboard.faq.whatIsThisAnswer':
+    'Es un lugar centralizado donde puedes ver los próximos pagos, el historial de pagos y las suscripciones de productos o servicios que has contratado con tu proveedor. En el futuro también incluirá información sobre reservas y mucho más.',
+  'dashboard.faq.pause': '¿Cómo pauso una suscripción o detengo un pago?',
+  'dashboard.faq.pauseAnswer':
+    'Ponte en contacto con el proveedor que creó el pago recurrente o la solicitud. Si tienes problemas para contactar con él, escribe a {supportEmail} y nos pondremos en contacto en tu nombre.',
+  'dashboard.faq.fees': '¿Qué comisiones se me aplican?',
+  'dashboard.faq.feesAnswer':
+    '{appName} no cobra ninguna comisión a los clientes. El importe indicado en la solicitud de pago o en la suscripción es exactamente lo que se te cobrará. Si tu proveedor decide repercutir las comisiones de procesamiento de la tarjeta, se mostrarán claramente en la página de pago.',
+  'dashboard.faq.visibility': '¿Qué información puede ver el proveedor?',
+  'dashboard.faq.visibilityAnswer':
+    'Los proveedores pueden ver si los pagos se han completado, están pendientes o han sido rechazados. No pueden ver los datos confidenciales de tu tarjeta. Los pagos se procesan de forma segura a través de Stripe, una pasarela de pago que cumple la normativa PCI DSS.',
+  'dashboard.faq.privacy': '¿Mi información es segura y privada?',
+  'dashboard.faq.privacyAnswer': 'Sí. Puedes leer más sobre cómo tratamos los datos en nuestra política de privacidad.',
+  'dashboard.faq.help': 'Algo va mal, necesito ayuda.',
+  'dashboard.faq.helpAnswer':
+    'Si tienes preguntas o quieres abrir una disputa, escribe a {supportEmail} y te ayudaremos.',
+
+  'dashboard.paymentMethod.title': 'Método de pago',
+  'dashboard.paymentMethod.cardDetails': 'Datos de tu tarjeta',
+  'dashboard.paymentMethod.cardDetailsDescription': 'Usaremos esta tarjeta para suscripciones y pagos aprobados.',
+  'dashboard.paymentMethod.saved': 'Tarjeta guardada correctamente.',
+  'dashboard.paymentMethod.cardOnFile': 'Tarjeta registrada',
+  'dashboard.paymentMethod.enterCardDetails': 'Introduce los datos de tu tarjeta para continuar.',
+  'dashboard.paymentMethod.unableToSave': 'No se ha podido guardar esta tarjeta. Inténtalo de nuevo.',
+  'dashboard.paymentMethod.termsBefore': 'Al añadir los datos de tu tarjeta aceptas los',
+  'dashboard.paymentMethod.termsLink': 'términos y condiciones de {appName}',
+  'dashboard.paymentMethod.termsAfter': '. Tu proveedor no puede cobrarte sin tu consentimiento.',
+  'dashboard.paymentMethod.save': 'Guardar tarjeta',
+
+  'dashboard.updateEmail.title': 'Actualizar correo electrónico',
+  'dashboard.updateEmail.contact': 'Ponte en contacto con tu proveedor',
+  'dashboard.updateEmail.contactDescription':
+    'Tu proveedor se encarga de los cambios de correo electrónico. Ponte en contacto con él o con el soporte de {appName} si necesitas ayuda.',
+  'dashboard.updateEmail.currentEmail': 'Correo electrónico actual',
+  'dashboard.updateEmail.needHelp': '¿Necesitas ayuda? Escribe a {supportEmail}.',
+
+  'dashboard.plan.summary': 'Resumen de la suscripción',
+  'dashboard.plan.summaryDescription': 'Datos principales de esta suscripción.',
+  'dashboard.plan.amount': 'Importe',
+  'dashboard.plan.status': 'Estado',
+  'dashboard.plan.startDate': 'Fecha de inicio',
+  'dashboard.plan.endDate': 'Fecha de finalización',
+  'dashboard.plan.nextDebitDate': 'Próximo cargo',
+  'dashboard.plan.overdueBalance': 'Saldo vencido',
+  'dashboard.plan.automated': 'Los pagos son automáticos',
+  'dashboard.plan.automatedDescription': 'Tu suscripción se cobrará automáticamente según el calendario.',
+  'dashboard.plan.history': 'Historial de pagos',
+  'dashboard.plan.historyDescription': 'Pagos anteriores de esta suscripción.',
+  'dashboard.plan.noPayments': 'Aún no hay pagos',
+  'dashboard.plan.noPaymentsDescription': 'Los pagos aparecerán aquí cuando se procesen.',
+  'dashboard.plan.payment': 'Pago',
+  'dashboard.plan.date': 'Fecha',
+  'dashboard.plan.planPayment': 'Pago del plan',
+  'dashboard.plan.withSavedCard':
+    '{action, select, accept {Aceptar la suscripción con la tarjeta guardada} payOverdue {Pagar el saldo vencido con la tarjeta guardada} other {Reintentar el pago con la tarjeta guardada}}',
+  'dashboard.plan.withNewCard':
+    '{action, select, accept {Aceptar la suscripción con una tarjeta nueva} payOverdue {Pagar el saldo vencido con una tarjeta nueva} other {Reintentar el pago con una tarjeta nueva}}',
+  'dashboard.plan.stripeNotReady': 'Stripe todavía no está listo. Inténtalo de nuevo.',
+  'dashboard.plan.noOverdue': 'No se han encontrado pagos vencidos que reintentar.',
+  'dashboard.plan.accepted': 'Suscripción aceptada.',
+  'dashboard.plan.retrying': 'Estamos reintentando tus pagos.',
+  'dashboard.plan.acceptTitle': 'Acepta tu suscripción',
+  'dashboard.plan.resolveTitle': 'Resolver pagos',
+  'dashboard.plan.acceptDescription': 'Acepta las condiciones para empezar la facturación automática.',
+  'dashboard.plan.resolveDescription': 'Reintenta los pagos pendientes con tu tarjeta guardada o con una nueva.',
+  'dashboard.plan.overduePayments': 'Pagos vencidos',
+  'dashboard.plan.willBeCharged': 'Se cobrarán {amount}.',
+  'dashboard.plan.requiresAcceptance': 'La suscripción debe aceptarse',
+  'dashboard.plan.requiresAcceptanceDescription':
+    'Al aceptarla, permites que este proveedor cargue en tu tarjeta los importes según las condiciones de la suscripción.',
+
+  'dashboard.sale.title': 'Solicitud de pago',
+  'dashboard.sale.summary': 'Resumen del pago',
+  'dashboard.sale.summaryDescription': 'Revisa los detalles del pago antes de completarlo.',
+  'dashboard.sale.total': 'Total',
+  'dashboard.sale.status': 'Estado',
+  'dashboard.sale.dueDate': 'Fecha de vencimiento',
+  'dashboard.sale.soon': 'Pronto',
+  'dashboard.sale.datePaid': 'Fecha de pago',
+  'dashboard.sale.amountDue': 'Importe pendiente',
+  'dashboard.sale.amountRefunded': 'Importe reembolsado',
+  'dashboard.sale.documents': 'Documentos',
+  'dashboard.sale.documentsDescription': 'Descarga la factura o los recibos de esta solicitud de pago.',
+  'dashboard.sale.downloadInvoice': 'Descargar factura',
+  'dashboard.sale.downloadReceipt': 'Recibo de {amount} pagado el {date}',
+  'dashboard.sale.items': 'Conceptos',
+  'dashboard.sale.itemsDescription': 'Productos incluidos en esta solicitud de pago.',
+  'dashboard.sale.noProducts': 'No hay productos',
+  'dashboard.sale.noProductsDescription': 'Esta solicitud de pago no tiene conceptos.',
+  'dashboard.sale.item': 'Concepto',
+  'dashboard.sale.price': 'Precio',
+  'dashboard.sale.taxIncluded': 'Incluye {label} ({percent} %)',
+  'dashboard.sale.cardFee': 'Comisión de tarjeta',
+  'dashboard.sale.cardFeeDescription':
+    'Tu proveedor repercute la comisión de procesamiento de la tarjeta en esta solicitud de pago.',
+  'dashboard.sale.domesticCards': 'Tarjetas de {region}',
+  'dashboard.sale.internationalCards': 'Tarjetas de fuera de {region}',
+  'dashboard.sale.alreadyPaid': 'Esta solicitud de pago ya está pagada.',
+  'dashboard.sale.complete': 'Completar el pago',
+  'dashboard.sale.completeDescription': 'Elige un método de pago para completar esta solicitud.',
+  'dashboard.sale.totalWithFee': '{total} + comisión',
+  'dashboard.sale.paymentComplete': 'Pago completado.',
+  'dashboard.sale.stripeNotReady': 'Stripe todavía no está listo.',
+  'dashboard.sale.authenticationFailed': 'La autenticación adicional ha fallado.',
+  'dashboard.sale.paymentFailed': 'El pago ha fallado.',
+  'dashboard.sale.payWithSavedCard': 'Pagar {total} con la tarjeta guardada',
+  'dashboard.sale.payWithNewCard': 'Pagar {total} con una tarjeta nueva',
+  'dashboard.sale.cardDetails': 'Datos de la tarjeta',
+  'dashboard.sale.saveAsDefault': 'Guardar como método de pago predeterminado',
+
+  'dashboard.login.codeSent':
+    'Te hemos enviado un código de acceso temporal por correo electrónico. Introdúcelo a continuación para continuar.',
+  'dashboard.login.pickDescription': 'Selecciona el proveedor que quieres ver.',
+  'dashboard.login.description': 'Gestiona tus pagos y suscripciones de forma segura.',
+  'dashboard.login.welcome': 'Hola de nuevo',
+  'dashboard.login.choose': 'Elige tu panel',
+  'dashboard.login.signIn': 'Accede con tu correo electrónico',
+  'dashboard.login.chooseDescription': 'Elige el perfil que corresponde a tu proveedor.',
+  'dashboard.login.signInDescription': 'Te enviaremos un código temporal para acceder a tu panel.',
+  'dashboard.login.email': 'Correo electrónico',
+  'dashboard.login.emailPlaceholder': 'tu@ejemplo.com',
+  'dashboard.login.sendCode': 'Enviarme un código',
+  'dashboard.login.code': 'Código de acceso temporal',
+  'dashboard.login.codePlaceholder': 'Introduce el código de 6 dígitos',
+  'dashboard.login.continue': 'Continuar',
+  'dashboard.login.differentEmail': 'Usar otro correo electrónico',
+  'dashboard.login.trouble': '¿Problemas para acceder? Escribe a {supportEmail}',
+
+  'dashboard.link.missingData': 'Faltan los datos del enlace de acceso.',
+  'dashboard.link.invalid': 'Este enlace de acceso no es válido.',
+  'dashboard.link.missingInformation': 'A este enlace de acceso le falta información necesaria.',
+  'dashboard.link.signingIn': 'Iniciando sesión',
+  'dashboard.link.validating': 'Estamos validando tu enlace seguro.',
+  'dashboard.link.holdOn': 'Un momento',
+  'dashboard.link.fewSeconds': 'Solo tardará unos segundos.',
+  'dashboard.link.requestNew': 'Solicita un nuevo enlace de acceso o introduce un código.',
+  'dashboard.link.validatingLink': 'Validando tu enlace',
+  'dashboard.link.goToLogin': 'Ir al inicio de sesión',
+
+  'dashboard.errors.emailRequired': 'El correo electrónico es obligatorio',
+  'dashboard.errors.emailInvalid': 'Introduce un correo electrónico válido.',
+  'dashboard.errors.sendCodeFailed': 'No se ha podido enviar el código de acceso. Inténtalo de nuevo.',
+  'dashboard.errors.codeRequired': 'Introduce el código que te hemos enviado por correo electrónico.',
+  'dashboard.errors.codeInvalid': 'El código no es válido, ha caducado o ya se ha usado.',
+  'dashboard.errors.validateCodeFailed': 'No se ha podido validar tu código. Inténtalo de nuevo.',
+  'dashboard.errors.pickClient': 'Elige un cliente para continuar.',
+  'dashboard.errors.createSessionFailed': 'No se ha podido iniciar la sesión en el panel. Solicita un código nuevo.',
+  'dashboard.errors.linkNoLongerValid': 'Este enlace de acceso ya no es válido.',
+  'dashboard.errors.linkExpired': 'Este enlace de acceso ha caducado.',
+  'dashboard.errors.signInToUpdatePaymentMethod': 'Vuelve a iniciar sesión para actualizar tu método de pago.',
+  'dashboard.errors.stripeConfigurationMissing': 'Falta la configuración de Stripe. Inténtalo de nuevo más tarde.',
+  'dashboard.errors.clientNotFound': 'No se ha encontrado el cliente.',
+  'dashboard.errors.paymentsNotEnabled': 'Tu proveedor no tiene los pagos activados.',
+  'dashboard.errors.cardSetupFailed': 'No se ha podido configurar la tarjeta. Inténtalo de nuevo.',
+  'dashboard.errors.noClientSecret': 'Stripe no ha devuelto el secreto del cliente.',
+  'dashboard.errors.invalidSubscription': 'La suscripción no es válida.',
+  'dashboard.errors.signInToAccept': 'Vuelve a iniciar sesión para aceptar esta suscripción.',
+  'dashboard.errors.subscriptionNotFound': 'No se ha encontrado la suscripción.',
+  'dashboard.errors.subscriptionCancelled': 'No se pueden aceptar suscripciones canceladas.',
+  'dashboard.errors.paymentMethodRequired': 'Necesitas un método de pago guardado para aceptar esta suscripción.',
+  'dashboard.errors.acceptFailed': 'No se ha podido aceptar la suscripción. Inténtalo de nuevo.',
+  'dashboard.errors.signInToRetry': 'Vuelve a iniciar sesión para reintentar esta suscripción.',
+  'dashboard.errors.retryFailed': 'No se han podido reintentar los pagos de la suscripción.',
+  'dashboard.errors.invalidPaymentRequest': 'La solicitud de pago no es válida.',
+  'dashboard.errors.signInToPay': 'Vuelve a iniciar sesión para realizar el pago.',
+  'dashboard.errors.saleNotFound': 'No se ha encontrado la venta.',
+  'dashboard.errors.alreadyPaid': 'Esta solicitud de pago ya se ha pagado.',
+  'dashboard.errors.amountMismatch': 'El importe del pago debe coincidir con el total pendiente.',
+  'dashboard.errors.stripePaymentsDisabled': 'Los pagos con Stripe no están activados para este proveedor.',
+  'dashboard.errors.serviceProviderCantTakePayments':
+    'Tu proveedor no tiene los pagos activados. Ya se lo hemos notificado.',
+  'dashboard.errors.cardRequired': 'Solo se admiten pagos con tarjeta.',
+  'dashboard.errors.amountOutOfRange': 'El importe del pago está fuera de los límites admitidos.',
+  'dashboard.errors.invalidFeeConfiguration': 'La configuración de comisiones ha dado un resultado no válido.',
+  'dashboard.errors.currencyNotSupported': 'Esa moneda no está admitida.',
+  'dashboard.errors.countryNotSupported': 'No se admiten pagos con tarjetas de ese país.',
+  'dashboard.errors.paymentIncomplete': 'El pago con Stripe no se ha completado.',
+  'dashboard.errors.salePaymentFailed': 'No se ha podido crear el pago.',
+  'dashboard.errors.invalidLanguage': 'Ese idioma no está disponible.',
+  'dashboard.errors.signInToChangeLanguage': 'Vuelve a iniciar sesión para cambiar el idioma.',
+  'dashboard.errors.changeLanguageFailed': 'No se ha podido cambiar el idioma. Inténtalo de nuevo.',
+}
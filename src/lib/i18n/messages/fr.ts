@@ -0,0 +1,310 @@
+import type { Messages } from './en'
+
+export const fr: Messages = {
+  'common.appointment': 'Rendez-vous',
+  'common.appointmentWith': '{appointmentName} avec {serviceProviderName}',
+  'common.startsIn':
+    '{unit, select, minute {{count, plural, one {dans # minute} other {dans # minutes}}} hour {{count, plural, one {dans # heure} other {dans # heures}}} other {{count, plural, one {dans # jour} other {dans # jours}}}}',
+  'common.sessions': '{count, plural, one {# séance} other {# séances}}',
+  'common.everyWeeks': '{count, plural, one {chaque semaine} other {toutes les # semaines}}',
+
+  'email.footer': 'Vous recevez cet e-mail parce que {reason}.',
+  'email.viewDetails': 'Voir les détails →',
+  'email.addToCalendar': 'Ajouter au calendrier →',
+  'email.location': 'Lieu',
+  'email.googleMaps': 'Google Maps →',
+  'email.appleMaps': 'Plans →',
+  'email.contactServiceProvider': 'Contactez {serviceProviderName} par {contactDetails}.',
+  'email.outstandingPayments': '{count, plural, one {un paiement en attente} other {des paiements en attente}}',
+  'email.buttonFallback': 'Si le bouton ne fonctionne pas, copiez et collez ce lien dans votre navigateur :',
+  'email.teamName': 'L’équipe {appName}',
+  'email.clientOfReason': 'vous êtes client de {serviceProviderName}',
+
+  'document.invoice': 'Facture',
+  'document.receipt': 'Reçu',
+  'document.invoiceNumber': 'Numéro de facture',
+  'document.receiptNumber': 'Numéro de reçu',
+  'document.issued': "Date d'émission",
+  'document.due': "Date d'échéance",
+  'document.paidOn': 'Date de paiement',
+  'document.billTo': 'Facturé à',
+  'document.item': 'Description',
+  'document.amount': 'Montant',
+  'document.total': 'Total',
+  'document.taxIncluded': 'Dont {label} ({percent} %)',
+  'document.tax': 'Taxe',
+  'document.cardFee': 'Frais de carte',
+  'document.amountPaid': 'Montant payé',
+  'document.amountRefunded': 'Montant remboursé',
+  'document.amountDue': 'Montant dû',
+  'document.paymentMethod': 'Moyen de paiement',
+  'document.method':
+    '{method, select, card {Carte} cash {Espèces} electronic {Virement bancaire} creditPack {Pack de crédits} subscription {Abonnement} other {Autre}}',
+  'document.note': 'Note',
+  'document.paid': 'Payé',
+  'document.refunded': 'Remboursé',
+
+  'loginEmail.subject': '{code} est votre code de connexion à l’espace client',
+  'loginEmail.instructions': 'Saisissez {code} pour vous connecter à votre espace client.',
+  'loginEmail.ignore': 'Si vous n’avez pas demandé ce code, vous pouvez ignorer cet e-mail.',
+
+  'sms.appointmentReminder':
+    'Rappel : {appointmentName} avec {serviceProviderName} {startsIn}, {appointmentTime}. Détails : {link} Répondez C pour confirmer ou CANCEL pour annuler.',
+  'sms.waitlistSpotOpened':
+    'Une place s’est libérée pour {appointmentName} avec {serviceProviderName} le {appointmentTime}. Réservez-la avant le {claimExpiresAt} : {link}',
+
+  'dashboard.title': 'Espace client',
+  'dashboard.shellTitle': 'Espace client',
+  'dashboard.backToDashboard': 'Retour à l’espace client',
+  'dashboard.previous': 'Précédent',
+  'dashboard.next': 'Suivant',
+  'dashboard.pageOf': 'Page {page} sur {totalPages}',
+  'dashboard.soon': 'bientôt',
+  'dashboard.somethingWentWrong': 'Une erreur s’est produite',
+  'dashboard.orUseNewCard': 'Ou utilisez une nouvelle carte',
+  'dashboard.newCardDetails': 'Nouvelle carte',
+  'dashboard.savedCardDetails': 'Carte enregistrée',
+  'dashboard.enterCardDetails': 'Saisissez les informations de la carte pour continuer.',
+  'dashboard.unableToSaveCard': 'Impossible d’enregistrer cette carte.',
+  'dashboard.status':
+    '{status, select, active {Actif} paid {Payé} succeeded {Réussi} refunded {Remboursé} pending {En attente} paused {En pause} rejected {Refusé} cancelled {Annulé} ended {Terminé} requested {Demandé} other {{status}}}',
+  'dashboard.amountEvery': '{amount} {interval}',
+
+  'dashboard.nav.home': 'Accueil',
+  'dashboard.nav.paymentMethod': 'Moyen de paiement',
+  'dashboard.nav.helpCenter': 'Centre d’aide',
+  'dashboard.nav.feedback': 'Avis',
+  'dashboard.nav.terms': 'Conditions',
+  'dashboard.nav.privacy': 'Confidentialité',
+  'dashboard.nav.poweredBy': 'Propulsé par {appName}',
+  'dashboard.nav.openMenu': 'Ouvrir le menu',
+  'dashboard.nav.closeMenu': 'Fermer le menu',
+  'dashboard.nav.account': 'Compte',
+  'dashboard.nav.language': 'Langue',
+  'dashboard.nav.logout': 'Se déconnecter',
+
+  'dashboard.card.none': 'Aucune carte enregistrée',
+  'dashboard.card.expired': 'Expirée {month}/{year}',
+  'dashboard.card.expires': 'Expire {month}/{year}',
+
+  'dashboard.home.paymentMethod': 'Moyen de paiement',
+  'dashboard.home.paymentMethodDescription': 'Gérez la carte utilisée pour les abonnements et les paiements.',
+  'dashboard.home.updateCard': 'Mettre à jour la carte',
+  'dashboard.home.edit': 'Modifier',
+  'dashboard.home.paymentRequests': 'Demandes de paiement',
+  'dashboard.home.paymentRequestsDescription': 'Factures en attente de paiement.',
+  'dashboard.home.noPaymentRequests': 'Vous n’avez aucune demande de paiement',
+  'dashboard.home.paymentRequest': 'Demande de paiement',
+  'dashboard.home.overdue': 'En retard',
+  'dashboard.home.due': '{amount} · Échéance {date}',
+  'dashboard.home.outstanding': '{amount} restant dû',
+  'dashboard.home.memberships': 'Abonnements à séances',
+  'dashboard.home.membershipsDescription': 'Séances restantes sur la période en cours de votre formule.',
+  'dashboard.home.renews': 'Renouvellement le {date}',
+  'dashboard.home.sessionsRemaining': '{remaining} restantes sur {allowed, plural, one {# séance} other {# séances}}',
+  'dashboard.home.subscriptions': 'Abonnements',
+  'dashboard.home.subscriptionsDescription': 'Abonnements actifs, en retard et passés.',
+  'dashboard.home.tab':
+    '{tab, select, activeOverdue {Actifs/En retard ({count})} paused {En pause ({count})} other {Terminés ({count})}}',
+  'dashboard.home.noSubscriptions': 'Aucun abonnement à afficher',
+  'dashboard.home.noSubscriptionsDescription': 'Vos abonnements actifs ou passés apparaîtront ici.',
+  'dashboard.home.overdueCount': '{count} en retard',
+  'dashboard.home.needsAcceptance': 'À accepter',
+  'dashboard.home.nextDebitDate': 'Prochain prélèvement : {date}',
+  'dashboard.home.billingHistory': 'Historique de facturation',
+  'dashboard.home.billingHistoryDescription': 'Paiements récents de factures et d’abonnements.',
+  'dashboard.home.noBillingHistory': 'Aucun historique de facturation',
+  'dashboard.home.noBillingHistoryDescription': 'Les paiements apparaîtront ici une fois traités.',
+  'dashboard.home.paymentFor': 'Paiement pour {name}',
+  'dashboard.home.payment': 'Paiement',
+  'dashboard.home.planPaymentFor': 'Paiement de l’abonnement {name}',
+  'dashboard.home.planPayment': 'Paiement d’abonnement',
+
+  'dashboard.faq.title': 'Centre d’aide',
+  'dashboard.faq.heading': 'Questions fréquentes',
+  'dashboard.faq.whatIsThis': 'Qu’est-ce que cet espace ?',
+  'dashboard.faq.whatIsThisAnswer':
+    'C’est un espace centralisé où vous pouvez consulter les paiements à venir, l’historique des paiements et les abonnements aux produits ou services souscrits auprès de votre prestataire. Il comprendra bientôt aussi les réservations et bien plus encore.',
+  'dashboard.faq.pause': 'Comment suspendre un abonnement ou arrêter un paiement ?',
+  'dashboard.faq.pauseAnswer':
+    'Contactez le prestataire qui a créé le paiement récurrent ou la demande. Si vous n’arrivez pas à le joindre, écrivez à {supportEmail} et nous le contacterons pour vous.',
+  'dashboard.faq.fees': 'Quels frais me sont facturés ?',
+  'dashboard.faq.feesAnswer':
+    '{appName} ne facture aucuns frais aux clients. Le montant indiqué sur la demande de paiement ou l’abonnement est exactement celui qui vous sera débité. Si votre prestataire choisit de répercuter les frais de traitement de carte, ils sont clairement indiqués sur la page de paiement.',
+  'dashboard.faq.visibility': 'Quelles informations le prestataire peut-il voir ?',
+  'dashboard.faq.visibilityAnswer':
+    'Les prestataires voient si les paiements ont réussi, sont en attente ou ont été refusés. Ils ne peuvent pas voir les informations sensibles de votre carte. Les paiements sont traités de manière sécurisée par Stripe, une passerelle de paiement conforme à la norme PCI DSS.',
+  'dashboard.faq.privacy': 'Mes informations sont-elles sécurisées et confidentielles ?',
+  'dashboard.faq.privacyAnswer':
+    'Oui. Vous pouvez en savoir plus sur notre traitement des données dans notre politique de confidentialité.',
+  'dashboard.faq.help': 'Quelque chose ne va pas, j’ai besoin d’aide.',
+  'dashboard.faq.helpAnswer': 'Pour toute question ou contestation, écrivez à {supportEmail} et nous vous aiderons.',
+
+  'dashboard.paymentMethod.title': 'Moyen de paiement',
+  'dashboard.paymentMethod.cardDetails': 'Votre carte',
+  'dashboard.paymentMethod.cardDetailsDescription':
+    'Nous utiliserons cette carte pour les abonnements et les paiements approuvés.',
+  'dashboard.paymentMethod.saved': 'Carte enregistrée.',
+  'dashboard.paymentMethod.cardOnFile': 'Carte enregistrée',
+  'dashboard.paymentMethod.enterCardDetails': 'Saisissez les informations de votre carte pour continuer.',
+  'dashboard.paymentMethod.unableToSave': 'Impossible d’enregistrer cette carte. Veuillez réessayer.',
+  'dashboard.paymentMethod.termsBefore': 'En ajoutant votre carte, vous acceptez les',
+  'dashboard.paymentMethod.termsLink': 'conditions générales de {appName}',
+  'dashboard.paymentMethod.termsAfter': '. Votre prestataire ne peut pas vous débiter sans votre accord.',
+  'dashboard.paymentMethod.save': 'Enregistrer la carte',
+
+  'dashboard.updateEmail.title': 'Modifier l’adresse e-mail',
+  'dashboard.updateEmail.contact': 'Contactez votre prestataire',
+  'dashboard.updateEmail.contactDescription':
+    'Les changements d’adresse e-mail sont gérés par votre prestataire. Contactez-le, ou le support {appName} si vous avez besoin d’aide.',
+  'dashboard.updateEmail.currentEmail': 'Adresse e-mail actuelle',
+  'dashboard.updateEmail.needHelp': 'Besoin d’aide ? Écrivez à {supportEmail}.',
+
+  'dashboard.plan.summary': 'Récapitulatif de l’abonnement',
+  'dashboard.plan.summaryDescription': 'Informations principales sur cet abonnement.',
+  'dashboard.plan.amount': 'Montant',
+  'dashboard.plan.status': 'Statut',
+  'dashboard.plan.startDate': 'Date de début',
+  'dashboard.plan.endDate': 'Date de fin',
+  'dashboard.plan.nextDebitDate': 'Prochain prélèvement',
+  'dashboard.plan.overdueBalance': 'Solde en retard',
+  'dashboard.plan.automated': 'Les paiements sont automatiques',
+  'dashboard.plan.automatedDescription': 'Votre abonnement sera débité automatiquement selon l’échéancier.',
+  'dashboard.plan.history': 'Historique des paiements',
+  'dashboard.plan.historyDescription': 'Paiements précédents de cet abonnement.',
+  'dashboard.plan.noPayments': 'Aucun paiement pour le moment',
+  'dashboard.plan.noPaymentsDescription': 'Les paiements apparaîtront ici une fois traités.',
+  'dashboard.plan.payment': 'Paiement',
+  'dashboard.plan.date': 'Date',
+  'dashboard.plan.planPayment': 'Paiement d’abonnement',
+  'dashboard.plan.withSavedCard':
+    '{action, select, accept {Accepter l’abonnement avec la carte enregistrée} payOverdue {Régler le solde en retard avec la carte enregistrée} other {Relancer le paiement avec la carte enregistrée}}',
+  'dashboard.plan.withNewCard':
+    '{action, select, accept {Accepter l’abonnement avec une nouvelle carte} payOverdue {Régler le solde en retard avec une nouvelle carte} other {Relancer le paiement avec une nouvelle carte}}',
+  'dashboard.plan.stripeNotReady': 'Stripe n’est pas encore prêt. Veuillez réessayer.',
+  'dashboard.plan.noOverdue': 'Aucun paiement en retard à relancer.',
+  'dashboard.plan.accepted': 'Abonnement accepté.',
+  'dashboard.plan.retrying': 'Nous relançons vos paiements.',
+  'dashboard.plan.acceptTitle': 'Acceptez votre abonnement',
+  'dashboard.plan.resolveTitle': 'Régulariser les paiements',
+  'dashboard.plan.acceptDescription': 'Acceptez les conditions pour démarrer la facturation automatique.',
+  'dashboard.plan.resolveDescription':
+    'Relancez les paiements en attente avec votre carte enregistrée ou une nouvelle carte.',
+  'dashboard.plan.overduePayments': 'Paiements en retard',
+  'dashboard.plan.willBeCharged': '{amount} seront débités.',
+  'dashboard.plan.requiresAcceptance': 'L’abonnement doit être accepté',
+  'dashboard.plan.requiresAcceptanceDescription':
+    'En l’acceptant, vous autorisez ce prestataire à débiter votre carte selon les conditions de l’abonnement.',
+
+  'dashboard.sale.title': 'Demande de paiement',
+  'dashboard.sale.summary': 'Récapitulatif du paiement',
+  'dashboard.sale.summaryDescription': 'Vérifiez les détails du paiement avant de le régler.',
+  'dashboard.sale.total': 'Total',
+  'dashboard.sale.status': 'Statut',
+  'dashboard.sale.dueDate': 'Date d’échéance',
+  'dashboard.sale.soon': 'Bientôt',
+  'dashboard.sale.datePaid': 'Date de paiement',
+  'dashboard.sale.amountDue': 'Montant dû',
+  'dashboard.sale.amountRefunded': 'Montant remboursé',
+  'dashboard.sale.documents': 'Documents',
+  'dashboard.sale.documentsDescription': 'Téléchargez la facture ou les reçus de cette demande de paiement.',
+  'dashboard.sale.downloadInvoice': 'Télécharger la facture',
+  'dashboard.sale.downloadReceipt': 'Reçu de {amount} payé le {date}',
+  'dashboard.sale.items': 'Articles',
+  'dashboard.sale.itemsDescription': 'Produits inclus dans cette demande de paiement.',
+  'dashboard.sale.noProducts': 'Aucun produit',
+  'dashboard.sale.noProductsDescription': 'Cette demande de paiement ne contient aucun article.',
+  'dashboard.sale.item': 'Article',
+  'dashboard.sale.price': 'Prix',
+  'dashboard.sale.taxIncluded': 'Dont {label} ({percent} %)',
+  'dashboard.sale.cardFee': 'Frais de carte',
+  'dashboard.sale.cardFeeDescription':
+    'Votre prestataire répercute les frais de traitement de carte sur cette demande de paiement.',
+  'dashboard.sale.domesticCards': 'Cartes émises en {region}',
+  'dashboard.sale.internationalCards': 'Cartes émises hors {region}',
+  'dashboard.sale.alreadyPaid': 'Cette demande de paiement est déjà réglée.',
+  'dashboard.sale.complete': 'Finaliser le paiement',
+  'dashboard.sale.completeDescription': 'Choisissez un moyen de paiement pour régler cette demande.',
+  'dashboard.sale.totalWithFee': '{total} + frais',
+  'dashboard.sale.paymentComplete': 'Paiement effectué.',
+  'dashboard.sale.stripeNotReady': 'Stripe n’est pas encore prêt.',
+  'dashboard.sale.authenticationFailed': 'L’authentification supplémentaire a échoué.',
+  'dashboard.sale.paymentFailed': 'Le paiement a échoué.',
+  'dashboard.sale.payWithSavedCard': 'Payer {total} avec la carte enregistrée',
+  'dashboard.sale.payWithNewCard': 'Payer {total} avec une nouvelle carte',
+  'dashboard.sale.cardDetails': 'Informations de la carte',
+  'dashboard.sale.saveAsDefault': 'Enregistrer comme moyen de paiement par défaut',
+
+  'dashboard.login.codeSent':
+    'Nous vous avons envoyé un code de connexion temporaire par e-mail. Saisissez-le ci-dessous pour continuer.',
+  'dashboard.login.pickDescription': 'Sélectionnez le prestataire que vous souhaitez consulter.',
+  'dashboard.login.description': 'Gérez vos paiements et abonnements en toute sécurité.',
+  'dashboard.login.welcome': 'Bon retour',
+  'dashboard.login.choose': 'Choisissez votre espace',
+  'dashboard.login.signIn': 'Connectez-vous avec votre e-mail',
+  'dashboard.login.chooseDescription': 'Choisissez le profil qui correspond à votre prestataire.',
+  'dashboard.login.signInDescription': 'Nous vous enverrons un code temporaire pour accéder à votre espace.',
+  'dashboard.login.email': 'E-mail',
+  'dashboard.login.emailPlaceholder': 'vous@exemple.com',
+  'dashboard.login.sendCode': 'M’envoyer un code',
+  'dashboard.login.code': 'Code de connexion temporaire',
+  'dashboard.login.codePlaceholder': 'Saisissez le code à 6 chiffres',
+  'dashboard.login.continue': 'Continuer',
+  'dashboard.login.differentEmail': 'Utiliser une autre adresse e-mail',
+  'dashboard.login.trouble': 'Un problème de connexion ? Écrivez à {supportEmail}',
+
+  'dashboard.link.missingData': 'Les données du lien de connexion sont manquantes.',
+  'dashboard.link.invalid': 'Ce lien de connexion n’est pas valide.',
+  'dashboard.link.missingInformation': 'Il manque des informations à ce lien de connexion.',
+  'dashboard.link.signingIn': 'Connexion en cours',
+  'dashboard.link.validating': 'Nous vérifions votre lien sécurisé.',
+  'dashboard.link.holdOn': 'Un instant',
+  'dashboard.link.fewSeconds': 'Cela ne prendra que quelques secondes.',
+  'dashboard.link.requestNew': 'Demandez un nouveau lien de connexion ou saisissez un code.',
+  'dashboard.link.validatingLink': 'Vérification de votre lien',
+  'dashboard.link.goToLogin': 'Aller à la connexion',
+
+  'dashboard.errors.emailRequired': 'L’adresse e-mail est obligatoire',
+  'dashboard.errors.emailInvalid': 'Saisissez une adresse e-mail valide.',
+  'dashboard.errors.sendCodeFailed': 'Impossible d’envoyer le code de connexion. Veuillez réessayer.',
+  'dashboard.errors.codeRequired': 'Saisissez le code que nous vous avons envoyé par e-mail.',
+  'dashboard.errors.codeInvalid': 'Ce code n’est pas valide, a expiré ou a déjà été utilisé.',
+  'dashboard.errors.validateCodeFailed': 'Impossible de vérifier votre code. Veuillez réessayer.',
+  'dashboard.errors.pickClient': 'Choisissez un client pour continuer.',
+  'dashboard.errors.createSessionFailed': 'Impossible d’ouvrir la session. Demandez un nouveau code.',
+  'dashboard.errors.linkNoLongerValid': 'Ce lien de connexion n’est plus valide.',
+  'dashboard.errors.linkExpired': 'Ce lien de connexion a expiré.',
+  'dashboard.errors.signInToUpdatePaymentMethod': 'Reconnectez-vous pour modifier votre moyen de paiement.',
+  'dashboard.errors.stripeConfigurationMissing': 'La configuration Stripe est manquante. Veuillez réessayer plus tard.',
+  'dashboard.errors.clientNotFound': 'Client introuvable.',
+  'dashboard.errors.paymentsNotEnabled': 'Votre prestataire n’a pas activé les paiements.',
+  'dashboard.errors.cardSetupFailed': 'Impossible de configurer la carte. Veuillez réessayer.',
+  'dashboard.errors.noClientSecret': 'Stripe n’a pas renvoyé de secret client.',
+  'dashboard.errors.invalidSubscription': 'Abonnement non valide.',
+  'dashboard.errors.signInToAccept': 'Reconnectez-vous pour accepter cet abonnement.',
+  'dashboard.errors.subscriptionNotFound': 'Abonnement introuvable.',
+  'dashboard.errors.subscriptionCancelled': 'Les abonnements annulés ne peuvent pas être acceptés.',
+  'dashboard.errors.paymentMethodRequired':
+    'Un moyen de paiement enregistré est nécessaire pour accepter cet abonnement.',
+  'dashboard.errors.acceptFailed': 'Impossible d’accepter l’abonnement. Veuillez réessayer.',
+  'dashboard.errors.signInToRetry': 'Reconnectez-vous pour relancer cet abonnement.',
+  'dashboard.errors.retryFailed': 'Impossible de relancer les paiements de l’abonnement.',
+  'dashboard.errors.invalidPaymentRequest': 'Demande de paiement non valide.',
+  'dashboard.errors.signInToPay': 'Reconnectez-vous pour effectuer le paiement.',
+  'dashboard.errors.saleNotFound': 'Vente introuvable.',
+  'dashboard.errors.alreadyPaid': 'Cette demande de paiement a déjà été réglée.',
+  'dashboard.errors.amountMismatch': 'Le montant du paiement doit correspondre au total restant dû.',
+  'dashboard.errors.stripePaymentsDisabled': 'Les paiements Stripe ne sont pas activés pour ce prestataire.',
+  'dashboard.errors.serviceProviderCantTakePayments':
+    'Votre prestataire n’a pas activé les paiements. Nous l’avons prévenu.',
+  'dashboard.errors.cardRequired': 'Seuls les paiements par carte sont acceptés.',
+  'dashboard.errors.amountOutOfRange': 'Le montant du paiement est en dehors des limites autorisées.',
+  'dashboard.errors.invalidFeeConfiguration': 'La configuration des frais a donné un résultat non valide.',
+  'dashboard.errors.currencyNotSupported': 'Cette devise n’est pas prise en charge.',
+  'dashboard.errors.countryNotSupported': 'Les paiements par carte de ce pays ne sont pas pris en charge.',
+  'dashboard.errors.paymentIncomplete': 'Le paiement Stripe n’a pas abouti.',
+  'dashboard.errors.salePaymentFailed': 'Impossible de créer le paiement.',
+  'dashboard.errors.invalidLanguage': 'Cette langue n’est pas disponible.',
+  'dashboard.errors.signInToChangeLanguage': 'Reconnectez-vous pour changer de langue.',
+  'dashboard.errors.changeLanguageFailed': 'Impossible de changer de langue. Veuillez réessayer.',
+}
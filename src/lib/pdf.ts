@@ -0,0 +1,248 @@
+import { deflateSync } from 'node:zlib'
+
+/**
+ * A small PDF writer for generated documents such as invoices. It only draws text in the built-in Helvetica fonts,
+ * lines, filled rectangles and JPEG images, which is all our documents need, and keeps coordinates top-down in points
+ * like the layouts that use it.
+ */
+
+export type PdfRgb = readonly [number, number, number]
+
+export type PdfFont = 'regular' | 'bold'
+
+export type PdfJpeg = { data: Buffer; width: number; height: number }
+
+export type PdfTextOptions = {
+  size?: number
+  font?: PdfFont
+  color?: PdfRgb
+  align?: 'left' | 'right'
+}
+
+export type PdfPage = {
+  text: (value: string, x: number, y: number, options?: PdfTextOptions) => void
+  line: (x1: number, y1: number, x2: number, y2: number, options?: { color?: PdfRgb; width?: number }) => void
+  rect: (x: number, y: number, width: number, height: number, color: PdfRgb) => void
+  image: (image: PdfJpeg, x: number, y: number, width: number, height: number) => void
+}
+
+export const A4 = { width: 595.28, height: 841.89 } as const
+
+const BLACK: PdfRgb = [0, 0, 0]
+
+const fontResourceNames: Record<PdfFont, string> = { regular: 'F1', bold: 'F2' }
+const fontBaseNames: Record<PdfFont, string> = { regular: 'Helvetica', bold: 'Helvetica-Bold' }
+
+// Glyph widths of the printable ASCII characters, from the Adobe font metrics of the base 14 fonts.
+const asciiWidths: Record<PdfFont, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+    556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+    722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+    556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+    260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+    556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+    722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611,
+    556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389,
+    280, 389, 584,
+  ],
+}
+
+// Characters outside Latin-1 that WinAnsiEncoding has a code for.
+const winAnsiExtras: Record<string, number> = {
+  '€': 0x80,
+  '‚': 0x82,
+  ƒ: 0x83,
+  '„': 0x84,
+  '…': 0x85,
+  '‹': 0x8b,
+  Œ: 0x8c,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+  '™': 0x99,
+  '›': 0x9b,
+  œ: 0x9c,
+  // Intl number formatting uses narrow and thin spaces, which print fine as a no-break space.
+  '\u202F': 0xa0,
+  '\u2009': 0xa0,
+}
+
+const toWinAnsi = (char: string) => {
+  const code = char.codePointAt(0) ?? 0x3f
+  if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) {
+    return code
+  }
+  return winAnsiExtras[char] ?? 0x3f
+}
+
+const glyphWidth = (char: string, font: PdfFont) => {
+  const code = toWinAnsi(char)
+  if (code >= 0x20 && code <= 0x7e) {
+    return asciiWidths[font][code - 0x20] ?? 556
+  }
+  // Accented letters are as wide as the letter they're built on.
+  const base = char.normalize('NFD')[0] ?? ''
+  const baseCode = base.codePointAt(0) ?? 0
+  if (base !== char && baseCode >= 0x20 && baseCode <= 0x7e) {
+    return asciiWidths[font][baseCode - 0x20] ?? 556
+  }
+  return code === 0xa0 ? 278 : 556
+}
+
+export const measureText = (value: string, size: number, font: PdfFont = 'regular') =>
+  (Array.from(value).reduce((total, char) => total + glyphWidth(char, font), 0) * size) / 1000
+
+/** Splits text into lines no wider than `maxWidth`, breaking between words and on newlines. */
+export const wrapText = (value: string, maxWidth: number, size: number, font: PdfFont = 'regular') => {
+  const lines: string[] = []
+  for (const paragraph of value.split(/\r?\n/)) {
+    let line = ''
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word
+      if (line && measureText(candidate, size, font) > maxWidth) {
+        lines.push(line)
+        line = word
+      } else {
+        line = candidate
+      }
+    }
+    lines.push(line)
+  }
+  return lines
+}
+
+const encodeText = (value: string) =>
+  Array.from(value)
+    .map((char) => {
+      const code = toWinAnsi(char)
+      if (code === 0x28 || code === 0x29 || code === 0x5c) {
+        return `\\${char}`
+      }
+      return code >= 0x20 && code <= 0x7e ? String.fromCharCode(code) : `\\${code.toString(8).padStart(3, '0')}`
+    })
+    .join('')
+
+const formatNumber = (value: number) => Number(value.toFixed(3)).toString()
+
+const formatColor = (color: PdfRgb) => color.map(formatNumber).join(' ')
+
+export const createPdfDocument = ({ title }: { title: string }) => {
+  const pages: { operations: string[]; images: PdfJpeg[] }[] = []
+
+  const addPage = (): PdfPage => {
+    const page = { operations: [] as string[], images: [] as PdfJpeg[] }
+    pages.push(page)
+    const flipY = (y: number) => A4.height - y
+
+    return {
+      text: (value, x, y, { size = 10, font = 'regular', color = BLACK, align = 'left' } = {}) => {
+        const left = align === 'right' ? x - measureText(value, size, font) : x
+        page.operations.push(
+          `BT /${fontResourceNames[font]} ${formatNumber(size)} Tf ${formatColor(color)} rg ${formatNumber(left)} ${formatNumber(flipY(y))} Td (${encodeText(value)}) Tj ET`
+        )
+      },
+      line: (x1, y1, x2, y2, { color = BLACK, width = 0.5 } = {}) => {
+        page.operations.push(
+          `${formatColor(color)} RG ${formatNumber(width)} w ${formatNumber(x1)} ${formatNumber(flipY(y1))} m ${formatNumber(x2)} ${formatNumber(flipY(y2))} l S`
+        )
+      },
+      rect: (x, y, width, height, color) => {
+        page.operations.push(
+          `${formatColor(color)} rg ${formatNumber(x)} ${formatNumber(flipY(y + height))} ${formatNumber(width)} ${formatNumber(height)} re f`
+        )
+      },
+      image: (image, x, y, width, height) => {
+        page.images.push(image)
+        page.operations.push(
+          `q ${formatNumber(width)} 0 0 ${formatNumber(height)} ${formatNumber(x)} ${formatNumber(flipY(y + height))} cm /Im${page.images.length} Do Q`
+        )
+      },
+    }
+  }
+
+  const toBuffer = () => {
+    const objects: Buffer[] = []
+    const reserve = () => objects.push(Buffer.alloc(0))
+    const set = (id: number, body: string, stream?: Buffer) => {
+      const head = Buffer.from(`${id} 0 obj\n${body}`, 'latin1')
+      objects[id - 1] = stream
+        ? Buffer.concat([head, Buffer.from('\nstream\n'), stream, Buffer.from('\nendstream\nendobj\n')])
+        : Buffer.concat([head, Buffer.from('\nendobj\n')])
+    }
+
+    const catalogId = reserve()
+    const pagesId = reserve()
+    const infoId = reserve()
+    const fontIds = {
+      regular: reserve(),
+      bold: reserve(),
+    }
+
+    const pageIds: number[] = []
+    for (const page of pages) {
+      const imageIds = page.images.map((image) => {
+        const id = reserve()
+        set(
+          id,
+          `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>`,
+          image.data
+        )
+        return id
+      })
+
+      const content = deflateSync(Buffer.from(page.operations.join('\n'), 'latin1'))
+      const contentId = reserve()
+      set(contentId, `<< /Length ${content.length} /Filter /FlateDecode >>`, content)
+
+      const pageId = reserve()
+      const xObjects = imageIds.map((id, index) => `/Im${index + 1} ${id} 0 R`).join(' ')
+      set(
+        pageId,
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${A4.width} ${A4.height}] /Contents ${contentId} 0 R /Resources << /Font << /F1 ${fontIds.regular} 0 R /F2 ${fontIds.bold} 0 R >> /XObject << ${xObjects} >> >> >>`
+      )
+      pageIds.push(pageId)
+    }
+
+    set(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`)
+    set(pagesId, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`)
+    set(infoId, `<< /Title (${encodeText(title)}) >>`)
+    for (const font of ['regular', 'bold'] as const) {
+      set(
+        fontIds[font],
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${fontBaseNames[font]} /Encoding /WinAnsiEncoding >>`
+      )
+    }
+
+    const header = Buffer.from('%PDF-1.4\n%\u00E2\u00E3\u00CF\u00D3\n', 'latin1')
+    const offsets: number[] = []
+    let position = header.length
+    for (const object of objects) {
+      offsets.push(position)
+      position += object.length
+    }
+
+    const xref = [
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+      'startxref',
+      String(position),
+      '%%EOF',
+    ].join('\n')
+
+    return Buffer.concat([header, ...objects, Buffer.from(`${xref}\n`, 'latin1')])
+  }
+
+  return { addPage, toBuffer }
+}
@@ -0,0 +1,594 @@
+import type { Kysely, Transaction } from 'kysely'
+import BigNumber from 'bignumber.js'
+import { sql } from 'kysely'
+import { z } from 'zod'
+import type { Database } from '@/lib/db'
+import {
+  addDaysToLocalDateTime,
+  localDateTimeToUtc,
+  parseIsoLocalDateTime,
+  utcToLocalDateTime,
+} from '@/lib/dates/timezone'
+import { expenseCategorySchema, reportedExpenseCategories, type ReportedExpenseCategory } from '@/server/profitAndLoss'
+import { formatInvoiceNumber } from '@/server/saleDocuments'
+import { taxShareOfPayment } from '@/server/salesTax'
+
+type DbExecutor = Kysely<Database> | Transaction<Database>
+
+/**
+ * The accounts the export posts to. Card payments go through 'stripeClearing' until Stripe pays them out to 'bank', so
+ * the clearing account's balance is what Stripe holds for the trainer.
+ */
+export type AccountingAccount =
+  | 'bank'
+  | 'stripeClearing'
+  | 'sales'
+  | 'salesTax'
+  | 'stripeFees'
+  | 'otherIncome'
+  | `expense.${ReportedExpenseCategory}`
+
+export const accountingAccounts: AccountingAccount[] = [
+  'bank',
+  'stripeClearing',
+  'sales',
+  'salesTax',
+  'stripeFees',
+  'otherIncome',
+  ...reportedExpenseCategories.map((category) => `expense.${category}` as const),
+]
+
+export const accountingAccountSchema = z.enum(accountingAccounts)
+
+/** Codes and names from Xero's default chart of accounts where it has a match. */
+const defaultAccounts: Record<AccountingAccount, { code: string; name: string }> = {
+  bank: { code: '090', name: 'Business Bank Account' },
+  stripeClearing: { code: '091', name: 'Stripe Clearing' },
+  sales: { code: '200', name: 'Sales' },
+  salesTax: { code: '820', name: 'Sales Tax' },
+  stripeFees: { code: '404', name: 'Bank Fees' },
+  otherIncome: { code: '260', name: 'Other Revenue' },
+  'expense.advertising': { code: '400', name: 'Advertising' },
+  'expense.equipment': { code: '416', name: 'Equipment' },
+  'expense.insurance': { code: '433', name: 'Insurance' },
+  'expense.rent': { code: '469', name: 'Rent' },
+  'expense.software': { code: '463', name: 'Software' },
+  'expense.subscriptions': { code: '485', name: 'Subscriptions' },
+  'expense.supplies': { code: '455', name: 'Supplies' },
+  'expense.training': { code: '475', name: 'Training' },
+  'expense.travel': { code: '493', name: 'Travel' },
+  'expense.utilities': { code: '445', name: 'Utilities' },
+  'expense.wages': { code: '477', name: 'Wages and Salaries' },
+  'expense.other': { code: '429', name: 'General Expenses' },
+  'expense.uncategorized': { code: '429', name: 'General Expenses' },
+}
+
+export type AccountingAccountMapping = {
+  account: AccountingAccount
+  code: string
+  name: string
+  /** Whether the trainer hasn't set their own code and name for the account. */
+  isDefault: boolean
+}
+
+export class AccountingExportTrainerNotFoundError extends Error {
+  constructor() {
+    super('Trainer not found')
+    this.name = 'AccountingExportTrainerNotFoundError'
+  }
+}
+
+/** Every account with the trainer's code and name for it, or the default. */
+export const listAccountingAccounts = async (
+  executor: DbExecutor,
+  trainerId: string
+): Promise<AccountingAccountMapping[]> => {
+  const rows = await executor
+    .selectFrom('accounting_account_mapping')
+    .select(['account', 'code', 'name'])
+    .where('trainer_id', '=', trainerId)
+    .execute()
+
+  const saved = new Map(rows.map((row) => [row.account, row]))
+
+  return accountingAccounts.map((account) => {
+    const row = saved.get(account)
+    return row
+      ? { account, code: row.code, name: row.name, isDefault: false }
+      : { account, ...defaultAccounts[account], isDefault: true }
+  })
+}
+
+/**
+ * Sets the trainer's codes and names for some accounts. A null code puts the account back to its default, and a
+ * missing name keeps the one the account has.
+ */
+export const saveAccountingAccounts = async (
+  trx: Transaction<Database>,
+  trainerId: string,
+  accounts: { account: AccountingAccount; code: string | null; name?: string }[]
+) => {
+  const current = new Map((await listAccountingAccounts(trx, trainerId)).map((mapping) => [mapping.account, mapping]))
+
+  for (const { account, code, name } of accounts) {
+    if (code === null) {
+      await trx
+        .deleteFrom('accounting_account_mapping')
+        .where('trainer_id', '=', trainerId)
+        .where('account', '=', account)
+        .execute()
+      continue
+    }
+
+    const values = { code, name: name ?? current.get(account)?.name ?? defaultAccounts[account].name }
+    await trx
+      .insertInto('accounting_account_mapping')
+      .values({ trainer_id: trainerId, account, ...values })
+      .onConflict((oc) => oc.columns(['trainer_id', 'account']).doUpdateSet(values))
+      .execute()
+  }
+
+  return listAccountingAccounts(trx, trainerId)
+}
+
+export type JournalSource = 'payment' | 'planPayment' | 'refund' | 'payout' | 'financeItem'
+
+export type JournalLine = {
+  account: AccountingAccount
+  code: string
+  name: string
+  debit: string
+  credit: string
+}
+
+export type JournalEntry = {
+  /** Stable across exports, so re-importing a range can be matched against what's already there. */
+  journalNumber: string
+  date: string
+  source: JournalSource
+  sourceId: string
+  reference: string
+  description: string
+  lines: JournalLine[]
+}
+
+export type AccountingJournal = {
+  startDate: string
+  endDate: string
+  timezone: string
+  currency: string
+  country: string
+  entries: JournalEntry[]
+}
+
+/** Positive amounts are debits and negative amounts credits. */
+type Posting = { account: AccountingAccount; amount: BigNumber }
+
+type UnresolvedEntry = Omit<JournalEntry, 'journalNumber' | 'lines'> & { postings: Posting[] }
+
+const journalPrefixes: Record<JournalSource, string> = {
+  payment: 'PAY',
+  planPayment: 'PLAN',
+  refund: 'REF',
+  payout: 'PO',
+  financeItem: 'FIN',
+}
+
+const journalNumber = (source: JournalSource, sourceId: string) => {
+  // Stripe ids all start alike, while UUIDs differ most at the start.
+  const id = sourceId.replaceAll(/[^a-zA-Z0-9]/g, '')
+  return `${journalPrefixes[source]}-${(source === 'payout' ? id.slice(-8) : id.slice(0, 8)).toUpperCase()}`
+}
+
+const clientName = (firstName: string | null, lastName: string | null) =>
+  [firstName, lastName]
+    .filter((part) => part?.trim())
+    .join(' ')
+    .trim() || 'client'
+
+const payoutObjectSchema = z.object({
+  id: z.string(),
+  amount: z.union([z.string(), z.number()]),
+  arrival_date: z.union([z.string(), z.number()]),
+})
+
+/**
+ * Journal entries for a date range, on a cash basis like the profit and loss report: payments and the card fees taken
+ * from them, refunds and the fees given back with them, paid Stripe payouts and finance items. Sale tax is taken out of
+ * payments in proportion to how much of the sale they pay. Dates are the trainer's local days, except payouts, which
+ * use the date Stripe says they arrive. Both ends of the range are included.
+ *
+ * Payments with credit pack credits are left out, as the pack was counted when it was paid for.
+ */
+export const getAccountingJournal = async (
+  executor: DbExecutor,
+  trainerId: string,
+  { startDate, endDate }: { startDate: string; endDate: string }
+): Promise<AccountingJournal> => {
+  const trainer = await executor
+    .selectFrom('trainer')
+    .innerJoin('country', 'country.id', 'trainer.country_id')
+    .innerJoin(
+      'supported_country_currency as supportedCountryCurrency',
+      'supportedCountryCurrency.country_id',
+      'trainer.country_id'
+    )
+    .innerJoin('currency', 'currency.id', 'supportedCountryCurrency.currency_id')
+    .select([
+      'trainer.timezone as timezone',
+      'trainer.stripe_account_id as stripeAccountId',
+      'country.alpha_2_code as country',
+      'currency.alpha_code as currency',
+    ])
+    .where('trainer.id', '=', trainerId)
+    .executeTakeFirst()
+
+  if (!trainer) {
+    throw new AccountingExportTrainerNotFoundError()
+  }
+
+  const rangeStart = localDateTimeToUtc(parseIsoLocalDateTime(`${startDate}T00:00:00`), trainer.timezone)
+  const rangeEnd = localDateTimeToUtc(
+    addDaysToLocalDateTime(parseIsoLocalDateTime(`${endDate}T00:00:00`), 1),
+    trainer.timezone
+  )
+
+  const saleTotals = executor
+    .selectFrom('sale_product')
+    .select((eb) => [
+      eb.ref('sale_product.sale_id').as('saleId'),
+      eb.fn.sum<string>('sale_product.price').as('total'),
+      eb.fn.sum<string>('sale_product.tax_amount').as('taxAmount'),
+    ])
+    .groupBy('sale_product.sale_id')
+    .as('saleTotal')
+
+  const [payments, planPayments, refunds, payouts, financeItems, accounts] = await Promise.all([
+    executor
+      .selectFrom('payment')
+      .innerJoin('sale', 'sale.id', 'payment.sale_id')
+      .innerJoin('client', 'client.id', 'payment.client_id')
+      .leftJoin(saleTotals, 'saleTotal.saleId', 'payment.sale_id')
+      .leftJoin('payment_manual as paymentManual', 'paymentManual.id', 'payment.id')
+      .leftJoin('payment_stripe as paymentStripe', 'paymentStripe.id', 'payment.id')
+      .select((eb) => [
+        eb.ref('payment.id').as('id'),
+        eb.fn.coalesce('paymentManual.transaction_time', 'payment.created_at').as('date'),
+        eb.ref('payment.amount').as('amount'),
+        eb.ref('payment.is_stripe').as('isStripe'),
+        eb.ref('paymentStripe.fee').as('fee'),
+        eb.ref('sale.id').as('saleId'),
+        eb.ref('sale.invoice_number').as('invoiceNumber'),
+        eb.ref('saleTotal.total').as('saleTotal'),
+        eb.ref('saleTotal.taxAmount').as('saleTax'),
+        eb.ref('client.first_name').as('firstName'),
+        eb.ref('client.last_name').as('lastName'),
+      ])
+      .where('payment.trainer_id', '=', trainerId)
+      .where((eb) => eb.or([eb('payment.is_manual', '=', true), eb('payment.is_stripe', '=', true)]))
+      .where((eb) => eb(eb.fn.coalesce('paymentManual.transaction_time', 'payment.created_at'), '>=', rangeStart))
+      .where((eb) => eb(eb.fn.coalesce('paymentManual.transaction_time', 'payment.created_at'), '<', rangeEnd))
+      .execute(),
+    executor
+      .selectFrom('payment_plan_payment as planPayment')
+      .innerJoin('payment_plan as plan', 'plan.id', 'planPayment.payment_plan_id')
+      .innerJoin('client', 'client.id', 'plan.client_id')
+      .select((eb) => [
+        eb.ref('planPayment.id').as('id'),
+        eb.ref('planPayment.date').as('date'),
+        eb.ref('planPayment.amount').as('amount'),
+        eb.ref('planPayment.fee').as('fee'),
+        eb.ref('plan.name').as('planName'),
+        eb.ref('client.first_name').as('firstName'),
+        eb.ref('client.last_name').as('lastName'),
+      ])
+      .where('planPayment.trainer_id', '=', trainerId)
+      .where('planPayment.status', 'in', ['paid', 'refunded'])
+      .where('planPayment.date', '>=', rangeStart)
+      .where('planPayment.date', '<', rangeEnd)
+      .execute(),
+    executor
+      .selectFrom('payment_refund as refund')
+      .leftJoin('payment', 'payment.id', 'refund.payment_id')
+      .leftJoin('sale', 'sale.id', 'payment.sale_id')
+      .leftJoin('payment_plan_payment as planPayment', 'planPayment.id', 'refund.payment_plan_payment_id')
+      .leftJoin('payment_plan as plan', 'plan.id', 'planPayment.payment_plan_id')
+      .leftJoin('client', (join) =>
+        join.on((eb) => eb('client.id', '=', eb.fn.coalesce(eb.ref('payment.client_id'), eb.ref('plan.client_id'))))
+      )
+      .select((eb) => [
+        eb.ref('refund.id').as('id'),
+        eb.ref('refund.created_at').as('date'),
+        eb.ref('refund.amount').as('amount'),
+        eb.ref('refund.tax_amount').as('taxAmount'),
+        eb.ref('refund.application_fee_amount').as('feeRefunded'),
+        eb.ref('refund.reason').as('reason'),
+        eb.ref('refund.payment_id').as('paymentId'),
+        eb.ref('payment.is_stripe').as('isStripe'),
+        eb.ref('sale.invoice_number').as('invoiceNumber'),
+        eb.ref('plan.name').as('planName'),
+        eb.ref('client.first_name').as('firstName'),
+        eb.ref('client.last_name').as('lastName'),
+      ])
+      .where('refund.trainer_id', '=', trainerId)
+      .where((eb) =>
+        eb.or([
+          eb('refund.payment_id', 'is', null),
+          eb('payment.is_manual', '=', true),
+          eb('payment.is_stripe', '=', true),
+        ])
+      )
+      .where('refund.created_at', '>=', rangeStart)
+      .where('refund.created_at', '<', rangeEnd)
+      .execute(),
+    trainer.stripeAccountId
+      ? executor
+          .selectFrom('stripe.payout as payout')
+          .select('payout.object')
+          .where('payout.account', '=', trainer.stripeAccountId)
+          .where(sql<string>`payout.object ->> 'status'`, '=', 'paid')
+          .where(
+            sql<string>`to_char(to_timestamp((payout.object ->> 'arrival_date')::bigint) at time zone 'UTC', 'YYYY-MM-DD')`,
+            '>=',
+            startDate
+          )
+          .where(
+            sql<string>`to_char(to_timestamp((payout.object ->> 'arrival_date')::bigint) at time zone 'UTC', 'YYYY-MM-DD')`,
+            '<=',
+            endDate
+          )
+          .execute()
+      : Promise.resolve([]),
+    executor
+      .selectFrom('finance_item')
+      .select(['id', 'start_date as date', 'name', 'amount', 'category'])
+      .where('trainer_id', '=', trainerId)
+      .where('start_date', '>=', rangeStart)
+      .where('start_date', '<', rangeEnd)
+      .execute(),
+    listAccountingAccounts(executor, trainerId),
+  ])
+
+  const localDate = (date: Date | string) => {
+    const local = utcToLocalDateTime(new Date(date), trainer.timezone)
+    return `${local.year}-${String(local.month).padStart(2, '0')}-${String(local.day).padStart(2, '0')}`
+  }
+
+  const entries: UnresolvedEntry[] = []
+
+  for (const row of payments) {
+    const amount = new BigNumber(row.amount)
+    const fee = new BigNumber(row.fee ?? 0)
+    const tax = taxShareOfPayment({ taxAmount: row.saleTax ?? 0, total: row.saleTotal ?? 0, amount })
+    const cash: AccountingAccount = row.isStripe ? 'stripeClearing' : 'bank'
+    entries.push({
+      date: localDate(row.date),
+      source: 'payment',
+      sourceId: row.id,
+      reference: row.invoiceNumber === null ? row.saleId : formatInvoiceNumber(row.invoiceNumber),
+      description: `Payment from ${clientName(row.firstName, row.lastName)}`,
+      postings: [
+        { account: cash, amount },
+        { account: 'sales', amount: tax.minus(amount) },
+        { account: 'salesTax', amount: tax.negated() },
+        { account: 'stripeFees', amount: fee },
+        { account: 'stripeClearing', amount: fee.negated() },
+      ],
+    })
+  }
+
+  for (const row of planPayments) {
+    const amount = new BigNumber(row.amount)
+    const fee = new BigNumber(row.fee ?? 0)
+    entries.push({
+      date: localDate(row.date),
+      source: 'planPayment',
+      sourceId: row.id,
+      reference: row.planName,
+      description: `Payment plan payment from ${clientName(row.firstName, row.lastName)}`,
+      postings: [
+        { account: 'stripeClearing', amount },
+        { account: 'sales', amount: amount.negated() },
+        { account: 'stripeFees', amount: fee },
+        { account: 'stripeClearing', amount: fee.negated() },
+      ],
+    })
+  }
+
+  for (const row of refunds) {
+    const amount = new BigNumber(row.amount)
+    const tax = new BigNumber(row.taxAmount)
+    const feeRefunded = new BigNumber(row.feeRefunded)
+    // Payment plan payments are always taken by card.
+    const cash: AccountingAccount = row.paymentId && !row.isStripe ? 'bank' : 'stripeClearing'
+    const reference = row.invoiceNumber === null ? (row.planName ?? row.id) : formatInvoiceNumber(row.invoiceNumber)
+    entries.push({
+      date: localDate(row.date),
+      source: 'refund',
+      sourceId: row.id,
+      reference,
+      description: [`Refund to ${clientName(row.firstName, row.lastName)}`, row.reason?.trim()]
+        .filter(Boolean)
+        .join(': '),
+      postings: [
+        { account: 'sales', amount: amount.minus(tax) },
+        { account: 'salesTax', amount: tax },
+        { account: cash, amount: amount.negated() },
+        { account: 'stripeClearing', amount: feeRefunded },
+        { account: 'stripeFees', amount: feeRefunded.negated() },
+      ],
+    })
+  }
+
+  for (const row of payouts) {
+    const parsed = payoutObjectSchema.safeParse(row.object)
+    if (!parsed.success) {
+      continue
+    }
+    // Negative payouts are Stripe taking money back from the bank account, which the signs take care of.
+    const amount = new BigNumber(parsed.data.amount).div(100)
+    entries.push({
+      date: new Date(Number(parsed.data.arrival_date) * 1000).toISOString().slice(0, 10),
+      source: 'payout',
+      sourceId: parsed.data.id,
+      reference: parsed.data.id,
+      description: 'Stripe payout',
+      postings: [
+        { account: 'bank', amount },
+        { account: 'stripeClearing', amount: amount.negated() },
+      ],
+    })
+  }
+
+  for (const row of financeItems) {
+    const amount = new BigNumber(row.amount)
+    const parsedCategory = expenseCategorySchema.safeParse(row.category)
+    const category: ReportedExpenseCategory = parsedCategory.success ? parsedCategory.data : 'uncategorized'
+    entries.push({
+      date: localDate(row.date),
+      source: 'financeItem',
+      sourceId: row.id,
+      reference: row.id,
+      description: row.name,
+      postings: amount.gte(0)
+        ? [
+            { account: 'bank', amount },
+            { account: 'otherIncome', amount: amount.negated() },
+          ]
+        : [
+            { account: `expense.${category}`, amount: amount.negated() },
+            { account: 'bank', amount },
+          ],
+    })
+  }
+
+  const accountsByKey = new Map(accounts.map((mapping) => [mapping.account, mapping]))
+  const sourceOrder: JournalSource[] = ['payment', 'planPayment', 'refund', 'financeItem', 'payout']
+
+  return {
+    startDate,
+    endDate,
+    timezone: trainer.timezone,
+    currency: trainer.currency,
+    country: trainer.country,
+    entries: entries
+      .toSorted(
+        (left, right) =>
+          left.date.localeCompare(right.date) ||
+          sourceOrder.indexOf(left.source) - sourceOrder.indexOf(right.source) ||
+          left.sourceId.localeCompare(right.sourceId)
+      )
+      .map(({ postings, ...entry }) => ({
+        ...entry,
+        journalNumber: journalNumber(entry.source, entry.sourceId),
+        lines: postings
+          .filter((posting) => !posting.amount.isZero())
+          .map((posting) => {
+            const mapping = accountsByKey.get(posting.account) ?? defaultAccounts[posting.account]
+            return {
+              account: posting.account,
+              code: mapping.code,
+              name: mapping.name,
+              debit: posting.amount.gt(0) ? posting.amount.toFixed(2) : '0.00',
+              credit: posting.amount.lt(0) ? posting.amount.negated().toFixed(2) : '0.00',
+            }
+          }),
+      }))
+      .filter((entry) => entry.lines.length > 0),
+  }
+}
+
+export const accountingExportLayouts = ['journal', 'xero', 'quickbooks'] as const
+
+export const accountingExportLayoutSchema = z.enum(accountingExportLayouts)
+
+export type AccountingExportLayout = z.infer<typeof accountingExportLayoutSchema>
+
+/** Xero and QuickBooks read dates in the organisation's regional format. */
+const formatRegionalDate = (date: string, country: string) => {
+  const [year, month, day] = date.split('-')
+  return country === 'US' ? `${month}/${day}/${year}` : `${day}/${month}/${year}`
+}
+
+/**
+ * Xero needs a tax rate on every journal line. Tax is posted to its own account, so each line uses the region's
+ * default rate for amounts with no tax.
+ */
+const xeroNoTaxRates: Record<string, string> = {
+  AU: 'BAS Excluded',
+  GB: 'No VAT',
+  IE: 'No VAT',
+  NZ: 'No GST',
+}
+
+/**
+ * The journal as spreadsheet rows in one of the import layouts: 'journal' is a generic double-entry layout with a debit
+ * and credit column, 'xero' is Xero's manual journal import and 'quickbooks' is QuickBooks Online's journal entry
+ * import, which matches accounts by name.
+ */
+export const accountingJournalCsvRows = (journal: AccountingJournal, layout: AccountingExportLayout) => {
+  if (layout === 'xero') {
+    const taxRate = xeroNoTaxRates[journal.country] ?? 'Tax Exempt'
+    return [
+      ['*Narration', '*Date', 'Description', '*AccountCode', '*TaxRate', '*Amount'],
+      ...journal.entries.flatMap((entry) =>
+        entry.lines.map((line) => [
+          `${entry.journalNumber} ${entry.description}`,
+          formatRegionalDate(entry.date, journal.country),
+          entry.reference,
+          line.code,
+          taxRate,
+          new BigNumber(line.debit).minus(line.credit).toFixed(2),
+        ])
+      ),
+    ]
+  }
+
+  if (layout === 'quickbooks') {
+    return [
+      ['Journal No', 'Journal Date', 'Account Name', 'Debits', 'Credits', 'Description', 'Memo'],
+      ...journal.entries.flatMap((entry) =>
+        entry.lines.map((line) => [
+          entry.journalNumber,
+          formatRegionalDate(entry.date, journal.country),
+          line.name,
+          line.debit === '0.00' ? '' : line.debit,
+          line.credit === '0.00' ? '' : line.credit,
+          entry.description,
+          entry.reference,
+        ])
+      ),
+    ]
+  }
+
+  return [
+    [
+      'Date',
+      'Journal',
+      'Reference',
+      'Description',
+      'Account code',
+      'Account name',
+      'Debit',
+      'Credit',
+      'Currency',
+      'Source',
+      'Source ID',
+    ],
+    ...journal.entries.flatMap((entry) =>
+      entry.lines.map((line) => [
+        entry.date,
+        entry.journalNumber,
+        entry.reference,
+        entry.description,
+        line.code,
+        line.name,
+        line.debit,
+        line.credit,
+        journal.currency,
+        entry.source,
+        entry.sourceId,
+      ])
+    ),
+  ]
+}
@@ -0,0 +1,10 @@
+/** User ids allowed into operations tooling, from the comma separated `ADMIN_USER_IDS`. */
+const adminUserIds = () =>
+  new Set(
+    (process.env.ADMIN_USER_IDS ?? '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter((id) => id.length > 0)
+  )
+
+export const isAdminUser = (userId: string) => adminUserIds().has(userId)
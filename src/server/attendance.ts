@@ -0,0 +1,301 @@
+import type { Kysely, Transaction } from 'kysely'
+import BigNumber from 'bignumber.js'
+import type { Database } from '@/lib/db'
+import { promoteWaitlistedClients } from '@/server/sessionWaitlist'
+import { enqueueWorkflowTask } from '@/server/workflow/outbox'
+import { OUTBOX_STATUS } from '@/server/workflow/outbox-shared'
+import { cancelOutboxTask } from '@/server/workflow/outboxAdmin'
+
+type DbExecutor = Kysely<Database> | Transaction<Database>
+
+export const attendanceOutcomes = ['attended', 'no_show', 'late_cancel'] as const
+
+export type AttendanceOutcome = (typeof attendanceOutcomes)[number]
+
+export type AttendanceRecord = {
+  id: string
+  clientId: string
+  sessionId: string
+  attendance: AttendanceOutcome | null
+  attendanceTime: string | null
+  feeSaleId: string | null
+}
+
+export type ClientAttendanceSummary = {
+  attended: number
+  noShows: number
+  lateCancellations: number
+  /** Share of recorded outcomes where the client turned up, or null until an outcome has been recorded. */
+  attendanceRate: number | null
+}
+
+export class AttendanceFeePaidError extends Error {
+  constructor() {
+    super('The fee for this attendance has been paid. Refund it before changing the outcome.')
+    this.name = 'AttendanceFeePaidError'
+  }
+}
+
+const feeLabels: Record<Exclude<AttendanceOutcome, 'attended'>, string> = {
+  no_show: 'No-show fee',
+  late_cancel: 'Late cancellation fee',
+}
+
+const isAttendanceOutcome = (value: string | null): value is AttendanceOutcome =>
+  value !== null && (attendanceOutcomes as readonly string[]).includes(value)
+
+const fetchAttendanceRecords = async (executor: DbExecutor, trainerId: string, clientSessionIds: string[]) => {
+  if (clientSessionIds.length === 0) {
+    return []
+  }
+
+  const rows = await executor
+    .selectFrom('client_session')
+    .select([
+      'id',
+      'client_id as clientId',
+      'session_id as sessionId',
+      'attendance',
+      'attendance_time as attendanceTime',
+      'attendance_fee_sale_id as feeSaleId',
+    ])
+    .where('trainer_id', '=', trainerId)
+    .where('id', 'in', clientSessionIds)
+    .orderBy('created_at')
+    .execute()
+
+  return rows.map(
+    (row): AttendanceRecord => ({
+      id: row.id,
+      clientId: row.clientId,
+      sessionId: row.sessionId,
+      attendance: isAttendanceOutcome(row.attendance) ? row.attendance : null,
+      attendanceTime: row.attendanceTime ? new Date(row.attendanceTime).toISOString() : null,
+      feeSaleId: row.feeSaleId,
+    })
+  )
+}
+
+/**
+ * Raises a sale for the service's no-show or late-cancel fee against each client session that doesn't have one yet,
+ * and queues it to be charged to the client's card on file.
+ */
+const createAttendanceFeeSales = async (trx: Transaction<Database>, trainerId: string, clientSessionIds: string[]) => {
+  const rows = await trx
+    .selectFrom('client_session')
+    .innerJoin('session', 'session.id', 'client_session.session_id')
+    .innerJoin('session_series', 'session_series.id', 'session.session_series_id')
+    .innerJoin('service', 'service.id', 'session.service_id')
+    .innerJoin('trainer', 'trainer.id', 'client_session.trainer_id')
+    .select((eb) => [
+      eb.ref('client_session.id').as('id'),
+      eb.ref('client_session.client_id').as('clientId'),
+      eb.ref('client_session.attendance').as('attendance'),
+      eb.ref('service.no_show_fee').as('noShowFee'),
+      eb.ref('service.late_cancel_fee').as('lateCancelFee'),
+      eb.ref('session_series.name').as('name'),
+      eb.ref('session.start').as('start'),
+      eb.ref('session.timezone').as('timezone'),
+      eb.ref('trainer.locale').as('locale'),
+    ])
+    .where('client_session.trainer_id', '=', trainerId)
+    .where('client_session.id', 'in', clientSessionIds)
+    .where('client_session.attendance', 'in', ['no_show', 'late_cancel'])
+    .where('client_session.attendance_fee_sale_id', 'is', null)
+    .execute()
+
+  for (const row of rows) {
+    const outcome = row.attendance === 'no_show' ? 'no_show' : 'late_cancel'
+    const fee = new BigNumber((outcome === 'no_show' ? row.noShowFee : row.lateCancelFee) ?? 0)
+    if (!fee.isFinite() || !fee.gt(0)) {
+      continue
+    }
+
+    const formattedStart = new Intl.DateTimeFormat(row.locale ?? 'en-US', {
+      dateStyle: 'medium',
+      timeStyle: 'short',
+      timeZone: row.timezone,
+    }).format(new Date(row.start))
+    const appointmentName = row.name ?? 'Appointment'
+
+    const sale = await trx
+      .insertInto('sale')
+      .values({
+        trainer_id: trainerId,
+        client_id: row.clientId,
+        note: `${feeLabels[outcome]} for ${appointmentName} on ${formattedStart}`,
+        due_time: new Date(),
+      })
+      .returning('id')
+      .executeTakeFirstOrThrow()
+
+    await trx.insertInto('sale_payment_status').values({ sale_id: sale.id, payment_status: 'none' }).execute()
+
+    const saleProduct = await trx
+      .insertInto('sale_product')
+      .values({
+        trainer_id: trainerId,
+        client_id: row.clientId,
+        sale_id: sale.id,
+        price: fee.toFixed(2),
+        name: `${feeLabels[outcome]}: ${appointmentName}`,
+        // A fee isn't one of the trainer's products, so it's sold as a one-off item.
+        product_id: null,
+        is_credit_pack: null,
+        is_item: true,
+        is_service: null,
+        is_membership: null,
+      })
+      .returning('id')
+      .executeTakeFirstOrThrow()
+
+    await trx
+      .insertInto('sale_item')
+      .values({ id: saleProduct.id, trainer_id: trainerId, quantity: 1, is_item: true })
+      .execute()
+
+    await trx.updateTable('client_session').set({ attendance_fee_sale_id: sale.id }).where('id', '=', row.id).execute()
+
+    await enqueueWorkflowTask(
+      trx,
+      'sale.charge-outstanding',
+      { saleId: sale.id },
+      { dedupeKey: `sale.charge-outstanding:${sale.id}` }
+    )
+  }
+}
+
+/**
+ * Removes the fee sales of client sessions whose outcome is about to change, along with their pending charges, so a
+ * corrected no-show or late cancellation isn't charged. Throws `AttendanceFeePaidError` once a fee has been paid.
+ */
+const voidAttendanceFeeSales = async (
+  trx: Transaction<Database>,
+  trainerId: string,
+  clientSessionIds: string[],
+  attendance: AttendanceOutcome | null
+) => {
+  const rows = await trx
+    .selectFrom('client_session')
+    .innerJoin('sale_payment_status', 'sale_payment_status.sale_id', 'client_session.attendance_fee_sale_id')
+    .select((eb) => [
+      eb.ref('client_session.id').as('id'),
+      eb.ref('sale_payment_status.sale_id').as('saleId'),
+      eb.ref('sale_payment_status.payment_status').as('paymentStatus'),
+    ])
+    .where('client_session.trainer_id', '=', trainerId)
+    .where('client_session.id', 'in', clientSessionIds)
+    .where((eb) =>
+      attendance === null
+        ? eb('client_session.attendance', 'is not', null)
+        : eb('client_session.attendance', 'is distinct from', attendance)
+    )
+    // Waits out a charge that's already underway, so its outcome is known before the sale goes.
+    .forUpdate(['sale_payment_status'])
+    .execute()
+
+  if (rows.some((row) => row.paymentStatus !== 'none' && row.paymentStatus !== 'requested')) {
+    throw new AttendanceFeePaidError()
+  }
+
+  for (const row of rows) {
+    const pendingCharges = await trx
+      .selectFrom('workflow_outbox')
+      .select('id')
+      .where('dedupe_key', '=', `sale.charge-outstanding:${row.saleId}`)
+      .where('status', '=', OUTBOX_STATUS.Pending)
+      .execute()
+
+    for (const charge of pendingCharges) {
+      await cancelOutboxTask(trx, charge.id, `trainer:${trainerId}`)
+    }
+
+    await trx.updateTable('client_session').set({ attendance_fee_sale_id: null }).where('id', '=', row.id).execute()
+    await trx.deleteFrom('sale').where('id', '=', row.saleId).where('trainer_id', '=', trainerId).execute()
+  }
+}
+
+/**
+ * Records what happened at a session for each client session, charging the service's fee policy for no-shows and
+ * late cancellations. Recording the same outcome again keeps the original time and never charges twice; changing it
+ * drops the unpaid fee of the old outcome.
+ */
+export const recordAttendance = async (
+  trx: Transaction<Database>,
+  {
+    trainerId,
+    clientSessionIds,
+    attendance,
+  }: { trainerId: string; clientSessionIds: string[]; attendance: AttendanceOutcome | null }
+) => {
+  if (clientSessionIds.length === 0) {
+    return []
+  }
+
+  await voidAttendanceFeeSales(trx, trainerId, clientSessionIds, attendance)
+
+  const now = new Date()
+
+  await trx
+    .updateTable('client_session')
+    .set({
+      attendance,
+      attendance_time: attendance === null ? null : now,
+      ...(attendance === 'late_cancel'
+        ? {
+            state: 'cancelled',
+            cancel_time: now,
+            waitlist_claim_expires_at: null,
+          }
+        : {}),
+    })
+    .where('trainer_id', '=', trainerId)
+    .where('id', 'in', clientSessionIds)
+    .where((eb) =>
+      attendance === null ? eb('attendance', 'is not', null) : eb('attendance', 'is distinct from', attendance)
+    )
+    .execute()
+
+  if (attendance === 'no_show' || attendance === 'late_cancel') {
+    await createAttendanceFeeSales(trx, trainerId, clientSessionIds)
+  }
+
+  const records = await fetchAttendanceRecords(trx, trainerId, clientSessionIds)
+
+  if (attendance === 'late_cancel') {
+    for (const sessionId of new Set(records.map((record) => record.sessionId))) {
+      await promoteWaitlistedClients(trx, sessionId)
+    }
+  }
+
+  return records
+}
+
+export const fetchClientAttendanceSummary = async (
+  executor: DbExecutor,
+  trainerId: string,
+  clientId: string
+): Promise<ClientAttendanceSummary> => {
+  const row = await executor
+    .selectFrom('client_session')
+    .select((eb) => [
+      eb.fn.countAll<string>().filterWhere('attendance', '=', 'attended').as('attended'),
+      eb.fn.countAll<string>().filterWhere('attendance', '=', 'no_show').as('noShows'),
+      eb.fn.countAll<string>().filterWhere('attendance', '=', 'late_cancel').as('lateCancellations'),
+    ])
+    .where('trainer_id', '=', trainerId)
+    .where('client_id', '=', clientId)
+    .executeTakeFirstOrThrow()
+
+  const attended = Number(row.attended)
+  const noShows = Number(row.noShows)
+  const lateCancellations = Number(row.lateCancellations)
+  const recorded = attended + noShows + lateCancellations
+
+  return {
+    attended,
+    noShows,
+    lateCancellations,
+    attendanceRate: recorded > 0 ? attended / recorded : null,
+  }
+}
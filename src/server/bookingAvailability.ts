@@ -0,0 +1,414 @@
+import type { Kysely, Transaction } from 'kysely'
+import { sql } from 'kysely'
+import { z } from 'zod'
+import type { Database } from '@/lib/db'
+import {
+  addDaysToLocalDateTime,
+  compareLocalDateTimes,
+  localDateTimeToUtc,
+  utcToLocalDateTime,
+  type LocalDateTime,
+} from '@/lib/dates/timezone'
+
+type DbExecutor = Kysely<Database> | Transaction<Database>
+
+const MINUTE_MS = 60_000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+const weekdays = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-4]):[0-5]\d$/, 'Time must be in HH:MM format')
+
+const availabilityIntervalSchema = z.tuple([timeOfDaySchema, timeOfDaySchema])
+
+const dayAvailabilitySchema = z.object({
+  acceptingBookings: z.boolean(),
+  availableIntervals: z.array(availabilityIntervalSchema),
+})
+
+const availabilityOverrideSchema = z.object({
+  acceptingBookings: z.boolean().nullable(),
+  availableIntervals: z.array(availabilityIntervalSchema).nullable(),
+})
+
+export const providerAvailabilitySchema = z.object({
+  defaults: z.object({
+    monday: dayAvailabilitySchema,
+    tuesday: dayAvailabilitySchema,
+    wednesday: dayAvailabilitySchema,
+    thursday: dayAvailabilitySchema,
+    friday: dayAvailabilitySchema,
+    saturday: dayAvailabilitySchema,
+    sunday: dayAvailabilitySchema,
+  }),
+  overrides: z.record(z.string(), availabilityOverrideSchema),
+})
+
+export type ProviderAvailability = z.infer<typeof providerAvailabilitySchema>
+
+export type BusyRange = {
+  source: 'busyTime' | 'session'
+  id: string
+  start: Date
+  end: Date
+}
+
+export type TimeSlotService = {
+  durationMinutes: number
+  bufferMinutesBefore: number
+  bufferMinutesAfter: number
+  timeSlotFrequencyMinutes: number
+}
+
+export type TimeSlot = {
+  date: string
+  start: Date
+  end: Date
+}
+
+export type ServiceBookingContext = {
+  serviceId: string
+  trainerId: string
+  timezone: string
+  onlineBookingsEnabled: boolean
+  bookableOnline: boolean
+  availability: ProviderAvailability
+  service: TimeSlotService
+  windowOpensAt: Date
+  windowClosesAt: Date
+}
+
+export type BookingConflict =
+  | { type: 'outsideBookingWindow' }
+  | { type: 'outsideAvailability' }
+  | { type: 'busyTime' | 'session'; id: string; start: Date; end: Date }
+
+type TimeSlotParams = {
+  timezone: string
+  availability: ProviderAvailability
+  busyRanges: BusyRange[]
+  service: TimeSlotService
+  windowOpensAt: Date
+  windowClosesAt: Date
+  fromDate: string
+  toDate: string
+}
+
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/
+
+export const parseIsoDateToLocalMidnight = (value: string): LocalDateTime => {
+  const match = ISO_DATE_PATTERN.exec(value)
+  if (!match) {
+    throw new Error(`Invalid ISO date: ${value}`)
+  }
+
+  const [, year, month, day] = match
+  return { year: Number(year), month: Number(month), day: Number(day), hour: 0, minute: 0, second: 0, millisecond: 0 }
+}
+
+export const formatLocalIsoDate = (value: Pick<LocalDateTime, 'year' | 'month' | 'day'>) =>
+  `${String(value.year).padStart(4, '0')}-${String(value.month).padStart(2, '0')}-${String(value.day).padStart(2, '0')}`
+
+const weekdayOf = (value: LocalDateTime) =>
+  weekdays[new Date(Date.UTC(value.year, value.month - 1, value.day)).getUTCDay()]
+
+const parseTimeOfDay = (value: string) => {
+  const [hours, minutes] = value.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+const mergeMinuteRanges = (ranges: Array<[number, number]>) => {
+  const sorted = ranges.filter(([start, end]) => end > start).toSorted((a, b) => a[0] - b[0] || a[1] - b[1])
+  const merged: Array<[number, number]> = []
+
+  for (const range of sorted) {
+    const last = merged.at(-1)
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1])
+    } else {
+      merged.push([range[0], range[1]])
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Resolves the bookable hours for a single local date. Per-date overrides win over the weekday defaults, and
+ * either half of an override may be left null to fall back to the default.
+ */
+const resolveDayRanges = (availability: ProviderAvailability, date: LocalDateTime) => {
+  const defaults = availability.defaults[weekdayOf(date)]
+  const override = availability.overrides[formatLocalIsoDate(date)]
+
+  const acceptingBookings = override?.acceptingBookings ?? defaults.acceptingBookings
+  if (!acceptingBookings) {
+    return []
+  }
+
+  const intervals = override?.availableIntervals ?? defaults.availableIntervals
+  return mergeMinuteRanges(intervals.map(([start, end]) => [parseTimeOfDay(start), parseTimeOfDay(end)]))
+}
+
+const overlapsBusyRange = (start: Date, end: Date, busyRanges: BusyRange[]) =>
+  busyRanges.some((range) => range.start.getTime() < end.getTime() && range.end.getTime() > start.getTime())
+
+/**
+ * Lists the start times a client may book for a service between two local dates (inclusive).
+ *
+ * Candidates are laid out every `timeSlotFrequencyMinutes` from the start of each merged availability interval. A
+ * candidate is kept when the appointment plus its buffers fits inside the interval, it falls within the booking
+ * window, and the buffered range does not overlap a busy time or another session. This mirrors the rules of the
+ * `is_booking_time_available` database function so the booking page and `POST /api/bookings` agree.
+ */
+export const listBookableTimeSlots = (params: TimeSlotParams): TimeSlot[] => {
+  const { service, timezone } = params
+  if (!Number.isFinite(service.durationMinutes) || service.durationMinutes <= 0) {
+    return []
+  }
+
+  const frequency = Math.max(1, service.timeSlotFrequencyMinutes)
+  const lastDate = parseIsoDateToLocalMidnight(params.toDate)
+  const slots: TimeSlot[] = []
+
+  for (
+    let date = parseIsoDateToLocalMidnight(params.fromDate);
+    compareLocalDateTimes(date, lastDate) <= 0;
+    date = addDaysToLocalDateTime(date, 1)
+  ) {
+    const isoDate = formatLocalIsoDate(date)
+
+    for (const [rangeStart, rangeEnd] of resolveDayRanges(params.availability, date)) {
+      for (let minute = rangeStart; minute + service.durationMinutes <= rangeEnd; minute += frequency) {
+        if (
+          minute - service.bufferMinutesBefore < rangeStart ||
+          minute + service.durationMinutes + service.bufferMinutesAfter > rangeEnd
+        ) {
+          continue
+        }
+
+        const localStart = { ...date, hour: Math.floor(minute / 60), minute: minute % 60 }
+        const start = localDateTimeToUtc(localStart, timezone)
+        const roundTrip = utcToLocalDateTime(start, timezone)
+
+        // Skip wall-clock times that do not exist on a daylight saving transition day.
+        if (compareLocalDateTimes(roundTrip, localStart) !== 0) {
+          continue
+        }
+
+        if (start.getTime() < params.windowOpensAt.getTime() || start.getTime() >= params.windowClosesAt.getTime()) {
+          continue
+        }
+
+        const end = new Date(start.getTime() + service.durationMinutes * MINUTE_MS)
+        const bufferedStart = new Date(start.getTime() - service.bufferMinutesBefore * MINUTE_MS)
+        const bufferedEnd = new Date(end.getTime() + service.bufferMinutesAfter * MINUTE_MS)
+
+        if (overlapsBusyRange(bufferedStart, bufferedEnd, params.busyRanges)) {
+          continue
+        }
+
+        slots.push({ date: isoDate, start, end })
+      }
+    }
+  }
+
+  return slots
+}
+
+export const loadServiceBookingContext = async (
+  executor: DbExecutor,
+  serviceId: string
+): Promise<ServiceBookingContext | null> => {
+  const row = await executor
+    .selectFrom('service')
+    .innerJoin('trainer', 'trainer.id', 'service.trainer_id')
+    .innerJoin(
+      'vw_online_bookings_provider as provider',
+      'provider.pageUrlSlug',
+      'trainer.online_bookings_page_url_slug'
+    )
+    .select((eb) => [
+      eb.ref('service.id').as('serviceId'),
+      eb.ref('trainer.id').as('trainerId'),
+      eb.ref('trainer.timezone').as('timezone'),
+      eb.ref('trainer.online_bookings_enabled').as('onlineBookingsEnabled'),
+      eb.ref('service.bookable_online').as('bookableOnline'),
+      eb.ref('provider.availability').as('availability'),
+      sql<string | number | null>`EXTRACT(EPOCH FROM ${sql.ref('service.duration')}) / 60`.as('durationMinutes'),
+      eb.ref('service.buffer_minutes_before').as('bufferMinutesBefore'),
+      eb.ref('service.buffer_minutes_after').as('bufferMinutesAfter'),
+      eb.ref('service.time_slot_frequency_minutes').as('timeSlotFrequencyMinutes'),
+      sql<Date>`now() + ${sql.ref('trainer.online_bookings_duration_until_booking_window_opens')}`.as('windowOpensAt'),
+      sql<Date>`now() + ${sql.ref('trainer.online_bookings_duration_until_booking_window_closes')}`.as(
+        'windowClosesAt'
+      ),
+    ])
+    .where('service.id', '=', serviceId)
+    .executeTakeFirst()
+
+  if (!row) {
+    return null
+  }
+
+  return {
+    serviceId: row.serviceId,
+    trainerId: row.trainerId,
+    timezone: row.timezone,
+    onlineBookingsEnabled: row.onlineBookingsEnabled,
+    bookableOnline: row.bookableOnline,
+    availability: providerAvailabilitySchema.parse(row.availability),
+    service: {
+      durationMinutes: Number(row.durationMinutes ?? 0),
+      bufferMinutesBefore: row.bufferMinutesBefore,
+      bufferMinutesAfter: row.bufferMinutesAfter,
+      timeSlotFrequencyMinutes: row.timeSlotFrequencyMinutes,
+    },
+    windowOpensAt: new Date(row.windowOpensAt),
+    windowClosesAt: new Date(row.windowClosesAt),
+  }
+}
+
+/**
+ * Loads every busy time and non-cancelled session (including its buffers) for a trainer that overlaps the range.
+ * Single-session bookings only block time while at least one client is still booked in.
+ */
+export const loadBusyRanges = async (
+  executor: DbExecutor,
+  trainerId: string,
+  rangeStart: Date,
+  rangeEnd: Date
+): Promise<BusyRange[]> => {
+  const busyTimeStart = sql<Date>`coalesce(${sql.ref('busy_time.start_time')}, timezone(${sql.ref('trainer.timezone')}, ${sql.ref('busy_time.start_date')}::timestamp))`
+  const busyTimeEnd = sql<Date>`coalesce(${sql.ref('busy_time.end_time')}, timezone(${sql.ref('trainer.timezone')}, ${sql.ref('busy_time.end_date')}::timestamp))`
+  const sessionStart = sql<Date>`${sql.ref('session.start')} - make_interval(mins => ${sql.ref('session.buffer_minutes_before')})`
+  const sessionEnd = sql<Date>`${sql.ref('session.start')} + ${sql.ref('session.duration')} + make_interval(mins => ${sql.ref('session.buffer_minutes_after')})`
+
+  const [busyTimes, sessions] = await Promise.all([
+    executor
+      .selectFrom('busy_time')
+      .innerJoin('trainer', 'trainer.id', 'busy_time.trainer_id')
+      .select((eb) => [eb.ref('busy_time.id').as('id'), busyTimeStart.as('start'), busyTimeEnd.as('end')])
+      .where('busy_time.trainer_id', '=', trainerId)
+      .where(busyTimeStart, '<', rangeEnd)
+      .where(busyTimeEnd, '>', rangeStart)
+      .execute(),
+    executor
+      .selectFrom('session')
+      .innerJoin('session_series', 'session_series.id', 'session.session_series_id')
+      .select((eb) => [eb.ref('session.id').as('id'), sessionStart.as('start'), sessionEnd.as('end')])
+      .where('session.trainer_id', '=', trainerId)
+      .where(sessionStart, '<', rangeEnd)
+      .where(sessionEnd, '>', rangeStart)
+      .where((eb) =>
+        eb.or([
+          eb('session_series.event_type', '!=', 'single_session'),
+          eb.exists(
+            eb
+              .selectFrom('client_session')
+              .select('client_session.id')
+              .whereRef('client_session.session_id', '=', 'session.id')
+              .where('client_session.state', 'not in', ['cancelled', 'declined'])
+          ),
+        ])
+      )
+      .execute(),
+  ])
+
+  return [
+    ...busyTimes.map((row) => ({
+      source: 'busyTime' as const,
+      id: row.id,
+      start: new Date(row.start),
+      end: new Date(row.end),
+    })),
+    ...sessions.map((row) => ({
+      source: 'session' as const,
+      id: row.id,
+      start: new Date(row.start),
+      end: new Date(row.end),
+    })),
+  ]
+}
+
+/**
+ * Loads availability, busy times and sessions for a service and lists its bookable start times between two local
+ * dates (inclusive, `YYYY-MM-DD` in the trainer's timezone).
+ */
+export const listServiceTimeSlots = async (
+  executor: DbExecutor,
+  context: ServiceBookingContext,
+  fromDate: string,
+  toDate: string
+) => {
+  const rangeStart = new Date(
+    localDateTimeToUtc(parseIsoDateToLocalMidnight(fromDate), context.timezone).getTime() - DAY_MS
+  )
+  const rangeEnd = new Date(
+    localDateTimeToUtc(addDaysToLocalDateTime(parseIsoDateToLocalMidnight(toDate), 1), context.timezone).getTime() +
+      DAY_MS
+  )
+
+  const busyRanges = await loadBusyRanges(executor, context.trainerId, rangeStart, rangeEnd)
+
+  return listBookableTimeSlots({
+    timezone: context.timezone,
+    availability: context.availability,
+    busyRanges,
+    service: context.service,
+    windowOpensAt: context.windowOpensAt,
+    windowClosesAt: context.windowClosesAt,
+    fromDate,
+    toDate,
+  })
+}
+
+/**
+ * Serialises bookings for a trainer until the surrounding transaction ends, so two requests racing for the same slot
+ * cannot both pass the conflict check before either has inserted its session.
+ */
+export const lockTrainerBookings = async (executor: Transaction<Database>, trainerId: string) => {
+  await sql`SELECT pg_advisory_xact_lock(hashtext(${`trainer-bookings:${trainerId}`}))`.execute(executor)
+}
+
+/**
+ * Explains why a booking time cannot be accepted, or returns null when it is free. Run it after
+ * `lockTrainerBookings` in the transaction that inserts the session so the answer stays true until commit.
+ */
+export const findBookingConflict = async (
+  executor: DbExecutor,
+  context: ServiceBookingContext,
+  bookingTime: Date
+): Promise<BookingConflict | null> => {
+  if (
+    bookingTime.getTime() < context.windowOpensAt.getTime() ||
+    bookingTime.getTime() >= context.windowClosesAt.getTime()
+  ) {
+    return { type: 'outsideBookingWindow' }
+  }
+
+  const localDate = formatLocalIsoDate(utcToLocalDateTime(bookingTime, context.timezone))
+  const availableSlots = listBookableTimeSlots({
+    timezone: context.timezone,
+    availability: context.availability,
+    busyRanges: [],
+    service: context.service,
+    windowOpensAt: context.windowOpensAt,
+    windowClosesAt: context.windowClosesAt,
+    fromDate: localDate,
+    toDate: localDate,
+  })
+
+  if (!availableSlots.some((slot) => slot.start.getTime() === bookingTime.getTime())) {
+    return { type: 'outsideAvailability' }
+  }
+
+  const bufferedStart = new Date(bookingTime.getTime() - context.service.bufferMinutesBefore * MINUTE_MS)
+  const bufferedEnd = new Date(
+    bookingTime.getTime() + (context.service.durationMinutes + context.service.bufferMinutesAfter) * MINUTE_MS
+  )
+
+  const [busyRange] = await loadBusyRanges(executor, context.trainerId, bufferedStart, bufferedEnd)
+
+  return busyRange ? { type: busyRange.source, id: busyRange.id, start: busyRange.start, end: busyRange.end } : null
+}
@@ -0,0 +1,108 @@
+import type { Transaction } from 'kysely'
+import type { Database } from '@/lib/db'
+import { APP_NAME, NO_REPLY_EMAIL } from '@/app/api/_lib/constants'
+import { createTranslator, resolveLocale } from '@/lib/i18n'
+import { renderTrainerEmailTemplate } from '@/server/emailTemplates'
+import { ctaEmail } from '@/server/workflow/templates/ctaEmail'
+import { joinIgnoreEmpty } from '@/server/workflow/utils'
+
+const createFormatter = (locale: string, timeZone: string) =>
+  new Intl.DateTimeFormat(locale, {
+    weekday: 'short',
+    month: 'short',
+    hour: 'numeric',
+    minute: 'numeric',
+    timeZoneName: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone,
+  })
+
+/** Emails a client who booked online to confirm the booking, in the trainer's wording and the client's language. */
+export const queueBookingConfirmationEmail = async (
+  trx: Transaction<Database>,
+  booking: {
+    trainerId: string
+    clientId: string
+    clientEmail: string
+    clientFirstName: string | null
+    clientLastName: string | null
+    bookingId: string
+    name: string | null
+    startsAt: Date
+    endsAt: Date
+    timezone: string
+  }
+) => {
+  const client = await trx
+    .selectFrom('client')
+    .select('locale')
+    .where('id', '=', booking.clientId)
+    .executeTakeFirstOrThrow()
+
+  const trainer = await trx
+    .selectFrom('trainer')
+    .select((eb) => [
+      eb.ref('online_bookings_business_name').as('onlineBookingsBusinessName'),
+      eb.ref('business_name').as('businessName'),
+      eb.ref('first_name').as('firstName'),
+      eb.ref('last_name').as('lastName'),
+      eb.ref('online_bookings_contact_email').as('onlineBookingsContactEmail'),
+      eb.ref('email').as('email'),
+      eb.ref('brand_color').as('brandColor'),
+      eb.ref('business_logo_url').as('businessLogoUrl'),
+      eb.ref('locale').as('locale'),
+    ])
+    .where('id', '=', booking.trainerId)
+    .executeTakeFirstOrThrow()
+
+  const serviceProviderName =
+    trainer.onlineBookingsBusinessName ??
+    trainer.businessName ??
+    (joinIgnoreEmpty(trainer.firstName, trainer.lastName) || APP_NAME)
+  const { locale, t } = createTranslator(resolveLocale(client.locale, trainer.locale))
+  const formatter = createFormatter(locale, booking.timezone)
+  const bookingLink = new URL(
+    `/book/bookings/${encodeURIComponent(booking.bookingId)}`,
+    process.env.BASE_URL ?? 'http://localhost:3001'
+  )
+
+  const email = await renderTrainerEmailTemplate(
+    trx,
+    booking.trainerId,
+    'booking_confirmation',
+    {
+      clientFirstName: booking.clientFirstName,
+      serviceProviderName,
+      appointmentName: booking.name ?? t('common.appointment'),
+      appointmentTime: formatter.format(booking.startsAt),
+      appointmentTimeRange: formatter.formatRange(booking.startsAt, booking.endsAt),
+      bookingLink,
+    },
+    locale
+  )
+
+  await trx
+    .insertInto('mail')
+    .values({
+      trainer_id: booking.trainerId,
+      client_id: booking.clientId,
+      from_email: NO_REPLY_EMAIL,
+      message_type: 'booking_confirmation',
+      from_name: `${serviceProviderName} via ${APP_NAME}`,
+      to_email: booking.clientEmail,
+      to_name: joinIgnoreEmpty(booking.clientFirstName, booking.clientLastName) || null,
+      subject: email.subject,
+      html: ctaEmail({
+        receivingReason: email.receivingReason,
+        locale,
+        brandColor: trainer.brandColor ?? undefined,
+        logo: trainer.businessLogoUrl ? { url: trainer.businessLogoUrl, alt: serviceProviderName } : undefined,
+        bodyHeading: email.heading,
+        bodyHtml: email.bodyHtml,
+        button: { text: email.buttonText, link: bookingLink },
+      }),
+      reply_to: trainer.onlineBookingsContactEmail ?? trainer.email,
+    })
+    .execute()
+}
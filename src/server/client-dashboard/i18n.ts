@@ -0,0 +1,31 @@
+import { cache } from 'react'
+
+import { headers } from 'next/headers'
+
+import { db } from '@/lib/db'
+import { createTranslator, parseAcceptLanguage, resolveLocale } from '@/lib/i18n'
+
+import { getClientDashboardSession } from './auth'
+
+/**
+ * The locale the dashboard is shown in: the client's own language, then their trainer's locale, then whatever the
+ * browser asks for. Before sign in there's only the browser to go on.
+ */
+export const getClientDashboardLocale = cache(async () => {
+  const requested = parseAcceptLanguage((await headers()).get('accept-language'))
+  const session = await getClientDashboardSession()
+  if (!session) {
+    return resolveLocale(...requested)
+  }
+
+  const row = await db
+    .selectFrom('client')
+    .innerJoin('trainer', 'trainer.id', 'client.trainer_id')
+    .select(['client.locale as clientLocale', 'trainer.locale as trainerLocale'])
+    .where('client.id', '=', session.clientId)
+    .executeTakeFirst()
+
+  return resolveLocale(row?.clientLocale, row?.trainerLocale, ...requested)
+})
+
+export const getClientDashboardTranslator = cache(async () => createTranslator(await getClientDashboardLocale()))
@@ -12,6 +12,8 @@ import {
 import { adaptSaleProductRow, fetchSaleProducts } from '@/app/api/saleProducts/shared'
 import { adaptSaleRow, fetchSales } from '@/app/api/sales/shared'
 import { db } from '@/lib/db'
+import { fetchClientMembershipAllowances } from '@/server/memberships'
+import { fetchSaleTaxLines } from '@/server/salesTax'
 
 import { getClientDashboardSession } from './auth'
 
@@ -492,6 +494,23 @@ export const listSaleProducts = cache(async (saleId: string) => {
   return rows.map(adaptSaleProductRow)
 })
 
+export const listSaleTaxLines = cache(async (saleId: string) => {
+  const session = await getClientDashboardSession()
+  if (!session) {
+    throw new Error('Client dashboard session missing')
+  }
+  return fetchSaleTaxLines(db, session.trainerId, saleId, { clientId: session.clientId })
+})
+
+export const listMembershipAllowances = cache(async () => {
+  const session = await getClientDashboardSession()
+  if (!session) {
+    throw new Error('Client dashboard session missing')
+  }
+
+  return fetchClientMembershipAllowances(db, session.trainerId, session.clientId)
+})
+
 export const listSaleProductsForClient = cache(async () => {
   const session = await getClientDashboardSession()
   if (!session) {
@@ -539,6 +558,7 @@ export const listSalePayments = cache(async (saleId?: string) => {
       eb.ref('paymentCreditPack.updated_at').as('paymentCreditPackUpdatedAt'),
       eb.ref('paymentSubscription.updated_at').as('paymentSubscriptionUpdatedAt'),
       eb.ref('payment.refunded_time').as('refundedTime'),
+      eb.ref('payment.amount_refunded').as('amountRefunded'),
       eb.ref('payment.is_manual').as('isManual'),
       eb.ref('payment.is_stripe').as('isStripe'),
       eb.ref('payment.is_credit_pack').as('isCreditPack'),
@@ -0,0 +1,345 @@
+import type { Kysely, Transaction } from 'kysely'
+import { z } from 'zod'
+import type { Database } from '@/lib/db'
+import { type EmailTemplateVariable, EmailTemplateValidationError, validateEmailContent } from '@/server/emailTemplates'
+import { joinIgnoreEmpty } from '@/server/workflow/utils'
+
+type DbExecutor = Kysely<Database> | Transaction<Database>
+
+export const campaignTriggerTypes = ['no_recent_booking', 'credit_pack_low', 'birthday'] as const
+
+export type CampaignTriggerType = (typeof campaignTriggerTypes)[number]
+
+export const campaignChannels = ['email', 'sms', 'email_and_sms'] as const
+
+export type CampaignChannel = (typeof campaignChannels)[number]
+
+/** Filters applied on top of a campaign's trigger. A client has to match all of them. */
+export const campaignConditionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('client_status'),
+    statuses: z.array(z.string().trim().min(1)).min(1, 'statuses must not be empty'),
+  }),
+  z.object({ type: z.literal('no_upcoming_booking') }),
+])
+
+export type CampaignCondition = z.infer<typeof campaignConditionSchema>
+
+const campaignConditionsSchema = z.array(campaignConditionSchema)
+
+/** Variables campaign emails and texts can use. `creditsRemaining` only has a value for credit_pack_low campaigns. */
+export const campaignVariables: Record<string, EmailTemplateVariable> = {
+  clientFirstName: {
+    description: "The client's first name",
+    example: 'Sam',
+  },
+  serviceProviderName: {
+    description: 'Your business name',
+    example: 'Northside Strength',
+  },
+  creditsRemaining: {
+    description: 'Sessions left on the pack that is running low',
+    example: '1',
+  },
+  dashboardLink: {
+    description: "A link to the client's dashboard",
+    example: 'https://example.com/client-dashboard',
+    link: true,
+  },
+}
+
+export type ClientCampaignInput = {
+  name: string
+  enabled: boolean
+  triggerType: CampaignTriggerType
+  triggerThreshold: number | null
+  conditions: CampaignCondition[]
+  channel: CampaignChannel
+  emailSubject: string | null
+  emailHeading: string | null
+  emailBody: string | null
+  smsBody: string | null
+  frequencyCapDays: number
+}
+
+export type ClientCampaign = ClientCampaignInput & {
+  id: string
+  createdAt: string
+  updatedAt: string
+  sentCount: number
+  lastSentAt: string | null
+}
+
+export type ClientCampaignRun = {
+  id: string
+  createdAt: string
+  clientId: string
+  clientName: string
+  occurrenceKey: string
+  status: 'sent' | 'skipped'
+  skipReason: string | null
+  mailId: string | null
+  smsId: string | null
+}
+
+export class ClientCampaignNotFoundError extends Error {
+  constructor() {
+    super('Client campaign not found')
+    this.name = 'ClientCampaignNotFoundError'
+  }
+}
+
+export class ClientCampaignValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ClientCampaignValidationError'
+  }
+}
+
+const toIsoString = (value: Date | string) => (value instanceof Date ? value : new Date(value)).toISOString()
+
+export const sendsEmail = (channel: CampaignChannel) => channel !== 'sms'
+
+export const sendsSms = (channel: CampaignChannel) => channel !== 'email'
+
+/** Checks the parts of a campaign that depend on each other, which the request schemas can't see on their own. */
+export const validateClientCampaign = (campaign: ClientCampaignInput) => {
+  if (campaign.triggerType !== 'birthday' && campaign.triggerThreshold === null) {
+    throw new ClientCampaignValidationError(`A ${campaign.triggerType} campaign needs a trigger threshold.`)
+  }
+
+  const usesCredits = [campaign.emailSubject, campaign.emailHeading, campaign.emailBody, campaign.smsBody].some(
+    (text) => text?.includes('{{creditsRemaining}}')
+  )
+  if (usesCredits && campaign.triggerType !== 'credit_pack_low') {
+    throw new ClientCampaignValidationError('{{creditsRemaining}} can only be used in credit_pack_low campaigns.')
+  }
+
+  if (sendsEmail(campaign.channel)) {
+    if (!campaign.emailSubject?.trim() || !campaign.emailBody?.trim()) {
+      throw new ClientCampaignValidationError('Email campaigns need a subject and a body.')
+    }
+
+    try {
+      validateEmailContent(campaignVariables, {
+        subject: campaign.emailSubject,
+        heading: campaign.emailHeading ?? undefined,
+        body: campaign.emailBody,
+      })
+    } catch (error) {
+      if (error instanceof EmailTemplateValidationError) {
+        throw new ClientCampaignValidationError(error.message)
+      }
+      throw error
+    }
+  }
+
+  if (sendsSms(campaign.channel)) {
+    if (!campaign.smsBody?.trim()) {
+      throw new ClientCampaignValidationError('Text campaigns need a message.')
+    }
+
+    for (const [, name = ''] of campaign.smsBody.matchAll(/\{\{\s*(\w+)\s*\}\}/g)) {
+      if (!campaignVariables[name]) {
+        throw new ClientCampaignValidationError(`{{${name}}} isn't available in campaigns.`)
+      }
+    }
+  }
+}
+
+const campaignColumns = [
+  'client_campaign.id',
+  'client_campaign.created_at as createdAt',
+  'client_campaign.updated_at as updatedAt',
+  'client_campaign.name',
+  'client_campaign.enabled',
+  'client_campaign.trigger_type as triggerType',
+  'client_campaign.trigger_threshold as triggerThreshold',
+  'client_campaign.conditions',
+  'client_campaign.channel',
+  'client_campaign.email_subject as emailSubject',
+  'client_campaign.email_heading as emailHeading',
+  'client_campaign.email_body as emailBody',
+  'client_campaign.sms_body as smsBody',
+  'client_campaign.frequency_cap_days as frequencyCapDays',
+] as const
+
+const selectCampaigns = (executor: DbExecutor, trainerId: string) =>
+  executor
+    .selectFrom('client_campaign')
+    .select(campaignColumns)
+    .select((eb) => [
+      eb
+        .selectFrom('client_campaign_run')
+        .select((run) => run.fn.countAll<string>().as('count'))
+        .whereRef('client_campaign_run.campaign_id', '=', 'client_campaign.id')
+        .where('client_campaign_run.status', '=', 'sent')
+        .as('sentCount'),
+      eb
+        .selectFrom('client_campaign_run')
+        .select((run) => run.fn.max('client_campaign_run.created_at').as('lastSentAt'))
+        .whereRef('client_campaign_run.campaign_id', '=', 'client_campaign.id')
+        .where('client_campaign_run.status', '=', 'sent')
+        .as('lastSentAt'),
+    ])
+    .where('client_campaign.trainer_id', '=', trainerId)
+
+type CampaignRow = Awaited<ReturnType<ReturnType<typeof selectCampaigns>['executeTakeFirstOrThrow']>>
+
+/**
+ * Conditions are validated when they're saved, so null here means they were written by something newer than this
+ * code. Such campaigns aren't run, as ignoring a condition would send to clients it was meant to leave out.
+ */
+export const parseCampaignConditions = (value: unknown): CampaignCondition[] | null => {
+  const parsed = campaignConditionsSchema.safeParse(value)
+  return parsed.success ? parsed.data : null
+}
+
+const toClientCampaign = (row: CampaignRow): ClientCampaign => ({
+  id: row.id,
+  createdAt: toIsoString(row.createdAt),
+  updatedAt: toIsoString(row.updatedAt),
+  name: row.name,
+  enabled: row.enabled,
+  triggerType: row.triggerType as CampaignTriggerType,
+  triggerThreshold: row.triggerThreshold,
+  conditions: parseCampaignConditions(row.conditions) ?? [],
+  channel: row.channel as CampaignChannel,
+  emailSubject: row.emailSubject,
+  emailHeading: row.emailHeading,
+  emailBody: row.emailBody,
+  smsBody: row.smsBody,
+  frequencyCapDays: row.frequencyCapDays,
+  sentCount: Number(row.sentCount ?? 0),
+  lastSentAt: row.lastSentAt ? toIsoString(row.lastSentAt) : null,
+})
+
+const toColumns = (campaign: ClientCampaignInput) => ({
+  name: campaign.name,
+  enabled: campaign.enabled,
+  trigger_type: campaign.triggerType,
+  trigger_threshold: campaign.triggerType === 'birthday' ? null : campaign.triggerThreshold,
+  conditions: JSON.stringify(campaign.conditions),
+  channel: campaign.channel,
+  email_subject: sendsEmail(campaign.channel) ? campaign.emailSubject : null,
+  email_heading: sendsEmail(campaign.channel) ? campaign.emailHeading : null,
+  email_body: sendsEmail(campaign.channel) ? campaign.emailBody : null,
+  sms_body: sendsSms(campaign.channel) ? campaign.smsBody : null,
+  frequency_cap_days: campaign.frequencyCapDays,
+})
+
+export const listClientCampaigns = async (executor: DbExecutor, trainerId: string) => {
+  const rows = await selectCampaigns(executor, trainerId).orderBy('client_campaign.created_at').execute()
+  return rows.map(toClientCampaign)
+}
+
+export const getClientCampaign = async (executor: DbExecutor, trainerId: string, campaignId: string) => {
+  const row = await selectCampaigns(executor, trainerId).where('client_campaign.id', '=', campaignId).executeTakeFirst()
+  if (!row) {
+    throw new ClientCampaignNotFoundError()
+  }
+  return toClientCampaign(row)
+}
+
+export const createClientCampaign = async (executor: DbExecutor, trainerId: string, input: ClientCampaignInput) => {
+  validateClientCampaign(input)
+
+  const { id } = await executor
+    .insertInto('client_campaign')
+    .values({ trainer_id: trainerId, ...toColumns(input) })
+    .returning('id')
+    .executeTakeFirstOrThrow()
+
+  return getClientCampaign(executor, trainerId, id)
+}
+
+/** Applies the fields given on top of the campaign as it is, then checks the result as a whole. */
+export const updateClientCampaign = async (
+  trx: Transaction<Database>,
+  trainerId: string,
+  campaignId: string,
+  changes: Partial<ClientCampaignInput>
+) => {
+  const existing = await trx
+    .selectFrom('client_campaign')
+    .select('id')
+    .where('id', '=', campaignId)
+    .where('trainer_id', '=', trainerId)
+    .forUpdate()
+    .executeTakeFirst()
+
+  if (!existing) {
+    throw new ClientCampaignNotFoundError()
+  }
+
+  const current = await getClientCampaign(trx, trainerId, campaignId)
+  const updated: ClientCampaignInput = {
+    name: changes.name ?? current.name,
+    enabled: changes.enabled ?? current.enabled,
+    triggerType: changes.triggerType ?? current.triggerType,
+    triggerThreshold: changes.triggerThreshold === undefined ? current.triggerThreshold : changes.triggerThreshold,
+    conditions: changes.conditions ?? current.conditions,
+    channel: changes.channel ?? current.channel,
+    emailSubject: changes.emailSubject === undefined ? current.emailSubject : changes.emailSubject,
+    emailHeading: changes.emailHeading === undefined ? current.emailHeading : changes.emailHeading,
+    emailBody: changes.emailBody === undefined ? current.emailBody : changes.emailBody,
+    smsBody: changes.smsBody === undefined ? current.smsBody : changes.smsBody,
+    frequencyCapDays: changes.frequencyCapDays ?? current.frequencyCapDays,
+  }
+  validateClientCampaign(updated)
+
+  await trx.updateTable('client_campaign').set(toColumns(updated)).where('id', '=', campaignId).execute()
+
+  return getClientCampaign(trx, trainerId, campaignId)
+}
+
+/** Deleting a campaign also deletes its run log. The emails and texts it sent are kept. */
+export const deleteClientCampaign = async (executor: DbExecutor, trainerId: string, campaignId: string) => {
+  const deleted = await executor
+    .deleteFrom('client_campaign')
+    .where('id', '=', campaignId)
+    .where('trainer_id', '=', trainerId)
+    .executeTakeFirst()
+
+  if (deleted.numDeletedRows === 0n) {
+    throw new ClientCampaignNotFoundError()
+  }
+}
+
+/** What a campaign has done, newest first. */
+export const listClientCampaignRuns = async (
+  executor: DbExecutor,
+  trainerId: string,
+  campaignId: string,
+  { limit }: { limit: number }
+): Promise<ClientCampaignRun[]> => {
+  await getClientCampaign(executor, trainerId, campaignId)
+
+  const rows = await executor
+    .selectFrom('client_campaign_run')
+    .innerJoin('client', 'client.id', 'client_campaign_run.client_id')
+    .select((eb) => [
+      eb.ref('client_campaign_run.id').as('id'),
+      eb.ref('client_campaign_run.created_at').as('createdAt'),
+      eb.ref('client_campaign_run.client_id').as('clientId'),
+      eb.ref('client.first_name').as('firstName'),
+      eb.ref('client.last_name').as('lastName'),
+      eb.ref('client_campaign_run.occurrence_key').as('occurrenceKey'),
+      eb.ref('client_campaign_run.status').as('status'),
+      eb.ref('client_campaign_run.skip_reason').as('skipReason'),
+      eb.ref('client_campaign_run.mail_id').as('mailId'),
+      eb.ref('client_campaign_run.sms_id').as('smsId'),
+    ])
+    .where('client_campaign_run.campaign_id', '=', campaignId)
+    .where('client_campaign_run.trainer_id', '=', trainerId)
+    .orderBy('client_campaign_run.created_at', 'desc')
+    .limit(limit)
+    .execute()
+
+  return rows.map(({ firstName, lastName, createdAt, status, ...row }) => ({
+    ...row,
+    createdAt: toIsoString(createdAt),
+    clientName: joinIgnoreEmpty(firstName, lastName),
+    status: status as ClientCampaignRun['status'],
+  }))
+}
@@ -2,6 +2,7 @@ import type { CountryCode } from 'libphonenumber-js'
 import { parsePhoneNumberFromString } from 'libphonenumber-js/min'
 import { z } from 'zod'
 import { db, type Point, type Selectable, type VwLegacyClient } from '@/lib/db'
+import { languageForLocale, resolveLocale, supportedLanguages } from '@/lib/i18n'
 import { supportedCountryCodes } from '@/lib/supportedCountries'
 import { adaptClientRow, clientListSchema } from '../app/api/clients/shared'
 
@@ -26,6 +27,13 @@ const nullableEmail = nullableTrimmedBase
 
 const nullablePhoneString = nullableTrimmedString
 
+const nullableLocale = nullableTrimmedBase
+  .refine((value) => value === null || languageForLocale(value) !== null, {
+    message: `Locale must be a language tag in one of the supported languages (${supportedLanguages.join(', ')}).`,
+  })
+  .transform((value) => (value ? resolveLocale(value) : null))
+  .optional()
+
 const birthdaySchema = z.preprocess((value) => {
   if (value === undefined) {
     return undefined
@@ -83,6 +91,7 @@ export const createClientSchema = z.object({
   birthday: birthdaySchema,
   emergencyContactName: nullableTrimmedString,
   emergencyContactMobileNumber: nullablePhoneString,
+  locale: nullableLocale,
 })
 
 export type CreateClientInput = z.infer<typeof createClientSchema>
@@ -148,6 +157,7 @@ export async function createClientForTrainer(trainerId: string, payload: CreateC
         location: parsed.location ?? null,
         address: parsed.address ?? null,
         google_place_id: parsed.googlePlaceId ?? null,
+        locale: parsed.locale ?? null,
         geo,
       })
       .returning('id')
@@ -0,0 +1,427 @@
+import type { Kysely, Transaction } from 'kysely'
+import { sql } from 'kysely'
+import type { Database } from '@/lib/db'
+
+type DbExecutor = Kysely<Database> | Transaction<Database>
+
+/** What a client email or text was for, stored in `mail.message_type` / `sms.message_type`. */
+export const messageTypes = [
+  'booking_confirmation',
+  'booking_cancellation',
+  'appointment_reminder',
+  'session_invitation',
+  'session_share',
+  'payment_request',
+  'payment_reminder',
+  'payment_failed',
+  'receipt',
+  'payment_plan_request',
+  'payment_plan_update',
+  'membership_request',
+  'waitlist_spot_opened',
+  'dashboard_link',
+  'campaign',
+] as const
+
+export type MessageType = (typeof messageTypes)[number]
+
+export type DeliveryState = 'pending' | 'queued' | 'sent' | 'delivered' | 'bounced' | 'rejected' | 'failed'
+
+export type ClientEmail = {
+  channel: 'email'
+  id: string
+  messageType: string | null
+  to: string
+  subject: string
+  createdAt: string
+  queuedAt: string | null
+  sentAt: string | null
+  deliveryState: DeliveryState
+  rejectReason: string | null
+  bounce: {
+    bouncedAt: string
+    type: string | null
+    description: string | null
+    diagnosis: string | null
+  } | null
+  openCount: number
+  firstOpenedAt: string | null
+  lastOpenedAt: string | null
+  clickCount: number
+  firstClickedAt: string | null
+  lastClickedAt: string | null
+  clickedUrls: string[]
+}
+
+export type ClientText = {
+  channel: 'sms'
+  id: string
+  messageType: string | null
+  to: string
+  body: string
+  createdAt: string
+  queuedAt: string | null
+  deliveryState: DeliveryState
+  failureReason: string | null
+  twilioStatus: string | null
+  twilioErrorCode: number | null
+  twilioErrorMessage: string | null
+}
+
+export type ClientCommunication = ClientEmail | ClientText
+
+export type EmailEngagement = {
+  messageType: string
+  sent: number
+  delivered: number
+  bounced: number
+  rejected: number
+  opened: number
+  clicked: number
+  /** Share of delivered emails opened at least once, or null until one has been delivered. */
+  openRate: number | null
+  clickRate: number | null
+}
+
+export type TextEngagement = {
+  messageType: string
+  sent: number
+  delivered: number
+  failed: number
+  /** Share of sent texts Twilio confirmed as delivered, or null until one has been sent. */
+  deliveryRate: number | null
+}
+
+const toIsoString = (value: Date | string) => (value instanceof Date ? value : new Date(value)).toISOString()
+
+const toOptionalIsoString = (value: Date | string | null) => (value === null ? null : toIsoString(value))
+
+const ratio = (numerator: number, denominator: number) => (denominator > 0 ? numerator / denominator : null)
+
+const readTwilioMessage = (object: unknown) => {
+  const record =
+    object && typeof object === 'object' && !Array.isArray(object) ? (object as Record<string, unknown>) : {}
+  return {
+    status: typeof record.status === 'string' ? record.status : null,
+    errorCode: typeof record.error_code === 'number' ? record.error_code : null,
+    errorMessage: typeof record.error_message === 'string' ? record.error_message : null,
+  }
+}
+
+const textDeliveryState = (
+  row: { queuedAt: Date | string | null; queueFailedAt: Date | string | null },
+  twilioStatus: string | null
+): DeliveryState => {
+  if (row.queueFailedAt !== null || twilioStatus === 'failed' || twilioStatus === 'undelivered') {
+    return 'failed'
+  }
+  if (twilioStatus === 'delivered') {
+    return 'delivered'
+  }
+  if (twilioStatus === 'sent') {
+    return 'sent'
+  }
+  return row.queuedAt === null ? 'pending' : 'queued'
+}
+
+/**
+ * Mail about a client is sometimes addressed to their trainer (e.g. "Sam declined your invitation") and carries the
+ * client's id all the same, so client communications are told apart by recipient.
+ */
+const clientMail = (executor: DbExecutor, trainerId: string) =>
+  executor
+    .selectFrom('mail')
+    .innerJoin('trainer', 'trainer.id', 'mail.trainer_id')
+    .where('mail.trainer_id', '=', trainerId)
+    .where('mail.client_id', 'is not', null)
+    .where(sql<boolean>`lower(mail.to_email) <> lower(trainer.email)`)
+    .where(sql<boolean>`lower(mail.to_email) IS DISTINCT FROM lower(trainer.online_bookings_contact_email)`)
+
+const fetchEmailEvents = async (executor: DbExecutor, mailIds: string[]) => {
+  if (mailIds.length === 0) {
+    return { opens: [], clicks: [], bounces: [] }
+  }
+
+  const [opens, clicks, bounces] = await Promise.all([
+    executor
+      .selectFrom('mail_open')
+      .select((eb) => [
+        'mail_id as mailId',
+        eb.fn.countAll<string>().as('count'),
+        eb.fn.min('opened_at').as('firstAt'),
+        eb.fn.max('opened_at').as('lastAt'),
+      ])
+      .where('mail_id', 'in', mailIds)
+      .groupBy('mail_id')
+      .execute(),
+    executor
+      .selectFrom('mail_click')
+      .select((eb) => [
+        'mail_id as mailId',
+        eb.fn.countAll<string>().as('count'),
+        eb.fn.min('clicked_at').as('firstAt'),
+        eb.fn.max('clicked_at').as('lastAt'),
+        sql<string[]>`array_agg(DISTINCT mail_click.url)`.as('urls'),
+      ])
+      .where('mail_id', 'in', mailIds)
+      .groupBy('mail_id')
+      .execute(),
+    executor
+      .selectFrom('mail_bounce')
+      .distinctOn('mail_id')
+      .select(['mail_id as mailId', 'bounced_at as bouncedAt', 'bounce_type as type', 'description', 'diagnosis'])
+      .where('mail_id', 'in', mailIds)
+      .orderBy('mail_id')
+      .orderBy('bounced_at', 'desc')
+      .execute(),
+  ])
+
+  return { opens, clicks, bounces }
+}
+
+const listClientEmails = async (
+  executor: DbExecutor,
+  trainerId: string,
+  clientId: string,
+  { limit, before }: { limit: number; before: Date | null }
+): Promise<ClientEmail[]> => {
+  let query = clientMail(executor, trainerId)
+    .select([
+      'mail.id',
+      'mail.message_type as messageType',
+      'mail.to_email as to',
+      'mail.subject',
+      'mail.created_at as createdAt',
+      'mail.queued_at as queuedAt',
+      'mail.sent_at as sentAt',
+      'mail.rejected_at as rejectedAt',
+      'mail.reject_reason as rejectReason',
+    ])
+    .where('mail.client_id', '=', clientId)
+
+  if (before) {
+    query = query.where('mail.created_at', '<', before)
+  }
+
+  const rows = await query.orderBy('mail.created_at', 'desc').limit(limit).execute()
+  const events = await fetchEmailEvents(
+    executor,
+    rows.map((row) => row.id)
+  )
+  const opens = new Map(events.opens.map((open) => [open.mailId, open]))
+  const clicks = new Map(events.clicks.map((click) => [click.mailId, click]))
+  const bounces = new Map(events.bounces.map((bounce) => [bounce.mailId, bounce]))
+
+  return rows.map((row) => {
+    const open = opens.get(row.id)
+    const click = clicks.get(row.id)
+    const bounce = bounces.get(row.id)
+
+    const deliveryState: DeliveryState =
+      row.rejectedAt !== null
+        ? 'rejected'
+        : bounce
+          ? 'bounced'
+          : row.sentAt !== null
+            ? 'sent'
+            : row.queuedAt !== null
+              ? 'queued'
+              : 'pending'
+
+    return {
+      channel: 'email',
+      id: row.id,
+      messageType: row.messageType,
+      to: row.to,
+      subject: row.subject,
+      createdAt: toIsoString(row.createdAt),
+      queuedAt: toOptionalIsoString(row.queuedAt),
+      sentAt: toOptionalIsoString(row.sentAt),
+      deliveryState,
+      rejectReason: row.rejectReason,
+      bounce: bounce
+        ? {
+            bouncedAt: toIsoString(bounce.bouncedAt),
+            type: bounce.type,
+            description: bounce.description,
+            diagnosis: bounce.diagnosis,
+          }
+        : null,
+      openCount: open ? Number(open.count) : 0,
+      firstOpenedAt: open ? toOptionalIsoString(open.firstAt) : null,
+      lastOpenedAt: open ? toOptionalIsoString(open.lastAt) : null,
+      clickCount: click ? Number(click.count) : 0,
+      firstClickedAt: click ? toOptionalIsoString(click.firstAt) : null,
+      lastClickedAt: click ? toOptionalIsoString(click.lastAt) : null,
+      clickedUrls: click?.urls.filter(Boolean) ?? [],
+    }
+  })
+}
+
+const listClientTexts = async (
+  executor: DbExecutor,
+  trainerId: string,
+  clientId: string,
+  { limit, before }: { limit: number; before: Date | null }
+): Promise<ClientText[]> => {
+  let query = executor
+    .selectFrom('sms')
+    .leftJoin('twilio.message as twilioMessage', 'twilioMessage.sid', 'sms.twilio_message_sid')
+    .select([
+      'sms.id',
+      'sms.message_type as messageType',
+      'sms.to_number as to',
+      'sms.body',
+      'sms.created_at as createdAt',
+      'sms.queued_at as queuedAt',
+      'sms.queue_failed_at as queueFailedAt',
+      'sms.queue_failed_reason as failureReason',
+      'twilioMessage.object as twilioObject',
+    ])
+    .where('sms.trainer_id', '=', trainerId)
+    .where('sms.client_id', '=', clientId)
+
+  if (before) {
+    query = query.where('sms.created_at', '<', before)
+  }
+
+  const rows = await query.orderBy('sms.created_at', 'desc').limit(limit).execute()
+
+  return rows.map((row) => {
+    const twilio = readTwilioMessage(row.twilioObject)
+    return {
+      channel: 'sms',
+      id: row.id,
+      messageType: row.messageType,
+      to: row.to,
+      body: row.body,
+      createdAt: toIsoString(row.createdAt),
+      queuedAt: toOptionalIsoString(row.queuedAt),
+      deliveryState: textDeliveryState(row, twilio.status),
+      failureReason: row.failureReason,
+      twilioStatus: twilio.status,
+      twilioErrorCode: twilio.errorCode,
+      twilioErrorMessage: twilio.errorMessage,
+    }
+  })
+}
+
+/**
+ * Emails and texts sent to a client, newest first. Pass the `createdAt` of the last message as `before` to page back
+ * through older ones.
+ */
+export const listClientCommunications = async (
+  executor: DbExecutor,
+  trainerId: string,
+  clientId: string,
+  options: { limit: number; before?: Date | null }
+): Promise<ClientCommunication[]> => {
+  const page = { limit: options.limit, before: options.before ?? null }
+  const [emails, texts] = await Promise.all([
+    listClientEmails(executor, trainerId, clientId, page),
+    listClientTexts(executor, trainerId, clientId, page),
+  ])
+
+  return [...emails, ...texts].toSorted((a, b) => b.createdAt.localeCompare(a.createdAt)).slice(0, options.limit)
+}
+
+/**
+ * Delivery, open and click rates for a trainer's client emails, and delivery rates for their texts, per message type.
+ * Messages from before types were recorded are grouped under `other`.
+ */
+export const fetchMessageEngagement = async (
+  executor: DbExecutor,
+  trainerId: string,
+  { since, until }: { since?: Date | null; until?: Date | null } = {}
+): Promise<{ email: EmailEngagement[]; sms: TextEngagement[] }> => {
+  let emailQuery = clientMail(executor, trainerId)
+    .select((eb) => [
+      eb.fn.coalesce('mail.message_type', sql<string>`'other'`).as('messageType'),
+      eb.fn.countAll<string>().as('sent'),
+      eb.fn.countAll<string>().filterWhere('mail.rejected_at', 'is not', null).as('rejected'),
+      eb.fn
+        .countAll<string>()
+        .filterWhere(
+          eb.exists(eb.selectFrom('mail_bounce').select('id').whereRef('mail_bounce.mail_id', '=', 'mail.id'))
+        )
+        .as('bounced'),
+      eb.fn
+        .countAll<string>()
+        .filterWhere(eb.exists(eb.selectFrom('mail_open').select('id').whereRef('mail_open.mail_id', '=', 'mail.id')))
+        .as('opened'),
+      eb.fn
+        .countAll<string>()
+        .filterWhere(eb.exists(eb.selectFrom('mail_click').select('id').whereRef('mail_click.mail_id', '=', 'mail.id')))
+        .as('clicked'),
+    ])
+    .groupBy(sql`1`)
+
+  let smsQuery = executor
+    .selectFrom('sms')
+    .leftJoin('twilio.message as twilioMessage', 'twilioMessage.sid', 'sms.twilio_message_sid')
+    .select((eb) => [
+      eb.fn.coalesce('sms.message_type', sql<string>`'other'`).as('messageType'),
+      eb.fn.countAll<string>().as('sent'),
+      eb.fn
+        .countAll<string>()
+        .filterWhere(sql<boolean>`${eb.ref('twilioMessage.object')}->>'status' = 'delivered'`)
+        .as('delivered'),
+      eb.fn
+        .countAll<string>()
+        .filterWhere(
+          sql<boolean>`sms.queue_failed_at IS NOT NULL OR ${eb.ref('twilioMessage.object')}->>'status' IN ('failed', 'undelivered')`
+        )
+        .as('failed'),
+    ])
+    .where('sms.trainer_id', '=', trainerId)
+    .where('sms.client_id', 'is not', null)
+    .groupBy(sql`1`)
+
+  if (since) {
+    emailQuery = emailQuery.where('mail.created_at', '>=', since)
+    smsQuery = smsQuery.where('sms.created_at', '>=', since)
+  }
+  if (until) {
+    emailQuery = emailQuery.where('mail.created_at', '<', until)
+    smsQuery = smsQuery.where('sms.created_at', '<', until)
+  }
+
+  const [emailRows, smsRows] = await Promise.all([emailQuery.execute(), smsQuery.execute()])
+
+  return {
+    email: emailRows
+      .map((row) => {
+        const sent = Number(row.sent)
+        const bounced = Number(row.bounced)
+        const rejected = Number(row.rejected)
+        const opened = Number(row.opened)
+        const clicked = Number(row.clicked)
+        const delivered = Math.max(0, sent - bounced - rejected)
+        return {
+          messageType: row.messageType,
+          sent,
+          delivered,
+          bounced,
+          rejected,
+          opened,
+          clicked,
+          openRate: ratio(opened, delivered),
+          clickRate: ratio(clicked, delivered),
+        }
+      })
+      .toSorted((a, b) => a.messageType.localeCompare(b.messageType)),
+    sms: smsRows
+      .map((row) => {
+        const sent = Number(row.sent)
+        const delivered = Number(row.delivered)
+        return {
+          messageType: row.messageType,
+          sent,
+          delivered,
+          failed: Number(row.failed),
+          deliveryRate: ratio(delivered, sent),
+        }
+      })
+      .toSorted((a, b) => a.messageType.localeCompare(b.messageType)),
+  }
+}
@@ -0,0 +1,548 @@
+import type { Kysely, Transaction } from 'kysely'
+import BigNumber from 'bignumber.js'
+import type { Database } from '@/lib/db'
+import { recordSalePaymentRefund } from '@/server/paymentRefunds'
+import { enqueueWorkflowTask } from '@/server/workflow/outbox'
+
+type DbExecutor = Kysely<Database> | Transaction<Database>
+
+export const creditLedgerEntryTypes = ['purchase', 'redemption', 'refund', 'adjustment', 'expiry'] as const
+
+export type CreditLedgerEntryType = (typeof creditLedgerEntryTypes)[number]
+
+export type CreditLedgerEntry = {
+  id: string
+  saleCreditPackId: string
+  type: CreditLedgerEntryType
+  credits: number
+  occurredAt: string
+  clientSessionId: string | null
+  paymentId: string | null
+  note: string | null
+}
+
+export type CreditPackBalance = {
+  saleCreditPackId: string
+  name: string
+  totalCredits: number
+  purchasedAt: string
+  expiresAt: string | null
+  creditsRemaining: number
+}
+
+export class CreditPackNotFoundError extends Error {
+  constructor() {
+    super('Credit pack not found')
+    this.name = 'CreditPackNotFoundError'
+  }
+}
+
+export class InsufficientCreditsError extends Error {
+  constructor() {
+    super('The credit pack does not have enough credits remaining.')
+    this.name = 'InsufficientCreditsError'
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const isCreditLedgerEntryType = (value: string): value is CreditLedgerEntryType =>
+  (creditLedgerEntryTypes as readonly string[]).includes(value)
+
+const toIsoString = (value: Date | string) => new Date(value).toISOString()
+
+/** Sums the ledger for each pack, counting only entries that happened on or before `asOf`. */
+const fetchPackLedgerTotals = async (executor: DbExecutor, saleCreditPackIds: string[], asOf = new Date()) => {
+  if (saleCreditPackIds.length === 0) {
+    return new Map<string, number>()
+  }
+
+  const rows = await executor
+    .selectFrom('credit_ledger_entry')
+    .select((eb) => ['sale_credit_pack_id as saleCreditPackId', eb.fn.sum<string>('credits').as('credits')])
+    .where('sale_credit_pack_id', 'in', saleCreditPackIds)
+    .where('occurred_at', '<=', asOf)
+    .groupBy('sale_credit_pack_id')
+    .execute()
+
+  return new Map(rows.map((row) => [row.saleCreditPackId, Number(row.credits)]))
+}
+
+/**
+ * Opens a newly sold pack in the ledger. The pack's expiry is taken from its product's `expiry_days` at the time of
+ * sale, so later changes to the product don't move the expiry of packs that have already been sold.
+ */
+export const recordCreditPackPurchase = async (trx: Transaction<Database>, saleCreditPackId: string) => {
+  const pack = await trx
+    .selectFrom('sale_credit_pack')
+    .innerJoin('sale_product', 'sale_product.id', 'sale_credit_pack.id')
+    .leftJoin('credit_pack', 'credit_pack.id', 'sale_product.product_id')
+    .select((eb) => [
+      eb.ref('sale_credit_pack.id').as('id'),
+      eb.ref('sale_credit_pack.trainer_id').as('trainerId'),
+      eb.ref('sale_product.client_id').as('clientId'),
+      eb.ref('sale_credit_pack.total_credits').as('totalCredits'),
+      eb.ref('sale_credit_pack.created_at').as('createdAt'),
+      eb.ref('credit_pack.expiry_days').as('expiryDays'),
+    ])
+    .where('sale_credit_pack.id', '=', saleCreditPackId)
+    .executeTakeFirstOrThrow()
+
+  const purchasedAt = new Date(pack.createdAt)
+  const expiresAt = pack.expiryDays ? new Date(purchasedAt.getTime() + pack.expiryDays * DAY_MS) : null
+
+  if (expiresAt) {
+    await trx.updateTable('sale_credit_pack').set({ expires_at: expiresAt }).where('id', '=', pack.id).execute()
+
+    await enqueueWorkflowTask(
+      trx,
+      'expireCreditPack',
+      { saleCreditPackId: pack.id },
+      { dedupeKey: `expireCreditPack:${pack.id}`, availableAt: expiresAt }
+    )
+  }
+
+  await trx
+    .insertInto('credit_ledger_entry')
+    .values({
+      trainer_id: pack.trainerId,
+      client_id: pack.clientId,
+      sale_credit_pack_id: pack.id,
+      entry_type: 'purchase',
+      credits: pack.totalCredits,
+      occurred_at: purchasedAt,
+    })
+    .execute()
+}
+
+const reconcilePaymentLedger = async (
+  trx: Transaction<Database>,
+  paymentId: string,
+  { released }: { released: boolean }
+) => {
+  const payment = await trx
+    .selectFrom('payment')
+    .innerJoin('payment_credit_pack', 'payment_credit_pack.id', 'payment.id')
+    .leftJoin('client_session', 'client_session.sale_id', 'payment.sale_id')
+    .select((eb) => [
+      eb.ref('payment.trainer_id').as('trainerId'),
+      eb.ref('payment.client_id').as('clientId'),
+      eb.ref('payment.refunded_time').as('refundedTime'),
+      eb.ref('payment_credit_pack.sale_credit_pack_id').as('saleCreditPackId'),
+      eb.ref('payment_credit_pack.credits_used').as('creditsUsed'),
+      eb.ref('payment_credit_pack.transaction_time').as('transactionTime'),
+      eb.ref('client_session.id').as('clientSessionId'),
+    ])
+    .where('payment.id', '=', paymentId)
+    .executeTakeFirst()
+
+  const entries = await trx
+    .selectFrom('credit_ledger_entry')
+    .select([
+      'trainer_id as trainerId',
+      'client_id as clientId',
+      'sale_credit_pack_id as saleCreditPackId',
+      'client_session_id as clientSessionId',
+      'credits',
+    ])
+    .where('payment_id', '=', paymentId)
+    .execute()
+
+  type PackUsage = {
+    trainerId: string
+    clientId: string
+    clientSessionId: string | null
+    recorded: number
+    expected: number
+  }
+  const usageByPack = new Map<string, PackUsage>()
+
+  for (const entry of entries) {
+    const usage = usageByPack.get(entry.saleCreditPackId) ?? { ...entry, recorded: 0, expected: 0 }
+    usage.recorded -= entry.credits
+    usageByPack.set(entry.saleCreditPackId, usage)
+  }
+
+  if (payment) {
+    const usage = usageByPack.get(payment.saleCreditPackId) ?? { ...payment, recorded: 0, expected: 0 }
+    usage.expected = released || payment.refundedTime !== null ? 0 : payment.creditsUsed
+    usageByPack.set(payment.saleCreditPackId, usage)
+  }
+
+  for (const [saleCreditPackId, usage] of usageByPack) {
+    const difference = usage.expected - usage.recorded
+    if (difference === 0) {
+      continue
+    }
+
+    await trx
+      .insertInto('credit_ledger_entry')
+      .values({
+        trainer_id: usage.trainerId,
+        client_id: usage.clientId,
+        sale_credit_pack_id: saleCreditPackId,
+        entry_type: difference > 0 ? 'redemption' : 'refund',
+        credits: -difference,
+        occurred_at: difference > 0 && payment ? new Date(payment.transactionTime) : new Date(),
+        client_session_id: usage.clientSessionId,
+        payment_id: paymentId,
+      })
+      .execute()
+  }
+}
+
+/**
+ * Brings the ledger in line with a credit pack payment after it is created, edited, refunded or deleted, by appending
+ * a redemption or refund for the difference between the credits the payment uses and what the ledger has recorded.
+ */
+export const syncCreditPackPaymentLedger = (trx: Transaction<Database>, paymentId: string) =>
+  reconcilePaymentLedger(trx, paymentId, { released: false })
+
+/** Refunds the credits used by payments on sales that are about to be deleted. */
+export const releaseSaleCredits = async (trx: Transaction<Database>, saleIds: string[]) => {
+  if (saleIds.length === 0) {
+    return
+  }
+
+  const payments = await trx
+    .selectFrom('payment')
+    .select('id')
+    .where('sale_id', 'in', saleIds)
+    .where('is_credit_pack', '=', true)
+    .execute()
+
+  for (const payment of payments) {
+    await reconcilePaymentLedger(trx, payment.id, { released: true })
+  }
+}
+
+/**
+ * Pays for a client session with a credit from the client's oldest non-expired pack that has credits left, recorded
+ * as a credit pack payment against a new sale for the session. Returns null when the client has no usable credits.
+ */
+export const applyCreditPackToClientSession = async (trx: Transaction<Database>, clientSessionId: string) => {
+  const clientSession = await trx
+    .selectFrom('client_session')
+    .innerJoin('session', 'session.id', 'client_session.session_id')
+    .innerJoin('session_series', 'session_series.id', 'session.session_series_id')
+    .leftJoin('product', 'product.id', 'session.service_id')
+    .select((eb) => [
+      eb.ref('client_session.id').as('id'),
+      eb.ref('client_session.trainer_id').as('trainerId'),
+      eb.ref('client_session.client_id').as('clientId'),
+      eb.ref('client_session.sale_id').as('saleId'),
+      eb.ref('client_session.price').as('clientSessionPrice'),
+      eb.ref('session_series.price').as('seriesPrice'),
+      eb.ref('session_series.name').as('seriesName'),
+      eb.ref('product.name').as('serviceName'),
+      eb.ref('session.service_id').as('serviceId'),
+      eb.ref('session.start').as('start'),
+      eb.ref('session.duration').as('duration'),
+      eb.ref('session.location').as('location'),
+      eb.ref('session.address').as('address'),
+      eb.ref('session.geo').as('geo'),
+      eb.ref('session.google_place_id').as('googlePlaceId'),
+    ])
+    .where('client_session.id', '=', clientSessionId)
+    .executeTakeFirstOrThrow()
+
+  if (clientSession.saleId) {
+    return null
+  }
+
+  const now = new Date()
+
+  // Locks the client's packs so concurrent bookings can't spend the same credit twice.
+  const packs = await trx
+    .selectFrom('sale_credit_pack')
+    .innerJoin('sale_product', 'sale_product.id', 'sale_credit_pack.id')
+    .select((eb) => [eb.ref('sale_credit_pack.id').as('id')])
+    .where('sale_credit_pack.trainer_id', '=', clientSession.trainerId)
+    .where('sale_product.client_id', '=', clientSession.clientId)
+    .where((eb) => eb.or([eb('sale_credit_pack.expires_at', 'is', null), eb('sale_credit_pack.expires_at', '>', now)]))
+    .orderBy('sale_credit_pack.created_at')
+    .orderBy('sale_credit_pack.id')
+    .forUpdate()
+    .execute()
+
+  const totals = await fetchPackLedgerTotals(
+    trx,
+    packs.map((pack) => pack.id),
+    now
+  )
+  const pack = packs.find((candidate) => (totals.get(candidate.id) ?? 0) >= 1)
+
+  if (!pack) {
+    return null
+  }
+
+  const price = clientSession.clientSessionPrice ?? clientSession.seriesPrice ?? '0'
+
+  const sale = await trx
+    .insertInto('sale')
+    .values({
+      trainer_id: clientSession.trainerId,
+      client_id: clientSession.clientId,
+      due_time: new Date(clientSession.start),
+    })
+    .returning('id')
+    .executeTakeFirstOrThrow()
+
+  await trx.insertInto('sale_payment_status').values({ sale_id: sale.id, payment_status: 'paid' }).execute()
+
+  const saleProduct = await trx
+    .insertInto('sale_product')
+    .values({
+      trainer_id: clientSession.trainerId,
+      client_id: clientSession.clientId,
+      sale_id: sale.id,
+      price,
+      name: clientSession.serviceName ?? clientSession.seriesName ?? 'Appointment',
+      product_id: clientSession.serviceId,
+      is_credit_pack: null,
+      is_item: null,
+      is_service: true,
+      is_membership: null,
+    })
+    .returning('id')
+    .executeTakeFirstOrThrow()
+
+  await trx
+    .insertInto('sale_service')
+    .values({
+      id: saleProduct.id,
+      trainer_id: clientSession.trainerId,
+      duration: clientSession.duration,
+      location: clientSession.location,
+      address: clientSession.address,
+      geo: clientSession.geo,
+      google_place_id: clientSession.googlePlaceId,
+      is_service: true,
+    })
+    .execute()
+
+  const payment = await trx
+    .insertInto('payment')
+    .values({
+      trainer_id: clientSession.trainerId,
+      client_id: clientSession.clientId,
+      sale_id: sale.id,
+      amount: price,
+      is_credit_pack: true,
+      is_manual: null,
+      is_stripe: null,
+      is_scheduled_stripe: null,
+      is_subscription: null,
+    })
+    .returning('id')
+    .executeTakeFirstOrThrow()
+
+  await trx
+    .insertInto('payment_credit_pack')
+    .values({
+      id: payment.id,
+      trainer_id: clientSession.trainerId,
+      sale_credit_pack_id: pack.id,
+      transaction_time: now,
+      credits_used: 1,
+      is_credit_pack: true,
+    })
+    .execute()
+
+  await trx.updateTable('client_session').set({ sale_id: sale.id }).where('id', '=', clientSession.id).execute()
+
+  await syncCreditPackPaymentLedger(trx, payment.id)
+
+  return { saleCreditPackId: pack.id, paymentId: payment.id, saleId: sale.id }
+}
+
+/** Gives back the credits a cancelled client session was paid for with, by refunding its credit pack payments. */
+export const refundClientSessionCredits = async (trx: Transaction<Database>, clientSessionId: string) => {
+  const refunded = await trx
+    .selectFrom('payment')
+    .innerJoin('client_session', 'client_session.sale_id', 'payment.sale_id')
+    .select(['payment.id', 'payment.trainer_id', 'payment.amount', 'payment.amount_refunded'])
+    .where('client_session.id', '=', clientSessionId)
+    .where('payment.is_credit_pack', '=', true)
+    .where('payment.refunded_time', 'is', null)
+    .forUpdate('payment')
+    .execute()
+
+  for (const payment of refunded) {
+    await recordSalePaymentRefund(trx, {
+      paymentId: payment.id,
+      trainerId: payment.trainer_id,
+      amount: new BigNumber(payment.amount).minus(payment.amount_refunded),
+      applicationFeeAmount: new BigNumber(0),
+      // Tax was charged when the credit pack was sold, not on the sessions it pays for.
+      taxAmount: new BigNumber(0),
+      reason: null,
+      stripeRefundId: null,
+      refundsInFull: true,
+    })
+    await syncCreditPackPaymentLedger(trx, payment.id)
+  }
+
+  return refunded.length
+}
+
+/** Records a manual correction to a pack's balance, which may not take the balance below zero. */
+export const adjustCreditPackBalance = async (
+  trx: Transaction<Database>,
+  {
+    trainerId,
+    clientId,
+    saleCreditPackId,
+    credits,
+    note,
+  }: { trainerId: string; clientId: string; saleCreditPackId: string; credits: number; note: string | null }
+) => {
+  const pack = await trx
+    .selectFrom('sale_credit_pack')
+    .innerJoin('sale_product', 'sale_product.id', 'sale_credit_pack.id')
+    .select('sale_credit_pack.id')
+    .where('sale_credit_pack.id', '=', saleCreditPackId)
+    .where('sale_credit_pack.trainer_id', '=', trainerId)
+    .where('sale_product.client_id', '=', clientId)
+    .forUpdate()
+    .executeTakeFirst()
+
+  if (!pack) {
+    throw new CreditPackNotFoundError()
+  }
+
+  const now = new Date()
+  const totals = await fetchPackLedgerTotals(trx, [pack.id], now)
+  if ((totals.get(pack.id) ?? 0) + credits < 0) {
+    throw new InsufficientCreditsError()
+  }
+
+  const entry = await trx
+    .insertInto('credit_ledger_entry')
+    .values({
+      trainer_id: trainerId,
+      client_id: clientId,
+      sale_credit_pack_id: pack.id,
+      entry_type: 'adjustment',
+      credits,
+      occurred_at: now,
+      note,
+    })
+    .returning('id')
+    .executeTakeFirstOrThrow()
+
+  return entry.id
+}
+
+/** Writes off whatever is left on a pack once it has expired. Safe to run more than once. */
+export const expireCreditPack = async (trx: Transaction<Database>, saleCreditPackId: string) => {
+  const pack = await trx
+    .selectFrom('sale_credit_pack')
+    .innerJoin('sale_product', 'sale_product.id', 'sale_credit_pack.id')
+    .select((eb) => [
+      eb.ref('sale_credit_pack.id').as('id'),
+      eb.ref('sale_credit_pack.trainer_id').as('trainerId'),
+      eb.ref('sale_product.client_id').as('clientId'),
+      eb.ref('sale_credit_pack.expires_at').as('expiresAt'),
+    ])
+    .where('sale_credit_pack.id', '=', saleCreditPackId)
+    .forUpdate()
+    .executeTakeFirst()
+
+  if (!pack?.expiresAt || new Date(pack.expiresAt) > new Date()) {
+    return
+  }
+
+  const totals = await fetchPackLedgerTotals(trx, [pack.id], new Date())
+  const remaining = totals.get(pack.id) ?? 0
+  if (remaining <= 0) {
+    return
+  }
+
+  await trx
+    .insertInto('credit_ledger_entry')
+    .values({
+      trainer_id: pack.trainerId,
+      client_id: pack.clientId,
+      sale_credit_pack_id: pack.id,
+      entry_type: 'expiry',
+      credits: -remaining,
+      occurred_at: new Date(pack.expiresAt),
+    })
+    .execute()
+}
+
+/**
+ * Credits remaining on each of a client's packs as of `asOf`. Packs that have expired by then count as empty even
+ * if their expiry hasn't been written to the ledger yet, so future dates can be asked about too.
+ */
+export const fetchClientCreditBalances = async (
+  executor: DbExecutor,
+  trainerId: string,
+  clientId: string,
+  asOf = new Date()
+) => {
+  const packs = await executor
+    .selectFrom('sale_credit_pack')
+    .innerJoin('sale_product', 'sale_product.id', 'sale_credit_pack.id')
+    .select((eb) => [
+      eb.ref('sale_credit_pack.id').as('id'),
+      eb.ref('sale_product.name').as('name'),
+      eb.ref('sale_credit_pack.total_credits').as('totalCredits'),
+      eb.ref('sale_credit_pack.created_at').as('createdAt'),
+      eb.ref('sale_credit_pack.expires_at').as('expiresAt'),
+    ])
+    .where('sale_credit_pack.trainer_id', '=', trainerId)
+    .where('sale_product.client_id', '=', clientId)
+    .where('sale_credit_pack.created_at', '<=', asOf)
+    .orderBy('sale_credit_pack.created_at')
+    .execute()
+
+  const totals = await fetchPackLedgerTotals(
+    executor,
+    packs.map((pack) => pack.id),
+    asOf
+  )
+
+  const balances = packs.map((pack): CreditPackBalance => {
+    const expired = pack.expiresAt !== null && new Date(pack.expiresAt) <= asOf
+    return {
+      saleCreditPackId: pack.id,
+      name: pack.name,
+      totalCredits: pack.totalCredits,
+      purchasedAt: toIsoString(pack.createdAt),
+      expiresAt: pack.expiresAt ? toIsoString(pack.expiresAt) : null,
+      creditsRemaining: expired ? 0 : Math.max(totals.get(pack.id) ?? 0, 0),
+    }
+  })
+
+  return {
+    asOf: asOf.toISOString(),
+    creditsRemaining: balances.reduce((sum, balance) => sum + balance.creditsRemaining, 0),
+    packs: balances,
+  }
+}
+
+export const fetchClientCreditLedger = async (executor: DbExecutor, trainerId: string, clientId: string) => {
+  const rows = await executor
+    .selectFrom('credit_ledger_entry')
+    .select([
+      'id',
+      'sale_credit_pack_id as saleCreditPackId',
+      'entry_type as type',
+      'credits',
+      'occurred_at as occurredAt',
+      'client_session_id as clientSessionId',
+      'payment_id as paymentId',
+      'note',
+    ])
+    .where('trainer_id', '=', trainerId)
+    .where('client_id', '=', clientId)
+    .orderBy('occurred_at')
+    .orderBy('created_at')
+    .execute()
+
+  return rows.flatMap((row): CreditLedgerEntry[] =>
+    isCreditLedgerEntryType(row.type) ? [{ ...row, type: row.type, occurredAt: toIsoString(row.occurredAt) }] : []
+  )
+}
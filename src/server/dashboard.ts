@@ -121,7 +121,7 @@ export async function getDashboardSummary(trainerId: string, userId: string): Pr
 
   const revenueCte = db
     .selectFrom('payment as p')
-    .select((eb) => [eb.ref('p.amount').as('amount'), eb.ref('p.created_at').as('ts')])
+    .select((eb) => [eb('p.amount', '-', eb.ref('p.amount_refunded')).as('amount'), eb.ref('p.created_at').as('ts')])
     .where('p.trainer_id', '=', trainerId)
     .where('p.refunded_time', 'is', null)
     .where((eb) =>
@@ -136,7 +136,10 @@ export async function getDashboardSummary(trainerId: string, userId: string): Pr
       db
         .selectFrom('payment_plan_payment as ppp')
         .innerJoin('payment_plan as pp', 'pp.id', 'ppp.payment_plan_id')
-        .select((eb) => [eb.ref('ppp.amount').as('amount'), eb.ref('ppp.date').as('ts')])
+        .select((eb) => [
+          eb('ppp.amount', '-', eb.ref('ppp.amount_refunded')).as('amount'),
+          eb.ref('ppp.date').as('ts'),
+        ])
         .where('pp.trainer_id', '=', trainerId)
         .where('ppp.status', '=', 'paid')
     )
@@ -0,0 +1,237 @@
+import type { Language } from '@/lib/i18n'
+import type { EmailTemplateContent, EmailTemplateKey } from '@/server/emailTemplates'
+import { APP_NAME } from '@/app/api/_lib/constants'
+
+export type EmailTemplateTranslation = {
+  receivingReason: string
+  defaults: EmailTemplateContent
+}
+
+/** Our default email copy in each language besides English, using the same `{{variable}}` markup. */
+export const emailTemplateTranslations: Record<
+  Exclude<Language, 'en'>,
+  Record<EmailTemplateKey, EmailTemplateTranslation>
+> = {
+  es: {
+    booking_confirmation: {
+      receivingReason: 'reservaste una cita con {{serviceProviderName}}',
+      defaults: {
+        subject: 'Reserva confirmada: {{appointmentName}} el {{appointmentTime}}',
+        heading: 'Tu reserva está confirmada',
+        body: 'Hola, {{clientFirstName}}:\n\nTu reserva de **{{appointmentName}}** con {{serviceProviderName}} está confirmada.\n\n{{appointmentTimeRange}}',
+        buttonText: 'Ver reserva',
+      },
+    },
+    appointment_reminder: {
+      receivingReason: 'tienes una cita con {{serviceProviderName}}',
+      defaults: {
+        subject: 'Recordatorio: {{appointmentName}} el {{appointmentTime}}',
+        heading: 'Recordatorio de cita',
+        body: '**{{appointmentName}}** con {{serviceProviderName}}\n\n{{appointmentTimeRange}}',
+        buttonText: 'Añadir al calendario',
+      },
+    },
+    payment_reminder: {
+      receivingReason: 'tienes un pago vencido con {{serviceProviderName}}',
+      defaults: {
+        subject: 'Recordatorio de pago de {{serviceProviderName}}',
+        heading: 'Recordatorio de pago',
+        body: `Hola:\n\nTe recordamos que tienes {{outstandingPayments}} con {{serviceProviderName}}. Haz clic [aquí]({{dashboardLink}}) para revisarlos.\n\nUn saludo,\nEl equipo de ${APP_NAME}`,
+        buttonText: 'Revisar tus pagos pendientes',
+      },
+    },
+    payment_failed: {
+      receivingReason: 'tienes una suscripción con {{serviceProviderName}}',
+      defaults: {
+        subject: `{{serviceProviderName}} a través de ${APP_NAME}: el pago de la suscripción ha fallado`,
+        heading: 'El pago de la suscripción ha fallado',
+        body: `Hola:\n\nTe escribimos para avisarte de que hemos intentado cobrar un pago de tu suscripción en nombre de {{serviceProviderName}}, pero no se ha podido completar.\n\n**{{failureReason}}**\n\nVolveremos a intentarlo dentro de 24 horas. Si necesitas actualizar los datos de tu tarjeta o quieres resolverlo antes, haz clic [aquí]({{dashboardLink}}) para acceder a tu cuenta.\n\nUn saludo,\n\nEl equipo de ${APP_NAME}`,
+        buttonText: 'Ir al panel',
+      },
+    },
+    payment_request: {
+      receivingReason: '{{serviceProviderName}} te ha solicitado un pago',
+      defaults: {
+        subject: 'Solicitud de pago de {{serviceProviderName}}',
+        heading: 'Solicitud de pago',
+        body: '{{serviceProviderName}} te ha enviado una solicitud de pago. Entra en tu panel para revisarla y completar el pago.',
+        buttonText: 'Ir al panel',
+      },
+    },
+    waitlist_spot_opened: {
+      receivingReason: 'te apuntaste a la lista de espera de {{appointmentName}} con {{serviceProviderName}}',
+      defaults: {
+        subject: 'Se ha liberado una plaza en {{appointmentName}}',
+        heading: 'Se ha liberado una plaza',
+        body: 'Te estamos guardando una plaza en **{{appointmentName}}** el {{appointmentTime}}.\n\nResérvala antes del {{claimExpiresAt}} o se ofrecerá a la siguiente persona de la lista de espera.',
+        buttonText: 'Reservar mi plaza',
+      },
+    },
+    membership_request: {
+      receivingReason: '{{serviceProviderName}} te ha invitado a una membresía',
+      defaults: {
+        subject: 'Solicitud de membresía de {{serviceProviderName}}',
+        heading: 'Solicitud de membresía',
+        body: '{{serviceProviderName}} ha creado para ti la membresía **{{membershipName}}**, que incluye {{sessionAllowance}} {{cadence}}.\n\nRevísala y acéptala en tu panel para activarla.',
+        buttonText: 'Ir al panel',
+      },
+    },
+    receipt: {
+      receivingReason: 'realizaste un pago a {{serviceProviderName}}',
+      defaults: {
+        subject: 'Tu recibo de {{serviceProviderName}}',
+        heading: 'Gracias por tu pago',
+        body: 'Hola, {{clientFirstName}}:\n\nHemos recibido tu pago de **{{amountPaid}}** a {{serviceProviderName}}. Adjuntamos tu recibo {{receiptNumber}}.',
+        buttonText: 'Ir al panel',
+      },
+    },
+  },
+  fr: {
+    booking_confirmation: {
+      receivingReason: 'vous avez réservé un rendez-vous avec {{serviceProviderName}}',
+      defaults: {
+        subject: 'Réservation confirmée : {{appointmentName}} le {{appointmentTime}}',
+        heading: 'Votre réservation est confirmée',
+        body: 'Bonjour {{clientFirstName}},\n\nVotre réservation pour **{{appointmentName}}** avec {{serviceProviderName}} est confirmée.\n\n{{appointmentTimeRange}}',
+        buttonText: 'Voir la réservation',
+      },
+    },
+    appointment_reminder: {
+      receivingReason: 'vous avez un rendez-vous avec {{serviceProviderName}}',
+      defaults: {
+        subject: 'Rappel : {{appointmentName}} le {{appointmentTime}}',
+        heading: 'Rappel de rendez-vous',
+        body: '**{{appointmentName}}** avec {{serviceProviderName}}\n\n{{appointmentTimeRange}}',
+        buttonText: 'Ajouter au calendrier',
+      },
+    },
+    payment_reminder: {
+      receivingReason: 'vous avez un paiement en retard auprès de {{serviceProviderName}}',
+      defaults: {
+        subject: 'Rappel de paiement pour {{serviceProviderName}}',
+        heading: 'Rappel de paiement',
+        body: `Bonjour,\n\nPour rappel, vous avez {{outstandingPayments}} auprès de {{serviceProviderName}}. Cliquez [ici]({{dashboardLink}}) pour les consulter.\n\nCordialement,\nL’équipe ${APP_NAME}`,
+        buttonText: 'Voir vos paiements en attente',
+      },
+    },
+    payment_failed: {
+      receivingReason: 'vous avez un abonnement auprès de {{serviceProviderName}}',
+      defaults: {
+        subject: `{{serviceProviderName}} via ${APP_NAME} : échec du paiement de l’abonnement`,
+        heading: 'Échec du paiement de l’abonnement',
+        body: `Bonjour,\n\nNous avons tenté de prélever un paiement d’abonnement sur votre compte pour le compte de {{serviceProviderName}}, mais il a malheureusement échoué.\n\n**{{failureReason}}**\n\nNous réessaierons dans 24 heures. Si vous devez mettre à jour votre carte ou souhaitez régler cela avant, cliquez [ici]({{dashboardLink}}) pour accéder à votre compte.\n\nCordialement,\n\nL’équipe ${APP_NAME}`,
+        buttonText: 'Accéder à l’espace client',
+      },
+    },
+    payment_request: {
+      receivingReason: '{{serviceProviderName}} vous a demandé un paiement',
+      defaults: {
+        subject: 'Demande de paiement de {{serviceProviderName}}',
+        heading: 'Demande de paiement',
+        body: '{{serviceProviderName}} vous a envoyé une demande de paiement. Rendez-vous dans votre espace client pour la consulter et effectuer le paiement.',
+        buttonText: 'Accéder à l’espace client',
+      },
+    },
+    waitlist_spot_opened: {
+      receivingReason: 'vous êtes sur la liste d’attente de {{appointmentName}} avec {{serviceProviderName}}',
+      defaults: {
+        subject: 'Une place s’est libérée pour {{appointmentName}}',
+        heading: 'Une place s’est libérée',
+        body: 'Une place vous est réservée pour **{{appointmentName}}** le {{appointmentTime}}.\n\nConfirmez-la avant le {{claimExpiresAt}}, sinon elle sera proposée à la personne suivante sur la liste d’attente.',
+        buttonText: 'Réserver ma place',
+      },
+    },
+    membership_request: {
+      receivingReason: '{{serviceProviderName}} vous a proposé une formule',
+      defaults: {
+        subject: 'Proposition de formule de {{serviceProviderName}}',
+        heading: 'Proposition de formule',
+        body: '{{serviceProviderName}} a créé pour vous la formule **{{membershipName}}**, qui comprend {{sessionAllowance}} {{cadence}}.\n\nConsultez-la et acceptez-la dans votre espace client pour l’activer.',
+        buttonText: 'Accéder à l’espace client',
+      },
+    },
+    receipt: {
+      receivingReason: 'vous avez effectué un paiement à {{serviceProviderName}}',
+      defaults: {
+        subject: 'Votre reçu de {{serviceProviderName}}',
+        heading: 'Merci pour votre paiement',
+        body: 'Bonjour {{clientFirstName}},\n\nNous avons bien reçu votre paiement de **{{amountPaid}}** à {{serviceProviderName}}. Votre reçu {{receiptNumber}} est joint à cet e-mail.',
+        buttonText: 'Accéder à l’espace client',
+      },
+    },
+  },
+  de: {
+    booking_confirmation: {
+      receivingReason: 'Sie einen Termin bei {{serviceProviderName}} gebucht haben',
+      defaults: {
+        subject: 'Buchung bestätigt: {{appointmentName}} am {{appointmentTime}}',
+        heading: 'Ihre Buchung ist bestätigt',
+        body: 'Hallo {{clientFirstName}},\n\nIhre Buchung für **{{appointmentName}}** bei {{serviceProviderName}} ist bestätigt.\n\n{{appointmentTimeRange}}',
+        buttonText: 'Buchung ansehen',
+      },
+    },
+    appointment_reminder: {
+      receivingReason: 'Sie einen Termin bei {{serviceProviderName}} haben',
+      defaults: {
+        subject: 'Erinnerung: {{appointmentName}} am {{appointmentTime}}',
+        heading: 'Terminerinnerung',
+        body: '**{{appointmentName}}** bei {{serviceProviderName}}\n\n{{appointmentTimeRange}}',
+        buttonText: 'Zum Kalender hinzufügen',
+      },
+    },
+    payment_reminder: {
+      receivingReason: 'Sie eine überfällige Zahlung bei {{serviceProviderName}} haben',
+      defaults: {
+        subject: 'Zahlungserinnerung von {{serviceProviderName}}',
+        heading: 'Zahlungserinnerung',
+        body: `Hallo,\n\nwir möchten Sie daran erinnern, dass Sie {{outstandingPayments}} bei {{serviceProviderName}} haben. Klicken Sie [hier]({{dashboardLink}}), um sie jetzt anzusehen.\n\nViele Grüße\nIhr ${APP_NAME}-Team`,
+        buttonText: 'Offene Zahlungen ansehen',
+      },
+    },
+    payment_failed: {
+      receivingReason: 'Sie ein Abonnement bei {{serviceProviderName}} haben',
+      defaults: {
+        subject: `{{serviceProviderName}} über ${APP_NAME}: Abozahlung fehlgeschlagen`,
+        heading: 'Abozahlung fehlgeschlagen',
+        body: `Hallo,\n\nwir haben im Auftrag von {{serviceProviderName}} versucht, eine Abozahlung von Ihrem Konto abzubuchen, leider ohne Erfolg.\n\n**{{failureReason}}**\n\nWir versuchen es in 24 Stunden erneut. Wenn Sie Ihre Kartendaten aktualisieren oder das Problem vorher lösen möchten, klicken Sie [hier]({{dashboardLink}}), um Ihr Konto aufzurufen.\n\nViele Grüße\n\nIhr ${APP_NAME}-Team`,
+        buttonText: 'Zum Portal',
+      },
+    },
+    payment_request: {
+      receivingReason: '{{serviceProviderName}} eine Zahlung von Ihnen angefordert hat',
+      defaults: {
+        subject: 'Zahlungsanforderung von {{serviceProviderName}}',
+        heading: 'Zahlungsanforderung',
+        body: '{{serviceProviderName}} hat Ihnen eine Zahlungsanforderung geschickt. Bitte öffnen Sie Ihr Portal, um sie zu prüfen und zu bezahlen.',
+        buttonText: 'Zum Portal',
+      },
+    },
+    waitlist_spot_opened: {
+      receivingReason: 'Sie auf der Warteliste für {{appointmentName}} bei {{serviceProviderName}} stehen',
+      defaults: {
+        subject: 'Ein Platz in {{appointmentName}} ist frei geworden',
+        heading: 'Ein Platz ist frei geworden',
+        body: 'Für Sie ist ein Platz in **{{appointmentName}}** am {{appointmentTime}} reserviert.\n\nSichern Sie ihn sich bis {{claimExpiresAt}}, sonst wird er der nächsten Person auf der Warteliste angeboten.',
+        buttonText: 'Platz sichern',
+      },
+    },
+    membership_request: {
+      receivingReason: '{{serviceProviderName}} Sie zu einer Mitgliedschaft eingeladen hat',
+      defaults: {
+        subject: 'Mitgliedschaftsanfrage von {{serviceProviderName}}',
+        heading: 'Mitgliedschaftsanfrage',
+        body: '{{serviceProviderName}} hat die Mitgliedschaft **{{membershipName}}** für Sie eingerichtet. Sie umfasst {{sessionAllowance}} {{cadence}}.\n\nPrüfen und akzeptieren Sie sie in Ihrem Portal, um sie zu aktivieren.',
+        buttonText: 'Zum Portal',
+      },
+    },
+    receipt: {
+      receivingReason: 'Sie eine Zahlung an {{serviceProviderName}} geleistet haben',
+      defaults: {
+        subject: 'Ihre Quittung von {{serviceProviderName}}',
+        heading: 'Vielen Dank für Ihre Zahlung',
+        body: 'Hallo {{clientFirstName}},\n\nwir haben Ihre Zahlung über **{{amountPaid}}** an {{serviceProviderName}} erhalten. Ihre Quittung {{receiptNumber}} finden Sie im Anhang.',
+        buttonText: 'Zum Portal',
+      },
+    },
+  },
+}
@@ -0,0 +1,612 @@
+import type { Kysely, Transaction } from 'kysely'
+import type { Database } from '@/lib/db'
+import { APP_NAME } from '@/app/api/_lib/constants'
+import { defaultLocale, languageForLocale } from '@/lib/i18n'
+import { emailTemplateTranslations } from '@/server/emailTemplateTranslations'
+import { ctaEmail } from '@/server/workflow/templates/ctaEmail'
+import { joinIgnoreEmpty } from '@/server/workflow/utils'
+
+type DbExecutor = Kysely<Database> | Transaction<Database>
+
+export type EmailTemplateVariable = {
+  description: string
+  /** Shown in previews. */
+  example: string
+  /** A URL. Link variables can only be used in the body, either on their own or as `[link text]({{name}})`. */
+  link?: boolean
+}
+
+export type EmailTemplateContent = {
+  subject: string
+  heading: string
+  body: string
+  buttonText: string
+}
+
+type EmailTemplateDefinition = {
+  name: string
+  description: string
+  variables: Record<string, EmailTemplateVariable>
+  /** Why the client is getting the email, shown in the footer. Not editable. */
+  receivingReason: string
+  defaults: EmailTemplateContent
+}
+
+const serviceProviderName = {
+  description: 'Your business name',
+  example: 'Northside Strength',
+}
+
+const clientFirstName = {
+  description: "The client's first name",
+  example: 'Sam',
+}
+
+const dashboardLink = {
+  description: "A link to the client's dashboard",
+  example: 'https://example.com/client-dashboard',
+  link: true,
+}
+
+/**
+ * The emails trainers can reword, with the copy we send when they haven't. That copy is translated in
+ * `emailTemplateTranslations`, and clients get it in their own language. Bodies are plain text: a blank line starts
+ * a new paragraph, `**text**` is bold and `[text]({{link}})` links some text. Variables are written `{{name}}` and
+ * their values are escaped, so neither trainers nor clients can inject markup.
+ */
+export const emailTemplates = {
+  booking_confirmation: {
+    name: 'Booking confirmation',
+    description: 'Sent to a client when they book online.',
+    variables: {
+      clientFirstName,
+      serviceProviderName,
+      appointmentName: { description: 'The service booked', example: 'Personal Training' },
+      appointmentTime: { description: 'When the appointment starts', example: 'Mon, Nov 3, 2026, 9:00 AM AEDT' },
+      appointmentTimeRange: {
+        description: 'When the appointment starts and ends',
+        example: 'Mon, Nov 3, 2026, 9:00 – 10:00 AM AEDT',
+      },
+      bookingLink: {
+        description: 'A link to view or cancel the booking',
+        example: 'https://example.com/book/bookings/123',
+        link: true,
+      },
+    },
+    receivingReason: 'you booked an appointment with {{serviceProviderName}}',
+    defaults: {
+      subject: 'Booking confirmed: {{appointmentName}} on {{appointmentTime}}',
+      heading: "You're booked in",
+      body: 'Hi {{clientFirstName}},\n\nYour booking for **{{appointmentName}}** with {{serviceProviderName}} is confirmed.\n\n{{appointmentTimeRange}}',
+      buttonText: 'View booking',
+    },
+  },
+  appointment_reminder: {
+    name: 'Appointment reminder',
+    description: 'Sent to clients before an appointment when email reminders are on.',
+    variables: {
+      clientFirstName,
+      serviceProviderName,
+      appointmentName: { description: 'The appointment', example: 'Personal Training' },
+      appointmentTime: { description: 'When the appointment starts', example: 'Mon, Nov 3, 2026, 9:00 AM AEDT' },
+      appointmentTimeRange: {
+        description: 'When the appointment starts and ends',
+        example: 'Mon, Nov 3, 2026, 9:00 – 10:00 AM AEDT',
+      },
+    },
+    receivingReason: 'you have an appointment with {{serviceProviderName}}',
+    defaults: {
+      subject: 'Reminder: {{appointmentName}} on {{appointmentTime}}',
+      heading: 'Appointment Reminder',
+      body: '**{{appointmentName}}** with {{serviceProviderName}}\n\n{{appointmentTimeRange}}',
+      buttonText: 'Add to calendar',
+    },
+  },
+  payment_reminder: {
+    name: 'Payment reminder',
+    description: 'Sent to clients with overdue payments.',
+    variables: {
+      clientFirstName,
+      serviceProviderName,
+      outstandingPayments: {
+        description: '"an outstanding payment" or "outstanding payments"',
+        example: 'outstanding payments',
+      },
+      dashboardLink,
+    },
+    receivingReason: 'you have an overdue payment for {{serviceProviderName}}',
+    defaults: {
+      subject: 'Payment Reminder for {{serviceProviderName}}',
+      heading: 'Payment Reminder',
+      body: `Hi there,\n\nJust a reminder that you have {{outstandingPayments}} due for {{serviceProviderName}}. Click [here]({{dashboardLink}}) to review now.\n\nBest regards,\nThe ${APP_NAME} Team`,
+      buttonText: 'Review your outstanding payments',
+    },
+  },
+  payment_failed: {
+    name: 'Subscription payment failed',
+    description: "Sent to a client when a subscription payment can't be taken.",
+    variables: {
+      clientFirstName,
+      serviceProviderName,
+      subscriptionName: { description: 'The subscription', example: 'Weekly sessions' },
+      failureReason: { description: 'Why the payment failed, when we know', example: 'Your card was declined.' },
+      dashboardLink,
+    },
+    receivingReason: 'you have a subscription with {{serviceProviderName}}',
+    defaults: {
+      subject: `{{serviceProviderName}} via ${APP_NAME}: Subscription Payment Failed`,
+      heading: 'Subscription Payment Failed',
+      body: `Hi,\n\nJust a quick email to let you know we tried to deduct a subscription payment out of your account on behalf of {{serviceProviderName}} but unfortunately it failed.\n\n**{{failureReason}}**\n\nWe’ll try again in another 24 hours. However if you need to update your card details or wish to resolve this before we next try, click [here]({{dashboardLink}}) to access your account.\n\nBest Regards\n\nThe ${APP_NAME} Team`,
+      buttonText: 'Go to Dashboard',
+    },
+  },
+  payment_request: {
+    name: 'Payment request',
+    description: 'Sent when you request payment for a sale.',
+    variables: { clientFirstName, serviceProviderName, dashboardLink },
+    receivingReason: '{{serviceProviderName}} requested a payment from you',
+    defaults: {
+      subject: 'Payment Request from {{serviceProviderName}}',
+      heading: 'Payment Request',
+      body: '{{serviceProviderName}} has sent you a payment request. Please visit your dashboard to review and complete the payment.',
+      buttonText: 'Go to Dashboard',
+    },
+  },
+  waitlist_spot_opened: {
+    name: 'Waitlist spot opened',
+    description: 'Sent to the next client on a waitlist when a spot opens up.',
+    variables: {
+      clientFirstName,
+      serviceProviderName,
+      appointmentName: { description: 'The appointment', example: 'Saturday Bootcamp' },
+      appointmentTime: { description: 'When the appointment starts', example: 'Sat, Nov 8, 2026, 7:00 AM AEDT' },
+      claimExpiresAt: {
+        description: 'When the held spot is offered to the next person',
+        example: 'Thu, Nov 6, 2026, 7:00 PM AEDT',
+      },
+    },
+    receivingReason: 'you joined the waitlist for {{appointmentName}} with {{serviceProviderName}}',
+    defaults: {
+      subject: 'A spot opened up in {{appointmentName}}',
+      heading: 'A spot opened up',
+      body: 'A spot is being held for you in **{{appointmentName}}** on {{appointmentTime}}.\n\nClaim it before {{claimExpiresAt}} or it will be offered to the next person on the waitlist.',
+      buttonText: 'Claim my spot',
+    },
+  },
+  membership_request: {
+    name: 'Membership request',
+    description: 'Sent when you set up a membership for a client.',
+    variables: {
+      clientFirstName,
+      serviceProviderName,
+      membershipName: { description: 'The membership', example: 'Unlimited Classes' },
+      sessionAllowance: { description: 'Sessions included each period', example: '2 sessions' },
+      cadence: { description: 'How often the allowance renews', example: 'every week' },
+    },
+    receivingReason: '{{serviceProviderName}} invited you to a membership',
+    defaults: {
+      subject: 'Membership Request from {{serviceProviderName}}',
+      heading: 'Membership Request',
+      body: '{{serviceProviderName}} has set up the **{{membershipName}}** membership for you, which includes {{sessionAllowance}} {{cadence}}.\n\nReview and accept it in your dashboard to activate it.',
+      buttonText: 'Go to Dashboard',
+    },
+  },
+  receipt: {
+    name: 'Receipt',
+    description: 'Sent with a PDF receipt when a card payment goes through and receipts are on.',
+    variables: {
+      clientFirstName,
+      serviceProviderName,
+      amountPaid: { description: 'The amount paid', example: '$120.00' },
+      receiptNumber: { description: 'The number on the attached receipt', example: 'INV-00042-1' },
+      dashboardLink,
+    },
+    receivingReason: 'you made a payment to {{serviceProviderName}}',
+    defaults: {
+      subject: 'Your receipt from {{serviceProviderName}}',
+      heading: 'Thanks for your payment',
+      body: 'Hi {{clientFirstName}},\n\nWe received your payment of **{{amountPaid}}** to {{serviceProviderName}}. Your receipt {{receiptNumber}} is attached.',
+      buttonText: 'Go to Dashboard',
+    },
+  },
+} as const satisfies Record<string, EmailTemplateDefinition>
+
+export type EmailTemplateKey = keyof typeof emailTemplates
+
+export type EmailTemplateVariables<TKey extends EmailTemplateKey> = Record<
+  keyof (typeof emailTemplates)[TKey]['variables'],
+  string | URL | null | undefined
+>
+
+export const emailTemplateKeys = Object.keys(emailTemplates) as EmailTemplateKey[]
+
+export const isEmailTemplateKey = (value: string): value is EmailTemplateKey => Object.hasOwn(emailTemplates, value)
+
+const contentFields = ['subject', 'heading', 'body', 'buttonText'] as const
+
+export class EmailTemplateValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'EmailTemplateValidationError'
+  }
+}
+
+export class EmailTemplateVersionNotFoundError extends Error {
+  constructor() {
+    super('Email template version not found')
+    this.name = 'EmailTemplateVersionNotFoundError'
+  }
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replaceAll(/&/g, '&amp;')
+    .replaceAll(/</g, '&lt;')
+    .replaceAll(/>/g, '&gt;')
+    .replaceAll(/"/g, '&quot;')
+    .replaceAll(/'/g, '&#39;')
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g
+const BODY_TOKEN_PATTERN = /\[([^\]\n]+)\]\(\{\{\s*(\w+)\s*\}\}\)|\{\{\s*(\w+)\s*\}\}|\*\*/g
+
+const getDefinition = (key: EmailTemplateKey): EmailTemplateDefinition => emailTemplates[key]
+
+/** The default copy and footer reason in the language of `locale`, falling back to English. */
+const getTranslation = (key: EmailTemplateKey, locale: string) => {
+  const language = languageForLocale(locale) ?? 'en'
+  return language === 'en' ? getDefinition(key) : emailTemplateTranslations[language][key]
+}
+
+/** Checks a trainer's wording only uses the template's variables, and links only where they can be links. */
+export const validateEmailTemplateContent = (key: EmailTemplateKey, content: Partial<EmailTemplateContent>) =>
+  validateEmailContent(getDefinition(key).variables, content)
+
+/** Like `validateEmailTemplateContent`, for wording that isn't tied to one of the built-in templates. */
+export const validateEmailContent = (
+  variables: Record<string, EmailTemplateVariable>,
+  content: Partial<EmailTemplateContent>
+) => {
+  for (const field of contentFields) {
+    const text = content[field]
+    if (!text) {
+      continue
+    }
+
+    for (const [, name = ''] of text.matchAll(VARIABLE_PATTERN)) {
+      const variable = variables[name]
+      if (!variable) {
+        throw new EmailTemplateValidationError(`{{${name}}} isn't available in this template.`)
+      }
+      if (variable.link && field !== 'body') {
+        throw new EmailTemplateValidationError(`{{${name}}} is a link and can only be used in the body.`)
+      }
+    }
+  }
+
+  for (const [, , name = ''] of (content.body ?? '').matchAll(BODY_TOKEN_PATTERN)) {
+    if (name && !variables[name]?.link) {
+      throw new EmailTemplateValidationError(`{{${name}}} isn't a link, so it can't be used as [text]({{${name}}}).`)
+    }
+  }
+}
+
+const stringifyValue = (value: string | URL | null | undefined) =>
+  value === null || value === undefined ? '' : String(value)
+
+const renderText = (text: string, values: Record<string, string>) =>
+  text.replaceAll(VARIABLE_PATTERN, (_match, name: string) => values[name] ?? '').trim()
+
+const toValues = (variables: Record<string, string | URL | null | undefined>): Record<string, string> =>
+  Object.fromEntries(Object.entries(variables).map(([name, value]) => [name, stringifyValue(value)]))
+
+const renderBody = (body: string, values: Record<string, string>, variables: EmailTemplateDefinition['variables']) =>
+  body
+    .replaceAll('\r\n', '\n')
+    .split(/\n\s*\n/)
+    .map((paragraph) => renderParagraph(paragraph.trim(), values, variables))
+    .filter((paragraph) => paragraph.length > 0)
+    .join('\n')
+
+const renderParagraph = (
+  paragraph: string,
+  values: Record<string, string>,
+  variables: EmailTemplateDefinition['variables']
+) => {
+  let html = ''
+  let hasContent = false
+  let isBold = false
+  let lastIndex = 0
+
+  const appendLiteral = (literal: string) => {
+    hasContent ||= literal.trim().length > 0
+    html += escapeHtml(literal).replaceAll('\n', '<br/>')
+  }
+
+  for (const match of paragraph.matchAll(BODY_TOKEN_PATTERN)) {
+    appendLiteral(paragraph.slice(lastIndex, match.index))
+    lastIndex = match.index + match[0].length
+
+    const [token, linkText, linkName, name] = match
+    if (token === '**') {
+      html += isBold ? '</strong>' : '<strong>'
+      isBold = !isBold
+    } else if (linkText !== undefined && linkName !== undefined) {
+      const href = values[linkName] ?? ''
+      hasContent = true
+      html += href ? `<a href="${escapeHtml(href)}">${escapeHtml(linkText)}</a>` : escapeHtml(linkText)
+    } else if (name !== undefined) {
+      const value = values[name] ?? ''
+      hasContent ||= value.trim().length > 0
+      html +=
+        variables[name]?.link && value ? `<a href="${escapeHtml(value)}">${escapeHtml(value)}</a>` : escapeHtml(value)
+    }
+  }
+
+  appendLiteral(paragraph.slice(lastIndex))
+  if (isBold) {
+    html += '</strong>'
+  }
+
+  return hasContent ? `<p>${html.trim()}</p>` : ''
+}
+
+/**
+ * Fills in a template. Missing values render as nothing, and a paragraph left with nothing but its formatting is
+ * dropped, e.g. a failure reason we don't have.
+ */
+export const renderEmailTemplate = <TKey extends EmailTemplateKey>(
+  key: TKey,
+  content: EmailTemplateContent,
+  variables: Partial<EmailTemplateVariables<TKey>>,
+  locale = defaultLocale
+) => {
+  const definition = getDefinition(key)
+  const values = toValues(variables)
+
+  return {
+    subject: renderText(content.subject, values),
+    heading: renderText(content.heading, values),
+    bodyHtml: renderBody(content.body, values, definition.variables),
+    buttonText: renderText(content.buttonText, values),
+    receivingReason: renderText(getTranslation(key, locale).receivingReason, values),
+  }
+}
+
+/** Fills in wording that isn't one of the built-in templates, with the same formatting rules. */
+export const renderEmailContent = (
+  content: Pick<EmailTemplateContent, 'subject' | 'heading' | 'body'>,
+  variables: Record<string, EmailTemplateVariable>,
+  values: Record<string, string | URL | null | undefined>
+) => {
+  const stringValues = toValues(values)
+
+  return {
+    subject: renderText(content.subject, stringValues),
+    heading: renderText(content.heading, stringValues),
+    bodyHtml: renderBody(content.body, stringValues, variables),
+  }
+}
+
+/** Fills in `{{name}}` variables in plain text, such as a text message. */
+export const renderTemplateText = (text: string, values: Record<string, string | URL | null | undefined>) =>
+  renderText(text, toValues(values))
+
+const versionColumns = [
+  'id',
+  'version',
+  'subject',
+  'heading',
+  'body',
+  'button_text as buttonText',
+  'created_at as createdAt',
+  'created_by_user_id as createdByUserId',
+] as const
+
+type VersionOverrides = { [Field in keyof EmailTemplateContent]: string | null }
+
+const withDefaults = (
+  key: EmailTemplateKey,
+  overrides: VersionOverrides | undefined,
+  locale = defaultLocale
+): EmailTemplateContent => {
+  const { defaults } = getTranslation(key, locale)
+  return {
+    subject: overrides?.subject ?? defaults.subject,
+    heading: overrides?.heading ?? defaults.heading,
+    body: overrides?.body ?? defaults.body,
+    buttonText: overrides?.buttonText ?? defaults.buttonText,
+  }
+}
+
+/**
+ * The wording a trainer's emails currently use, and whether any of it differs from the default. Fields the trainer
+ * hasn't reworded are in the language of `locale`; their own wording is used as written.
+ */
+export const getEmailTemplate = async (
+  executor: DbExecutor,
+  trainerId: string,
+  key: EmailTemplateKey,
+  locale = defaultLocale
+) => {
+  const latest = await executor
+    .selectFrom('email_template_version')
+    .select(versionColumns)
+    .where('trainer_id', '=', trainerId)
+    .where('template_key', '=', key)
+    .orderBy('version', 'desc')
+    .limit(1)
+    .executeTakeFirst()
+
+  return {
+    content: withDefaults(key, latest, locale),
+    version: latest?.version ?? null,
+    isCustomized: contentFields.some((field) => Boolean(latest?.[field])),
+  }
+}
+
+export const listEmailTemplateVersions = (executor: DbExecutor, trainerId: string, key: EmailTemplateKey) =>
+  executor
+    .selectFrom('email_template_version')
+    .select(versionColumns)
+    .where('trainer_id', '=', trainerId)
+    .where('template_key', '=', key)
+    .orderBy('version', 'desc')
+    .execute()
+    .then((rows) => rows.map((row) => ({ ...row, content: withDefaults(key, row) })))
+
+/** Renders a template with the trainer's current wording, for a client reading `locale`. */
+export const renderTrainerEmailTemplate = async <TKey extends EmailTemplateKey>(
+  executor: DbExecutor,
+  trainerId: string,
+  key: TKey,
+  variables: Partial<EmailTemplateVariables<TKey>>,
+  locale = defaultLocale
+) => {
+  const { content } = await getEmailTemplate(executor, trainerId, key, locale)
+  return renderEmailTemplate(key, content, variables, locale)
+}
+
+/**
+ * Saves a trainer's wording as their newest version. Fields left out, or the same as the default, are stored as null
+ * so they keep following the default copy.
+ */
+export const saveEmailTemplateVersion = async (
+  trx: Transaction<Database>,
+  {
+    trainerId,
+    key,
+    content,
+    userId,
+  }: { trainerId: string; key: EmailTemplateKey; content: Partial<EmailTemplateContent>; userId: string | null }
+) => {
+  validateEmailTemplateContent(key, content)
+
+  const { defaults } = getDefinition(key)
+  const override = (field: keyof EmailTemplateContent) => {
+    const value = content[field]?.trim()
+    return value && value !== defaults[field] ? value : null
+  }
+
+  const latest = await trx
+    .selectFrom('email_template_version')
+    .select('version')
+    .where('trainer_id', '=', trainerId)
+    .where('template_key', '=', key)
+    .orderBy('version', 'desc')
+    .limit(1)
+    .forUpdate()
+    .executeTakeFirst()
+
+  return trx
+    .insertInto('email_template_version')
+    .values({
+      trainer_id: trainerId,
+      template_key: key,
+      version: (latest?.version ?? 0) + 1,
+      subject: override('subject'),
+      heading: override('heading'),
+      body: override('body'),
+      button_text: override('buttonText'),
+      created_by_user_id: userId,
+    })
+    .returning(versionColumns)
+    .executeTakeFirstOrThrow()
+    .then((row) => ({ ...row, content: withDefaults(key, row) }))
+}
+
+/** Makes an earlier version current again by saving a copy of it as the newest version. */
+export const restoreEmailTemplateVersion = async (
+  trx: Transaction<Database>,
+  {
+    trainerId,
+    key,
+    version,
+    userId,
+  }: { trainerId: string; key: EmailTemplateKey; version: number; userId: string | null }
+) => {
+  const previous = await trx
+    .selectFrom('email_template_version')
+    .select(['subject', 'heading', 'body', 'button_text as buttonText'])
+    .where('trainer_id', '=', trainerId)
+    .where('template_key', '=', key)
+    .where('version', '=', version)
+    .executeTakeFirst()
+
+  if (!previous) {
+    throw new EmailTemplateVersionNotFoundError()
+  }
+
+  return saveEmailTemplateVersion(trx, {
+    trainerId,
+    key,
+    userId,
+    content: {
+      subject: previous.subject ?? undefined,
+      heading: previous.heading ?? undefined,
+      body: previous.body ?? undefined,
+      buttonText: previous.buttonText ?? undefined,
+    },
+  })
+}
+
+/**
+ * Renders an email the way a client would see it, with the trainer's branding and example values. Previews `content`
+ * when given, so wording can be checked before it's saved, and the current wording otherwise.
+ */
+export const previewEmailTemplate = async (
+  executor: DbExecutor,
+  trainerId: string,
+  key: EmailTemplateKey,
+  content?: Partial<EmailTemplateContent>
+) => {
+  if (content) {
+    validateEmailTemplateContent(key, content)
+  }
+
+  const [current, trainer] = await Promise.all([
+    getEmailTemplate(executor, trainerId, key),
+    executor
+      .selectFrom('trainer')
+      .select((eb) => [
+        eb.ref('online_bookings_business_name').as('onlineBookingsBusinessName'),
+        eb.ref('business_name').as('businessName'),
+        eb.ref('first_name').as('firstName'),
+        eb.ref('last_name').as('lastName'),
+        eb.ref('brand_color').as('brandColor'),
+        eb.ref('business_logo_url').as('businessLogoUrl'),
+      ])
+      .where('id', '=', trainerId)
+      .executeTakeFirstOrThrow(),
+  ])
+
+  const definition = getDefinition(key)
+  const name =
+    trainer.onlineBookingsBusinessName ??
+    trainer.businessName ??
+    (joinIgnoreEmpty(trainer.firstName, trainer.lastName) || APP_NAME)
+  const examples = Object.fromEntries(
+    Object.entries(definition.variables).map(([variable, { example }]) => [variable, example])
+  )
+  const rendered = renderEmailTemplate(
+    key,
+    {
+      subject: content?.subject?.trim() || current.content.subject,
+      heading: content?.heading?.trim() || current.content.heading,
+      body: content?.body?.trim() || current.content.body,
+      buttonText: content?.buttonText?.trim() || current.content.buttonText,
+    },
+    { ...examples, serviceProviderName: name }
+  )
+
+  return {
+    subject: rendered.subject,
+    html: ctaEmail({
+      receivingReason: rendered.receivingReason,
+      brandColor: trainer.brandColor ?? undefined,
+      logo: trainer.businessLogoUrl ? { url: trainer.businessLogoUrl, alt: name } : undefined,
+      bodyHeading: rendered.heading,
+      bodyHtml: rendered.bodyHtml,
+      button: { text: rendered.buttonText, link: new URL(process.env.BASE_URL ?? 'http://localhost:3001') },
+    }),
+  }
+}
@@ -0,0 +1,277 @@
+import type { Transaction } from 'kysely'
+import { sql } from 'kysely'
+import { parsePhoneNumberFromString } from 'libphonenumber-js/min'
+import type { Database } from '@/lib/db'
+import { refundClientSessionCredits } from '@/server/creditLedger'
+import { clientMobileNumberToE164, liftSmsOptOut, suppressAddress } from '@/server/messageSuppressions'
+import { promoteWaitlistedClients } from '@/server/sessionWaitlist'
+import { enqueueWorkflowTask } from '@/server/workflow/outbox'
+import { joinIgnoreEmpty } from '@/server/workflow/utils'
+
+export type InboundSmsAction =
+  | 'confirmed'
+  | 'cancelled'
+  | 'cancel_not_allowed'
+  | 'opted_out'
+  | 'opted_in'
+  | 'forwarded'
+  | 'unmatched'
+
+export type InboundSms = {
+  provider: string
+  providerMessageId: string
+  from: string
+  to: string
+  body: string
+}
+
+type Keyword = 'confirm' | 'cancel' | 'stop' | 'start'
+
+const keywords: Record<string, Keyword> = {
+  C: 'confirm',
+  CONFIRM: 'confirm',
+  Y: 'confirm',
+  YES: 'confirm',
+  CANCEL: 'cancel',
+  STOP: 'stop',
+  STOPALL: 'stop',
+  UNSUBSCRIBE: 'stop',
+  END: 'stop',
+  QUIT: 'stop',
+  START: 'start',
+  UNSTOP: 'start',
+}
+
+/** Client session states a reply of C/CONFIRM confirms. */
+const confirmableStates = ['invited', 'maybe', 'accepted'] as const
+
+/** Client session states a client can cancel themselves, matching online booking cancellations. */
+const cancellableStates = ['accepted', 'confirmed', 'maybe'] as const
+
+/** Only whole-message keywords count, so "Can't make it, cancel please" reaches the trainer as a message. */
+const parseKeyword = (body: string): Keyword | null => {
+  const normalized = body
+    .trim()
+    .toUpperCase()
+    .replaceAll(/[^A-Z]/g, '')
+  return keywords[normalized] ?? null
+}
+
+/**
+ * Finds who sent a text. Reminders are the texts clients reply to, so the most recent message we sent to the number
+ * decides the trainer and client; otherwise it falls back to a client whose mobile number, read in their trainer's
+ * country, is the same number.
+ */
+const matchSender = async (trx: Transaction<Database>, from: string) => {
+  const lastSent = await trx
+    .selectFrom('sms')
+    .innerJoin('client', (join) =>
+      join.onRef('client.id', '=', 'sms.client_id').onRef('client.trainer_id', '=', 'sms.trainer_id')
+    )
+    .select((eb) => [eb.ref('sms.trainer_id').as('trainerId'), eb.ref('sms.client_id').as('clientId')])
+    .where('sms.to_number', '=', from)
+    .orderBy('sms.created_at', 'desc')
+    .limit(1)
+    .executeTakeFirst()
+
+  if (lastSent?.trainerId && lastSent.clientId) {
+    return { trainerId: lastSent.trainerId, clientId: lastSent.clientId }
+  }
+
+  const nationalNumber = parsePhoneNumberFromString(from)?.nationalNumber
+  if (!nationalNumber) {
+    return null
+  }
+
+  // Stored numbers are free-form, so narrow to those ending in the same digits and compare them in E.164.
+  const candidates = await trx
+    .selectFrom('client')
+    .innerJoin('trainer', 'trainer.id', 'client.trainer_id')
+    .innerJoin('country', 'country.id', 'trainer.country_id')
+    .select((eb) => [
+      eb.ref('client.trainer_id').as('trainerId'),
+      eb.ref('client.id').as('clientId'),
+      eb.ref('client.mobile_number').as('mobileNumber'),
+      eb.ref('country.alpha_2_code').as('country'),
+    ])
+    .where(sql<string>`regexp_replace(client.mobile_number, '\\D', '', 'g')`, 'like', `%${nationalNumber}`)
+    .orderBy('client.updated_at', 'desc')
+    .execute()
+
+  const client = candidates.find(
+    ({ mobileNumber, country }) => clientMobileNumberToE164(mobileNumber, country) === from
+  )
+
+  return client ? { trainerId: client.trainerId, clientId: client.clientId } : null
+}
+
+const findNextClientSession = (
+  trx: Transaction<Database>,
+  { trainerId, clientId }: { trainerId: string; clientId: string },
+  states: readonly string[]
+) =>
+  trx
+    .selectFrom('client_session')
+    .innerJoin('session', 'session.id', 'client_session.session_id')
+    .innerJoin('session_series', 'session_series.id', 'session.session_series_id')
+    .select((eb) => [
+      eb.ref('client_session.id').as('id'),
+      eb.ref('session.id').as('sessionId'),
+      eb.ref('session.start').as('start'),
+      eb.ref('session.timezone').as('timezone'),
+      eb.ref('session_series.name').as('name'),
+      eb
+        .and([
+          eb('session.can_clients_cancel', '=', true),
+          eb(
+            sql<Date>`session.start - ${sql.ref('session.cancellation_advance_notice_duration')}`,
+            '>',
+            sql<Date>`now()`
+          ),
+        ])
+        .as('canCancel'),
+    ])
+    .where('client_session.trainer_id', '=', trainerId)
+    .where('client_session.client_id', '=', clientId)
+    .where('client_session.state', 'in', states)
+    .where('session.start', '>', new Date())
+    .orderBy('session.start')
+    .limit(1)
+    .forUpdate(['client_session'])
+    .executeTakeFirst()
+
+/**
+ * Acts on a text a client sent back to us. C/CONFIRM confirms their next appointment and CANCEL cancels it when the
+ * appointment allows clients to cancel and the notice window hasn't passed. STOP turns off text reminders and suppresses
+ * the number, and START undoes both. Anything else, including replies we can't act on, is passed on to the trainer as a
+ * notification.
+ */
+export const handleInboundSms = async (trx: Transaction<Database>, message: InboundSms) => {
+  const existing = await trx
+    .selectFrom('inbound_sms')
+    .select('action')
+    .where('provider', '=', message.provider)
+    .where('provider_message_id', '=', message.providerMessageId)
+    .executeTakeFirst()
+
+  if (existing) {
+    return existing.action as InboundSmsAction
+  }
+
+  const sender = await matchSender(trx, message.from)
+
+  const record = (action: InboundSmsAction, clientSessionId: string | null = null) =>
+    trx
+      .insertInto('inbound_sms')
+      .values({
+        trainer_id: sender?.trainerId ?? null,
+        client_id: sender?.clientId ?? null,
+        client_session_id: clientSessionId,
+        from_number: message.from,
+        to_number: message.to,
+        body: message.body,
+        provider: message.provider,
+        provider_message_id: message.providerMessageId,
+        action,
+      })
+      .onConflict((oc) => oc.columns(['provider', 'provider_message_id']).doNothing())
+      .execute()
+      .then(() => action)
+
+  const keyword = parseKeyword(message.body)
+
+  // Carriers stop delivering after a STOP whoever it was meant for, so the number is suppressed even when we can't
+  // tell which client sent it.
+  if (keyword === 'stop') {
+    await suppressAddress(trx, { channel: 'sms', address: message.from, reason: 'opted_out', source: 'inbound_sms' })
+  } else if (keyword === 'start') {
+    await liftSmsOptOut(trx, message.from)
+  }
+
+  if (!sender) {
+    return record('unmatched')
+  }
+
+  const details = await trx
+    .selectFrom('client')
+    .innerJoin('trainer', 'trainer.id', 'client.trainer_id')
+    .select((eb) => [
+      eb.ref('client.first_name').as('firstName'),
+      eb.ref('client.last_name').as('lastName'),
+      eb.ref('trainer.user_id').as('userId'),
+      eb.ref('trainer.locale').as('locale'),
+    ])
+    .where('client.id', '=', sender.clientId)
+    .where('client.trainer_id', '=', sender.trainerId)
+    .executeTakeFirstOrThrow()
+
+  const clientName = joinIgnoreEmpty(details.firstName, details.lastName) || message.from
+  const notify = (title: string, body: string) =>
+    enqueueWorkflowTask(trx, 'user.notify', {
+      userId: details.userId,
+      clientId: sender.clientId,
+      title,
+      body,
+      messageType: 'default',
+      notificationType: 'general',
+    })
+  const describe = (clientSession: { name: string | null; start: Date | string; timezone: string }) =>
+    `${clientSession.name ?? 'Appointment'} on ${new Intl.DateTimeFormat(details.locale ?? 'en-US', {
+      dateStyle: 'medium',
+      timeStyle: 'short',
+      timeZone: clientSession.timezone,
+    }).format(new Date(clientSession.start))}`
+
+  if (keyword === 'stop' || keyword === 'start') {
+    await trx
+      .updateTable('client')
+      .set({ sms_opted_out: keyword === 'stop' })
+      .where('id', '=', sender.clientId)
+      .where('trainer_id', '=', sender.trainerId)
+      .execute()
+
+    return record(keyword === 'stop' ? 'opted_out' : 'opted_in')
+  }
+
+  if (keyword === 'confirm') {
+    const clientSession = await findNextClientSession(trx, sender, confirmableStates)
+    if (clientSession) {
+      await trx
+        .updateTable('client_session')
+        .set({ state: 'confirmed', confirm_time: new Date() })
+        .where('id', '=', clientSession.id)
+        .execute()
+
+      await notify(`${clientName} confirmed by text`, `${clientName} confirmed ${describe(clientSession)}.`)
+      return record('confirmed', clientSession.id)
+    }
+  }
+
+  if (keyword === 'cancel') {
+    const clientSession = await findNextClientSession(trx, sender, cancellableStates)
+    if (clientSession?.canCancel) {
+      await trx
+        .updateTable('client_session')
+        .set({ state: 'cancelled', cancel_time: new Date(), waitlist_claim_expires_at: null })
+        .where('id', '=', clientSession.id)
+        .execute()
+
+      await refundClientSessionCredits(trx, clientSession.id)
+      await promoteWaitlistedClients(trx, clientSession.sessionId)
+
+      await notify(`${clientName} cancelled by text`, `${clientName} cancelled ${describe(clientSession)}.`)
+      return record('cancelled', clientSession.id)
+    }
+
+    if (clientSession) {
+      await notify(
+        `${clientName} asked to cancel by text`,
+        `${clientName} replied CANCEL for ${describe(clientSession)}, but it can't be cancelled by the client anymore.`
+      )
+      return record('cancel_not_allowed', clientSession.id)
+    }
+  }
+
+  await notify(`Text from ${clientName}`, message.body.trim() || '(empty message)')
+  return record('forwarded')
+}
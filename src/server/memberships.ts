@@ -0,0 +1,464 @@
+import type { Kysely, Transaction } from 'kysely'
+import type { Database } from '@/lib/db'
+import { APP_NAME, NO_REPLY_EMAIL } from '@/app/api/_lib/constants'
+import { createTranslator, resolveLocale } from '@/lib/i18n'
+import { renderTrainerEmailTemplate } from '@/server/emailTemplates'
+import { createClientDashboardLink } from '@/server/workflow/links'
+import { ctaEmail } from '@/server/workflow/templates/ctaEmail'
+import { joinIgnoreEmpty } from '@/server/workflow/utils'
+
+type DbExecutor = Kysely<Database> | Transaction<Database>
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000
+
+/** Client session states that don't use up any of a membership's allowance. */
+const releasedClientSessionStates = ['cancelled', 'declined'] as const
+
+export type ClientMembershipAllowance = {
+  id: string
+  membershipId: string
+  name: string
+  status: string
+  serviceIds: string[]
+  periodStart: string | null
+  periodEnd: string | null
+  sessionsAllowed: number | null
+  sessionsUsed: number | null
+  sessionsRemaining: number | null
+}
+
+export class MembershipNotFoundError extends Error {
+  constructor() {
+    super('Membership not found')
+    this.name = 'MembershipNotFoundError'
+  }
+}
+
+export class MembershipClientNotFoundError extends Error {
+  constructor() {
+    super('Client not found')
+    this.name = 'MembershipClientNotFoundError'
+  }
+}
+
+export class MembershipClientHasNoEmailError extends Error {
+  constructor() {
+    super('Client has no email')
+    this.name = 'MembershipClientHasNoEmailError'
+  }
+}
+
+export class MembershipAllowanceUsedError extends Error {
+  constructor() {
+    super("You've used all the sessions your membership includes for this period.")
+    this.name = 'MembershipAllowanceUsedError'
+  }
+}
+
+type MembershipBilling = {
+  id: string
+  sessionsPerPeriod: number
+  rolloverLimit: number
+  planStart: Date | string
+  planEnd: Date | string
+  frequencyWeeklyInterval: number
+}
+
+const countSessionsUsed = async (executor: DbExecutor, periodId: string) => {
+  const row = await executor
+    .selectFrom('client_session')
+    .select((eb) => eb.fn.countAll<string>().as('count'))
+    .where('client_membership_period_id', '=', periodId)
+    .where('state', 'not in', releasedClientSessionStates)
+    .executeTakeFirstOrThrow()
+
+  return Number(row.count)
+}
+
+/**
+ * Returns the allowance period of a client membership that contains `at`, creating it and any periods before it.
+ * Periods line up with the payment plan's billing cycle, and each one starts with the membership's allowance plus as
+ * many of the previous period's unused sessions as the rollover limit allows.
+ */
+const ensureMembershipPeriod = async (trx: Transaction<Database>, membership: MembershipBilling, at: Date) => {
+  const planStart = new Date(membership.planStart)
+  const planEnd = new Date(membership.planEnd)
+  // An open-ended plan ends at 'infinity', which doesn't parse to a valid date.
+  if (at < planStart || (!Number.isNaN(planEnd.getTime()) && at >= planEnd)) {
+    return null
+  }
+
+  const periodMs = membership.frequencyWeeklyInterval * WEEK_MS
+  const targetIndex = Math.floor((at.getTime() - planStart.getTime()) / periodMs)
+  const periodStartAt = (index: number) => new Date(planStart.getTime() + index * periodMs)
+
+  const existing = await trx
+    .selectFrom('client_membership_period')
+    .select(['id', 'start', 'end_ as end', 'sessions_allowed as sessionsAllowed'])
+    .where('client_membership_id', '=', membership.id)
+    .where('start', '<=', periodStartAt(targetIndex))
+    .orderBy('start', 'desc')
+    .limit(1)
+    .executeTakeFirst()
+
+  let previous = existing
+  let nextIndex = existing ? Math.round((new Date(existing.start).getTime() - planStart.getTime()) / periodMs) + 1 : 0
+
+  if (existing && nextIndex > targetIndex) {
+    return existing
+  }
+
+  for (; nextIndex <= targetIndex; nextIndex++) {
+    const carried = previous
+      ? Math.min(
+          membership.rolloverLimit,
+          Math.max(previous.sessionsAllowed - (await countSessionsUsed(trx, previous.id)), 0)
+        )
+      : 0
+
+    previous = await trx
+      .insertInto('client_membership_period')
+      .values({
+        client_membership_id: membership.id,
+        start: periodStartAt(nextIndex),
+        end_: periodStartAt(nextIndex + 1),
+        sessions_allowed: membership.sessionsPerPeriod + carried,
+      })
+      .returning(['id', 'start', 'end_ as end', 'sessions_allowed as sessionsAllowed'])
+      .executeTakeFirstOrThrow()
+  }
+
+  return previous ?? null
+}
+
+/**
+ * Read-only counterpart of `ensureMembershipPeriod`: the period containing `at` as stored or, when it hasn't been
+ * created yet, as it will be. Periods that don't exist yet have no sessions counted against them.
+ */
+const projectMembershipPeriod = async (executor: DbExecutor, membership: MembershipBilling, at: Date) => {
+  const planStart = new Date(membership.planStart)
+  const planEnd = new Date(membership.planEnd)
+  if (at < planStart || (!Number.isNaN(planEnd.getTime()) && at >= planEnd)) {
+    return null
+  }
+
+  const periodMs = membership.frequencyWeeklyInterval * WEEK_MS
+  const targetIndex = Math.floor((at.getTime() - planStart.getTime()) / periodMs)
+  const periodStartAt = (index: number) => new Date(planStart.getTime() + index * periodMs)
+
+  const existing = await executor
+    .selectFrom('client_membership_period')
+    .select(['id', 'start', 'end_ as end', 'sessions_allowed as sessionsAllowed'])
+    .where('client_membership_id', '=', membership.id)
+    .where('start', '<=', periodStartAt(targetIndex))
+    .orderBy('start', 'desc')
+    .limit(1)
+    .executeTakeFirst()
+
+  let nextIndex = existing ? Math.round((new Date(existing.start).getTime() - planStart.getTime()) / periodMs) + 1 : 0
+  const existingUsed = existing ? await countSessionsUsed(executor, existing.id) : 0
+
+  if (existing && nextIndex > targetIndex) {
+    return { ...existing, sessionsUsed: existingUsed }
+  }
+
+  let unused = existing ? Math.max(existing.sessionsAllowed - existingUsed, 0) : null
+  let sessionsAllowed = membership.sessionsPerPeriod
+
+  for (; nextIndex <= targetIndex; nextIndex++) {
+    sessionsAllowed = membership.sessionsPerPeriod + (unused === null ? 0 : Math.min(membership.rolloverLimit, unused))
+    unused = sessionsAllowed
+  }
+
+  return {
+    start: periodStartAt(targetIndex),
+    end: periodStartAt(targetIndex + 1),
+    sessionsAllowed,
+    sessionsUsed: 0,
+  }
+}
+
+const selectMembershipBilling = (executor: DbExecutor) =>
+  executor
+    .selectFrom('client_membership')
+    .innerJoin('payment_plan', 'payment_plan.id', 'client_membership.payment_plan_id')
+    .select((eb) => [
+      eb.ref('client_membership.id').as('id'),
+      eb.ref('client_membership.sessions_per_period').as('sessionsPerPeriod'),
+      eb.ref('client_membership.rollover_limit').as('rolloverLimit'),
+      eb.ref('payment_plan.start').as('planStart'),
+      eb.ref('payment_plan.end_').as('planEnd'),
+      eb.ref('payment_plan.frequency_weekly_interval').as('frequencyWeeklyInterval'),
+    ])
+
+/**
+ * Counts a client session against the allowance of a membership that covers its service. Returns null when no active
+ * membership covers the service, and throws `MembershipAllowanceUsedError` when the memberships that do cover it have
+ * no sessions left in the period the session falls in.
+ */
+export const applyMembershipToClientSession = async (trx: Transaction<Database>, clientSessionId: string) => {
+  const clientSession = await trx
+    .selectFrom('client_session')
+    .innerJoin('session', 'session.id', 'client_session.session_id')
+    .select((eb) => [
+      eb.ref('client_session.id').as('id'),
+      eb.ref('client_session.trainer_id').as('trainerId'),
+      eb.ref('client_session.client_id').as('clientId'),
+      eb.ref('session.service_id').as('serviceId'),
+      eb.ref('session.start').as('start'),
+    ])
+    .where('client_session.id', '=', clientSessionId)
+    .executeTakeFirstOrThrow()
+
+  if (!clientSession.serviceId) {
+    return null
+  }
+
+  const start = new Date(clientSession.start)
+
+  // Locks the memberships so concurrent bookings can't both take the last session in a period.
+  const memberships = await selectMembershipBilling(trx)
+    .innerJoin('membership_service', 'membership_service.membership_id', 'client_membership.membership_id')
+    .where('client_membership.trainer_id', '=', clientSession.trainerId)
+    .where('client_membership.client_id', '=', clientSession.clientId)
+    .where('membership_service.service_id', '=', clientSession.serviceId)
+    .where('payment_plan.status', '=', 'active')
+    .where('payment_plan.start', '<=', start)
+    .where('payment_plan.end_', '>', start)
+    .orderBy('client_membership.created_at')
+    .forUpdate(['client_membership'])
+    .execute()
+
+  if (memberships.length === 0) {
+    return null
+  }
+
+  for (const membership of memberships) {
+    const period = await ensureMembershipPeriod(trx, membership, start)
+    if (!period) {
+      continue
+    }
+
+    const used = await countSessionsUsed(trx, period.id)
+    if (used >= period.sessionsAllowed) {
+      continue
+    }
+
+    await trx
+      .updateTable('client_session')
+      .set({ client_membership_period_id: period.id })
+      .where('id', '=', clientSession.id)
+      .execute()
+
+    return {
+      clientMembershipId: membership.id,
+      periodId: period.id,
+      sessionsRemaining: period.sessionsAllowed - used - 1,
+    }
+  }
+
+  throw new MembershipAllowanceUsedError()
+}
+
+/**
+ * Creates the period each active membership is in at `at`, carrying unused sessions over from the period before.
+ * Runs daily with the payment plan charges so periods roll over without waiting for the next booking.
+ */
+export const rollMembershipPeriods = async (trx: Transaction<Database>, at = new Date()) => {
+  const memberships = await selectMembershipBilling(trx)
+    .where('payment_plan.status', '=', 'active')
+    .where('payment_plan.start', '<=', at)
+    .where('payment_plan.end_', '>', at)
+    .orderBy('client_membership.id')
+    // Serialises with bookings that might create the same period.
+    .forUpdate(['client_membership'])
+    .execute()
+
+  for (const membership of memberships) {
+    await ensureMembershipPeriod(trx, membership, at)
+  }
+}
+
+/** A client's memberships with the allowance left in the period containing `at`. Never writes or locks. */
+export const fetchClientMembershipAllowances = async (
+  executor: DbExecutor,
+  trainerId: string,
+  clientId: string,
+  at = new Date()
+) => {
+  const memberships = await selectMembershipBilling(executor)
+    .innerJoin('product', 'product.id', 'client_membership.membership_id')
+    .select((eb) => [
+      eb.ref('client_membership.membership_id').as('membershipId'),
+      eb.ref('product.name').as('name'),
+      eb.ref('payment_plan.status').as('status'),
+      eb
+        .selectFrom('membership_service')
+        .select((sub) => sub.fn.agg<string[]>('array_agg', ['membership_service.service_id']).as('serviceIds'))
+        .whereRef('membership_service.membership_id', '=', 'client_membership.membership_id')
+        .as('serviceIds'),
+    ])
+    .where('client_membership.trainer_id', '=', trainerId)
+    .where('client_membership.client_id', '=', clientId)
+    .orderBy('client_membership.created_at')
+    .execute()
+
+  const allowances: ClientMembershipAllowance[] = []
+
+  for (const membership of memberships) {
+    const period = membership.status === 'active' ? await projectMembershipPeriod(executor, membership, at) : null
+
+    allowances.push({
+      id: membership.id,
+      membershipId: membership.membershipId,
+      name: membership.name,
+      status: membership.status,
+      serviceIds: membership.serviceIds ?? [],
+      periodStart: period ? new Date(period.start).toISOString() : null,
+      periodEnd: period ? new Date(period.end).toISOString() : null,
+      sessionsAllowed: period?.sessionsAllowed ?? null,
+      sessionsUsed: period?.sessionsUsed ?? null,
+      sessionsRemaining: period ? Math.max(period.sessionsAllowed - period.sessionsUsed, 0) : null,
+    })
+  }
+
+  return allowances
+}
+
+/**
+ * Signs a client up to a membership. Billing runs through a payment plan at the membership's price and cadence,
+ * which the client is asked to accept from their dashboard; the allowance applies once the plan is active.
+ */
+export const createClientMembership = async (
+  trx: Transaction<Database>,
+  {
+    trainerId,
+    clientId,
+    membershipId,
+    start,
+  }: { trainerId: string; clientId: string; membershipId: string; start: Date }
+) => {
+  const membership = await trx
+    .selectFrom('membership')
+    .innerJoin('product', 'product.id', 'membership.id')
+    .select((eb) => [
+      eb.ref('membership.id').as('id'),
+      eb.ref('product.name').as('name'),
+      eb.ref('product.price').as('price'),
+      eb.ref('membership.frequency_weekly_interval').as('frequencyWeeklyInterval'),
+      eb.ref('membership.sessions_per_period').as('sessionsPerPeriod'),
+      eb.ref('membership.rollover_limit').as('rolloverLimit'),
+    ])
+    .where('membership.id', '=', membershipId)
+    .where('membership.trainer_id', '=', trainerId)
+    .executeTakeFirst()
+
+  if (!membership) {
+    throw new MembershipNotFoundError()
+  }
+
+  const details = await trx
+    .selectFrom('client')
+    .innerJoin('trainer', 'trainer.id', 'client.trainer_id')
+    .select((eb) => [
+      eb.ref('client.email').as('clientEmail'),
+      eb.ref('client.first_name').as('clientFirstName'),
+      eb.ref('client.locale').as('clientLocale'),
+      eb.ref('trainer.locale').as('trainerLocale'),
+      eb.ref('trainer.online_bookings_business_name').as('onlineBookingsBusinessName'),
+      eb.ref('trainer.business_name').as('businessName'),
+      eb.ref('trainer.first_name').as('trainerFirstName'),
+      eb.ref('trainer.last_name').as('trainerLastName'),
+      eb.ref('trainer.brand_color').as('brandColor'),
+      eb.ref('trainer.business_logo_url').as('businessLogoUrl'),
+    ])
+    .where('client.id', '=', clientId)
+    .where('client.trainer_id', '=', trainerId)
+    .executeTakeFirst()
+
+  if (!details) {
+    throw new MembershipClientNotFoundError()
+  }
+
+  if (!details.clientEmail) {
+    throw new MembershipClientHasNoEmailError()
+  }
+
+  const now = new Date()
+
+  const plan = await trx
+    .insertInto('payment_plan')
+    .values({
+      trainer_id: trainerId,
+      client_id: clientId,
+      status: 'pending',
+      start,
+      end_: trx.fn<Date>('infinity_timestamptz'),
+      frequency_weekly_interval: membership.frequencyWeeklyInterval,
+      name: membership.name,
+      amount: String(membership.price),
+      acceptance_request_time: now,
+    })
+    .returning('id')
+    .executeTakeFirstOrThrow()
+
+  const clientMembership = await trx
+    .insertInto('client_membership')
+    .values({
+      trainer_id: trainerId,
+      client_id: clientId,
+      membership_id: membership.id,
+      payment_plan_id: plan.id,
+      sessions_per_period: membership.sessionsPerPeriod,
+      rollover_limit: membership.rolloverLimit,
+    })
+    .returning('id')
+    .executeTakeFirstOrThrow()
+
+  const serviceProviderName =
+    details.onlineBookingsBusinessName ??
+    details.businessName ??
+    (joinIgnoreEmpty(details.trainerFirstName, details.trainerLastName) || APP_NAME)
+  const link = await createClientDashboardLink(trx, { clientId, clientEmail: details.clientEmail })
+  link.searchParams.set('next', `/client-dashboard/payment-plans/${plan.id}`)
+  const { locale, t } = createTranslator(resolveLocale(details.clientLocale, details.trainerLocale))
+  const email = await renderTrainerEmailTemplate(
+    trx,
+    trainerId,
+    'membership_request',
+    {
+      clientFirstName: details.clientFirstName,
+      serviceProviderName,
+      membershipName: membership.name,
+      sessionAllowance: t('common.sessions', { count: membership.sessionsPerPeriod }),
+      cadence: t('common.everyWeeks', { count: membership.frequencyWeeklyInterval }),
+    },
+    locale
+  )
+
+  await trx
+    .insertInto('mail')
+    .values({
+      trainer_id: trainerId,
+      client_id: clientId,
+      from_email: NO_REPLY_EMAIL,
+      message_type: 'membership_request',
+      from_name: `${serviceProviderName} via ${APP_NAME}`,
+      to_email: details.clientEmail,
+      to_name: null,
+      subject: email.subject,
+      html: ctaEmail({
+        receivingReason: email.receivingReason,
+        locale,
+        brandColor: details.brandColor,
+        logo: details.businessLogoUrl ? { url: details.businessLogoUrl, alt: serviceProviderName } : undefined,
+        bodyHeading: email.heading,
+        bodyHtml: email.bodyHtml,
+        button: { text: email.buttonText, link },
+      }),
+      reply_to: null,
+    })
+    .execute()
+
+  return { id: clientMembership.id, paymentPlanId: plan.id }
+}
@@ -0,0 +1,279 @@
+import type { ExpressionBuilder, Kysely, Transaction } from 'kysely'
+import type { CountryCode } from 'libphonenumber-js/min'
+import { sql } from 'kysely'
+import { parsePhoneNumberFromString } from 'libphonenumber-js/min'
+import type { Database } from '@/lib/db'
+import { joinIgnoreEmpty } from '@/server/workflow/utils'
+
+type DbExecutor = Kysely<Database> | Transaction<Database>
+
+export type SuppressionChannel = 'email' | 'sms'
+
+export type SuppressionReason = 'hard_bounce' | 'spam_complaint' | 'unsubscribed' | 'invalid_number' | 'opted_out'
+
+export type UnreachableClient = {
+  suppressionId: string
+  clientId: string
+  clientName: string
+  channel: SuppressionChannel
+  address: string
+  reason: SuppressionReason
+  source: string
+  detail: string | null
+  suppressedAt: string
+}
+
+export class MessageSuppressionNotFoundError extends Error {
+  constructor() {
+    super('Message suppression not found')
+    this.name = 'MessageSuppressionNotFoundError'
+  }
+}
+
+/** Opt-outs are the client's choice, so only they can undo one by texting START. */
+export class MessageSuppressionOptedOutError extends Error {
+  constructor() {
+    super('Client opted out of texts')
+    this.name = 'MessageSuppressionOptedOutError'
+  }
+}
+
+/**
+ * Twilio error codes that mean a number will never take our texts, from the status callbacks of failed messages.
+ * Carrier filtering and other temporary failures aren't here, so they don't suppress a working number.
+ */
+const twilioSuppressionReasons: Record<number, SuppressionReason> = {
+  21211: 'invalid_number',
+  21610: 'opted_out',
+  21614: 'invalid_number',
+  30005: 'invalid_number',
+  30006: 'invalid_number',
+}
+
+const normalizeAddress = (channel: SuppressionChannel, address: string) =>
+  channel === 'email' ? address.trim().toLowerCase() : address.trim()
+
+/**
+ * A client's mobile number, stored as typed, in the E.164 form we text and record suppressions under. Numbers without
+ * a country code are read as local to the trainer's country.
+ */
+export const clientMobileNumberToE164 = (mobileNumber: string | null, country: string) => {
+  const parsed = mobileNumber
+    ? parsePhoneNumberFromString(mobileNumber, country.toUpperCase() as CountryCode)
+    : undefined
+  return parsed?.isValid() ? parsed.format('E.164') : null
+}
+
+/**
+ * Stops future sends to an address. Addresses that are already suppressed keep their original reason, but lose any
+ * trainer's lift, since the new failure shows the address still doesn't work.
+ */
+export const suppressAddress = async (
+  executor: DbExecutor,
+  {
+    channel,
+    address,
+    reason,
+    source,
+    detail = null,
+  }: { channel: SuppressionChannel; address: string; reason: SuppressionReason; source: string; detail?: string | null }
+) => {
+  const normalized = normalizeAddress(channel, address)
+  if (!normalized) {
+    return
+  }
+
+  await executor
+    .insertInto('message_suppression')
+    .values({ channel, address: normalized, reason, source, detail })
+    .onConflict((oc) => oc.columns(['channel', 'address']).where('lifted_at', 'is', null).doNothing())
+    .execute()
+
+  await executor
+    .deleteFrom('message_suppression_lift')
+    .where('message_suppression_id', 'in', (eb) =>
+      eb
+        .selectFrom('message_suppression')
+        .select('id')
+        .where('channel', '=', channel)
+        .where('address', '=', normalized)
+        .where('lifted_at', 'is', null)
+    )
+    .execute()
+}
+
+const notLiftedByTrainer = (eb: ExpressionBuilder<Database, 'message_suppression'>, trainerId: string | null) =>
+  eb.not(
+    eb.exists(
+      eb
+        .selectFrom('message_suppression_lift')
+        .select('message_suppression_lift.trainer_id')
+        .whereRef('message_suppression_lift.message_suppression_id', '=', 'message_suppression.id')
+        .where('message_suppression_lift.trainer_id', '=', trainerId)
+    )
+  )
+
+/**
+ * The reason an address is suppressed for a trainer's sends, or undefined when they can send to it. Mail sent on no
+ * trainer's behalf honours every suppression.
+ */
+export const findActiveSuppression = async (
+  executor: DbExecutor,
+  trainerId: string | null,
+  channel: SuppressionChannel,
+  address: string
+) => {
+  const row = await executor
+    .selectFrom('message_suppression')
+    .select(['id', 'reason'])
+    .where('channel', '=', channel)
+    .where('address', '=', normalizeAddress(channel, address))
+    .where('lifted_at', 'is', null)
+    .where((eb) => notLiftedByTrainer(eb, trainerId))
+    .executeTakeFirst()
+
+  return row ? { id: row.id, reason: row.reason as SuppressionReason } : undefined
+}
+
+/** Lifts an opt-out after a client texts START. */
+export const liftSmsOptOut = async (executor: DbExecutor, number: string) => {
+  await executor
+    .updateTable('message_suppression')
+    .set({ lifted_at: new Date() })
+    .where('channel', '=', 'sms')
+    .where('address', '=', normalizeAddress('sms', number))
+    .where('reason', '=', 'opted_out')
+    .where('lifted_at', 'is', null)
+    .execute()
+}
+
+/** Suppresses the recipient of a failed Twilio message when its error code means the number can't take texts. */
+export const suppressFailedTwilioMessage = async (executor: DbExecutor, message: unknown) => {
+  if (!message || typeof message !== 'object' || Array.isArray(message)) {
+    return
+  }
+
+  const { status, error_code: errorCode, error_message: errorMessage, to } = message as Record<string, unknown>
+  if ((status !== 'failed' && status !== 'undelivered') || typeof to !== 'string') {
+    return
+  }
+
+  const code = typeof errorCode === 'number' ? errorCode : Number.parseInt(String(errorCode), 10)
+  const reason = twilioSuppressionReasons[code]
+  if (!reason) {
+    return
+  }
+
+  await suppressAddress(executor, {
+    channel: 'sms',
+    address: to,
+    reason,
+    source: 'twilio',
+    detail: typeof errorMessage === 'string' ? `${code}: ${errorMessage}` : String(code),
+  })
+}
+
+const trainerClientMobileNumbers = async (executor: DbExecutor, trainerId: string) => {
+  const rows = await executor
+    .selectFrom('client')
+    .innerJoin('trainer', 'trainer.id', 'client.trainer_id')
+    .innerJoin('country', 'country.id', 'trainer.country_id')
+    .select((eb) => [
+      eb.ref('client.id').as('clientId'),
+      eb.ref('client.mobile_number').as('mobileNumber'),
+      eb.ref('country.alpha_2_code').as('country'),
+    ])
+    .where('client.trainer_id', '=', trainerId)
+    .where('client.mobile_number', 'is not', null)
+    .execute()
+
+  return rows.flatMap(({ clientId, mobileNumber, country }) => {
+    const number = clientMobileNumberToE164(mobileNumber, country)
+    return number ? [{ clientId, number }] : []
+  })
+}
+
+/** Clients' mobile numbers are free-form, so SMS suppressions are matched against the numbers already in E.164. */
+const trainerClientSuppressions = (
+  executor: DbExecutor,
+  trainerId: string,
+  mobileNumbers: { clientId: string; number: string }[]
+) =>
+  executor
+    .selectFrom('message_suppression')
+    .innerJoin('client', (join) =>
+      join.on((eb) =>
+        eb.or([
+          eb.and([
+            eb('message_suppression.channel', '=', 'email'),
+            eb('message_suppression.address', '=', sql<string>`lower(trim(${eb.ref('client.email')}))`),
+          ]),
+          eb.and([
+            eb('message_suppression.channel', '=', 'sms'),
+            sql<boolean>`(${eb.ref('client.id')}, ${eb.ref('message_suppression.address')}) in (
+              select * from unnest(
+                ${mobileNumbers.map((row) => row.clientId)}::uuid[],
+                ${mobileNumbers.map((row) => row.number)}::text[]
+              )
+            )`,
+          ]),
+        ])
+      )
+    )
+    .where('client.trainer_id', '=', trainerId)
+    .where('message_suppression.lifted_at', 'is', null)
+    .where((eb) => notLiftedByTrainer(eb, trainerId))
+
+/** A trainer's clients we can no longer email or text, with why. A client with two suppressions appears twice. */
+export const listUnreachableClients = async (executor: DbExecutor, trainerId: string): Promise<UnreachableClient[]> => {
+  const mobileNumbers = await trainerClientMobileNumbers(executor, trainerId)
+  const rows = await trainerClientSuppressions(executor, trainerId, mobileNumbers)
+    .select((eb) => [
+      eb.ref('message_suppression.id').as('suppressionId'),
+      eb.ref('client.id').as('clientId'),
+      eb.ref('client.first_name').as('firstName'),
+      eb.ref('client.last_name').as('lastName'),
+      eb.ref('message_suppression.channel').as('channel'),
+      eb.ref('message_suppression.address').as('address'),
+      eb.ref('message_suppression.reason').as('reason'),
+      eb.ref('message_suppression.source').as('source'),
+      eb.ref('message_suppression.detail').as('detail'),
+      eb.ref('message_suppression.created_at').as('suppressedAt'),
+    ])
+    .orderBy('message_suppression.created_at', 'desc')
+    .execute()
+
+  return rows.map(({ firstName, lastName, channel, reason, suppressedAt, ...row }) => ({
+    ...row,
+    clientName: joinIgnoreEmpty(firstName, lastName),
+    channel: channel as SuppressionChannel,
+    reason: reason as SuppressionReason,
+    suppressedAt: (suppressedAt instanceof Date ? suppressedAt : new Date(suppressedAt)).toISOString(),
+  }))
+}
+
+/**
+ * Lets a trainer start sending to one of their clients' addresses again, typically once the client has fixed their
+ * mailbox. The suppression still applies to other trainers. Opt-outs can't be lifted this way.
+ */
+export const liftClientSuppression = async (executor: DbExecutor, trainerId: string, suppressionId: string) => {
+  const mobileNumbers = await trainerClientMobileNumbers(executor, trainerId)
+  const suppression = await trainerClientSuppressions(executor, trainerId, mobileNumbers)
+    .select(['message_suppression.id', 'message_suppression.reason'])
+    .where('message_suppression.id', '=', suppressionId)
+    .executeTakeFirst()
+
+  if (!suppression) {
+    throw new MessageSuppressionNotFoundError()
+  }
+
+  if (suppression.reason === 'opted_out') {
+    throw new MessageSuppressionOptedOutError()
+  }
+
+  await executor
+    .insertInto('message_suppression_lift')
+    .values({ message_suppression_id: suppression.id, trainer_id: trainerId })
+    .onConflict((oc) => oc.columns(['message_suppression_id', 'trainer_id']).doNothing())
+    .execute()
+}
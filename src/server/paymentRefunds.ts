@@ -0,0 +1,207 @@
+import type { Transaction } from 'kysely'
+import BigNumber from 'bignumber.js'
+import type { Database } from '@/lib/db'
+import { taxShareOfPayment } from '@/server/salesTax'
+
+export class PaymentAlreadyRefundedError extends Error {
+  constructor() {
+    super('Payment has already been refunded')
+    this.name = 'PaymentAlreadyRefundedError'
+  }
+}
+
+export class RefundAmountTooLargeError extends Error {
+  constructor(readonly refundable: string) {
+    super(`Refund amount is more than the ${refundable} left to refund`)
+    this.name = 'RefundAmountTooLargeError'
+  }
+}
+
+/** Credit pack payments pay for a whole number of credits, so they're refunded in full or not at all. */
+export class CreditPackPartialRefundError extends Error {
+  constructor() {
+    super('Credit pack payments can only be refunded in full')
+    this.name = 'CreditPackPartialRefundError'
+  }
+}
+
+/**
+ * How much to refund of a payment that has had `amountRefunded` of its `amount` refunded already. Without a requested
+ * amount, refunds whatever is left.
+ */
+export const resolveRefundAmount = (
+  amount: BigNumber.Value,
+  amountRefunded: BigNumber.Value,
+  requested: BigNumber | null
+) => {
+  const refundable = BigNumber.max(new BigNumber(amount).minus(amountRefunded), 0)
+  const refundAmount = requested ?? refundable
+
+  if (refundAmount.gt(refundable)) {
+    throw new RefundAmountTooLargeError(refundable.toFixed(2))
+  }
+
+  return { refundAmount, refundsInFull: refundAmount.eq(refundable) }
+}
+
+/**
+ * The share of a payment's application fee that goes back with a refund, in proportion to the amount refunded, as
+ * Stripe does with `refund_application_fee`. The refund that completes the payment gives back whatever is left, so
+ * rounding never leaves part of the fee behind.
+ */
+export const proRateApplicationFee = ({
+  fee,
+  amount,
+  refundAmount,
+  refundsInFull,
+  feeRefunded,
+}: {
+  fee: BigNumber
+  amount: BigNumber
+  refundAmount: BigNumber
+  refundsInFull: boolean
+  feeRefunded: BigNumber
+}) => {
+  if (fee.lte(0) || amount.lte(0)) {
+    return new BigNumber(0)
+  }
+
+  if (refundsInFull) {
+    return BigNumber.max(fee.minus(feeRefunded), 0)
+  }
+
+  return BigNumber.min(fee.times(refundAmount).div(amount).decimalPlaces(2), fee.minus(feeRefunded))
+}
+
+/** Application fees already given back by earlier refunds of a payment. */
+export const sumRefundedApplicationFees = async (
+  trx: Transaction<Database>,
+  column: 'payment_id' | 'payment_plan_payment_id',
+  id: string
+) => {
+  const row = await trx
+    .selectFrom('payment_refund')
+    .select((eb) => eb.fn.coalesce(eb.fn.sum<string>('application_fee_amount'), eb.val('0')).as('feeRefunded'))
+    .where(column, '=', id)
+    .executeTakeFirst()
+
+  return new BigNumber(row?.feeRefunded ?? 0)
+}
+
+/**
+ * The tax given back with a refund of a sale payment. The payment carries the sale's tax in proportion to how much of
+ * the sale it paid for, and refunds give it back pro rata like the application fee.
+ */
+export const proRateSalePaymentTax = async (
+  trx: Transaction<Database>,
+  { paymentId, refundAmount, refundsInFull }: { paymentId: string; refundAmount: BigNumber; refundsInFull: boolean }
+) => {
+  const row = await trx
+    .selectFrom('payment')
+    .innerJoin('sale_product', 'sale_product.sale_id', 'payment.sale_id')
+    .select((eb) => [
+      eb.ref('payment.amount').as('amount'),
+      eb.fn.sum<string>('sale_product.price').as('saleTotal'),
+      eb.fn.sum<string>('sale_product.tax_amount').as('saleTax'),
+    ])
+    .where('payment.id', '=', paymentId)
+    .groupBy('payment.id')
+    .executeTakeFirst()
+
+  if (!row) {
+    return new BigNumber(0)
+  }
+
+  const amount = new BigNumber(row.amount)
+  const tax = taxShareOfPayment({ taxAmount: row.saleTax, total: row.saleTotal, amount })
+
+  if (tax.lte(0)) {
+    return tax
+  }
+
+  const taxRefunded = await trx
+    .selectFrom('payment_refund')
+    .select((eb) => eb.fn.coalesce(eb.fn.sum<string>('tax_amount'), eb.val('0')).as('taxRefunded'))
+    .where('payment_id', '=', paymentId)
+    .executeTakeFirst()
+
+  return proRateApplicationFee({
+    fee: tax,
+    amount,
+    refundAmount,
+    refundsInFull,
+    feeRefunded: new BigNumber(taxRefunded?.taxRefunded ?? 0),
+  })
+}
+
+type RefundRecord = {
+  trainerId: string
+  amount: BigNumber
+  applicationFeeAmount: BigNumber
+  reason: string | null
+  stripeRefundId: string | null
+  refundsInFull: boolean
+}
+
+/** Records a refund of a sale payment. The payment is marked refunded once the whole amount has been given back. */
+export const recordSalePaymentRefund = async (
+  trx: Transaction<Database>,
+  { paymentId, taxAmount, ...refund }: RefundRecord & { paymentId: string; taxAmount: BigNumber }
+) => {
+  // Zero amount payments have nothing to give back, so they're marked refunded without a refund row.
+  if (refund.amount.gt(0)) {
+    await trx
+      .insertInto('payment_refund')
+      .values({
+        trainer_id: refund.trainerId,
+        payment_id: paymentId,
+        amount: refund.amount.toFixed(2),
+        application_fee_amount: refund.applicationFeeAmount.toFixed(2),
+        tax_amount: taxAmount.toFixed(2),
+        reason: refund.reason,
+        stripe_refund_id: refund.stripeRefundId,
+      })
+      .execute()
+  }
+
+  await trx
+    .updateTable('payment')
+    .set((eb) => ({
+      amount_refunded: eb('amount_refunded', '+', refund.amount.toFixed(2)),
+      ...(refund.refundsInFull ? { refunded_time: new Date() } : {}),
+    }))
+    .where('id', '=', paymentId)
+    .execute()
+}
+
+/**
+ * Records a refund of a payment plan payment. Once the whole amount has been given back the payment becomes
+ * 'refunded' and, as before partial refunds, its full amount is outstanding again.
+ */
+export const recordPlanPaymentRefund = async (
+  trx: Transaction<Database>,
+  { paymentPlanPaymentId, ...refund }: RefundRecord & { paymentPlanPaymentId: string }
+) => {
+  if (refund.amount.gt(0)) {
+    await trx
+      .insertInto('payment_refund')
+      .values({
+        trainer_id: refund.trainerId,
+        payment_plan_payment_id: paymentPlanPaymentId,
+        amount: refund.amount.toFixed(2),
+        application_fee_amount: refund.applicationFeeAmount.toFixed(2),
+        reason: refund.reason,
+        stripe_refund_id: refund.stripeRefundId,
+      })
+      .execute()
+  }
+
+  await trx
+    .updateTable('payment_plan_payment')
+    .set((eb) => ({
+      amount_refunded: eb('amount_refunded', '+', refund.amount.toFixed(2)),
+      ...(refund.refundsInFull ? { status: 'refunded', amount_outstanding: eb.ref('amount') } : {}),
+    }))
+    .where('id', '=', paymentPlanPaymentId)
+    .execute()
+}
@@ -4,6 +4,7 @@ import { z } from 'zod'
 import type { Database, Point } from '@/lib/db'
 import { db } from '@/lib/db'
 import { uuidOrNil } from '@/lib/uuid'
+import { parseTaxMode, taxModeSchema } from '@/server/salesTax'
 import { buildErrorResponse } from '../app/api/_lib/accessToken'
 
 export const moneyString = z
@@ -22,6 +23,8 @@ const baseProductSchema = z.object({
   createdAt: isoDateTimeString,
   updatedAt: isoDateTimeString,
   price: moneyString,
+  /** How the trainer's enabled taxes apply to `price` when the product is sold. */
+  taxMode: taxModeSchema,
   currency: z.string(),
   name: z.string(),
   description: z.string(),
@@ -31,12 +34,24 @@ const baseProductSchema = z.object({
 const creditPackProductSchema = baseProductSchema.extend({
   type: z.literal('creditPack'),
   totalCredits: z.number().int().min(0),
+  /** Days a sold pack can be used for, or null if it never expires. */
+  expiryDays: z.number().int().min(1).nullable(),
 })
 
 const itemProductSchema = baseProductSchema.extend({
   type: z.literal('item'),
 })
 
+const membershipProductSchema = baseProductSchema.extend({
+  type: z.literal('membership'),
+  frequencyWeeks: z.number().int().min(1).max(4),
+  sessionsPerPeriod: z.number().int().min(1),
+  /** Most unused sessions carried into the next period. */
+  rolloverLimit: z.number().int().min(0),
+  /** Services the allowance can be used to book. */
+  serviceIds: z.array(z.string()),
+})
+
 const serviceProductSchema = baseProductSchema.extend({
   type: z.literal('service'),
   durationMinutes: z.number().int().min(1),
@@ -46,6 +61,8 @@ const serviceProductSchema = baseProductSchema.extend({
   bufferMinutesBefore: z.number().int(),
   bufferMinutesAfter: z.number().int(),
   timeSlotFrequencyMinutes: z.number().int(),
+  noShowFee: moneyString.nullable(),
+  lateCancelFee: moneyString.nullable(),
   requestClientAddressOnline: z.union([z.literal('optional'), z.literal('required'), z.null()]),
   bookingQuestion: z.string().nullable(),
   bookingQuestionState: z.union([z.literal('optional'), z.literal('required'), z.null()]),
@@ -63,7 +80,12 @@ const serviceProductSchema = baseProductSchema.extend({
   image5Url: z.string().nullable(),
 })
 
-export const productSchema = z.union([creditPackProductSchema, itemProductSchema, serviceProductSchema])
+export const productSchema = z.union([
+  creditPackProductSchema,
+  itemProductSchema,
+  membershipProductSchema,
+  serviceProductSchema,
+])
 
 export const productListSchema = z.array(productSchema)
 export type ProductList = z.infer<typeof productListSchema>
@@ -74,9 +96,10 @@ const combinedUpdatedAt = (eb: ExpressionBuilder<Database, any>) =>
     eb.ref('product.updated_at'),
     eb.fn('coalesce', [eb.ref('service.updated_at'), eb.ref('product.updated_at')]),
     eb.fn('coalesce', [eb.ref('creditPack.updated_at' as any), eb.ref('product.updated_at')]),
+    eb.fn('coalesce', [eb.ref('membership.updated_at' as any), eb.ref('product.updated_at')]),
   ])
 
-const productTypeSchema = z.enum(['creditPack', 'service', 'item'])
+const productTypeSchema = z.enum(['creditPack', 'service', 'item', 'membership'])
 
 export const querySchema = z.object({
   type: productTypeSchema.optional(),
@@ -98,6 +121,7 @@ export type RawProductRow = {
   name: string
   description: string
   price: string
+  taxMode: string
   currency: string
   createdAt: Date | string
   combinedUpdatedAt: Date | string
@@ -107,6 +131,11 @@ export type RawProductRow = {
   isService: boolean | null
   isMembership: boolean | null
   totalCredits: number | null
+  expiryDays: number | null
+  frequencyWeeks: number | null
+  sessionsPerPeriod: number | null
+  rolloverLimit: number | null
+  serviceIds: string[] | null
   durationMinutes: number | string | null
   location: string | null
   address: string | null
@@ -125,6 +154,8 @@ export type RawProductRow = {
   bufferMinutesBefore: number | null
   bufferMinutesAfter: number | null
   timeSlotFrequencyMinutes: number | null
+  noShowFee: string | null
+  lateCancelFee: string | null
   requestClientAddressOnline: string | null
   bookingQuestion: string | null
   bookingQuestionState: string | null
@@ -190,7 +221,7 @@ const determineType = (row: RawProductRow): ProductType => {
     return 'item'
   }
   if (row.isMembership) {
-    throw new Error('Membership products are not supported by this endpoint')
+    return 'membership'
   }
   throw new Error('Product has no supported type')
 }
@@ -228,6 +259,7 @@ const mapRowToProduct = (row: RawProductRow) => {
     createdAt: formatIso(row.createdAt, 'createdAt'),
     updatedAt: formatIso(row.combinedUpdatedAt, 'updatedAt'),
     price: formatMoney(row.price, 'price'),
+    taxMode: parseTaxMode(row.taxMode),
     currency: row.currency,
     name: row.name,
     description: row.description,
@@ -241,6 +273,7 @@ const mapRowToProduct = (row: RawProductRow) => {
       totalCredits: parseInteger(row.totalCredits, 'totalCredits', {
         minimum: 0,
       }),
+      expiryDays: row.expiryDays,
     }
   }
 
@@ -251,6 +284,17 @@ const mapRowToProduct = (row: RawProductRow) => {
     }
   }
 
+  if (type === 'membership') {
+    return {
+      ...base,
+      type: 'membership' as const,
+      frequencyWeeks: parseInteger(row.frequencyWeeks, 'frequencyWeeks', { minimum: 1 }),
+      sessionsPerPeriod: parseInteger(row.sessionsPerPeriod, 'sessionsPerPeriod', { minimum: 1 }),
+      rolloverLimit: parseInteger(row.rolloverLimit, 'rolloverLimit', { minimum: 0 }),
+      serviceIds: row.serviceIds ?? [],
+    }
+  }
+
   const bookingPaymentType = row.bookingPaymentType
   if (!bookingPaymentType) {
     throw new Error('Missing booking payment type for service product')
@@ -275,6 +319,8 @@ const mapRowToProduct = (row: RawProductRow) => {
     }),
     bufferMinutesAfter: parseInteger(row.bufferMinutesAfter, 'bufferMinutesAfter', { minimum: 0 }),
     timeSlotFrequencyMinutes: parseInteger(row.timeSlotFrequencyMinutes, 'timeSlotFrequencyMinutes', { minimum: 0 }),
+    noShowFee: row.noShowFee === null ? null : formatMoney(row.noShowFee, 'noShowFee'),
+    lateCancelFee: row.lateCancelFee === null ? null : formatMoney(row.lateCancelFee, 'lateCancelFee'),
     requestClientAddressOnline: row.requestClientAddressOnline ?? null,
     bookingQuestion: row.bookingQuestion ?? null,
     bookingQuestionState: row.bookingQuestionState ?? null,
@@ -299,11 +345,13 @@ export const fetchProductsForTrainer = async (trainerId: string, filters: Produc
     .innerJoin('currency as currency', 'currency.id', 'product.currency_id')
     .leftJoin('credit_pack as creditPack', 'creditPack.id', 'product.id')
     .leftJoin('service as service', 'service.id', 'product.id')
+    .leftJoin('membership as membership', 'membership.id', 'product.id')
     .select((eb) => [
       eb.ref('product.id').as('id'),
       eb.ref('product.name').as('name'),
       eb.ref('product.description').as('description'),
       eb.ref('product.price').as('price'),
+      eb.ref('product.tax_mode').as('taxMode'),
       eb.ref('currency.alpha_code').as('currency'),
       eb.ref('product.created_at').as('createdAt'),
       combinedUpdatedAt(eb).as('combinedUpdatedAt'),
@@ -313,6 +361,15 @@ export const fetchProductsForTrainer = async (trainerId: string, filters: Produc
       eb.ref('product.is_service').as('isService'),
       eb.ref('product.is_membership').as('isMembership'),
       eb.ref('creditPack.total_credits').as('totalCredits'),
+      eb.ref('creditPack.expiry_days').as('expiryDays'),
+      eb.ref('membership.frequency_weekly_interval').as('frequencyWeeks'),
+      eb.ref('membership.sessions_per_period').as('sessionsPerPeriod'),
+      eb.ref('membership.rollover_limit').as('rolloverLimit'),
+      eb
+        .selectFrom('membership_service')
+        .select((sub) => sub.fn.agg<string[]>('array_agg', ['membership_service.service_id']).as('serviceIds'))
+        .whereRef('membership_service.membership_id', '=', 'product.id')
+        .as('serviceIds'),
       eb
         .case()
         .when('service.duration', 'is', null)
@@ -337,6 +394,8 @@ export const fetchProductsForTrainer = async (trainerId: string, filters: Produc
       eb.ref('service.buffer_minutes_before').as('bufferMinutesBefore'),
       eb.ref('service.buffer_minutes_after').as('bufferMinutesAfter'),
       eb.ref('service.time_slot_frequency_minutes').as('timeSlotFrequencyMinutes'),
+      eb.ref('service.no_show_fee').as('noShowFee'),
+      eb.ref('service.late_cancel_fee').as('lateCancelFee'),
       eb.ref('service.request_client_address_online').as('requestClientAddressOnline'),
       eb.ref('service.booking_question').as('bookingQuestion'),
       eb.ref('service.booking_question_state').as('bookingQuestionState'),
@@ -354,6 +413,8 @@ export const fetchProductsForTrainer = async (trainerId: string, filters: Produc
       query = query.where('product.is_service', '=', true)
     } else if (filters.type === 'item') {
       query = query.where('product.is_item', '=', true)
+    } else if (filters.type === 'membership') {
+      query = query.where('product.is_membership', '=', true)
     }
   }
 
@@ -0,0 +1,375 @@
+import type { Kysely, Transaction } from 'kysely'
+import BigNumber from 'bignumber.js'
+import { z } from 'zod'
+import type { Database } from '@/lib/db'
+import {
+  addDaysToLocalDateTime,
+  localDateTimeToUtc,
+  parseIsoLocalDateTime,
+  utcToLocalDateTime,
+} from '@/lib/dates/timezone'
+
+type DbExecutor = Kysely<Database> | Transaction<Database>
+
+export const expenseCategories = [
+  'advertising',
+  'equipment',
+  'insurance',
+  'rent',
+  'software',
+  'subscriptions',
+  'supplies',
+  'training',
+  'travel',
+  'utilities',
+  'wages',
+  'other',
+] as const
+
+export const expenseCategorySchema = z.enum(expenseCategories)
+
+export type ExpenseCategory = z.infer<typeof expenseCategorySchema>
+
+/** Expenses without a category are reported as 'uncategorized'. */
+export const reportedExpenseCategories = [...expenseCategories, 'uncategorized'] as const
+
+export type ReportedExpenseCategory = (typeof reportedExpenseCategories)[number]
+
+export const expenseCategoryLabels: Record<ReportedExpenseCategory, string> = {
+  advertising: 'Advertising',
+  equipment: 'Equipment',
+  insurance: 'Insurance',
+  rent: 'Rent',
+  software: 'Software',
+  subscriptions: 'Subscriptions',
+  supplies: 'Supplies',
+  training: 'Training',
+  travel: 'Travel',
+  utilities: 'Utilities',
+  wages: 'Wages',
+  other: 'Other',
+  uncategorized: 'Uncategorized',
+}
+
+export const profitAndLossPeriods = ['month', 'quarter', 'year'] as const
+
+export const profitAndLossPeriodSchema = z.enum(profitAndLossPeriods)
+
+export type ProfitAndLossPeriod = z.infer<typeof profitAndLossPeriodSchema>
+
+export class ProfitAndLossTrainerNotFoundError extends Error {
+  constructor() {
+    super('Trainer not found')
+    this.name = 'ProfitAndLossTrainerNotFoundError'
+  }
+}
+
+export type ProfitAndLossAmounts = {
+  /** Sale and payment plan payments received. */
+  revenue: string
+  refunds: string
+  /** Card processing fees, less the part given back with refunds. */
+  stripeFees: string
+  netRevenue: string
+  /** Finance items with a positive amount. */
+  otherIncome: string
+  /** One entry per category in the report, in the report's order. */
+  expenses: { category: ReportedExpenseCategory; amount: string }[]
+  totalExpenses: string
+  netProfit: string
+}
+
+export type ProfitAndLossPeriodLine = ProfitAndLossAmounts & {
+  /** '2026-03' for months, '2026-Q1' for quarters and '2026' for years. */
+  label: string
+  startDate: string
+  endDate: string
+}
+
+export type ProfitAndLoss = {
+  startDate: string
+  endDate: string
+  period: ProfitAndLossPeriod
+  timezone: string
+  currency: string
+  /** The expense categories that have expenses in the report. */
+  categories: ReportedExpenseCategory[]
+  periods: ProfitAndLossPeriodLine[]
+  totals: ProfitAndLossAmounts
+}
+
+type Accumulator = {
+  revenue: BigNumber
+  refunds: BigNumber
+  fees: BigNumber
+  feesRefunded: BigNumber
+  otherIncome: BigNumber
+  expenses: Map<ReportedExpenseCategory, BigNumber>
+}
+
+const monthsInPeriod: Record<ProfitAndLossPeriod, number> = { month: 1, quarter: 3, year: 12 }
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+const isoDate = (year: number, month: number, day: number) => `${year}-${pad(month)}-${pad(day)}`
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate()
+
+const periodStartMonth = (month: number, period: ProfitAndLossPeriod) => month - ((month - 1) % monthsInPeriod[period])
+
+const periodLabel = (year: number, startMonth: number, period: ProfitAndLossPeriod) => {
+  if (period === 'year') {
+    return `${year}`
+  }
+  if (period === 'quarter') {
+    return `${year}-Q${(startMonth + 2) / 3}`
+  }
+  return `${year}-${pad(startMonth)}`
+}
+
+/** The calendar periods covering the range, with the first and last trimmed to the range. */
+const listPeriods = (startDate: string, endDate: string, period: ProfitAndLossPeriod) => {
+  const start = parseIsoLocalDateTime(`${startDate}T00:00:00`)
+  const periods: { label: string; startDate: string; endDate: string }[] = []
+
+  let year = start.year
+  let month = periodStartMonth(start.month, period)
+  while (isoDate(year, month, 1) <= endDate) {
+    const lastMonth = month + monthsInPeriod[period] - 1
+    const periodStart = isoDate(year, month, 1)
+    const periodEnd = isoDate(year, lastMonth, daysInMonth(year, lastMonth))
+    periods.push({
+      label: periodLabel(year, month, period),
+      startDate: periodStart < startDate ? startDate : periodStart,
+      endDate: periodEnd > endDate ? endDate : periodEnd,
+    })
+
+    month = lastMonth + 1
+    if (month > 12) {
+      year += 1
+      month = 1
+    }
+  }
+
+  return periods
+}
+
+const createAccumulator = (): Accumulator => ({
+  revenue: new BigNumber(0),
+  refunds: new BigNumber(0),
+  fees: new BigNumber(0),
+  feesRefunded: new BigNumber(0),
+  otherIncome: new BigNumber(0),
+  expenses: new Map(),
+})
+
+const summarize = (accumulator: Accumulator, categories: ReportedExpenseCategory[]): ProfitAndLossAmounts => {
+  const stripeFees = accumulator.fees.minus(accumulator.feesRefunded)
+  const netRevenue = accumulator.revenue.minus(accumulator.refunds).minus(stripeFees)
+  const totalExpenses = [...accumulator.expenses.values()].reduce(
+    (total, amount) => total.plus(amount),
+    new BigNumber(0)
+  )
+
+  return {
+    revenue: accumulator.revenue.toFixed(2),
+    refunds: accumulator.refunds.toFixed(2),
+    stripeFees: stripeFees.toFixed(2),
+    netRevenue: netRevenue.toFixed(2),
+    otherIncome: accumulator.otherIncome.toFixed(2),
+    expenses: categories.map((category) => ({
+      category,
+      amount: (accumulator.expenses.get(category) ?? new BigNumber(0)).toFixed(2),
+    })),
+    totalExpenses: totalExpenses.toFixed(2),
+    netProfit: netRevenue.plus(accumulator.otherIncome).minus(totalExpenses).toFixed(2),
+  }
+}
+
+const todayIn = (timeZone: string) => {
+  const now = utcToLocalDateTime(new Date(), timeZone)
+  return { year: now.year, today: isoDate(now.year, now.month, now.day) }
+}
+
+/**
+ * Profit and loss over a period, broken down by calendar month, quarter or year in the trainer's timezone. It's on a
+ * cash basis: payments count when they're received, refunds and the card fees they give back when they're given, and
+ * finance items on their date, with negative ones as expenses. Both ends of the range are included and it defaults to
+ * the year to date.
+ *
+ * Payments with credit pack credits are left out, as the pack was counted when it was paid for.
+ */
+export const getProfitAndLoss = async (
+  executor: DbExecutor,
+  trainerId: string,
+  options: { startDate?: string; endDate?: string; period: ProfitAndLossPeriod }
+): Promise<ProfitAndLoss> => {
+  const trainer = await executor
+    .selectFrom('trainer')
+    .innerJoin(
+      'supported_country_currency as supportedCountryCurrency',
+      'supportedCountryCurrency.country_id',
+      'trainer.country_id'
+    )
+    .innerJoin('currency', 'currency.id', 'supportedCountryCurrency.currency_id')
+    .select(['trainer.timezone as timezone', 'currency.alpha_code as currency'])
+    .where('trainer.id', '=', trainerId)
+    .executeTakeFirst()
+
+  if (!trainer) {
+    throw new ProfitAndLossTrainerNotFoundError()
+  }
+
+  const { year, today } = todayIn(trainer.timezone)
+  const startDate = options.startDate ?? isoDate(year, 1, 1)
+  const endDate = options.endDate ?? today
+  const { period } = options
+
+  const rangeStart = localDateTimeToUtc(parseIsoLocalDateTime(`${startDate}T00:00:00`), trainer.timezone)
+  const rangeEnd = localDateTimeToUtc(
+    addDaysToLocalDateTime(parseIsoLocalDateTime(`${endDate}T00:00:00`), 1),
+    trainer.timezone
+  )
+
+  const [payments, planPayments, refunds, financeItems] = await Promise.all([
+    executor
+      .selectFrom('payment')
+      .leftJoin('payment_manual as paymentManual', 'paymentManual.id', 'payment.id')
+      .leftJoin('payment_stripe as paymentStripe', 'paymentStripe.id', 'payment.id')
+      .select((eb) => [
+        eb.fn.coalesce('paymentManual.transaction_time', 'payment.created_at').as('date'),
+        eb.ref('payment.amount').as('amount'),
+        eb.ref('paymentStripe.fee').as('fee'),
+      ])
+      .where('payment.trainer_id', '=', trainerId)
+      .where((eb) => eb.or([eb('payment.is_manual', '=', true), eb('payment.is_stripe', '=', true)]))
+      .where((eb) => eb(eb.fn.coalesce('paymentManual.transaction_time', 'payment.created_at'), '>=', rangeStart))
+      .where((eb) => eb(eb.fn.coalesce('paymentManual.transaction_time', 'payment.created_at'), '<', rangeEnd))
+      .execute(),
+    executor
+      .selectFrom('payment_plan_payment')
+      .select(['date', 'amount', 'fee'])
+      .where('trainer_id', '=', trainerId)
+      .where('status', 'in', ['paid', 'refunded'])
+      .where('date', '>=', rangeStart)
+      .where('date', '<', rangeEnd)
+      .execute(),
+    executor
+      .selectFrom('payment_refund as refund')
+      .leftJoin('payment', 'payment.id', 'refund.payment_id')
+      .select((eb) => [
+        eb.ref('refund.created_at').as('date'),
+        eb.ref('refund.amount').as('amount'),
+        eb.ref('refund.application_fee_amount').as('feeRefunded'),
+      ])
+      .where('refund.trainer_id', '=', trainerId)
+      .where((eb) =>
+        eb.or([
+          eb('refund.payment_id', 'is', null),
+          eb('payment.is_manual', '=', true),
+          eb('payment.is_stripe', '=', true),
+        ])
+      )
+      .where('refund.created_at', '>=', rangeStart)
+      .where('refund.created_at', '<', rangeEnd)
+      .execute(),
+    executor
+      .selectFrom('finance_item')
+      .select(['start_date as date', 'amount', 'category'])
+      .where('trainer_id', '=', trainerId)
+      .where('start_date', '>=', rangeStart)
+      .where('start_date', '<', rangeEnd)
+      .execute(),
+  ])
+
+  const periods = listPeriods(startDate, endDate, period)
+  const accumulators = new Map(periods.map((line) => [line.label, createAccumulator()]))
+  const totals = createAccumulator()
+
+  const addTo = (date: Date | string, add: (accumulator: Accumulator) => void) => {
+    const local = utcToLocalDateTime(new Date(date), trainer.timezone)
+    const accumulator = accumulators.get(periodLabel(local.year, periodStartMonth(local.month, period), period))
+    if (accumulator) {
+      add(accumulator)
+      add(totals)
+    }
+  }
+
+  for (const row of [...payments, ...planPayments]) {
+    addTo(row.date, (accumulator) => {
+      accumulator.revenue = accumulator.revenue.plus(row.amount)
+      accumulator.fees = accumulator.fees.plus(row.fee ?? 0)
+    })
+  }
+
+  for (const row of refunds) {
+    addTo(row.date, (accumulator) => {
+      accumulator.refunds = accumulator.refunds.plus(row.amount)
+      accumulator.feesRefunded = accumulator.feesRefunded.plus(row.feeRefunded)
+    })
+  }
+
+  for (const row of financeItems) {
+    const amount = new BigNumber(row.amount)
+    const parsedCategory = expenseCategorySchema.safeParse(row.category)
+    const category: ReportedExpenseCategory = parsedCategory.success ? parsedCategory.data : 'uncategorized'
+    addTo(row.date, (accumulator) => {
+      if (amount.gte(0)) {
+        accumulator.otherIncome = accumulator.otherIncome.plus(amount)
+        return
+      }
+      accumulator.expenses.set(category, (accumulator.expenses.get(category) ?? new BigNumber(0)).minus(amount))
+    })
+  }
+
+  const categories = reportedExpenseCategories.filter((category) => totals.expenses.has(category))
+
+  return {
+    startDate,
+    endDate,
+    period,
+    timezone: trainer.timezone,
+    currency: trainer.currency,
+    categories,
+    periods: periods.map((line) => ({
+      ...line,
+      ...summarize(accumulators.get(line.label) ?? createAccumulator(), categories),
+    })),
+    totals: summarize(totals, categories),
+  }
+}
+
+/** The report as spreadsheet rows, one per period and a total, for accountants. */
+export const profitAndLossCsvRows = (report: ProfitAndLoss) => {
+  const row = (label: string, startDate: string, endDate: string, amounts: ProfitAndLossAmounts) => [
+    label,
+    startDate,
+    endDate,
+    amounts.revenue,
+    amounts.refunds,
+    amounts.stripeFees,
+    amounts.netRevenue,
+    amounts.otherIncome,
+    ...amounts.expenses.map((expense) => expense.amount),
+    amounts.totalExpenses,
+    amounts.netProfit,
+  ]
+
+  return [
+    [
+      'Period',
+      'Start date',
+      'End date',
+      `Revenue (${report.currency})`,
+      'Refunds',
+      'Stripe fees',
+      'Net revenue',
+      'Other income',
+      ...report.categories.map((category) => `Expenses: ${expenseCategoryLabels[category]}`),
+      'Total expenses',
+      'Net profit',
+    ],
+    ...report.periods.map((line) => row(line.label, line.startDate, line.endDate, line)),
+    row('Total', report.startDate, report.endDate, report.totals),
+  ]
+}
@@ -0,0 +1,603 @@
+import type { Kysely, Transaction } from 'kysely'
+import BigNumber from 'bignumber.js'
+import sharp from 'sharp'
+import { z } from 'zod'
+import type { Database } from '@/lib/db'
+import { APP_NAME, NO_REPLY_EMAIL } from '@/app/api/_lib/constants'
+import { getPublicBucketUrl } from '@/app/api/_lib/storage'
+import { createTranslator, resolveLocale, type Translator } from '@/lib/i18n'
+import { A4, createPdfDocument, type PdfJpeg, type PdfPage, type PdfRgb, wrapText } from '@/lib/pdf'
+import { renderTrainerEmailTemplate } from '@/server/emailTemplates'
+import { createClientDashboardLink } from '@/server/workflow/links'
+import { ctaEmail } from '@/server/workflow/templates/ctaEmail'
+import { currencyFormat, joinIgnoreEmpty } from '@/server/workflow/utils'
+
+type DbExecutor = Kysely<Database> | Transaction<Database>
+
+export class SaleDocumentNotFoundError extends Error {
+  constructor() {
+    super('Sale document not found')
+    this.name = 'SaleDocumentNotFoundError'
+  }
+}
+
+/** A document to render, as stored in `mail.attachments` until the mail is sent. */
+export const saleDocumentRefSchema = z.discriminatedUnion('document', [
+  z.object({ document: z.literal('invoice'), saleId: z.string() }),
+  z.object({ document: z.literal('receipt'), paymentId: z.string() }),
+])
+
+export type SaleDocumentRef = z.infer<typeof saleDocumentRefSchema>
+
+export const formatInvoiceNumber = (invoiceNumber: number) => `INV-${String(invoiceNumber).padStart(5, '0')}`
+
+/** Receipts are numbered after their sale's invoice, counting the sale's payments in the order they were made. */
+const formatReceiptNumber = (invoiceNumber: number, paymentIndex: number) =>
+  `${formatInvoiceNumber(invoiceNumber)}-${paymentIndex + 1}`
+
+/**
+ * The sale's invoice number, taking the trainer's next one if it doesn't have one yet. The sale row is locked first
+ * so two downloads at once can't both number it.
+ */
+export const ensureInvoiceNumber = async (trx: Transaction<Database>, trainerId: string, saleId: string) => {
+  const sale = await trx
+    .selectFrom('sale')
+    .select('invoice_number')
+    .where('id', '=', saleId)
+    .where('trainer_id', '=', trainerId)
+    .forUpdate()
+    .executeTakeFirst()
+
+  if (!sale) {
+    throw new SaleDocumentNotFoundError()
+  }
+
+  if (sale.invoice_number !== null) {
+    return sale.invoice_number
+  }
+
+  const trainer = await trx
+    .updateTable('trainer')
+    .set((eb) => ({ last_invoice_number: eb('last_invoice_number', '+', 1) }))
+    .where('id', '=', trainerId)
+    .returning('last_invoice_number')
+    .executeTakeFirstOrThrow()
+
+  await trx.updateTable('sale').set({ invoice_number: trainer.last_invoice_number }).where('id', '=', saleId).execute()
+
+  return trainer.last_invoice_number
+}
+
+const tailwind600: Record<string, PdfRgb> = {
+  amber: [0.851, 0.467, 0.024],
+  blue: [0.145, 0.388, 0.922],
+  cyan: [0.055, 0.647, 0.914],
+  emerald: [0.02, 0.588, 0.412],
+  fuchsia: [0.753, 0.149, 0.827],
+  green: [0.086, 0.639, 0.29],
+  indigo: [0.31, 0.275, 0.898],
+  lightBlue: [0.008, 0.518, 0.78],
+  lime: [0.396, 0.639, 0.051],
+  orange: [0.918, 0.345, 0.047],
+  pink: [0.859, 0.153, 0.467],
+  purple: [0.486, 0.227, 0.929],
+  red: [0.863, 0.149, 0.149],
+  rose: [0.882, 0.114, 0.282],
+  sky: [0.008, 0.518, 0.78],
+  teal: [0.051, 0.58, 0.533],
+  violet: [0.486, 0.227, 0.929],
+  yellow: [0.792, 0.541, 0.016],
+}
+
+const resolveBrandColor = (value: string | null) => (value ? tailwind600[value] : null) ?? tailwind600.blue
+
+const loadSale = async (executor: DbExecutor, trainerId: string, saleId: string, clientId?: string) => {
+  let query = executor
+    .selectFrom('sale')
+    .innerJoin('client', 'client.id', 'sale.client_id')
+    .innerJoin('trainer', 'trainer.id', 'sale.trainer_id')
+    .innerJoin('country', 'country.id', 'trainer.country_id')
+    .innerJoin(
+      'supported_country_currency as supportedCountryCurrency',
+      'supportedCountryCurrency.country_id',
+      'trainer.country_id'
+    )
+    .innerJoin('currency', 'currency.id', 'supportedCountryCurrency.currency_id')
+    .select((eb) => [
+      eb.ref('sale.id').as('id'),
+      eb.ref('sale.created_at').as('createdAt'),
+      eb.ref('sale.due_time').as('dueTime'),
+      eb.ref('sale.note').as('note'),
+      eb.ref('client.id').as('clientId'),
+      eb.ref('client.first_name').as('clientFirstName'),
+      eb.ref('client.last_name').as('clientLastName'),
+      eb.ref('client.company').as('clientCompany'),
+      eb.ref('client.email').as('clientEmail'),
+      eb.ref('client.address').as('clientAddress'),
+      eb.ref('client.locale').as('clientLocale'),
+      eb.ref('trainer.first_name').as('trainerFirstName'),
+      eb.ref('trainer.last_name').as('trainerLastName'),
+      eb.ref('trainer.business_name').as('businessName'),
+      eb.ref('trainer.online_bookings_business_name').as('onlineBookingsBusinessName'),
+      eb.ref('trainer.business_logo_url').as('businessLogoUrl'),
+      eb.ref('trainer.brand_color').as('brandColor'),
+      eb.ref('trainer.email').as('trainerEmail'),
+      eb.ref('trainer.online_bookings_contact_email').as('contactEmail'),
+      eb.ref('trainer.phone_number').as('phoneNumber'),
+      eb.ref('trainer.locale').as('trainerLocale'),
+      eb.ref('trainer.timezone').as('timezone'),
+      eb.ref('country.name').as('countryName'),
+      eb.ref('currency.alpha_code').as('currency'),
+    ])
+    .where('sale.id', '=', saleId)
+    .where('sale.trainer_id', '=', trainerId)
+
+  if (clientId) {
+    query = query.where('sale.client_id', '=', clientId)
+  }
+
+  const sale = await query.executeTakeFirst()
+  if (!sale) {
+    throw new SaleDocumentNotFoundError()
+  }
+
+  const [products, taxes, payments] = await Promise.all([
+    executor
+      .selectFrom('sale_product')
+      .select(['id', 'name', 'price'])
+      .where('sale_id', '=', saleId)
+      .orderBy('created_at')
+      .orderBy('id')
+      .execute(),
+    executor
+      .selectFrom('sale_tax')
+      .select((eb) => ['label', 'percent', eb.fn.sum<string>('amount').as('amount')])
+      .where('sale_id', '=', saleId)
+      .groupBy(['tax_id', 'label', 'percent'])
+      .orderBy('tax_id')
+      .execute(),
+    executor
+      .selectFrom('payment')
+      .leftJoin('payment_manual as paymentManual', 'paymentManual.id', 'payment.id')
+      .leftJoin('payment_credit_pack as paymentCreditPack', 'paymentCreditPack.id', 'payment.id')
+      .leftJoin('payment_stripe as paymentStripe', 'paymentStripe.id', 'payment.id')
+      .select((eb) => [
+        eb.ref('payment.id').as('id'),
+        eb.ref('payment.amount').as('amount'),
+        eb.ref('payment.amount_refunded').as('amountRefunded'),
+        eb.ref('payment.is_manual').as('isManual'),
+        eb.ref('payment.is_stripe').as('isStripe'),
+        eb.ref('payment.is_credit_pack').as('isCreditPack'),
+        eb.ref('paymentManual.method').as('manualMethod'),
+        eb.ref('paymentManual.specific_method_name').as('specificMethodName'),
+        eb.ref('paymentStripe.fee_passed_on').as('feePassedOn'),
+        eb.fn
+          .coalesce('paymentManual.transaction_time', 'paymentCreditPack.transaction_time', 'payment.created_at')
+          .as('transactedAt'),
+      ])
+      .where('payment.sale_id', '=', saleId)
+      .orderBy('payment.created_at')
+      .orderBy('payment.id')
+      .execute(),
+  ])
+
+  return { sale, products, taxes, payments }
+}
+
+type SaleDocumentData = Awaited<ReturnType<typeof loadSale>>
+
+type SalePaymentDetails = SaleDocumentData['payments'][number]
+
+const paymentMethodName = (payment: SalePaymentDetails, t: Translator['t']) => {
+  if (payment.specificMethodName?.trim()) {
+    return payment.specificMethodName.trim()
+  }
+  const method = payment.isStripe
+    ? 'card'
+    : payment.isCreditPack
+      ? 'creditPack'
+      : payment.isManual
+        ? (payment.manualMethod ?? 'other')
+        : 'subscription'
+  return t('document.method', { method })
+}
+
+const LOGO_MAX_WIDTH = 140
+const LOGO_MAX_HEIGHT = 56
+
+/** Logos are uploaded to our public bucket; anything else is a URL we won't fetch from the server. */
+const isUploadedLogoUrl = (url: string) => {
+  const publicBucketUrl = getPublicBucketUrl()
+  return Boolean(publicBucketUrl) && url.startsWith(`${publicBucketUrl}/`) && URL.canParse(url)
+}
+
+/**
+ * Downloads the trainer's logo and re-encodes it as a JPEG the PDF can embed. A logo that can't be fetched or read
+ * leaves the document with the business name instead of failing it.
+ */
+const loadLogo = async (url: string | null): Promise<PdfJpeg | null> => {
+  if (!url || !isUploadedLogoUrl(url)) {
+    return null
+  }
+
+  try {
+    const response = await fetch(url, { redirect: 'error', signal: AbortSignal.timeout(5000) })
+    if (!response.ok) {
+      return null
+    }
+    const { data, info } = await sharp(Buffer.from(await response.arrayBuffer()))
+      .flatten({ background: '#ffffff' })
+      .toColourspace('srgb')
+      .resize({ width: LOGO_MAX_WIDTH * 3, height: LOGO_MAX_HEIGHT * 3, fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 90 })
+      .toBuffer({ resolveWithObject: true })
+    return { data, width: info.width, height: info.height }
+  } catch (error) {
+    console.warn('Failed to load business logo for sale document', { url, error })
+    return null
+  }
+}
+
+const MARGIN = 48
+const CONTENT_WIDTH = A4.width - MARGIN * 2
+const AMOUNT_COLUMN_WIDTH = 120
+const MUTED: PdfRgb = [0.42, 0.447, 0.502]
+const TEXT: PdfRgb = [0.067, 0.094, 0.153]
+const RULE: PdfRgb = [0.898, 0.906, 0.922]
+const HEADER_FILL: PdfRgb = [0.953, 0.957, 0.965]
+
+type DocumentLayout = {
+  locale: string
+  title: string
+  number: string
+  status: string | null
+  details: [label: string, value: string][]
+  totals: [label: string, value: string, options?: { bold?: boolean }][]
+}
+
+/**
+ * Lays out an invoice or receipt: the business and logo at the top, who it's billed to, the sale's items and the
+ * totals. Long item lists flow onto more pages.
+ */
+const drawDocument = (data: SaleDocumentData, layout: DocumentLayout, logo: PdfJpeg | null, t: Translator['t']) => {
+  const { sale } = data
+  const brandColor = resolveBrandColor(sale.brandColor)
+  const document = createPdfDocument({ title: `${layout.title} ${layout.number}` })
+  let page: PdfPage = document.addPage()
+  let y = MARGIN
+
+  const newPage = () => {
+    page = document.addPage()
+    page.rect(0, 0, A4.width, 6, brandColor)
+    y = MARGIN
+  }
+
+  const ensureSpace = (height: number) => {
+    if (y + height > A4.height - MARGIN) {
+      newPage()
+    }
+  }
+
+  const businessName =
+    sale.businessName?.trim() ||
+    sale.onlineBookingsBusinessName?.trim() ||
+    joinIgnoreEmpty(sale.trainerFirstName, sale.trainerLastName) ||
+    APP_NAME
+
+  page.rect(0, 0, A4.width, 6, brandColor)
+
+  if (logo) {
+    const scale = Math.min(LOGO_MAX_WIDTH / logo.width, LOGO_MAX_HEIGHT / logo.height, 1)
+    const height = logo.height * scale
+    page.image(logo, MARGIN, y, logo.width * scale, height)
+    y += height + 12
+  } else {
+    page.text(businessName, MARGIN, y + 16, { size: 16, font: 'bold', color: TEXT })
+    y += 28
+  }
+
+  page.text(layout.title, A4.width - MARGIN, MARGIN + 20, { size: 22, font: 'bold', color: brandColor, align: 'right' })
+  page.text(layout.number, A4.width - MARGIN, MARGIN + 38, { size: 10, color: MUTED, align: 'right' })
+  if (layout.status) {
+    page.text(layout.status.toUpperCase(), A4.width - MARGIN, MARGIN + 56, {
+      size: 11,
+      font: 'bold',
+      color: brandColor,
+      align: 'right',
+    })
+  }
+
+  const businessLines = [
+    logo ? businessName : null,
+    sale.contactEmail?.trim() || sale.trainerEmail,
+    sale.phoneNumber?.trim() || null,
+    sale.countryName,
+  ].filter((line): line is string => Boolean(line))
+  for (const line of businessLines) {
+    y += 13
+    page.text(line, MARGIN, y, { size: 9, color: MUTED })
+  }
+
+  y = Math.max(y, MARGIN + 56) + 32
+
+  const clientLines = [
+    joinIgnoreEmpty(sale.clientFirstName, sale.clientLastName),
+    sale.clientCompany?.trim() || null,
+    ...(sale.clientAddress?.trim() ? wrapText(sale.clientAddress.trim(), CONTENT_WIDTH / 2 - 16, 10) : []),
+    sale.clientEmail?.trim() || null,
+  ].filter((line): line is string => Boolean(line))
+
+  const columnTop = y
+  page.text(t('document.billTo'), MARGIN, y, { size: 9, font: 'bold', color: MUTED })
+  for (const line of clientLines) {
+    y += 14
+    page.text(line, MARGIN, y, { size: 10, color: TEXT })
+  }
+
+  let detailsY = columnTop
+  const labelX = A4.width / 2 + 24
+  for (const [label, value] of layout.details) {
+    page.text(label, labelX, detailsY, { size: 9, color: MUTED })
+    page.text(value, A4.width - MARGIN, detailsY, { size: 10, color: TEXT, align: 'right' })
+    detailsY += 16
+  }
+
+  y = Math.max(y, detailsY) + 28
+
+  const drawItemsHeader = () => {
+    page.rect(MARGIN, y, CONTENT_WIDTH, 22, HEADER_FILL)
+    page.text(t('document.item'), MARGIN + 10, y + 15, { size: 9, font: 'bold', color: MUTED })
+    page.text(t('document.amount'), A4.width - MARGIN - 10, y + 15, {
+      size: 9,
+      font: 'bold',
+      color: MUTED,
+      align: 'right',
+    })
+    y += 22
+  }
+
+  const money = (amount: BigNumber.Value) =>
+    currencyFormat(new BigNumber(amount), { locale: layout.locale, currency: sale.currency })
+
+  drawItemsHeader()
+  for (const product of data.products) {
+    const lines = wrapText(product.name, CONTENT_WIDTH - AMOUNT_COLUMN_WIDTH - 20, 10)
+    const height = lines.length * 13 + 14
+    if (y + height > A4.height - MARGIN) {
+      newPage()
+      drawItemsHeader()
+    }
+    lines.forEach((line, index) => {
+      page.text(line, MARGIN + 10, y + 18 + index * 13, { size: 10, color: TEXT })
+    })
+    page.text(money(product.price), A4.width - MARGIN - 10, y + 18, { size: 10, color: TEXT, align: 'right' })
+    y += height
+    page.line(MARGIN, y, A4.width - MARGIN, y, { color: RULE })
+  }
+
+  y += 8
+  for (const [label, value, options] of layout.totals) {
+    ensureSpace(20)
+    const font = options?.bold ? 'bold' : 'regular'
+    y += 18
+    page.text(label, A4.width - MARGIN - AMOUNT_COLUMN_WIDTH - 10, y, { size: 10, font, color: TEXT, align: 'right' })
+    page.text(value, A4.width - MARGIN - 10, y, { size: 10, font, color: TEXT, align: 'right' })
+  }
+
+  const note = sale.note.trim()
+  if (note) {
+    const lines = wrapText(note, CONTENT_WIDTH, 10)
+    y += 32
+    ensureSpace(lines.length * 13 + 16)
+    page.text(t('document.note'), MARGIN, y, { size: 9, font: 'bold', color: MUTED })
+    for (const line of lines) {
+      y += 13
+      ensureSpace(13)
+      page.text(line, MARGIN, y, { size: 10, color: TEXT })
+    }
+  }
+
+  return document.toBuffer()
+}
+
+const buildLayouts = (data: SaleDocumentData, invoiceNumber: number) => {
+  const { sale, products, taxes, payments } = data
+  const locale = resolveLocale(sale.clientLocale, sale.trainerLocale)
+  const { t } = createTranslator(locale)
+  const money = (amount: BigNumber.Value) => currencyFormat(new BigNumber(amount), { locale, currency: sale.currency })
+  const date = (value: Date | string) =>
+    new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeZone: sale.timezone }).format(new Date(value))
+
+  const total = products.reduce((sum, product) => sum.plus(product.price), new BigNumber(0))
+
+  // The total is what the client pays, so tax added on top of exclusive prices is part of it too.
+  const taxLines = taxes.map(
+    (tax) =>
+      [
+        t('document.taxIncluded', {
+          label: tax.label.trim() || t('document.tax'),
+          percent: new BigNumber(tax.percent).toString(),
+        }),
+        money(tax.amount),
+      ] as [string, string]
+  )
+
+  const amountPaid = payments.reduce((sum, payment) => sum.plus(payment.amount), new BigNumber(0))
+  const amountRefunded = payments.reduce((sum, payment) => sum.plus(payment.amountRefunded), new BigNumber(0))
+  const amountDue = BigNumber.max(total.minus(amountPaid), 0)
+
+  const invoice = (): DocumentLayout => ({
+    locale,
+    title: t('document.invoice'),
+    number: formatInvoiceNumber(invoiceNumber),
+    status: amountDue.isZero() ? t('document.paid') : null,
+    details: [
+      [t('document.invoiceNumber'), formatInvoiceNumber(invoiceNumber)],
+      [t('document.issued'), date(sale.createdAt)],
+      [t('document.due'), date(sale.dueTime)],
+    ],
+    totals: [
+      [t('document.total'), money(total), { bold: true }],
+      ...taxLines,
+      ...(amountPaid.gt(0) ? [[t('document.amountPaid'), money(amountPaid)] as [string, string]] : []),
+      ...(amountRefunded.gt(0) ? [[t('document.amountRefunded'), money(amountRefunded)] as [string, string]] : []),
+      [t('document.amountDue'), money(amountDue), { bold: true }],
+    ],
+  })
+
+  const receipt = (paymentId: string): DocumentLayout => {
+    const index = payments.findIndex((payment) => payment.id === paymentId)
+    const payment = payments[index]
+    if (!payment) {
+      throw new SaleDocumentNotFoundError()
+    }
+
+    const paid = new BigNumber(payment.amount)
+    const refunded = new BigNumber(payment.amountRefunded)
+    // A passed on card fee is charged on top of the sale's total.
+    const cardFee = payment.feePassedOn ? paid.minus(total) : new BigNumber(0)
+
+    return {
+      locale,
+      title: t('document.receipt'),
+      number: formatReceiptNumber(invoiceNumber, index),
+      status: refunded.gt(0) && refunded.gte(paid) ? t('document.refunded') : t('document.paid'),
+      details: [
+        [t('document.receiptNumber'), formatReceiptNumber(invoiceNumber, index)],
+        [t('document.invoiceNumber'), formatInvoiceNumber(invoiceNumber)],
+        [t('document.paidOn'), date(payment.transactedAt)],
+        [t('document.paymentMethod'), paymentMethodName(payment, t)],
+      ],
+      totals: [
+        [t('document.total'), money(total)],
+        ...taxLines,
+        ...(cardFee.gt(0) ? [[t('document.cardFee'), money(cardFee)] as [string, string]] : []),
+        [t('document.amountPaid'), money(paid), { bold: true }],
+        ...(refunded.gt(0) ? [[t('document.amountRefunded'), money(refunded)] as [string, string]] : []),
+      ],
+    }
+  }
+
+  return { t, invoice, receipt }
+}
+
+const findPaymentSale = async (executor: DbExecutor, trainerId: string, paymentId: string, clientId?: string) => {
+  let query = executor
+    .selectFrom('payment')
+    .select('sale_id')
+    .where('id', '=', paymentId)
+    .where('trainer_id', '=', trainerId)
+
+  if (clientId) {
+    query = query.where('client_id', '=', clientId)
+  }
+
+  const payment = await query.executeTakeFirst()
+  if (!payment) {
+    throw new SaleDocumentNotFoundError()
+  }
+
+  return payment.sale_id
+}
+
+/**
+ * Renders an invoice for a sale or a receipt for one of its payments as a PDF, numbering the sale's invoice if it
+ * isn't already. With `clientId`, the document has to belong to that client.
+ *
+ * The number is committed before the logo is fetched, so the sale isn't left locked while we wait on the network.
+ */
+export const renderSaleDocument = async (
+  db: Kysely<Database>,
+  { trainerId, clientId }: { trainerId: string; clientId?: string },
+  ref: SaleDocumentRef
+) => {
+  const { data, invoiceNumber } = await db.transaction().execute(async (trx) => {
+    const saleId =
+      ref.document === 'invoice' ? ref.saleId : await findPaymentSale(trx, trainerId, ref.paymentId, clientId)
+    return {
+      data: await loadSale(trx, trainerId, saleId, clientId),
+      invoiceNumber: await ensureInvoiceNumber(trx, trainerId, saleId),
+    }
+  })
+  const logo = await loadLogo(data.sale.businessLogoUrl)
+  const { t, invoice, receipt } = buildLayouts(data, invoiceNumber)
+  const layout = ref.document === 'invoice' ? invoice() : receipt(ref.paymentId)
+
+  return {
+    fileName: `${layout.number}.pdf`,
+    content: drawDocument(data, layout, logo, t),
+  }
+}
+
+/**
+ * Emails the client a receipt for a payment with the PDF attached. Does nothing when the client has no email
+ * address; returns whether a receipt was queued.
+ */
+export const queueReceiptEmail = async (
+  trx: Transaction<Database>,
+  { trainerId, paymentId }: { trainerId: string; paymentId: string }
+) => {
+  const saleId = await findPaymentSale(trx, trainerId, paymentId)
+  const data = await loadSale(trx, trainerId, saleId)
+  const { sale } = data
+  const clientEmail = sale.clientEmail?.trim()
+  if (!clientEmail) {
+    return false
+  }
+
+  const invoiceNumber = await ensureInvoiceNumber(trx, trainerId, saleId)
+  const receipt = buildLayouts(data, invoiceNumber).receipt(paymentId)
+  const payment = data.payments.find((row) => row.id === paymentId)
+
+  const serviceProviderName =
+    sale.onlineBookingsBusinessName?.trim() ||
+    sale.businessName?.trim() ||
+    joinIgnoreEmpty(sale.trainerFirstName, sale.trainerLastName) ||
+    APP_NAME
+  const locale = resolveLocale(sale.clientLocale, sale.trainerLocale)
+  const link = await createClientDashboardLink(trx, { clientId: sale.clientId, clientEmail })
+  link.searchParams.set('next', `/client-dashboard/sales/${saleId}`)
+
+  const email = await renderTrainerEmailTemplate(
+    trx,
+    trainerId,
+    'receipt',
+    {
+      clientFirstName: sale.clientFirstName,
+      serviceProviderName,
+      amountPaid: currencyFormat(new BigNumber(payment?.amount ?? 0), { locale, currency: sale.currency }),
+      receiptNumber: receipt.number,
+      dashboardLink: link,
+    },
+    locale
+  )
+
+  const attachments: SaleDocumentRef[] = [{ document: 'receipt', paymentId }]
+
+  await trx
+    .insertInto('mail')
+    .values({
+      trainer_id: trainerId,
+      client_id: sale.clientId,
+      from_email: NO_REPLY_EMAIL,
+      message_type: 'receipt',
+      from_name: `${serviceProviderName} via ${APP_NAME}`,
+      to_email: clientEmail,
+      to_name: null,
+      subject: email.subject,
+      html: ctaEmail({
+        receivingReason: email.receivingReason,
+        locale,
+        brandColor: sale.brandColor,
+        logo: sale.businessLogoUrl ? { url: sale.businessLogoUrl, alt: serviceProviderName } : undefined,
+        bodyHeading: email.heading,
+        bodyHtml: email.bodyHtml,
+        button: { text: email.buttonText, link },
+      }),
+      reply_to: null,
+      attachments: JSON.stringify(attachments),
+    })
+    .execute()
+
+  return true
+}
@@ -1,6 +1,8 @@
 import { z } from 'zod'
 import { db } from '@/lib/db'
 import { intervalFromMinutes } from '@/lib/db/values'
+import { recordCreditPackPurchase } from '@/server/creditLedger'
+import { applySaleProductTax, getProductTaxMode, taxModeSchema } from '@/server/salesTax'
 import { adaptSaleProductRow, fetchSaleProducts, saleProductSchema } from '../app/api/saleProducts/shared'
 
 const createSaleProductSchema = z.object({
@@ -16,6 +18,7 @@ const createSaleProductSchema = z.object({
   location: z.string().nullable().optional(),
   address: z.string().nullable().optional(),
   googlePlaceId: z.string().nullable().optional(),
+  taxMode: taxModeSchema.optional(),
 })
 
 export async function createSaleProductForTrainer(
@@ -57,6 +60,11 @@ export async function createSaleProductForTrainer(
       throw new Error('Failed to insert sale product')
     }
 
+    const taxMode = parsed.taxMode ?? (await getProductTaxMode(trx, trainerId, parsed.productId))
+    if (taxMode !== 'none') {
+      await applySaleProductTax(trx, { trainerId, saleProductId: inserted.id, price: parsed.price, taxMode })
+    }
+
     switch (parsed.type) {
       case 'creditPack': {
         await trx
@@ -68,6 +76,7 @@ export async function createSaleProductForTrainer(
             is_credit_pack: true,
           })
           .execute()
+        await recordCreditPackPurchase(trx, inserted.id)
         break
       }
       case 'item': {
@@ -2,6 +2,8 @@ import { addDays } from 'date-fns'
 import { z } from 'zod'
 import { APP_NAME, NO_REPLY_EMAIL } from '@/app/api/_lib/constants'
 import { db } from '@/lib/db'
+import { createTranslator, resolveLocale } from '@/lib/i18n'
+import { renderTrainerEmailTemplate } from '@/server/emailTemplates'
 
 const tailwind600: Record<string, string> = {
   amber: '#d97706',
@@ -38,9 +40,14 @@ const buildPaymentRequestEmail = (options: {
   serviceProviderName: string
   brandColor?: string | null
   businessLogoUrl?: string | null
+  heading: string
+  bodyHtml: string
+  buttonText: string
   link: URL
+  locale: string
 }) => {
-  const serviceProvider = options.serviceProviderName.trim() || `${APP_NAME} Team`
+  const { language, t } = createTranslator(options.locale)
+  const serviceProvider = options.serviceProviderName.trim() || t('email.teamName', { appName: APP_NAME })
   const buttonColor = resolveBrandColor(options.brandColor)
   const logo = options.businessLogoUrl
     ? `<img src="${options.businessLogoUrl}" alt="${escapeHtml(
@@ -50,7 +57,7 @@ const buildPaymentRequestEmail = (options: {
 
   return `
 <!doctype html>
-<html lang="en">
+<html lang="${language}">
   <body style="margin:0;padding:0;background-color:#f7f9fb;font-family:Arial,sans-serif;">
     <table role="presentation" cellpadding="0" cellspacing="0" width="100%">
       <tr>
@@ -63,24 +70,24 @@ const buildPaymentRequestEmail = (options: {
             </tr>
             <tr>
               <td style="font-size:22px;font-weight:700;color:#111827;text-align:center;padding-bottom:12px;">
-                Payment Request
+                ${escapeHtml(options.heading)}
               </td>
             </tr>
             <tr>
               <td style="font-size:16px;line-height:1.6;color:#1f2937;padding-bottom:16px;text-align:center;">
-                ${escapeHtml(serviceProvider)} has sent you a payment request. Please visit your dashboard to review and complete the payment.
+                ${options.bodyHtml}
               </td>
             </tr>
             <tr>
               <td align="center" style="padding:16px 0;">
                 <a href="${options.link.toString()}" style="background:${buttonColor};color:#ffffff;padding:14px 20px;border-radius:10px;text-decoration:none;font-weight:700;display:inline-block;">
-                  Go to Dashboard
+                  ${escapeHtml(options.buttonText)}
                 </a>
               </td>
             </tr>
             <tr>
               <td style="font-size:14px;line-height:1.6;color:#6b7280;padding-top:12px;text-align:center;">
-                If the button does not work, copy and paste this link into your browser:<br />
+                ${escapeHtml(t('email.buttonFallback'))}<br />
                 <a href="${options.link.toString()}" style="color:${buttonColor};">${escapeHtml(options.link.toString())}</a>
               </td>
             </tr>
@@ -233,12 +240,15 @@ export async function requestPaymentForSale(trainerId: string, saleId: string) {
         eb.ref('client.id').as('clientId'),
         eb.ref('client.user_id').as('clientUserId'),
         eb.ref('client.email').as('clientEmail'),
+        eb.ref('client.first_name').as('clientFirstName'),
+        eb.ref('client.locale').as('clientLocale'),
         eb.ref('trainer.online_bookings_business_name').as('onlineBookingsBusinessName'),
         eb.ref('trainer.business_name').as('businessName'),
         eb.ref('trainer.first_name').as('firstName'),
         eb.ref('trainer.last_name').as('lastName'),
         eb.ref('trainer.brand_color').as('brandColor'),
         eb.ref('trainer.business_logo_url').as('businessLogoUrl'),
+        eb.ref('trainer.locale').as('trainerLocale'),
       ])
       .where('sale.id', '=', saleId)
       .where('sale.trainer_id', '=', trainerId)
@@ -286,26 +296,43 @@ export async function requestPaymentForSale(trainerId: string, saleId: string) {
     link.hash = `/client/${details.clientId}/${tokenRow.id}?email=${encodeURIComponent(details.clientEmail)}`
     link.searchParams.set('next', `/client-dashboard/sales/${details.saleId}`)
 
+    const locale = resolveLocale(detailsRow.clientLocale, detailsRow.trainerLocale)
+    const senderName =
+      details.serviceProviderName.trim() || createTranslator(locale).t('email.teamName', { appName: APP_NAME })
+    const email = await renderTrainerEmailTemplate(
+      trx,
+      trainerId,
+      'payment_request',
+      {
+        clientFirstName: detailsRow.clientFirstName,
+        serviceProviderName: senderName,
+        dashboardLink: link,
+      },
+      locale
+    )
+
     const html = buildPaymentRequestEmail({
       serviceProviderName: details.serviceProviderName,
       brandColor: details.brandColor,
       businessLogoUrl: details.businessLogoUrl,
+      heading: email.heading,
+      bodyHtml: email.bodyHtml,
+      buttonText: email.buttonText,
       link,
+      locale,
     })
 
-    const senderName = details.serviceProviderName.trim() || `${APP_NAME} Team`
-    const subject = `Payment Request from ${senderName}`
-
     await trx
       .insertInto('mail')
       .values({
         trainer_id: trainerId,
         client_id: details.clientId,
         from_email: NO_REPLY_EMAIL,
+        message_type: 'payment_request',
         from_name: `${senderName} via ${APP_NAME}`,
         to_email: details.clientEmail,
         to_name: null,
-        subject,
+        subject: email.subject,
         html,
         reply_to: null,
       })
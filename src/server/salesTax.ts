@@ -0,0 +1,250 @@
+import type { Kysely, Transaction } from 'kysely'
+import BigNumber from 'bignumber.js'
+import { z } from 'zod'
+import type { Database } from '@/lib/db'
+
+type DbExecutor = Kysely<Database> | Transaction<Database>
+
+export const taxModes = ['none', 'inclusive', 'exclusive'] as const
+
+export const taxModeSchema = z.enum(taxModes)
+
+/**
+ * How a price relates to the trainer's enabled taxes. 'inclusive' prices already include them, so the tax is worked
+ * out of the price, and 'exclusive' prices are before tax, so the tax is added on top.
+ */
+export type TaxMode = z.infer<typeof taxModeSchema>
+
+export type TaxRate = { id: string; label: string; percent: BigNumber }
+
+export type TaxLine = {
+  taxId: string
+  label: string
+  percent: BigNumber
+  taxableAmount: BigNumber
+  amount: BigNumber
+}
+
+export type CalculatedTax = {
+  /** What the client pays, tax included. */
+  price: BigNumber
+  netAmount: BigNumber
+  taxAmount: BigNumber
+  lines: TaxLine[]
+}
+
+export class SaleProductNotFoundError extends Error {
+  constructor() {
+    super('Sale product not found')
+    this.name = 'SaleProductNotFoundError'
+  }
+}
+
+export const parseTaxMode = (value: string | null | undefined): TaxMode => {
+  const parsed = taxModeSchema.safeParse(value)
+  return parsed.success ? parsed.data : 'none'
+}
+
+/** The trainer's enabled taxes that have a rate, in the order they're listed in settings. */
+export const listTaxRates = async (executor: DbExecutor, trainerId: string): Promise<TaxRate[]> => {
+  const rows = await executor
+    .selectFrom('tax')
+    .select(['id', 'label', 'percent'])
+    .where('trainer_id', '=', trainerId)
+    .where('enabled', '=', true)
+    .where('percent', '>', '0')
+    .orderBy('id')
+    .execute()
+
+  return rows.map((row) => ({
+    id: row.id,
+    label: row.label?.trim() || 'Tax',
+    percent: new BigNumber(row.percent ?? 0),
+  }))
+}
+
+/**
+ * Splits a price into its net amount and a line per tax. Each tax applies to the net amount, not to other taxes. For
+ * inclusive prices the last line absorbs the rounding, so the lines always add up to the tax worked out of the price.
+ */
+export const calculateTax = (price: BigNumber.Value, taxMode: TaxMode, rates: TaxRate[]): CalculatedTax => {
+  const entered = new BigNumber(price)
+
+  if (taxMode === 'none' || rates.length === 0) {
+    return { price: entered, netAmount: entered, taxAmount: new BigNumber(0), lines: [] }
+  }
+
+  const totalPercent = rates.reduce((total, rate) => total.plus(rate.percent), new BigNumber(0))
+  const netAmount = taxMode === 'inclusive' ? entered.times(100).div(totalPercent.plus(100)).decimalPlaces(2) : entered
+
+  const lines = rates.map((rate) => ({
+    taxId: rate.id,
+    label: rate.label,
+    percent: rate.percent,
+    taxableAmount: netAmount,
+    amount: netAmount.times(rate.percent).div(100).decimalPlaces(2),
+  }))
+
+  if (taxMode === 'inclusive') {
+    const taxAmount = entered.minus(netAmount)
+    const last = lines.at(-1)
+    if (last) {
+      const others = lines.slice(0, -1).reduce((total, line) => total.plus(line.amount), new BigNumber(0))
+      last.amount = BigNumber.max(taxAmount.minus(others), 0)
+    }
+    return { price: entered, netAmount, taxAmount, lines }
+  }
+
+  const taxAmount = lines.reduce((total, line) => total.plus(line.amount), new BigNumber(0))
+  return { price: netAmount.plus(taxAmount), netAmount, taxAmount, lines }
+}
+
+/** The part of a sale's tax that a payment of `amount` towards its `total` covers. */
+export const taxShareOfPayment = ({
+  taxAmount,
+  total,
+  amount,
+}: {
+  taxAmount: BigNumber.Value
+  total: BigNumber.Value
+  amount: BigNumber.Value
+}) => {
+  const tax = new BigNumber(taxAmount)
+  const saleTotal = new BigNumber(total)
+  if (tax.lte(0) || saleTotal.lte(0)) {
+    return new BigNumber(0)
+  }
+  return BigNumber.min(tax.times(BigNumber.min(amount, saleTotal)).div(saleTotal).decimalPlaces(2), tax)
+}
+
+/** The tax mode a product is sold with by default, or 'none' for sales that aren't for a product. */
+export const getProductTaxMode = async (
+  executor: DbExecutor,
+  trainerId: string,
+  productId: string | null | undefined
+): Promise<TaxMode> => {
+  if (!productId) {
+    return 'none'
+  }
+
+  const row = await executor
+    .selectFrom('product')
+    .select('tax_mode')
+    .where('id', '=', productId)
+    .where('trainer_id', '=', trainerId)
+    .executeTakeFirst()
+
+  return parseTaxMode(row?.tax_mode)
+}
+
+/**
+ * Works out the tax on a sale product from the trainer's current rates, replacing its tax lines. `price` is the price
+ * as entered, before tax for 'exclusive' products, and the product's price becomes what the client pays.
+ */
+export const applySaleProductTax = async (
+  trx: Transaction<Database>,
+  {
+    trainerId,
+    saleProductId,
+    price,
+    taxMode,
+  }: { trainerId: string; saleProductId: string; price: BigNumber.Value; taxMode: TaxMode }
+) => {
+  const tax = calculateTax(price, taxMode, taxMode === 'none' ? [] : await listTaxRates(trx, trainerId))
+
+  const saleProduct = await trx
+    .updateTable('sale_product')
+    .set({
+      price: tax.price.toFixed(2),
+      tax_mode: taxMode,
+      tax_amount: tax.taxAmount.toFixed(2),
+      updated_at: new Date(),
+    })
+    .where('id', '=', saleProductId)
+    .where('trainer_id', '=', trainerId)
+    .returning('sale_id')
+    .executeTakeFirst()
+
+  if (!saleProduct) {
+    throw new SaleProductNotFoundError()
+  }
+
+  await trx.deleteFrom('sale_tax').where('sale_product_id', '=', saleProductId).execute()
+
+  if (tax.lines.length > 0) {
+    await trx
+      .insertInto('sale_tax')
+      .values(
+        tax.lines.map((line) => ({
+          trainer_id: trainerId,
+          sale_id: saleProduct.sale_id,
+          sale_product_id: saleProductId,
+          tax_id: line.taxId,
+          label: line.label,
+          percent: line.percent.toString(),
+          taxable_amount: line.taxableAmount.toFixed(2),
+          amount: line.amount.toFixed(2),
+        }))
+      )
+      .execute()
+  }
+
+  return tax
+}
+
+/** The price a sale product was entered with, which is before tax for 'exclusive' products. */
+export const enteredSaleProductPrice = ({
+  price,
+  taxMode,
+  taxAmount,
+}: {
+  price: BigNumber.Value
+  taxMode: string
+  taxAmount: BigNumber.Value
+}) => (parseTaxMode(taxMode) === 'exclusive' ? new BigNumber(price).minus(taxAmount) : new BigNumber(price))
+
+export type SaleTaxLine = {
+  saleProductId: string
+  taxId: string
+  label: string
+  percent: number
+  taxableAmount: string
+  amount: string
+}
+
+/** The tax lines charged on a sale, in the order the taxes are listed in settings. */
+export const fetchSaleTaxLines = async (
+  executor: DbExecutor,
+  trainerId: string,
+  saleId: string,
+  { clientId }: { clientId?: string } = {}
+) => {
+  let query = executor
+    .selectFrom('sale_tax as saleTax')
+    .innerJoin('sale', 'sale.id', 'saleTax.sale_id')
+    .select((eb) => [
+      eb.ref('saleTax.sale_product_id').as('saleProductId'),
+      eb.ref('saleTax.tax_id').as('taxId'),
+      eb.ref('saleTax.label').as('label'),
+      eb.ref('saleTax.percent').as('percent'),
+      eb.ref('saleTax.taxable_amount').as('taxableAmount'),
+      eb.ref('saleTax.amount').as('amount'),
+    ])
+    .where('saleTax.trainer_id', '=', trainerId)
+    .where('saleTax.sale_id', '=', saleId)
+
+  if (clientId) {
+    query = query.where('sale.client_id', '=', clientId)
+  }
+
+  const rows = await query.orderBy('saleTax.tax_id').orderBy('saleTax.created_at').execute()
+
+  return rows.map(
+    (row): SaleTaxLine => ({
+      ...row,
+      percent: Number(row.percent),
+      taxableAmount: new BigNumber(row.taxableAmount).toFixed(2),
+      amount: new BigNumber(row.amount).toFixed(2),
+    })
+  )
+}
@@ -0,0 +1,546 @@
+import type { ExpressionBuilder, Kysely, Transaction } from 'kysely'
+import type { IPostgresInterval } from 'postgres-interval'
+import { sql } from 'kysely'
+import type { Database } from '@/lib/db'
+import {
+  dailyRecurrenceRule,
+  expandRecurrenceRule,
+  formatRecurrenceRule,
+  isBoundedRecurrenceRule,
+  parseRecurrenceRule,
+  recurrenceRuleIntervalDays,
+  splitRecurrenceRule,
+  type RecurrenceRule,
+} from '@/lib/dates/recurrence'
+import {
+  compareLocalDateTimes,
+  localDateTimeToUtc,
+  parseIsoLocalDateTime,
+  utcToLocalDateTime,
+  type LocalDateTime,
+} from '@/lib/dates/timezone'
+import { intervalFromDays } from '@/lib/db/values'
+
+type DbExecutor = Kysely<Database> | Transaction<Database>
+
+export const MAX_SERIES_OCCURRENCES = 1000
+
+/** Session columns copied onto newly generated occurrences; per-occurrence state such as notes is left behind. */
+const templateSessionColumns = [
+  'session_series_id',
+  'trainer_id',
+  'duration',
+  'timezone',
+  'service_id',
+  'maximum_attendance',
+  'location',
+  'address',
+  'geo',
+  'google_place_id',
+  'bookable_online',
+  'booking_payment_type',
+  'service_provider_reminder_1',
+  'service_provider_reminder_2',
+  'service_provider_reminder_1_type',
+  'service_provider_reminder_2_type',
+  'client_reminder_1',
+  'client_reminder_2',
+  'client_reminder_1_type',
+  'client_reminder_2_type',
+  'buffer_minutes_before',
+  'buffer_minutes_after',
+  'description',
+  'can_clients_cancel',
+  'cancellation_advance_notice_duration',
+  'request_client_address_online',
+  'booking_question',
+  'booking_question_state',
+] as const
+
+export class PaidOccurrenceRemovalError extends Error {
+  constructor() {
+    super('Cannot remove a paid occurrence from a session series')
+    this.name = 'PaidOccurrenceRemovalError'
+  }
+}
+
+export type SeriesRecurrence = {
+  rule: RecurrenceRule | null
+  exdates: LocalDateTime[]
+}
+
+export type SeriesOccurrence = {
+  local: LocalDateTime
+  start: Date
+}
+
+const pad = (value: number, size = 2) => value.toString().padStart(size, '0')
+
+export const formatLocalIsoDateTime = (value: LocalDateTime) =>
+  `${pad(value.year, 4)}-${pad(value.month)}-${pad(value.day)}T${pad(value.hour)}:${pad(value.minute)}:${pad(
+    value.second
+  )}`
+
+/** Resolves the stored or requested recurrence, treating the legacy `repeatsEvery` as FREQ=DAILY;INTERVAL=n. */
+export const resolveSeriesRecurrence = (options: {
+  recurrenceRule: string | null | undefined
+  repeatsEvery?: number | null
+  exdates: readonly string[] | null | undefined
+}): SeriesRecurrence => {
+  const rule = options.recurrenceRule
+    ? parseRecurrenceRule(options.recurrenceRule)
+    : options.repeatsEvery
+      ? dailyRecurrenceRule(options.repeatsEvery)
+      : null
+
+  return {
+    rule,
+    exdates: (options.exdates ?? []).map((value) => parseIsoLocalDateTime(value)),
+  }
+}
+
+/** Values persisted on `session_series` for a recurrence, keeping the legacy daily interval in sync. */
+export const seriesRecurrenceColumns = (recurrence: SeriesRecurrence) => {
+  const intervalDays = recurrence.rule ? recurrenceRuleIntervalDays(recurrence.rule) : null
+
+  return {
+    recurrence_rule: recurrence.rule ? formatRecurrenceRule(recurrence.rule) : null,
+    recurrence_exdates: recurrence.exdates.map(formatLocalIsoDateTime),
+    daily_recurrence_interval: intervalDays ? intervalFromDays(intervalDays) : null,
+  }
+}
+
+export const isUnboundedSeriesRecurrence = (recurrence: SeriesRecurrence) =>
+  recurrence.rule !== null && !isBoundedRecurrenceRule(recurrence.rule)
+
+/** Expands a series into occurrence start instants, evaluated in the series timezone. */
+export const expandSeriesOccurrences = (options: {
+  recurrence: SeriesRecurrence
+  start: LocalDateTime
+  end: LocalDateTime | null
+  timeZone: string
+}): SeriesOccurrence[] => {
+  const { recurrence, start, end, timeZone } = options
+
+  const locals = recurrence.rule
+    ? expandRecurrenceRule({
+        rule: recurrence.rule,
+        start,
+        end,
+        timeZone,
+        exdates: recurrence.exdates,
+        limit: MAX_SERIES_OCCURRENCES,
+      })
+    : [start]
+
+  return locals.map((local) => ({ local, start: localDateTimeToUtc(local, timeZone) }))
+}
+
+/**
+ * Inserts sessions for `starts`, copying settings and active attendees from `templateSessionId`. Each new session
+ * records its occurrence start as `recurrence_id`.
+ */
+export const insertOccurrencesFromTemplate = async (
+  trx: DbExecutor,
+  options: { trainerId: string; templateSessionId: string; starts: Date[] }
+) => {
+  if (options.starts.length === 0) {
+    return []
+  }
+
+  const inserted = await trx
+    .insertInto('session')
+    .columns([...templateSessionColumns, 'start', 'recurrence_id'])
+    .expression(
+      trx
+        .selectFrom('session as template')
+        .innerJoin(sql<{ occurrence: Date }>`unnest(${options.starts}::timestamptz[])`.as('occurrence'), (join) =>
+          join.onTrue()
+        )
+        .select([
+          ...templateSessionColumns.map((column) => sql.ref(`template.${column}`).as(column)),
+          sql.ref('occurrence.occurrence').as('start'),
+          sql.ref('occurrence.occurrence').as('recurrence_id'),
+        ])
+        .where('template.id', '=', options.templateSessionId)
+        .where('template.trainer_id', '=', options.trainerId)
+    )
+    .returning(['id', 'start'])
+    .execute()
+
+  const attendees = await trx
+    .selectFrom('client_session')
+    .select(['client_id', 'price'])
+    .where('session_id', '=', options.templateSessionId)
+    .where('trainer_id', '=', options.trainerId)
+    .where('state', 'not in', ['cancelled', 'declined'])
+    .execute()
+
+  if (attendees.length > 0 && inserted.length > 0) {
+    await trx
+      .insertInto('client_session')
+      .values(
+        inserted.flatMap((session) =>
+          attendees.map((attendee) => ({
+            trainer_id: options.trainerId,
+            client_id: attendee.client_id,
+            session_id: session.id,
+            price: attendee.price,
+          }))
+        )
+      )
+      .execute()
+  }
+
+  return inserted
+}
+
+/**
+ * Deletes sessions that no longer belong to the series. Paid attendance blocks the removal so it can be refunded
+ * first, matching the "delete all" behaviour.
+ */
+export const deleteOccurrences = async (trx: DbExecutor, trainerId: string, sessionIds: string[]) => {
+  if (sessionIds.length === 0) {
+    return []
+  }
+
+  const paid = await trx
+    .selectFrom('client_session')
+    .innerJoin('sale_payment_status', 'sale_payment_status.sale_id', 'client_session.sale_id')
+    .select('client_session.id')
+    .where('client_session.session_id', 'in', sessionIds)
+    .where('sale_payment_status.payment_status', '=', 'paid')
+    .limit(1)
+    .executeTakeFirst()
+
+  if (paid) {
+    throw new PaidOccurrenceRemovalError()
+  }
+
+  const deleted = await trx
+    .deleteFrom('session')
+    .where('id', 'in', sessionIds)
+    .where('trainer_id', '=', trainerId)
+    .returning('id')
+    .execute()
+
+  return deleted.map((row) => row.id)
+}
+
+// Intervals arrive as ISO 8601 strings (see src/lib/db/client.ts), despite the generated column type.
+const intervalDays = (value: IPostgresInterval | string | null) => {
+  if (typeof value === 'string') {
+    const match = /^P(\d+)D$/.exec(value)
+    return match ? Number(match[1]) : null
+  }
+  return value?.days ?? null
+}
+
+/**
+ * Loads a series with its recurrence. Series created before RRULE support fall back to their daily interval.
+ */
+export const loadSeriesRecurrence = async (trx: DbExecutor, trainerId: string, sessionSeriesId: string) => {
+  const row = await trx
+    .selectFrom('session_series')
+    .select(['start', 'end_', 'timezone', 'recurrence_rule', 'recurrence_exdates', 'daily_recurrence_interval'])
+    .where('id', '=', sessionSeriesId)
+    .where('trainer_id', '=', trainerId)
+    .executeTakeFirstOrThrow()
+
+  const recurrence = resolveSeriesRecurrence({
+    recurrenceRule: row.recurrence_rule,
+    repeatsEvery: intervalDays(row.daily_recurrence_interval),
+    exdates: row.recurrence_exdates,
+  })
+
+  return {
+    series: {
+      start: new Date(row.start),
+      end: row.end_ ? new Date(row.end_) : null,
+      timezone: row.timezone,
+    },
+    recurrence,
+  }
+}
+
+/**
+ * Brings the sessions of a series starting at or after `from` in line with its stored rule: occurrences that
+ * disappeared are removed and new ones are created from the latest existing session. Sessions are matched on
+ * `recurrence_id` (falling back to `start` for legacy rows) so individually moved occurrences are kept.
+ */
+export const regenerateSeriesOccurrences = async (
+  trx: DbExecutor,
+  options: { trainerId: string; sessionSeriesId: string; from: Date; end: LocalDateTime | null }
+) => {
+  const { series, recurrence } = await loadSeriesRecurrence(trx, options.trainerId, options.sessionSeriesId)
+
+  const occurrences = expandSeriesOccurrences({
+    recurrence,
+    start: utcToLocalDateTime(series.start, series.timezone),
+    end: options.end,
+    timeZone: series.timezone,
+  })
+
+  const sessions = await trx
+    .selectFrom('session')
+    .select(['id', 'start', 'recurrence_id'])
+    .where('session_series_id', '=', options.sessionSeriesId)
+    .where('trainer_id', '=', options.trainerId)
+    .orderBy('start', 'desc')
+    .execute()
+
+  const template = sessions[0]
+  if (!template) {
+    return { createdSessionIds: [], deletedSessionIds: [], lastStart: null }
+  }
+
+  const occurrenceTimes = new Set(occurrences.map((occurrence) => occurrence.start.getTime()))
+  const sessionKey = (session: (typeof sessions)[number]) => new Date(session.recurrence_id ?? session.start).getTime()
+  const existingKeys = new Set(sessions.map(sessionKey))
+
+  const removed = sessions.filter(
+    (session) => new Date(session.start) >= options.from && !occurrenceTimes.has(sessionKey(session))
+  )
+  const missing = occurrences
+    .filter((occurrence) => occurrence.start >= options.from && !existingKeys.has(occurrence.start.getTime()))
+    .map((occurrence) => occurrence.start)
+
+  const created = await insertOccurrencesFromTemplate(trx, {
+    trainerId: options.trainerId,
+    templateSessionId: template.id,
+    starts: missing,
+  })
+  const deletedSessionIds = await deleteOccurrences(
+    trx,
+    options.trainerId,
+    removed.map((session) => session.id)
+  )
+
+  const lastStart = occurrences.at(-1)?.start ?? null
+
+  return { createdSessionIds: created.map((row) => row.id), deletedSessionIds, lastStart }
+}
+
+const sessionRecurrenceKey = (eb: ExpressionBuilder<Database, 'session'>) =>
+  eb.fn.coalesce('session.recurrence_id', 'session.start')
+
+/**
+ * Excludes one occurrence from the rule so that deleting a single session is not undone the next time the series
+ * is regenerated.
+ */
+export const excludeOccurrence = async (
+  trx: DbExecutor,
+  options: { trainerId: string; sessionSeriesId: string; recurrenceId: Date }
+) => {
+  const { series, recurrence } = await loadSeriesRecurrence(trx, options.trainerId, options.sessionSeriesId)
+
+  if (!recurrence.rule) {
+    return
+  }
+
+  const exdate = utcToLocalDateTime(options.recurrenceId, series.timezone)
+  if (recurrence.exdates.some((value) => compareLocalDateTimes(value, exdate) === 0)) {
+    return
+  }
+
+  await trx
+    .updateTable('session_series')
+    .set(seriesRecurrenceColumns({ ...recurrence, exdates: [...recurrence.exdates, exdate] }))
+    .where('id', '=', options.sessionSeriesId)
+    .where('trainer_id', '=', options.trainerId)
+    .execute()
+}
+
+const latestSessionStart = async (trx: DbExecutor, trainerId: string, sessionSeriesId: string) => {
+  const row = await trx
+    .selectFrom('session')
+    .select((eb) => eb.fn.max('start').as('start'))
+    .where('session_series_id', '=', sessionSeriesId)
+    .where('trainer_id', '=', trainerId)
+    .executeTakeFirst()
+
+  return row?.start ? new Date(row.start) : null
+}
+
+const splitSeriesRecurrence = (series: { start: Date; timezone: string }, recurrence: SeriesRecurrence, at: Date) => {
+  const splitAt = utcToLocalDateTime(at, series.timezone)
+  const { before, after } = recurrence.rule
+    ? splitRecurrenceRule({
+        rule: recurrence.rule,
+        start: utcToLocalDateTime(series.start, series.timezone),
+        splitAt,
+        timeZone: series.timezone,
+      })
+    : { before: null, after: null }
+
+  return {
+    before: {
+      rule: before,
+      exdates: recurrence.exdates.filter((value) => compareLocalDateTimes(value, splitAt) < 0),
+    },
+    after: {
+      rule: after,
+      exdates: recurrence.exdates.filter((value) => compareLocalDateTimes(value, splitAt) >= 0),
+    },
+  }
+}
+
+/**
+ * Ends the rule just before `at`, used when an occurrence and everything after it is deleted. The caller removes
+ * the sessions themselves.
+ */
+export const endSeriesBefore = async (
+  trx: DbExecutor,
+  options: { trainerId: string; sessionSeriesId: string; at: Date }
+) => {
+  const { series, recurrence } = await loadSeriesRecurrence(trx, options.trainerId, options.sessionSeriesId)
+
+  if (!recurrence.rule || options.at <= series.start) {
+    return
+  }
+
+  const { before } = splitSeriesRecurrence(series, recurrence, options.at)
+  const lastStart = await trx
+    .selectFrom('session')
+    .select((eb) => eb.fn.max('start').as('start'))
+    .where('session_series_id', '=', options.sessionSeriesId)
+    .where('trainer_id', '=', options.trainerId)
+    .where((eb) => eb(sessionRecurrenceKey(eb), '<', options.at))
+    .executeTakeFirst()
+
+  await trx
+    .updateTable('session_series')
+    .set({
+      ...seriesRecurrenceColumns(before),
+      end_: lastStart?.start ? new Date(lastStart.start) : series.start,
+    })
+    .where('id', '=', options.sessionSeriesId)
+    .where('trainer_id', '=', options.trainerId)
+    .execute()
+}
+
+/**
+ * Splits a series for a "this and following" edit. Sessions whose occurrence is at or after `at` move to a new
+ * series with the remainder of the rule, along with their attendance; earlier sessions stay where they are.
+ * Returns the id of the new series.
+ */
+export const splitSeriesAt = async (
+  trx: DbExecutor,
+  options: { trainerId: string; sessionSeriesId: string; at: Date }
+) => {
+  const { series, recurrence } = await loadSeriesRecurrence(trx, options.trainerId, options.sessionSeriesId)
+  const { before, after } = splitSeriesRecurrence(series, recurrence, options.at)
+
+  const existing = await trx
+    .selectFrom('session_series')
+    .select([
+      'event_type',
+      'name',
+      'duration',
+      'end_',
+      'location',
+      'price',
+      'color',
+      'session_icon_id',
+      'icon_url',
+      'description',
+    ])
+    .where('id', '=', options.sessionSeriesId)
+    .where('trainer_id', '=', options.trainerId)
+    .executeTakeFirstOrThrow()
+
+  const inserted = await trx
+    .insertInto('session_series')
+    .values({
+      ...existing,
+      ...seriesRecurrenceColumns(after),
+      trainer_id: options.trainerId,
+      timezone: series.timezone,
+      start: options.at,
+    })
+    .returning('id')
+    .executeTakeFirstOrThrow()
+
+  await trx
+    .updateTable('session')
+    .set({ session_series_id: inserted.id })
+    .where('session_series_id', '=', options.sessionSeriesId)
+    .where('trainer_id', '=', options.trainerId)
+    .where((eb) => eb(sessionRecurrenceKey(eb), '>=', options.at))
+    .execute()
+
+  const lastStartBefore = await latestSessionStart(trx, options.trainerId, options.sessionSeriesId)
+
+  await trx
+    .updateTable('session_series')
+    .set({ ...seriesRecurrenceColumns(before), end_: lastStartBefore ?? series.start })
+    .where('id', '=', options.sessionSeriesId)
+    .where('trainer_id', '=', options.trainerId)
+    .execute()
+
+  return inserted.id
+}
+
+export type TimeOfDay = { hour: number; minute: number; second: number }
+
+const withTimeOfDay = (value: Date, time: TimeOfDay, timeZone: string) =>
+  localDateTimeToUtc({ ...utcToLocalDateTime(value, timeZone), ...time, millisecond: 0 }, timeZone)
+
+/**
+ * Moves every upcoming occurrence of a series (and `includeSessionId`, even if it is in the past) to a new time of
+ * day, keeping each on its own local date. Detached occurrences keep their own start but have their
+ * `recurrence_id` moved so they still line up with the rule. Reminders of moved sessions are re-armed.
+ */
+export const moveSeriesTimeOfDay = async (
+  trx: DbExecutor,
+  options: { trainerId: string; sessionSeriesId: string; time: TimeOfDay; includeSessionId: string; now: Date }
+) => {
+  const { series, recurrence } = await loadSeriesRecurrence(trx, options.trainerId, options.sessionSeriesId)
+
+  await trx
+    .updateTable('session_series')
+    .set({
+      start: withTimeOfDay(series.start, options.time, series.timezone),
+      ...(recurrence.rule && series.end ? { end_: withTimeOfDay(series.end, options.time, series.timezone) } : {}),
+    })
+    .where('id', '=', options.sessionSeriesId)
+    .where('trainer_id', '=', options.trainerId)
+    .execute()
+
+  const sessions = await trx
+    .selectFrom('session')
+    .select(['id', 'start', 'recurrence_id'])
+    .where('session_series_id', '=', options.sessionSeriesId)
+    .where('trainer_id', '=', options.trainerId)
+    .where((eb) => eb.or([eb('start', '>=', options.now), eb('id', '=', options.includeSessionId)]))
+    .execute()
+
+  for (const session of sessions) {
+    const start = new Date(session.start)
+    const recurrenceId = session.recurrence_id ? new Date(session.recurrence_id) : null
+    const detached =
+      session.id !== options.includeSessionId && recurrenceId !== null && recurrenceId.getTime() !== start.getTime()
+    const movedRecurrenceId = withTimeOfDay(recurrenceId ?? start, options.time, series.timezone)
+
+    await trx
+      .updateTable('session')
+      .set(
+        detached
+          ? { recurrence_id: movedRecurrenceId }
+          : {
+              start:
+                session.id === options.includeSessionId
+                  ? withTimeOfDay(start, options.time, series.timezone)
+                  : movedRecurrenceId,
+              recurrence_id: movedRecurrenceId,
+              service_provider_reminder_1_checked_at: null,
+              service_provider_reminder_2_checked_at: null,
+              client_reminder_1_checked_at: null,
+              client_reminder_2_checked_at: null,
+            }
+      )
+      .where('id', '=', session.id)
+      .where('trainer_id', '=', options.trainerId)
+      .execute()
+  }
+}
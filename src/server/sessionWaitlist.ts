@@ -0,0 +1,314 @@
+import type { Kysely, Transaction } from 'kysely'
+import type { CountryCode } from 'libphonenumber-js'
+import { sql } from 'kysely'
+import { parsePhoneNumberFromString } from 'libphonenumber-js/min'
+import type { Database } from '@/lib/db'
+import { APP_NAME, NO_REPLY_EMAIL } from '@/app/api/_lib/constants'
+import { createTranslator, resolveLocale } from '@/lib/i18n'
+import { type EmailTemplateContent, getEmailTemplate, renderEmailTemplate } from '@/server/emailTemplates'
+import { enqueueWorkflowTask } from '@/server/workflow/outbox'
+import { ctaEmail } from '@/server/workflow/templates/ctaEmail'
+import { joinIgnoreEmpty } from '@/server/workflow/utils'
+
+type DbExecutor = Kysely<Database> | Transaction<Database>
+
+/** How long a promoted client has to claim their spot before it is offered to the next person in line. */
+export const WAITLIST_CLAIM_WINDOW_MS = 12 * 60 * 60 * 1000
+
+/** Client session states that take up a spot towards `session.maximum_attendance`. */
+export const attendingClientSessionStates = ['accepted', 'confirmed'] as const
+
+export class WaitlistClaimNotFoundError extends Error {
+  constructor() {
+    super('Booking not found')
+    this.name = 'WaitlistClaimNotFoundError'
+  }
+}
+
+export class NoPendingWaitlistClaimError extends Error {
+  constructor() {
+    super('This booking has no waitlist spot to claim.')
+    this.name = 'NoPendingWaitlistClaimError'
+  }
+}
+
+export class WaitlistClaimExpiredError extends Error {
+  constructor() {
+    super('The time to claim this waitlist spot has passed.')
+    this.name = 'WaitlistClaimExpiredError'
+  }
+}
+
+const formatDateTime = (value: Date, locale: string, timeZone: string) =>
+  new Intl.DateTimeFormat(locale, {
+    weekday: 'short',
+    month: 'short',
+    hour: 'numeric',
+    minute: 'numeric',
+    timeZoneName: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone,
+  }).format(value)
+
+/**
+ * Promotes waitlisted clients, oldest first, into any spots that are free on the session. Promoted clients hold
+ * an `accepted` spot until `waitlist_claim_expires_at` and are sent a link to claim it; unclaimed spots are released
+ * by the `expireWaitlistClaim` task.
+ */
+export const promoteWaitlistedClients = async (trx: Transaction<Database>, sessionId: string) => {
+  // Serialises promotions for the session so concurrent cancellations can't hand out the same spot twice.
+  const locked = await trx
+    .selectFrom('session')
+    .select(['session.id', 'session.maximum_attendance as maximumAttendance', 'session.start'])
+    .where('session.id', '=', sessionId)
+    .forUpdate()
+    .executeTakeFirst()
+
+  const now = new Date()
+  if (!locked || locked.maximumAttendance === null || new Date(locked.start) <= now) {
+    return []
+  }
+
+  const attending = await trx
+    .selectFrom('client_session')
+    .select((eb) => eb.fn.countAll<string>().as('count'))
+    .where('client_session.session_id', '=', sessionId)
+    .where('client_session.state', 'in', attendingClientSessionStates)
+    .executeTakeFirstOrThrow()
+
+  const availableSpots = locked.maximumAttendance - Number(attending.count)
+  if (availableSpots <= 0) {
+    return []
+  }
+
+  const promotions = await trx
+    .selectFrom('client_session')
+    .innerJoin('client', 'client.id', 'client_session.client_id')
+    .select((eb) => [
+      eb.ref('client_session.id').as('id'),
+      eb.ref('client_session.booking_id').as('bookingId'),
+      eb.ref('client.id').as('clientId'),
+      eb.ref('client.first_name').as('firstName'),
+      eb.ref('client.last_name').as('lastName'),
+      eb.ref('client.email').as('email'),
+      eb.ref('client.mobile_number').as('mobileNumber'),
+      eb.ref('client.locale').as('locale'),
+    ])
+    .where('client_session.session_id', '=', sessionId)
+    .where('client_session.state', '=', 'waitlisted')
+    .orderBy('client_session.waitlisted_at')
+    .orderBy('client_session.created_at')
+    .limit(availableSpots)
+    .forUpdate()
+    .execute()
+
+  if (promotions.length === 0) {
+    return []
+  }
+
+  const start = new Date(locked.start)
+  const claimExpiresAt = new Date(Math.min(now.getTime() + WAITLIST_CLAIM_WINDOW_MS, start.getTime()))
+
+  await trx
+    .updateTable('client_session')
+    .set({ state: 'accepted', accept_time: now, waitlist_claim_expires_at: claimExpiresAt })
+    .where(
+      'id',
+      'in',
+      promotions.map((promotion) => promotion.id)
+    )
+    .execute()
+
+  const details = await trx
+    .selectFrom('session')
+    .innerJoin('session_series', 'session_series.id', 'session.session_series_id')
+    .innerJoin('trainer', 'trainer.id', 'session.trainer_id')
+    .innerJoin('country', 'country.id', 'trainer.country_id')
+    .leftJoin('sms_balance', 'sms_balance.trainer_id', 'trainer.id')
+    .select((eb) => [
+      eb.ref('trainer.id').as('trainerId'),
+      eb.ref('trainer.user_id').as('userId'),
+      eb.ref('trainer.online_bookings_business_name').as('onlineBookingsBusinessName'),
+      eb.ref('trainer.business_name').as('businessName'),
+      eb.ref('trainer.first_name').as('trainerFirstName'),
+      eb.ref('trainer.last_name').as('trainerLastName'),
+      eb.ref('trainer.online_bookings_contact_email').as('onlineBookingsContactEmail'),
+      eb.ref('trainer.email').as('trainerEmail'),
+      eb.ref('trainer.brand_color').as('brandColor'),
+      eb.ref('trainer.business_logo_url').as('businessLogoUrl'),
+      eb.ref('trainer.locale').as('locale'),
+      eb.ref('country.alpha_2_code').as('country'),
+      eb.ref('sms_balance.credit_balance').as('smsCreditBalance'),
+      eb.ref('session_series.name').as('name'),
+      eb.ref('session.timezone').as('timezone'),
+    ])
+    .where('session.id', '=', sessionId)
+    .executeTakeFirstOrThrow()
+
+  const serviceProviderName =
+    details.onlineBookingsBusinessName ??
+    details.businessName ??
+    (joinIgnoreEmpty(details.trainerFirstName, details.trainerLastName) || APP_NAME)
+  const formattedStart = formatDateTime(start, details.locale ?? 'en-US', details.timezone)
+  const baseUrl = process.env.BASE_URL ?? 'http://localhost:3001'
+  let smsCredits = BigInt(details.smsCreditBalance ?? 0)
+  const templates = new Map<string, EmailTemplateContent>()
+
+  for (const promotion of promotions) {
+    const bookingId = promotion.bookingId ?? promotion.id
+    const claimUrl = new URL(`/book/bookings/${encodeURIComponent(bookingId)}`, baseUrl)
+    const { locale, t } = createTranslator(resolveLocale(promotion.locale, details.locale))
+    const appointmentName = details.name ?? t('common.appointment')
+    const appointmentTime = formatDateTime(start, locale, details.timezone)
+    const claimExpiry = formatDateTime(claimExpiresAt, locale, details.timezone)
+
+    if (promotion.email) {
+      let template = templates.get(locale)
+      if (!template) {
+        template = (await getEmailTemplate(trx, details.trainerId, 'waitlist_spot_opened', locale)).content
+        templates.set(locale, template)
+      }
+      const email = renderEmailTemplate(
+        'waitlist_spot_opened',
+        template,
+        {
+          clientFirstName: promotion.firstName,
+          serviceProviderName,
+          appointmentName,
+          appointmentTime,
+          claimExpiresAt: claimExpiry,
+        },
+        locale
+      )
+
+      await trx
+        .insertInto('mail')
+        .values({
+          trainer_id: details.trainerId,
+          client_id: promotion.clientId,
+          from_email: NO_REPLY_EMAIL,
+          message_type: 'waitlist_spot_opened',
+          from_name: `${serviceProviderName} via ${APP_NAME}`,
+          to_email: promotion.email,
+          to_name: joinIgnoreEmpty(promotion.firstName, promotion.lastName) || null,
+          subject: email.subject,
+          html: ctaEmail({
+            receivingReason: email.receivingReason,
+            locale,
+            brandColor: details.brandColor,
+            logo: details.businessLogoUrl ? { url: details.businessLogoUrl, alt: serviceProviderName } : undefined,
+            bodyHeading: email.heading,
+            bodyHtml: email.bodyHtml,
+            button: { text: email.buttonText, link: claimUrl },
+          }),
+          reply_to: details.onlineBookingsContactEmail ?? details.trainerEmail,
+        })
+        .execute()
+    }
+
+    const phoneNumber = promotion.mobileNumber
+      ? parsePhoneNumberFromString(promotion.mobileNumber, details.country.toUpperCase() as CountryCode)
+      : undefined
+
+    if (phoneNumber?.isValid() && smsCredits >= 1n) {
+      await trx
+        .insertInto('sms')
+        .values({
+          trainer_id: details.trainerId,
+          client_id: promotion.clientId,
+          from_number: null,
+          message_type: 'waitlist_spot_opened',
+          to_number: phoneNumber.format('E.164'),
+          body: t('sms.waitlistSpotOpened', {
+            appointmentName,
+            serviceProviderName,
+            appointmentTime,
+            claimExpiresAt: claimExpiry,
+            link: claimUrl.toString(),
+          }),
+        })
+        .execute()
+      smsCredits -= 1n
+    }
+
+    await enqueueWorkflowTask(
+      trx,
+      'expireWaitlistClaim',
+      { clientSessionId: promotion.id },
+      {
+        dedupeKey: `expireWaitlistClaim:${promotion.id}:${claimExpiresAt.toISOString()}`,
+        availableAt: claimExpiresAt,
+      }
+    )
+
+    await enqueueWorkflowTask(
+      trx,
+      'user.notify',
+      {
+        userId: details.userId,
+        clientId: promotion.clientId,
+        messageType: 'default',
+        notificationType: 'general',
+        title: 'Waitlist spot offered',
+        body: `${joinIgnoreEmpty(promotion.firstName, promotion.lastName) || 'A client'} was offered a spot in ${details.name ?? 'Appointment'} on ${formattedStart} from the waitlist`,
+      },
+      { dedupeKey: `user.notify:waitlistPromotion:${promotion.id}:${claimExpiresAt.toISOString()}` }
+    )
+  }
+
+  return promotions.map((promotion) => promotion.id)
+}
+
+/** Confirms a promoted client's spot, provided they claim it before the claim window closes. */
+export const claimWaitlistSpot = async (trx: DbExecutor, bookingId: string) => {
+  const clientSession = await trx
+    .selectFrom('client_session')
+    .select(['id', 'state', 'waitlist_claim_expires_at as claimExpiresAt'])
+    .where('booking_id', '=', bookingId)
+    .forUpdate()
+    .executeTakeFirst()
+
+  if (!clientSession) {
+    throw new WaitlistClaimNotFoundError()
+  }
+
+  if (clientSession.state !== 'accepted' || clientSession.claimExpiresAt === null) {
+    throw new NoPendingWaitlistClaimError()
+  }
+
+  if (new Date(clientSession.claimExpiresAt) <= new Date()) {
+    throw new WaitlistClaimExpiredError()
+  }
+
+  await trx
+    .updateTable('client_session')
+    .set({ state: 'confirmed', confirm_time: new Date(), waitlist_claim_expires_at: null })
+    .where('id', '=', clientSession.id)
+    .execute()
+
+  return clientSession.id
+}
+
+/** Releases a promoted client's spot once their claim window has passed, then offers it to the next in line. */
+export const expireWaitlistClaim = async (trx: Transaction<Database>, clientSessionId: string) => {
+  const expired = await trx
+    .updateTable('client_session')
+    .set({
+      state: 'cancelled',
+      cancel_time: new Date(),
+      cancel_reason: 'Waitlist spot was not claimed in time',
+      waitlist_claim_expires_at: null,
+    })
+    .where('id', '=', clientSessionId)
+    .where('state', '=', 'accepted')
+    .where('waitlist_claim_expires_at', '<=', sql<Date>`now()`)
+    .returning('session_id')
+    .executeTakeFirst()
+
+  if (!expired) {
+    return []
+  }
+
+  return promoteWaitlistedClients(trx, expired.session_id)
+}
@@ -0,0 +1,207 @@
+import type { Kysely, Transaction } from 'kysely'
+import BigNumber from 'bignumber.js'
+import type { Database } from '@/lib/db'
+import { addDaysToLocalDateTime, localDateTimeToUtc, parseIsoLocalDateTime } from '@/lib/dates/timezone'
+
+type DbExecutor = Kysely<Database> | Transaction<Database>
+
+export class TaxSummaryTrainerNotFoundError extends Error {
+  constructor() {
+    super('Trainer not found')
+    this.name = 'TaxSummaryTrainerNotFoundError'
+  }
+}
+
+export type TaxSummaryLine = {
+  taxId: string
+  label: string
+  percent: number
+  /** Sales before tax that were paid for in the period. */
+  taxableSales: string
+  taxCollected: string
+  /** Sales before tax that were refunded in the period. */
+  taxableRefunds: string
+  taxRefunded: string
+  netTax: string
+}
+
+export type TaxSummary = {
+  startDate: string
+  endDate: string
+  timezone: string
+  currency: string
+  taxes: TaxSummaryLine[]
+  /** Taxable amounts aren't totalled, since a sale charged several taxes counts towards each of them. */
+  totals: Pick<TaxSummaryLine, 'taxCollected' | 'taxRefunded' | 'netTax'>
+}
+
+type Accumulator = {
+  taxId: string
+  label: string
+  percent: string
+  taxableSales: BigNumber
+  taxCollected: BigNumber
+  taxableRefunds: BigNumber
+  taxRefunded: BigNumber
+}
+
+const saleTotals = (executor: DbExecutor) =>
+  executor
+    .selectFrom('sale_product')
+    .select((eb) => [
+      eb.ref('sale_product.sale_id').as('saleId'),
+      eb.fn.sum<string>('sale_product.price').as('total'),
+      eb.fn.sum<string>('sale_product.tax_amount').as('taxAmount'),
+    ])
+    .groupBy('sale_product.sale_id')
+    .as('saleTotal')
+
+/**
+ * Tax collected and refunded over a period, one line per tax rate, for filing GST/VAT returns. It's on a cash basis: a
+ * sale's tax counts when it's paid, in proportion to how much of the sale was paid, and refunds take theirs back when
+ * they're given. Dates are the trainer's local days and both ends are included.
+ *
+ * Payments with credit pack credits are left out, as the tax on them was counted when the pack was paid for.
+ */
+export const getTaxSummary = async (
+  executor: DbExecutor,
+  trainerId: string,
+  { startDate, endDate }: { startDate: string; endDate: string }
+): Promise<TaxSummary> => {
+  const trainer = await executor
+    .selectFrom('trainer')
+    .innerJoin(
+      'supported_country_currency as supportedCountryCurrency',
+      'supportedCountryCurrency.country_id',
+      'trainer.country_id'
+    )
+    .innerJoin('currency', 'currency.id', 'supportedCountryCurrency.currency_id')
+    .select(['trainer.timezone as timezone', 'currency.alpha_code as currency'])
+    .where('trainer.id', '=', trainerId)
+    .executeTakeFirst()
+
+  if (!trainer) {
+    throw new TaxSummaryTrainerNotFoundError()
+  }
+
+  const periodStart = localDateTimeToUtc(parseIsoLocalDateTime(`${startDate}T00:00:00`), trainer.timezone)
+  const periodEnd = localDateTimeToUtc(
+    addDaysToLocalDateTime(parseIsoLocalDateTime(`${endDate}T00:00:00`), 1),
+    trainer.timezone
+  )
+
+  const [payments, refunds] = await Promise.all([
+    executor
+      .selectFrom('payment')
+      .innerJoin(saleTotals(executor), 'saleTotal.saleId', 'payment.sale_id')
+      .innerJoin('sale_tax as saleTax', 'saleTax.sale_id', 'payment.sale_id')
+      .leftJoin('payment_manual as paymentManual', 'paymentManual.id', 'payment.id')
+      .select((eb) => [
+        eb.ref('payment.amount').as('paid'),
+        eb.ref('saleTotal.total').as('saleTotal'),
+        eb.ref('saleTax.tax_id').as('taxId'),
+        eb.ref('saleTax.label').as('label'),
+        eb.ref('saleTax.percent').as('percent'),
+        eb.ref('saleTax.taxable_amount').as('taxableAmount'),
+        eb.ref('saleTax.amount').as('taxAmount'),
+      ])
+      .where('payment.trainer_id', '=', trainerId)
+      .where((eb) => eb.or([eb('payment.is_credit_pack', 'is', null), eb('payment.is_credit_pack', '=', false)]))
+      .where((eb) => eb(eb.fn.coalesce('paymentManual.transaction_time', 'payment.created_at'), '>=', periodStart))
+      .where((eb) => eb(eb.fn.coalesce('paymentManual.transaction_time', 'payment.created_at'), '<', periodEnd))
+      .execute(),
+    executor
+      .selectFrom('payment_refund as refund')
+      .innerJoin('payment', 'payment.id', 'refund.payment_id')
+      .innerJoin(saleTotals(executor), 'saleTotal.saleId', 'payment.sale_id')
+      .innerJoin('sale_tax as saleTax', 'saleTax.sale_id', 'payment.sale_id')
+      .select((eb) => [
+        eb.ref('refund.amount').as('refunded'),
+        eb.ref('refund.tax_amount').as('refundTax'),
+        eb.ref('saleTotal.total').as('saleTotal'),
+        eb.ref('saleTotal.taxAmount').as('saleTax'),
+        eb.ref('saleTax.tax_id').as('taxId'),
+        eb.ref('saleTax.label').as('label'),
+        eb.ref('saleTax.percent').as('percent'),
+        eb.ref('saleTax.taxable_amount').as('taxableAmount'),
+        eb.ref('saleTax.amount').as('taxAmount'),
+      ])
+      .where('refund.trainer_id', '=', trainerId)
+      .where('refund.created_at', '>=', periodStart)
+      .where('refund.created_at', '<', periodEnd)
+      .execute(),
+  ])
+
+  const lines = new Map<string, Accumulator>()
+  const lineFor = (row: { taxId: string; label: string; percent: string }) => {
+    const key = `${row.taxId}:${row.label}:${new BigNumber(row.percent).toString()}`
+    let line = lines.get(key)
+    if (!line) {
+      line = {
+        taxId: row.taxId,
+        label: row.label,
+        percent: row.percent,
+        taxableSales: new BigNumber(0),
+        taxCollected: new BigNumber(0),
+        taxableRefunds: new BigNumber(0),
+        taxRefunded: new BigNumber(0),
+      }
+      lines.set(key, line)
+    }
+    return line
+  }
+
+  for (const row of payments) {
+    const saleTotal = new BigNumber(row.saleTotal)
+    if (saleTotal.lte(0)) {
+      continue
+    }
+    const share = BigNumber.min(row.paid, saleTotal).div(saleTotal)
+    const line = lineFor(row)
+    line.taxableSales = line.taxableSales.plus(share.times(row.taxableAmount))
+    line.taxCollected = line.taxCollected.plus(share.times(row.taxAmount))
+  }
+
+  for (const row of refunds) {
+    const saleTotal = new BigNumber(row.saleTotal)
+    const saleTax = new BigNumber(row.saleTax)
+    if (saleTotal.lte(0) || saleTax.lte(0)) {
+      continue
+    }
+    const line = lineFor(row)
+    line.taxableRefunds = line.taxableRefunds.plus(new BigNumber(row.refunded).div(saleTotal).times(row.taxableAmount))
+    // The refund's tax was worked out for the whole sale, so each tax gets its part of it.
+    line.taxRefunded = line.taxRefunded.plus(new BigNumber(row.refundTax).times(row.taxAmount).div(saleTax))
+  }
+
+  const taxes = [...lines.values()]
+    .toSorted((left, right) => left.taxId.localeCompare(right.taxId) || left.label.localeCompare(right.label))
+    .map(
+      (line): TaxSummaryLine => ({
+        taxId: line.taxId,
+        label: line.label,
+        percent: Number(line.percent),
+        taxableSales: line.taxableSales.toFixed(2),
+        taxCollected: line.taxCollected.toFixed(2),
+        taxableRefunds: line.taxableRefunds.toFixed(2),
+        taxRefunded: line.taxRefunded.toFixed(2),
+        netTax: line.taxCollected.decimalPlaces(2).minus(line.taxRefunded.decimalPlaces(2)).toFixed(2),
+      })
+    )
+
+  const sum = (key: keyof TaxSummary['totals']) =>
+    taxes.reduce((total, line) => total.plus(line[key]), new BigNumber(0)).toFixed(2)
+
+  return {
+    startDate,
+    endDate,
+    timezone: trainer.timezone,
+    currency: trainer.currency,
+    taxes,
+    totals: {
+      taxCollected: sum('taxCollected'),
+      taxRefunded: sum('taxRefunded'),
+      netTax: sum('netTax'),
+    },
+  }
+}
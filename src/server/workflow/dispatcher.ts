@@ -1,7 +1,15 @@
 import { start } from 'workflow/api'
 import { db } from '@/lib/db'
 import { processOutboxTaskWorkflow } from '@/workflows/outbox/process-task'
-import { DEFAULT_OUTBOX_MAX_ATTEMPTS, normalizeErrorMessage, OUTBOX_STATUS } from './outbox-shared'
+import {
+  createLocalOutboxRunId,
+  isLocalOutboxRunner,
+  runOutboxTaskLocally,
+  waitForLocalOutboxQueue,
+} from './localRunner'
+import { recordDispatchCycle, recordOutboxDispatch } from './metrics'
+import { OUTBOX_EVENT, OUTBOX_LOCK_TIMEOUT_SECONDS, OUTBOX_STATUS, settleFailedOutboxTask } from './outbox-shared'
+import { enqueueDueScheduledTasks } from './schedules'
 import { parseWorkflowTaskPayload, workflowTaskTypeSchema } from './types'
 
 const parseOptionalNumber = (value: string | undefined, fallback: number) => {
@@ -15,7 +23,7 @@ const parseOptionalNumber = (value: string | undefined, fallback: number) => {
 const DISPATCH_INTERVAL_MS = parseOptionalNumber(process.env.WORKFLOW_OUTBOX_POLL_INTERVAL_MS, 1_500)
 const CLAIM_BATCH_SIZE = parseOptionalNumber(process.env.WORKFLOW_OUTBOX_CLAIM_BATCH_SIZE, 20)
 const DISPATCH_CONCURRENCY = parseOptionalNumber(process.env.WORKFLOW_OUTBOX_DISPATCH_CONCURRENCY, 4)
-const LOCK_TIMEOUT_SECONDS = 120
+const SCHEDULE_SYNC_INTERVAL_MS = parseOptionalNumber(process.env.WORKFLOW_SCHEDULE_SYNC_INTERVAL_MS, 30_000)
 const MISSING_RELATION_CODE = '42P01'
 
 type WorkflowOutboxRecord = {
@@ -42,7 +50,7 @@ const isMissingOutboxTableError = (error: unknown) => {
 
 const ensureStaleDispatchesAreReleased = async () => {
   const now = new Date()
-  const staleCutoff = new Date(Date.now() - LOCK_TIMEOUT_SECONDS * 1000)
+  const staleCutoff = new Date(Date.now() - OUTBOX_LOCK_TIMEOUT_SECONDS * 1000)
 
   await db
     .updateTable('workflow_outbox')
@@ -126,44 +134,16 @@ const markOutboxRowAsDispatched = async (outboxId: string, runId: string) => {
 }
 
 const markOutboxRowAsFailedToDispatch = async (record: WorkflowOutboxRecord, error: unknown) => {
-  const message = normalizeErrorMessage(error)
-  const hasAttemptsRemaining = record.attempts < (record.maxAttempts || DEFAULT_OUTBOX_MAX_ATTEMPTS)
-  const baseDelaySeconds = Math.min(3_600, Math.max(5, 2 ** Math.max(0, record.attempts - 1)))
-  const jitter = 0.8 + Math.random() * 0.4
-  const retryDelaySeconds = Math.min(3_600, Math.max(5, Math.round(baseDelaySeconds * jitter)))
-
-  if (!hasAttemptsRemaining) {
-    const now = new Date()
-    await db
-      .updateTable('workflow_outbox')
-      .set({
-        status: OUTBOX_STATUS.Failed,
-        failed_at: now,
-        last_error: message,
-        locked_at: null,
-        locked_by: null,
-        updated_at: now,
-      })
-      .where('id', '=', record.id)
-      .execute()
-
-    return
-  }
-
-  const now = new Date()
-  const retryAt = new Date(Date.now() + retryDelaySeconds * 1000)
-  await db
-    .updateTable('workflow_outbox')
-    .set({
-      status: OUTBOX_STATUS.Pending,
-      available_at: retryAt,
-      last_error: message,
-      locked_at: null,
-      locked_by: null,
-      updated_at: now,
+  await db.transaction().execute((trx) =>
+    settleFailedOutboxTask(trx, {
+      outboxId: record.id,
+      taskType: record.taskType,
+      attempts: record.attempts,
+      maxAttempts: record.maxAttempts,
+      error,
+      event: OUTBOX_EVENT.DispatchFailed,
     })
-    .where('id', '=', record.id)
-    .execute()
+  )
 }
 
 const dispatchOutboxRecord = async (record: WorkflowOutboxRecord) => {
@@ -171,17 +151,28 @@ const dispatchOutboxRecord = async (record: WorkflowOutboxRecord) => {
     const taskType = workflowTaskTypeSchema.parse(record.taskType)
     const payload = parseWorkflowTaskPayload(taskType, record.payload)
 
-    const run = await start(processOutboxTaskWorkflow, [
-      {
-        outboxId: record.id,
-        taskType,
-        payload,
-        dedupeKey: record.dedupeKey,
-      },
-    ])
+    const task = {
+      outboxId: record.id,
+      taskType,
+      payload,
+      dedupeKey: record.dedupeKey,
+    }
+
+    // A local run can finish before `start` would return, so the row is marked dispatched before it runs.
+    if (isLocalOutboxRunner()) {
+      const runId = createLocalOutboxRunId()
+      await markOutboxRowAsDispatched(record.id, runId)
+      recordOutboxDispatch(record.taskType, 'dispatched')
+      await runOutboxTaskLocally(task, runId)
+      return
+    }
+
+    const run = await start(processOutboxTaskWorkflow, [task])
 
     await markOutboxRowAsDispatched(record.id, run.runId)
+    recordOutboxDispatch(record.taskType, 'dispatched')
   } catch (error) {
+    recordOutboxDispatch(record.taskType, 'failed')
     await markOutboxRowAsFailedToDispatch(record, error)
   }
 }
@@ -207,12 +198,31 @@ const dispatchOutboxRecords = async (records: WorkflowOutboxRecord[], concurrenc
   await Promise.allSettled(workers)
 }
 
+let lastScheduleSyncAt = 0
+
+/** Schedules fire on the minute at most, so there's no need to check them on every poll. */
+const enqueueScheduledTasksIfDue = async () => {
+  if (Date.now() - lastScheduleSyncAt < SCHEDULE_SYNC_INTERVAL_MS) {
+    return
+  }
+
+  lastScheduleSyncAt = Date.now()
+  try {
+    await enqueueDueScheduledTasks()
+  } catch (error) {
+    console.error('Failed to enqueue scheduled workflow tasks', error)
+  }
+}
+
 const runDispatchCycle = async (workerId: string, limit = CLAIM_BATCH_SIZE, concurrency = DISPATCH_CONCURRENCY) => {
+  const startedAt = performance.now()
   await ensureStaleDispatchesAreReleased()
+  await enqueueScheduledTasksIfDue()
 
   const records = await claimPendingOutboxRows(workerId, limit)
   await dispatchOutboxRecords(records, concurrency)
 
+  recordDispatchCycle((performance.now() - startedAt) / 1000, records.length)
   return records.length
 }
 
@@ -258,6 +268,37 @@ export const dispatchOutboxOnce = async (
   }
 }
 
+/**
+ * Dispatches due tasks until none are left, waiting for each batch to run so tasks queued by other tasks are picked up
+ * too. Only works with a local runner; it's meant for scripts and end-to-end tests that need the outbox to settle.
+ */
+export const runOutboxUntilIdle = async ({ maxCycles = 100 }: { maxCycles?: number } = {}) => {
+  if (!isLocalOutboxRunner()) {
+    throw new Error('runOutboxUntilIdle needs WORKFLOW_OUTBOX_RUNNER set to local or local-sync.')
+  }
+
+  let dispatched = 0
+  for (let cycle = 0; cycle < maxCycles; cycle++) {
+    const result = await dispatchOutboxOnce({ workerId: 'local:drain', reason: 'drain' })
+    await waitForLocalOutboxQueue()
+
+    if (result.skipped && result.reason === 'busy') {
+      await new Promise((resolve) => {
+        setTimeout(resolve, 50)
+      })
+      continue
+    }
+
+    if (result.skipped || result.claimed === 0) {
+      return dispatched
+    }
+
+    dispatched += result.claimed
+  }
+
+  throw new Error(`Workflow outbox was still busy after ${maxCycles} dispatch cycles.`)
+}
+
 export const startWorkflowOutboxDispatcher = () => {
   if (process.env.WORKFLOW_OUTBOX_DISPATCHER_ENABLED === 'false') {
     return () => void 0
@@ -0,0 +1,291 @@
+import { db } from '@/lib/db'
+import {
+  normalizeErrorMessage,
+  OUTBOX_EVENT,
+  OUTBOX_STATUS,
+  type OutboxStatus,
+  settleFailedOutboxTask,
+} from './outbox-shared'
+import { handleChargeOutstandingSaleTask, handleChargeOutstandingTask } from './tasks/chargeOutstanding'
+import { handleChargePaymentPlansTask } from './tasks/chargePaymentPlans'
+import { handleCreateStripeAccountTask } from './tasks/createStripeAccount'
+import { handleExpireCreditPackTask } from './tasks/expireCreditPack'
+import { handleExpireWaitlistClaimTask } from './tasks/expireWaitlistClaim'
+import {
+  handleMailchimpRefreshUserPropertiesTask,
+  handleMailchimpSubscribeTask,
+  handleUpdateMailchimpListMemberTagsTask,
+} from './tasks/mailchimp'
+import { handleProcessMandrillEventTask } from './tasks/processMandrillEvent'
+import { handleProcessStripeEventTask } from './tasks/processStripeEvent'
+import { handleRefreshAppStoreReceiptsTask } from './tasks/refreshAppStoreReceipts'
+import { handleRunClientCampaignsTask } from './tasks/runClientCampaigns'
+import { handleSendAppointmentRemindersTask } from './tasks/sendAppointmentReminders'
+import { handleSendMailTask } from './tasks/sendMail'
+import { handleSendPaymentRemindersTask } from './tasks/sendPaymentReminders'
+import { handleSendSmsTask } from './tasks/sendSms'
+import { handleTagTrialledDidntSubTask } from './tasks/tagTrialledDidntSub'
+import { handleUserNotifyTask } from './tasks/userNotify'
+import { parseWorkflowTaskPayload, workflowTaskTypeSchema, type WorkflowTaskEnvelope } from './types'
+
+const createUnsupportedTaskError = (taskType: string) =>
+  new Error(`Workflow task '${taskType}' is not implemented in keepon-solito yet.`)
+
+const upsertTaskExecutionAsRunning = async (outboxId: string, taskType: string, stepId: string) => {
+  const staleAfterMinutes = 5
+
+  return db.transaction().execute(async (trx) => {
+    const existing = await trx
+      .selectFrom('workflow_task_execution')
+      .select((eb) => [
+        eb.ref('owner_step_id').as('ownerStepId'),
+        eb.ref('status').as('status'),
+        eb.ref('completed_at').as('completedAt'),
+        eb.ref('updated_at').as('updatedAt'),
+      ])
+      .where('outbox_id', '=', outboxId)
+      .forUpdate()
+      .executeTakeFirst()
+
+    if (!existing) {
+      const now = new Date()
+      await trx
+        .insertInto('workflow_task_execution')
+        .values({
+          outbox_id: outboxId,
+          task_type: taskType,
+          owner_step_id: stepId,
+          status: 'running',
+          attempts: 1,
+        })
+        .execute()
+
+      await trx
+        .updateTable('workflow_outbox')
+        .set({ status: OUTBOX_STATUS.Running, updated_at: now, last_error: null })
+        .where('id', '=', outboxId)
+        .execute()
+
+      return true
+    }
+
+    if (existing.completedAt) {
+      return false
+    }
+
+    const staleCutoff = new Date(Date.now() - staleAfterMinutes * 60_000)
+    // A failed execution belongs to an earlier attempt; the outbox has since re-dispatched the task for a retry.
+    const shouldClaimOwnership =
+      existing.status === 'failed' || existing.ownerStepId === stepId || existing.updatedAt < staleCutoff
+
+    if (!shouldClaimOwnership) {
+      return false
+    }
+
+    const now = new Date()
+    await trx
+      .updateTable('workflow_task_execution')
+      .set((eb) => ({
+        owner_step_id: stepId,
+        status: 'running',
+        attempts: eb('attempts', '+', 1),
+        started_at: now,
+        updated_at: now,
+      }))
+      .where('outbox_id', '=', outboxId)
+      .execute()
+
+    await trx
+      .updateTable('workflow_outbox')
+      .set({ status: OUTBOX_STATUS.Running, updated_at: now, last_error: null })
+      .where('id', '=', outboxId)
+      .execute()
+
+    return true
+  })
+}
+
+const markTaskExecutionAsCompleted = async (outboxId: string) => {
+  await db.transaction().execute(async (trx) => {
+    const now = new Date()
+    await trx
+      .updateTable('workflow_task_execution')
+      .set({ status: 'completed', completed_at: now, updated_at: now, last_error: null })
+      .where('outbox_id', '=', outboxId)
+      .execute()
+
+    await trx
+      .updateTable('workflow_outbox')
+      .set({ status: OUTBOX_STATUS.Completed, completed_at: now, updated_at: now, last_error: null })
+      .where('id', '=', outboxId)
+      .execute()
+  })
+}
+
+/**
+ * Settles a failed run through the outbox retry policy and reports whether the task was dead-lettered. Retries go
+ * back through the outbox rather than the workflow runtime, so the backoff applies and attempts are counted once.
+ */
+const markTaskExecutionAsFailed = async (outboxId: string, error: unknown) =>
+  db.transaction().execute(async (trx) => {
+    const now = new Date()
+    await trx
+      .updateTable('workflow_task_execution')
+      .set({ status: 'failed', last_error: normalizeErrorMessage(error), updated_at: now })
+      .where('outbox_id', '=', outboxId)
+      .execute()
+
+    const outbox = await trx
+      .selectFrom('workflow_outbox')
+      .select(['task_type as taskType', 'attempts', 'max_attempts as maxAttempts'])
+      .where('id', '=', outboxId)
+      .forUpdate()
+      .executeTakeFirstOrThrow()
+
+    return settleFailedOutboxTask(trx, { outboxId, ...outbox, error, event: OUTBOX_EVENT.Failed })
+  })
+
+const executeTaskByType = async (taskType: WorkflowTaskEnvelope['taskType'], payload: unknown) => {
+  switch (taskType) {
+    case 'user.notify': {
+      await handleUserNotifyTask(parseWorkflowTaskPayload('user.notify', payload))
+      return
+    }
+
+    case 'payment-plan.charge-outstanding': {
+      await handleChargeOutstandingTask(parseWorkflowTaskPayload('payment-plan.charge-outstanding', payload))
+      return
+    }
+
+    case 'sale.charge-outstanding': {
+      await handleChargeOutstandingSaleTask(parseWorkflowTaskPayload('sale.charge-outstanding', payload))
+      return
+    }
+
+    case 'chargePaymentPlans': {
+      await handleChargePaymentPlansTask(parseWorkflowTaskPayload('chargePaymentPlans', payload))
+      return
+    }
+
+    case 'sendMail': {
+      await handleSendMailTask(parseWorkflowTaskPayload('sendMail', payload))
+      return
+    }
+
+    case 'sendSms': {
+      await handleSendSmsTask(parseWorkflowTaskPayload('sendSms', payload))
+      return
+    }
+
+    case 'sendPaymentReminders': {
+      await handleSendPaymentRemindersTask(parseWorkflowTaskPayload('sendPaymentReminders', payload))
+      return
+    }
+
+    case 'sendAppointmentReminders': {
+      await handleSendAppointmentRemindersTask(parseWorkflowTaskPayload('sendAppointmentReminders', payload))
+      return
+    }
+
+    case 'processStripeEvent': {
+      await handleProcessStripeEventTask(parseWorkflowTaskPayload('processStripeEvent', payload))
+      return
+    }
+
+    case 'processMandrillEvent': {
+      await handleProcessMandrillEventTask(parseWorkflowTaskPayload('processMandrillEvent', payload))
+      return
+    }
+
+    case 'refreshAppStoreReceipts': {
+      await handleRefreshAppStoreReceiptsTask(parseWorkflowTaskPayload('refreshAppStoreReceipts', payload))
+      return
+    }
+
+    case 'createStripeAccount': {
+      await handleCreateStripeAccountTask(parseWorkflowTaskPayload('createStripeAccount', payload))
+      return
+    }
+
+    case 'mailchimp.subscribe': {
+      await handleMailchimpSubscribeTask(parseWorkflowTaskPayload('mailchimp.subscribe', payload))
+      return
+    }
+
+    case 'mailchimp.refresh_user_properties': {
+      await handleMailchimpRefreshUserPropertiesTask(
+        parseWorkflowTaskPayload('mailchimp.refresh_user_properties', payload)
+      )
+      return
+    }
+
+    case 'updateMailchimpListMemberTags': {
+      await handleUpdateMailchimpListMemberTagsTask(parseWorkflowTaskPayload('updateMailchimpListMemberTags', payload))
+      return
+    }
+
+    case 'tagTrialledDidntSub': {
+      await handleTagTrialledDidntSubTask(parseWorkflowTaskPayload('tagTrialledDidntSub', payload))
+      return
+    }
+
+    case 'expireWaitlistClaim': {
+      await handleExpireWaitlistClaimTask(parseWorkflowTaskPayload('expireWaitlistClaim', payload))
+      return
+    }
+
+    case 'expireCreditPack': {
+      await handleExpireCreditPackTask(parseWorkflowTaskPayload('expireCreditPack', payload))
+      return
+    }
+
+    case 'runClientCampaigns': {
+      await handleRunClientCampaignsTask(parseWorkflowTaskPayload('runClientCampaigns', payload))
+      return
+    }
+
+    default: {
+      const neverTaskType: never = taskType
+      throw createUnsupportedTaskError(neverTaskType)
+    }
+  }
+}
+
+export type OutboxTaskRunResult =
+  | { outcome: 'completed' | 'deduped' }
+  | { outcome: 'failed'; status: OutboxStatus; error: unknown }
+
+/**
+ * Runs one outbox task against its handler and records the result on `workflow_task_execution` and the outbox row.
+ * `stepId` identifies this run so a retried step keeps ownership while a second concurrent run is deduped. Failures
+ * are settled through the outbox retry policy and reported rather than thrown, leaving the caller to decide how its
+ * runtime should treat them.
+ */
+export const runOutboxTask = async (
+  input: { outboxId: string; taskType: string; payload: unknown; dedupeKey: string | null },
+  stepId: string
+): Promise<OutboxTaskRunResult> => {
+  const taskType = workflowTaskTypeSchema.parse(input.taskType)
+  const payload = parseWorkflowTaskPayload(taskType, input.payload)
+  const envelope: WorkflowTaskEnvelope = {
+    outboxId: input.outboxId,
+    taskType,
+    payload,
+    dedupeKey: input.dedupeKey,
+  }
+
+  const shouldRunTask = await upsertTaskExecutionAsRunning(envelope.outboxId, envelope.taskType, stepId)
+
+  if (!shouldRunTask) {
+    return { outcome: 'deduped' }
+  }
+
+  try {
+    await executeTaskByType(envelope.taskType, envelope.payload)
+    await markTaskExecutionAsCompleted(envelope.outboxId)
+    return { outcome: 'completed' }
+  } catch (error) {
+    const status = await markTaskExecutionAsFailed(envelope.outboxId, error)
+    return { outcome: 'failed', status, error }
+  }
+}
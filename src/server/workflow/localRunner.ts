@@ -0,0 +1,74 @@
+import crypto from 'node:crypto'
+import { runOutboxTask } from './execution'
+import { normalizeErrorMessage } from './outbox-shared'
+
+export type OutboxRunnerMode = 'workflow' | 'local' | 'local-sync'
+
+type LocalOutboxTask = {
+  outboxId: string
+  taskType: string
+  payload: unknown
+  dedupeKey: string | null
+}
+
+/**
+ * How dispatched outbox tasks are run, from `WORKFLOW_OUTBOX_RUNNER`. `workflow` (the default) starts a durable
+ * workflow run. `local` runs tasks in this process on an in-memory queue and `local-sync` runs each one before the
+ * dispatcher moves on; both call the same handlers and need nothing but Postgres, which suits development and tests.
+ */
+export const getOutboxRunnerMode = (): OutboxRunnerMode => {
+  const mode = process.env.WORKFLOW_OUTBOX_RUNNER
+  return mode === 'local' || mode === 'local-sync' ? mode : 'workflow'
+}
+
+export const isLocalOutboxRunner = () => getOutboxRunnerMode() !== 'workflow'
+
+const queue: { task: LocalOutboxTask; runId: string }[] = []
+let drainPromise: Promise<void> | null = null
+
+const runLocally = async (task: LocalOutboxTask, runId: string) => {
+  try {
+    const result = await runOutboxTask(task, runId)
+    if (result.outcome === 'failed') {
+      console.warn('Local outbox task failed', {
+        outboxId: task.outboxId,
+        taskType: task.taskType,
+        status: result.status,
+        error: normalizeErrorMessage(result.error),
+      })
+    }
+  } catch (error) {
+    console.error('Local outbox task could not be run', { outboxId: task.outboxId, taskType: task.taskType, error })
+  }
+}
+
+const drainQueue = async () => {
+  for (let next = queue.shift(); next; next = queue.shift()) {
+    await runLocally(next.task, next.runId)
+  }
+}
+
+export const createLocalOutboxRunId = () => `local:${crypto.randomUUID()}`
+
+/**
+ * Runs a dispatched task in this process. In `local-sync` mode the task has finished by the time this resolves; in
+ * `local` mode it's queued behind earlier tasks and runs in the background.
+ */
+export const runOutboxTaskLocally = async (task: LocalOutboxTask, runId: string) => {
+  if (getOutboxRunnerMode() === 'local-sync') {
+    await runLocally(task, runId)
+    return
+  }
+
+  queue.push({ task, runId })
+  drainPromise ??= drainQueue().finally(() => {
+    drainPromise = null
+  })
+}
+
+/** Resolves once every task queued in `local` mode, including ones queued while waiting, has run. */
+export const waitForLocalOutboxQueue = async () => {
+  while (drainPromise) {
+    await drainPromise
+  }
+}
@@ -26,6 +26,8 @@ export type MandrillMessage = {
   metadata?: Record<string, string>
   important?: boolean
   text?: string
+  /** Base64 encoded file contents. */
+  attachments?: { type: string; name: string; content: string }[]
 }
 
 const mandrillFetch = async (path: string, body: unknown) => {
@@ -0,0 +1,237 @@
+import { randomUUID } from 'node:crypto'
+import { mkdir, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import type { Json } from '@/lib/db'
+import { sendMandrillMessage } from '@/server/workflow/mandrill'
+import { sendTwilioMessage } from '@/server/workflow/twilio'
+import { sendVonageMessage } from '@/server/workflow/vonage'
+
+export const emailProviderNames = ['mandrill', 'console', 'file'] as const
+export const smsProviderNames = ['twilio', 'vonage', 'console', 'file'] as const
+
+export type EmailProviderName = (typeof emailProviderNames)[number]
+export type SmsProviderName = (typeof smsProviderNames)[number]
+
+export type EmailAttachment = {
+  fileName: string
+  contentType: string
+  content: Buffer
+}
+
+export type OutboundEmail = {
+  fromEmail: string
+  fromName: string | null
+  toEmail: string
+  toName: string | null
+  subject: string
+  html: string
+  replyTo: string | null
+  /** Echoed back by providers that support it so delivery webhooks can be matched to the message. */
+  metadata: Record<string, string>
+  attachments: EmailAttachment[]
+}
+
+export type EmailSendResult = {
+  status: 'sent' | 'queued' | 'rejected'
+  messageId: string | null
+  rejectReason: string | null
+}
+
+export type OutboundSms = {
+  from: string | null
+  to: string
+  body: string
+}
+
+export type SmsSendResult =
+  | { ok: true; messageId: string | null; raw: Json | null }
+  | {
+      ok: false
+      reason: string
+      /** The provider refused the destination number, so retrying won't help. */
+      invalidRecipient: boolean
+    }
+
+export type EmailProvider = {
+  name: EmailProviderName
+  send: (message: OutboundEmail) => Promise<EmailSendResult>
+}
+
+export type SmsProvider = {
+  name: SmsProviderName
+  send: (message: OutboundSms) => Promise<SmsSendResult>
+}
+
+const messageFileDirectory = () => process.env.MESSAGE_FILE_DIR || path.join(process.cwd(), '.messages')
+
+/** Attachments are logged and written by name and size, not content. */
+const describeAttachments = (attachments: EmailAttachment[]) =>
+  attachments.map(({ fileName, contentType, content }) => ({ fileName, contentType, size: content.length }))
+
+/**
+ * Writes each message to its own JSON file so local runs and tests can inspect what would have been sent. Email
+ * attachments are written alongside it.
+ */
+const writeMessageFile = async (kind: 'email' | 'sms', message: OutboundEmail | OutboundSms) => {
+  const id = randomUUID()
+  const directory = path.join(messageFileDirectory(), kind)
+  await mkdir(directory, { recursive: true })
+  const attachments = 'attachments' in message ? message.attachments : []
+  await writeFile(
+    path.join(directory, `${Date.now()}-${id}.json`),
+    JSON.stringify(
+      {
+        id,
+        createdAt: new Date().toISOString(),
+        ...message,
+        ...('attachments' in message ? { attachments: describeAttachments(attachments) } : {}),
+      },
+      null,
+      2
+    )
+  )
+  for (const attachment of attachments) {
+    await writeFile(path.join(directory, `${id}-${attachment.fileName}`), attachment.content)
+  }
+  return id
+}
+
+const mandrillEmailProvider: EmailProvider = {
+  name: 'mandrill',
+  send: async (message) => {
+    const sent = await sendMandrillMessage({
+      from_email: message.fromEmail,
+      from_name: message.fromName ?? undefined,
+      to: [{ email: message.toEmail, name: message.toName ?? undefined }],
+      html: message.html,
+      subject: message.subject,
+      metadata: message.metadata,
+      headers: message.replyTo ? { 'Reply-To': message.replyTo } : undefined,
+      attachments:
+        message.attachments.length > 0
+          ? message.attachments.map((attachment) => ({
+              type: attachment.contentType,
+              name: attachment.fileName,
+              content: attachment.content.toString('base64'),
+            }))
+          : undefined,
+    })
+
+    return {
+      status: sent.status === 'sent' ? 'sent' : sent.status === 'rejected' ? 'rejected' : 'queued',
+      messageId: sent._id,
+      rejectReason: sent.reject_reason ?? null,
+    }
+  },
+}
+
+const consoleEmailProvider: EmailProvider = {
+  name: 'console',
+  send: async (message) => {
+    const messageId = randomUUID()
+    console.info('Email (console provider)', {
+      messageId,
+      ...message,
+      attachments: describeAttachments(message.attachments),
+    })
+    return { status: 'sent', messageId, rejectReason: null }
+  },
+}
+
+const fileEmailProvider: EmailProvider = {
+  name: 'file',
+  send: async (message) => ({
+    status: 'sent',
+    messageId: await writeMessageFile('email', message),
+    rejectReason: null,
+  }),
+}
+
+const twilioSmsProvider: SmsProvider = {
+  name: 'twilio',
+  send: async (message) => {
+    const result = await sendTwilioMessage(message)
+    if (!result.ok) {
+      return { ok: false, reason: result.errorMessage, invalidRecipient: result.invalidRecipient }
+    }
+
+    return {
+      ok: true,
+      messageId: result.message.sid ?? null,
+      raw: JSON.parse(JSON.stringify(result.message)) as Json,
+    }
+  },
+}
+
+const vonageSmsProvider: SmsProvider = {
+  name: 'vonage',
+  send: async (message) => {
+    const result = await sendVonageMessage(message)
+    if (!result.ok) {
+      return { ok: false, reason: result.errorMessage, invalidRecipient: result.invalidRecipient }
+    }
+
+    return {
+      ok: true,
+      messageId: result.message['message-id'] ?? null,
+      raw: JSON.parse(JSON.stringify(result.message)) as Json,
+    }
+  },
+}
+
+const consoleSmsProvider: SmsProvider = {
+  name: 'console',
+  send: async (message) => {
+    const messageId = randomUUID()
+    console.info('SMS (console provider)', { messageId, ...message })
+    return { ok: true, messageId, raw: null }
+  },
+}
+
+const fileSmsProvider: SmsProvider = {
+  name: 'file',
+  send: async (message) => ({ ok: true, messageId: await writeMessageFile('sms', message), raw: null }),
+}
+
+const emailProviders: Record<EmailProviderName, EmailProvider> = {
+  mandrill: mandrillEmailProvider,
+  console: consoleEmailProvider,
+  file: fileEmailProvider,
+}
+
+const smsProviders: Record<SmsProviderName, SmsProvider> = {
+  twilio: twilioSmsProvider,
+  vonage: vonageSmsProvider,
+  console: consoleSmsProvider,
+  file: fileSmsProvider,
+}
+
+const isEmailProviderName = (value: string): value is EmailProviderName =>
+  (emailProviderNames as readonly string[]).includes(value)
+
+const isSmsProviderName = (value: string): value is SmsProviderName =>
+  (smsProviderNames as readonly string[]).includes(value)
+
+/**
+ * Picks the email provider for a message: the trainer's override if they have one, otherwise `EMAIL_PROVIDER`,
+ * otherwise Mandrill.
+ */
+export const resolveEmailProvider = (trainerOverride?: string | null): EmailProvider => {
+  const name = trainerOverride || process.env.EMAIL_PROVIDER || 'mandrill'
+  if (!isEmailProviderName(name)) {
+    throw new Error(`Unknown email provider "${name}"`)
+  }
+  return emailProviders[name]
+}
+
+/**
+ * Picks the SMS provider for a message: the trainer's override if they have one, otherwise `SMS_PROVIDER`,
+ * otherwise Twilio.
+ */
+export const resolveSmsProvider = (trainerOverride?: string | null): SmsProvider => {
+  const name = trainerOverride || process.env.SMS_PROVIDER || 'twilio'
+  if (!isSmsProviderName(name)) {
+    throw new Error(`Unknown SMS provider "${name}"`)
+  }
+  return smsProviders[name]
+}
@@ -0,0 +1,269 @@
+import type { Kysely, Transaction } from 'kysely'
+import { sql } from 'kysely'
+import type { Database } from '@/lib/db'
+import { OUTBOX_LOCK_TIMEOUT_SECONDS, OUTBOX_STATUS } from './outbox-shared'
+
+type DbExecutor = Kysely<Database> | Transaction<Database>
+
+/** Upper bounds, in seconds, of the task duration and dispatch cycle histogram buckets. */
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300]
+
+type Labels = Record<string, string>
+
+type Histogram = { buckets: number[]; sum: number; count: number }
+
+type MetricFamily = {
+  name: string
+  help: string
+  type: 'counter' | 'gauge' | 'histogram'
+  samples: { suffix?: string; labels: Labels; value: number }[]
+}
+
+export type DispatchOutcome = 'dispatched' | 'failed'
+
+type DispatcherMetrics = {
+  dispatches: Map<string, { taskType: string; outcome: DispatchOutcome; count: number }>
+  claimed: number
+  cycles: Histogram
+}
+
+/**
+ * What this process's dispatcher has done since it started. Kept on `globalThis` because the dispatcher is started from
+ * instrumentation, which Next bundles separately from the route handlers that read it.
+ */
+const globalForWorkflowMetrics = globalThis as {
+  __keeponWorkflowDispatcherMetrics?: DispatcherMetrics
+}
+
+const getDispatcherMetrics = () => {
+  globalForWorkflowMetrics.__keeponWorkflowDispatcherMetrics ??= {
+    dispatches: new Map(),
+    claimed: 0,
+    cycles: { buckets: DURATION_BUCKETS.map(() => 0), sum: 0, count: 0 },
+  }
+  return globalForWorkflowMetrics.__keeponWorkflowDispatcherMetrics
+}
+
+export const recordOutboxDispatch = (taskType: string, outcome: DispatchOutcome) => {
+  const { dispatches } = getDispatcherMetrics()
+  const key = `${taskType}:${outcome}`
+  const existing = dispatches.get(key)
+  if (existing) {
+    existing.count++
+  } else {
+    dispatches.set(key, { taskType, outcome, count: 1 })
+  }
+}
+
+export const recordDispatchCycle = (durationSeconds: number, claimed: number) => {
+  const metrics = getDispatcherMetrics()
+  metrics.claimed += claimed
+  metrics.cycles.sum += durationSeconds
+  metrics.cycles.count++
+  DURATION_BUCKETS.forEach((bound, index) => {
+    if (durationSeconds <= bound) {
+      metrics.cycles.buckets[index]++
+    }
+  })
+}
+
+const histogramSamples = (histogram: Histogram, labels: Labels = {}) => [
+  ...DURATION_BUCKETS.map((bound, index) => ({
+    suffix: '_bucket',
+    labels: { ...labels, le: String(bound) },
+    value: histogram.buckets[index] ?? 0,
+  })),
+  { suffix: '_bucket', labels: { ...labels, le: '+Inf' }, value: histogram.count },
+  { suffix: '_sum', labels, value: histogram.sum },
+  { suffix: '_count', labels, value: histogram.count },
+]
+
+const oldestPendingAges = (executor: DbExecutor, now: Date) =>
+  executor
+    .selectFrom('workflow_outbox')
+    .select((eb) => [eb.ref('task_type').as('taskType'), eb.fn.min('available_at').as('oldestAvailableAt')])
+    .where('status', '=', OUTBOX_STATUS.Pending)
+    .where('available_at', '<=', now)
+    .groupBy('task_type')
+    .execute()
+    .then((rows) =>
+      rows.map((row) => ({
+        taskType: row.taskType,
+        ageSeconds: Math.max(0, (now.getTime() - new Date(row.oldestAvailableAt).getTime()) / 1000),
+      }))
+    )
+
+const stuckDispatching = (executor: DbExecutor, now: Date) =>
+  executor
+    .selectFrom('workflow_outbox')
+    .select((eb) => [eb.ref('task_type').as('taskType'), eb.fn.countAll<string>().as('count')])
+    .where('status', '=', OUTBOX_STATUS.Dispatching)
+    .where('locked_at', '<', new Date(now.getTime() - OUTBOX_LOCK_TIMEOUT_SECONDS * 1000))
+    .groupBy('task_type')
+    .execute()
+    .then((rows) => rows.map((row) => ({ taskType: row.taskType, count: Number(row.count) })))
+
+/**
+ * How far behind the outbox is: the age of the oldest task per type that's due but hasn't been dispatched, and the
+ * tasks left `dispatching` by a worker that never came back for them.
+ */
+export const getOutboxLag = async (executor: DbExecutor, now = new Date()) => {
+  const [pending, stuck] = await Promise.all([oldestPendingAges(executor, now), stuckDispatching(executor, now)])
+  return { pending, stuck }
+}
+
+/**
+ * Collects the workflow metrics in the Prometheus text format. Task counts, failures and durations come from the
+ * outbox tables so they cover every worker; dispatch counts and cycle durations are this process's dispatcher only.
+ */
+export const renderWorkflowMetrics = async (executor: DbExecutor, now = new Date()) => {
+  const [statusCounts, enqueued, events, durations, lag] = await Promise.all([
+    executor
+      .selectFrom('workflow_outbox')
+      .select((eb) => [
+        eb.ref('task_type').as('taskType'),
+        eb.ref('status').as('status'),
+        eb.fn.countAll<string>().as('count'),
+      ])
+      .groupBy(['task_type', 'status'])
+      .execute(),
+    executor
+      .selectFrom('workflow_outbox')
+      .select((eb) => [eb.ref('task_type').as('taskType'), eb.fn.countAll<string>().as('count')])
+      .groupBy('task_type')
+      .execute(),
+    executor
+      .selectFrom('workflow_outbox_event')
+      .innerJoin('workflow_outbox', 'workflow_outbox.id', 'workflow_outbox_event.outbox_id')
+      .select((eb) => [
+        eb.ref('workflow_outbox.task_type').as('taskType'),
+        eb.ref('workflow_outbox_event.event').as('event'),
+        eb.fn.countAll<string>().as('count'),
+      ])
+      .groupBy(['workflow_outbox.task_type', 'workflow_outbox_event.event'])
+      .execute(),
+    executor
+      .selectFrom(
+        executor
+          .selectFrom('workflow_task_execution')
+          .select((eb) => [
+            eb.ref('task_type').as('taskType'),
+            sql<number>`extract(epoch from ${eb.ref('completed_at')} - ${eb.ref('started_at')})`.as('seconds'),
+          ])
+          .where('status', '=', 'completed')
+          .where('completed_at', 'is not', null)
+          .as('execution')
+      )
+      .select((eb) => [
+        eb.ref('execution.taskType').as('taskType'),
+        eb.fn.countAll<string>().as('count'),
+        eb.fn.coalesce(eb.fn.sum<string | null>('execution.seconds'), sql<string>`0`).as('sum'),
+        sql<string[]>`array[${sql.join(
+          DURATION_BUCKETS.map((bound) => sql`count(*) filter (where ${eb.ref('execution.seconds')} <= ${bound})`)
+        )}]`.as('buckets'),
+      ])
+      .groupBy('execution.taskType')
+      .execute(),
+    getOutboxLag(executor, now),
+  ])
+
+  const dispatcher = getDispatcherMetrics()
+
+  const families: MetricFamily[] = [
+    {
+      name: 'workflow_outbox_enqueued_total',
+      help: 'Tasks enqueued on the workflow outbox.',
+      type: 'counter',
+      samples: enqueued.map((row) => ({ labels: { task_type: row.taskType }, value: Number(row.count) })),
+    },
+    {
+      name: 'workflow_outbox_tasks',
+      help: 'Tasks on the workflow outbox by current status.',
+      type: 'gauge',
+      samples: statusCounts.map((row) => ({
+        labels: { task_type: row.taskType, status: row.status },
+        value: Number(row.count),
+      })),
+    },
+    {
+      name: 'workflow_outbox_completed_total',
+      help: 'Tasks that ran to completion.',
+      type: 'counter',
+      samples: durations.map((row) => ({ labels: { task_type: row.taskType }, value: Number(row.count) })),
+    },
+    {
+      name: 'workflow_outbox_events_total',
+      help: 'Failed attempts, dead letters, re-queues and cancellations recorded against outbox tasks.',
+      type: 'counter',
+      samples: events.map((row) => ({
+        labels: { task_type: row.taskType, event: row.event },
+        value: Number(row.count),
+      })),
+    },
+    {
+      name: 'workflow_task_duration_seconds',
+      help: 'How long completed tasks took from their last start to completion.',
+      type: 'histogram',
+      samples: durations.flatMap((row) =>
+        histogramSamples(
+          { buckets: row.buckets.map(Number), sum: Number(row.sum), count: Number(row.count) },
+          { task_type: row.taskType }
+        )
+      ),
+    },
+    {
+      name: 'workflow_outbox_oldest_pending_age_seconds',
+      help: 'Age of the oldest task that is due but not yet dispatched.',
+      type: 'gauge',
+      samples: lag.pending.map((row) => ({ labels: { task_type: row.taskType }, value: row.ageSeconds })),
+    },
+    {
+      name: 'workflow_outbox_stuck_dispatching',
+      help: `Tasks locked as dispatching for more than ${OUTBOX_LOCK_TIMEOUT_SECONDS} seconds.`,
+      type: 'gauge',
+      samples: lag.stuck.map((row) => ({ labels: { task_type: row.taskType }, value: row.count })),
+    },
+    {
+      name: 'workflow_dispatcher_dispatches_total',
+      help: 'Tasks this process handed to the workflow runtime, by outcome.',
+      type: 'counter',
+      samples: [...dispatcher.dispatches.values()].map((entry) => ({
+        labels: { task_type: entry.taskType, outcome: entry.outcome },
+        value: entry.count,
+      })),
+    },
+    {
+      name: 'workflow_dispatcher_claimed_total',
+      help: 'Outbox rows this process claimed for dispatch.',
+      type: 'counter',
+      samples: [{ labels: {}, value: dispatcher.claimed }],
+    },
+    {
+      name: 'workflow_dispatcher_cycle_duration_seconds',
+      help: "How long this process's dispatch cycles took.",
+      type: 'histogram',
+      samples: histogramSamples(dispatcher.cycles),
+    },
+  ]
+
+  return families.map(formatMetricFamily).join('')
+}
+
+const escapeLabelValue = (value: string) =>
+  value.replaceAll('\\', '\\\\').replaceAll('"', '\\"').replaceAll('\n', '\\n')
+
+const formatLabels = (labels: Labels) => {
+  const entries = Object.entries(labels)
+  if (entries.length === 0) {
+    return ''
+  }
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`
+}
+
+const formatMetricFamily = ({ name, help, type, samples }: MetricFamily) =>
+  [
+    `# HELP ${name} ${help}`,
+    `# TYPE ${name} ${type}`,
+    ...samples.map(({ suffix = '', labels, value }) => `${name}${suffix}${formatLabels(labels)} ${value}`),
+    '',
+  ].join('\n')
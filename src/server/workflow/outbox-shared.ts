@@ -1,15 +1,33 @@
+import type { Kysely, Transaction } from 'kysely'
+import type { Database } from '@/lib/db'
+import { getWorkflowTaskRetryDelaySeconds, isFatalWorkflowTaskError } from './types'
+
+type DbExecutor = Kysely<Database> | Transaction<Database>
+
+/** Dispatching rows locked for longer than this are treated as abandoned and released back to pending. */
+export const OUTBOX_LOCK_TIMEOUT_SECONDS = 120
+
 export const OUTBOX_STATUS = {
   Pending: 'pending',
   Dispatching: 'dispatching',
   Dispatched: 'dispatched',
   Running: 'running',
   Completed: 'completed',
-  Failed: 'failed',
+  DeadLettered: 'dead_lettered',
+  Cancelled: 'cancelled',
 } as const
 
 export type OutboxStatus = (typeof OUTBOX_STATUS)[keyof typeof OUTBOX_STATUS]
 
-export const DEFAULT_OUTBOX_MAX_ATTEMPTS = 25
+export const OUTBOX_EVENT = {
+  DispatchFailed: 'dispatch_failed',
+  Failed: 'failed',
+  DeadLettered: 'dead_lettered',
+  Requeued: 'requeued',
+  Cancelled: 'cancelled',
+} as const
+
+export type OutboxEvent = (typeof OUTBOX_EVENT)[keyof typeof OUTBOX_EVENT]
 
 export const normalizeErrorMessage = (error: unknown) => {
   if (error instanceof Error) {
@@ -22,3 +40,79 @@ export const normalizeErrorMessage = (error: unknown) => {
 
   return 'Unknown error'
 }
+
+/**
+ * Records a failed attempt at an outbox task and decides what happens next, following the task type's retry policy:
+ * the task goes back to pending after a backoff, or is dead-lettered when the error is fatal or it's out of attempts.
+ */
+export const settleFailedOutboxTask = async (
+  executor: DbExecutor,
+  {
+    outboxId,
+    taskType,
+    attempts,
+    maxAttempts,
+    error,
+    event,
+  }: {
+    outboxId: string
+    taskType: string
+    attempts: number
+    maxAttempts: number
+    error: unknown
+    event: typeof OUTBOX_EVENT.DispatchFailed | typeof OUTBOX_EVENT.Failed
+  }
+) => {
+  const message = normalizeErrorMessage(error)
+  const isFatal = isFatalWorkflowTaskError(taskType, error)
+  const now = new Date()
+
+  await executor
+    .insertInto('workflow_outbox_event')
+    .values({ outbox_id: outboxId, event, attempt: attempts, message })
+    .execute()
+
+  if (isFatal || attempts >= maxAttempts) {
+    await executor
+      .insertInto('workflow_outbox_event')
+      .values({
+        outbox_id: outboxId,
+        event: OUTBOX_EVENT.DeadLettered,
+        attempt: attempts,
+        message: isFatal ? 'Error is not retryable' : `Gave up after ${attempts} attempts`,
+      })
+      .execute()
+
+    await executor
+      .updateTable('workflow_outbox')
+      .set({
+        status: OUTBOX_STATUS.DeadLettered,
+        failed_at: now,
+        dead_lettered_at: now,
+        last_error: message,
+        locked_at: null,
+        locked_by: null,
+        updated_at: now,
+      })
+      .where('id', '=', outboxId)
+      .execute()
+
+    return OUTBOX_STATUS.DeadLettered
+  }
+
+  await executor
+    .updateTable('workflow_outbox')
+    .set({
+      status: OUTBOX_STATUS.Pending,
+      available_at: new Date(now.getTime() + getWorkflowTaskRetryDelaySeconds(taskType, attempts) * 1000),
+      failed_at: now,
+      last_error: message,
+      locked_at: null,
+      locked_by: null,
+      updated_at: now,
+    })
+    .where('id', '=', outboxId)
+    .execute()
+
+  return OUTBOX_STATUS.Pending
+}
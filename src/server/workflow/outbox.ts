@@ -2,9 +2,9 @@ import type { Kysely, Transaction } from 'kysely'
 import { after } from 'next/server'
 import type { Database } from '@/lib/db'
 import type { Json } from '@/lib/db/generated'
-import type { WorkflowTaskPayloadMap, WorkflowTaskType } from './types'
 import { dispatchOutboxOnce } from './dispatcher'
-import { DEFAULT_OUTBOX_MAX_ATTEMPTS, OUTBOX_STATUS } from './outbox-shared'
+import { OUTBOX_STATUS } from './outbox-shared'
+import { workflowTaskRetryPolicies, type WorkflowTaskPayloadMap, type WorkflowTaskType } from './types'
 
 type DbExecutor = Kysely<Database> | Transaction<Database>
 
@@ -51,7 +51,7 @@ export const enqueueWorkflowTask = async <TTaskType extends WorkflowTaskType>(
 ) => {
   const availableAt = options.availableAt ?? new Date()
   const dedupeKey = options.dedupeKey ?? null
-  const maxAttempts = options.maxAttempts ?? DEFAULT_OUTBOX_MAX_ATTEMPTS
+  const maxAttempts = options.maxAttempts ?? workflowTaskRetryPolicies[taskType].maxAttempts
 
   const result = await executor
     .insertInto('workflow_outbox')
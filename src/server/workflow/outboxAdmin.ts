@@ -0,0 +1,246 @@
+import type { Kysely, Transaction } from 'kysely'
+import type { Database } from '@/lib/db'
+import { OUTBOX_EVENT, OUTBOX_STATUS, type OutboxStatus } from './outbox-shared'
+
+type DbExecutor = Kysely<Database> | Transaction<Database>
+
+export class OutboxTaskNotFoundError extends Error {
+  constructor() {
+    super('Outbox task not found')
+    this.name = 'OutboxTaskNotFoundError'
+  }
+}
+
+export class OutboxTaskStatusConflictError extends Error {
+  constructor(
+    public status: string,
+    action: string
+  ) {
+    super(`Can't ${action} a ${status} outbox task`)
+    this.name = 'OutboxTaskStatusConflictError'
+  }
+}
+
+/** Statuses a task can be put back on the queue from. */
+const requeueableStatuses: readonly OutboxStatus[] = [OUTBOX_STATUS.DeadLettered, OUTBOX_STATUS.Cancelled]
+
+export type OutboxTaskFilters = {
+  status?: OutboxStatus
+  taskType?: string
+  /** Matches dedupe keys starting with this, so `sendMail:` finds every sendMail task. */
+  dedupeKey?: string
+  /** Only tasks created before this, for paging back through older tasks. */
+  before?: Date
+  limit: number
+}
+
+const escapeLikePattern = (value: string) => value.replaceAll(/[\\%_]/g, (match) => `\\${match}`)
+
+export const listOutboxTasks = (executor: DbExecutor, filters: OutboxTaskFilters) => {
+  let query = executor
+    .selectFrom('workflow_outbox')
+    .select((eb) => [
+      eb.ref('id').as('id'),
+      eb.ref('task_type').as('taskType'),
+      eb.ref('status').as('status'),
+      eb.ref('dedupe_key').as('dedupeKey'),
+      eb.ref('attempts').as('attempts'),
+      eb.ref('max_attempts').as('maxAttempts'),
+      eb.ref('last_error').as('lastError'),
+      eb.ref('created_at').as('createdAt'),
+      eb.ref('available_at').as('availableAt'),
+      eb.ref('updated_at').as('updatedAt'),
+    ])
+    .orderBy('created_at', 'desc')
+    .orderBy('id', 'desc')
+    .limit(filters.limit)
+
+  if (filters.status) {
+    query = query.where('status', '=', filters.status)
+  }
+
+  if (filters.taskType) {
+    query = query.where('task_type', '=', filters.taskType)
+  }
+
+  if (filters.dedupeKey) {
+    query = query.where('dedupe_key', 'like', `${escapeLikePattern(filters.dedupeKey)}%`)
+  }
+
+  if (filters.before) {
+    query = query.where('created_at', '<', filters.before)
+  }
+
+  return query.execute()
+}
+
+/** Number of tasks in each status and task type, for the console overview. */
+export const countOutboxTasks = (executor: DbExecutor) =>
+  executor
+    .selectFrom('workflow_outbox')
+    .select((eb) => [
+      eb.ref('status').as('status'),
+      eb.ref('task_type').as('taskType'),
+      eb.fn.countAll<string>().as('count'),
+    ])
+    .groupBy(['status', 'task_type'])
+    .orderBy('task_type')
+    .orderBy('status')
+    .execute()
+    .then((rows) => rows.map((row) => ({ ...row, count: Number(row.count) })))
+
+export const getOutboxTask = async (executor: DbExecutor, outboxId: string) => {
+  const task = await executor
+    .selectFrom('workflow_outbox')
+    .leftJoin('workflow_task_execution', 'workflow_task_execution.outbox_id', 'workflow_outbox.id')
+    .select((eb) => [
+      eb.ref('workflow_outbox.id').as('id'),
+      eb.ref('workflow_outbox.task_type').as('taskType'),
+      eb.ref('workflow_outbox.status').as('status'),
+      eb.ref('workflow_outbox.dedupe_key').as('dedupeKey'),
+      eb.ref('workflow_outbox.payload').as('payload'),
+      eb.ref('workflow_outbox.attempts').as('attempts'),
+      eb.ref('workflow_outbox.max_attempts').as('maxAttempts'),
+      eb.ref('workflow_outbox.last_error').as('lastError'),
+      eb.ref('workflow_outbox.workflow_run_id').as('workflowRunId'),
+      eb.ref('workflow_outbox.locked_by').as('lockedBy'),
+      eb.ref('workflow_outbox.created_at').as('createdAt'),
+      eb.ref('workflow_outbox.available_at').as('availableAt'),
+      eb.ref('workflow_outbox.dispatched_at').as('dispatchedAt'),
+      eb.ref('workflow_outbox.completed_at').as('completedAt'),
+      eb.ref('workflow_outbox.failed_at').as('failedAt'),
+      eb.ref('workflow_outbox.dead_lettered_at').as('deadLetteredAt'),
+      eb.ref('workflow_outbox.cancelled_at').as('cancelledAt'),
+      eb.ref('workflow_outbox.updated_at').as('updatedAt'),
+      eb.ref('workflow_task_execution.status').as('executionStatus'),
+      eb.ref('workflow_task_execution.attempts').as('executionAttempts'),
+      eb.ref('workflow_task_execution.started_at').as('executionStartedAt'),
+    ])
+    .where('workflow_outbox.id', '=', outboxId)
+    .executeTakeFirst()
+
+  if (!task) {
+    return null
+  }
+
+  const events = await executor
+    .selectFrom('workflow_outbox_event')
+    .select((eb) => [
+      eb.ref('id').as('id'),
+      eb.ref('event').as('event'),
+      eb.ref('attempt').as('attempt'),
+      eb.ref('message').as('message'),
+      eb.ref('actor').as('actor'),
+      eb.ref('created_at').as('createdAt'),
+    ])
+    .where('outbox_id', '=', outboxId)
+    .orderBy('created_at', 'desc')
+    .execute()
+
+  return { ...task, events }
+}
+
+const lockOutboxTask = async (trx: Transaction<Database>, outboxId: string) => {
+  const task = await trx
+    .selectFrom('workflow_outbox')
+    .select(['id', 'status'])
+    .where('id', '=', outboxId)
+    .forUpdate()
+    .executeTakeFirst()
+
+  if (!task) {
+    throw new OutboxTaskNotFoundError()
+  }
+
+  return task
+}
+
+/**
+ * Puts tasks back on the queue as if they were new: attempts start again from zero and the old execution record is
+ * dropped so the workflow runs the task instead of treating it as already handled. Earlier errors stay in the event
+ * history.
+ */
+const requeueOutboxTasks = async (trx: Transaction<Database>, outboxIds: string[], actor: string) => {
+  if (outboxIds.length === 0) {
+    return
+  }
+
+  const now = new Date()
+
+  await trx
+    .updateTable('workflow_outbox')
+    .set({
+      status: OUTBOX_STATUS.Pending,
+      attempts: 0,
+      available_at: now,
+      dispatched_at: null,
+      completed_at: null,
+      failed_at: null,
+      dead_lettered_at: null,
+      cancelled_at: null,
+      locked_at: null,
+      locked_by: null,
+      workflow_run_id: null,
+      last_error: null,
+      updated_at: now,
+    })
+    .where('id', 'in', outboxIds)
+    .execute()
+
+  await trx.deleteFrom('workflow_task_execution').where('outbox_id', 'in', outboxIds).execute()
+
+  await trx
+    .insertInto('workflow_outbox_event')
+    .values(outboxIds.map((outboxId) => ({ outbox_id: outboxId, event: OUTBOX_EVENT.Requeued, actor })))
+    .execute()
+}
+
+/** Re-queues a dead-lettered or cancelled task. */
+export const requeueOutboxTask = async (trx: Transaction<Database>, outboxId: string, actor: string) => {
+  const task = await lockOutboxTask(trx, outboxId)
+
+  if (!(requeueableStatuses as readonly string[]).includes(task.status)) {
+    throw new OutboxTaskStatusConflictError(task.status, 're-queue')
+  }
+
+  await requeueOutboxTasks(trx, [outboxId], actor)
+}
+
+/** Cancels a task that hasn't been picked up by the dispatcher yet. */
+export const cancelOutboxTask = async (trx: Transaction<Database>, outboxId: string, actor: string) => {
+  const task = await lockOutboxTask(trx, outboxId)
+
+  if (task.status !== OUTBOX_STATUS.Pending) {
+    throw new OutboxTaskStatusConflictError(task.status, 'cancel')
+  }
+
+  const now = new Date()
+
+  await trx
+    .updateTable('workflow_outbox')
+    .set({ status: OUTBOX_STATUS.Cancelled, cancelled_at: now, updated_at: now })
+    .where('id', '=', outboxId)
+    .execute()
+
+  await trx
+    .insertInto('workflow_outbox_event')
+    .values({ outbox_id: outboxId, event: OUTBOX_EVENT.Cancelled, actor })
+    .execute()
+}
+
+/** Re-queues every dead-lettered task of a type, e.g. once the Stripe or Mandrill outage behind them is over. */
+export const replayDeadLetteredOutboxTasks = async (trx: Transaction<Database>, taskType: string, actor: string) => {
+  const rows = await trx
+    .selectFrom('workflow_outbox')
+    .select('id')
+    .where('task_type', '=', taskType)
+    .where('status', '=', OUTBOX_STATUS.DeadLettered)
+    .forUpdate()
+    .skipLocked()
+    .execute()
+
+  const outboxIds = rows.map((row) => row.id)
+  await requeueOutboxTasks(trx, outboxIds, actor)
+
+  return outboxIds.length
+}
@@ -1,154 +1,123 @@
-import type { Kysely, Transaction } from 'kysely'
-import type { WorkflowTaskPayloadMap } from '@/server/workflow/types'
+import type { Transaction } from 'kysely'
+import { cronOccurrencesBetween, latestCronOccurrence, nextCronOccurrence, parseCronExpression } from '@/lib/dates/cron'
 import { db, type Database } from '@/lib/db'
 import { enqueueWorkflowTask } from '@/server/workflow/outbox'
+import { parseWorkflowTaskPayload, workflowTaskTypeSchema } from '@/server/workflow/types'
 
-type DbExecutor = Kysely<Database> | Transaction<Database>
+export const scheduleCatchUpPolicies = ['skip', 'run_once', 'run_all'] as const
 
-export type RecurringWorkflowTaskType = Extract<
-  keyof WorkflowTaskPayloadMap,
-  | 'chargePaymentPlans'
-  | 'sendPaymentReminders'
-  | 'sendAppointmentReminders'
-  | 'refreshAppStoreReceipts'
-  | 'tagTrialledDidntSub'
->
+export type ScheduleCatchUpPolicy = (typeof scheduleCatchUpPolicies)[number]
 
-type DailyTime = { hour: number; minute: number }
+/** How late a run can start and still count as on time rather than missed. */
+const ON_TIME_GRACE_MS = 10 * 60 * 1000
 
-const compareDailyTimes = (a: DailyTime, b: DailyTime) => a.hour - b.hour || a.minute - b.minute
+/** Cap on runs enqueued per schedule in one pass when catching up on every missed run; the rest follow next pass. */
+const MAX_CATCH_UP_RUNS = 50
 
-const nextUtcDailyTime = (from: Date, times: DailyTime[]) => {
-  const sorted = times.toSorted(compareDailyTimes)
-  const year = from.getUTCFullYear()
-  const month = from.getUTCMonth()
-  const day = from.getUTCDate()
-  const fromTime = from.getTime()
+const isCatchUpPolicy = (value: string): value is ScheduleCatchUpPolicy =>
+  (scheduleCatchUpPolicies as readonly string[]).includes(value)
 
-  for (const time of sorted) {
-    const candidate = new Date(Date.UTC(year, month, day, time.hour, time.minute, 0, 0))
-    if (candidate.getTime() > fromTime) {
-      return candidate
-    }
+/** Picks which due occurrences to run, oldest first, following the schedule's catch-up policy. */
+const selectRuns = (
+  schedule: { cron: string; timezone: string; catchUp: string },
+  after: Date,
+  now: Date
+): { runs: Date[]; handledUntil: Date | null } => {
+  const cron = parseCronExpression(schedule.cron)
+  const catchUp = isCatchUpPolicy(schedule.catchUp) ? schedule.catchUp : 'run_once'
+
+  const next = nextCronOccurrence(cron, after, schedule.timezone)
+  if (!next || next > now) {
+    return { runs: [], handledUntil: null }
   }
 
-  const nextDay = new Date(Date.UTC(year, month, day + 1, 0, 0, 0, 0))
-  const first = sorted[0]
-  return new Date(
-    Date.UTC(nextDay.getUTCFullYear(), nextDay.getUTCMonth(), nextDay.getUTCDate(), first.hour, first.minute, 0, 0)
-  )
-}
+  if (catchUp === 'run_all') {
+    const runs = cronOccurrencesBetween(cron, after, now, schedule.timezone, MAX_CATCH_UP_RUNS)
+    return { runs, handledUntil: runs.at(-1) ?? null }
+  }
 
-const nextUtcHourlyMinute = (from: Date, minutes: number[]) => {
-  const sorted = minutes.toSorted((a, b) => a - b)
-  const year = from.getUTCFullYear()
-  const month = from.getUTCMonth()
-  const day = from.getUTCDate()
-  const hour = from.getUTCHours()
-  const fromTime = from.getTime()
-
-  for (const minute of sorted) {
-    const candidate = new Date(Date.UTC(year, month, day, hour, minute, 0, 0))
-    if (candidate.getTime() > fromTime) {
-      return candidate
-    }
+  const latest = latestCronOccurrence(cron, after, now, schedule.timezone) ?? next
+  if (catchUp === 'skip' && now.getTime() - latest.getTime() > ON_TIME_GRACE_MS) {
+    return { runs: [], handledUntil: latest }
   }
 
-  const nextHour = new Date(Date.UTC(year, month, day, hour + 1, 0, 0, 0))
-  const firstMinute = sorted[0]
-  return new Date(
-    Date.UTC(
-      nextHour.getUTCFullYear(),
-      nextHour.getUTCMonth(),
-      nextHour.getUTCDate(),
-      nextHour.getUTCHours(),
-      firstMinute,
-      0,
-      0
-    )
-  )
+  return { runs: [latest], handledUntil: latest }
 }
 
-const nextUtcMinute = (from: Date) => {
-  const next = new Date(from)
-  next.setUTCSeconds(0, 0)
-  next.setUTCMinutes(next.getUTCMinutes() + 1)
-  return next
-}
+const enqueueDueRuns = async (trx: Transaction<Database>, scheduleId: string, now: Date) => {
+  const schedule = await trx
+    .selectFrom('workflow_schedule')
+    .select((eb) => [
+      eb.ref('name').as('name'),
+      eb.ref('task_type').as('taskType'),
+      eb.ref('payload').as('payload'),
+      eb.ref('cron').as('cron'),
+      eb.ref('timezone').as('timezone'),
+      eb.ref('catch_up').as('catchUp'),
+      eb.ref('created_at').as('createdAt'),
+      eb.ref('last_scheduled_for').as('lastScheduledFor'),
+    ])
+    .where('id', '=', scheduleId)
+    .where('enabled', '=', true)
+    .forUpdate()
+    .skipLocked()
+    .executeTakeFirst()
+
+  if (!schedule) {
+    return 0
+  }
 
-const recurringTaskConfig: Record<RecurringWorkflowTaskType, { maxAttempts: number; nextAt: (from: Date) => Date }> = {
-  chargePaymentPlans: {
-    maxAttempts: 2,
-    nextAt: (from) => nextUtcDailyTime(from, [{ hour: 0, minute: 0 }]),
-  },
-  sendPaymentReminders: {
-    maxAttempts: 1,
-    nextAt: (from) => nextUtcHourlyMinute(from, [0, 30]),
-  },
-  sendAppointmentReminders: {
-    maxAttempts: 1,
-    nextAt: (from) => nextUtcMinute(from),
-  },
-  refreshAppStoreReceipts: {
-    maxAttempts: 2,
-    nextAt: (from) =>
-      nextUtcDailyTime(from, [
-        { hour: 0, minute: 30 },
-        { hour: 12, minute: 30 },
-      ]),
-  },
-  tagTrialledDidntSub: {
-    maxAttempts: 1,
-    nextAt: (from) => nextUtcHourlyMinute(from, [2, 32]),
-  },
-}
+  const taskType = workflowTaskTypeSchema.parse(schedule.taskType)
+  const after = new Date(schedule.lastScheduledFor ?? schedule.createdAt)
+  const { runs, handledUntil } = selectRuns(schedule, after, now)
 
-export const parseScheduledAt = (value?: string | null) => {
-  if (!value) {
-    return new Date()
-  }
-  const parsed = new Date(value)
-  return Number.isNaN(parsed.getTime()) ? new Date() : parsed
-}
+  for (const run of runs) {
+    const scheduledAt = run.toISOString()
+    const payload = parseWorkflowTaskPayload(taskType, {
+      ...(schedule.payload && typeof schedule.payload === 'object' && !Array.isArray(schedule.payload)
+        ? schedule.payload
+        : {}),
+      scheduledAt,
+    })
 
-export const buildScheduledDedupeKey = (taskType: RecurringWorkflowTaskType, scheduledAt: Date) =>
-  `${taskType}:${scheduledAt.toISOString()}`
-
-export const scheduleNextRecurringTask = async (
-  executor: DbExecutor,
-  taskType: RecurringWorkflowTaskType,
-  from: Date
-) => {
-  const config = recurringTaskConfig[taskType]
-  const nextAt = config.nextAt(from)
-  const payload: WorkflowTaskPayloadMap[RecurringWorkflowTaskType] = {
-    scheduledAt: nextAt.toISOString(),
+    await enqueueWorkflowTask(trx, taskType, payload, { dedupeKey: `${schedule.name}:${scheduledAt}` })
   }
 
-  await enqueueWorkflowTask(executor, taskType, payload, {
-    availableAt: nextAt,
-    dedupeKey: buildScheduledDedupeKey(taskType, nextAt),
-    maxAttempts: config.maxAttempts,
-  })
+  if (handledUntil) {
+    await trx
+      .updateTable('workflow_schedule')
+      .set({ last_scheduled_for: handledUntil })
+      .where('id', '=', scheduleId)
+      .execute()
+  }
 
-  return nextAt
+  return runs.length
 }
 
-export const scheduleNextRecurringTaskSafe = async (
-  executor: DbExecutor,
-  taskType: RecurringWorkflowTaskType,
-  from: Date
-) => {
-  try {
-    await scheduleNextRecurringTask(executor, taskType, from)
-  } catch (error) {
-    console.error(`Failed to schedule next ${taskType} run`, error)
+/**
+ * Enqueues every enabled schedule's runs that have come due. Safe to call from several workers at once: each schedule
+ * is locked while it's handled and every run has its own dedupe key. A schedule with a bad cron expression, timezone
+ * or payload is logged and left alone so it doesn't hold up the others.
+ */
+export const enqueueDueScheduledTasks = async (now = new Date()) => {
+  const schedules = await db
+    .selectFrom('workflow_schedule')
+    .select(['id', 'name'])
+    .where('enabled', '=', true)
+    .execute()
+
+  let enqueued = 0
+  for (const schedule of schedules) {
+    try {
+      enqueued += await db.transaction().execute((trx) => enqueueDueRuns(trx, schedule.id, now))
+    } catch (error) {
+      console.error('Failed to enqueue scheduled workflow task', {
+        scheduleId: schedule.id,
+        name: schedule.name,
+        error,
+      })
+    }
   }
-}
 
-export const seedRecurringTasks = async () => {
-  const now = new Date()
-  for (const taskType of Object.keys(recurringTaskConfig) as RecurringWorkflowTaskType[]) {
-    await scheduleNextRecurringTask(db, taskType, now)
-  }
+  return enqueued
 }
@@ -1,11 +1,14 @@
+import type { Kysely, Transaction } from 'kysely'
 import BigNumber from 'bignumber.js'
 import { subHours } from 'date-fns'
 import Stripe from 'stripe'
+import type { Database } from '@/lib/db'
 import type { WorkflowTaskPayloadMap } from '@/server/workflow/types'
 import { APP_NAME } from '@/app/api/_lib/constants'
 import { getStripeClient, STRIPE_API_VERSION } from '@/app/api/_lib/stripeClient'
 import { currencyChargeLimits } from '@/app/api/_lib/transactionFees'
 import { db } from '@/lib/db'
+import { queueReceiptEmail } from '@/server/saleDocuments'
 import { calculateFee, calculateStripeFee, getFee, fees } from '@/server/workflow/fees'
 import { enqueueWorkflowTask } from '@/server/workflow/outbox'
 import { currencyFormat, joinIgnoreEmpty } from '@/server/workflow/utils'
@@ -45,6 +48,8 @@ export class StripeCardError extends Error {
   }
 }
 
+type DbExecutor = Kysely<Database> | Transaction<Database>
+
 const stripeApiVersionDate = STRIPE_API_VERSION.split('.')[0]
 
 const getDefaultPaymentMethod = async (
@@ -87,6 +92,167 @@ const getDefaultPaymentMethod = async (
   return paymentMethod
 }
 
+type CardChargeDetails = {
+  clientId: string
+  trainerUserId: string
+  clientStripeCustomerId: string | null
+  trainerStripeAccountId: string | null
+  stripeAccountObject: unknown
+  stripePaymentsBlocked: boolean | null
+  country: string
+}
+
+/**
+ * Charges the client's default card for the total of `amounts`, taking an application fee on each amount. Throws one
+ * of the errors above when the trainer can't take card payments or the card can't be charged.
+ */
+const chargeClientCard = async (
+  stripeClient: Stripe,
+  details: CardChargeDetails,
+  {
+    amounts,
+    description,
+    metadata,
+    receiptEmail,
+    idempotencyKey,
+  }: {
+    amounts: BigNumber[]
+    description: string
+    metadata: Record<string, string>
+    receiptEmail?: string
+    idempotencyKey?: string
+  }
+) => {
+  if (!details.clientStripeCustomerId) {
+    throw new NoPaymentMethodOnFile()
+  }
+
+  if (details.stripePaymentsBlocked) {
+    throw new StripePaymentsBlocked()
+  }
+
+  const stripeAccount =
+    typeof details.stripeAccountObject === 'string'
+      ? (JSON.parse(details.stripeAccountObject) as Record<string, unknown>)
+      : (details.stripeAccountObject as Record<string, unknown> | null)
+  const stripeAccountType =
+    stripeAccount && typeof stripeAccount.type === 'string' ? (stripeAccount.type as 'standard' | 'custom') : null
+
+  if (!details.trainerStripeAccountId || !stripeAccountType) {
+    throw new StripePaymentsNotEnabled()
+  }
+
+  const stripeAccountId = details.trainerStripeAccountId
+
+  const clientPaymentMethod = await getDefaultPaymentMethod(stripeClient, details.clientStripeCustomerId, {
+    stripeAccountId: stripeAccountType === 'standard' ? stripeAccountId : undefined,
+  })
+
+  if (!clientPaymentMethod || !clientPaymentMethod.card) {
+    throw new NoPaymentMethodOnFile()
+  }
+
+  const cardCountry = clientPaymentMethod.card.country || details.country
+  const currency = fees[details.country as keyof typeof fees].currency
+
+  const applicationFees = amounts.map((amount) =>
+    calculateFee({ amount, cardCountry, chargeCountry: details.country, currency })
+  )
+  const applicationFee = applicationFees.reduce((a, b) => a.plus(b), new BigNumber(0))
+  const totalAmount = amounts.reduce((a, b) => a.plus(b), new BigNumber(0))
+
+  const fee = getFee({ cardCountry, chargeCountry: details.country, currency })
+
+  const decimals =
+    currencyChargeLimits[currency.toUpperCase() as keyof typeof currencyChargeLimits].smallestUnitDecimals
+
+  let paymentIntent: Stripe.PaymentIntent
+
+  try {
+    paymentIntent = await stripeClient.paymentIntents.create(
+      {
+        amount: Number(totalAmount.shiftedBy(decimals)),
+        currency: currency.toLowerCase(),
+        confirm: true,
+        customer: details.clientStripeCustomerId,
+        description,
+        metadata: {
+          ...metadata,
+          fixedFee: fee.fixedFee.toString(),
+          percentageFee: fee.percentageFee.toString(),
+        },
+        off_session: true,
+        payment_method: clientPaymentMethod.id,
+        receipt_email: receiptEmail,
+        statement_descriptor_suffix: `VIA ${APP_NAME}`,
+        application_fee_amount: Number(
+          applicationFee
+            .minus(
+              stripeAccountType === 'standard'
+                ? calculateStripeFee({
+                    cardCountry,
+                    chargeCountry: details.country,
+                    currency,
+                    amount: totalAmount,
+                  })
+                : 0
+            )
+            .shiftedBy(decimals)
+        ),
+        error_on_requires_action: true,
+        on_behalf_of: stripeAccountType === 'standard' ? undefined : stripeAccountId,
+        transfer_data:
+          stripeAccountType === 'standard'
+            ? undefined
+            : {
+                destination: stripeAccountId,
+              },
+      },
+      {
+        stripeAccount: stripeAccountType === 'standard' ? stripeAccountId : undefined,
+        idempotencyKey,
+      }
+    )
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeCardError) {
+      throw new StripeCardError(error)
+    }
+    if (error instanceof Stripe.errors.StripeInvalidRequestError && error.code === 'resource_missing') {
+      throw new NoPaymentMethodOnFile()
+    }
+    if (error instanceof Stripe.errors.StripeError && error.code === 'payouts_not_allowed') {
+      await enqueueWorkflowTask(db, 'user.notify', {
+        notificationType: 'general',
+        messageType: 'failure',
+        title: `Charge failed - Verification required`,
+        body: `A card charge was attempted against one of your clients but failed because Stripe requires further verification.`,
+        clientId: details.clientId,
+        userId: details.trainerUserId,
+      })
+      throw new ChargeFailedBecauseNotVerified()
+    }
+    throw error
+  }
+
+  return { paymentIntent, stripeAccountId, currency, decimals, totalAmount, applicationFee, applicationFees }
+}
+
+const savePaymentIntent = (executor: DbExecutor, paymentIntent: Stripe.PaymentIntent) =>
+  executor
+    .insertInto('stripe_payment_intent')
+    .values({
+      id: paymentIntent.id,
+      api_version: stripeApiVersionDate,
+      object: JSON.stringify(paymentIntent),
+    })
+    .onConflict((oc) =>
+      oc.column('id').doUpdateSet({
+        api_version: stripeApiVersionDate,
+        object: JSON.stringify(paymentIntent),
+      })
+    )
+    .execute()
+
 export const handleChargeOutstandingTask = async (
   payload: WorkflowTaskPayloadMap['payment-plan.charge-outstanding']
 ) => {
@@ -160,57 +326,48 @@ export const handleChargeOutstandingTask = async (
       return
     }
 
-    const normalizedDetails = details.map((row) => {
-      const stripeAccount =
-        typeof row.stripeAccountObject === 'string'
-          ? (JSON.parse(row.stripeAccountObject) as Record<string, unknown>)
-          : (row.stripeAccountObject as Record<string, unknown> | null)
-      const stripeAccountType =
-        stripeAccount && typeof stripeAccount.type === 'string' ? (stripeAccount.type as 'standard' | 'custom') : null
-
-      return { ...row, stripeAccountType }
-    })
-
-    const first = normalizedDetails[0]
+    const first = details[0]
 
-    if (!first.clientStripeCustomerId) {
-      throw new NoPaymentMethodOnFile()
-    }
-
-    if (first.stripePaymentsBlocked) {
-      throw new StripePaymentsBlocked()
-    }
+    const paymentsMetadata: Record<string, string> = {}
+    let groupCount = 0
+    let characterCount = 0
+    let group: string[] = []
 
-    if (!first.trainerStripeAccountId || !first.stripeAccountType) {
-      throw new StripePaymentsNotEnabled()
+    for (const id of details.map((planPayment) => planPayment.id)) {
+      const serialized = JSON.stringify(id)
+      if (characterCount + serialized.length + group.length + 2 > 500) {
+        paymentsMetadata[`paymentPlanPaymentIds_${groupCount}`] = JSON.stringify(group)
+        characterCount = 0
+        group = []
+        groupCount += 1
+      }
+      group.push(id)
+      characterCount += serialized.length
     }
 
-    const stripeAccountId = first.trainerStripeAccountId
-    const stripeAccountType = first.stripeAccountType
+    paymentsMetadata[`paymentPlanPaymentIds_${groupCount}`] = JSON.stringify(group)
 
-    const clientPaymentMethod = await getDefaultPaymentMethod(stripeClient, first.clientStripeCustomerId, {
-      stripeAccountId: stripeAccountType === 'standard' ? stripeAccountId : undefined,
+    const dateFormatter = new Intl.DateTimeFormat(first.locale, {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
     })
 
-    if (!clientPaymentMethod || !clientPaymentMethod.card) {
-      throw new NoPaymentMethodOnFile()
-    }
-
-    const cardCountry = clientPaymentMethod.card.country || first.country
-    const currency = fees[first.country as keyof typeof fees].currency
+    const paymentDates = details.map((planPayment) => dateFormatter.format(planPayment.date)).join(',')
 
-    const applicationFees = normalizedDetails.map((planPayment) => ({
-      id: planPayment.id,
-      fee: calculateFee({
-        amount: new BigNumber(planPayment.amountOutstanding),
-        cardCountry,
-        chargeCountry: first.country,
-        currency,
-      }),
-    }))
+    const { paymentIntent, stripeAccountId, currency, totalAmount, applicationFees } = await chargeClientCard(
+      stripeClient,
+      first,
+      {
+        amounts: details.map((planPayment) => new BigNumber(planPayment.amountOutstanding)),
+        description: `${first.paymentPlanName} Outstanding Payments for ${paymentDates}`,
+        metadata: paymentsMetadata,
+        receiptEmail: first.sendReceipts && first.clientEmail ? first.clientEmail : undefined,
+      }
+    )
 
     const updateTime = new Date()
-    for (const { id, fee } of applicationFees) {
+    for (const [index, planPayment] of details.entries()) {
       await trx
         .updateTable('payment_plan_payment')
         .set((eb) => ({
@@ -218,26 +375,12 @@ export const handleChargeOutstandingTask = async (
           amount_outstanding: 0,
           retry_count: eb(eb.ref('retry_count'), '+', 1),
           last_retry_time: updateTime,
-          fee: fee.toString(),
+          fee: applicationFees[index].toString(),
         }))
-        .where('id', '=', id)
+        .where('id', '=', planPayment.id)
         .execute()
     }
 
-    const dateFormatter = new Intl.DateTimeFormat(first.locale, {
-      month: 'short',
-      day: 'numeric',
-      year: 'numeric',
-    })
-
-    const paymentDates = normalizedDetails.map((planPayment) => dateFormatter.format(planPayment.date)).join(',')
-
-    const totalAmount = normalizedDetails
-      .map((planPayment) => new BigNumber(planPayment.amountOutstanding))
-      .reduce((a, b) => a.plus(b), new BigNumber(0))
-
-    const applicationFee = applicationFees.map((entry) => entry.fee).reduce((a, b) => a.plus(b), new BigNumber(0))
-
     await Promise.all([
       enqueueWorkflowTask(trx, 'user.notify', {
         userId: first.trainerUserId,
@@ -250,122 +393,14 @@ export const handleChargeOutstandingTask = async (
       trx.deleteFrom('stripe_balance').where('account_id', '=', stripeAccountId).execute(),
     ])
 
-    const paymentsMetadata: Record<string, string> = {}
-    let groupCount = 0
-    let characterCount = 0
-    let group: string[] = []
-
-    for (const id of normalizedDetails.map((planPayment) => planPayment.id)) {
-      const serialized = JSON.stringify(id)
-      if (characterCount + serialized.length + group.length + 2 > 500) {
-        paymentsMetadata[`paymentPlanPaymentIds_${groupCount}`] = JSON.stringify(group)
-        characterCount = 0
-        group = []
-        groupCount += 1
-      }
-      group.push(id)
-      characterCount += serialized.length
-    }
-
-    paymentsMetadata[`paymentPlanPaymentIds_${groupCount}`] = JSON.stringify(group)
-
-    const fee = getFee({
-      cardCountry,
-      chargeCountry: first.country,
-      currency,
-    })
-
-    const decimals =
-      currencyChargeLimits[currency.toUpperCase() as keyof typeof currencyChargeLimits].smallestUnitDecimals
-
-    let paymentIntent: Stripe.PaymentIntent
-
-    try {
-      paymentIntent = await stripeClient.paymentIntents.create(
-        {
-          amount: Number(totalAmount.shiftedBy(decimals)),
-          currency: currency.toLowerCase(),
-          confirm: true,
-          customer: first.clientStripeCustomerId,
-          description: `${first.paymentPlanName} Outstanding Payments for ${paymentDates}`,
-          metadata: {
-            ...paymentsMetadata,
-            fixedFee: fee.fixedFee.toString(),
-            percentageFee: fee.percentageFee.toString(),
-          },
-          off_session: true,
-          payment_method: clientPaymentMethod.id,
-          receipt_email: first.sendReceipts && first.clientEmail ? first.clientEmail : undefined,
-          statement_descriptor_suffix: `VIA ${APP_NAME}`,
-          application_fee_amount: Number(
-            applicationFee
-              .minus(
-                stripeAccountType === 'standard'
-                  ? calculateStripeFee({
-                      cardCountry,
-                      chargeCountry: first.country,
-                      currency,
-                      amount: totalAmount,
-                    })
-                  : 0
-              )
-              .shiftedBy(decimals)
-          ),
-          error_on_requires_action: true,
-          on_behalf_of: stripeAccountType === 'standard' ? undefined : stripeAccountId,
-          transfer_data:
-            stripeAccountType === 'standard'
-              ? undefined
-              : {
-                  destination: stripeAccountId,
-                },
-        },
-        {
-          stripeAccount: stripeAccountType === 'standard' ? stripeAccountId : undefined,
-        }
-      )
-    } catch (error) {
-      if (error instanceof Stripe.errors.StripeCardError) {
-        throw new StripeCardError(error)
-      }
-      if (error instanceof Stripe.errors.StripeInvalidRequestError && error.code === 'resource_missing') {
-        throw new NoPaymentMethodOnFile()
-      }
-      if (error instanceof Stripe.errors.StripeError && error.code === 'payouts_not_allowed') {
-        await enqueueWorkflowTask(db, 'user.notify', {
-          notificationType: 'general',
-          messageType: 'failure',
-          title: `Charge failed - Verification required`,
-          body: `A card charge was attempted against one of your clients but failed because Stripe requires further verification.`,
-          clientId: first.clientId,
-          userId: first.trainerUserId,
-        })
-        throw new ChargeFailedBecauseNotVerified()
-      }
-      throw error
-    }
-
     try {
       await db.transaction().execute(async (inner) => {
-        await inner
-          .insertInto('stripe_payment_intent')
-          .values({
-            id: paymentIntent.id,
-            api_version: stripeApiVersionDate,
-            object: JSON.stringify(paymentIntent),
-          })
-          .onConflict((oc) =>
-            oc.column('id').doUpdateSet({
-              api_version: stripeApiVersionDate,
-              object: JSON.stringify(paymentIntent),
-            })
-          )
-          .execute()
+        await savePaymentIntent(inner, paymentIntent)
 
         await inner
           .insertInto('payment_plan_charge')
           .values(
-            normalizedDetails.map((planPayment) => ({
+            details.map((planPayment) => ({
               payment_plan_payment_id: planPayment.id,
               stripe_payment_intent_id: paymentIntent.id,
             }))
@@ -381,3 +416,129 @@ export const handleChargeOutstandingTask = async (
     }
   })
 }
+
+/**
+ * Charges an unpaid sale to the client's card on file, e.g. a no-show or late-cancel fee. Failures are left to the
+ * outbox to retry, the same as outstanding payment plan payments.
+ */
+export const handleChargeOutstandingSaleTask = async ({
+  saleId,
+}: WorkflowTaskPayloadMap['sale.charge-outstanding']) => {
+  const stripeClient = getStripeClient()
+  if (!stripeClient) {
+    throw new Error('Stripe is not configured')
+  }
+
+  await db.transaction().execute(async (trx) => {
+    const details = await trx
+      .selectFrom('sale')
+      .innerJoin('sale_payment_status as salePaymentStatus', 'salePaymentStatus.sale_id', 'sale.id')
+      .innerJoin('trainer', 'trainer.id', 'sale.trainer_id')
+      .innerJoin('client', 'client.id', 'sale.client_id')
+      .innerJoin('country', 'country.id', 'trainer.country_id')
+      .leftJoin('stripe.account as stripeAccount', 'stripeAccount.id', 'trainer.stripe_account_id')
+      .select((eb) => [
+        eb.ref('sale.id').as('saleId'),
+        eb.ref('sale.trainer_id').as('trainerId'),
+        eb.ref('client.id').as('clientId'),
+        eb.ref('salePaymentStatus.payment_status').as('paymentStatus'),
+        eb.ref('trainer.locale').as('locale'),
+        eb.ref('trainer.stripe_account_id').as('trainerStripeAccountId'),
+        eb.ref('stripeAccount.object').as('stripeAccountObject'),
+        eb.ref('client.stripe_customer_id').as('clientStripeCustomerId'),
+        eb.ref('trainer.user_id').as('trainerUserId'),
+        eb.ref('trainer.send_receipts').as('sendReceipts'),
+        eb.ref('client.first_name').as('clientFirstName'),
+        eb.ref('client.last_name').as('clientLastName'),
+        eb.ref('country.alpha_2_code').as('country'),
+        eb.ref('trainer.stripe_payments_blocked').as('stripePaymentsBlocked'),
+      ])
+      .where('sale.id', '=', saleId)
+      .forUpdate(['sale', 'salePaymentStatus'])
+      .executeTakeFirst()
+
+    if (!details || (details.paymentStatus !== 'none' && details.paymentStatus !== 'requested')) {
+      return
+    }
+
+    const saleProducts = await trx
+      .selectFrom('sale_product')
+      .select(['name', 'price', 'tax_amount'])
+      .where('sale_id', '=', details.saleId)
+      .orderBy('created_at')
+      .execute()
+
+    const amount = saleProducts.reduce((total, product) => total.plus(product.price), new BigNumber(0))
+    if (!amount.gt(0)) {
+      return
+    }
+
+    const taxAmount = saleProducts.reduce((total, product) => total.plus(product.tax_amount), new BigNumber(0))
+    const description = saleProducts.map((product) => product.name).join(', ')
+
+    const { paymentIntent, stripeAccountId, currency, decimals, applicationFee } = await chargeClientCard(
+      stripeClient,
+      details,
+      {
+        amounts: [amount],
+        description,
+        metadata: { saleId: details.saleId, taxAmount: taxAmount.toFixed(2) },
+        idempotencyKey: `sale.charge-outstanding:${details.saleId}`,
+      }
+    )
+
+    await savePaymentIntent(trx, paymentIntent)
+
+    const payment = await trx
+      .insertInto('payment')
+      .values({
+        trainer_id: details.trainerId,
+        client_id: details.clientId,
+        sale_id: details.saleId,
+        amount: amount.toString(),
+        is_manual: false,
+        is_credit_pack: false,
+        is_subscription: false,
+        is_stripe: true,
+        is_scheduled_stripe: false,
+      })
+      .returning('id')
+      .executeTakeFirstOrThrow()
+
+    await trx
+      .insertInto('payment_stripe')
+      .values({
+        id: payment.id,
+        trainer_id: details.trainerId,
+        fee: applicationFee.toFixed(decimals),
+        stripe_payment_intent_id: paymentIntent.id,
+        stripe_charge_id: typeof paymentIntent.latest_charge === 'string' ? paymentIntent.latest_charge : null,
+        fee_passed_on: false,
+        is_stripe: true,
+      })
+      .execute()
+
+    await trx
+      .updateTable('sale_payment_status')
+      .set({ payment_status: 'paid' })
+      .where('sale_id', '=', details.saleId)
+      .execute()
+
+    // Our own receipt, with the PDF attached, takes the place of Stripe's.
+    if (details.sendReceipts) {
+      await queueReceiptEmail(trx, { trainerId: details.trainerId, paymentId: payment.id })
+    }
+
+    await Promise.all([
+      enqueueWorkflowTask(trx, 'user.notify', {
+        userId: details.trainerUserId,
+        clientId: details.clientId,
+        title: joinIgnoreEmpty(details.clientFirstName, details.clientLastName),
+        body: `Payment Processed!\nPayment of ${currencyFormat(amount, { locale: details.locale, currency })} has gone through for ${description}`,
+        messageType: 'success',
+        notificationType: 'transaction',
+      }),
+      trx.deleteFrom('stripe_balance').where('account_id', '=', stripeAccountId).execute(),
+    ])
+  })
+}
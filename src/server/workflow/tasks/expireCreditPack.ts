@@ -0,0 +1,7 @@
+import type { WorkflowTaskPayloadMap } from '@/server/workflow/types'
+import { db } from '@/lib/db'
+import { expireCreditPack } from '@/server/creditLedger'
+
+export const handleExpireCreditPackTask = async ({ saleCreditPackId }: WorkflowTaskPayloadMap['expireCreditPack']) => {
+  await db.transaction().execute((trx) => expireCreditPack(trx, saleCreditPackId))
+}
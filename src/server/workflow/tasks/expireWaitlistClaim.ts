@@ -0,0 +1,9 @@
+import type { WorkflowTaskPayloadMap } from '@/server/workflow/types'
+import { db } from '@/lib/db'
+import { expireWaitlistClaim } from '@/server/sessionWaitlist'
+
+export const handleExpireWaitlistClaimTask = async ({
+  clientSessionId,
+}: WorkflowTaskPayloadMap['expireWaitlistClaim']) => {
+  await db.transaction().execute((trx) => expireWaitlistClaim(trx, clientSessionId))
+}
@@ -1,6 +1,7 @@
 import type { Json } from '@/lib/db/generated'
 import type { WorkflowTaskPayloadMap } from '@/server/workflow/types'
 import { db } from '@/lib/db'
+import { suppressAddress } from '@/server/messageSuppressions'
 
 export const handleProcessMandrillEventTask = async ({
   ts,
@@ -112,7 +113,11 @@ export const handleProcessMandrillEventTask = async ({
         const row = await db
           .selectFrom('mandrill.event as mandrillEvent')
           .innerJoin('mail', 'mail.mandrill_message_id', 'mandrillEvent._id')
-          .select((eb) => [eb.ref('mail.id').as('mailId'), eb.ref('mandrillEvent.object').as('object')])
+          .select((eb) => [
+            eb.ref('mail.id').as('mailId'),
+            eb.ref('mail.to_email').as('toEmail'),
+            eb.ref('mandrillEvent.object').as('object'),
+          ])
           .where('mandrillEvent.ts', '=', ts)
           .where('mandrillEvent._id', '=', _id)
           .where('mandrillEvent.event', '=', event)
@@ -137,6 +142,33 @@ export const handleProcessMandrillEventTask = async ({
               description,
             })
             .execute()
+
+          if (event === 'hard_bounce') {
+            await suppressAddress(db, {
+              channel: 'email',
+              address: row.toEmail,
+              reason: 'hard_bounce',
+              source: 'mandrill',
+              detail: description ?? diagnosis,
+            })
+          }
+        }
+      }
+
+      if (event === 'spam' || event === 'unsub') {
+        const row = await db
+          .selectFrom('mail')
+          .select('to_email as toEmail')
+          .where('mandrill_message_id', '=', _id)
+          .executeTakeFirst()
+
+        if (row) {
+          await suppressAddress(db, {
+            channel: 'email',
+            address: row.toEmail,
+            reason: event === 'spam' ? 'spam_complaint' : 'unsubscribed',
+            source: 'mandrill',
+          })
         }
       }
     }
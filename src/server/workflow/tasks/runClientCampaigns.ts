@@ -0,0 +1,462 @@
+import type { Transaction } from 'kysely'
+import type { CountryCode } from 'libphonenumber-js'
+import { sql } from 'kysely'
+import { parsePhoneNumberFromString } from 'libphonenumber-js/min'
+import type { WorkflowTaskPayloadMap } from '@/server/workflow/types'
+import { APP_NAME, NO_REPLY_EMAIL } from '@/app/api/_lib/constants'
+import { utcToLocalDateTime } from '@/lib/dates/timezone'
+import { db, type Database } from '@/lib/db'
+import { createTranslator, resolveLocale } from '@/lib/i18n'
+import {
+  type CampaignChannel,
+  type CampaignCondition,
+  type CampaignTriggerType,
+  campaignVariables,
+  parseCampaignConditions,
+  sendsEmail,
+  sendsSms,
+} from '@/server/clientCampaigns'
+import { renderEmailContent, renderTemplateText } from '@/server/emailTemplates'
+import { findActiveSuppression } from '@/server/messageSuppressions'
+import { attendingClientSessionStates } from '@/server/sessionWaitlist'
+import { createClientDashboardLink } from '@/server/workflow/links'
+import { ctaEmail } from '@/server/workflow/templates/ctaEmail'
+import { joinIgnoreEmpty } from '@/server/workflow/utils'
+
+/** Campaigns only send between these hours in the trainer's timezone, so nobody gets a check-in at 3am. */
+const SEND_FROM_HOUR = 9
+const SEND_UNTIL_HOUR = 20
+
+/** However many campaigns a client matches, they get at most one campaign message in this window. */
+const CLIENT_COOLDOWN_MS = 24 * 60 * 60 * 1000
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type Campaign = {
+  id: string
+  trainerId: string
+  triggerType: CampaignTriggerType
+  triggerThreshold: number | null
+  conditions: CampaignCondition[]
+  channel: CampaignChannel
+  emailSubject: string | null
+  emailHeading: string | null
+  emailBody: string | null
+  smsBody: string | null
+  frequencyCapDays: number
+  serviceProviderName: string
+  trainerEmail: string
+  replyTo: string
+  brandColor: string
+  businessLogoUrl: string | null
+  locale: string
+  timezone: string
+  country: string
+}
+
+/** A client a campaign's trigger fired for. The occurrence key tells one firing from the next, e.g. one per birthday. */
+type TriggeredClient = {
+  clientId: string
+  occurrenceKey: string
+  creditsRemaining: number | null
+}
+
+type SkipReason = 'frequency_capped' | 'no_contact_details' | 'suppressed' | 'no_sms_credits'
+
+/** Skips that can clear up while the trigger still fires, so a later run tries the same occurrence again. */
+const retriedSkipReasons: SkipReason[] = ['frequency_capped', 'no_contact_details', 'no_sms_credits']
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+const isLeapYear = (year: number) => (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0
+
+/** Clients of the campaign's trainer who match all of its conditions. */
+const matchingClients = (campaign: Campaign, now: Date) => {
+  let query = db.selectFrom('client').where('client.trainer_id', '=', campaign.trainerId)
+
+  for (const condition of campaign.conditions) {
+    switch (condition.type) {
+      case 'client_status': {
+        query = query.where('client.status', 'in', condition.statuses)
+        break
+      }
+      case 'no_upcoming_booking': {
+        query = query.where((eb) =>
+          eb.not(
+            eb.exists(
+              eb
+                .selectFrom('client_session')
+                .innerJoin('session', 'session.id', 'client_session.session_id')
+                .select('client_session.id')
+                .whereRef('client_session.client_id', '=', 'client.id')
+                .where('client_session.state', 'in', attendingClientSessionStates)
+                .where('session.start', '>', now)
+            )
+          )
+        )
+        break
+      }
+    }
+  }
+
+  return query
+}
+
+const findTriggeredClients = async (campaign: Campaign, now: Date): Promise<TriggeredClient[]> => {
+  const threshold = campaign.triggerThreshold ?? 1
+
+  switch (campaign.triggerType) {
+    case 'no_recent_booking': {
+      // Bookings in the future count too: a client who has booked ahead hasn't lapsed.
+      const rows = await matchingClients(campaign, now)
+        .innerJoin('client_session', 'client_session.client_id', 'client.id')
+        .innerJoin('session', 'session.id', 'client_session.session_id')
+        .select((eb) => [eb.ref('client.id').as('clientId'), eb.fn.max('session.start').as('lastBookedFor')])
+        .where('client_session.state', 'in', attendingClientSessionStates)
+        .groupBy('client.id')
+        .having((eb) => eb.fn.max('session.start'), '<', new Date(now.getTime() - threshold * DAY_MS))
+        .execute()
+
+      return rows.map((row) => ({
+        clientId: row.clientId,
+        occurrenceKey: `last-booking:${new Date(row.lastBookedFor).toISOString()}`,
+        creditsRemaining: null,
+      }))
+    }
+
+    case 'credit_pack_low': {
+      const balances = db
+        .selectFrom('credit_ledger_entry')
+        .select((eb) => [
+          eb.ref('credit_ledger_entry.sale_credit_pack_id').as('saleCreditPackId'),
+          eb.fn.sum<string>('credit_ledger_entry.credits').as('credits'),
+        ])
+        .where('credit_ledger_entry.occurred_at', '<=', now)
+        .groupBy('credit_ledger_entry.sale_credit_pack_id')
+        .as('balance')
+
+      // Counted across all of a client's live packs, so someone with a fresh pack isn't asked to renew an old one.
+      // Keying on the newest pack means buying another and running that one down fires again.
+      const rows = await matchingClients(campaign, now)
+        .innerJoin('sale_product', 'sale_product.client_id', 'client.id')
+        .innerJoin('sale_credit_pack', 'sale_credit_pack.id', 'sale_product.id')
+        .innerJoin(balances, 'balance.saleCreditPackId', 'sale_credit_pack.id')
+        .select((eb) => [
+          eb.ref('client.id').as('clientId'),
+          eb.fn.sum<string>('balance.credits').as('creditsRemaining'),
+          sql<string>`(array_agg(${eb.ref('sale_credit_pack.id')} ORDER BY ${eb.ref('sale_credit_pack.created_at')} DESC))[1]`.as(
+            'latestPackId'
+          ),
+        ])
+        .where('balance.credits', '>', '0')
+        .where((eb) =>
+          eb.or([eb('sale_credit_pack.expires_at', 'is', null), eb('sale_credit_pack.expires_at', '>', now)])
+        )
+        .groupBy('client.id')
+        .having((eb) => eb.fn.sum('balance.credits'), '<=', threshold)
+        .execute()
+
+      return rows.map((row) => ({
+        clientId: row.clientId,
+        occurrenceKey: `pack:${row.latestPackId}`,
+        creditsRemaining: Number(row.creditsRemaining),
+      }))
+    }
+
+    case 'birthday': {
+      const today = utcToLocalDateTime(now, campaign.timezone)
+      const monthDays = [`${pad(today.month)}-${pad(today.day)}`]
+      // Clients born on 29 February celebrate on the 28th in other years.
+      if (today.month === 2 && today.day === 28 && !isLeapYear(today.year)) {
+        monthDays.push('02-29')
+      }
+
+      const rows = await matchingClients(campaign, now)
+        .select('client.id as clientId')
+        .where('client.birthday', 'is not', null)
+        .where(sql<string>`to_char(client.birthday, 'MM-DD')`, 'in', monthDays)
+        .execute()
+
+      return rows.map((row) => ({
+        clientId: row.clientId,
+        occurrenceKey: `birthday:${today.year}`,
+        creditsRemaining: null,
+      }))
+    }
+  }
+}
+
+const isFrequencyCapped = async (trx: Transaction<Database>, campaign: Campaign, clientId: string, now: Date) => {
+  const recent = await trx
+    .selectFrom('client_campaign_run')
+    .select('id')
+    .where('client_id', '=', clientId)
+    .where('status', '=', 'sent')
+    .where((eb) =>
+      eb.or([
+        eb('created_at', '>', new Date(now.getTime() - CLIENT_COOLDOWN_MS)),
+        eb.and([
+          eb('campaign_id', '=', campaign.id),
+          eb('created_at', '>', new Date(now.getTime() - campaign.frequencyCapDays * DAY_MS)),
+        ]),
+      ])
+    )
+    .limit(1)
+    .executeTakeFirst()
+
+  return recent !== undefined
+}
+
+/**
+ * Sends a campaign to one client and logs it. The log row is claimed first, so the same occurrence is never acted on
+ * twice even if two runs overlap. An occurrence skipped for a reason that can clear up is claimed again.
+ */
+const runCampaignForClient = async (
+  trx: Transaction<Database>,
+  campaign: Campaign,
+  triggered: TriggeredClient,
+  smsCredits: { balance: bigint },
+  now: Date
+) => {
+  const claimed = await trx
+    .insertInto('client_campaign_run')
+    .values({
+      campaign_id: campaign.id,
+      trainer_id: campaign.trainerId,
+      client_id: triggered.clientId,
+      occurrence_key: triggered.occurrenceKey,
+      status: 'skipped',
+    })
+    .onConflict((oc) =>
+      oc
+        .columns(['campaign_id', 'client_id', 'occurrence_key'])
+        .doUpdateSet({ created_at: now, skip_reason: null })
+        .where('client_campaign_run.skip_reason', 'in', retriedSkipReasons)
+    )
+    .returning('id')
+    .executeTakeFirst()
+
+  if (!claimed) {
+    return
+  }
+
+  const finish = (result: { status: 'sent'; mailId: string | null; smsId: string | null } | SkipReason) =>
+    trx
+      .updateTable('client_campaign_run')
+      .set(
+        typeof result === 'string'
+          ? { status: 'skipped', skip_reason: result }
+          : { status: 'sent', mail_id: result.mailId, sms_id: result.smsId }
+      )
+      .where('id', '=', claimed.id)
+      .execute()
+
+  if (await isFrequencyCapped(trx, campaign, triggered.clientId, now)) {
+    return finish('frequency_capped')
+  }
+
+  const client = await trx
+    .selectFrom('client')
+    .select([
+      'first_name as firstName',
+      'last_name as lastName',
+      'email',
+      'mobile_number as mobileNumber',
+      'user_id as userId',
+      'locale',
+    ])
+    .where('id', '=', triggered.clientId)
+    .executeTakeFirstOrThrow()
+
+  const values = {
+    clientFirstName: client.firstName,
+    serviceProviderName: campaign.serviceProviderName,
+    creditsRemaining: triggered.creditsRemaining === null ? null : String(triggered.creditsRemaining),
+    dashboardLink: null as string | URL | null,
+  }
+  const usesDashboardLink = [campaign.emailBody, campaign.smsBody].some((text) => text?.includes('dashboardLink'))
+  if (usesDashboardLink && client.email && client.userId) {
+    values.dashboardLink = await createClientDashboardLink(trx, {
+      clientId: triggered.clientId,
+      clientEmail: client.email,
+    })
+  }
+
+  let suppressed = false
+  let mailId: string | null = null
+  if (sendsEmail(campaign.channel) && client.email) {
+    if (await findActiveSuppression(trx, campaign.trainerId, 'email', client.email)) {
+      suppressed = true
+    } else {
+      const { locale, t } = createTranslator(resolveLocale(client.locale, campaign.locale))
+      const email = renderEmailContent(
+        {
+          subject: campaign.emailSubject ?? '',
+          heading: campaign.emailHeading ?? '',
+          body: campaign.emailBody ?? '',
+        },
+        campaignVariables,
+        values
+      )
+
+      const mail = await trx
+        .insertInto('mail')
+        .values({
+          trainer_id: campaign.trainerId,
+          client_id: triggered.clientId,
+          from_email: NO_REPLY_EMAIL,
+          from_name: `${campaign.serviceProviderName} via ${APP_NAME}`,
+          to_email: client.email,
+          to_name: joinIgnoreEmpty(client.firstName, client.lastName) || null,
+          message_type: 'campaign',
+          subject: email.subject,
+          html: ctaEmail({
+            receivingReason: t('email.clientOfReason', { serviceProviderName: campaign.serviceProviderName }),
+            locale,
+            brandColor: campaign.brandColor,
+            logo: campaign.businessLogoUrl
+              ? { url: campaign.businessLogoUrl, alt: campaign.serviceProviderName }
+              : undefined,
+            bodyHeading: email.heading || email.subject,
+            bodyHtml: email.bodyHtml,
+          }),
+          reply_to: campaign.replyTo,
+        })
+        .returning('id')
+        .executeTakeFirstOrThrow()
+      mailId = mail.id
+    }
+  }
+
+  let outOfCredits = false
+  let smsId: string | null = null
+  const phoneNumber =
+    sendsSms(campaign.channel) && client.mobileNumber
+      ? parsePhoneNumberFromString(client.mobileNumber, campaign.country.toUpperCase() as CountryCode)
+      : undefined
+  if (phoneNumber?.isValid()) {
+    const toNumber = phoneNumber.format('E.164')
+    if (await findActiveSuppression(trx, campaign.trainerId, 'sms', toNumber)) {
+      suppressed = true
+    } else if (smsCredits.balance < 1n) {
+      outOfCredits = true
+    } else {
+      const sms = await trx
+        .insertInto('sms')
+        .values({
+          trainer_id: campaign.trainerId,
+          client_id: triggered.clientId,
+          from_number: null,
+          message_type: 'campaign',
+          to_number: toNumber,
+          body: renderTemplateText(campaign.smsBody ?? '', values),
+        })
+        .returning('id')
+        .executeTakeFirstOrThrow()
+      smsId = sms.id
+      smsCredits.balance -= 1n
+    }
+  }
+
+  if (mailId || smsId) {
+    return finish({ status: 'sent', mailId, smsId })
+  }
+
+  return finish(suppressed ? 'suppressed' : outOfCredits ? 'no_sms_credits' : 'no_contact_details')
+}
+
+/**
+ * Runs every enabled campaign: finds the clients each one's trigger fires for and sends them its message. Runs
+ * hourly, and a campaign only sends during the day in its trainer's timezone.
+ */
+export const handleRunClientCampaignsTask = async (_payload: WorkflowTaskPayloadMap['runClientCampaigns']) => {
+  const now = new Date()
+
+  const rows = await db
+    .selectFrom('client_campaign')
+    .innerJoin('trainer', 'trainer.id', 'client_campaign.trainer_id')
+    .innerJoin('country', 'country.id', 'trainer.country_id')
+    .select((eb) => [
+      eb.ref('client_campaign.id').as('id'),
+      eb.ref('client_campaign.trainer_id').as('trainerId'),
+      eb.ref('client_campaign.trigger_type').as('triggerType'),
+      eb.ref('client_campaign.trigger_threshold').as('triggerThreshold'),
+      eb.ref('client_campaign.conditions').as('conditions'),
+      eb.ref('client_campaign.channel').as('channel'),
+      eb.ref('client_campaign.email_subject').as('emailSubject'),
+      eb.ref('client_campaign.email_heading').as('emailHeading'),
+      eb.ref('client_campaign.email_body').as('emailBody'),
+      eb.ref('client_campaign.sms_body').as('smsBody'),
+      eb.ref('client_campaign.frequency_cap_days').as('frequencyCapDays'),
+      eb.ref('trainer.online_bookings_business_name').as('onlineBookingsBusinessName'),
+      eb.ref('trainer.business_name').as('businessName'),
+      eb.ref('trainer.first_name').as('trainerFirstName'),
+      eb.ref('trainer.last_name').as('trainerLastName'),
+      eb.ref('trainer.email').as('trainerEmail'),
+      eb.ref('trainer.online_bookings_contact_email').as('onlineBookingsContactEmail'),
+      eb.ref('trainer.brand_color').as('brandColor'),
+      eb.ref('trainer.business_logo_url').as('businessLogoUrl'),
+      eb.ref('trainer.locale').as('locale'),
+      eb.ref('trainer.timezone').as('timezone'),
+      eb.ref('country.alpha_2_code').as('country'),
+    ])
+    .where('client_campaign.enabled', '=', true)
+    .execute()
+
+  const smsCreditsByTrainer = new Map<string, { balance: bigint }>()
+
+  for (const row of rows) {
+    const conditions = parseCampaignConditions(row.conditions)
+    if (!conditions) {
+      console.warn('Skipping client campaign with unreadable conditions', { campaignId: row.id })
+      continue
+    }
+
+    const localHour = utcToLocalDateTime(now, row.timezone).hour
+    if (localHour < SEND_FROM_HOUR || localHour >= SEND_UNTIL_HOUR) {
+      continue
+    }
+
+    const campaign: Campaign = {
+      ...row,
+      triggerType: row.triggerType as CampaignTriggerType,
+      channel: row.channel as CampaignChannel,
+      conditions,
+      serviceProviderName:
+        row.onlineBookingsBusinessName ??
+        row.businessName ??
+        (joinIgnoreEmpty(row.trainerFirstName, row.trainerLastName) || APP_NAME),
+      replyTo: row.onlineBookingsContactEmail ?? row.trainerEmail,
+    }
+
+    let smsCredits = smsCreditsByTrainer.get(campaign.trainerId)
+    if (!smsCredits) {
+      const balance = await db
+        .selectFrom('sms_balance')
+        .select('credit_balance as creditBalance')
+        .where('trainer_id', '=', campaign.trainerId)
+        .executeTakeFirst()
+      smsCredits = { balance: BigInt(balance?.creditBalance ?? 0) }
+      smsCreditsByTrainer.set(campaign.trainerId, smsCredits)
+    }
+
+    let triggered: TriggeredClient[]
+    try {
+      triggered = await findTriggeredClients(campaign, now)
+    } catch (error) {
+      console.error('Failed to evaluate client campaign', { campaignId: campaign.id, error })
+      continue
+    }
+
+    for (const client of triggered) {
+      const credits = smsCredits
+      const creditsBefore = credits.balance
+      try {
+        await db.transaction().execute((trx) => runCampaignForClient(trx, campaign, client, credits, now))
+      } catch (error) {
+        credits.balance = creditsBefore
+        console.error('Failed to run client campaign', { campaignId: campaign.id, clientId: client.clientId, error })
+      }
+    }
+  }
+}
@@ -1,10 +1,32 @@
+import { z } from 'zod'
 import type { WorkflowTaskPayloadMap } from '@/server/workflow/types'
 import { db } from '@/lib/db'
-import { sendMandrillMessage } from '@/server/workflow/mandrill'
+import { findActiveSuppression } from '@/server/messageSuppressions'
+import { renderSaleDocument, saleDocumentRefSchema } from '@/server/saleDocuments'
+import { type EmailAttachment, resolveEmailProvider } from '@/server/workflow/messageProviders'
+
+/** Attached documents are rendered as the mail is sent, so they show the sale as it is then. */
+const renderAttachments = async (trainerId: string | null, value: unknown): Promise<EmailAttachment[]> => {
+  const refs = z.array(saleDocumentRefSchema).parse(value)
+  if (refs.length === 0) {
+    return []
+  }
+  if (!trainerId) {
+    throw new Error('Mail with attachments has no trainer')
+  }
+
+  const attachments: EmailAttachment[] = []
+  for (const ref of refs) {
+    const { fileName, content } = await renderSaleDocument(db, { trainerId }, ref)
+    attachments.push({ fileName, contentType: 'application/pdf', content })
+  }
+  return attachments
+}
 
 export const handleSendMailTask = async ({ id }: WorkflowTaskPayloadMap['sendMail']) => {
   const mail = await db
     .selectFrom('mail')
+    .leftJoin('trainer', 'trainer.id', 'mail.trainer_id')
     .select((eb) => [
       eb.ref('mail.trainer_id').as('trainerId'),
       eb.ref('mail.client_id').as('clientId'),
@@ -15,6 +37,8 @@ export const handleSendMailTask = async ({ id }: WorkflowTaskPayloadMap['sendMai
       eb.ref('mail.subject').as('subject'),
       eb.ref('mail.html').as('html'),
       eb.ref('mail.reply_to').as('replyTo'),
+      eb.ref('mail.attachments').as('attachments'),
+      eb.ref('trainer.email_provider').as('emailProvider'),
     ])
     .where('mail.id', '=', id)
     .where('mail.mandrill_message_id', 'is', null)
@@ -27,17 +51,31 @@ export const handleSendMailTask = async ({ id }: WorkflowTaskPayloadMap['sendMai
     return
   }
 
+  const suppression = await findActiveSuppression(db, mail.trainerId, 'email', mail.toEmail)
+  if (suppression) {
+    await db
+      .updateTable('mail')
+      .set({ rejected_at: new Date(), reject_reason: `suppressed: ${suppression.reason}` })
+      .where('id', '=', id)
+      .execute()
+    return
+  }
+
+  const provider = resolveEmailProvider(mail.emailProvider)
+
   try {
-    const sent = await sendMandrillMessage({
-      from_email: mail.fromEmail,
-      from_name: mail.fromName ?? undefined,
-      to: [{ email: mail.toEmail, name: mail.toName ?? undefined }],
-      html: mail.html,
+    const sent = await provider.send({
+      fromEmail: mail.fromEmail,
+      fromName: mail.fromName,
+      toEmail: mail.toEmail,
+      toName: mail.toName,
       subject: mail.subject,
+      html: mail.html,
+      replyTo: mail.replyTo,
       metadata: {
         mailId: id,
       },
-      headers: mail.replyTo ? { 'Reply-To': mail.replyTo } : undefined,
+      attachments: await renderAttachments(mail.trainerId, mail.attachments),
     })
 
     const sentAt = sent.status === 'sent' ? new Date() : null
@@ -49,13 +87,19 @@ export const handleSendMailTask = async ({ id }: WorkflowTaskPayloadMap['sendMai
         queued_at: new Date(),
         sent_at: sentAt,
         rejected_at: rejectedAt,
-        reject_reason: sent.reject_reason ?? null,
-        mandrill_message_id: sent._id,
+        reject_reason: sent.rejectReason,
+        provider: provider.name,
+        provider_message_id: sent.messageId,
+        mandrill_message_id: provider.name === 'mandrill' ? sent.messageId : null,
       })
       .where('id', '=', id)
       .execute()
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error'
-    await db.updateTable('mail').set({ rejected_at: new Date(), reject_reason: message }).where('id', '=', id).execute()
+    await db
+      .updateTable('mail')
+      .set({ rejected_at: new Date(), reject_reason: message, provider: provider.name })
+      .where('id', '=', id)
+      .execute()
   }
 }
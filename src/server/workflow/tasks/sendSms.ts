@@ -1,27 +1,9 @@
-import { Buffer } from 'node:buffer'
-import type { Json } from '@/lib/db'
 import type { WorkflowTaskPayloadMap } from '@/server/workflow/types'
 import { db } from '@/lib/db'
+import { findActiveSuppression, suppressAddress } from '@/server/messageSuppressions'
+import { resolveSmsProvider } from '@/server/workflow/messageProviders'
 import { enqueueWorkflowTask } from '@/server/workflow/outbox'
 
-const buildStatusCallbackUrl = () => {
-  const baseUrl = process.env.BASE_URL ?? 'http://localhost:3001'
-  return new URL('/api/twilioStatusMessage', baseUrl).toString()
-}
-
-const parseTwilioErrorMessage = async (response: Response) => {
-  try {
-    const payload = (await response.json()) as { message?: unknown }
-    if (typeof payload.message === 'string') {
-      return payload.message
-    }
-  } catch {
-    // ignore
-  }
-
-  return `Twilio API responded with status ${response.status}`
-}
-
 export const handleSendSmsTask = async ({ id }: WorkflowTaskPayloadMap['sendSms']) => {
   const smsRow = await db
     .selectFrom('sms')
@@ -34,6 +16,7 @@ export const handleSendSmsTask = async ({ id }: WorkflowTaskPayloadMap['sendSms'
       eb.ref('sms.to_number').as('toNumber'),
       eb.ref('sms.body').as('body'),
       eb.ref('trainer.user_id').as('userId'),
+      eb.ref('trainer.sms_provider').as('smsProvider'),
       eb.ref('client.first_name').as('clientFirstName'),
       eb.ref('client.last_name').as('clientLastName'),
     ])
@@ -46,55 +29,35 @@ export const handleSendSmsTask = async ({ id }: WorkflowTaskPayloadMap['sendSms'
     return
   }
 
-  const clientName = [smsRow.clientFirstName, smsRow.clientLastName].filter(Boolean).join(' ').trim() || null
-  const sms = { ...smsRow, clientName }
-
-  const accountSid = process.env.TWILIO_ACCOUNT_SID
-  const authToken = process.env.TWILIO_AUTH_TOKEN
-  const messagingServiceSid = process.env.TWILIO_MESSAGING_SERVICE_SID
-
-  if (!accountSid || !authToken || (!messagingServiceSid && !sms.fromNumber)) {
-    throw new Error('Twilio not configured')
-  }
-
-  const params = new URLSearchParams()
-  params.set('To', sms.toNumber)
-  params.set('Body', sms.body)
-  params.set('StatusCallback', buildStatusCallbackUrl())
-
-  if (sms.fromNumber) {
-    params.set('From', sms.fromNumber)
-  } else if (messagingServiceSid) {
-    params.set('MessagingServiceSid', messagingServiceSid)
-  }
-
-  let response: Response
-  try {
-    response = await fetch(
-      `https://api.twilio.com/2010-04-01/Accounts/${encodeURIComponent(accountSid)}/Messages.json`,
-      {
-        method: 'POST',
-        headers: {
-          Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: params,
-      }
-    )
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown error'
+  // Failing the text before it reaches the provider also keeps the trainer's credit, as only queued texts are counted.
+  const suppression = await findActiveSuppression(db, smsRow.trainerId, 'sms', smsRow.toNumber)
+  if (suppression) {
     await db
       .updateTable('sms')
-      .set({ queue_failed_at: new Date(), queue_failed_reason: message })
+      .set({ queue_failed_at: new Date(), queue_failed_reason: `suppressed: ${suppression.reason}` })
       .where('id', '=', id)
       .execute()
     return
   }
 
-  if (!response.ok) {
-    const message = await parseTwilioErrorMessage(response)
+  const clientName = [smsRow.clientFirstName, smsRow.clientLastName].filter(Boolean).join(' ').trim() || null
+  const sms = { ...smsRow, clientName }
+
+  const provider = resolveSmsProvider(sms.smsProvider)
+  const result = await provider.send({ from: sms.fromNumber, to: sms.toNumber, body: sms.body })
+
+  if (!result.ok) {
+    if (result.invalidRecipient) {
+      await suppressAddress(db, {
+        channel: 'sms',
+        address: sms.toNumber,
+        reason: 'invalid_number',
+        source: provider.name,
+        detail: result.reason,
+      })
+    }
 
-    if (sms.userId && sms.clientId && sms.clientName && message.endsWith('is not a valid phone number.')) {
+    if (sms.userId && sms.clientId && sms.clientName && result.invalidRecipient) {
       await enqueueWorkflowTask(db, 'user.notify', {
         title: `Text reminder didn't send.`,
         body: `Sending a text reminder to ${sms.clientName} (${sms.toNumber}) failed because the number was invalid. Your credit has been refunded.`,
@@ -107,27 +70,31 @@ export const handleSendSmsTask = async ({ id }: WorkflowTaskPayloadMap['sendSms'
 
     await db
       .updateTable('sms')
-      .set({ queue_failed_at: new Date(), queue_failed_reason: message })
+      .set({ queue_failed_at: new Date(), queue_failed_reason: result.reason, provider: provider.name })
       .where('id', '=', id)
       .execute()
 
     return
   }
 
-  const message = (await response.json()) as { sid?: string }
-  const sanitizedMessage = JSON.parse(JSON.stringify(message)) as Json
-
-  if (message.sid) {
+  // Twilio's status callbacks look messages up by sid, so keep its copy of the message alongside ours.
+  if (provider.name === 'twilio' && result.messageId && result.raw) {
+    const object = result.raw
     await db
       .insertInto('twilio.message')
-      .values({ sid: message.sid, object: sanitizedMessage })
-      .onConflict((oc) => oc.column('sid').doUpdateSet({ object: sanitizedMessage }))
-      .execute()
-
-    await db
-      .updateTable('sms')
-      .set({ queued_at: new Date(), twilio_message_sid: message.sid })
-      .where('id', '=', id)
+      .values({ sid: result.messageId, object })
+      .onConflict((oc) => oc.column('sid').doUpdateSet({ object }))
       .execute()
   }
+
+  await db
+    .updateTable('sms')
+    .set({
+      queued_at: new Date(),
+      provider: provider.name,
+      provider_message_id: result.messageId,
+      twilio_message_sid: provider.name === 'twilio' ? result.messageId : null,
+    })
+    .where('id', '=', id)
+    .execute()
 }
@@ -1,3 +1,5 @@
+import { createTranslator, defaultLocale } from '@/lib/i18n'
+
 const tailwind600: Record<string, string> = {
   amber: '#d97706',
   blue: '#2563eb',
@@ -32,6 +34,8 @@ export type ClientEmailProps = {
   }
   brandColor?: string
   receivingReason: string
+  /** The client's locale, which the footer is written in. Defaults to US English. */
+  locale?: string
 }
 
 const escapeHtml = (value: string) =>
@@ -44,7 +48,16 @@ const escapeHtml = (value: string) =>
 
 const resolveBrandColor = (value?: string) => (value && tailwind600[value]) ?? tailwind600.blue
 
-export function ctaEmail({ bodyHeading, bodyHtml, button, logo, brandColor, receivingReason }: ClientEmailProps) {
+export function ctaEmail({
+  bodyHeading,
+  bodyHtml,
+  button,
+  logo,
+  brandColor,
+  receivingReason,
+  locale,
+}: ClientEmailProps) {
+  const { language, t } = createTranslator(locale ?? defaultLocale)
   const buttonColor = resolveBrandColor(brandColor)
   const logoMarkup = logo?.url
     ? `<img src="${logo.url}" alt="${escapeHtml(logo.alt ?? '')}" style="max-width:160px;height:auto;border-radius:12px;" />`
@@ -54,7 +67,7 @@ export function ctaEmail({ bodyHeading, bodyHtml, button, logo, brandColor, rece
     : ''
 
   return `<!doctype html>
-<html lang="en">
+<html lang="${language}">
   <body style="margin:0;padding:0;background-color:#f7f9fb;font-family:Arial,sans-serif;">
     <table role="presentation" cellpadding="0" cellspacing="0" width="100%">
       <tr>
@@ -78,7 +91,7 @@ export function ctaEmail({ bodyHeading, bodyHtml, button, logo, brandColor, rece
             ${buttonMarkup ? `<tr><td align="center" style="padding:16px 0;">${buttonMarkup}</td></tr>` : ''}
             <tr>
               <td style="font-size:12px;line-height:1.6;color:#6b7280;padding-top:16px;text-align:center;">
-                You received this email because ${escapeHtml(receivingReason)}.
+                ${escapeHtml(t('email.footer', { reason: receivingReason }))}
               </td>
             </tr>
           </table>
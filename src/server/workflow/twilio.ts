@@ -0,0 +1,165 @@
+import { Buffer } from 'node:buffer'
+import crypto from 'node:crypto'
+
+export type TwilioMessage = {
+  sid?: string
+  status?: string
+  [key: string]: unknown
+}
+
+export type TwilioSendResult =
+  | { ok: true; message: TwilioMessage }
+  | { ok: false; errorMessage: string; invalidRecipient: boolean }
+
+export const isFormUrlEncoded = (contentType: string) =>
+  contentType.toLowerCase().startsWith('application/x-www-form-urlencoded')
+
+const buildValidationUrl = (requestUrl: string) => {
+  const url = new URL(requestUrl)
+  const baseUrl = process.env.BASE_URL
+
+  if (baseUrl) {
+    const parsedBase = new URL(baseUrl)
+    url.host = parsedBase.host
+    url.protocol = 'https:'
+  }
+
+  return url.toString()
+}
+
+const secureCompare = (a: string, b: string) => {
+  const aBuffer = Buffer.from(a)
+  const bBuffer = Buffer.from(b)
+
+  if (aBuffer.length !== bBuffer.length) {
+    return false
+  }
+
+  return crypto.timingSafeEqual(aBuffer, bBuffer)
+}
+
+const buildExpectedSignature = ({
+  authToken,
+  url,
+  rawBody,
+  contentType,
+}: {
+  authToken: string
+  url: string
+  rawBody: string
+  contentType: string
+}) => {
+  if (isFormUrlEncoded(contentType)) {
+    const params = new URLSearchParams(rawBody)
+    const sortedEntries = [...params.entries()].toSorted(([a], [b]) => a.localeCompare(b))
+    const data = url + sortedEntries.map(([key, value]) => key + value).join('')
+    return crypto.createHmac('sha1', authToken).update(data).digest('base64')
+  }
+
+  return crypto
+    .createHmac('sha1', authToken)
+    .update(url + rawBody)
+    .digest('base64')
+}
+
+/** Checks the `X-Twilio-Signature` header of a webhook request against the body Twilio signed. */
+export const validateTwilioSignature = ({
+  authToken,
+  signature,
+  requestUrl,
+  rawBody,
+  contentType,
+}: {
+  authToken: string
+  signature: string
+  requestUrl: string
+  rawBody: string
+  contentType: string
+}) => {
+  const expectedSignature = buildExpectedSignature({
+    authToken,
+    url: buildValidationUrl(requestUrl),
+    rawBody,
+    contentType,
+  })
+  return secureCompare(signature, expectedSignature)
+}
+
+const buildStatusCallbackUrl = () => {
+  const baseUrl = process.env.BASE_URL ?? 'http://localhost:3001'
+  return new URL('/api/twilioStatusMessage', baseUrl).toString()
+}
+
+const parseTwilioErrorMessage = async (response: Response) => {
+  try {
+    const payload = (await response.json()) as { message?: unknown }
+    if (typeof payload.message === 'string') {
+      return payload.message
+    }
+  } catch {
+    // ignore
+  }
+
+  return `Twilio API responded with status ${response.status}`
+}
+
+/**
+ * Queues a text with Twilio. Configuration problems throw so the task is retried, while Twilio refusing the message
+ * (or the request never reaching it) comes back as a failed result.
+ */
+export const sendTwilioMessage = async ({
+  to,
+  body,
+  from,
+}: {
+  to: string
+  body: string
+  from: string | null
+}): Promise<TwilioSendResult> => {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID
+  const authToken = process.env.TWILIO_AUTH_TOKEN
+  const messagingServiceSid = process.env.TWILIO_MESSAGING_SERVICE_SID
+
+  if (!accountSid || !authToken || (!messagingServiceSid && !from)) {
+    throw new Error('Twilio not configured')
+  }
+
+  const params = new URLSearchParams()
+  params.set('To', to)
+  params.set('Body', body)
+  params.set('StatusCallback', buildStatusCallbackUrl())
+
+  if (from) {
+    params.set('From', from)
+  } else if (messagingServiceSid) {
+    params.set('MessagingServiceSid', messagingServiceSid)
+  }
+
+  let response: Response
+  try {
+    response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${encodeURIComponent(accountSid)}/Messages.json`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: params,
+      }
+    )
+  } catch (error) {
+    return {
+      ok: false,
+      errorMessage: error instanceof Error ? error.message : 'Unknown error',
+      invalidRecipient: false,
+    }
+  }
+
+  if (!response.ok) {
+    const errorMessage = await parseTwilioErrorMessage(response)
+    return { ok: false, errorMessage, invalidRecipient: errorMessage.endsWith('is not a valid phone number.') }
+  }
+
+  return { ok: true, message: (await response.json()) as TwilioMessage }
+}
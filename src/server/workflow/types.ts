@@ -3,6 +3,7 @@ import { z } from 'zod'
 export const workflowTaskTypeSchema = z.enum([
   'user.notify',
   'payment-plan.charge-outstanding',
+  'sale.charge-outstanding',
   'sendMail',
   'sendSms',
   'processStripeEvent',
@@ -16,6 +17,9 @@ export const workflowTaskTypeSchema = z.enum([
   'sendPaymentReminders',
   'sendAppointmentReminders',
   'tagTrialledDidntSub',
+  'expireWaitlistClaim',
+  'expireCreditPack',
+  'runClientCampaigns',
 ])
 
 export type WorkflowTaskType = z.infer<typeof workflowTaskTypeSchema>
@@ -45,6 +49,10 @@ const chargeOutstandingPayloadSchema = z.object({
   forScheduledTask: z.boolean().optional(),
 })
 
+const chargeOutstandingSalePayloadSchema = z.object({
+  saleId: z.string().trim().min(1),
+})
+
 const sendMailPayloadSchema = z.object({ id: z.string().trim().min(1) })
 const sendSmsPayloadSchema = z.object({ id: z.string().trim().min(1) })
 const processStripeEventPayloadSchema = z.object({ id: z.string().trim().min(1) })
@@ -74,13 +82,27 @@ const updateMailchimpListMemberTagsPayloadSchema = z.object({
   tags: z.array(mailchimpListMemberTagSchema).min(1),
 })
 
+const expireWaitlistClaimPayloadSchema = z.object({
+  clientSessionId: z.string().trim().min(1),
+})
+
+const expireCreditPackPayloadSchema = z.object({
+  saleCreditPackId: z.string().trim().min(1),
+})
+
 const scheduledTaskPayloadSchema = z.object({
   scheduledAt: z.string().datetime({ offset: true }).optional(),
 })
 
+const sendPaymentRemindersPayloadSchema = scheduledTaskPayloadSchema.extend({
+  /** ISO 3166 alpha-2 codes, so each region can have its own schedule at a sensible local hour. */
+  trainerCountries: z.array(z.string().trim().length(2).toUpperCase()).min(1).optional(),
+})
+
 export const workflowTaskPayloadSchemas = {
   'user.notify': userNotifyPayloadSchema,
   'payment-plan.charge-outstanding': chargeOutstandingPayloadSchema,
+  'sale.charge-outstanding': chargeOutstandingSalePayloadSchema,
   sendMail: sendMailPayloadSchema,
   sendSms: sendSmsPayloadSchema,
   processStripeEvent: processStripeEventPayloadSchema,
@@ -91,11 +113,145 @@ export const workflowTaskPayloadSchemas = {
   updateMailchimpListMemberTags: updateMailchimpListMemberTagsPayloadSchema,
   refreshAppStoreReceipts: scheduledTaskPayloadSchema,
   chargePaymentPlans: scheduledTaskPayloadSchema,
-  sendPaymentReminders: scheduledTaskPayloadSchema,
+  sendPaymentReminders: sendPaymentRemindersPayloadSchema,
   sendAppointmentReminders: scheduledTaskPayloadSchema,
   tagTrialledDidntSub: scheduledTaskPayloadSchema,
+  expireWaitlistClaim: expireWaitlistClaimPayloadSchema,
+  expireCreditPack: expireCreditPackPayloadSchema,
+  runClientCampaigns: scheduledTaskPayloadSchema,
 } as const satisfies Record<WorkflowTaskType, z.ZodTypeAny>
 
+export type WorkflowTaskRetryPolicy = {
+  /** Attempts before the task is dead-lettered. Used as the outbox row's `max_attempts` when it's enqueued. */
+  maxAttempts: number
+  /** Wait before the first retry. Each retry after that waits twice as long, up to `maxBackoffSeconds`. */
+  minBackoffSeconds: number
+  maxBackoffSeconds: number
+  /** How far each wait is randomly stretched or shrunk, so tasks that failed together don't all retry together. */
+  jitter: number
+  /** Errors, by class name, that will fail the same way however often the task is retried. */
+  fatalErrors: readonly string[]
+}
+
+/** Failures no task recovers from by retrying: a payload that doesn't parse, or a task that gave up on purpose. */
+const alwaysFatalErrors = ['FatalError', 'ZodError']
+
+const defaultRetryPolicy: WorkflowTaskRetryPolicy = {
+  maxAttempts: 25,
+  minBackoffSeconds: 5,
+  maxBackoffSeconds: 3_600,
+  jitter: 0.2,
+  fatalErrors: alwaysFatalErrors,
+}
+
+/** Stripe rejecting the request itself, as opposed to being down or rate limiting us. */
+const stripeRequestErrors = [
+  'StripeCardError',
+  'StripeInvalidRequestError',
+  'StripeAuthenticationError',
+  'StripePermissionError',
+  'StripeIdempotencyError',
+]
+
+const chargeRetryPolicy: WorkflowTaskRetryPolicy = {
+  maxAttempts: 5,
+  minBackoffSeconds: 60,
+  maxBackoffSeconds: 3_600,
+  jitter: 0.2,
+  fatalErrors: [
+    ...alwaysFatalErrors,
+    ...stripeRequestErrors,
+    'NoPaymentMethodOnFile',
+    'StripePaymentsBlocked',
+    'StripePaymentsNotEnabled',
+    'ChargeFailedBecauseNotVerified',
+  ],
+}
+
+/** Webhook events are already stored, so processing can keep retrying for as long as the provider would resend. */
+const webhookEventRetryPolicy: WorkflowTaskRetryPolicy = {
+  maxAttempts: 25,
+  minBackoffSeconds: 30,
+  maxBackoffSeconds: 6 * 3_600,
+  jitter: 0.2,
+  fatalErrors: alwaysFatalErrors,
+}
+
+/** Sending twice is worse than not sending. The mail and sms rows record delivery failures themselves. */
+const messageRetryPolicy: WorkflowTaskRetryPolicy = {
+  ...defaultRetryPolicy,
+  maxAttempts: 1,
+}
+
+const mailchimpRetryPolicy: WorkflowTaskRetryPolicy = {
+  maxAttempts: 10,
+  minBackoffSeconds: 60,
+  maxBackoffSeconds: 6 * 3_600,
+  jitter: 0.2,
+  fatalErrors: alwaysFatalErrors,
+}
+
+/** Recurring tasks are scheduled again regardless, so a run that keeps failing is better skipped than retried. */
+const recurringRetryPolicy = (maxAttempts: number): WorkflowTaskRetryPolicy => ({
+  maxAttempts,
+  minBackoffSeconds: 60,
+  maxBackoffSeconds: 600,
+  jitter: 0.2,
+  fatalErrors: alwaysFatalErrors,
+})
+
+export const workflowTaskRetryPolicies = {
+  'user.notify': { ...defaultRetryPolicy, maxAttempts: 5, minBackoffSeconds: 10, maxBackoffSeconds: 600 },
+  'payment-plan.charge-outstanding': chargeRetryPolicy,
+  'sale.charge-outstanding': chargeRetryPolicy,
+  sendMail: messageRetryPolicy,
+  sendSms: messageRetryPolicy,
+  processStripeEvent: webhookEventRetryPolicy,
+  processMandrillEvent: webhookEventRetryPolicy,
+  createStripeAccount: {
+    ...defaultRetryPolicy,
+    maxAttempts: 10,
+    minBackoffSeconds: 30,
+    fatalErrors: [...alwaysFatalErrors, ...stripeRequestErrors],
+  },
+  'mailchimp.subscribe': mailchimpRetryPolicy,
+  'mailchimp.refresh_user_properties': mailchimpRetryPolicy,
+  updateMailchimpListMemberTags: mailchimpRetryPolicy,
+  refreshAppStoreReceipts: recurringRetryPolicy(2),
+  chargePaymentPlans: recurringRetryPolicy(2),
+  sendPaymentReminders: recurringRetryPolicy(1),
+  sendAppointmentReminders: recurringRetryPolicy(1),
+  tagTrialledDidntSub: recurringRetryPolicy(1),
+  expireWaitlistClaim: { ...defaultRetryPolicy, maxAttempts: 10, minBackoffSeconds: 30 },
+  expireCreditPack: { ...defaultRetryPolicy, maxAttempts: 10, minBackoffSeconds: 30 },
+  runClientCampaigns: recurringRetryPolicy(1),
+} as const satisfies Record<WorkflowTaskType, WorkflowTaskRetryPolicy>
+
+/** Falls back to the default policy for rows whose task type is no longer known. */
+export const getWorkflowTaskRetryPolicy = (taskType: string): WorkflowTaskRetryPolicy => {
+  const parsed = workflowTaskTypeSchema.safeParse(taskType)
+  return parsed.success ? workflowTaskRetryPolicies[parsed.data] : defaultRetryPolicy
+}
+
+/** Stripe errors keep their class name in `type` rather than `name`, so both are checked. */
+export const isFatalWorkflowTaskError = (taskType: string, error: unknown) => {
+  if (!(error instanceof Error)) {
+    return false
+  }
+
+  const { fatalErrors } = getWorkflowTaskRetryPolicy(taskType)
+  const errorType = (error as { type?: unknown }).type
+  return fatalErrors.includes(error.name) || (typeof errorType === 'string' && fatalErrors.includes(errorType))
+}
+
+/** Seconds to wait before retrying after the given (1-based) attempt failed. */
+export const getWorkflowTaskRetryDelaySeconds = (taskType: string, attempt: number) => {
+  const policy = getWorkflowTaskRetryPolicy(taskType)
+  const backoffSeconds = Math.min(policy.maxBackoffSeconds, policy.minBackoffSeconds * 2 ** Math.max(0, attempt - 1))
+  const jitter = 1 - policy.jitter + Math.random() * policy.jitter * 2
+  return Math.round(Math.min(policy.maxBackoffSeconds, Math.max(policy.minBackoffSeconds, backoffSeconds * jitter)))
+}
+
 export type WorkflowTaskPayloadMap = {
   [K in WorkflowTaskType]: z.infer<(typeof workflowTaskPayloadSchemas)[K]>
 }
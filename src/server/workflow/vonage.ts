@@ -0,0 +1,78 @@
+export type VonageMessageResult = {
+  status: string
+  'message-id'?: string
+  'error-text'?: string
+  to?: string
+}
+
+export type VonageSendResult =
+  | { ok: true; message: VonageMessageResult }
+  | { ok: false; errorMessage: string; invalidRecipient: boolean }
+
+/** Vonage status codes for a destination number that can't be delivered to. */
+const invalidRecipientStatuses = new Set(['6', '15'])
+
+/**
+ * Sends a text through the Vonage SMS API. Vonage wants numbers without the leading `+` and falls back to
+ * `VONAGE_FROM` (a number or alphanumeric sender id) when the message has no sender of its own.
+ */
+export const sendVonageMessage = async ({
+  to,
+  body,
+  from,
+}: {
+  to: string
+  body: string
+  from: string | null
+}): Promise<VonageSendResult> => {
+  const apiKey = process.env.VONAGE_API_KEY
+  const apiSecret = process.env.VONAGE_API_SECRET
+  const sender = from ?? process.env.VONAGE_FROM
+
+  if (!apiKey || !apiSecret || !sender) {
+    throw new Error('Vonage not configured')
+  }
+
+  const params = new URLSearchParams()
+  params.set('api_key', apiKey)
+  params.set('api_secret', apiSecret)
+  params.set('from', sender.replace(/^\+/, ''))
+  params.set('to', to.replace(/^\+/, ''))
+  params.set('text', body)
+
+  let response: Response
+  try {
+    response = await fetch('https://rest.nexmo.com/sms/json', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: params,
+    })
+  } catch (error) {
+    return {
+      ok: false,
+      errorMessage: error instanceof Error ? error.message : 'Unknown error',
+      invalidRecipient: false,
+    }
+  }
+
+  if (!response.ok) {
+    return { ok: false, errorMessage: `Vonage API responded with status ${response.status}`, invalidRecipient: false }
+  }
+
+  const payload = (await response.json()) as { messages?: VonageMessageResult[] }
+  const message = payload.messages?.[0]
+
+  if (!message) {
+    return { ok: false, errorMessage: 'Vonage returned no results', invalidRecipient: false }
+  }
+
+  if (message.status !== '0') {
+    return {
+      ok: false,
+      errorMessage: message['error-text'] ?? `Vonage rejected the message with status ${message.status}`,
+      invalidRecipient: invalidRecipientStatuses.has(message.status),
+    }
+  }
+
+  return { ok: true, message }
+}